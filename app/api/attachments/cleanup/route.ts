@@ -0,0 +1,40 @@
+import { cleanUpAttachments, createServiceClient, DEFAULT_GRACE_DAYS } from '@/lib/attachmentCleanup'
+
+// Orphaned attachment cleanup, for a cron job or scripts/cleanup-attachments.sh.
+// GET reports what would be deleted; POST deletes it. Both need the cleanup secret.
+export const dynamic = 'force-dynamic'
+
+async function run(request: Request, dryRun: boolean) {
+    const secret = process.env.ATTACHMENT_CLEANUP_SECRET
+    if (!secret) {
+        return new Response('Attachment cleanup is not configured', { status: 404 })
+    }
+    if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+        return new Response('Unauthorized', { status: 401 })
+    }
+
+    const client = createServiceClient()
+    if (!client) {
+        return new Response('Attachment cleanup needs a Supabase project and SUPABASE_SERVICE_ROLE_KEY', { status: 503 })
+    }
+
+    const graceParam = new URL(request.url).searchParams.get('graceDays')
+    const graceDays = graceParam === null ? DEFAULT_GRACE_DAYS : Number(graceParam)
+    if (!Number.isFinite(graceDays) || graceDays < 0) {
+        return new Response('graceDays must be a number of days', { status: 400 })
+    }
+
+    const report = await cleanUpAttachments({ dryRun, graceDays }, client)
+    if (!report) {
+        return new Response('Could not read the attachments bucket or its rows', { status: 500 })
+    }
+    return Response.json(report)
+}
+
+export async function GET(request: Request) {
+    return run(request, true)
+}
+
+export async function POST(request: Request) {
+    return run(request, false)
+}
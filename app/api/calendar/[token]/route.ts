@@ -0,0 +1,22 @@
+import { renderCalendarFeed } from '@/lib/calendarFeed'
+
+// Calendar apps poll this URL; the token in the path is the only credential
+export const dynamic = 'force-dynamic'
+
+export async function GET(_request: Request, { params }: { params: Promise<{ token: string }> }) {
+    const { token } = await params
+    // Some calendar apps only accept URLs ending in .ics
+    const calendar = await renderCalendarFeed(token.replace(/\.ics$/, ''))
+
+    if (!calendar) {
+        return new Response('Calendar feed not found', { status: 404 })
+    }
+
+    return new Response(calendar, {
+        headers: {
+            'Content-Type': 'text/calendar; charset=utf-8',
+            'Content-Disposition': 'inline; filename="sdaily.ics"',
+            'Cache-Control': 'private, max-age=300'
+        }
+    })
+}
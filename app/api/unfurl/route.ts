@@ -0,0 +1,63 @@
+import { createClient } from '@supabase/supabase-js'
+import { supabaseProject } from '@/lib/supabaseClient'
+import { fetchUnfurl } from '@/lib/unfurlFetch'
+
+// Link cards for the attachment preview. Pages are fetched here because browsers can't read
+// other sites' HTML. So the route isn't an open proxy, it needs a signed-in user when there is
+// a Supabase project, and every caller is limited to a few pages a minute either way.
+export const dynamic = 'force-dynamic'
+
+const RATE_LIMIT = 30
+const RATE_WINDOW_MS = 60 * 1000
+
+// Requests per caller in the current window. Per server instance, which is enough to keep
+// one caller from using the route to crawl.
+const recentRequests = new Map<string, { count: number; windowStart: number }>()
+
+function isRateLimited(key: string, now: number = Date.now()): boolean {
+    for (const [caller, entry] of recentRequests) {
+        if (now - entry.windowStart >= RATE_WINDOW_MS) recentRequests.delete(caller)
+    }
+    const entry = recentRequests.get(key) ?? { count: 0, windowStart: now }
+    entry.count += 1
+    recentRequests.set(key, entry)
+    return entry.count > RATE_LIMIT
+}
+
+// The signed-in user's id, null without a valid session, or 'local' when there are no accounts
+async function caller(request: Request): Promise<string | null> {
+    if (!supabaseProject) return 'local'
+
+    const token = request.headers.get('authorization')?.replace(/^Bearer /, '')
+    if (!token) return null
+    const client = createClient(supabaseProject.url, supabaseProject.anonKey, {
+        auth: { persistSession: false, autoRefreshToken: false }
+    })
+    const { data, error } = await client.auth.getUser(token)
+    return error || !data.user ? null : data.user.id
+}
+
+export async function GET(request: Request) {
+    const url = new URL(request.url).searchParams.get('url')
+    if (!url) {
+        return new Response('Missing url', { status: 400 })
+    }
+
+    const user = await caller(request)
+    if (!user) {
+        return new Response('Unauthorized', { status: 401 })
+    }
+    const address = request.headers.get('x-forwarded-for')?.split(',')[0].trim() ?? 'unknown'
+    if (isRateLimited(user === 'local' ? address : user)) {
+        return new Response('Too many link previews, try again in a minute', { status: 429 })
+    }
+
+    const unfurl = await fetchUnfurl(url)
+    if (!unfurl) {
+        return new Response('Link preview not available', { status: 404 })
+    }
+
+    return Response.json(unfurl, {
+        headers: { 'Cache-Control': 'private, max-age=86400' }
+    })
+}
@@ -3,7 +3,14 @@ import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { ThemeProvider } from "@/components/ThemeProvider";
 import { DataProvider } from "@/lib/DataContext";
+import { AuthProvider } from "@/lib/AuthContext";
+import { WorkspaceProvider } from "@/lib/WorkspaceContext";
+import { HistoryProvider } from "@/lib/HistoryContext";
+import AuthGate from "@/components/auth/AuthGate";
 import Navbar from "@/components/Navbar";
+import UndoToast from "@/components/UndoToast";
+import SyncConflicts from "@/components/SyncConflicts";
+import SyncFailures from "@/components/SyncFailures";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -34,14 +41,25 @@ export default function RootLayout({
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
         <ThemeProvider>
-          <DataProvider>
-            <Navbar />
-            <main className="pt-16 min-h-screen">
-              <div className="p-8 max-w-7xl mx-auto">
-                {children}
-              </div>
-            </main>
-          </DataProvider>
+          <AuthProvider>
+            <AuthGate>
+              <WorkspaceProvider>
+                <DataProvider>
+                  <HistoryProvider>
+                    <Navbar />
+                    <main className="pt-16 min-h-screen print:pt-0">
+                      <div className="p-8 max-w-7xl mx-auto print:p-0">
+                        {children}
+                      </div>
+                    </main>
+                    <UndoToast />
+                    <SyncConflicts />
+                    <SyncFailures />
+                  </HistoryProvider>
+                </DataProvider>
+              </WorkspaceProvider>
+            </AuthGate>
+          </AuthProvider>
         </ThemeProvider>
       </body>
     </html>
@@ -20,6 +20,7 @@ import {
 } from 'date-fns'
 import { ChevronLeft, ChevronRight, CheckCircle2, Clock, Target, CalendarDays, Zap } from 'lucide-react'
 import { formatTimeTo12h } from '@/lib/utils'
+import { expandPlans, getPlansForDay, occurrenceKey } from '@/lib/recurrence'
 import clsx from 'clsx'
 
 // Motivational quotes
@@ -84,6 +85,7 @@ export default function Home() {
   const calendarStart = startOfWeek(monthStart)
   const calendarEnd = endOfWeek(monthEnd)
   const calendarDays = eachDayOfInterval({ start: calendarStart, end: calendarEnd })
+  const calendarPlans = expandPlans(plans, format(calendarStart, 'yyyy-MM-dd'), format(calendarEnd, 'yyyy-MM-dd'))
 
   // Get greeting based on time and day
   const getGreeting = () => {
@@ -128,13 +130,7 @@ export default function Home() {
 
   // Get today's plans
   const todayStr = format(new Date(), 'yyyy-MM-dd')
-  const todaysPlans = plans.filter(plan => {
-    if (plan.date === todayStr) return true
-    if (plan.hasDueDate && plan.dueDate) {
-      return plan.date <= todayStr && plan.dueDate >= todayStr
-    }
-    return false
-  })
+  const todaysPlans = getPlansForDay(plans, todayStr)
 
   // Get first task today (prioritize ones with time slots)
   const getFirstTask = () => {
@@ -190,7 +186,7 @@ export default function Home() {
 
   // Due Today: Count BOTH plans and cards due today
   // Plans due today (not completed)
-  const plansDueToday = plans.filter(plan => {
+  const plansDueToday = todaysPlans.filter(plan => {
     if (plan.completed) return false
     const todayStr = format(new Date(), 'yyyy-MM-dd')
     // Check if plan date is today
@@ -474,7 +470,7 @@ export default function Home() {
                 {calendarDays.map(day => {
                   const isToday = isSameDay(day, new Date())
                   const isCurrentMonth = isSameMonth(day, monthStart)
-                  const hasPlans = plans.some(p => p.date === format(day, 'yyyy-MM-dd'))
+                  const hasPlans = calendarPlans.some(p => p.date === format(day, 'yyyy-MM-dd'))
 
                   return (
                     <div
@@ -566,7 +562,7 @@ export default function Home() {
                   <div className="space-y-1">
                     {todaysPlans.filter(p => !p.timeSlots || p.timeSlots.length === 0).slice(0, 3).map(plan => (
                       <div
-                        key={plan.id}
+                        key={occurrenceKey(plan)}
                         className={clsx(
                           "text-sm p-2 rounded-lg truncate",
                           plan.completed
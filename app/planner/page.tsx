@@ -1,16 +1,25 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { useTheme } from '@/components/ThemeProvider'
 import { useData } from '@/lib/DataContext'
+import { useHistory } from '@/lib/HistoryContext'
 import CalendarGrid from '@/components/planner/CalendarGrid'
 import AddPlanModal from '@/components/planner/AddPlanModal'
 import TodaysPlansDock from '@/components/planner/TodaysPlansDock'
-import { Plan, PlanFormData } from '@/lib/types'
-import { fetchPlans, createPlan, updatePlan, deletePlan } from '@/lib/supabaseService'
-import { format } from 'date-fns'
+import RecurrenceScopeDialog from '@/components/planner/RecurrenceScopeDialog'
+import IcsImportDialog from '@/components/planner/IcsImportDialog'
+import PlanChecklist from '@/components/planner/PlanChecklist'
+import PlanComments from '@/components/planner/PlanComments'
+import AttachmentPreview from '@/components/AttachmentPreview'
+import { Attachment, Plan, PlanException, PlanFormData, RecurrenceEditScope } from '@/lib/types'
+import { fetchPlans, createPlan, updatePlan, deletePlan, restorePlan, upsertPlanException, splitPlanSeries } from '@/lib/supabaseService'
+import { describeRecurrence, splitRecurrence } from '@/lib/recurrence'
+import { IcsImportCandidate, prepareIcsImport } from '@/lib/icsImport'
+import { invoiceDeadlines } from '@/lib/invoices'
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns'
 import clsx from 'clsx'
-import { Plus, Check, Trash2, Clock, X, Edit } from 'lucide-react'
+import { Plus, Check, Trash2, Clock, X, Edit, Repeat, CalendarArrowDown } from 'lucide-react'
 import { formatTimeTo12h } from '@/lib/utils'
 
 type CalendarView = 'day' | 'week' | 'month'
@@ -18,13 +27,25 @@ type CalendarView = 'day' | 'week' | 'month'
 export default function PlannerPage() {
     const { theme } = useTheme()
     const isDark = theme === 'dark'
-    const { plans, setPlans, isLoading } = useData()
+    const { plans, setPlans, isLoading, invoices, clients, revenues } = useData()
+    const { record } = useHistory()
 
     const [isModalOpen, setIsModalOpen] = useState(false)
     const [selectedDate, setSelectedDate] = useState(new Date())
     const [selectedPlan, setSelectedPlan] = useState<Plan | null>(null)
     const [planToEdit, setPlanToEdit] = useState<Plan | null>(null)
     const [calendarView, setCalendarView] = useState<CalendarView>('month')
+    const [scopeRequest, setScopeRequest] = useState<{
+        title: string
+        resolve: (scope: RecurrenceEditScope | null) => void
+    } | null>(null)
+    const [icsCandidates, setIcsCandidates] = useState<IcsImportCandidate[] | null>(null)
+    const [isDraggingFile, setIsDraggingFile] = useState(false)
+    const [previewAttachment, setPreviewAttachment] = useState<Attachment | null>(null)
+
+    // Due dates of unpaid invoices sit alongside the plans
+    const deadlines = invoiceDeadlines(invoices, clients, revenues)
+    const icsInputRef = useRef<HTMLInputElement>(null)
 
     const handleDateClick = (date: Date) => {
         setSelectedDate(date)
@@ -36,22 +57,145 @@ export default function PlannerPage() {
         setSelectedPlan(plan)
     }
 
+    // Recurring plans ask which occurrences a change applies to before saving
+    const askScope = (title: string) =>
+        new Promise<RecurrenceEditScope | null>(resolve => setScopeRequest({ title, resolve }))
+
+    const resolveScope = (scope: RecurrenceEditScope | null) => {
+        scopeRequest?.resolve(scope)
+        setScopeRequest(null)
+    }
+
+    const replacePlan = (updated: Plan) => {
+        setPlans(prev => prev.map(p => p.id === updated.id ? updated : p))
+    }
+
+    const applyFormData = (base: Plan, formData: PlanFormData): Plan => ({
+        ...base,
+        title: formData.title,
+        description: formData.description || undefined,
+        date: formData.date,
+        timeSlots: (!formData.hasDueDate && formData.includeTime) ? formData.timeSlots : undefined,
+        hasDueDate: formData.hasDueDate,
+        dueDate: formData.hasDueDate ? formData.dueDate : undefined,
+        attachments: formData.attachments.length > 0 ? formData.attachments : undefined,
+        checklist: formData.checklist,
+        comments: formData.comments,
+        recurrence: formData.recurrence,
+    })
+
+    // Creates or updates the exception for a single occurrence of a series
+    const saveException = async (series: Plan, occurrenceDate: string, changes: Partial<PlanException>) => {
+        const existing = series.exceptions?.find(e => e.occurrenceDate === occurrenceDate)
+        const exception: PlanException = {
+            id: existing?.id ?? crypto.randomUUID(),
+            planId: series.id,
+            occurrenceDate,
+            cancelled: existing?.cancelled ?? false,
+            completed: existing?.completed ?? false,
+            title: existing?.title,
+            description: existing?.description,
+            timeSlots: existing?.timeSlots,
+            ...changes
+        }
+        const saved = await upsertPlanException(exception)
+        if (saved) {
+            setPlans(prev => prev.map(p => p.id === series.id
+                ? { ...p, exceptions: [...(p.exceptions || []).filter(e => e.occurrenceDate !== occurrenceDate), saved] }
+                : p
+            ))
+        }
+        return saved
+    }
+
+    // Writes the plan's checklist and comments, skipping the write when neither changed
+    const saveLists = async (series: Plan, lists: Pick<Plan, 'checklist' | 'comments'>) => {
+        if (JSON.stringify(lists) === JSON.stringify({ checklist: series.checklist ?? [], comments: series.comments ?? [] })) return
+        const updated: Plan = { ...series, ...lists, occurrenceDate: undefined }
+        if (await updatePlan(updated)) {
+            replacePlan(updated)
+        }
+    }
+
+    const saveOccurrenceEdit = async (series: Plan, occurrenceDate: string, formData: PlanFormData) => {
+        const scope = await askScope('Edit recurring plan')
+        if (!scope) return
+
+        if (scope === 'this') {
+            const span = series.hasDueDate && series.dueDate
+                ? differenceInCalendarDays(parseISO(series.dueDate), parseISO(series.date))
+                : 0
+            const occurrenceDueDate = format(addDays(parseISO(occurrenceDate), span), 'yyyy-MM-dd')
+            const dueDateChanged = formData.hasDueDate !== series.hasDueDate
+                || (formData.hasDueDate && formData.dueDate !== occurrenceDueDate)
+
+            if (formData.date !== occurrenceDate || dueDateChanged) {
+                // Moving a single occurrence or changing its due date, which an exception can't hold:
+                // drop it from the series and keep it as a standalone plan
+                const standalone: Plan = {
+                    ...applyFormData(series, formData),
+                    id: crypto.randomUUID(),
+                    // The series keeps its rows, so the moved occurrence gets copies
+                    checklist: formData.checklist.map(item => ({ ...item, id: crypto.randomUUID() })),
+                    comments: formData.comments.map(c => ({ ...c, id: crypto.randomUUID() })),
+                    recurrence: null,
+                    exceptions: undefined,
+                    completed: false,
+                    createdAt: new Date().toISOString()
+                }
+                if (await createPlan(standalone)) {
+                    await saveException(series, occurrenceDate, { cancelled: true })
+                    setPlans(prev => [...prev, standalone])
+                }
+            } else {
+                await saveException(series, occurrenceDate, {
+                    title: formData.title,
+                    description: formData.description || undefined,
+                    timeSlots: (!formData.hasDueDate && formData.includeTime) ? formData.timeSlots : undefined,
+                })
+                // Every occurrence shares the series' checklist and comments
+                await saveLists(series, { checklist: formData.checklist, comments: formData.comments })
+            }
+        } else if (scope === 'following') {
+            const result = await splitPlanSeries(series, occurrenceDate, applyFormData(series, formData))
+            if (result) {
+                setPlans(prev => [
+                    ...prev.filter(p => p.id !== series.id),
+                    ...(result.original ? [result.original] : []),
+                    result.created
+                ])
+            }
+        } else {
+            // Shift the series start by however far this occurrence was moved
+            const offset = differenceInCalendarDays(parseISO(formData.date), parseISO(occurrenceDate))
+            const date = format(addDays(parseISO(series.date), offset), 'yyyy-MM-dd')
+            const span = differenceInCalendarDays(parseISO(formData.dueDate), parseISO(formData.date))
+            const updated: Plan = {
+                ...applyFormData(series, formData),
+                date,
+                dueDate: formData.hasDueDate ? format(addDays(parseISO(date), span), 'yyyy-MM-dd') : undefined,
+                occurrenceDate: undefined
+            }
+            if (await updatePlan(updated)) {
+                replacePlan(updated)
+            }
+        }
+    }
+
     const handleSavePlan = async (formData: PlanFormData) => {
         if (planToEdit) {
-            // Update existing plan
-            const updatedPlan: Plan = {
-                ...planToEdit,
-                title: formData.title,
-                description: formData.description || undefined,
-                date: formData.date,
-                timeSlots: (!formData.hasDueDate && formData.includeTime) ? formData.timeSlots : undefined,
-                hasDueDate: formData.hasDueDate,
-                dueDate: formData.hasDueDate ? formData.dueDate : undefined,
-                attachments: formData.attachments.length > 0 ? formData.attachments : undefined,
+            const series = planToEdit.occurrenceDate ? plans.find(p => p.id === planToEdit.id) : undefined
+            if (series && planToEdit.occurrenceDate) {
+                await saveOccurrenceEdit(series, planToEdit.occurrenceDate, formData)
+                setPlanToEdit(null)
+                return
             }
+
+            // Update existing plan
+            const updatedPlan = applyFormData(planToEdit, formData)
             const success = await updatePlan(updatedPlan)
             if (success) {
-                setPlans(plans.map(p => p.id === planToEdit.id ? updatedPlan : p))
+                replacePlan(updatedPlan)
             }
             setPlanToEdit(null)
         } else {
@@ -65,6 +209,9 @@ export default function PlannerPage() {
                 hasDueDate: formData.hasDueDate,
                 dueDate: formData.hasDueDate ? formData.dueDate : undefined,
                 attachments: formData.attachments.length > 0 ? formData.attachments : undefined,
+                checklist: formData.checklist,
+                comments: formData.comments,
+                recurrence: formData.recurrence,
                 completed: false,
                 createdAt: new Date().toISOString()
             }
@@ -75,28 +222,114 @@ export default function PlannerPage() {
         }
     }
 
-    const handleToggleComplete = async (planId: string) => {
-        const plan = plans.find(p => p.id === planId)
-        if (!plan) return
+    const handleToggleComplete = async (plan: Plan) => {
+        const series = plans.find(p => p.id === plan.id)
+        if (!series) return
+        setSelectedPlan(null)
+
+        if (plan.occurrenceDate) {
+            // Completion is per occurrence; ending the series is "Delete" with "this and following"
+            await saveException(series, plan.occurrenceDate, { completed: !plan.completed })
+            return
+        }
 
-        const updated = { ...plan, completed: !plan.completed }
+        const updated = { ...series, completed: !series.completed }
         const success = await updatePlan(updated)
         if (success) {
-            setPlans(plans.map(p => p.id === planId ? updated : p))
-        }
-        if (selectedPlan?.id === planId) {
-            setSelectedPlan(null)
+            replacePlan(updated)
         }
     }
 
-    const handleDeletePlan = async (planId: string) => {
-        const success = await deletePlan(planId)
+    // The detail panel saves checklist and comment edits straight away, on the series for an occurrence
+    const handleListsChange = async (plan: Plan, lists: Partial<Pick<Plan, 'checklist' | 'comments'>>) => {
+        const series = plans.find(p => p.id === plan.id)
+        if (!series) return
+        setSelectedPlan({ ...plan, ...lists })
+        await saveLists(series, {
+            checklist: lists.checklist ?? series.checklist ?? [],
+            comments: lists.comments ?? series.comments ?? []
+        })
+    }
+
+    const handleDeletePlan = async (plan: Plan) => {
+        const series = plans.find(p => p.id === plan.id)
+        setSelectedPlan(null)
+
+        if (series && plan.occurrenceDate) {
+            const scope = await askScope('Delete recurring plan')
+            if (!scope) return
+
+            if (scope === 'this') {
+                await saveException(series, plan.occurrenceDate, { cancelled: true })
+                return
+            }
+            if (scope === 'following') {
+                const { head } = splitRecurrence(series, plan.occurrenceDate)
+                if (head) {
+                    const updated: Plan = {
+                        ...series,
+                        recurrence: head,
+                        exceptions: series.exceptions?.filter(e => e.occurrenceDate < plan.occurrenceDate!)
+                    }
+                    if (await updatePlan(updated)) {
+                        replacePlan(updated)
+                    }
+                    return
+                }
+                // Deleting from the first occurrence on removes the whole series
+            }
+        }
+
+        const stored = series ?? plan
+
+        const success = await deletePlan(plan.id)
         if (success) {
-            setPlans(plans.filter(plan => plan.id !== planId))
+            setPlans(prev => prev.filter(p => p.id !== plan.id))
+            record({
+                label: `Deleted "${stored.title}"`,
+                undo: () => restorePlan(plan.id),
+                redo: () => deletePlan(plan.id)
+            })
+        }
+    }
+
+    // .ics files (dropped or picked) are previewed before anything is created
+    const handleIcsFiles = async (files: FileList | File[]) => {
+        const icsFiles = Array.from(files).filter(file => /\.ics$/i.test(file.name) || file.type === 'text/calendar')
+        if (icsFiles.length === 0) return
+
+        const texts = await Promise.all(icsFiles.map(file => file.text()))
+        const seen = new Set<string>()
+        const candidates = texts
+            .flatMap(text => prepareIcsImport(text, plans))
+            .filter(candidate => !seen.has(candidate.key) && !!seen.add(candidate.key))
+        setIcsCandidates(candidates)
+    }
+
+    const handleIcsImport = async (selected: Plan[]) => {
+        setIcsCandidates(null)
+        const imported: Plan[] = []
+
+        for (const plan of selected) {
+            if (!await createPlan(plan)) continue
+            for (const exception of plan.exceptions || []) {
+                await upsertPlanException(exception)
+            }
+            imported.push(plan)
+        }
+
+        if (imported.length > 0) {
+            setPlans(prev => [...prev, ...imported])
+            record({
+                label: `Imported ${imported.length} event${imported.length === 1 ? '' : 's'}`,
+                undo: async () => (await Promise.all(imported.map(plan => deletePlan(plan.id)))).every(Boolean),
+                redo: async () => (await Promise.all(imported.map(plan => restorePlan(plan.id)))).every(Boolean)
+            })
         }
-        setSelectedPlan(null)
     }
 
+    const selectedSeries = selectedPlan?.occurrenceDate ? plans.find(p => p.id === selectedPlan.id) : undefined
+
     const viewOptions: { value: CalendarView; label: string }[] = [
         { value: 'day', label: 'Day' },
         { value: 'week', label: 'Week' },
@@ -104,7 +337,23 @@ export default function PlannerPage() {
     ]
 
     return (
-        <div className="space-y-6">
+        <div
+            className={clsx("space-y-6 rounded-2xl transition-shadow", isDraggingFile && "ring-2 ring-[#FF9F1C] ring-offset-4")}
+            onDragOver={(e) => {
+                if (!e.dataTransfer.types.includes('Files')) return
+                e.preventDefault()
+                setIsDraggingFile(true)
+            }}
+            onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFile(false)
+            }}
+            onDrop={(e) => {
+                if (!e.dataTransfer.types.includes('Files')) return
+                e.preventDefault()
+                setIsDraggingFile(false)
+                handleIcsFiles(e.dataTransfer.files)
+            }}
+        >
             {/* Header */}
             <header className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
                 <div>
@@ -145,6 +394,29 @@ export default function PlannerPage() {
                         ))}
                     </div>
 
+                    {/* Import .ics Button */}
+                    <button
+                        onClick={() => icsInputRef.current?.click()}
+                        className={clsx(
+                            "p-2.5 rounded-xl transition-colors",
+                            isDark ? "bg-[#2A2A2A] text-gray-300 hover:bg-[#3A3A3A]" : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+                        )}
+                        title="Import .ics (or drop files on the calendar)"
+                    >
+                        <CalendarArrowDown className="w-5 h-5" />
+                    </button>
+                    <input
+                        ref={icsInputRef}
+                        type="file"
+                        accept=".ics,text/calendar"
+                        multiple
+                        className="hidden"
+                        onChange={(e) => {
+                            if (e.target.files) handleIcsFiles(e.target.files)
+                            e.target.value = ''
+                        }}
+                    />
+
                     {/* Add Plan Button */}
                     <button
                         onClick={() => {
@@ -166,6 +438,7 @@ export default function PlannerPage() {
                 onDateClick={handleDateClick}
                 onPlanClick={handlePlanClick}
                 view={calendarView}
+                deadlines={deadlines}
             />
 
             {/* Floating Today's Plans Dock */}
@@ -187,6 +460,23 @@ export default function PlannerPage() {
                 planToEdit={planToEdit}
             />
 
+            {/* Recurring plan scope prompt */}
+            <RecurrenceScopeDialog
+                isOpen={!!scopeRequest}
+                title={scopeRequest?.title || ''}
+                isDark={isDark}
+                onSelect={resolveScope}
+                onCancel={() => resolveScope(null)}
+            />
+
+            {/* .ics import preview */}
+            <IcsImportDialog
+                candidates={icsCandidates}
+                isDark={isDark}
+                onImport={handleIcsImport}
+                onCancel={() => setIcsCandidates(null)}
+            />
+
             {/* Plan Detail Modal */}
             {selectedPlan && (
                 <div className="fixed inset-0 z-50 flex items-center justify-center">
@@ -234,6 +524,12 @@ export default function PlannerPage() {
                             ) : (
                                 <p>📅 {format(new Date(selectedPlan.date), 'MMM d, yyyy')}</p>
                             )}
+                            {selectedSeries?.recurrence && (
+                                <p className="flex items-center gap-1.5 mt-1">
+                                    <Repeat className="w-3.5 h-3.5" />
+                                    {describeRecurrence(selectedSeries.recurrence, selectedSeries.date)}
+                                </p>
+                            )}
                         </div>
 
                         {/* Time Slots */}
@@ -281,20 +577,20 @@ export default function PlannerPage() {
                                     Attachments:
                                 </p>
                                 {selectedPlan.attachments.map(attachment => (
-                                    <a
+                                    <button
                                         key={attachment.id}
-                                        href={attachment.url}
-                                        target="_blank"
-                                        rel="noopener noreferrer"
-                                        download={attachment.type === 'file' ? attachment.name : undefined}
+                                        type="button"
+                                        onClick={() => setPreviewAttachment(attachment)}
                                         className={clsx(
-                                            "flex items-center gap-3 p-2 rounded-lg transition-colors cursor-pointer",
+                                            "w-full text-left flex items-center gap-3 p-2 rounded-lg transition-colors cursor-pointer",
                                             isDark
                                                 ? "bg-[#2A2A2A] hover:bg-[#3A3A3A]"
                                                 : "bg-gray-50 hover:bg-gray-100"
                                         )}
                                     >
-                                        {attachment.type === 'link' ? (
+                                        {attachment.thumbnailUrl ? (
+                                            <img src={attachment.thumbnailUrl} alt="" className="w-6 h-6 rounded object-cover" />
+                                        ) : attachment.type === 'link' ? (
                                             <span className="text-blue-500">🔗</span>
                                         ) : (
                                             <span className="text-green-500">📎</span>
@@ -315,14 +611,30 @@ export default function PlannerPage() {
                                         )}>
                                             {attachment.type === 'link' ? 'Link' : 'File'}
                                         </span>
-                                    </a>
+                                    </button>
                                 ))}
                             </div>
                         )}
 
+                        <div className="mb-4">
+                            <PlanChecklist
+                                checklist={selectedPlan.checklist ?? []}
+                                onChange={(checklist) => handleListsChange(selectedPlan, { checklist })}
+                                isDark={isDark}
+                            />
+                        </div>
+
+                        <div className="mb-6">
+                            <PlanComments
+                                comments={selectedPlan.comments ?? []}
+                                onChange={(comments) => handleListsChange(selectedPlan, { comments })}
+                                isDark={isDark}
+                            />
+                        </div>
+
                         <div className="flex gap-3">
                             <button
-                                onClick={() => handleToggleComplete(selectedPlan.id)}
+                                onClick={() => handleToggleComplete(selectedPlan)}
                                 className={clsx(
                                     "flex-1 py-2 rounded-xl font-medium transition-colors",
                                     selectedPlan.completed
@@ -347,7 +659,7 @@ export default function PlannerPage() {
                                 <Edit className="w-5 h-5" />
                             </button>
                             <button
-                                onClick={() => handleDeletePlan(selectedPlan.id)}
+                                onClick={() => handleDeletePlan(selectedPlan)}
                                 className="px-4 py-2 rounded-xl bg-red-500 text-white hover:bg-red-600 transition-colors"
                                 title="Delete Plan"
                             >
@@ -357,6 +669,14 @@ export default function PlannerPage() {
                     </div>
                 </div>
             )}
+
+            {previewAttachment && (
+                <AttachmentPreview
+                    attachment={previewAttachment}
+                    onClose={() => setPreviewAttachment(null)}
+                    isDark={isDark}
+                />
+            )}
         </div>
     )
 }
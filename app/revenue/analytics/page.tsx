@@ -0,0 +1,5 @@
+import { RevenueAnalytics } from '@/components/revenue/RevenueAnalytics'
+
+export default function RevenueAnalyticsPage() {
+    return <RevenueAnalytics />
+}
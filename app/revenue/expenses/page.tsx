@@ -0,0 +1,5 @@
+import { ExpensesBoard } from '@/components/revenue/ExpensesBoard'
+
+export default function ExpensesPage() {
+    return <ExpensesBoard />
+}
@@ -0,0 +1,5 @@
+import { InvoiceDocument } from '@/components/revenue/InvoiceDocument'
+
+export default function InvoicePage() {
+    return <InvoiceDocument />
+}
@@ -0,0 +1,5 @@
+import { InvoicesBoard } from '@/components/revenue/InvoicesBoard'
+
+export default function InvoicesPage() {
+    return <InvoicesBoard />
+}
@@ -0,0 +1,5 @@
+import { TrashView } from '@/components/trash/TrashView'
+
+export default function TrashPage() {
+    return <TrashView />
+}
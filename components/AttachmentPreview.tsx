@@ -0,0 +1,314 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import clsx from 'clsx'
+import { ChevronLeft, ChevronRight, Download, ExternalLink, FileText, Globe, X, ZoomIn, ZoomOut } from 'lucide-react'
+import { Attachment } from '@/lib/types'
+import { codeLanguage, highlightCode, MAX_TEXT_PREVIEW_BYTES, pdfPageCount, previewKind, TokenKind } from '@/lib/attachmentPreview'
+import { dataUrlToBlob, isInlineDataUrl } from '@/lib/attachmentService'
+import { LinkUnfurl, fallbackUnfurl, loadUnfurl } from '@/lib/linkUnfurl'
+
+interface AttachmentPreviewProps {
+    attachment: Attachment
+    onClose: () => void
+    isDark: boolean
+}
+
+const ZOOM_STEPS = [0.5, 1, 1.5, 2, 3, 4]
+
+const TOKEN_CLASSES: Record<TokenKind, [string, string]> = { // [light, dark]
+    plain: ['', ''],
+    comment: ['text-gray-400 italic', 'text-gray-500 italic'],
+    string: ['text-green-700', 'text-green-400'],
+    number: ['text-purple-600', 'text-purple-400'],
+    keyword: ['text-[#E08A15] font-semibold', 'text-[#FF9F1C] font-semibold'],
+    heading: ['text-[#E08A15] font-bold', 'text-[#FF9F1C] font-bold'],
+}
+
+// Inline files (local backend, not yet migrated) are shown through a blob URL: browsers
+// refuse to load data URLs into frames
+function usePreviewSource(url: string): string {
+    const [source, setSource] = useState(url)
+    useEffect(() => {
+        if (!isInlineDataUrl(url)) {
+            setSource(url)
+            return
+        }
+        const objectUrl = URL.createObjectURL(dataUrlToBlob(url))
+        setSource(objectUrl)
+        return () => URL.revokeObjectURL(objectUrl)
+    }, [url])
+    return source
+}
+
+function ImagePreview({ src, name, isDark }: { src: string, name: string, isDark: boolean }) {
+    const [zoomIndex, setZoomIndex] = useState(1)
+    const [naturalWidth, setNaturalWidth] = useState<number | null>(null)
+    const zoom = ZOOM_STEPS[zoomIndex]
+    const fitted = zoom === 1 || !naturalWidth
+
+    const buttonClass = clsx(
+        "p-2 rounded-lg transition-colors disabled:opacity-30",
+        isDark ? "bg-[#2A2A2A] text-[#F5F5F5] hover:bg-[#3A3A3A]" : "bg-white text-[#2D3436] hover:bg-gray-100 shadow"
+    )
+
+    return (
+        <div className="relative w-full h-full min-h-[300px] flex flex-col">
+            <div className="absolute top-2 right-2 z-10 flex items-center gap-1">
+                <button onClick={() => setZoomIndex(zoomIndex - 1)} disabled={zoomIndex === 0} className={buttonClass} title="Zoom out">
+                    <ZoomOut className="w-4 h-4" />
+                </button>
+                <button
+                    onClick={() => setZoomIndex(1)}
+                    className={clsx(buttonClass, "text-xs font-medium min-w-[3.5rem]")}
+                    title="Fit to window"
+                >
+                    {Math.round(zoom * 100)}%
+                </button>
+                <button onClick={() => setZoomIndex(zoomIndex + 1)} disabled={zoomIndex === ZOOM_STEPS.length - 1} className={buttonClass} title="Zoom in">
+                    <ZoomIn className="w-4 h-4" />
+                </button>
+            </div>
+            <div className={clsx("flex-1 overflow-auto flex", fitted && "items-center justify-center")}>
+                <img
+                    src={src}
+                    alt={name}
+                    onLoad={(e) => setNaturalWidth(e.currentTarget.naturalWidth)}
+                    onClick={() => setZoomIndex(fitted ? 3 : 1)}
+                    style={fitted ? undefined : { width: naturalWidth! * zoom, maxWidth: 'none' }}
+                    className={clsx(
+                        "rounded-lg shadow-lg",
+                        fitted ? "max-w-full max-h-[65vh] object-contain cursor-zoom-in" : "cursor-zoom-out"
+                    )}
+                />
+            </div>
+        </div>
+    )
+}
+
+function PdfPreview({ src, isDark }: { src: string, isDark: boolean }) {
+    const [page, setPage] = useState(1)
+    const [pageCount, setPageCount] = useState<number | null>(null)
+
+    useEffect(() => {
+        let cancelled = false
+        fetch(src)
+            .then(response => response.arrayBuffer())
+            .then(buffer => {
+                if (!cancelled) setPageCount(pdfPageCount(new TextDecoder('latin1').decode(buffer)))
+            })
+            .catch(error => console.error('Error reading PDF:', error))
+        return () => { cancelled = true }
+    }, [src])
+
+    const buttonClass = clsx(
+        "p-1.5 rounded-lg transition-colors disabled:opacity-30",
+        isDark ? "hover:bg-[#3A3A3A] text-[#F5F5F5]" : "hover:bg-gray-100 text-[#2D3436]"
+    )
+
+    return (
+        <div className="w-full flex flex-col gap-2">
+            <div className={clsx("flex items-center justify-center gap-2 text-sm", isDark ? "text-[#A0A0A0]" : "text-[#636E72]")}>
+                <button onClick={() => setPage(page - 1)} disabled={page === 1} className={buttonClass} title="Previous page">
+                    <ChevronLeft className="w-4 h-4" />
+                </button>
+                <span>Page {page}{pageCount ? ` of ${pageCount}` : ''}</span>
+                <button onClick={() => setPage(page + 1)} disabled={pageCount !== null && page >= pageCount} className={buttonClass} title="Next page">
+                    <ChevronRight className="w-4 h-4" />
+                </button>
+            </div>
+            {/* Keyed by page: changing only the fragment doesn't move every browser's viewer */}
+            <iframe key={page} src={`${src}#page=${page}&view=FitH`} title="PDF preview" className="w-full h-[65vh] rounded-lg bg-white" />
+        </div>
+    )
+}
+
+function TextPreview({ src, name, isDark }: { src: string, name: string, isDark: boolean }) {
+    const [text, setText] = useState<string | null>(null)
+    const [truncated, setTruncated] = useState(false)
+    const [failed, setFailed] = useState(false)
+
+    useEffect(() => {
+        let cancelled = false
+        fetch(src)
+            .then(response => response.text())
+            .then(content => {
+                if (cancelled) return
+                setTruncated(content.length > MAX_TEXT_PREVIEW_BYTES)
+                setText(content.slice(0, MAX_TEXT_PREVIEW_BYTES))
+            })
+            .catch(error => {
+                console.error('Error loading text preview:', error)
+                if (!cancelled) setFailed(true)
+            })
+        return () => { cancelled = true }
+    }, [src])
+
+    if (failed) return <NoPreview message="This file couldn’t be loaded." />
+    if (text === null) return <p className="text-sm text-gray-500">Loading…</p>
+
+    return (
+        <div className="w-full self-stretch">
+            <pre className={clsx(
+                "text-xs leading-relaxed font-mono whitespace-pre-wrap break-words p-4 rounded-lg",
+                isDark ? "bg-[#2A2A2A] text-[#F5F5F5]" : "bg-white text-[#2D3436] border border-gray-200"
+            )}>
+                {highlightCode(text, codeLanguage(name)).map((token, i) => (
+                    <span key={i} className={TOKEN_CLASSES[token.kind][isDark ? 1 : 0] || undefined}>{token.text}</span>
+                ))}
+            </pre>
+            {truncated && (
+                <p className="text-xs text-gray-500 mt-2">Showing the first {MAX_TEXT_PREVIEW_BYTES / 1024} KB. Download the file to see the rest.</p>
+            )}
+        </div>
+    )
+}
+
+function LinkCard({ url, isDark }: { url: string, isDark: boolean }) {
+    const [unfurl, setUnfurl] = useState<LinkUnfurl>(() => fallbackUnfurl(url))
+    const [faviconFailed, setFaviconFailed] = useState(false)
+
+    useEffect(() => {
+        let cancelled = false
+        setUnfurl(fallbackUnfurl(url))
+        setFaviconFailed(false)
+        loadUnfurl(url).then(result => {
+            if (!cancelled) setUnfurl(result)
+        })
+        return () => { cancelled = true }
+    }, [url])
+
+    return (
+        <a
+            href={url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className={clsx(
+                "block w-full max-w-lg rounded-xl border overflow-hidden transition-colors",
+                isDark ? "bg-[#2A2A2A] border-[#3A3A3A] hover:border-[#FF9F1C]" : "bg-white border-gray-200 hover:border-[#FF9F1C]"
+            )}
+        >
+            {unfurl.image && (
+                <img src={unfurl.image} alt="" className="w-full max-h-60 object-cover" onError={(e) => { e.currentTarget.style.display = 'none' }} />
+            )}
+            <div className="p-4 space-y-1">
+                <div className={clsx("flex items-center gap-2 text-xs", isDark ? "text-[#A0A0A0]" : "text-[#636E72]")}>
+                    {unfurl.favicon && !faviconFailed ? (
+                        <img src={unfurl.favicon} alt="" className="w-4 h-4 rounded-sm" onError={() => setFaviconFailed(true)} />
+                    ) : (
+                        <Globe className="w-4 h-4" />
+                    )}
+                    <span className="truncate">{unfurl.siteName}</span>
+                </div>
+                <p className={clsx("font-semibold line-clamp-2", isDark ? "text-[#F5F5F5]" : "text-[#2D3436]")}>{unfurl.title}</p>
+                {unfurl.description && (
+                    <p className={clsx("text-sm line-clamp-3", isDark ? "text-[#A0A0A0]" : "text-[#636E72]")}>{unfurl.description}</p>
+                )}
+            </div>
+        </a>
+    )
+}
+
+function NoPreview({ message }: { message: string }) {
+    return (
+        <div className="flex flex-col items-center gap-4 text-gray-500">
+            <FileText className="w-16 h-16 opacity-50" />
+            <p>{message}</p>
+        </div>
+    )
+}
+
+// Full-screen preview of a plan, card or goal attachment
+export default function AttachmentPreview({ attachment, onClose, isDark }: AttachmentPreviewProps) {
+    const src = usePreviewSource(attachment.url)
+    const kind = previewKind(attachment)
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose()
+        }
+        window.addEventListener('keydown', handleKeyDown)
+        return () => window.removeEventListener('keydown', handleKeyDown)
+    }, [onClose])
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+            <div
+                onClick={(e) => e.stopPropagation()}
+                className={clsx(
+                    "relative w-full max-w-4xl max-h-[90vh] flex flex-col rounded-2xl shadow-2xl overflow-hidden",
+                    isDark ? "bg-[#1A1A1A]" : "bg-white"
+                )}
+            >
+                {/* Header */}
+                <div className={clsx(
+                    "flex items-center justify-between p-4 border-b",
+                    isDark ? "border-[#2A2A2A]" : "border-gray-200"
+                )}>
+                    <h3 className={clsx(
+                        "text-lg font-bold truncate",
+                        isDark ? "text-white" : "text-gray-900"
+                    )}>
+                        {attachment.name}
+                    </h3>
+                    <button
+                        onClick={onClose}
+                        className={clsx(
+                            "p-2 rounded-lg transition-colors",
+                            isDark ? "hover:bg-[#2A2A2A] text-gray-400" : "hover:bg-gray-100 text-gray-500"
+                        )}
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {/* Content */}
+                <div className="flex-1 overflow-auto p-4 flex items-center justify-center bg-black/5 min-h-[300px]">
+                    {kind === 'image' && <ImagePreview src={src} name={attachment.name} isDark={isDark} />}
+                    {kind === 'pdf' && <PdfPreview src={src} isDark={isDark} />}
+                    {kind === 'audio' && <audio src={src} controls className="w-full max-w-lg" />}
+                    {kind === 'video' && <video src={src} controls className="max-w-full max-h-[65vh] rounded-lg" />}
+                    {kind === 'text' && <TextPreview src={src} name={attachment.name} isDark={isDark} />}
+                    {kind === 'link' && <LinkCard url={attachment.url} isDark={isDark} />}
+                    {kind === 'none' && <NoPreview message="No preview available for this file type." />}
+                </div>
+
+                {/* Footer */}
+                <div className={clsx(
+                    "p-4 border-t flex justify-end gap-2",
+                    isDark ? "border-[#2A2A2A]" : "border-gray-200"
+                )}>
+                    <button
+                        onClick={onClose}
+                        className={clsx(
+                            "px-4 py-2 rounded-lg text-sm font-medium transition-colors",
+                            isDark ? "hover:bg-[#2A2A2A] text-gray-300" : "hover:bg-gray-100 text-gray-600"
+                        )}
+                    >
+                        Close
+                    </button>
+                    {attachment.type === 'link' ? (
+                        <a
+                            href={attachment.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="px-4 py-2 bg-[#FF9F1C] text-white rounded-lg text-sm font-medium hover:bg-[#E08A15] flex items-center gap-2"
+                        >
+                            <ExternalLink className="w-4 h-4" />
+                            Open Link
+                        </a>
+                    ) : (
+                        <a
+                            href={attachment.url}
+                            download={attachment.name}
+                            className="px-4 py-2 bg-[#FF9F1C] text-white rounded-lg text-sm font-medium hover:bg-[#E08A15] flex items-center gap-2"
+                        >
+                            <Download className="w-4 h-4" />
+                            Download File
+                        </a>
+                    )}
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,210 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import clsx from 'clsx'
+import { Download, FileText, Image as ImageIcon, Link2, Paperclip, Trash2, Upload } from 'lucide-react'
+import { Attachment } from '@/lib/types'
+import { generateUUID } from '@/lib/uuid'
+import { AttachmentPrefix, uploadAttachment, validateAttachmentFile } from '@/lib/attachmentService'
+import { previewKind } from '@/lib/attachmentPreview'
+import AttachmentPreview from '@/components/AttachmentPreview'
+
+interface AttachmentsSectionProps {
+    attachments: Attachment[]
+    onChange: (attachments: Attachment[]) => void
+    prefix: AttachmentPrefix // Names uploaded objects after what they're attached to
+    isDark: boolean
+    label?: string
+}
+
+// Links and uploaded files of a goal or revenue entry, with upload progress and the preview
+export default function AttachmentsSection({ attachments, onChange, prefix, isDark, label = 'Attachments' }: AttachmentsSectionProps) {
+    const fileInputRef = useRef<HTMLInputElement>(null)
+    const [newLinkName, setNewLinkName] = useState('')
+    const [newLinkUrl, setNewLinkUrl] = useState('')
+    const [uploadProgress, setUploadProgress] = useState<number | null>(null) // 0-1 while a file uploads
+    const [uploadError, setUploadError] = useState<string | null>(null)
+    const [previewAttachment, setPreviewAttachment] = useState<Attachment | null>(null)
+
+    // Uploads finish after other edits, so they append to the latest list
+    const latest = useRef(attachments)
+    latest.current = attachments
+
+    const addLink = () => {
+        if (!newLinkName.trim() || !newLinkUrl.trim()) return
+
+        let finalUrl = newLinkUrl.trim()
+        if (!/^https?:\/\//i.test(finalUrl)) {
+            finalUrl = 'https://' + finalUrl
+        }
+
+        onChange([...attachments, {
+            id: generateUUID(),
+            type: 'link',
+            name: newLinkName.trim(),
+            url: finalUrl,
+        }])
+        setNewLinkName('')
+        setNewLinkUrl('')
+    }
+
+    const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0]
+        e.target.value = ''
+        if (!file) return
+
+        const invalid = validateAttachmentFile(file)
+        if (invalid) {
+            setUploadError(invalid)
+            return
+        }
+
+        setUploadError(null)
+        setUploadProgress(0)
+        const attachment = await uploadAttachment(file, { prefix, onProgress: setUploadProgress })
+        setUploadProgress(null)
+        if (!attachment) {
+            setUploadError(`Couldn’t upload ${file.name}. Check your connection and try again.`)
+            return
+        }
+        onChange([...latest.current, attachment])
+    }
+
+    const inputClass = clsx(
+        "p-2 rounded-lg text-sm border outline-none",
+        isDark
+            ? "bg-[#2A2A2A] border-[#3A3A3A] text-[#F5F5F5] placeholder-gray-500"
+            : "bg-gray-50 border-gray-200 text-[#2D3436]"
+    )
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center gap-2">
+                    <Paperclip className="w-4 h-4 text-blue-500" />
+                    <span className={clsx(
+                        "text-sm font-medium",
+                        isDark ? "text-[#F5F5F5]" : "text-[#2D3436]"
+                    )}>{label}</span>
+                </div>
+                <input
+                    type="file"
+                    ref={fileInputRef}
+                    className="hidden"
+                    onChange={handleFileUpload}
+                />
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={uploadProgress !== null}
+                    className={clsx(
+                        "p-1.5 rounded-lg flex items-center gap-1 text-xs font-medium transition-colors",
+                        isDark
+                            ? "bg-[#2A2A2A] text-[#F5F5F5] hover:bg-[#3A3A3A]"
+                            : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                    )}
+                >
+                    <Upload className="w-3 h-3" />
+                    {uploadProgress !== null ? `Uploading ${Math.round(uploadProgress * 100)}%` : 'Upload File'}
+                </button>
+            </div>
+
+            {uploadProgress !== null && (
+                <div className={clsx("h-1 rounded-full mb-2 overflow-hidden", isDark ? "bg-[#3A3A3A]" : "bg-gray-200")}>
+                    <div className="h-full bg-[#FF9F1C] transition-all" style={{ width: `${uploadProgress * 100}%` }} />
+                </div>
+            )}
+            {uploadError && (
+                <p className="text-sm text-red-500 mb-2">{uploadError}</p>
+            )}
+
+            <div className="space-y-2 mb-2">
+                {attachments.map(attachment => (
+                    <div
+                        key={attachment.id}
+                        className={clsx(
+                            "flex items-center justify-between p-2 rounded-lg",
+                            isDark ? "bg-[#2A2A2A]" : "bg-gray-50"
+                        )}
+                    >
+                        <button
+                            onClick={() => setPreviewAttachment(attachment)}
+                            className="flex items-center gap-2 text-sm text-left truncate flex-1 hover:opacity-80 transition-opacity"
+                        >
+                            {attachment.thumbnailUrl ? (
+                                <img src={attachment.thumbnailUrl} alt="" className="w-8 h-8 rounded object-cover flex-shrink-0" />
+                            ) : attachment.type === 'link' ? (
+                                <Link2 className="w-4 h-4 text-[#FF9F1C] flex-shrink-0" />
+                            ) : previewKind(attachment) === 'image' ? (
+                                <ImageIcon className="w-4 h-4 text-purple-500 flex-shrink-0" />
+                            ) : (
+                                <FileText className="w-4 h-4 text-blue-500 flex-shrink-0" />
+                            )}
+                            <span className={clsx(
+                                "truncate",
+                                isDark ? "text-[#F5F5F5]" : "text-[#2D3436]"
+                            )}>{attachment.name}</span>
+                        </button>
+
+                        <div className="flex items-center gap-1">
+                            {attachment.type === 'file' && (
+                                <a
+                                    href={attachment.url}
+                                    download={attachment.name}
+                                    className={clsx(
+                                        "p-1 rounded opacity-50 hover:opacity-100",
+                                        isDark ? "hover:bg-[#3A3A3A] text-[#F5F5F5]" : "hover:bg-gray-100 text-[#2D3436]"
+                                    )}
+                                >
+                                    <Download className="w-4 h-4" />
+                                </a>
+                            )}
+                            <button
+                                onClick={() => onChange(attachments.filter(a => a.id !== attachment.id))}
+                                className={clsx(
+                                    "p-1 rounded opacity-50 hover:opacity-100",
+                                    isDark ? "hover:bg-[#3A3A3A]" : "hover:bg-gray-100"
+                                )}
+                            >
+                                <Trash2 className="w-4 h-4 text-red-500" />
+                            </button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <div className="space-y-2">
+                <input
+                    type="text"
+                    value={newLinkName}
+                    onChange={(e) => setNewLinkName(e.target.value)}
+                    placeholder="Link name..."
+                    className={clsx(inputClass, "w-full")}
+                />
+                <div className="flex gap-2">
+                    <input
+                        type="url"
+                        value={newLinkUrl}
+                        onChange={(e) => setNewLinkUrl(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && addLink()}
+                        placeholder="https://..."
+                        className={clsx(inputClass, "flex-1")}
+                    />
+                    <button
+                        onClick={addLink}
+                        className="px-3 py-2 bg-[#FF9F1C] text-white rounded-lg text-sm font-medium hover:bg-[#E08A15]"
+                    >
+                        Add Link
+                    </button>
+                </div>
+            </div>
+
+            {previewAttachment && (
+                <AttachmentPreview
+                    attachment={previewAttachment}
+                    onClose={() => setPreviewAttachment(null)}
+                    isDark={isDark}
+                />
+            )}
+        </div>
+    )
+}
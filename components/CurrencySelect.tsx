@@ -0,0 +1,22 @@
+'use client'
+
+import { CURRENCIES } from '@/lib/currency'
+
+interface CurrencySelectProps {
+    value: string
+    onChange: (currency: string) => void
+    className?: string
+}
+
+// ISO code picker; a code outside the usual list (e.g. from an import) stays selectable
+export default function CurrencySelect({ value, onChange, className }: CurrencySelectProps) {
+    const options = CURRENCIES.some(c => c.code === value) ? CURRENCIES : [{ code: value, name: value }, ...CURRENCIES]
+
+    return (
+        <select value={value} onChange={(e) => onChange(e.target.value)} className={className} title="Currency">
+            {options.map(c => (
+                <option key={c.code} value={c.code}>{c.code}</option>
+            ))}
+        </select>
+    )
+}
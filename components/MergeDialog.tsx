@@ -0,0 +1,111 @@
+'use client'
+
+import { useState } from 'react'
+import clsx from 'clsx'
+import { GitMerge } from 'lucide-react'
+import { FieldDiff, MergeChoice, defaultChoice } from '@/lib/conflicts'
+
+interface MergeDialogProps {
+    entityLabel: string // e.g. "card", "goal"
+    diffs: FieldDiff[]
+    onResolve: (choices: Record<string, MergeChoice>) => void
+    onCancel: () => void
+    isDark: boolean
+}
+
+// Shown when saving a record that was changed elsewhere since it was opened
+export default function MergeDialog({ entityLabel, diffs, onResolve, onCancel, isDark }: MergeDialogProps) {
+    const [choices, setChoices] = useState<Record<string, MergeChoice>>(
+        () => Object.fromEntries(diffs.map(diff => [diff.key, defaultChoice(diff)]))
+    )
+
+    const optionClass = (selected: boolean) => clsx(
+        "w-full text-left p-3 rounded-xl border text-sm transition-colors",
+        selected
+            ? "border-[#FF9F1C] bg-[#FF9F1C]/10"
+            : isDark
+                ? "border-[#3A3A3A] bg-[#2A2A2A] hover:border-[#FF9F1C]/50"
+                : "border-[#EFEEEE] bg-[#FFFBF5] hover:border-[#FF9F1C]/50"
+    )
+
+    return (
+        <div className="fixed inset-0 z-[70] flex items-center justify-center p-4">
+            <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={onCancel} />
+            <div className={clsx(
+                "relative w-full max-w-2xl rounded-2xl shadow-2xl p-6 max-h-[90vh] overflow-y-auto",
+                isDark ? "bg-[#1A1A1A]" : "bg-white"
+            )}>
+                <div className="flex items-center gap-3 mb-2">
+                    <GitMerge className="w-5 h-5 text-[#FF9F1C]" />
+                    <h3 className={clsx("text-lg font-bold", isDark ? "text-[#F5F5F5]" : "text-[#2D3436]")}>
+                        This {entityLabel} was changed elsewhere
+                    </h3>
+                </div>
+                <p className={clsx("text-sm mb-5", isDark ? "text-[#A0A0A0]" : "text-[#636E72]")}>
+                    Someone saved changes while you were editing. Choose which version to keep for each field.
+                </p>
+
+                <div className="space-y-4">
+                    {diffs.map(diff => (
+                        <div key={diff.key}>
+                            <p className={clsx("text-sm font-semibold mb-2", isDark ? "text-[#F5F5F5]" : "text-[#2D3436]")}>
+                                {diff.label}
+                                {!diff.changedLocally && (
+                                    <span className="ml-2 text-xs font-normal text-gray-500">(you didn&apos;t change this)</span>
+                                )}
+                            </p>
+                            <div className={clsx("grid gap-2", diff.list ? "sm:grid-cols-3" : "sm:grid-cols-2")}>
+                                <button
+                                    type="button"
+                                    onClick={() => setChoices({ ...choices, [diff.key]: 'mine' })}
+                                    className={optionClass(choices[diff.key] === 'mine')}
+                                >
+                                    <span className="block text-xs font-semibold text-[#FF9F1C] mb-1">Your version</span>
+                                    <span className={clsx("break-words", isDark ? "text-gray-300" : "text-gray-700")}>{diff.mine}</span>
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => setChoices({ ...choices, [diff.key]: 'theirs' })}
+                                    className={optionClass(choices[diff.key] === 'theirs')}
+                                >
+                                    <span className="block text-xs font-semibold text-blue-500 mb-1">Saved version</span>
+                                    <span className={clsx("break-words", isDark ? "text-gray-300" : "text-gray-700")}>{diff.theirs}</span>
+                                </button>
+                                {diff.list && (
+                                    <button
+                                        type="button"
+                                        onClick={() => setChoices({ ...choices, [diff.key]: 'both' })}
+                                        className={optionClass(choices[diff.key] === 'both')}
+                                    >
+                                        <span className="block text-xs font-semibold text-green-500 mb-1">Combine both</span>
+                                        <span className={clsx(isDark ? "text-gray-400" : "text-gray-500")}>
+                                            Keep items added on either side
+                                        </span>
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="flex gap-3 mt-6">
+                    <button
+                        onClick={onCancel}
+                        className={clsx(
+                            "flex-1 py-2.5 rounded-xl font-medium transition-colors",
+                            isDark ? "bg-[#2A2A2A] text-gray-300 hover:bg-[#3A3A3A]" : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                        )}
+                    >
+                        Keep editing
+                    </button>
+                    <button
+                        onClick={() => onResolve(choices)}
+                        className="flex-1 py-2.5 rounded-xl font-semibold text-white bg-gradient-to-r from-[#FF9F1C] to-[#F68E09] hover:opacity-90 transition-opacity"
+                    >
+                        Save merged
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -3,6 +3,8 @@
 import Link from 'next/link'
 import { usePathname } from 'next/navigation'
 import { useTheme } from './ThemeProvider'
+import UserMenu from './UserMenu'
+import WorkspaceSwitcher from './workspace/WorkspaceSwitcher'
 import {
     LayoutDashboard,
     Calendar,
@@ -33,7 +35,7 @@ export default function Navbar() {
     return (
         <header
             className={clsx(
-                "fixed top-0 left-0 right-0 z-50 h-16 backdrop-blur-xl border-b transition-colors duration-300",
+                "fixed top-0 left-0 right-0 z-50 h-16 backdrop-blur-xl border-b transition-colors duration-300 print:hidden",
                 isDark
                     ? "bg-[#1A1A1A]/90 border-[#2A2A2A]"
                     : "bg-white/90 border-[#EFEEEE]"
@@ -48,11 +50,12 @@ export default function Navbar() {
                         className="w-9 h-9 rounded-xl object-cover shadow-md"
                     />
                     <span className={clsx(
-                        "text-xl font-bold transition-colors",
+                        "text-xl font-bold transition-colors hidden xl:inline",
                         isDark ? "text-[#F5F5F5]" : "text-[#2D3436]"
                     )}>
                         SDaily Planner
                     </span>
+                    <WorkspaceSwitcher isDark={isDark} />
                 </div>
 
                 {/* Navigation Links */}
@@ -61,7 +64,7 @@ export default function Navbar() {
                     isDark ? "bg-gray-800/50" : "bg-gray-100/80"
                 )}>
                     {navItems.map((item) => {
-                        const isActive = pathname === item.href
+                        const isActive = pathname === item.href || (item.href !== '/' && pathname.startsWith(`${item.href}/`))
                         return (
                             <Link
                                 key={item.href}
@@ -124,27 +127,7 @@ export default function Navbar() {
                     </div>
 
                     {/* Profile */}
-                    <div className="flex items-center gap-3">
-                        <div className="text-right hidden sm:block">
-                            <p className={clsx(
-                                "text-sm font-semibold",
-                                isDark ? "text-[#F5F5F5]" : "text-[#2D3436]"
-                            )}>
-                                Stun
-                            </p>
-                            <p className={clsx(
-                                "text-xs",
-                                isDark ? "text-gray-500" : "text-gray-400"
-                            )}>
-                                SD Owner
-                            </p>
-                        </div>
-                        <img
-                            src="/images/Me.jpg"
-                            alt="Profile"
-                            className="w-10 h-10 rounded-full object-cover border-2 border-[#FF9F1C] shadow-md"
-                        />
-                    </div>
+                    <UserMenu isDark={isDark} />
                 </div>
             </div>
         </header>
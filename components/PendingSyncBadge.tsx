@@ -0,0 +1,33 @@
+'use client'
+
+import clsx from 'clsx'
+import { CloudOff } from 'lucide-react'
+import { useData } from '@/lib/DataContext'
+import { SyncEntityType } from '@/lib/offlineStore'
+
+interface PendingSyncBadgeProps {
+    type: SyncEntityType
+    id: string
+    showLabel?: boolean
+    className?: string
+}
+
+// Shown on items with changes that are queued locally and not yet saved to the server
+export default function PendingSyncBadge({ type, id, showLabel = false, className }: PendingSyncBadgeProps) {
+    const { isPendingSync } = useData()
+    if (!isPendingSync(type, id)) return null
+
+    return (
+        <span
+            title="Saved on this device, waiting to sync"
+            className={clsx(
+                "inline-flex items-center gap-1 flex-shrink-0 text-amber-500",
+                showLabel && "px-2 py-0.5 rounded-full text-[10px] font-semibold bg-amber-500/15",
+                className
+            )}
+        >
+            <CloudOff className="w-3 h-3" />
+            {showLabel && 'Pending sync'}
+        </span>
+    )
+}
@@ -0,0 +1,101 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import MergeDialog from '@/components/MergeDialog'
+import { useTheme } from '@/components/ThemeProvider'
+import { useData } from '@/lib/DataContext'
+import { CARD_CONFLICT_FIELDS, ConflictField, FieldDiff, GOAL_CONFLICT_FIELDS, MergeChoice, PLAN_CONFLICT_FIELDS, diffRecords, mergeRecords } from '@/lib/conflicts'
+import { QueuedMutation, resolveQueuedConflict, subscribeToQueue } from '@/lib/offlineStore'
+import { fetchCard, fetchGoal, fetchPlan, syncQueuedMutations } from '@/lib/supabaseService'
+
+type Versioned = { id: string; version?: number; updatedAt?: string }
+
+interface ConflictType {
+    label: string
+    fields: ConflictField<Versioned>[]
+    fetch: (id: string) => Promise<Versioned | null>
+}
+
+// The queue holds plain records, so the field lists are used without their record type
+function conflictType<T extends Versioned>(label: string, fields: ConflictField<T>[], fetch: (id: string) => Promise<T | null>): ConflictType {
+    return { label, fields: fields as unknown as ConflictField<Versioned>[], fetch }
+}
+
+const CONFLICT_TYPES: Record<string, ConflictType> = {
+    plan: conflictType('plan', PLAN_CONFLICT_FIELDS, fetchPlan),
+    card: conflictType('card', CARD_CONFLICT_FIELDS, fetchCard),
+    goal: conflictType('goal', GOAL_CONFLICT_FIELDS, fetchGoal),
+}
+
+// The queue only keeps the edited record, not the copy it was edited from, so every field
+// that differs from the server counts as changed here
+const UNKNOWN_BASE = {} as Versioned
+
+// Merge prompt for edits made offline that found the record changed elsewhere when they
+// were replayed. One conflict at a time; "Keep editing" leaves it queued until the next load.
+export default function SyncConflicts() {
+    const { theme } = useTheme()
+    const isDark = theme === 'dark'
+    const { refreshAll } = useData()
+    const refreshRef = useRef(refreshAll)
+    refreshRef.current = refreshAll
+    const [pending, setPending] = useState<QueuedMutation | null>(null)
+    const [dismissed, setDismissed] = useState<Set<number>>(new Set())
+    const [conflict, setConflict] = useState<{ seq: number; local: Versioned; remote: Versioned; diffs: FieldDiff[] } | null>(null)
+
+    useEffect(() => {
+        return subscribeToQueue(queue => {
+            setPending(queue.find(m => m.conflict && m.seq !== undefined && !dismissed.has(m.seq)) ?? null)
+        })
+    }, [dismissed])
+
+    useEffect(() => {
+        setConflict(null)
+        if (!pending || pending.seq === undefined) return
+        const type = CONFLICT_TYPES[pending.entity.type]
+        if (!type) return
+
+        const seq = pending.seq
+        const local = pending.args[0] as Versioned
+        let cancelled = false
+        const load = async () => {
+            const remote = await type.fetch(local.id)
+            // Not reachable right now (or deleted elsewhere): ask again on the next load
+            if (cancelled || !remote) return
+
+            const diffs = diffRecords(UNKNOWN_BASE, local, remote, type.fields)
+            if (diffs.length === 0) {
+                await resolveQueuedConflict(seq, [mergeRecords(UNKNOWN_BASE, local, remote, type.fields, {})])
+                await syncQueuedMutations()
+                await refreshRef.current()
+                return
+            }
+            setConflict({ seq, local, remote, diffs })
+        }
+        load()
+        return () => {
+            cancelled = true
+        }
+    }, [pending])
+
+    if (!conflict || !pending) return null
+    const type = CONFLICT_TYPES[pending.entity.type]
+
+    const resolve = async (choices: Record<string, MergeChoice>) => {
+        const merged = mergeRecords(UNKNOWN_BASE, conflict.local, conflict.remote, type.fields, choices)
+        setConflict(null)
+        await resolveQueuedConflict(conflict.seq, [merged])
+        await syncQueuedMutations()
+        await refreshAll()
+    }
+
+    return (
+        <MergeDialog
+            entityLabel={type.label}
+            diffs={conflict.diffs}
+            onResolve={resolve}
+            onCancel={() => setDismissed(new Set([...dismissed, conflict.seq]))}
+            isDark={isDark}
+        />
+    )
+}
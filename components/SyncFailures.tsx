@@ -0,0 +1,97 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import clsx from 'clsx'
+import { AlertTriangle, RotateCw, Trash2 } from 'lucide-react'
+import { useTheme } from '@/components/ThemeProvider'
+import { useData } from '@/lib/DataContext'
+import { discardQueuedMutation, QueuedMutation, retryQueuedMutation, subscribeToQueue, SyncEntityType } from '@/lib/offlineStore'
+import { syncQueuedMutations } from '@/lib/supabaseService'
+
+const ENTITY_LABELS: Record<SyncEntityType, string> = {
+    plan: 'Plan',
+    card: 'Card',
+    goal: 'Goal',
+    revenue: 'Revenue entry',
+    exchangeRate: 'Exchange rate',
+    client: 'Client',
+    invoice: 'Invoice',
+    expense: 'Expense',
+}
+
+// Queued writes only keep their arguments, so the record's own title or name is the best label
+function describe(mutation: QueuedMutation): string {
+    const record = mutation.args[0] as { title?: unknown; name?: unknown } | undefined
+    const name = typeof record?.title === 'string' ? record.title : typeof record?.name === 'string' ? record.name : ''
+    return name ? `${ENTITY_LABELS[mutation.entity.type]} "${name}"` : ENTITY_LABELS[mutation.entity.type]
+}
+
+// Writes that kept failing after the connection came back and are no longer retried on their
+// own. Each can be tried again or discarded, which drops the local change.
+export default function SyncFailures() {
+    const { theme } = useTheme()
+    const isDark = theme === 'dark'
+    const { refreshAll } = useData()
+    const refreshRef = useRef(refreshAll)
+    refreshRef.current = refreshAll
+    const [failed, setFailed] = useState<QueuedMutation[]>([])
+
+    useEffect(() => {
+        return subscribeToQueue(queue => {
+            setFailed(queue.filter(m => m.abandoned && m.seq !== undefined))
+        })
+    }, [])
+
+    if (failed.length === 0) return null
+
+    const retry = async (seq: number) => {
+        await retryQueuedMutation(seq)
+        await syncQueuedMutations()
+        await refreshRef.current(true)
+    }
+
+    const discard = async (seq: number) => {
+        await discardQueuedMutation(seq)
+        await syncQueuedMutations()
+        await refreshRef.current(true)
+    }
+
+    return (
+        <div
+            role="alert"
+            className={clsx(
+                "fixed bottom-6 right-6 z-50 w-80 max-w-[calc(100vw-3rem)] rounded-xl shadow-2xl border p-4 text-sm print:hidden",
+                isDark ? "bg-[#2A2A2A] border-[#3A3A3A] text-[#F5F5F5]" : "bg-white border-gray-200 text-[#2D3436]"
+            )}
+        >
+            <div className="flex items-center gap-2 font-semibold mb-1">
+                <AlertTriangle className="w-4 h-4 text-red-500 flex-shrink-0" />
+                {failed.length === 1 ? "A change couldn't be synced" : `${failed.length} changes couldn't be synced`}
+            </div>
+            <p className={clsx("text-xs mb-3", isDark ? "text-gray-400" : "text-gray-500")}>
+                Saving kept failing, so these are no longer retried automatically. Discarding one drops it from this device.
+            </p>
+            <ul className="space-y-2 max-h-48 overflow-y-auto">
+                {failed.map(mutation => (
+                    <li key={mutation.seq} className="flex items-center gap-2">
+                        <span className="flex-1 truncate" title={mutation.name}>{describe(mutation)}</span>
+                        <button
+                            onClick={() => retry(mutation.seq!)}
+                            title="Try again"
+                            className={clsx("p-1 rounded-lg flex-shrink-0", isDark ? "hover:bg-white/10" : "hover:bg-gray-100")}
+                        >
+                            <RotateCw className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={() => discard(mutation.seq!)}
+                            title="Discard this change"
+                            className={clsx("p-1 rounded-lg flex-shrink-0 text-red-500", isDark ? "hover:bg-white/10" : "hover:bg-gray-100")}
+                        >
+                            <Trash2 className="w-4 h-4" />
+                        </button>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    )
+}
@@ -0,0 +1,44 @@
+'use client'
+
+import clsx from 'clsx'
+import { Undo2, Redo2, X } from 'lucide-react'
+import { useTheme } from '@/components/ThemeProvider'
+import { useHistory } from '@/lib/HistoryContext'
+
+// Confirmation for the latest recorded action, with a button to take it back (or redo it)
+export default function UndoToast() {
+    const { theme } = useTheme()
+    const isDark = theme === 'dark'
+    const { toast, undo, redo, dismissToast } = useHistory()
+
+    if (!toast) return null
+
+    return (
+        <div
+            key={toast.id}
+            role="status"
+            className={clsx(
+                "fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 pl-4 pr-2 py-2 rounded-xl shadow-2xl border text-sm max-w-[calc(100vw-2rem)] print:hidden",
+                isDark ? "bg-[#2A2A2A] border-[#3A3A3A] text-[#F5F5F5]" : "bg-[#2D3436] border-[#2D3436] text-white"
+            )}
+        >
+            <span className="truncate">{toast.message}</span>
+            {toast.action && (
+                <button
+                    onClick={toast.action === 'undo' ? undo : redo}
+                    title={toast.action === 'undo' ? 'Undo (Ctrl+Z)' : 'Redo (Ctrl+Shift+Z)'}
+                    className="flex items-center gap-1 px-2 py-1 rounded-lg font-semibold text-[#FF9F1C] hover:bg-white/10 flex-shrink-0"
+                >
+                    {toast.action === 'undo' ? <Undo2 className="w-4 h-4" /> : <Redo2 className="w-4 h-4" />}
+                    {toast.action === 'undo' ? 'Undo' : 'Redo'}
+                </button>
+            )}
+            <button
+                onClick={dismissToast}
+                className="p-1 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 flex-shrink-0"
+            >
+                <X className="w-4 h-4" />
+            </button>
+        </div>
+    )
+}
@@ -0,0 +1,120 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import clsx from 'clsx'
+import { LogOut, ChevronDown, Settings, Trash2 } from 'lucide-react'
+import { useAuth, displayNameOf } from '@/lib/AuthContext'
+import { useData } from '@/lib/DataContext'
+
+interface UserMenuProps {
+    isDark: boolean
+}
+
+// Signed-in user's name and avatar in the Navbar, with a dropdown for settings, the Trash and signing out
+export default function UserMenu({ isDark }: UserMenuProps) {
+    const { user, isAuthEnabled, signOut } = useAuth()
+    const { pendingCount } = useData()
+    const [isOpen, setIsOpen] = useState(false)
+    const menuRef = useRef<HTMLDivElement>(null)
+
+    useEffect(() => {
+        if (!isOpen) return
+        const handleClick = (e: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false)
+        }
+        document.addEventListener('mousedown', handleClick)
+        return () => document.removeEventListener('mousedown', handleClick)
+    }, [isOpen])
+
+    const name = displayNameOf(user)
+    const avatarUrl = user?.user_metadata?.avatar_url as string | undefined
+    const initials = name.split(/\s+/).map(part => part[0]).join('').slice(0, 2).toUpperCase()
+
+    const handleSignOut = async () => {
+        if (pendingCount > 0 && !confirm(`${pendingCount} change(s) haven't synced yet and will be lost if you sign out. Sign out anyway?`)) {
+            return
+        }
+        setIsOpen(false)
+        await signOut()
+    }
+
+    const itemClass = clsx(
+        "w-full flex items-center gap-2 px-4 py-2 text-sm text-left transition-colors",
+        isDark ? "text-gray-300 hover:bg-[#2A2A2A]" : "text-gray-700 hover:bg-gray-100"
+    )
+
+    return (
+        <div ref={menuRef} className="relative">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="flex items-center gap-3"
+            >
+                <div className="text-right hidden sm:block">
+                    <p className={clsx(
+                        "text-sm font-semibold",
+                        isDark ? "text-[#F5F5F5]" : "text-[#2D3436]"
+                    )}>
+                        {name}
+                    </p>
+                    <p className={clsx(
+                        "text-xs max-w-[160px] truncate",
+                        isDark ? "text-gray-500" : "text-gray-400"
+                    )}>
+                        {user?.email ?? 'Local mode'}
+                    </p>
+                </div>
+                {avatarUrl ? (
+                    <img
+                        src={avatarUrl}
+                        alt="Profile"
+                        className="w-10 h-10 rounded-full object-cover border-2 border-[#FF9F1C] shadow-md"
+                    />
+                ) : (
+                    <div className="w-10 h-10 rounded-full flex items-center justify-center border-2 border-[#FF9F1C] shadow-md bg-gradient-to-br from-[#FF9F1C] to-[#F68E09] text-white text-sm font-bold">
+                        {initials}
+                    </div>
+                )}
+                <ChevronDown className={clsx("w-4 h-4 transition-transform", isOpen && "rotate-180", isDark ? "text-gray-500" : "text-gray-400")} />
+            </button>
+
+            {isOpen && (
+                <div className={clsx(
+                    "absolute right-0 mt-2 w-56 rounded-xl border shadow-xl py-2",
+                    isDark ? "bg-[#1A1A1A] border-[#2A2A2A]" : "bg-white border-[#EFEEEE]"
+                )}>
+                    {isAuthEnabled && (
+                        <div className={clsx("px-4 py-2 border-b mb-1", isDark ? "border-[#2A2A2A]" : "border-[#EFEEEE]")}>
+                            <p className={clsx("text-xs", isDark ? "text-gray-500" : "text-gray-400")}>Signed in as</p>
+                            <p className={clsx("text-sm font-medium truncate", isDark ? "text-[#F5F5F5]" : "text-[#2D3436]")}>
+                                {user?.email}
+                            </p>
+                        </div>
+                    )}
+                    <Link
+                        href="/settings"
+                        onClick={() => setIsOpen(false)}
+                        className={itemClass}
+                    >
+                        <Settings className="w-4 h-4" />
+                        Settings
+                    </Link>
+                    <Link
+                        href="/trash"
+                        onClick={() => setIsOpen(false)}
+                        className={itemClass}
+                    >
+                        <Trash2 className="w-4 h-4" />
+                        Trash
+                    </Link>
+                    {isAuthEnabled && (
+                        <button onClick={handleSignOut} className={itemClass}>
+                            <LogOut className="w-4 h-4" />
+                            Sign out
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,25 @@
+'use client'
+
+import { Fragment, ReactNode } from 'react'
+import { Loader2 } from 'lucide-react'
+import { useAuth } from '@/lib/AuthContext'
+import LoginScreen from './LoginScreen'
+
+// Renders the app only for a signed-in user; keyed by user so switching accounts starts from fresh state
+export default function AuthGate({ children }: { children: ReactNode }) {
+    const { user, isLoading, isAuthEnabled } = useAuth()
+
+    if (!isAuthEnabled) return <>{children}</>
+
+    if (isLoading) {
+        return (
+            <div className="min-h-screen flex items-center justify-center">
+                <Loader2 className="w-8 h-8 text-[#FF9F1C] animate-spin" />
+            </div>
+        )
+    }
+
+    if (!user) return <LoginScreen />
+
+    return <Fragment key={user.id}>{children}</Fragment>
+}
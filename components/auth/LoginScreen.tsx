@@ -0,0 +1,151 @@
+'use client'
+
+import { useState } from 'react'
+import clsx from 'clsx'
+import { Mail, KeyRound, Loader2 } from 'lucide-react'
+import { useAuth } from '@/lib/AuthContext'
+import { useTheme } from '@/components/ThemeProvider'
+
+type Mode = 'password' | 'magic-link'
+
+export default function LoginScreen() {
+    const { signInWithPassword, signUpWithPassword, sendMagicLink } = useAuth()
+    const { theme } = useTheme()
+    const isDark = theme === 'dark'
+
+    const [mode, setMode] = useState<Mode>('password')
+    const [isSignUp, setIsSignUp] = useState(false)
+    const [email, setEmail] = useState('')
+    const [password, setPassword] = useState('')
+    const [isSubmitting, setIsSubmitting] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+    const [notice, setNotice] = useState<string | null>(null)
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!email.trim()) return
+
+        setIsSubmitting(true)
+        setError(null)
+        setNotice(null)
+
+        if (mode === 'magic-link') {
+            const message = await sendMagicLink(email.trim())
+            if (message) setError(message)
+            else setNotice(`We sent a sign-in link to ${email.trim()}. Open it on this device to continue.`)
+        } else if (isSignUp) {
+            const message = await signUpWithPassword(email.trim(), password)
+            if (message) setError(message)
+            else setNotice('Check your inbox to confirm your email, then sign in.')
+        } else {
+            const message = await signInWithPassword(email.trim(), password)
+            if (message) setError(message)
+        }
+
+        setIsSubmitting(false)
+    }
+
+    const inputClass = clsx(
+        "w-full px-4 py-3 rounded-xl border transition-colors focus:outline-none focus:ring-2 focus:ring-[#FF9F1C]",
+        isDark
+            ? "bg-[#2A2A2A] border-[#3A3A3A] text-[#F5F5F5] placeholder-gray-500"
+            : "bg-[#FFFBF5] border-[#EFEEEE] text-[#2D3436] placeholder-gray-400"
+    )
+
+    const tabClass = (active: boolean) => clsx(
+        "flex-1 flex items-center justify-center gap-2 py-2 rounded-full text-sm font-medium transition-all",
+        active
+            ? isDark ? "bg-gray-700 text-[#FF9F1C] shadow-sm" : "bg-white text-[#FF9F1C] shadow-sm"
+            : isDark ? "text-gray-400 hover:text-gray-200" : "text-gray-500 hover:text-gray-800"
+    )
+
+    return (
+        <div className={clsx(
+            "min-h-screen flex items-center justify-center p-4 transition-colors",
+            isDark ? "bg-[#121212]" : "bg-[#FFFBF5]"
+        )}>
+            <div className={clsx(
+                "w-full max-w-md rounded-2xl shadow-2xl p-8",
+                isDark ? "bg-[#1A1A1A]" : "bg-white"
+            )}>
+                <div className="flex flex-col items-center mb-8">
+                    <img
+                        src="/images/Logo Only (White).jpg"
+                        alt="SDaily Logo"
+                        className="w-14 h-14 rounded-2xl object-cover shadow-md mb-4"
+                    />
+                    <h1 className={clsx("text-2xl font-bold", isDark ? "text-[#F5F5F5]" : "text-[#2D3436]")}>
+                        {isSignUp && mode === 'password' ? 'Create your account' : 'Sign in to SDaily Planner'}
+                    </h1>
+                </div>
+
+                <div className={clsx(
+                    "flex items-center gap-1 rounded-full p-1 mb-6",
+                    isDark ? "bg-gray-800/50" : "bg-gray-100/80"
+                )}>
+                    <button type="button" onClick={() => setMode('password')} className={tabClass(mode === 'password')}>
+                        <KeyRound className="w-4 h-4" />
+                        Password
+                    </button>
+                    <button type="button" onClick={() => setMode('magic-link')} className={tabClass(mode === 'magic-link')}>
+                        <Mail className="w-4 h-4" />
+                        Magic link
+                    </button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <input
+                        type="email"
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                        placeholder="you@example.com"
+                        autoComplete="email"
+                        required
+                        className={inputClass}
+                    />
+                    {mode === 'password' && (
+                        <input
+                            type="password"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            placeholder="Password"
+                            autoComplete={isSignUp ? 'new-password' : 'current-password'}
+                            minLength={6}
+                            required
+                            className={inputClass}
+                        />
+                    )}
+
+                    {error && <p className="text-sm text-red-500">{error}</p>}
+                    {notice && <p className="text-sm text-green-500">{notice}</p>}
+
+                    <button
+                        type="submit"
+                        disabled={isSubmitting}
+                        className="w-full py-3 rounded-xl font-semibold text-white bg-gradient-to-r from-[#FF9F1C] to-[#F68E09] hover:opacity-90 transition-opacity disabled:opacity-60 flex items-center justify-center gap-2"
+                    >
+                        {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                        {mode === 'magic-link' ? 'Email me a link' : isSignUp ? 'Sign up' : 'Sign in'}
+                    </button>
+                </form>
+
+                {mode === 'password' && (
+                    <p className={clsx("text-sm text-center mt-6", isDark ? "text-gray-400" : "text-gray-500")}>
+                        {isSignUp ? 'Already have an account?' : 'New here?'}{' '}
+                        <button
+                            type="button"
+                            onClick={() => {
+                                setIsSignUp(!isSignUp)
+                                setError(null)
+                                setNotice(null)
+                            }}
+                            className="font-semibold text-[#FF9F1C] hover:underline"
+                        >
+                            {isSignUp ? 'Sign in' : 'Create an account'}
+                        </button>
+                    </p>
+                )}
+            </div>
+        </div>
+    )
+}
@@ -1,12 +1,19 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { Goal, GoalType, ChecklistItem, Comment } from '@/lib/types'
-import { fetchGoals, createGoal, updateGoal as updateGoalDB, deleteGoal as deleteGoalDB } from '@/lib/supabaseService'
+import { Goal, GoalType, ChecklistItem, Comment, Attachment } from '@/lib/types'
+import { fetchGoals, fetchGoal, createGoal, updateGoal as updateGoalDB, deleteGoal as deleteGoalDB, restoreGoal, isStaleVersion } from '@/lib/supabaseService'
 import { generateUUID } from '@/lib/uuid'
-import { Plus, X, Star, CheckSquare, MessageSquare, Calendar, Wallet, Target, Trash2, DollarSign, Heart, Edit2, Check } from 'lucide-react'
+import { Plus, X, Star, CheckSquare, MessageSquare, Calendar, Wallet, Target, Trash2, DollarSign, Heart, Edit2, Check, Paperclip } from 'lucide-react'
 import { useTheme } from '@/components/ThemeProvider'
 import { useData } from '@/lib/DataContext'
+import { useHistory } from '@/lib/HistoryContext'
+import PendingSyncBadge from '@/components/PendingSyncBadge'
+import CurrencySelect from '@/components/CurrencySelect'
+import { convertAmount, currencySymbol, formatMoney, sumConverted } from '@/lib/currency'
+import MergeDialog from '@/components/MergeDialog'
+import AttachmentsSection from '@/components/AttachmentsSection'
+import { GOAL_CONFLICT_FIELDS, FieldDiff, MergeChoice, diffRecords, mergeRecords } from '@/lib/conflicts'
 import clsx from 'clsx'
 import { format, parseISO, isPast, isToday } from 'date-fns'
 
@@ -15,7 +22,8 @@ const STORAGE_KEY = 'goals-data'
 export function GoalsBoard() {
     const { theme } = useTheme()
     const isDark = theme === 'dark'
-    const { goals, setGoals, isLoading } = useData()
+    const { goals, setGoals, isLoading, exchangeRates, reportingCurrency } = useData()
+    const { record } = useHistory()
     const [selectedGoal, setSelectedGoal] = useState<Goal | null>(null)
     const [isModalOpen, setIsModalOpen] = useState(false)
     const [isAddingGoal, setIsAddingGoal] = useState(false)
@@ -33,8 +41,9 @@ export function GoalsBoard() {
             goalType: newGoalType,
             checklist: [],
             comments: [],
+            attachments: [],
             createdAt: new Date().toISOString(),
-            budget: newGoalType === 'material' ? { targetAmount: 0, currentAmount: 0, currency: '₱' } : undefined,
+            budget: newGoalType === 'material' ? { targetAmount: 0, currentAmount: 0, currency: reportingCurrency } : undefined,
         }
 
         const created = await createGoal(newGoal)
@@ -54,10 +63,19 @@ export function GoalsBoard() {
     }
 
     const deleteGoal = async (goalId: string) => {
-        await deleteGoalDB(goalId)
+        const goal = goals.find(g => g.id === goalId)
+        const deleted = await deleteGoalDB(goalId)
         setGoals(prev => prev.filter(g => g.id !== goalId))
         setIsModalOpen(false)
         setSelectedGoal(null)
+
+        if (deleted && goal) {
+            record({
+                label: `Deleted "${goal.title}"`,
+                undo: () => restoreGoal(goalId),
+                redo: () => deleteGoalDB(goalId)
+            })
+        }
     }
 
     const openGoal = (goal: Goal) => {
@@ -75,6 +93,18 @@ export function GoalsBoard() {
         return Math.min(100, Math.round((goal.budget.currentAmount / goal.budget.targetAmount) * 100))
     }
 
+    // Budgets are amounts to reach from now on, so they convert at today's rates
+    const today = format(new Date(), 'yyyy-MM-dd')
+    const budgets = goals.flatMap(g => g.goalType === 'material' && g.budget && g.budget.targetAmount > 0 ? [g.budget] : [])
+    const budgetTarget = sumConverted(budgets.map(b => ({ amount: b.targetAmount, currency: b.currency, date: today })), reportingCurrency, exchangeRates)
+    const budgetSaved = sumConverted(budgets.map(b => ({ amount: b.currentAmount, currency: b.currency, date: today })), reportingCurrency, exchangeRates)
+
+    // Target in the reporting currency, for budgets kept in another one
+    const convertedTarget = (goal: Goal) => {
+        if (!goal.budget || goal.budget.currency === reportingCurrency || goal.budget.targetAmount === 0) return null
+        return convertAmount(goal.budget.targetAmount, goal.budget.currency, reportingCurrency, today, exchangeRates)
+    }
+
     return (
         <div className="space-y-6">
             <header>
@@ -92,6 +122,23 @@ export function GoalsBoard() {
                 </p>
             </header>
 
+            {budgets.length > 0 && (
+                <div className={clsx(
+                    "p-4 rounded-2xl border flex flex-wrap items-center gap-x-6 gap-y-1",
+                    isDark ? "bg-[#1A1A1A] border-[#2A2A2A]" : "bg-white border-gray-200"
+                )}>
+                    <span className={clsx("text-sm", isDark ? "text-[#A0A0A0]" : "text-gray-500")}>Saved toward material goals</span>
+                    <span className={clsx("font-bold text-lg", isDark ? "text-[#FF9F1C]" : "text-[#CC7A00]")}>
+                        {formatMoney(budgetSaved.total, reportingCurrency)} of {formatMoney(budgetTarget.total, reportingCurrency)}
+                    </span>
+                    {budgetTarget.missing.length > 0 && (
+                        <span className="text-xs text-amber-500">
+                            Budgets in {budgetTarget.missing.join(', ')} aren&apos;t included: no exchange rate to {reportingCurrency}
+                        </span>
+                    )}
+                </div>
+            )}
+
             {/* Add Goal Section */}
             {isAddingGoal ? (
                 <div className={clsx(
@@ -204,14 +251,22 @@ export function GoalsBoard() {
                                 )}>
                                     {goal.goalType === 'material' ? 'Material Goal' : 'Personal Goal'}
                                 </span>
+                                <PendingSyncBadge type="goal" id={goal.id} showLabel className="ml-2 mt-1" />
                             </div>
                             {goal.goalType === 'material' && goal.budget && (
-                                <span className={clsx(
-                                    "font-bold text-lg",
-                                    isDark ? "text-[#FF9F1C]" : "text-[#CC7A00]"
-                                )}>
-                                    {goal.budget.currency}{goal.budget.targetAmount.toLocaleString()}
-                                </span>
+                                <div className="text-right">
+                                    <span className={clsx(
+                                        "font-bold text-lg",
+                                        isDark ? "text-[#FF9F1C]" : "text-[#CC7A00]"
+                                    )}>
+                                        {formatMoney(goal.budget.targetAmount, goal.budget.currency)}
+                                    </span>
+                                    {convertedTarget(goal) !== null && (
+                                        <p className={clsx("text-xs", isDark ? "text-[#A0A0A0]" : "text-gray-500")}>
+                                            ≈ {formatMoney(convertedTarget(goal)!, reportingCurrency)}
+                                        </p>
+                                    )}
+                                </div>
                             )}
                         </div>
 
@@ -266,6 +321,15 @@ export function GoalsBoard() {
                                     {goal.comments.length}
                                 </span>
                             )}
+                            {goal.attachments && goal.attachments.length > 0 && (
+                                <span className={clsx(
+                                    "text-xs flex items-center gap-1",
+                                    isDark ? "text-[#A0A0A0]" : "text-gray-500"
+                                )}>
+                                    <Paperclip className="w-3 h-3" />
+                                    {goal.attachments.length}
+                                </span>
+                            )}
                             {goal.goalType === 'material' && goal.budget && goal.budget.targetAmount > 0 && (
                                 <span className={clsx(
                                     "text-xs px-2 py-0.5 rounded flex items-center gap-1",
@@ -324,9 +388,11 @@ function GoalModal({ goal, onClose, onUpdate, onDelete, isDark }: GoalModalProps
     const [targetDate, setTargetDate] = useState(goal.targetDate || '')
     const [checklist, setChecklist] = useState<ChecklistItem[]>(goal.checklist)
     const [comments, setComments] = useState<Comment[]>(goal.comments)
+    const [attachments, setAttachments] = useState<Attachment[]>(goal.attachments ?? [])
     const [budget, setBudget] = useState(goal.budget)
     const [newChecklistItem, setNewChecklistItem] = useState('')
     const [newComment, setNewComment] = useState('')
+    const [conflict, setConflict] = useState<{ remote: Goal; draft: Goal; diffs: FieldDiff[] } | null>(null)
 
     // Edit State
     const [editingCheckId, setEditingCheckId] = useState<string | null>(null)
@@ -366,16 +432,38 @@ function GoalModal({ goal, onClose, onUpdate, onDelete, isDark }: GoalModalProps
         setEditingCommentId(null)
     }
 
-    const handleSave = () => {
-        onUpdate({
+    // Returns false if saving is on hold because the goal changed elsewhere
+    const handleSave = async (): Promise<boolean> => {
+        let draft: Goal = {
             ...goal,
             title,
             description,
             targetDate: targetDate || undefined,
             checklist,
             comments,
+            attachments,
             budget,
-        })
+        }
+
+        const remote = await fetchGoal(goal.id)
+        if (remote && isStaleVersion('goals', goal.id, goal.version, remote.version)) {
+            const diffs = diffRecords(goal, draft, remote, GOAL_CONFLICT_FIELDS)
+            if (diffs.length > 0) {
+                setConflict({ remote, draft, diffs })
+                return false
+            }
+            draft = mergeRecords(goal, draft, remote, GOAL_CONFLICT_FIELDS, {})
+        }
+
+        onUpdate(draft)
+        return true
+    }
+
+    const resolveConflict = (choices: Record<string, MergeChoice>) => {
+        if (!conflict) return
+        onUpdate(mergeRecords(goal, conflict.draft, conflict.remote, GOAL_CONFLICT_FIELDS, choices))
+        setConflict(null)
+        onClose()
     }
 
     const addChecklistItem = () => {
@@ -432,9 +520,8 @@ function GoalModal({ goal, onClose, onUpdate, onDelete, isDark }: GoalModalProps
             {/* Backdrop */}
             <div
                 className="absolute inset-0 bg-black/50"
-                onClick={() => {
-                    handleSave()
-                    onClose()
+                onClick={async () => {
+                    if (await handleSave()) onClose()
                 }}
             />
 
@@ -457,9 +544,8 @@ function GoalModal({ goal, onClose, onUpdate, onDelete, isDark }: GoalModalProps
                             )}
                         />
                         <button
-                            onClick={() => {
-                                handleSave()
-                                onClose()
+                            onClick={async () => {
+                                if (await handleSave()) onClose()
                             }}
                             className={clsx(
                                 "p-2 rounded-lg transition-colors",
@@ -531,6 +617,16 @@ function GoalModal({ goal, onClose, onUpdate, onDelete, isDark }: GoalModalProps
                                     "text-sm font-medium",
                                     isDark ? "text-[#F5F5F5]" : "text-[#2D3436]"
                                 )}>Budget</span>
+                                <CurrencySelect
+                                    value={budget.currency}
+                                    onChange={(currency) => setBudget({ ...budget, currency })}
+                                    className={clsx(
+                                        "ml-auto px-2 py-1 rounded-lg border outline-none text-xs",
+                                        isDark
+                                            ? "bg-[#2A2A2A] border-[#3A3A3A] text-[#F5F5F5]"
+                                            : "bg-gray-50 border-gray-200 text-[#2D3436]"
+                                    )}
+                                />
                             </div>
 
                             <div className="grid grid-cols-2 gap-3 mb-2">
@@ -540,7 +636,7 @@ function GoalModal({ goal, onClose, onUpdate, onDelete, isDark }: GoalModalProps
                                         isDark ? "text-[#A0A0A0]" : "text-gray-500"
                                     )}>Target Amount</label>
                                     <div className="flex items-center gap-1 mt-1">
-                                        <span className={isDark ? "text-[#F5F5F5]" : "text-[#2D3436]"}>{budget.currency}</span>
+                                        <span className={isDark ? "text-[#F5F5F5]" : "text-[#2D3436]"}>{currencySymbol(budget.currency)}</span>
                                         <input
                                             type="number"
                                             value={budget.targetAmount || ''}
@@ -561,7 +657,7 @@ function GoalModal({ goal, onClose, onUpdate, onDelete, isDark }: GoalModalProps
                                         isDark ? "text-[#A0A0A0]" : "text-gray-500"
                                     )}>Current Saved</label>
                                     <div className="flex items-center gap-1 mt-1">
-                                        <span className={isDark ? "text-[#F5F5F5]" : "text-[#2D3436]"}>{budget.currency}</span>
+                                        <span className={isDark ? "text-[#F5F5F5]" : "text-[#2D3436]"}>{currencySymbol(budget.currency)}</span>
                                         <input
                                             type="number"
                                             value={budget.currentAmount || ''}
@@ -717,6 +813,17 @@ function GoalModal({ goal, onClose, onUpdate, onDelete, isDark }: GoalModalProps
                         </div>
                     </div>
 
+                    {/* Attachments Section */}
+                    <div className="mb-4">
+                        <AttachmentsSection
+                            attachments={attachments}
+                            onChange={setAttachments}
+                            prefix="goal"
+                            isDark={isDark}
+                            label={goal.goalType === 'material' ? 'References & Quotes' : 'Attachments'}
+                        />
+                    </div>
+
                     {/* Delete Button */}
                     <div className={clsx(
                         "pt-4 border-t",
@@ -862,6 +969,16 @@ function GoalModal({ goal, onClose, onUpdate, onDelete, isDark }: GoalModalProps
                     </div>
                 </div>
             </div>
+
+            {conflict && (
+                <MergeDialog
+                    entityLabel="goal"
+                    diffs={conflict.diffs}
+                    onResolve={resolveConflict}
+                    onCancel={() => setConflict(null)}
+                    isDark={isDark}
+                />
+            )}
         </div>
     )
 }
@@ -0,0 +1,121 @@
+'use client'
+
+import { useState } from 'react'
+import clsx from 'clsx'
+import { DollarSign, X } from 'lucide-react'
+import { Revenue } from '@/lib/types'
+import CurrencySelect from '@/components/CurrencySelect'
+
+interface CardRevenuePromptProps {
+    draft: Revenue // Pre-filled from the completed card
+    onSave: (revenue: Revenue) => Promise<void>
+    onSkip: () => void
+    isDark: boolean
+}
+
+// Asks whether a card that just reached Completed should be recorded as revenue
+export function CardRevenuePrompt({ draft, onSave, onSkip, isDark }: CardRevenuePromptProps) {
+    const [name, setName] = useState(draft.name)
+    const [projectName, setProjectName] = useState(draft.projectName)
+    const [price, setPrice] = useState<number | ''>(draft.price || '')
+    const [currency, setCurrency] = useState(draft.currency)
+    const [dateCompleted, setDateCompleted] = useState(draft.dateCompleted)
+    const [isSubmitting, setIsSubmitting] = useState(false)
+
+    const canSave = !!name.trim() && !!projectName.trim() && !!price && !isSubmitting
+
+    const handleSave = async () => {
+        if (!canSave) return
+        setIsSubmitting(true)
+        await onSave({
+            ...draft,
+            name: name.trim(),
+            projectName: projectName.trim(),
+            price: Number(price),
+            currency,
+            dateCompleted
+        })
+        setIsSubmitting(false)
+    }
+
+    const labelClass = clsx("text-sm font-medium", isDark ? "text-[#A0A0A0]" : "text-gray-600")
+    const inputClass = clsx(
+        "w-full mt-1 p-2 rounded-lg border outline-none",
+        isDark ? "bg-[#2A2A2A] border-[#3A3A3A] text-[#F5F5F5] placeholder-gray-500" : "bg-gray-50 border-gray-200 text-[#2D3436]"
+    )
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+            <div className="absolute inset-0 bg-black/50" onClick={onSkip} />
+            <div className={clsx("relative w-full max-w-md rounded-2xl shadow-xl p-6 space-y-4", isDark ? "bg-[#1A1A1A]" : "bg-white")}>
+                <div className="flex items-start justify-between">
+                    <div>
+                        <h2 className={clsx("text-lg font-bold flex items-center gap-2", isDark ? "text-[#F5F5F5]" : "text-[#2D3436]")}>
+                            <DollarSign className="w-5 h-5 text-[#FF9F1C]" />
+                            Record revenue?
+                        </h2>
+                        <p className={clsx("text-sm mt-1", isDark ? "text-[#A0A0A0]" : "text-[#636E72]")}>
+                            “{draft.name}” is done. Add what it earned to Revenue.
+                        </p>
+                    </div>
+                    <button onClick={onSkip} className={clsx("p-2 rounded-lg", isDark ? "hover:bg-[#2A2A2A]" : "hover:bg-gray-100")}>
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div>
+                    <label className={labelClass}>Name *</label>
+                    <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                    <label className={labelClass}>Project Name *</label>
+                    <input
+                        type="text"
+                        value={projectName}
+                        onChange={(e) => setProjectName(e.target.value)}
+                        placeholder="e.g., Client XYZ Website"
+                        autoFocus={!projectName}
+                        className={inputClass}
+                    />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                    <div>
+                        <label className={labelClass}>Price *</label>
+                        <div className="flex items-center gap-1">
+                            <CurrencySelect value={currency} onChange={setCurrency} className={clsx(inputClass, "w-auto")} />
+                            <input
+                                type="number"
+                                min={0}
+                                value={price}
+                                onChange={(e) => setPrice(e.target.value ? Number(e.target.value) : '')}
+                                placeholder="0"
+                                autoFocus={!!projectName && !price}
+                                className={inputClass}
+                            />
+                        </div>
+                    </div>
+                    <div>
+                        <label className={labelClass}>Date Completed</label>
+                        <input type="date" value={dateCompleted} onChange={(e) => setDateCompleted(e.target.value)} className={inputClass} />
+                    </div>
+                </div>
+
+                <div className="flex justify-end gap-2 pt-2">
+                    <button
+                        onClick={onSkip}
+                        className={clsx("px-4 py-2 rounded-lg text-sm", isDark ? "text-[#A0A0A0] hover:bg-[#2A2A2A]" : "text-gray-500 hover:bg-gray-100")}
+                    >
+                        Not now
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={!canSave}
+                        className="px-4 py-2 bg-[#FF9F1C] text-white rounded-lg text-sm font-medium hover:bg-[#E08A15] disabled:opacity-50"
+                    >
+                        {isSubmitting ? 'Adding…' : 'Add Revenue'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
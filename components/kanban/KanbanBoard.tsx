@@ -2,16 +2,30 @@
 
 import { useState, useEffect, useRef } from 'react'
 import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd'
-import { KanbanCard, CardStatus, ChecklistItem, Comment, Attachment, Plan, TimeSlot } from '@/lib/types'
-import { fetchCards, createCard, updateCard as updateCardDB, deleteCard as deleteCardDB, fetchPlans, deletePlan, updatePlan, createPlan, deleteOrphanPlans, fetchCustomSections, createCustomSection, deleteCustomSection } from '@/lib/supabaseService'
-import { supabase } from '@/lib/supabaseClient'
+import { KanbanCard, CardStatus, ChecklistItem, Comment, Attachment, Plan, Revenue, TimeSlot, WorkspaceMember } from '@/lib/types'
+import { fetchCards, fetchCard, createCard, updateCard as updateCardDB, deleteCard as deleteCardDB, restoreCard, fetchPlans, deletePlan, purgePlan, restorePlan, updatePlan, createPlan, deleteOrphanPlans, fetchCustomSections, createCustomSection, deleteCustomSection, isStaleVersion, createRevenue, deleteRevenue, restoreRevenue } from '@/lib/supabaseService'
+import { uploadAttachment, validateAttachmentFile } from '@/lib/attachmentService'
 import { generateUUID } from '@/lib/uuid'
-import { Plus, X, Calendar, CheckSquare, MessageSquare, Paperclip, Link2, Trash2, Heart, Clock, FileText, Download, Eye, Image as ImageIcon, Upload, AlignLeft, Edit2, Check } from 'lucide-react'
+import { Plus, X, Calendar, CheckSquare, MessageSquare, Paperclip, Link2, Trash2, Heart, Clock, FileText, Download, Eye, Image as ImageIcon, Upload, AlignLeft, Edit2, Check, Users, DollarSign, Briefcase } from 'lucide-react'
 import { useTheme } from '@/components/ThemeProvider'
 import { useData } from '@/lib/DataContext'
+import { useWorkspace } from '@/lib/WorkspaceContext'
+import { useAuth } from '@/lib/AuthContext'
+import { useHistory } from '@/lib/HistoryContext'
+import MemberAvatar, { memberName } from '@/components/workspace/MemberAvatar'
+import PendingSyncBadge from '@/components/PendingSyncBadge'
+import CurrencySelect from '@/components/CurrencySelect'
+import MergeDialog from '@/components/MergeDialog'
+import AttachmentPreview from '@/components/AttachmentPreview'
+import { CARD_CONFLICT_FIELDS, FieldDiff, MergeChoice, diffRecords, mergeRecords } from '@/lib/conflicts'
 import clsx from 'clsx'
-import { format, isToday, parseISO, isBefore, isAfter, startOfDay } from 'date-fns'
+import { format, isToday, parseISO, isAfter, startOfDay } from 'date-fns'
 import { formatTimeTo12h, isOverdue } from '@/lib/utils'
+import { planToCard, withOccurrenceCompleted } from '@/lib/planCards'
+import { revenueForCard, revenueFromCard } from '@/lib/cardRevenue'
+import { formatMoney } from '@/lib/currency'
+import Link from 'next/link'
+import { CardRevenuePrompt } from './CardRevenuePrompt'
 
 
 
@@ -29,48 +43,6 @@ interface KanbanColumn {
     description: string;
 }
 
-// Convert a Plan from planner to KanbanCard
-function planToCard(plan: Plan): KanbanCard {
-    return {
-        id: `plan-${plan.id}`,
-        title: plan.title,
-        description: plan.description,
-        status: determineCardStatus(plan),
-        startDate: plan.date,
-        endDate: plan.hasDueDate ? plan.dueDate : plan.date,
-        timeSlots: plan.timeSlots,
-        checklist: [],
-        comments: [],
-        attachments: plan.attachments || [],
-        createdAt: plan.createdAt,
-        linkedPlanId: plan.id,
-    }
-}
-
-// Determine which column a plan should be in
-function determineCardStatus(plan: Plan): CardStatus {
-    if (plan.completed) return 'completed'
-
-    const today = startOfDay(new Date())
-    const startDate = parseISO(plan.date)
-    const endDate = plan.hasDueDate && plan.dueDate ? parseISO(plan.dueDate) : startDate
-
-    // OVERDUE: If it's in the past and not completed, keep it "In Progress" so it stays visible
-    if (isOverdue(plan.date, plan.dueDate, plan.completed)) {
-        return 'in-progress'
-    }
-
-    if (isToday(startDate) || (startDate <= today && endDate >= today)) {
-        return 'in-progress'
-    }
-
-    if (isAfter(startDate, today) || (plan.hasDueDate && isBefore(today, startDate))) {
-        return 'pending'
-    }
-
-    return 'inbox'
-}
-
 export function KanbanBoard() {
     const { theme } = useTheme()
     const isDark = theme === 'dark'
@@ -86,20 +58,29 @@ export function KanbanBoard() {
         isLoading: isDataLoading,
         refreshAll,
         setPlans,
-        setCards: setRawCards
+        setCards: setRawCards,
+        revenues,
+        setRevenues,
+        reportingCurrency
     } = useData() // Use global data
+    const { currentWorkspace, currentWorkspaceId, members, canEdit } = useWorkspace()
+    const { user } = useAuth()
+    const { record } = useHistory()
+    // 'all' | 'me' | 'unassigned' | a member's user id
+    const [assigneeFilter, setAssigneeFilter] = useState('all')
     const [isAddSectionOpen, setIsAddSectionOpen] = useState(false)
     const [newSectionTitle, setNewSectionTitle] = useState('')
     const [newSectionDescription, setNewSectionDescription] = useState('')
     const [error, setError] = useState<string | null>(null)
-    const [ignoredPlanIds, setIgnoredPlanIds] = useState<string[]>([]) // To suppress ghost plans during deletion
+    // Revenue offered for a card that was just completed
+    const [revenueDraft, setRevenueDraft] = useState<Revenue | null>(null)
 
     const [isColumnsLoaded, setIsColumnsLoaded] = useState(false)
 
-    // Load custom columns from database
+    // Load custom columns from database (per board)
     useEffect(() => {
         const loadCustomSections = async () => {
-            const sections = await fetchCustomSections()
+            const sections = await fetchCustomSections(currentWorkspaceId)
             const columns: KanbanColumn[] = sections.map(s => ({
                 id: `custom-${s.id}` as CardStatus,
                 title: s.title,
@@ -109,8 +90,9 @@ export function KanbanBoard() {
             setCustomColumns(columns)
             setIsColumnsLoaded(true)
         }
+        setAssigneeFilter('all')
         loadCustomSections()
-    }, [])
+    }, [currentWorkspaceId])
 
     const allColumns = [...DEFAULT_COLUMNS, ...customColumns]
 
@@ -135,7 +117,8 @@ export function KanbanBoard() {
             id: sectionId,
             title: newColumn.title,
             color: newColumn.color,
-            position: customColumns.length
+            position: customColumns.length,
+            workspaceId: currentWorkspaceId
         })
     }
 
@@ -156,21 +139,22 @@ export function KanbanBoard() {
     useEffect(() => {
         if (isDataLoading) return
 
+        // Planner plans are personal, so shared boards show only their own cards
+        if (currentWorkspaceId) {
+            setCards(rawCards)
+            return
+        }
+
         let kanbanCards = [...rawCards]
 
-        // Sync plans from planner, excluding ignored ones
+        // Sync plans from planner
         plans.forEach(plan => {
-            if (ignoredPlanIds.includes(plan.id)) return
-
             const existingCardIndex = kanbanCards.findIndex(c => c.linkedPlanId === plan.id)
             const newCard = planToCard(plan)
 
             if (existingCardIndex >= 0) {
                 kanbanCards[existingCardIndex] = {
                     ...newCard,
-                    timeSlots: plan.timeSlots,
-                    checklist: kanbanCards[existingCardIndex].checklist,
-                    comments: kanbanCards[existingCardIndex].comments,
                     // Preserve position from DB if it exists (for manually ordered plans)
                     position: kanbanCards[existingCardIndex].position || newCard.position,
                     // ALWAYS preserve existing status to respect user's manual column choice
@@ -207,11 +191,9 @@ export function KanbanBoard() {
             }
         })
 
-        // Remove cards whose linked plans were deleted OR are ignored
+        // Remove cards whose linked plans were deleted or are in the Trash
         kanbanCards = kanbanCards.filter(card => {
             if (card.linkedPlanId) {
-                // If ignored, treat as "missing/deleted" from planner perspective
-                if (ignoredPlanIds.includes(card.linkedPlanId)) return false
                 return plans.some(p => p.id === card.linkedPlanId)
             }
             return true
@@ -228,11 +210,12 @@ export function KanbanBoard() {
         })
 
         setCards(kanbanCards)
-    }, [rawCards, plans, isDataLoading, ignoredPlanIds]) // Add ignoredPlanIds to dependency
+    }, [rawCards, plans, isDataLoading, currentWorkspaceId])
 
     // Sync card changes back to planner (Supabase)
     const syncCardToPlanner = async (card: KanbanCard) => {
-        if (!card.linkedPlanId) return
+        // Occurrence cards of recurring plans are saved by updateCardDB, one occurrence at a time
+        if (!card.linkedPlanId || card.workspaceId || card.occurrenceDate) return
 
         const planUpdate: Partial<Plan> = {
             id: card.linkedPlanId,
@@ -254,7 +237,8 @@ export function KanbanBoard() {
 
     // Create plan in planner when card gets dates
     const createPlanFromCard = async (card: KanbanCard) => {
-        if (!card.startDate || card.linkedPlanId) return
+        // Workspace cards stay off the (personal) planner
+        if (!card.startDate || card.linkedPlanId || card.workspaceId) return
 
         const newPlan: Plan = {
             id: generateUUID(),
@@ -272,8 +256,17 @@ export function KanbanBoard() {
         return created ? created.id : null
     }
 
+    // Writes a card's column and position (and the linked plan's completion) without touching local state
+    const persistMove = async (card: KanbanCard) => {
+        await syncCardToPlanner(card)
+        return updateCardDB(card)
+    }
+
+    const columnTitle = (status: CardStatus) =>
+        [...DEFAULT_COLUMNS, ...customColumns].find(column => column.id === status)?.title ?? status
+
     const handleDragEnd = (result: DropResult) => {
-        if (!result.destination) return
+        if (!result.destination || !canEdit) return
 
         const { source, destination, draggableId } = result
 
@@ -338,6 +331,16 @@ export function KanbanBoard() {
             })
         }
 
+        record({
+            label: `Moved "${cardLike.title}" to ${columnTitle(newStatus)}`,
+            undo: () => persistMove(cardLike),
+            redo: () => persistMove(updatedCard)
+        })
+
+        if (newStatus === 'completed' && cardLike.status !== 'completed' && !revenueForCard(cardLike, revenues)) {
+            setRevenueDraft(revenueFromCard(cardLike, reportingCurrency))
+        }
+
         // Trigger side effects
         syncCardToPlanner(updatedCard)
 
@@ -348,33 +351,17 @@ export function KanbanBoard() {
 
             // CRITICAL FIX: Optimistically update plans state to prevent useEffect from reverting
             // This ensures determineCardStatus will return 'completed' even before DB persists
+            const markCompleted = (plan: Plan, done: boolean) => updatedCard.occurrenceDate
+                ? withOccurrenceCompleted(plan, updatedCard.occurrenceDate, done).plan
+                : { ...plan, completed: done }
             if (completed) {
                 setPlans(prevPlans => prevPlans.map(p =>
-                    p.id === updatedCard.linkedPlanId ? { ...p, completed: true } : p
+                    p.id === updatedCard.linkedPlanId ? markCompleted(p, true) : p
                 ))
             }
 
-            const planUpdate = {
-                id: updatedCard.linkedPlanId,
-                title: updatedCard.title,
-                description: updatedCard.description,
-                date: updatedCard.startDate || new Date().toISOString(),
-                hasDueDate: !!(updatedCard.endDate && updatedCard.startDate !== updatedCard.endDate),
-                dueDate: updatedCard.endDate,
-                completed: completed,
-                // These fields are not updated by updatePlan SQL update, but required by type
-                timeSlots: updatedCard.timeSlots,
-                attachments: updatedCard.attachments,
-                createdAt: updatedCard.createdAt
-                // Plans don't natively support manual position yet in DB, 
-                // but since we are doing manual ordering, we might want to convert it to a real card if moved?
-                // For now, let's just trigger updatePlan.
-                // NOTE: If the user reorders a plan card, the position won't stick unless we promote it to a real card.
-                // Let's rely on my previous "promotion" logic in updateCard!
-            }
-
-            // To save position for a PLAN, we MUST call updateCardDB (which promotes it)
-            // updateCardDB handles promotion if needed.
+            // Plans have no position or column of their own: the card follows the plan's dates,
+            // and only completion is written back (updateCardDB goes through updatePlan)
             updateCardDB(updatedCard).catch(error => {
                 console.error('Failed to update card status/position:', error)
                 // Revert
@@ -384,7 +371,7 @@ export function KanbanBoard() {
                 // Also revert plans state if failed
                 if (completed) {
                     setPlans(prevPlans => prevPlans.map(p =>
-                        p.id === updatedCard.linkedPlanId ? { ...p, completed: false } : p
+                        p.id === updatedCard.linkedPlanId ? markCompleted(p, false) : p
                     ))
                 }
             })
@@ -414,6 +401,8 @@ export function KanbanBoard() {
             attachments: [],
             createdAt: new Date().toISOString(),
             position: maxPos + 1000,
+            workspaceId: currentWorkspaceId,
+            assigneeIds: [],
         }
 
         const created = await createCard(newCard)
@@ -468,6 +457,7 @@ export function KanbanBoard() {
                             ...finalCard,
                             id: newCardId,
                             linkedPlanId: undefined, // Fully unlink
+                            timeSlots: undefined, // The times belonged to the plan's schedule
                             status: finalCard.status,
                             createdAt: new Date().toISOString()
                         }
@@ -479,12 +469,9 @@ export function KanbanBoard() {
                         setRawCards(prev => [...prev.filter(c => c.id !== updatedCard.id), realCard])
                     }
 
-                    // 2. Delete the old plan
+                    // 2. Delete the old plan (for good - the card carries on without it, nothing to restore)
                     if (selectedCard?.linkedPlanId) {
-                        const planIdToDelete = selectedCard.linkedPlanId
-                        // Immediate suppress to prevent ghost
-                        setIgnoredPlanIds(prev => [...prev, planIdToDelete])
-                        await deletePlan(planIdToDelete)
+                        await purgePlan(selectedCard.linkedPlanId)
                     }
 
                     // 3. Update plans state
@@ -511,7 +498,6 @@ export function KanbanBoard() {
             if (planIdToDelete) {
                 try {
                     // 1. Optimistic updates
-                    setIgnoredPlanIds(prev => [...prev, planIdToDelete])
                     setPlans(prev => prev.filter(p => p.id !== planIdToDelete))
 
                     // 2. CRITICAL: Unlink card in DB FIRST to satisfy Foreign Key constraints
@@ -525,7 +511,7 @@ export function KanbanBoard() {
 
                     // 3. Now it is safe to delete the plan
                     // alert(`Debug: Attempting to delete plan ${planIdToDelete}`)
-                    const deleteSuccess = await deletePlan(planIdToDelete)
+                    const deleteSuccess = await purgePlan(planIdToDelete)
                     if (!deleteSuccess) {
                         alert(`Debug: Database failed to delete plan ${planIdToDelete}. Check console/logs.`)
                         throw new Error("Database failed to delete plan (unknown error)")
@@ -593,6 +579,13 @@ export function KanbanBoard() {
         if (!finalCard.startDate && selectedCard?.linkedPlanId) {
             setPlans(prev => prev.filter(p => p.id !== selectedCard.linkedPlanId))
         }
+        // Virtual plan cards show the plan's checklist and comments, so update them there
+        if (finalCard.id.startsWith('plan-') && finalCard.linkedPlanId) {
+            setPlans(prev => prev.map(p => p.id === finalCard.linkedPlanId
+                ? { ...p, checklist: finalCard.checklist, comments: finalCard.comments, attachments: finalCard.attachments }
+                : p
+            ))
+        }
         // Always update rawCards for existing cards (the plan creation block already handles new linkedPlanId case)
         setRawCards(prev => prev.map(c => c.id === finalCard.id ? finalCard : c))
 
@@ -614,6 +607,22 @@ export function KanbanBoard() {
         }
     }
 
+    // Moves the card and, like the planner, the plan it was scheduled through to the Trash
+    const removeCardFromDB = async (cardId: string, linkedPlanId?: string) => {
+        try {
+            if (linkedPlanId && !(await deletePlan(linkedPlanId))) return false
+            // Only delete from DB if it's a real card (not virtual plan-card)
+            if (!cardId.startsWith('plan-')) {
+                return await deleteCardDB(cardId)
+            }
+            return true
+        } catch (error) {
+            console.error('Failed to delete card from database:', error)
+            // Errors are logged but don't block UI - realtime subscription will eventually sync
+            return false
+        }
+    }
+
     const deleteCard = async (cardId: string) => {
         // Capture card data immediately before any state changes
         const card = cards.find(c => c.id === cardId)
@@ -626,8 +635,6 @@ export function KanbanBoard() {
         // 2. Update plans if linked
         if (linkedPlanId) {
             setPlans(prev => prev.filter(p => p.id !== linkedPlanId))
-            // Add to ignore list to prevent ghost cards from realtime/refresh
-            setIgnoredPlanIds(prev => [...prev, linkedPlanId])
         }
 
         // 3. Also update the derived cards state directly for immediate UI feedback
@@ -638,25 +645,34 @@ export function KanbanBoard() {
         setIsModalOpen(false)
         setSelectedCard(null)
 
+        if (card) {
+            record({
+                label: `Deleted "${card.title}"`,
+                // restoreCard also brings back the plan the card was scheduled through
+                undo: async () => {
+                    if (!cardId.startsWith('plan-')) return restoreCard(cardId)
+                    return linkedPlanId ? restorePlan(linkedPlanId) : true
+                },
+                redo: () => removeCardFromDB(cardId, linkedPlanId)
+            })
+        }
+
         // Fire-and-forget background persistence (non-blocking)
         // This allows rapid deletion without waiting for DB
-        const deleteFromDB = async () => {
-            try {
-                if (linkedPlanId) {
-                    await deletePlan(linkedPlanId)
-                }
-                // Only delete from DB if it's a real card (not virtual plan-card)
-                if (!cardId.startsWith('plan-')) {
-                    await deleteCardDB(cardId)
-                }
-            } catch (error) {
-                console.error('Failed to delete card from database:', error)
-                // Errors are logged but don't block UI - realtime subscription will eventually sync
-            }
-        }
+        removeCardFromDB(cardId, linkedPlanId)
+    }
+
+    const recordCardRevenue = async (revenue: Revenue) => {
+        const created = await createRevenue(revenue)
+        setRevenueDraft(null)
+        if (!created) return
 
-        // Start deletion but don't await it
-        deleteFromDB()
+        setRevenues(prev => [...prev, revenue])
+        record({
+            label: `Recorded revenue for "${revenue.name}"`,
+            undo: () => deleteRevenue(revenue.id),
+            redo: () => restoreRevenue(revenue.id)
+        })
     }
 
     const openCard = (card: KanbanCard) => {
@@ -664,12 +680,54 @@ export function KanbanBoard() {
         setIsModalOpen(true)
     }
 
+    // Revenue entries link here with ?card=<id>
+    const [linkedCardId, setLinkedCardId] = useState<string | null>(null)
+    useEffect(() => {
+        setLinkedCardId(new URLSearchParams(window.location.search).get('card'))
+    }, [])
+    useEffect(() => {
+        const card = linkedCardId && cards.find(c => c.id === linkedCardId)
+        if (!card) return
+        openCard(card)
+        setLinkedCardId(null)
+    }, [linkedCardId, cards])
+
+    const matchesAssigneeFilter = (card: KanbanCard) => {
+        const assignees = card.assigneeIds ?? []
+        if (assigneeFilter === 'all') return true
+        if (assigneeFilter === 'unassigned') return assignees.length === 0
+        if (assigneeFilter === 'me') return !!user && assignees.includes(user.id)
+        return assignees.includes(assigneeFilter)
+    }
+
     const getColumnCards = (status: CardStatus) => {
         return cards
-            .filter(card => card.status === status)
+            .filter(card => card.status === status && matchesAssigneeFilter(card))
             .sort((a, b) => (a.position || 0) - (b.position || 0))
     }
 
+    const cardAssignees = (card: KanbanCard) =>
+        members.filter(member => card.assigneeIds?.includes(member.userId))
+
+    // What the card was billed at once recorded as revenue, otherwise its price
+    const renderBillingBadge = (card: KanbanCard) => {
+        const billed = revenueForCard(card, revenues)
+        if (!billed && card.price == null) return null
+        return (
+            <span className={clsx(
+                "text-xs px-2 py-0.5 rounded flex items-center gap-1",
+                billed
+                    ? isDark ? "bg-green-900/30 text-green-400" : "bg-green-100 text-green-700"
+                    : isDark ? "text-gray-400 bg-gray-700/30" : "text-gray-500 bg-gray-100"
+            )}>
+                <DollarSign className="w-3 h-3" />
+                {billed
+                    ? formatMoney(billed.price, billed.currency)
+                    : formatMoney(card.price!, card.currency ?? reportingCurrency)}
+            </span>
+        )
+    }
+
     return (
         <div className="space-y-6">
             <header>
@@ -677,14 +735,54 @@ export function KanbanBoard() {
                     "text-3xl font-bold",
                     isDark ? "text-[#F5F5F5]" : "text-[#2D3436]"
                 )}>
-                    Cards
+                    {currentWorkspace ? currentWorkspace.name : 'Cards'}
                 </h1>
-                <p className={clsx(
-                    "mt-2",
-                    isDark ? "text-[#A0A0A0]" : "text-[#636E72]"
-                )}>
-                    Your task board. Plans from the planner sync here automatically.
-                </p>
+                <div className="mt-2 flex flex-wrap items-center justify-between gap-3">
+                    <p className={clsx(isDark ? "text-[#A0A0A0]" : "text-[#636E72]")}>
+                        {currentWorkspace
+                            ? canEdit
+                                ? 'Shared team board. Changes are visible to every member.'
+                                : 'Shared team board. You have view-only access.'
+                            : 'Your task board. Plans from the planner sync here automatically.'}
+                    </p>
+
+                    {/* Assignee filter - workspace boards only */}
+                    {members.length > 0 && (
+                        <div className="flex items-center gap-2">
+                            <div className="flex -space-x-2">
+                                {members.slice(0, 5).map(member => (
+                                    <button
+                                        key={member.userId}
+                                        onClick={() => setAssigneeFilter(assigneeFilter === member.userId ? 'all' : member.userId)}
+                                        className={clsx(
+                                            "rounded-full ring-2 transition-transform hover:-translate-y-0.5",
+                                            assigneeFilter === member.userId
+                                                ? "ring-[#FF9F1C]"
+                                                : isDark ? "ring-[#121212]" : "ring-white"
+                                        )}
+                                    >
+                                        <MemberAvatar member={member} size="md" />
+                                    </button>
+                                ))}
+                            </div>
+                            <select
+                                value={assigneeFilter}
+                                onChange={(e) => setAssigneeFilter(e.target.value)}
+                                className={clsx(
+                                    "px-3 py-1.5 rounded-lg text-sm border outline-none focus:ring-2 focus:ring-[#FF9F1C]",
+                                    isDark ? "bg-[#2A2A2A] border-[#3A3A3A] text-[#F5F5F5]" : "bg-white border-gray-200 text-[#2D3436]"
+                                )}
+                            >
+                                <option value="all">Everyone</option>
+                                <option value="me">Assigned to me</option>
+                                <option value="unassigned">Unassigned</option>
+                                {members.map(member => (
+                                    <option key={member.userId} value={member.userId}>{memberName(member)}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+                </div>
             </header>
 
             <DragDropContext onDragEnd={handleDragEnd}>
@@ -737,7 +835,7 @@ export function KanbanBoard() {
                                             {/* Cards */}
                                             <div className="space-y-2 min-h-[100px]">
                                                 {getColumnCards(column.id).map((card, index) => (
-                                                    <Draggable key={card.id} draggableId={card.id} index={index}>
+                                                    <Draggable key={card.id} draggableId={card.id} index={index} isDragDisabled={!canEdit}>
                                                         {(provided, snapshot) => (
                                                             <div
                                                                 ref={provided.innerRef}
@@ -765,7 +863,7 @@ export function KanbanBoard() {
                                                                     )}>
                                                                         {card.title}
                                                                     </p>
-                                                                    {column.id === 'completed' && (
+                                                                    {column.id === 'completed' && canEdit && (
                                                                         <button
                                                                             onClick={(e) => {
                                                                                 e.stopPropagation()
@@ -782,6 +880,7 @@ export function KanbanBoard() {
 
                                                                 {/* Card Footer */}
                                                                 <div className="flex items-center gap-2 mt-2 flex-wrap">
+                                                                    <PendingSyncBadge type="card" id={card.id} showLabel />
                                                                     {card.timeSlots && card.timeSlots.length > 0 && (
                                                                         <span className={clsx(
                                                                             "text-xs px-2 py-0.5 rounded flex items-center gap-1",
@@ -835,6 +934,14 @@ export function KanbanBoard() {
                                                                             {card.attachments.length}
                                                                         </span>
                                                                     )}
+                                                                    {renderBillingBadge(card)}
+                                                                    {cardAssignees(card).length > 0 && (
+                                                                        <div className="flex -space-x-1.5 ml-auto">
+                                                                            {cardAssignees(card).map(member => (
+                                                                                <MemberAvatar key={member.userId} member={member} className={clsx("ring-2", isDark ? "ring-[#2A2A2A]" : "ring-white")} />
+                                                                            ))}
+                                                                        </div>
+                                                                    )}
                                                                 </div>
                                                             </div>
                                                         )}
@@ -844,7 +951,7 @@ export function KanbanBoard() {
                                             </div>
 
                                             {/* Add Card Button */}
-                                            {newCardColumn === column.id ? (
+                                            {!canEdit ? null : newCardColumn === column.id ? (
                                                 <div className="mt-2">
                                                     <input
                                                         type="text"
@@ -909,7 +1016,7 @@ export function KanbanBoard() {
                                 <div className="w-2 h-6 bg-[#FF9F1C] rounded-full" />
                                 Custom Sections
                             </h3>
-                            {!isAddSectionOpen && (
+                            {!isAddSectionOpen && canEdit && (
                                 <button
                                     onClick={() => setIsAddSectionOpen(true)}
                                     className="flex items-center gap-2 px-3 py-1.5 bg-[#FF9F1C]/10 text-[#FF9F1C] rounded-lg text-sm font-semibold hover:bg-[#FF9F1C]/20 transition-all"
@@ -954,14 +1061,16 @@ export function KanbanBoard() {
                                                             {getColumnCards(column.id).length}
                                                         </span>
                                                     </div>
-                                                    <button
-                                                        onClick={() => deleteSection(column.id)}
-                                                        className={clsx(
-                                                            "p-1 rounded hover:bg-red-500/10 text-red-500 opacity-50 hover:opacity-100 transition-opacity",
-                                                        )}
-                                                    >
-                                                        <Trash2 className="w-3 h-3" />
-                                                    </button>
+                                                    {canEdit && (
+                                                        <button
+                                                            onClick={() => deleteSection(column.id)}
+                                                            className={clsx(
+                                                                "p-1 rounded hover:bg-red-500/10 text-red-500 opacity-50 hover:opacity-100 transition-opacity",
+                                                            )}
+                                                        >
+                                                            <Trash2 className="w-3 h-3" />
+                                                        </button>
+                                                    )}
                                                 </div>
                                                 {column.description && (
                                                     <p className={clsx(
@@ -976,7 +1085,7 @@ export function KanbanBoard() {
                                             {/* Cards */}
                                             <div className="space-y-2 min-h-[100px]">
                                                 {getColumnCards(column.id).map((card, index) => (
-                                                    <Draggable key={card.id} draggableId={card.id} index={index}>
+                                                    <Draggable key={card.id} draggableId={card.id} index={index} isDragDisabled={!canEdit}>
                                                         {(provided, snapshot) => (
                                                             <div
                                                                 ref={provided.innerRef}
@@ -1003,6 +1112,7 @@ export function KanbanBoard() {
                                                                 </p>
                                                                 {/* Card Footer */}
                                                                 <div className="flex items-center gap-2 mt-2 flex-wrap">
+                                                                    <PendingSyncBadge type="card" id={card.id} showLabel />
                                                                     {card.timeSlots && card.timeSlots.length > 0 && (
                                                                         <span className={clsx(
                                                                             "text-xs px-2 py-0.5 rounded flex items-center gap-1",
@@ -1058,6 +1168,14 @@ export function KanbanBoard() {
                                                                             {card.attachments.length}
                                                                         </span>
                                                                     )}
+                                                                    {renderBillingBadge(card)}
+                                                                    {cardAssignees(card).length > 0 && (
+                                                                        <div className="flex -space-x-1.5 ml-auto">
+                                                                            {cardAssignees(card).map(member => (
+                                                                                <MemberAvatar key={member.userId} member={member} className={clsx("ring-2", isDark ? "ring-[#2A2A2A]" : "ring-white")} />
+                                                                            ))}
+                                                                        </div>
+                                                                    )}
                                                                 </div>
                                                             </div>
                                                         )}
@@ -1067,7 +1185,7 @@ export function KanbanBoard() {
                                             </div>
 
                                             {/* Add Card Button */}
-                                            {newCardColumn === column.id ? (
+                                            {!canEdit ? null : newCardColumn === column.id ? (
                                                 <div className="mt-2">
                                                     <input
                                                         type="text"
@@ -1205,6 +1323,18 @@ export function KanbanBoard() {
                     onUpdate={updateCard}
                     onDelete={deleteCard}
                     isDark={isDark}
+                    members={members}
+                    readOnly={!canEdit}
+                    billedRevenue={revenueForCard(selectedCard, revenues)}
+                    defaultCurrency={reportingCurrency}
+                />
+            )}
+            {revenueDraft && (
+                <CardRevenuePrompt
+                    draft={revenueDraft}
+                    onSave={recordCardRevenue}
+                    onSkip={() => setRevenueDraft(null)}
+                    isDark={isDark}
                 />
             )}
             {/* Error Modal */}
@@ -1253,9 +1383,13 @@ interface CardModalProps {
     onUpdate: (card: KanbanCard) => void
     onDelete: (cardId: string) => void
     isDark: boolean
+    members: WorkspaceMember[] // Empty on the personal board
+    readOnly: boolean // Workspace viewers can open cards but not change them
+    billedRevenue?: Revenue // Revenue entry recorded from this card
+    defaultCurrency: string
 }
 
-function CardModal({ card, onClose, onUpdate, onDelete, isDark }: CardModalProps) {
+function CardModal({ card, onClose, onUpdate, onDelete, isDark, members, readOnly, billedRevenue, defaultCurrency }: CardModalProps) {
     const [title, setTitle] = useState(card.title)
     const [description, setDescription] = useState(card.description || '')
     const [startDate, setStartDate] = useState(card.startDate || '')
@@ -1263,26 +1397,67 @@ function CardModal({ card, onClose, onUpdate, onDelete, isDark }: CardModalProps
     const [checklist, setChecklist] = useState<ChecklistItem[]>(card.checklist)
     const [comments, setComments] = useState<Comment[]>(card.comments)
     const [attachments, setAttachments] = useState<Attachment[]>(card.attachments)
+    const [assigneeIds, setAssigneeIds] = useState<string[]>(card.assigneeIds ?? [])
+    const [price, setPrice] = useState<number | ''>(card.price ?? '')
+    const [currency, setCurrency] = useState(card.currency ?? defaultCurrency)
+    const [projectName, setProjectName] = useState(card.projectName ?? '')
     const [newChecklistItem, setNewChecklistItem] = useState('')
     const [newComment, setNewComment] = useState('')
     const [newLinkName, setNewLinkName] = useState('')
     const [newLinkUrl, setNewLinkUrl] = useState('')
     const [isSubmitting, setIsSubmitting] = useState(false)
+    const [conflict, setConflict] = useState<{ remote: KanbanCard; draft: KanbanCard; diffs: FieldDiff[] } | null>(null)
 
-    const handleSave = async () => {
-        if (isSubmitting) return
+    // Returns false if saving is on hold because the card changed elsewhere
+    const handleSave = async (): Promise<boolean> => {
+        if (isSubmitting || readOnly) return true
         setIsSubmitting(true)
+
+        let draft: KanbanCard = {
+            ...card,
+            title,
+            description,
+            startDate: startDate || undefined,
+            endDate: endDate || undefined,
+            checklist,
+            comments,
+            attachments,
+            assigneeIds,
+            price: price === '' ? undefined : price,
+            currency: price === '' ? undefined : currency,
+            projectName: projectName.trim() || undefined,
+        }
+
+        // Virtual plan cards have no card row to compare against
+        if (!card.id.startsWith('plan-')) {
+            const remote = await fetchCard(card.id)
+            if (remote && isStaleVersion('kanban_cards', card.id, card.version, remote.version)) {
+                const diffs = diffRecords(card, draft, remote, CARD_CONFLICT_FIELDS)
+                if (diffs.length > 0) {
+                    setConflict({ remote, draft, diffs })
+                    setIsSubmitting(false)
+                    return false
+                }
+                // Nothing overlaps with our edit, so take their changes along silently
+                draft = mergeRecords(card, draft, remote, CARD_CONFLICT_FIELDS, {})
+            }
+        }
+
         try {
-            await onUpdate({
-                ...card,
-                title,
-                description,
-                startDate: startDate || undefined,
-                endDate: endDate || undefined,
-                checklist,
-                comments,
-                attachments,
-            })
+            await onUpdate(draft)
+        } catch (error) {
+            setIsSubmitting(false)
+        }
+        return true
+    }
+
+    const resolveConflict = async (choices: Record<string, MergeChoice>) => {
+        if (!conflict) return
+        const merged = mergeRecords(card, conflict.draft, conflict.remote, CARD_CONFLICT_FIELDS, choices)
+        setConflict(null)
+        setIsSubmitting(true)
+        try {
+            await onUpdate(merged)
         } catch (error) {
             setIsSubmitting(false)
         }
@@ -1347,6 +1522,9 @@ function CardModal({ card, onClose, onUpdate, onDelete, isDark }: CardModalProps
                 checklist,
                 comments,
                 attachments,
+                price: price === '' ? undefined : price,
+                currency: price === '' ? undefined : currency,
+                projectName: projectName.trim() || undefined,
             })
         } catch (error) {
             setIsSubmitting(false)
@@ -1422,50 +1600,27 @@ function CardModal({ card, onClose, onUpdate, onDelete, isDark }: CardModalProps
     const fileInputRef = useRef<HTMLInputElement>(null)
     const [previewAttachment, setPreviewAttachment] = useState<Attachment | null>(null)
 
+    const [uploadProgress, setUploadProgress] = useState<number | null>(null) // 0-1 while a file uploads
+
     const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0]
+        e.target.value = ''
         if (!file) return
 
-        const fileName = `card_${Date.now()}_${file.name.replace(/[^a-zA-Z0-9.-]/g, '_')}`
-
-        try {
-            // Upload to Supabase Storage
-            const { data, error } = await supabase.storage
-                .from('attachments')
-                .upload(fileName, file, {
-                    cacheControl: '3600',
-                    upsert: false
-                })
-
-            if (error) {
-                console.error('Upload error:', error)
-                alert('Failed to upload file: ' + error.message)
-                return
-            }
-
-            // Get public URL
-            const { data: urlData } = supabase.storage
-                .from('attachments')
-                .getPublicUrl(fileName)
-
-            setAttachments([...attachments, {
-                id: generateUUID(),
-                type: 'file',
-                name: file.name,
-                url: urlData.publicUrl
-            }])
-        } catch (err) {
-            console.error('Upload error:', err)
-            alert('Failed to upload file')
+        const invalid = validateAttachmentFile(file)
+        if (invalid) {
+            alert(invalid)
+            return
         }
-    }
 
-    const handleAttachmentClick = (attachment: Attachment) => {
-        if (attachment.type === 'file') {
-            setPreviewAttachment(attachment)
-        } else {
-            window.open(attachment.url, '_blank')
+        setUploadProgress(0)
+        const attachment = await uploadAttachment(file, { prefix: 'card', onProgress: setUploadProgress })
+        setUploadProgress(null)
+        if (!attachment) {
+            alert('Failed to upload file')
+            return
         }
+        setAttachments(prev => [...prev, attachment])
     }
 
     const checklistProgress = checklist.length > 0
@@ -1477,9 +1632,8 @@ function CardModal({ card, onClose, onUpdate, onDelete, isDark }: CardModalProps
             {/* Backdrop */}
             <div
                 className="absolute inset-0 bg-black/50"
-                onClick={() => {
-                    handleSave()
-                    onClose()
+                onClick={async () => {
+                    if (await handleSave()) onClose()
                 }}
             />
 
@@ -1496,12 +1650,21 @@ function CardModal({ card, onClose, onUpdate, onDelete, isDark }: CardModalProps
                             type="text"
                             value={title}
                             onChange={(e) => setTitle(e.target.value)}
+                            readOnly={readOnly}
                             className={clsx(
                                 "text-xl font-bold bg-transparent outline-none flex-1 mr-4",
                                 isDark ? "text-[#F5F5F5]" : "text-[#2D3436]"
                             )}
                         />
-                        <button
+                        {readOnly ? (
+                            <span className={clsx(
+                                "px-3 py-2 rounded-lg text-sm flex items-center gap-1 mr-2",
+                                isDark ? "bg-[#2A2A2A] text-gray-400" : "bg-gray-100 text-gray-500"
+                            )}>
+                                <Eye className="w-4 h-4" />
+                                View only
+                            </span>
+                        ) : <button
                             onClick={() => handleSave()}
                             disabled={isSubmitting}
                             className={clsx(
@@ -1515,11 +1678,10 @@ function CardModal({ card, onClose, onUpdate, onDelete, isDark }: CardModalProps
                             )}
                         >
                             {isSubmitting ? 'Saving...' : 'Save'}
-                        </button>
+                        </button>}
                         <button
-                            onClick={() => {
-                                handleSave()
-                                onClose()
+                            onClick={async () => {
+                                if (await handleSave()) onClose()
                             }}
                             className={clsx(
                                 "p-2 rounded-lg transition-colors",
@@ -1530,6 +1692,7 @@ function CardModal({ card, onClose, onUpdate, onDelete, isDark }: CardModalProps
                         </button>
                     </div>
 
+                    <fieldset disabled={readOnly} className="contents">
                     {/* Linked Plan Indicator */}
                     {card.linkedPlanId && (
                         <div className={clsx(
@@ -1630,6 +1793,100 @@ function CardModal({ card, onClose, onUpdate, onDelete, isDark }: CardModalProps
                         </div>
                     )}
 
+                    {/* Assignees - workspace boards only */}
+                    {members.length > 0 && (
+                        <div className="mb-4">
+                            <label className={clsx(
+                                "text-sm font-medium flex items-center gap-1 mb-2",
+                                isDark ? "text-[#A0A0A0]" : "text-gray-600"
+                            )}>
+                                <Users className="w-4 h-4" /> Assignees
+                            </label>
+                            <div className="flex flex-wrap gap-2">
+                                {members.map(member => {
+                                    const isAssigned = assigneeIds.includes(member.userId)
+                                    return (
+                                        <button
+                                            key={member.userId}
+                                            type="button"
+                                            onClick={() => setAssigneeIds(isAssigned
+                                                ? assigneeIds.filter(id => id !== member.userId)
+                                                : [...assigneeIds, member.userId])}
+                                            className={clsx(
+                                                "flex items-center gap-2 pl-1 pr-3 py-1 rounded-full text-xs border transition-colors",
+                                                isAssigned
+                                                    ? "border-[#FF9F1C] bg-[#FF9F1C]/10 text-[#FF9F1C]"
+                                                    : isDark
+                                                        ? "border-[#3A3A3A] text-gray-400 hover:border-[#FF9F1C]/50"
+                                                        : "border-gray-200 text-gray-600 hover:border-[#FF9F1C]/50"
+                                            )}
+                                        >
+                                            <MemberAvatar member={member} />
+                                            {memberName(member)}
+                                        </button>
+                                    )
+                                })}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Billing */}
+                    <div className="mb-4">
+                        <label className={clsx(
+                            "text-sm font-medium flex items-center gap-1 mb-1",
+                            isDark ? "text-[#A0A0A0]" : "text-gray-600"
+                        )}>
+                            <DollarSign className="w-4 h-4" /> Billing
+                        </label>
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="flex items-center gap-1">
+                                <CurrencySelect
+                                    value={currency}
+                                    onChange={setCurrency}
+                                    className={clsx(
+                                        "p-2 rounded-lg border outline-none",
+                                        isDark ? "bg-[#2A2A2A] border-[#3A3A3A] text-[#F5F5F5]" : "bg-gray-50 border-gray-200 text-[#2D3436]"
+                                    )}
+                                />
+                                <input
+                                    type="number"
+                                    min={0}
+                                    value={price}
+                                    onChange={(e) => setPrice(e.target.value ? Number(e.target.value) : '')}
+                                    placeholder="Price"
+                                    className={clsx(
+                                        "w-full p-2 rounded-lg border outline-none",
+                                        isDark ? "bg-[#2A2A2A] border-[#3A3A3A] text-[#F5F5F5] placeholder-gray-500" : "bg-gray-50 border-gray-200 text-[#2D3436]"
+                                    )}
+                                />
+                            </div>
+                            <div className="relative">
+                                <Briefcase className={clsx("w-4 h-4 absolute left-2.5 top-1/2 -translate-y-1/2", isDark ? "text-gray-500" : "text-gray-400")} />
+                                <input
+                                    type="text"
+                                    value={projectName}
+                                    onChange={(e) => setProjectName(e.target.value)}
+                                    placeholder="Project"
+                                    className={clsx(
+                                        "w-full p-2 pl-8 rounded-lg border outline-none",
+                                        isDark ? "bg-[#2A2A2A] border-[#3A3A3A] text-[#F5F5F5] placeholder-gray-500" : "bg-gray-50 border-gray-200 text-[#2D3436]"
+                                    )}
+                                />
+                            </div>
+                        </div>
+                        {billedRevenue && (
+                            <Link
+                                href="/revenue"
+                                className={clsx(
+                                    "text-xs px-2 py-1 rounded-lg inline-flex items-center gap-1 mt-2",
+                                    isDark ? "bg-green-900/30 text-green-400" : "bg-green-100 text-green-700"
+                                )}
+                            >
+                                Billed {formatMoney(billedRevenue.price, billedRevenue.currency)} on {format(parseISO(billedRevenue.dateCompleted), 'MMM d, yyyy')}
+                            </Link>
+                        )}
+                    </div>
+
                     {/* Checklist Section */}
                     <div className="mb-4">
                         <div className="flex items-center gap-2 mb-2">
@@ -1768,6 +2025,7 @@ function CardModal({ card, onClose, onUpdate, onDelete, isDark }: CardModalProps
                                 />
                                 <button
                                     onClick={() => fileInputRef.current?.click()}
+                                    disabled={uploadProgress !== null}
                                     className={clsx(
                                         "p-1.5 rounded-lg flex items-center gap-1 text-xs font-medium transition-colors",
                                         isDark
@@ -1776,11 +2034,17 @@ function CardModal({ card, onClose, onUpdate, onDelete, isDark }: CardModalProps
                                     )}
                                 >
                                     <Upload className="w-3 h-3" />
-                                    Upload File
+                                    {uploadProgress !== null ? `Uploading ${Math.round(uploadProgress * 100)}%` : 'Upload File'}
                                 </button>
                             </div>
                         </div>
 
+                        {uploadProgress !== null && (
+                            <div className={clsx("h-1 rounded-full mb-2 overflow-hidden", isDark ? "bg-[#3A3A3A]" : "bg-gray-200")}>
+                                <div className="h-full bg-[#FF9F1C] transition-all" style={{ width: `${uploadProgress * 100}%` }} />
+                            </div>
+                        )}
+
                         <div className="space-y-2 mb-2">
                             {attachments.map(attachment => (
                                 <div
@@ -1791,10 +2055,12 @@ function CardModal({ card, onClose, onUpdate, onDelete, isDark }: CardModalProps
                                     )}
                                 >
                                     <button
-                                        onClick={() => handleAttachmentClick(attachment)}
+                                        onClick={() => setPreviewAttachment(attachment)}
                                         className="flex items-center gap-2 text-sm text-left truncate flex-1 hover:opacity-80 transition-opacity"
                                     >
-                                        {attachment.type === 'file' ? (
+                                        {attachment.thumbnailUrl ? (
+                                            <img src={attachment.thumbnailUrl} alt="" className="w-8 h-8 rounded object-cover flex-shrink-0" />
+                                        ) : attachment.type === 'file' ? (
                                             attachment.name.match(/\.(jpg|jpeg|png|gif|webp)$/i) ? (
                                                 <ImageIcon className="w-4 h-4 text-purple-500 flex-shrink-0" />
                                             ) : (
@@ -1927,10 +2193,11 @@ function CardModal({ card, onClose, onUpdate, onDelete, isDark }: CardModalProps
                             Delete Card
                         </button>
                     </div>
+                    </fieldset>
                 </div>
 
                 {/* Right Side - Comments */}
-                <div className={clsx(
+                <fieldset disabled={readOnly} className={clsx(
                     "w-80 border-l overflow-y-auto p-4",
                     isDark ? "bg-[#0F0F0F] border-[#2A2A2A]" : "bg-gray-50 border-gray-200"
                 )}>
@@ -2057,84 +2324,29 @@ function CardModal({ card, onClose, onUpdate, onDelete, isDark }: CardModalProps
                             ))
                         )}
                     </div>
-                </div>
+                </fieldset>
             </div >
 
             {/* Preview Modal */}
-            {
-                previewAttachment && (
-                    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
-                        <div className={clsx(
-                            "relative w-full max-w-3xl max-h-[85vh] flex flex-col rounded-2xl shadow-2xl overflow-hidden",
-                            isDark ? "bg-[#1A1A1A]" : "bg-white"
-                        )}>
-                            {/* Header */}
-                            <div className={clsx(
-                                "flex items-center justify-between p-4 border-b",
-                                isDark ? "border-[#2A2A2A]" : "border-gray-200"
-                            )}>
-                                <h3 className={clsx(
-                                    "text-lg font-bold truncate",
-                                    isDark ? "text-white" : "text-gray-900"
-                                )}>
-                                    {previewAttachment.name}
-                                </h3>
-                                <button
-                                    onClick={() => setPreviewAttachment(null)}
-                                    className={clsx(
-                                        "p-2 rounded-lg transition-colors",
-                                        isDark ? "hover:bg-[#2A2A2A] text-gray-400" : "hover:bg-gray-100 text-gray-500"
-                                    )}
-                                >
-                                    <X className="w-5 h-5" />
-                                </button>
-                            </div>
-
-                            {/* Content */}
-                            <div className="flex-1 overflow-auto p-4 flex items-center justify-center bg-black/5 min-h-[300px]">
-                                {previewAttachment.name.match(/\.(jpg|jpeg|png|gif|webp)$/i) ? (
-                                    <img
-                                        src={previewAttachment.url}
-                                        alt={previewAttachment.name}
-                                        className="max-w-full max-h-full object-contain rounded-lg shadow-lg"
-                                    />
-                                ) : (
-                                    <div className="flex flex-col items-center gap-4 text-gray-500">
-                                        <FileText className="w-16 h-16 opacity-50" />
-                                        <p>No preview available for this file type.</p>
-                                    </div>
-                                )}
-                            </div>
-
-                            {/* Footer */}
-                            <div className={clsx(
-                                "p-4 border-t flex justify-end gap-2",
-                                isDark ? "border-[#2A2A2A]" : "border-gray-200"
-                            )}>
-                                <button
-                                    onClick={() => setPreviewAttachment(null)}
-                                    className={clsx(
-                                        "px-4 py-2 rounded-lg text-sm font-medium transition-colors",
-                                        isDark ? "hover:bg-[#2A2A2A] text-gray-300" : "hover:bg-gray-100 text-gray-600"
-                                    )}
-                                >
-                                    Close
-                                </button>
-                                <a
-                                    href={previewAttachment.url}
-                                    download={previewAttachment.name}
-                                    className="px-4 py-2 bg-[#FF9F1C] text-white rounded-lg text-sm font-medium hover:bg-[#E08A15] flex items-center gap-2"
-                                >
-                                    <Download className="w-4 h-4" />
-                                    Download File
-                                </a>
-                            </div>
-                        </div>
-                    </div>
-                )
-            }
+            {previewAttachment && (
+                <AttachmentPreview
+                    attachment={previewAttachment}
+                    onClose={() => setPreviewAttachment(null)}
+                    isDark={isDark}
+                />
+            )}
 
             {/* Custom Confirmation Popup Removed */}
+
+            {conflict && (
+                <MergeDialog
+                    entityLabel="card"
+                    diffs={conflict.diffs}
+                    onResolve={resolveConflict}
+                    onCancel={() => setConflict(null)}
+                    isDark={isDark}
+                />
+            )}
         </div >
     )
 }
@@ -7,6 +7,11 @@ import clsx from 'clsx'
 import { Plan, PlanFormData, TimeSlot, Attachment } from '@/lib/types'
 import { format } from 'date-fns'
 import { formatTimeTo12h } from '@/lib/utils'
+import RecurrenceEditor from './RecurrenceEditor'
+import PlanChecklist from './PlanChecklist'
+import PlanComments from './PlanComments'
+import AttachmentPreview from '@/components/AttachmentPreview'
+import { uploadAttachment, validateAttachmentFile } from '@/lib/attachmentService'
 
 interface AddPlanModalProps {
     isOpen: boolean
@@ -29,12 +34,18 @@ export default function AddPlanModal({ isOpen, onClose, onSave, selectedDate, pl
         hasDueDate: false,
         dueDate: format(selectedDate, 'yyyy-MM-dd'),
         includeTime: false,
-        attachments: []
+        attachments: [],
+        checklist: [],
+        comments: [],
+        recurrence: null
     })
 
     const [formData, setFormData] = useState<PlanFormData>(getInitialFormData())
     const [linkInput, setLinkInput] = useState('')
     const [showLinkInput, setShowLinkInput] = useState(false)
+    const [uploadProgress, setUploadProgress] = useState<number | null>(null) // 0-1 while a file uploads
+    const [uploadError, setUploadError] = useState<string | null>(null)
+    const [previewAttachment, setPreviewAttachment] = useState<Attachment | null>(null)
 
     // Reset form when modal opens
     useEffect(() => {
@@ -49,7 +60,10 @@ export default function AddPlanModal({ isOpen, onClose, onSave, selectedDate, pl
                     hasDueDate: planToEdit.hasDueDate || false,
                     dueDate: planToEdit.dueDate || planToEdit.date,
                     includeTime: !!(planToEdit.timeSlots && planToEdit.timeSlots.length > 0),
-                    attachments: planToEdit.attachments || []
+                    attachments: planToEdit.attachments || [],
+                    checklist: planToEdit.checklist || [],
+                    comments: planToEdit.comments || [],
+                    recurrence: planToEdit.recurrence ?? null
                 })
             } else {
                 // Add Mode
@@ -62,6 +76,7 @@ export default function AddPlanModal({ isOpen, onClose, onSave, selectedDate, pl
             }
             setLinkInput('')
             setShowLinkInput(false)
+            setUploadError(null)
         }
     }, [isOpen, selectedDate, planToEdit])
 
@@ -110,29 +125,32 @@ export default function AddPlanModal({ isOpen, onClose, onSave, selectedDate, pl
         }
     }
 
-    const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const files = e.target.files
-        if (files && files.length > 0) {
-            const file = files[0]
-            const reader = new FileReader()
-            reader.onload = (event) => {
-                const newAttachment: Attachment = {
-                    id: crypto.randomUUID(),
-                    type: 'file',
-                    name: file.name,
-                    url: event.target?.result as string
-                }
-                setFormData({
-                    ...formData,
-                    attachments: [...formData.attachments, newAttachment]
-                })
-            }
-            reader.readAsDataURL(file)
-        }
+    const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0]
         // Reset input
         if (fileInputRef.current) {
             fileInputRef.current.value = ''
         }
+        if (!file) return
+
+        const invalid = validateAttachmentFile(file)
+        if (invalid) {
+            setUploadError(invalid)
+            return
+        }
+
+        setUploadError(null)
+        setUploadProgress(0)
+        const attachment = await uploadAttachment(file, { prefix: 'plan', onProgress: setUploadProgress })
+        setUploadProgress(null)
+        if (!attachment) {
+            setUploadError(`Couldn’t upload ${file.name}. Check your connection and try again.`)
+            return
+        }
+        setFormData(prev => ({
+            ...prev,
+            attachments: [...prev.attachments, attachment]
+        }))
     }
 
     const handleRemoveAttachment = (id: string) => {
@@ -252,6 +270,14 @@ export default function AddPlanModal({ isOpen, onClose, onSave, selectedDate, pl
                         />
                     </div>
 
+                    {/* Repeat */}
+                    <RecurrenceEditor
+                        value={formData.recurrence}
+                        onChange={(recurrence) => setFormData({ ...formData, recurrence })}
+                        startDate={formData.date}
+                        isDark={isDark}
+                    />
+
                     {/* Has Due Date Toggle */}
                     <div className={clsx(
                         "flex items-center gap-3 p-3 rounded-xl",
@@ -431,6 +457,7 @@ export default function AddPlanModal({ isOpen, onClose, onSave, selectedDate, pl
                             <button
                                 type="button"
                                 onClick={() => fileInputRef.current?.click()}
+                                disabled={uploadProgress !== null}
                                 className={clsx(
                                     "flex items-center gap-2 px-3 py-2 rounded-lg border text-sm transition-colors",
                                     isDark
@@ -439,7 +466,7 @@ export default function AddPlanModal({ isOpen, onClose, onSave, selectedDate, pl
                                 )}
                             >
                                 <Paperclip className="w-4 h-4" />
-                                Attach File
+                                {uploadProgress !== null ? `Uploading ${Math.round(uploadProgress * 100)}%` : 'Attach File'}
                             </button>
                             <input
                                 ref={fileInputRef}
@@ -449,6 +476,15 @@ export default function AddPlanModal({ isOpen, onClose, onSave, selectedDate, pl
                             />
                         </div>
 
+                        {uploadProgress !== null && (
+                            <div className={clsx("h-1 rounded-full mb-3 overflow-hidden", isDark ? "bg-[#3A3A3A]" : "bg-[#EFEEEE]")}>
+                                <div className="h-full bg-[#FF9F1C] transition-all" style={{ width: `${uploadProgress * 100}%` }} />
+                            </div>
+                        )}
+                        {uploadError && (
+                            <p className="text-sm text-red-500 mb-3">{uploadError}</p>
+                        )}
+
                         {/* Link Input */}
                         {showLinkInput && (
                             <div className="flex gap-2 mb-3">
@@ -491,17 +527,23 @@ export default function AddPlanModal({ isOpen, onClose, onSave, selectedDate, pl
                                             isDark ? "bg-[#2A2A2A] border-[#3A3A3A]" : "bg-[#FFFBF5] border-[#EFEEEE]"
                                         )}
                                     >
-                                        {attachment.type === 'link' ? (
+                                        {attachment.thumbnailUrl ? (
+                                            <img src={attachment.thumbnailUrl} alt="" className="w-8 h-8 rounded object-cover flex-shrink-0" />
+                                        ) : attachment.type === 'link' ? (
                                             <Link className={clsx("w-4 h-4 flex-shrink-0", isDark ? "text-blue-400" : "text-blue-500")} />
                                         ) : (
                                             <File className={clsx("w-4 h-4 flex-shrink-0", isDark ? "text-green-400" : "text-green-500")} />
                                         )}
-                                        <span className={clsx(
-                                            "flex-1 text-sm truncate",
-                                            isDark ? "text-[#F5F5F5]" : "text-[#2D3436]"
-                                        )}>
+                                        <button
+                                            type="button"
+                                            onClick={() => setPreviewAttachment(attachment)}
+                                            className={clsx(
+                                                "flex-1 text-sm text-left truncate hover:underline",
+                                                isDark ? "text-[#F5F5F5]" : "text-[#2D3436]"
+                                            )}
+                                        >
                                             {attachment.name}
-                                        </span>
+                                        </button>
                                         <button
                                             type="button"
                                             onClick={() => handleRemoveAttachment(attachment.id)}
@@ -515,6 +557,18 @@ export default function AddPlanModal({ isOpen, onClose, onSave, selectedDate, pl
                         )}
                     </div>
 
+                    <PlanChecklist
+                        checklist={formData.checklist}
+                        onChange={(checklist) => setFormData(prev => ({ ...prev, checklist }))}
+                        isDark={isDark}
+                    />
+
+                    <PlanComments
+                        comments={formData.comments}
+                        onChange={(comments) => setFormData(prev => ({ ...prev, comments }))}
+                        isDark={isDark}
+                    />
+
                     {/* Submit Button */}
                     <button
                         type="submit"
@@ -524,6 +578,14 @@ export default function AddPlanModal({ isOpen, onClose, onSave, selectedDate, pl
                     </button>
                 </form>
             </div>
+
+            {previewAttachment && (
+                <AttachmentPreview
+                    attachment={previewAttachment}
+                    onClose={() => setPreviewAttachment(null)}
+                    isDark={isDark}
+                />
+            )}
         </div>
     )
 }
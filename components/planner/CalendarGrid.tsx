@@ -19,10 +19,13 @@ import {
     subDays,
     parseISO
 } from 'date-fns'
-import { ChevronLeft, ChevronRight, Clock, CalendarDays, X } from 'lucide-react'
+import { ChevronLeft, ChevronRight, Clock, CalendarDays, X, Repeat, Receipt } from 'lucide-react'
+import Link from 'next/link'
 import clsx from 'clsx'
-import { Plan } from '@/lib/types'
+import { CalendarDeadline, Plan } from '@/lib/types'
 import { isOverdue } from '@/lib/utils'
+import { expandPlans, occurrenceKey } from '@/lib/recurrence'
+import PendingSyncBadge from '@/components/PendingSyncBadge'
 
 type CalendarView = 'day' | 'week' | 'month'
 
@@ -31,9 +34,10 @@ interface CalendarGridProps {
     onDateClick: (date: Date) => void
     onPlanClick?: (plan: Plan) => void
     view?: CalendarView
+    deadlines?: CalendarDeadline[] // Shown on their day above the plans, linking to where they live
 }
 
-export default function CalendarGrid({ plans, onDateClick, onPlanClick, view = 'month' }: CalendarGridProps) {
+export default function CalendarGrid({ plans, onDateClick, onPlanClick, view = 'month', deadlines = [] }: CalendarGridProps) {
     const { theme } = useTheme()
     const isDark = theme === 'dark'
     const [currentDate, setCurrentDate] = useState(new Date())
@@ -106,10 +110,13 @@ export default function CalendarGrid({ plans, onDateClick, onPlanClick, view = '
         }
     }
 
+    // Recurring plans are expanded into occurrences for the visible range only
+    const visiblePlans = expandPlans(plans, format(days[0], 'yyyy-MM-dd'), format(days[days.length - 1], 'yyyy-MM-dd'))
+
     // Get plans for a specific date
     const getPlansForDate = (date: Date): Plan[] => {
         const dateStr = format(date, 'yyyy-MM-dd')
-        return plans.filter(plan => {
+        return visiblePlans.filter(plan => {
             if (plan.date === dateStr) return true
             if (plan.hasDueDate && plan.dueDate) {
                 const startDate = parseISO(plan.date)
@@ -120,6 +127,30 @@ export default function CalendarGrid({ plans, onDateClick, onPlanClick, view = '
         })
     }
 
+    const getDeadlinesForDate = (date: Date): CalendarDeadline[] => {
+        const dateStr = format(date, 'yyyy-MM-dd')
+        return deadlines.filter(deadline => deadline.date === dateStr)
+    }
+
+    const renderDeadline = (deadline: CalendarDeadline, size: 'xs' | 'sm') => (
+        <Link
+            key={deadline.id}
+            href={deadline.href}
+            onClick={(e) => e.stopPropagation()}
+            title={deadline.title}
+            className={clsx(
+                "flex items-center gap-1 rounded-md border border-dashed transition-colors",
+                size === 'xs' ? "text-xs px-2 py-1" : "text-sm px-3 py-2",
+                deadline.overdue
+                    ? (isDark ? "border-red-800 text-red-400 hover:bg-red-900/30" : "border-red-400 text-red-700 hover:bg-red-50")
+                    : (isDark ? "border-[#3A3A3A] text-[#A0A0A0] hover:bg-[#2A2A2A]" : "border-gray-300 text-[#636E72] hover:bg-gray-50")
+            )}
+        >
+            <Receipt className="w-3 h-3 flex-shrink-0" />
+            <span className="truncate">{deadline.title}</span>
+        </Link>
+    )
+
     // Time slots for day/week view
     const timeSlots = Array.from({ length: 12 }, (_, i) => i + 7) // 7 AM to 6 PM
 
@@ -202,6 +233,11 @@ export default function CalendarGrid({ plans, onDateClick, onPlanClick, view = '
                             {format(currentDate, 'd')}
                         </p>
                     </div>
+                    {getDeadlinesForDate(currentDate).length > 0 && (
+                        <div className={clsx("p-2 space-y-1 border-b", isDark ? "border-[#2A2A2A]" : "border-[#EFEEEE]")}>
+                            {getDeadlinesForDate(currentDate).map(deadline => renderDeadline(deadline, 'sm'))}
+                        </div>
+                    )}
                     {/* Time slots */}
                     <div className="flex-1 max-h-[500px] overflow-y-auto">
                         {timeSlots.map(hour => {
@@ -234,7 +270,7 @@ export default function CalendarGrid({ plans, onDateClick, onPlanClick, view = '
                                     <div className="flex-1 p-2 space-y-1">
                                         {plansAtHour.map(plan => (
                                             <div
-                                                key={plan.id}
+                                                key={occurrenceKey(plan)}
                                                 onClick={(e) => {
                                                     e.stopPropagation()
                                                     onPlanClick?.(plan)
@@ -309,9 +345,10 @@ export default function CalendarGrid({ plans, onDateClick, onPlanClick, view = '
                                     )}
                                 >
                                     <div className="space-y-1">
+                                        {getDeadlinesForDate(day).map(deadline => renderDeadline(deadline, 'xs'))}
                                         {dayPlans.map(plan => (
                                             <div
-                                                key={plan.id}
+                                                key={occurrenceKey(plan)}
                                                 onClick={(e) => {
                                                     e.stopPropagation()
                                                     onPlanClick?.(plan)
@@ -403,9 +440,10 @@ export default function CalendarGrid({ plans, onDateClick, onPlanClick, view = '
 
                                     {/* Plans for this day */}
                                     <div className="flex-1 space-y-1 overflow-y-auto">
+                                        {getDeadlinesForDate(day).map(deadline => renderDeadline(deadline, 'xs'))}
                                         {dayPlans.slice(0, 3).map((plan) => (
                                             <div
-                                                key={plan.id}
+                                                key={occurrenceKey(plan)}
                                                 onClick={(e) => {
                                                     e.stopPropagation()
                                                     onPlanClick?.(plan)
@@ -428,6 +466,8 @@ export default function CalendarGrid({ plans, onDateClick, onPlanClick, view = '
                                                         <Clock className="w-3 h-3 flex-shrink-0" />
                                                     )}
                                                     <span className="truncate">{plan.title}</span>
+                                                    {plan.recurrence && <Repeat className="w-3 h-3 flex-shrink-0 opacity-60" />}
+                                                    <PendingSyncBadge type="plan" id={plan.id} />
                                                 </div>
                                             </div>
                                         ))}
@@ -497,7 +537,7 @@ export default function CalendarGrid({ plans, onDateClick, onPlanClick, view = '
                         <div className="flex-1 overflow-y-auto p-4 space-y-2">
                             {getPlansForDate(expandedDate).map(plan => (
                                 <div
-                                    key={plan.id}
+                                    key={occurrenceKey(plan)}
                                     onClick={() => {
                                         onPlanClick?.(plan)
                                         setExpandedDate(null)
@@ -0,0 +1,132 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import clsx from 'clsx'
+import { format, parseISO } from 'date-fns'
+import { CalendarArrowDown, Repeat, AlertTriangle } from 'lucide-react'
+import { Plan } from '@/lib/types'
+import { IcsImportCandidate } from '@/lib/icsImport'
+import { describeRecurrence } from '@/lib/recurrence'
+import { formatTimeTo12h } from '@/lib/utils'
+
+interface IcsImportDialogProps {
+    candidates: IcsImportCandidate[] | null
+    isDark: boolean
+    onImport: (plans: Plan[]) => void
+    onCancel: () => void
+}
+
+function describeWhen(plan: Plan): string {
+    const date = format(parseISO(plan.date), 'EEE, MMM d, yyyy')
+    if (plan.hasDueDate && plan.dueDate) return `${date} → ${format(parseISO(plan.dueDate), 'MMM d, yyyy')}`
+    const time = plan.timeSlots?.[0]?.time
+    return time ? `${date} · ${formatTimeTo12h(time)}` : date
+}
+
+// Preview of the events in dropped .ics files; likely duplicates start unchecked
+export default function IcsImportDialog({ candidates, isDark, onImport, onCancel }: IcsImportDialogProps) {
+    const [selected, setSelected] = useState<Set<string>>(new Set())
+
+    useEffect(() => {
+        setSelected(new Set((candidates || []).filter(c => !c.duplicateOf).map(c => c.key)))
+    }, [candidates])
+
+    if (!candidates) return null
+
+    const toggle = (key: string) => {
+        setSelected(prev => {
+            const next = new Set(prev)
+            if (next.has(key)) next.delete(key)
+            else next.add(key)
+            return next
+        })
+    }
+
+    const mutedText = isDark ? "text-[#A0A0A0]" : "text-[#636E72]"
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center">
+            <div
+                className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+                onClick={onCancel}
+            />
+            <div className={clsx(
+                "relative w-full max-w-lg mx-4 rounded-2xl shadow-xl p-6 transition-colors max-h-[90vh] flex flex-col",
+                isDark ? "bg-[#1A1A1A]" : "bg-white"
+            )}>
+                <div className="flex items-center gap-3 mb-1">
+                    <CalendarArrowDown className={clsx("w-5 h-5", isDark ? "text-[#FF9F1C]" : "text-[#CC7A00]")} />
+                    <h3 className={clsx(
+                        "text-lg font-bold",
+                        isDark ? "text-[#F5F5F5]" : "text-[#2D3436]"
+                    )}>
+                        Import events
+                    </h3>
+                </div>
+                <p className={clsx("text-sm mb-4", mutedText)}>
+                    {candidates.length === 0
+                        ? 'No events found in the file.'
+                        : `${candidates.length} event${candidates.length === 1 ? '' : 's'} found. Choose which to add to the planner.`}
+                </p>
+
+                <div className="space-y-2 mb-4 overflow-y-auto">
+                    {candidates.map(({ key, plan, duplicateOf }) => (
+                        <label
+                            key={key}
+                            className={clsx(
+                                "flex items-start gap-3 px-4 py-3 rounded-xl border cursor-pointer transition-colors",
+                                isDark
+                                    ? "bg-[#2A2A2A] border-[#3A3A3A] hover:border-[#FF9F1C]"
+                                    : "bg-[#FFFBF5] border-[#EFEEEE] hover:border-[#FF9F1C]"
+                            )}
+                        >
+                            <input
+                                type="checkbox"
+                                checked={selected.has(key)}
+                                onChange={() => toggle(key)}
+                                className="mt-1 accent-[#FF9F1C]"
+                            />
+                            <div className="flex-1 min-w-0">
+                                <p className={clsx("font-medium truncate", isDark ? "text-[#F5F5F5]" : "text-[#2D3436]")}>
+                                    {plan.title}
+                                </p>
+                                <p className={clsx("text-sm", mutedText)}>{describeWhen(plan)}</p>
+                                {plan.recurrence && (
+                                    <p className={clsx("flex items-center gap-1.5 text-sm", mutedText)}>
+                                        <Repeat className="w-3.5 h-3.5" />
+                                        {describeRecurrence(plan.recurrence, plan.date)}
+                                    </p>
+                                )}
+                                {duplicateOf && (
+                                    <p className="flex items-center gap-1.5 text-sm text-amber-500 mt-1">
+                                        <AlertTriangle className="w-3.5 h-3.5" />
+                                        Already in planner
+                                    </p>
+                                )}
+                            </div>
+                        </label>
+                    ))}
+                </div>
+
+                <div className="flex gap-3">
+                    <button
+                        onClick={onCancel}
+                        className={clsx(
+                            "flex-1 py-2 rounded-xl font-medium transition-colors",
+                            isDark ? "bg-[#2A2A2A] text-gray-300 hover:bg-[#3A3A3A]" : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                        )}
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={() => onImport(candidates.filter(c => selected.has(c.key)).map(c => c.plan))}
+                        disabled={selected.size === 0}
+                        className="flex-1 py-2 rounded-xl font-medium text-white bg-gradient-to-r from-[#FF9F1C] to-[#F68E09] hover:opacity-90 transition-opacity disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                        Import {selected.size > 0 ? selected.size : ''}
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
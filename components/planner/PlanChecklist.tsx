@@ -0,0 +1,112 @@
+'use client'
+
+import { useState } from 'react'
+import clsx from 'clsx'
+import { CheckSquare, X } from 'lucide-react'
+import { ChecklistItem } from '@/lib/types'
+import { generateUUID } from '@/lib/uuid'
+
+interface PlanChecklistProps {
+    checklist: ChecklistItem[]
+    onChange: (checklist: ChecklistItem[]) => void
+    isDark: boolean
+}
+
+// Checklist of a plan, used in the plan form and the plan detail panel. Buttons are
+// type="button" and Enter is caught so it works inside the form without submitting it.
+export default function PlanChecklist({ checklist, onChange, isDark }: PlanChecklistProps) {
+    const [newItem, setNewItem] = useState('')
+
+    const addItem = () => {
+        if (!newItem.trim()) return
+        onChange([...checklist, { id: generateUUID(), text: newItem.trim(), completed: false }])
+        setNewItem('')
+    }
+
+    const toggleItem = (id: string) => {
+        onChange(checklist.map(item => item.id === id ? { ...item, completed: !item.completed } : item))
+    }
+
+    const done = checklist.filter(item => item.completed).length
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center gap-2">
+                    <CheckSquare className="w-4 h-4 text-green-500" />
+                    <span className={clsx(
+                        "text-sm font-medium",
+                        isDark ? "text-[#F5F5F5]" : "text-[#2D3436]"
+                    )}>Checklist</span>
+                </div>
+                {checklist.length > 0 && (
+                    <span className={clsx("text-xs", isDark ? "text-[#A0A0A0]" : "text-[#636E72]")}>
+                        {done}/{checklist.length}
+                    </span>
+                )}
+            </div>
+
+            {checklist.length > 0 && (
+                <div className="space-y-2 mb-2">
+                    {checklist.map(item => (
+                        <div key={item.id} className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                checked={item.completed}
+                                onChange={() => toggleItem(item.id)}
+                                className="w-4 h-4 rounded accent-green-500"
+                            />
+                            <span className={clsx(
+                                "flex-1 text-sm",
+                                item.completed && "line-through",
+                                isDark
+                                    ? item.completed ? "text-[#666]" : "text-[#F5F5F5]"
+                                    : item.completed ? "text-gray-400" : "text-[#2D3436]"
+                            )}>
+                                {item.text}
+                            </span>
+                            <button
+                                type="button"
+                                onClick={() => onChange(checklist.filter(i => i.id !== item.id))}
+                                className={clsx(
+                                    "p-1 rounded opacity-50 hover:opacity-100",
+                                    isDark ? "hover:bg-[#3A3A3A]" : "hover:bg-gray-100"
+                                )}
+                            >
+                                <X className="w-3 h-3" />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <div className="flex gap-2">
+                <input
+                    type="text"
+                    value={newItem}
+                    onChange={(e) => setNewItem(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                            e.preventDefault()
+                            addItem()
+                        }
+                    }}
+                    placeholder="Add checklist item..."
+                    className={clsx(
+                        "flex-1 px-3 py-2 rounded-lg border text-sm outline-none",
+                        isDark
+                            ? "bg-[#2A2A2A] border-[#3A3A3A] text-[#F5F5F5] placeholder-gray-500"
+                            : "bg-white border-[#EFEEEE] text-[#2D3436] placeholder-gray-400"
+                    )}
+                />
+                <button
+                    type="button"
+                    onClick={addItem}
+                    className="px-3 py-2 rounded-lg bg-[#FF9F1C] text-white text-sm hover:bg-[#F68E09] transition-colors"
+                >
+                    Add
+                </button>
+            </div>
+        </div>
+    )
+}
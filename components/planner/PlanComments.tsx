@@ -0,0 +1,124 @@
+'use client'
+
+import { useState } from 'react'
+import clsx from 'clsx'
+import { format } from 'date-fns'
+import { Heart, MessageSquare, Trash2 } from 'lucide-react'
+import { Comment } from '@/lib/types'
+import { generateUUID } from '@/lib/uuid'
+
+interface PlanCommentsProps {
+    comments: Comment[]
+    onChange: (comments: Comment[]) => void
+    isDark: boolean
+}
+
+// Comments on a plan, used next to PlanChecklist in the plan form and detail panel
+export default function PlanComments({ comments, onChange, isDark }: PlanCommentsProps) {
+    const [newComment, setNewComment] = useState('')
+
+    const addComment = () => {
+        if (!newComment.trim()) return
+        onChange([...comments, {
+            id: generateUUID(),
+            text: newComment.trim(),
+            createdAt: new Date().toISOString(),
+            isMarkedDone: false,
+        }])
+        setNewComment('')
+    }
+
+    const toggleDone = (id: string) => {
+        onChange(comments.map(c => c.id === id ? { ...c, isMarkedDone: !c.isMarkedDone } : c))
+    }
+
+    return (
+        <div>
+            <div className="flex items-center gap-2 mb-2">
+                <MessageSquare className="w-4 h-4 text-[#FF9F1C]" />
+                <span className={clsx(
+                    "text-sm font-medium",
+                    isDark ? "text-[#F5F5F5]" : "text-[#2D3436]"
+                )}>Comments</span>
+            </div>
+
+            {comments.length > 0 && (
+                <div className="space-y-2 mb-2">
+                    {comments.map(comment => (
+                        <div
+                            key={comment.id}
+                            className={clsx(
+                                "p-3 rounded-lg",
+                                comment.isMarkedDone
+                                    ? isDark ? "bg-green-900/20 border border-green-800" : "bg-green-50 border border-green-200"
+                                    : isDark ? "bg-[#2A2A2A]" : "bg-[#FFFBF5]"
+                            )}
+                        >
+                            <p className={clsx("text-xs mb-1", isDark ? "text-[#A0A0A0]" : "text-gray-500")}>
+                                {format(new Date(comment.createdAt), 'MMM d, h:mm a')}
+                            </p>
+                            <p className={clsx(
+                                "text-sm whitespace-pre-wrap",
+                                isDark ? "text-[#E0E0E0]" : "text-[#2D3436]"
+                            )}>
+                                {comment.text}
+                            </p>
+                            <div className="flex items-center justify-end gap-2 mt-2">
+                                <button
+                                    type="button"
+                                    onClick={() => onChange(comments.filter(c => c.id !== comment.id))}
+                                    className="p-1 rounded transition-colors text-red-500 hover:bg-red-500/10"
+                                    title="Delete comment"
+                                >
+                                    <Trash2 className="w-3 h-3" />
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => toggleDone(comment.id)}
+                                    className={clsx(
+                                        "p-1 rounded transition-colors flex items-center gap-1",
+                                        comment.isMarkedDone
+                                            ? "text-green-500"
+                                            : isDark ? "text-[#666] hover:text-green-400" : "text-gray-400 hover:text-green-500"
+                                    )}
+                                    title={comment.isMarkedDone ? "Mark as not done" : "Mark as done"}
+                                >
+                                    <Heart className={clsx("w-4 h-4", comment.isMarkedDone && "fill-current")} />
+                                    <span className="text-xs">{comment.isMarkedDone ? 'Done' : 'Mark done'}</span>
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <div className="flex gap-2">
+                <input
+                    type="text"
+                    value={newComment}
+                    onChange={(e) => setNewComment(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                            e.preventDefault()
+                            addComment()
+                        }
+                    }}
+                    placeholder="Add a comment..."
+                    className={clsx(
+                        "flex-1 px-3 py-2 rounded-lg border text-sm outline-none",
+                        isDark
+                            ? "bg-[#2A2A2A] border-[#3A3A3A] text-[#F5F5F5] placeholder-gray-500"
+                            : "bg-white border-[#EFEEEE] text-[#2D3436] placeholder-gray-400"
+                    )}
+                />
+                <button
+                    type="button"
+                    onClick={addComment}
+                    className="px-3 py-2 rounded-lg bg-[#FF9F1C] text-white text-sm hover:bg-[#F68E09] transition-colors"
+                >
+                    Post
+                </button>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,203 @@
+'use client'
+
+import clsx from 'clsx'
+import { Repeat } from 'lucide-react'
+import { RecurrenceFrequency, RecurrenceRule, Weekday } from '@/lib/types'
+import { ORDINALS, WEEKDAYS, WEEKDAY_LABELS, describeRecurrence, weekdayOf, weekdayPositionOf } from '@/lib/recurrence'
+
+interface RecurrenceEditorProps {
+    value: RecurrenceRule | null
+    onChange: (rule: RecurrenceRule | null) => void
+    startDate: string // YYYY-MM-DD, used for defaults and the summary
+    isDark: boolean
+}
+
+const FREQUENCY_OPTIONS: { value: RecurrenceFrequency | 'none'; label: string }[] = [
+    { value: 'none', label: 'Does not repeat' },
+    { value: 'daily', label: 'Daily' },
+    { value: 'weekly', label: 'Weekly' },
+    { value: 'monthly', label: 'Monthly' },
+    { value: 'yearly', label: 'Yearly' },
+]
+
+const UNIT_LABELS: Record<RecurrenceFrequency, string> = {
+    daily: 'day(s)',
+    weekly: 'week(s)',
+    monthly: 'month(s)',
+    yearly: 'year(s)',
+}
+
+const WEEKDAY_SHORT: Record<Weekday, string> = {
+    SU: 'S', MO: 'M', TU: 'T', WE: 'W', TH: 'T', FR: 'F', SA: 'S'
+}
+
+export default function RecurrenceEditor({ value, onChange, startDate, isDark }: RecurrenceEditorProps) {
+    const inputClass = clsx(
+        "px-3 py-2 rounded-lg border text-sm focus:outline-none focus:ring-2 focus:ring-[#FF9F1C]",
+        isDark
+            ? "bg-[#1A1A1A] border-[#3A3A3A] text-[#F5F5F5]"
+            : "bg-white border-[#EFEEEE] text-[#2D3436]"
+    )
+    const labelClass = clsx("text-sm", isDark ? "text-[#A0A0A0]" : "text-[#636E72]")
+
+    const handleFrequencyChange = (frequency: RecurrenceFrequency | 'none') => {
+        if (frequency === 'none') {
+            onChange(null)
+            return
+        }
+        onChange({
+            frequency,
+            interval: value?.interval || 1,
+            byWeekday: frequency === 'weekly' ? [weekdayOf(startDate)] : undefined,
+            monthlyMode: frequency === 'monthly' ? 'day-of-month' : undefined,
+            count: value?.count,
+            until: value?.until,
+        })
+    }
+
+    const toggleWeekday = (day: Weekday) => {
+        if (!value) return
+        const current = value.byWeekday || []
+        const next = current.includes(day) ? current.filter(d => d !== day) : [...current, day]
+        // A weekly rule needs at least one day
+        if (next.length === 0) return
+        onChange({ ...value, byWeekday: next })
+    }
+
+    const setMonthlyMode = (mode: 'day-of-month' | 'nth-weekday') => {
+        if (!value) return
+        onChange({
+            ...value,
+            monthlyMode: mode,
+            byWeekday: mode === 'nth-weekday' ? [weekdayOf(startDate)] : undefined,
+            bySetPos: mode === 'nth-weekday' ? weekdayPositionOf(startDate) : undefined,
+        })
+    }
+
+    const endMode = value?.count ? 'count' : value?.until ? 'until' : 'never'
+
+    const setEndMode = (mode: 'never' | 'count' | 'until') => {
+        if (!value) return
+        onChange({
+            ...value,
+            count: mode === 'count' ? (value.count || 10) : undefined,
+            until: mode === 'until' ? (value.until || startDate) : undefined,
+        })
+    }
+
+    return (
+        <div className={clsx(
+            "p-3 rounded-xl space-y-3",
+            isDark ? "bg-[#2A2A2A]" : "bg-[#FFF2E0]"
+        )}>
+            <div className="flex items-center gap-3">
+                <Repeat className={clsx("w-5 h-5 flex-shrink-0", isDark ? "text-[#FF9F1C]" : "text-[#CC7A00]")} />
+                <select
+                    value={value?.frequency || 'none'}
+                    onChange={(e) => handleFrequencyChange(e.target.value as RecurrenceFrequency | 'none')}
+                    className={clsx(inputClass, "flex-1")}
+                >
+                    {FREQUENCY_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+            </div>
+
+            {value && (
+                <>
+                    {/* Interval */}
+                    <div className="flex items-center gap-2">
+                        <span className={labelClass}>Every</span>
+                        <input
+                            type="number"
+                            min={1}
+                            value={value.interval}
+                            onChange={(e) => onChange({ ...value, interval: Math.max(1, Number(e.target.value) || 1) })}
+                            className={clsx(inputClass, "w-20")}
+                        />
+                        <span className={labelClass}>{UNIT_LABELS[value.frequency]}</span>
+                    </div>
+
+                    {/* Weekly: days */}
+                    {value.frequency === 'weekly' && (
+                        <div className="flex gap-1">
+                            {WEEKDAYS.map(day => {
+                                const selected = value.byWeekday?.includes(day)
+                                return (
+                                    <button
+                                        key={day}
+                                        type="button"
+                                        onClick={() => toggleWeekday(day)}
+                                        className={clsx(
+                                            "w-8 h-8 rounded-full text-xs font-semibold transition-colors",
+                                            selected
+                                                ? "bg-[#FF9F1C] text-white"
+                                                : isDark
+                                                    ? "bg-[#1A1A1A] text-[#A0A0A0] hover:text-[#F5F5F5]"
+                                                    : "bg-white text-[#636E72] hover:text-[#2D3436]"
+                                        )}
+                                    >
+                                        {WEEKDAY_SHORT[day]}
+                                    </button>
+                                )
+                            })}
+                        </div>
+                    )}
+
+                    {/* Monthly: day of month or nth weekday */}
+                    {value.frequency === 'monthly' && (
+                        <select
+                            value={value.monthlyMode || 'day-of-month'}
+                            onChange={(e) => setMonthlyMode(e.target.value as 'day-of-month' | 'nth-weekday')}
+                            className={clsx(inputClass, "w-full")}
+                        >
+                            <option value="day-of-month">On day {Number(startDate.slice(8, 10))}</option>
+                            <option value="nth-weekday">
+                                On the {ORDINALS[weekdayPositionOf(startDate)]} {WEEKDAY_LABELS[weekdayOf(startDate)]}
+                            </option>
+                        </select>
+                    )}
+
+                    {/* End condition */}
+                    <div className="flex items-center gap-2 flex-wrap">
+                        <span className={labelClass}>Ends</span>
+                        <select
+                            value={endMode}
+                            onChange={(e) => setEndMode(e.target.value as 'never' | 'count' | 'until')}
+                            className={inputClass}
+                        >
+                            <option value="never">Never</option>
+                            <option value="count">After</option>
+                            <option value="until">On date</option>
+                        </select>
+                        {endMode === 'count' && (
+                            <>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    value={value.count}
+                                    onChange={(e) => onChange({ ...value, count: Math.max(1, Number(e.target.value) || 1) })}
+                                    className={clsx(inputClass, "w-20")}
+                                />
+                                <span className={labelClass}>occurrences</span>
+                            </>
+                        )}
+                        {endMode === 'until' && (
+                            <input
+                                type="date"
+                                value={value.until}
+                                min={startDate}
+                                onChange={(e) => onChange({ ...value, until: e.target.value })}
+                                className={inputClass}
+                            />
+                        )}
+                    </div>
+
+                    <p className="text-xs text-gray-500">
+                        {describeRecurrence(value, startDate)}
+                    </p>
+                </>
+            )}
+        </div>
+    )
+}
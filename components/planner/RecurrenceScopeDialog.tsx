@@ -0,0 +1,73 @@
+'use client'
+
+import clsx from 'clsx'
+import { Repeat } from 'lucide-react'
+import { RecurrenceEditScope } from '@/lib/types'
+
+interface RecurrenceScopeDialogProps {
+    isOpen: boolean
+    title: string
+    isDark: boolean
+    onSelect: (scope: RecurrenceEditScope) => void
+    onCancel: () => void
+}
+
+const SCOPE_OPTIONS: { value: RecurrenceEditScope; label: string }[] = [
+    { value: 'this', label: 'This event' },
+    { value: 'following', label: 'This and following events' },
+    { value: 'all', label: 'All events' },
+]
+
+export default function RecurrenceScopeDialog({ isOpen, title, isDark, onSelect, onCancel }: RecurrenceScopeDialogProps) {
+    if (!isOpen) return null
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center">
+            <div
+                className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+                onClick={onCancel}
+            />
+            <div className={clsx(
+                "relative w-full max-w-sm mx-4 rounded-2xl shadow-xl p-6 transition-colors",
+                isDark ? "bg-[#1A1A1A]" : "bg-white"
+            )}>
+                <div className="flex items-center gap-3 mb-4">
+                    <Repeat className={clsx("w-5 h-5", isDark ? "text-[#FF9F1C]" : "text-[#CC7A00]")} />
+                    <h3 className={clsx(
+                        "text-lg font-bold",
+                        isDark ? "text-[#F5F5F5]" : "text-[#2D3436]"
+                    )}>
+                        {title}
+                    </h3>
+                </div>
+
+                <div className="space-y-2 mb-4">
+                    {SCOPE_OPTIONS.map(option => (
+                        <button
+                            key={option.value}
+                            onClick={() => onSelect(option.value)}
+                            className={clsx(
+                                "w-full text-left px-4 py-3 rounded-xl border transition-colors",
+                                isDark
+                                    ? "bg-[#2A2A2A] border-[#3A3A3A] text-[#F5F5F5] hover:border-[#FF9F1C]"
+                                    : "bg-[#FFFBF5] border-[#EFEEEE] text-[#2D3436] hover:border-[#FF9F1C]"
+                            )}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+
+                <button
+                    onClick={onCancel}
+                    className={clsx(
+                        "w-full py-2 rounded-xl font-medium transition-colors",
+                        isDark ? "bg-[#2A2A2A] text-gray-300 hover:bg-[#3A3A3A]" : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                    )}
+                >
+                    Cancel
+                </button>
+            </div>
+        </div>
+    )
+}
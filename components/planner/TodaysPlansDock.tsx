@@ -5,13 +5,14 @@ import { useTheme } from '@/components/ThemeProvider'
 import { Plan } from '@/lib/types'
 import { format } from 'date-fns'
 import { formatTimeTo12h } from '@/lib/utils'
+import { getPlansForDay, occurrenceKey } from '@/lib/recurrence'
 import clsx from 'clsx'
 import { Check, ChevronDown, ChevronUp, Calendar, X } from 'lucide-react'
 
 interface TodaysPlansDockProps {
     plans: Plan[]
     onPlanClick: (plan: Plan) => void
-    onToggleComplete: (planId: string) => void
+    onToggleComplete: (plan: Plan) => void
 }
 
 export default function TodaysPlansDock({ plans, onPlanClick, onToggleComplete }: TodaysPlansDockProps) {
@@ -20,15 +21,8 @@ export default function TodaysPlansDock({ plans, onPlanClick, onToggleComplete }
     const [isExpanded, setIsExpanded] = useState(false)
     const [isVisible, setIsVisible] = useState(false)
 
-    // Get today's plans
-    const todayPlans = plans.filter(plan => {
-        const today = format(new Date(), 'yyyy-MM-dd')
-        if (plan.date === today) return true
-        if (plan.hasDueDate && plan.dueDate) {
-            return plan.date <= today && plan.dueDate >= today
-        }
-        return false
-    })
+    // Get today's plans (including today's occurrence of recurring plans)
+    const todayPlans = getPlansForDay(plans, format(new Date(), 'yyyy-MM-dd'))
 
     if (!isVisible) {
         return (
@@ -114,7 +108,7 @@ export default function TodaysPlansDock({ plans, onPlanClick, onToggleComplete }
                         <div className="space-y-2">
                             {todayPlans.map(plan => (
                                 <div
-                                    key={plan.id}
+                                    key={occurrenceKey(plan)}
                                     onClick={() => onPlanClick(plan)}
                                     className={clsx(
                                         "p-3 rounded-xl border cursor-pointer transition-all hover:scale-[1.02]",
@@ -127,7 +121,7 @@ export default function TodaysPlansDock({ plans, onPlanClick, onToggleComplete }
                                         <button
                                             onClick={(e) => {
                                                 e.stopPropagation()
-                                                onToggleComplete(plan.id)
+                                                onToggleComplete(plan)
                                             }}
                                             className={clsx(
                                                 "w-5 h-5 rounded-full border-2 flex items-center justify-center flex-shrink-0 mt-0.5 transition-colors",
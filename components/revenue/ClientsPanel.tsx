@@ -0,0 +1,199 @@
+'use client'
+
+import { useState } from 'react'
+import clsx from 'clsx'
+import { Plus, Pencil, Trash2, Mail, Phone } from 'lucide-react'
+import { Client } from '@/lib/types'
+import { saveClient, deleteClient } from '@/lib/supabaseService'
+import { useData } from '@/lib/DataContext'
+import { useHistory } from '@/lib/HistoryContext'
+import { generateUUID } from '@/lib/uuid'
+import PendingSyncBadge from '@/components/PendingSyncBadge'
+
+interface ClientsPanelProps {
+    isDark: boolean
+}
+
+const EMPTY_FORM = { name: '', email: '', phone: '', billingAddress: '' }
+
+// Client list with an inline form for adding and editing
+export function ClientsPanel({ isDark }: ClientsPanelProps) {
+    const { clients, setClients, invoices } = useData()
+    const { record } = useHistory()
+    const [editingId, setEditingId] = useState<string | null>(null) // 'new' for the add form
+    const [form, setForm] = useState(EMPTY_FORM)
+    const [error, setError] = useState<string | null>(null)
+
+    const startEditing = (client: Client | null) => {
+        setEditingId(client?.id ?? 'new')
+        setForm(client ? {
+            name: client.name,
+            email: client.email ?? '',
+            phone: client.phone ?? '',
+            billingAddress: client.billingAddress ?? ''
+        } : EMPTY_FORM)
+        setError(null)
+    }
+
+    const handleSave = async () => {
+        if (!form.name.trim()) return
+        const existing = clients.find(c => c.id === editingId)
+        const client: Client = {
+            id: existing?.id ?? generateUUID(),
+            name: form.name.trim(),
+            email: form.email.trim() || undefined,
+            phone: form.phone.trim() || undefined,
+            billingAddress: form.billingAddress.trim() || undefined,
+            createdAt: existing?.createdAt ?? new Date().toISOString()
+        }
+
+        const saved = await saveClient(client)
+        if (!saved) return
+        setClients(prev => [...prev.filter(c => c.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)))
+        setEditingId(null)
+        if (!existing) {
+            record({
+                label: `Added client "${saved.name}"`,
+                undo: () => deleteClient(saved.id),
+                redo: async () => !!(await saveClient(saved))
+            })
+        }
+    }
+
+    const handleDelete = async (client: Client) => {
+        const invoiceCount = invoices.filter(i => i.clientId === client.id).length
+        if (invoiceCount > 0) {
+            setError(`${client.name} has ${invoiceCount} invoice${invoiceCount === 1 ? '' : 's'}. Delete or reassign ${invoiceCount === 1 ? 'it' : 'them'} first.`)
+            return
+        }
+        if (!await deleteClient(client.id)) return
+        setClients(prev => prev.filter(c => c.id !== client.id))
+        record({
+            label: `Deleted client "${client.name}"`,
+            undo: async () => !!(await saveClient(client)),
+            redo: () => deleteClient(client.id)
+        })
+    }
+
+    const mutedText = isDark ? "text-[#A0A0A0]" : "text-[#636E72]"
+    const inputClass = clsx(
+        "w-full p-2 rounded-lg border outline-none text-sm",
+        isDark ? "bg-[#2A2A2A] border-[#3A3A3A] text-[#F5F5F5] placeholder-gray-500" : "bg-gray-50 border-gray-200 text-[#2D3436]"
+    )
+
+    const renderForm = () => (
+        <div className={clsx("p-4 rounded-xl border space-y-3", isDark ? "border-[#2A2A2A]" : "border-gray-200")}>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="Name *"
+                    autoFocus
+                    className={inputClass}
+                />
+                <input
+                    type="email"
+                    value={form.email}
+                    onChange={(e) => setForm({ ...form, email: e.target.value })}
+                    placeholder="Email"
+                    className={inputClass}
+                />
+                <input
+                    type="tel"
+                    value={form.phone}
+                    onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                    placeholder="Phone"
+                    className={inputClass}
+                />
+            </div>
+            <textarea
+                value={form.billingAddress}
+                onChange={(e) => setForm({ ...form, billingAddress: e.target.value })}
+                placeholder="Billing address"
+                rows={3}
+                className={clsx(inputClass, "resize-none")}
+            />
+            <div className="flex justify-end gap-2">
+                <button
+                    onClick={() => setEditingId(null)}
+                    className={clsx("px-4 py-2 rounded-lg text-sm", isDark ? "text-[#A0A0A0] hover:bg-[#2A2A2A]" : "text-gray-500 hover:bg-gray-100")}
+                >
+                    Cancel
+                </button>
+                <button
+                    onClick={handleSave}
+                    disabled={!form.name.trim()}
+                    className="px-4 py-2 bg-[#FF9F1C] text-white rounded-lg text-sm font-medium hover:bg-[#E08A15] disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                    Save client
+                </button>
+            </div>
+        </div>
+    )
+
+    return (
+        <div className="space-y-3">
+            {error && <p className="text-sm text-amber-500">{error}</p>}
+
+            {editingId === 'new' ? renderForm() : (
+                <button
+                    onClick={() => startEditing(null)}
+                    className={clsx(
+                        "w-full p-4 rounded-2xl border-2 border-dashed flex items-center justify-center gap-2 transition-colors",
+                        isDark
+                            ? "border-[#2A2A2A] text-[#A0A0A0] hover:border-[#FF9F1C] hover:text-[#FF9F1C]"
+                            : "border-gray-200 text-gray-500 hover:border-[#FF9F1C] hover:text-[#FF9F1C]"
+                    )}
+                >
+                    <Plus className="w-5 h-5" />
+                    Add client
+                </button>
+            )}
+
+            {clients.length === 0 && editingId !== 'new' && (
+                <p className={clsx("text-sm text-center py-6", mutedText)}>No clients yet.</p>
+            )}
+
+            {clients.map(client => editingId === client.id ? (
+                <div key={client.id}>{renderForm()}</div>
+            ) : (
+                <div
+                    key={client.id}
+                    className={clsx(
+                        "p-4 rounded-xl border flex items-start gap-4",
+                        isDark ? "bg-[#1A1A1A] border-[#2A2A2A]" : "bg-white border-gray-200"
+                    )}
+                >
+                    <div className="flex-1 min-w-0 space-y-1">
+                        <p className={clsx("font-medium flex items-center gap-2", isDark ? "text-[#F5F5F5]" : "text-[#2D3436]")}>
+                            {client.name}
+                            <PendingSyncBadge type="client" id={client.id} />
+                        </p>
+                        <div className={clsx("flex flex-wrap gap-x-4 gap-y-1 text-sm", mutedText)}>
+                            {client.email && <span className="flex items-center gap-1"><Mail className="w-3.5 h-3.5" />{client.email}</span>}
+                            {client.phone && <span className="flex items-center gap-1"><Phone className="w-3.5 h-3.5" />{client.phone}</span>}
+                        </div>
+                        {client.billingAddress && (
+                            <p className={clsx("text-sm whitespace-pre-line", mutedText)}>{client.billingAddress}</p>
+                        )}
+                    </div>
+                    <button
+                        onClick={() => startEditing(client)}
+                        className={clsx("p-1.5 rounded transition-colors", isDark ? "text-[#A0A0A0] hover:text-[#FF9F1C]" : "text-gray-400 hover:text-[#FF9F1C]")}
+                        title="Edit client"
+                    >
+                        <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={() => handleDelete(client)}
+                        className={clsx("p-1.5 rounded transition-colors", isDark ? "text-[#A0A0A0] hover:text-red-400" : "text-gray-400 hover:text-red-500")}
+                        title="Delete client"
+                    >
+                        <Trash2 className="w-4 h-4" />
+                    </button>
+                </div>
+            ))}
+        </div>
+    )
+}
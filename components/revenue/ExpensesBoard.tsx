@@ -0,0 +1,427 @@
+'use client'
+
+import { useMemo, useRef, useState } from 'react'
+import Link from 'next/link'
+import clsx from 'clsx'
+import { format, parseISO } from 'date-fns'
+import { ArrowLeft, Plus, Pencil, Trash2, Paperclip, Upload, X, AlertTriangle, Wallet } from 'lucide-react'
+import { Attachment, Expense } from '@/lib/types'
+import { createExpense, updateExpense, deleteExpense, restoreExpense } from '@/lib/supabaseService'
+import { uploadAttachment, validateAttachmentFile } from '@/lib/attachmentService'
+import { profitReport } from '@/lib/profit'
+import { formatMoney } from '@/lib/currency'
+import { generateUUID } from '@/lib/uuid'
+import { useTheme } from '@/components/ThemeProvider'
+import { useData } from '@/lib/DataContext'
+import { useHistory } from '@/lib/HistoryContext'
+import PendingSyncBadge from '@/components/PendingSyncBadge'
+import CurrencySelect from '@/components/CurrencySelect'
+
+const DEFAULT_CATEGORIES = ['Software', 'Hardware', 'Office', 'Travel', 'Marketing', 'Contractors', 'Fees', 'Taxes', 'Other']
+
+type View = 'entries' | 'profit'
+
+interface ExpenseForm {
+    description: string
+    amount: number | ''
+    currency: string
+    category: string
+    date: string
+    projectName: string
+    receipt?: Attachment
+}
+
+function getTodayDate() {
+    return format(new Date(), 'yyyy-MM-dd')
+}
+
+// Expense entries with receipts, and profit (revenue minus expenses) per month and project
+export function ExpensesBoard() {
+    const { theme } = useTheme()
+    const isDark = theme === 'dark'
+    const { expenses, setExpenses, revenues, exchangeRates, reportingCurrency, isOnline } = useData()
+    const { record } = useHistory()
+    const [view, setView] = useState<View>('entries')
+    const [editingId, setEditingId] = useState<string | null>(null) // 'new' for the add form
+    const [form, setForm] = useState<ExpenseForm | null>(null)
+    const [isUploading, setIsUploading] = useState(false)
+    const [uploadError, setUploadError] = useState<string | null>(null)
+    const [year, setYear] = useState(new Date().getFullYear())
+    const fileInputRef = useRef<HTMLInputElement>(null)
+
+    const categories = useMemo(
+        () => Array.from(new Set([...DEFAULT_CATEGORIES, ...expenses.map(e => e.category)])).sort(),
+        [expenses]
+    )
+    const projectNames = useMemo(
+        () => Array.from(new Set(revenues.map(r => r.projectName.trim()).filter(Boolean))).sort(),
+        [revenues]
+    )
+    const years = useMemo(() => {
+        const all = new Set([new Date().getFullYear()])
+        for (const e of expenses) all.add(Number(e.date.slice(0, 4)))
+        for (const r of revenues) all.add(Number(r.dateCompleted.slice(0, 4)))
+        return Array.from(all).sort((a, b) => b - a)
+    }, [expenses, revenues])
+
+    const report = useMemo(() => profitReport(revenues, expenses, {
+        from: `${year}-01-01`,
+        to: `${year}-12-31`,
+        currency: reportingCurrency,
+        rates: exchangeRates
+    }), [revenues, expenses, year, reportingCurrency, exchangeRates])
+
+    const startEditing = (expense: Expense | null) => {
+        setEditingId(expense?.id ?? 'new')
+        setForm(expense ? {
+            description: expense.description,
+            amount: expense.amount,
+            currency: expense.currency,
+            category: expense.category,
+            date: expense.date,
+            projectName: expense.projectName ?? '',
+            receipt: expense.receipt
+        } : {
+            description: '',
+            amount: '',
+            currency: reportingCurrency,
+            category: 'Other',
+            date: getTodayDate(),
+            projectName: ''
+        })
+        setUploadError(null)
+    }
+
+    const stopEditing = () => {
+        setEditingId(null)
+        setForm(null)
+    }
+
+    const handleReceipt = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0]
+        e.target.value = ''
+        if (!file || !form) return
+        const invalid = validateAttachmentFile(file)
+        if (invalid) {
+            setUploadError(invalid)
+            return
+        }
+        setIsUploading(true)
+        setUploadError(null)
+        const receipt = await uploadAttachment(file, { prefix: 'receipt' })
+        setIsUploading(false)
+        if (receipt) setForm(prev => prev && { ...prev, receipt })
+        else setUploadError(`Couldn’t upload ${file.name}.`)
+    }
+
+    const handleSave = async () => {
+        if (!form || !form.description.trim() || form.amount === '' || form.amount < 0) return
+        const existing = expenses.find(e => e.id === editingId)
+        const expense: Expense = {
+            id: existing?.id ?? generateUUID(),
+            description: form.description.trim(),
+            amount: Number(form.amount),
+            currency: form.currency,
+            category: form.category.trim() || 'Other',
+            date: form.date,
+            projectName: form.projectName.trim() || undefined,
+            receipt: form.receipt,
+            createdAt: existing?.createdAt ?? new Date().toISOString()
+        }
+
+        if (existing) {
+            if (!await updateExpense(expense)) return
+            setExpenses(prev => prev.map(e => e.id === expense.id ? expense : e))
+        } else {
+            if (!await createExpense(expense)) return
+            setExpenses(prev => [expense, ...prev])
+        }
+        stopEditing()
+    }
+
+    const handleDelete = async (expense: Expense) => {
+        if (!await deleteExpense(expense.id)) return
+        setExpenses(prev => prev.filter(e => e.id !== expense.id))
+        if (editingId === expense.id) stopEditing()
+        record({
+            label: `Deleted "${expense.description}"`,
+            undo: () => restoreExpense(expense.id),
+            redo: () => deleteExpense(expense.id)
+        })
+    }
+
+    const mutedText = isDark ? "text-[#A0A0A0]" : "text-[#636E72]"
+    const strongText = isDark ? "text-[#F5F5F5]" : "text-[#2D3436]"
+    const cardClass = clsx("p-6 rounded-2xl border", isDark ? "bg-[#1A1A1A] border-[#2A2A2A]" : "bg-white border-gray-200")
+    const inputClass = clsx(
+        "w-full p-2 rounded-lg border outline-none text-sm",
+        isDark ? "bg-[#2A2A2A] border-[#3A3A3A] text-[#F5F5F5] placeholder-gray-500" : "bg-gray-50 border-gray-200 text-[#2D3436]"
+    )
+    const money = (amount: number) => formatMoney(amount, reportingCurrency)
+    const profitClass = (profit: number) => profit < 0 ? "text-red-500" : "text-green-500"
+    const sortedExpenses = [...expenses].sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt))
+    const maxMonth = Math.max(1, ...report.months.map(m => Math.max(m.revenue, m.expenses)))
+
+    const renderForm = () => form && (
+        <div className={clsx("p-4 rounded-xl border space-y-3", isDark ? "border-[#2A2A2A]" : "border-gray-200")}>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <input
+                    type="text"
+                    value={form.description}
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                    placeholder="Description *"
+                    autoFocus
+                    className={inputClass}
+                />
+                <div className="flex items-center gap-1">
+                    <CurrencySelect
+                        value={form.currency}
+                        onChange={(currency) => setForm({ ...form, currency })}
+                        className={clsx(inputClass, "w-auto")}
+                    />
+                    <input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={form.amount}
+                        onChange={(e) => setForm({ ...form, amount: e.target.value ? Number(e.target.value) : '' })}
+                        placeholder="Amount *"
+                        className={inputClass}
+                    />
+                </div>
+                <input
+                    type="text"
+                    list="expense-categories"
+                    value={form.category}
+                    onChange={(e) => setForm({ ...form, category: e.target.value })}
+                    placeholder="Category"
+                    className={inputClass}
+                />
+                <input
+                    type="date"
+                    value={form.date}
+                    onChange={(e) => setForm({ ...form, date: e.target.value })}
+                    className={inputClass}
+                />
+                <input
+                    type="text"
+                    list="expense-projects"
+                    value={form.projectName}
+                    onChange={(e) => setForm({ ...form, projectName: e.target.value })}
+                    placeholder="Project (optional)"
+                    className={inputClass}
+                />
+                <div className="flex items-center gap-2 text-sm min-w-0">
+                    {form.receipt ? (
+                        <>
+                            <a href={form.receipt.url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 truncate text-[#FF9F1C] hover:underline">
+                                <Paperclip className="w-4 h-4 flex-shrink-0" />
+                                <span className="truncate">{form.receipt.name}</span>
+                            </a>
+                            <button onClick={() => setForm({ ...form, receipt: undefined })} title="Remove receipt" className={clsx("p-1 rounded hover:text-red-500", mutedText)}>
+                                <X className="w-4 h-4" />
+                            </button>
+                        </>
+                    ) : (
+                        <button
+                            onClick={() => fileInputRef.current?.click()}
+                            disabled={isUploading || !isOnline}
+                            className={clsx("flex items-center gap-1 px-3 py-2 rounded-lg border disabled:opacity-40", isDark ? "border-[#3A3A3A] hover:bg-[#2A2A2A]" : "border-gray-200 hover:bg-gray-50", mutedText)}
+                        >
+                            <Upload className="w-4 h-4" />
+                            {isUploading ? 'Uploading…' : 'Attach receipt'}
+                        </button>
+                    )}
+                    <input ref={fileInputRef} type="file" accept="image/*,application/pdf" onChange={handleReceipt} className="hidden" />
+                </div>
+            </div>
+            {!isOnline && !form.receipt && <p className={clsx("text-xs", mutedText)}>Attaching a receipt needs a connection.</p>}
+            {uploadError && <p className="text-xs text-red-500">{uploadError}</p>}
+            <div className="flex justify-end gap-2">
+                <button
+                    onClick={stopEditing}
+                    className={clsx("px-4 py-2 rounded-lg text-sm", isDark ? "text-[#A0A0A0] hover:bg-[#2A2A2A]" : "text-gray-500 hover:bg-gray-100")}
+                >
+                    Cancel
+                </button>
+                <button
+                    onClick={handleSave}
+                    disabled={!form.description.trim() || form.amount === '' || isUploading}
+                    className="px-4 py-2 bg-[#FF9F1C] text-white rounded-lg text-sm font-medium hover:bg-[#E08A15] disabled:opacity-50"
+                >
+                    {editingId === 'new' ? 'Add Expense' : 'Save'}
+                </button>
+            </div>
+        </div>
+    )
+
+    return (
+        <div className="space-y-6">
+            <header className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div>
+                    <Link href="/revenue" className={clsx("inline-flex items-center gap-1 text-sm hover:text-[#FF9F1C]", mutedText)}>
+                        <ArrowLeft className="w-4 h-4" />
+                        Revenue
+                    </Link>
+                    <h1 className={clsx("text-3xl font-bold mt-1", strongText)}>Expenses</h1>
+                    <p className={clsx("mt-2", mutedText)}>Track what you spend and see what’s left as profit.</p>
+                </div>
+                <div className={clsx("flex rounded-xl border p-1", isDark ? "border-[#2A2A2A]" : "border-gray-200")}>
+                    {([['entries', 'Entries'], ['profit', 'Profit']] as const).map(([value, label]) => (
+                        <button
+                            key={value}
+                            onClick={() => setView(value)}
+                            className={clsx(
+                                "px-4 py-1.5 rounded-lg text-sm font-medium transition-colors",
+                                view === value ? "bg-[#FF9F1C] text-white" : mutedText
+                            )}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            </header>
+
+            <datalist id="expense-categories">
+                {categories.map(c => <option key={c} value={c} />)}
+            </datalist>
+            <datalist id="expense-projects">
+                {projectNames.map(p => <option key={p} value={p} />)}
+            </datalist>
+
+            {view === 'entries' ? (
+                <div className={clsx(cardClass, "space-y-3")}>
+                    {editingId === 'new' ? renderForm() : (
+                        <button
+                            onClick={() => startEditing(null)}
+                            className={clsx(
+                                "w-full p-4 rounded-xl border-2 border-dashed flex items-center justify-center gap-2 transition-colors",
+                                isDark
+                                    ? "border-[#2A2A2A] text-[#A0A0A0] hover:border-[#FF9F1C] hover:text-[#FF9F1C]"
+                                    : "border-gray-200 text-gray-500 hover:border-[#FF9F1C] hover:text-[#FF9F1C]"
+                            )}
+                        >
+                            <Plus className="w-5 h-5" />
+                            Add Expense
+                        </button>
+                    )}
+
+                    {sortedExpenses.length === 0 && editingId !== 'new' && (
+                        <div className={clsx("text-center py-8", isDark ? "text-[#666]" : "text-gray-400")}>
+                            <Wallet className="w-12 h-12 mx-auto mb-3 opacity-50" />
+                            <p>No expenses yet</p>
+                        </div>
+                    )}
+
+                    {sortedExpenses.map(expense => editingId === expense.id ? (
+                        <div key={expense.id}>{renderForm()}</div>
+                    ) : (
+                        <div
+                            key={expense.id}
+                            className={clsx("flex items-center justify-between gap-4 p-4 rounded-xl", isDark ? "bg-[#2A2A2A]" : "bg-gray-50")}
+                        >
+                            <div className="min-w-0">
+                                <p className={clsx("font-medium truncate", strongText)}>{expense.description}</p>
+                                <div className={clsx("flex flex-wrap items-center gap-3 mt-1 text-xs", mutedText)}>
+                                    <span className={clsx("px-2 py-0.5 rounded", isDark ? "bg-[#3A3A3A]" : "bg-gray-200")}>{expense.category}</span>
+                                    {expense.projectName && <span>{expense.projectName}</span>}
+                                    <span>{format(parseISO(expense.date), 'MMM d, yyyy')}</span>
+                                    {expense.receipt && (
+                                        <a href={expense.receipt.url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 hover:text-[#FF9F1C]">
+                                            <Paperclip className="w-3 h-3" />
+                                            Receipt
+                                        </a>
+                                    )}
+                                    <PendingSyncBadge type="expense" id={expense.id} showLabel />
+                                </div>
+                            </div>
+                            <div className="flex items-center gap-2 flex-shrink-0">
+                                <span className="font-bold text-red-500">{formatMoney(expense.amount, expense.currency)}</span>
+                                <button onClick={() => startEditing(expense)} title="Edit" className={clsx("p-1.5 rounded-lg hover:text-[#FF9F1C]", mutedText)}>
+                                    <Pencil className="w-4 h-4" />
+                                </button>
+                                <button onClick={() => handleDelete(expense)} title="Delete" className={clsx("p-1.5 rounded-lg hover:text-red-500", mutedText)}>
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <>
+                    <div className="flex items-center justify-between gap-4">
+                        <select value={year} onChange={(e) => setYear(Number(e.target.value))} className={clsx(inputClass, "w-auto")}>
+                            {years.map(y => <option key={y} value={y}>{y}</option>)}
+                        </select>
+                        {report.missingCurrencies.length > 0 && (
+                            <p className="flex items-center gap-2 text-sm text-amber-500">
+                                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                                <span>
+                                    Entries in {report.missingCurrencies.join(', ')} are left out: there is no exchange rate to {reportingCurrency}.{' '}
+                                    <Link href="/settings" className="underline">Add rates in Settings</Link>
+                                </span>
+                            </p>
+                        )}
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        {([
+                            ['Revenue', report.totals.revenue, 'text-[#FF9F1C]'],
+                            ['Expenses', report.totals.expenses, 'text-red-500'],
+                            ['Profit', report.totals.profit, profitClass(report.totals.profit)],
+                        ] as const).map(([label, amount, color]) => (
+                            <div key={label} className={cardClass}>
+                                <p className={clsx("text-sm mb-1", mutedText)}>{label}</p>
+                                <p className={clsx("text-3xl font-bold", color)}>{money(amount)}</p>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className={cardClass}>
+                        <h2 className={clsx("text-lg font-semibold mb-4", strongText)}>By month</h2>
+                        <div className="space-y-2">
+                            {report.months.map(month => (
+                                <div key={month.key} className="grid grid-cols-[5rem_1fr_8rem] items-center gap-3 text-sm">
+                                    <span className={mutedText}>{month.label.slice(0, 3)}</span>
+                                    <div className="space-y-1">
+                                        <div className="h-2 rounded-full bg-[#FF9F1C]" style={{ width: `${(month.revenue / maxMonth) * 100}%` }} title={`Revenue ${money(month.revenue)}`} />
+                                        <div className="h-2 rounded-full bg-red-400" style={{ width: `${(month.expenses / maxMonth) * 100}%` }} title={`Expenses ${money(month.expenses)}`} />
+                                    </div>
+                                    <span className={clsx("text-right font-medium", profitClass(month.profit))}>{money(month.profit)}</span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className={cardClass}>
+                        <h2 className={clsx("text-lg font-semibold mb-4", strongText)}>By project</h2>
+                        {report.projects.length === 0 ? (
+                            <p className={clsx("text-sm", mutedText)}>Nothing earned or spent in {year}.</p>
+                        ) : (
+                            <table className="w-full text-sm">
+                                <thead className={mutedText}>
+                                    <tr>
+                                        <th className="py-2 text-left font-medium">Project</th>
+                                        <th className="py-2 text-right font-medium">Revenue</th>
+                                        <th className="py-2 text-right font-medium">Expenses</th>
+                                        <th className="py-2 text-right font-medium">Profit</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {report.projects.map(project => (
+                                        <tr key={project.projectName} className={clsx("border-t", isDark ? "border-[#2A2A2A]" : "border-gray-100")}>
+                                            <td className={clsx("py-2", strongText)}>{project.projectName}</td>
+                                            <td className={clsx("py-2 text-right", strongText)}>{money(project.revenue)}</td>
+                                            <td className={clsx("py-2 text-right", strongText)}>{money(project.expenses)}</td>
+                                            <td className={clsx("py-2 text-right font-medium", profitClass(project.profit))}>{money(project.profit)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </div>
+                </>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,147 @@
+'use client'
+
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import clsx from 'clsx'
+import { format, parseISO } from 'date-fns'
+import { ArrowLeft, Printer } from 'lucide-react'
+import { invoiceLines, invoiceStatus, invoiceTotals } from '@/lib/invoices'
+import { formatMoney } from '@/lib/currency'
+import { useTheme } from '@/components/ThemeProvider'
+import { useData } from '@/lib/DataContext'
+import { useAuth, displayNameOf } from '@/lib/AuthContext'
+
+// Printable invoice. The page itself is always light; "Save as PDF" is the browser's print dialog.
+export function InvoiceDocument() {
+    const { id } = useParams<{ id: string }>()
+    const { theme } = useTheme()
+    const isDark = theme === 'dark'
+    const { invoices, clients, revenues, isLoading } = useData()
+    const { user } = useAuth()
+
+    const invoice = invoices.find(i => i.id === id)
+    const mutedText = isDark ? "text-[#A0A0A0]" : "text-[#636E72]"
+
+    if (!invoice) {
+        return (
+            <div className="space-y-4">
+                <Link href="/revenue/invoices" className={clsx("inline-flex items-center gap-1 text-sm hover:text-[#FF9F1C]", mutedText)}>
+                    <ArrowLeft className="w-4 h-4" />
+                    Invoices
+                </Link>
+                <p className={mutedText}>{isLoading ? 'Loading invoice…' : 'This invoice doesn’t exist or was deleted.'}</p>
+            </div>
+        )
+    }
+
+    const client = clients.find(c => c.id === invoice.clientId)
+    const lines = invoiceLines(invoice, revenues)
+    const totals = invoiceTotals(invoice, revenues)
+    const status = invoiceStatus(invoice)
+    const money = (amount: number) => formatMoney(amount, invoice.currency)
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between print:hidden">
+                <Link href="/revenue/invoices" className={clsx("inline-flex items-center gap-1 text-sm hover:text-[#FF9F1C]", mutedText)}>
+                    <ArrowLeft className="w-4 h-4" />
+                    Invoices
+                </Link>
+                <button
+                    onClick={() => window.print()}
+                    className="flex items-center gap-2 bg-gradient-to-r from-[#FF9F1C] to-[#F68E09] text-white px-4 py-2 rounded-xl hover:opacity-90 transition-opacity shadow-md"
+                >
+                    <Printer className="w-4 h-4" />
+                    Print / Save as PDF
+                </button>
+            </div>
+
+            <article className="mx-auto max-w-3xl bg-white text-[#2D3436] rounded-2xl border border-gray-200 p-10 space-y-8 print:border-0 print:rounded-none print:p-0 print:max-w-none">
+                <header className="flex items-start justify-between gap-8">
+                    <div>
+                        <h1 className="text-3xl font-bold">Invoice</h1>
+                        <p className="text-[#636E72] mt-1">{invoice.number}</p>
+                    </div>
+                    <div className="text-right text-sm space-y-1">
+                        {user && <p className="font-medium">{displayNameOf(user)}</p>}
+                        {user?.email && <p className="text-[#636E72]">{user.email}</p>}
+                        {status !== 'draft' && (
+                            <p className={clsx(
+                                "inline-block px-2 py-0.5 rounded-full text-xs font-semibold uppercase tracking-wide",
+                                status === 'paid' ? "bg-green-50 text-green-600" : status === 'overdue' ? "bg-red-100 text-red-700" : "bg-blue-50 text-blue-600"
+                            )}>
+                                {status}
+                            </p>
+                        )}
+                    </div>
+                </header>
+
+                <section className="grid grid-cols-2 gap-8 text-sm">
+                    <div>
+                        <p className="text-xs font-semibold uppercase tracking-wide text-[#636E72] mb-1">Bill to</p>
+                        {client ? (
+                            <>
+                                <p className="font-medium">{client.name}</p>
+                                {client.billingAddress && <p className="whitespace-pre-line">{client.billingAddress}</p>}
+                                {client.email && <p className="text-[#636E72]">{client.email}</p>}
+                                {client.phone && <p className="text-[#636E72]">{client.phone}</p>}
+                            </>
+                        ) : (
+                            <p className="text-[#636E72]">—</p>
+                        )}
+                    </div>
+                    <dl className="space-y-1 text-right">
+                        <div><dt className="inline text-[#636E72]">Issued </dt><dd className="inline">{format(parseISO(invoice.issueDate), 'MMMM d, yyyy')}</dd></div>
+                        <div><dt className="inline text-[#636E72]">Due </dt><dd className="inline">{format(parseISO(invoice.dueDate), 'MMMM d, yyyy')}</dd></div>
+                        {invoice.paidAt && (
+                            <div><dt className="inline text-[#636E72]">Paid </dt><dd className="inline">{format(new Date(invoice.paidAt), 'MMMM d, yyyy')}</dd></div>
+                        )}
+                    </dl>
+                </section>
+
+                <table className="w-full text-sm">
+                    <thead className="border-b border-gray-300 text-[#636E72]">
+                        <tr>
+                            <th className="py-2 text-left font-medium">Description</th>
+                            <th className="py-2 text-left font-medium">Completed</th>
+                            <th className="py-2 text-right font-medium">Amount</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {lines.map(revenue => (
+                            <tr key={revenue.id} className="border-b border-gray-100 align-top">
+                                <td className="py-3 pr-4">
+                                    <p className="font-medium">{revenue.name}</p>
+                                    {revenue.projectName && <p className="text-[#636E72]">{revenue.projectName}</p>}
+                                    {revenue.description && <p className="text-[#636E72] whitespace-pre-line">{revenue.description}</p>}
+                                </td>
+                                <td className="py-3 pr-4 whitespace-nowrap">{format(parseISO(revenue.dateCompleted), 'MMM d, yyyy')}</td>
+                                <td className="py-3 text-right whitespace-nowrap">{money(revenue.price)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+
+                <dl className="ml-auto w-64 text-sm space-y-1">
+                    <div className="flex justify-between"><dt className="text-[#636E72]">Subtotal</dt><dd>{money(totals.subtotal)}</dd></div>
+                    {totals.discount > 0 && (
+                        <div className="flex justify-between"><dt className="text-[#636E72]">Discount</dt><dd>−{money(totals.discount)}</dd></div>
+                    )}
+                    {invoice.taxRate > 0 && (
+                        <div className="flex justify-between"><dt className="text-[#636E72]">Tax ({invoice.taxRate}%)</dt><dd>{money(totals.tax)}</dd></div>
+                    )}
+                    <div className="flex justify-between border-t border-gray-300 pt-2 mt-2 text-base font-bold">
+                        <dt>Total due</dt><dd>{money(totals.total)}</dd>
+                    </div>
+                </dl>
+
+                {invoice.notes && (
+                    <section className="text-sm">
+                        <p className="text-xs font-semibold uppercase tracking-wide text-[#636E72] mb-1">Notes</p>
+                        <p className="whitespace-pre-line">{invoice.notes}</p>
+                    </section>
+                )}
+            </article>
+        </div>
+    )
+}
@@ -0,0 +1,271 @@
+'use client'
+
+import { useState } from 'react'
+import clsx from 'clsx'
+import { addDays, format, parseISO } from 'date-fns'
+import { X } from 'lucide-react'
+import { Invoice } from '@/lib/types'
+import { billableRevenues, invoiceTotals, nextInvoiceNumber } from '@/lib/invoices'
+import { formatMoney } from '@/lib/currency'
+import { useData } from '@/lib/DataContext'
+import { generateUUID } from '@/lib/uuid'
+import CurrencySelect from '@/components/CurrencySelect'
+
+interface InvoiceEditorProps {
+    invoice: Invoice | null // null = new invoice
+    isDark: boolean
+    onClose: () => void
+    onSave: (invoice: Invoice) => Promise<void>
+}
+
+// Days between issue and due date on new invoices
+const PAYMENT_TERMS_DAYS = 14
+
+function newInvoice(invoices: Invoice[], currency: string): Invoice {
+    const issueDate = format(new Date(), 'yyyy-MM-dd')
+    return {
+        id: generateUUID(),
+        number: nextInvoiceNumber(invoices, issueDate),
+        clientId: null,
+        status: 'draft',
+        issueDate,
+        dueDate: format(addDays(new Date(), PAYMENT_TERMS_DAYS), 'yyyy-MM-dd'),
+        currency,
+        taxRate: 0,
+        discount: 0,
+        items: [],
+        createdAt: new Date().toISOString()
+    }
+}
+
+export function InvoiceEditor({ invoice, isDark, onClose, onSave }: InvoiceEditorProps) {
+    const { clients, invoices, revenues, reportingCurrency } = useData()
+    const [draft, setDraft] = useState<Invoice>(() => invoice ?? newInvoice(invoices, reportingCurrency))
+    const [isSaving, setIsSaving] = useState(false)
+
+    const update = (changes: Partial<Invoice>) => setDraft(prev => ({ ...prev, ...changes }))
+
+    const available = billableRevenues(revenues, invoices, draft)
+    const selected = new Set(draft.items.map(item => item.revenueId))
+    const totals = invoiceTotals(draft, revenues)
+    const numberTaken = invoices.some(i => i.id !== draft.id && i.number === draft.number.trim())
+    const canSave = draft.number.trim() && !numberTaken && draft.items.length > 0 && draft.dueDate >= draft.issueDate
+
+    const toggleRevenue = (revenueId: string) => {
+        update({
+            items: selected.has(revenueId)
+                ? draft.items.filter(item => item.revenueId !== revenueId)
+                : [...draft.items, { id: generateUUID(), revenueId }]
+        })
+    }
+
+    // Line items must share the invoice currency, so switching currency drops the others
+    const changeCurrency = (currency: string) => {
+        const inCurrency = new Set(revenues.filter(r => r.currency === currency).map(r => r.id))
+        update({ currency, items: draft.items.filter(item => inCurrency.has(item.revenueId)) })
+    }
+
+    const handleSave = async () => {
+        if (!canSave) return
+        setIsSaving(true)
+        await onSave({
+            ...draft,
+            number: draft.number.trim(),
+            notes: draft.notes?.trim() || undefined,
+            paidAt: draft.status === 'paid' ? draft.paidAt ?? new Date().toISOString() : undefined
+        })
+        setIsSaving(false)
+    }
+
+    const mutedText = isDark ? "text-[#A0A0A0]" : "text-[#636E72]"
+    const labelClass = clsx("text-sm font-medium", isDark ? "text-[#A0A0A0]" : "text-gray-600")
+    const inputClass = clsx(
+        "w-full mt-1 p-2 rounded-lg border outline-none text-sm",
+        isDark ? "bg-[#2A2A2A] border-[#3A3A3A] text-[#F5F5F5] placeholder-gray-500" : "bg-gray-50 border-gray-200 text-[#2D3436]"
+    )
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+            <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+
+            <div className={clsx(
+                "relative w-full max-w-2xl max-h-[90vh] overflow-y-auto rounded-2xl shadow-xl p-6 space-y-4",
+                isDark ? "bg-[#1A1A1A]" : "bg-white"
+            )}>
+                <div className="flex items-start justify-between">
+                    <h2 className={clsx("text-lg font-semibold", isDark ? "text-[#F5F5F5]" : "text-[#2D3436]")}>
+                        {invoice ? `Edit ${invoice.number}` : 'New invoice'}
+                    </h2>
+                    <button
+                        onClick={onClose}
+                        className={clsx("p-2 rounded-lg transition-colors", isDark ? "hover:bg-[#2A2A2A]" : "hover:bg-gray-100")}
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <div>
+                        <label className={labelClass}>Number *</label>
+                        <input
+                            type="text"
+                            value={draft.number}
+                            onChange={(e) => update({ number: e.target.value })}
+                            className={inputClass}
+                        />
+                        {numberTaken && <p className="text-xs text-red-500 mt-1">Another invoice already has this number.</p>}
+                    </div>
+                    <div>
+                        <label className={labelClass}>Client</label>
+                        <select
+                            value={draft.clientId ?? ''}
+                            onChange={(e) => update({ clientId: e.target.value || null })}
+                            className={inputClass}
+                        >
+                            <option value="">— No client —</option>
+                            {clients.map(client => <option key={client.id} value={client.id}>{client.name}</option>)}
+                        </select>
+                    </div>
+                    <div>
+                        <label className={labelClass}>Issue date</label>
+                        <input
+                            type="date"
+                            value={draft.issueDate}
+                            onChange={(e) => update({ issueDate: e.target.value })}
+                            className={inputClass}
+                        />
+                    </div>
+                    <div>
+                        <label className={labelClass}>Due date</label>
+                        <input
+                            type="date"
+                            value={draft.dueDate}
+                            min={draft.issueDate}
+                            onChange={(e) => update({ dueDate: e.target.value })}
+                            className={inputClass}
+                        />
+                    </div>
+                    <div>
+                        <label className={labelClass}>Status</label>
+                        <select
+                            value={draft.status}
+                            onChange={(e) => update({ status: e.target.value as Invoice['status'] })}
+                            className={inputClass}
+                        >
+                            <option value="draft">Draft</option>
+                            <option value="sent">Sent</option>
+                            <option value="paid">Paid</option>
+                        </select>
+                    </div>
+                    <div>
+                        <label className={labelClass}>Currency</label>
+                        <CurrencySelect value={draft.currency} onChange={changeCurrency} className={inputClass} />
+                    </div>
+                </div>
+
+                <div>
+                    <p className={labelClass}>Line items *</p>
+                    {available.length === 0 ? (
+                        <p className={clsx("text-sm mt-1", mutedText)}>
+                            No unbilled revenue entries in {draft.currency}.
+                        </p>
+                    ) : (
+                        <ul className={clsx(
+                            "mt-1 max-h-56 overflow-y-auto divide-y rounded-xl border text-sm",
+                            isDark ? "divide-[#2A2A2A] border-[#2A2A2A]" : "divide-gray-100 border-gray-200"
+                        )}>
+                            {available.map(revenue => (
+                                <li key={revenue.id}>
+                                    <label className="flex items-center gap-3 px-3 py-2 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={selected.has(revenue.id)}
+                                            onChange={() => toggleRevenue(revenue.id)}
+                                            className="accent-[#FF9F1C]"
+                                        />
+                                        <span className={clsx("flex-1 min-w-0 truncate", isDark ? "text-[#F5F5F5]" : "text-[#2D3436]")}>
+                                            {revenue.name}
+                                            <span className={clsx("ml-2 text-xs", mutedText)}>
+                                                {revenue.projectName} · {format(parseISO(revenue.dateCompleted), 'MMM d, yyyy')}
+                                            </span>
+                                        </span>
+                                        <span className={isDark ? "text-[#F5F5F5]" : "text-[#2D3436]"}>
+                                            {formatMoney(revenue.price, revenue.currency)}
+                                        </span>
+                                    </label>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                    <div>
+                        <label className={labelClass}>Discount ({draft.currency})</label>
+                        <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            value={draft.discount || ''}
+                            onChange={(e) => update({ discount: Math.max(0, Number(e.target.value) || 0) })}
+                            placeholder="0"
+                            className={inputClass}
+                        />
+                    </div>
+                    <div>
+                        <label className={labelClass}>Tax rate (%)</label>
+                        <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            value={draft.taxRate || ''}
+                            onChange={(e) => update({ taxRate: Math.max(0, Number(e.target.value) || 0) })}
+                            placeholder="0"
+                            className={inputClass}
+                        />
+                    </div>
+                </div>
+
+                <div>
+                    <label className={labelClass}>Notes</label>
+                    <textarea
+                        value={draft.notes ?? ''}
+                        onChange={(e) => update({ notes: e.target.value })}
+                        placeholder="Payment instructions, thank-you note..."
+                        rows={2}
+                        className={clsx(inputClass, "resize-none")}
+                    />
+                </div>
+
+                <dl className={clsx("text-sm space-y-1 ml-auto w-full sm:w-64", mutedText)}>
+                    <div className="flex justify-between"><dt>Subtotal</dt><dd>{formatMoney(totals.subtotal, draft.currency)}</dd></div>
+                    {totals.discount > 0 && (
+                        <div className="flex justify-between"><dt>Discount</dt><dd>−{formatMoney(totals.discount, draft.currency)}</dd></div>
+                    )}
+                    {totals.tax > 0 && (
+                        <div className="flex justify-between"><dt>Tax ({draft.taxRate}%)</dt><dd>{formatMoney(totals.tax, draft.currency)}</dd></div>
+                    )}
+                    <div className={clsx("flex justify-between font-semibold text-base", isDark ? "text-[#F5F5F5]" : "text-[#2D3436]")}>
+                        <dt>Total</dt><dd>{formatMoney(totals.total, draft.currency)}</dd>
+                    </div>
+                </dl>
+
+                <div className="flex justify-end gap-2">
+                    <button
+                        onClick={onClose}
+                        className={clsx("px-4 py-2 rounded-lg text-sm", isDark ? "text-[#A0A0A0] hover:bg-[#2A2A2A]" : "text-gray-500 hover:bg-gray-100")}
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={!canSave || isSaving}
+                        className="px-4 py-2 bg-[#FF9F1C] text-white rounded-lg text-sm font-medium hover:bg-[#E08A15] disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                        {isSaving ? 'Saving…' : 'Save invoice'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,245 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import clsx from 'clsx'
+import { format, parseISO } from 'date-fns'
+import { ArrowLeft, Plus, Pencil, Trash2, Printer, Send, CheckCircle2 } from 'lucide-react'
+import { Invoice, InvoiceStatus } from '@/lib/types'
+import { createInvoice, updateInvoice, deleteInvoice } from '@/lib/supabaseService'
+import { INVOICE_STATUSES, invoiceStatus, invoiceTotals } from '@/lib/invoices'
+import { formatMoney } from '@/lib/currency'
+import { useTheme } from '@/components/ThemeProvider'
+import { useData } from '@/lib/DataContext'
+import { useHistory } from '@/lib/HistoryContext'
+import PendingSyncBadge from '@/components/PendingSyncBadge'
+import { InvoiceEditor } from './InvoiceEditor'
+import { ClientsPanel } from './ClientsPanel'
+
+type Tab = 'invoices' | 'clients'
+
+const STATUS_STYLES: Record<InvoiceStatus, { light: string, dark: string }> = {
+    draft: { light: 'bg-gray-100 text-gray-600', dark: 'bg-[#2A2A2A] text-[#A0A0A0]' },
+    sent: { light: 'bg-blue-50 text-blue-600', dark: 'bg-blue-900/30 text-blue-400' },
+    overdue: { light: 'bg-red-100 text-red-700', dark: 'bg-red-900/30 text-red-400' },
+    paid: { light: 'bg-green-50 text-green-600', dark: 'bg-green-900/30 text-green-400' },
+}
+
+export function InvoicesBoard() {
+    const { theme } = useTheme()
+    const isDark = theme === 'dark'
+    const { invoices, setInvoices, clients, revenues } = useData()
+    const { record } = useHistory()
+    const [tab, setTab] = useState<Tab>('invoices')
+    const [statusFilter, setStatusFilter] = useState<InvoiceStatus | null>(null)
+    const [editing, setEditing] = useState<Invoice | 'new' | null>(null)
+
+    const clientName = (clientId: string | null) => clients.find(c => c.id === clientId)?.name
+
+    const replaceInvoice = (invoice: Invoice) =>
+        setInvoices(prev => [invoice, ...prev.filter(i => i.id !== invoice.id)].sort((a, b) => b.issueDate.localeCompare(a.issueDate)))
+
+    const saveInvoice = async (invoice: Invoice) => {
+        const previous = invoices.find(i => i.id === invoice.id)
+        if (previous) {
+            if (!await updateInvoice(invoice)) return
+            replaceInvoice(invoice)
+            record({
+                label: `Edited ${invoice.number}`,
+                undo: () => updateInvoice(previous),
+                redo: () => updateInvoice(invoice)
+            })
+        } else {
+            if (!await createInvoice(invoice)) return
+            replaceInvoice(invoice)
+            record({
+                label: `Created ${invoice.number}`,
+                undo: () => deleteInvoice(invoice.id),
+                redo: async () => !!(await createInvoice(invoice))
+            })
+        }
+        setEditing(null)
+    }
+
+    const setStatus = async (invoice: Invoice, status: Invoice['status']) => {
+        const next: Invoice = { ...invoice, status, paidAt: status === 'paid' ? new Date().toISOString() : undefined }
+        if (!await updateInvoice(next)) return
+        replaceInvoice(next)
+        record({
+            label: `Marked ${invoice.number} as ${status}`,
+            undo: () => updateInvoice(invoice),
+            redo: () => updateInvoice(next)
+        })
+    }
+
+    const removeInvoice = async (invoice: Invoice) => {
+        if (!await deleteInvoice(invoice.id)) return
+        setInvoices(prev => prev.filter(i => i.id !== invoice.id))
+        record({
+            label: `Deleted ${invoice.number}`,
+            undo: async () => !!(await createInvoice(invoice)),
+            redo: () => deleteInvoice(invoice.id)
+        })
+    }
+
+    const statusCounts = invoices.reduce((counts, invoice) => {
+        const status = invoiceStatus(invoice)
+        counts[status] = (counts[status] ?? 0) + 1
+        return counts
+    }, {} as Partial<Record<InvoiceStatus, number>>)
+    const visible = statusFilter ? invoices.filter(i => invoiceStatus(i) === statusFilter) : invoices
+
+    const mutedText = isDark ? "text-[#A0A0A0]" : "text-[#636E72]"
+    const iconButton = (hover: string) => clsx(
+        "p-1.5 rounded transition-colors",
+        isDark ? `text-[#A0A0A0] ${hover}` : `text-gray-400 ${hover}`
+    )
+
+    return (
+        <div className="space-y-6">
+            <header className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+                <div>
+                    <Link href="/revenue" className={clsx("inline-flex items-center gap-1 text-sm hover:text-[#FF9F1C]", mutedText)}>
+                        <ArrowLeft className="w-4 h-4" />
+                        Revenue
+                    </Link>
+                    <h1 className={clsx("text-3xl font-bold mt-1", isDark ? "text-[#F5F5F5]" : "text-[#2D3436]")}>Invoices</h1>
+                    <p className={clsx("mt-2", mutedText)}>Bill clients for completed projects.</p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <div className={clsx("flex rounded-lg p-1", isDark ? "bg-[#2A2A2A]" : "bg-gray-100")}>
+                        {(['invoices', 'clients'] as const).map(option => (
+                            <button
+                                key={option}
+                                onClick={() => setTab(option)}
+                                className={clsx(
+                                    "px-3 py-1 rounded-md text-sm font-medium capitalize transition-colors",
+                                    tab === option
+                                        ? isDark ? "bg-[#1A1A1A] text-[#FF9F1C]" : "bg-white text-[#FF9F1C] shadow-sm"
+                                        : mutedText
+                                )}
+                            >
+                                {option}
+                            </button>
+                        ))}
+                    </div>
+                    {tab === 'invoices' && (
+                        <button
+                            onClick={() => setEditing('new')}
+                            className="flex items-center gap-2 bg-gradient-to-r from-[#FF9F1C] to-[#F68E09] text-white px-4 py-2 rounded-xl hover:opacity-90 transition-opacity shadow-md"
+                        >
+                            <Plus className="w-5 h-5" />
+                            New invoice
+                        </button>
+                    )}
+                </div>
+            </header>
+
+            {tab === 'clients' ? (
+                <ClientsPanel isDark={isDark} />
+            ) : (
+                <>
+                    <div className="flex flex-wrap gap-2">
+                        {[{ status: null, label: 'All' }, ...INVOICE_STATUSES].map(({ status, label }) => (
+                            <button
+                                key={label}
+                                onClick={() => setStatusFilter(status)}
+                                className={clsx(
+                                    "px-3 py-1.5 rounded-full text-sm font-medium transition-colors",
+                                    statusFilter === status
+                                        ? "bg-[#FF9F1C] text-white"
+                                        : isDark ? "text-[#A0A0A0] hover:bg-[#2A2A2A]" : "text-gray-500 hover:bg-gray-100"
+                                )}
+                            >
+                                {label} {status ? statusCounts[status] ?? 0 : invoices.length}
+                            </button>
+                        ))}
+                    </div>
+
+                    {visible.length === 0 ? (
+                        <p className={clsx("text-sm text-center py-12", mutedText)}>
+                            {invoices.length === 0 ? 'No invoices yet. Create one from your completed revenue entries.' : 'No invoices with this status.'}
+                        </p>
+                    ) : (
+                        <div className={clsx("overflow-x-auto rounded-2xl border", isDark ? "border-[#2A2A2A] bg-[#1A1A1A]" : "border-gray-200 bg-white")}>
+                            <table className="w-full text-sm">
+                                <thead className={isDark ? "text-[#A0A0A0]" : "text-gray-500"}>
+                                    <tr>
+                                        <th className="px-4 py-3 text-left font-medium">Number</th>
+                                        <th className="px-4 py-3 text-left font-medium">Client</th>
+                                        <th className="px-4 py-3 text-left font-medium">Issued</th>
+                                        <th className="px-4 py-3 text-left font-medium">Due</th>
+                                        <th className="px-4 py-3 text-right font-medium">Total</th>
+                                        <th className="px-4 py-3 text-left font-medium">Status</th>
+                                        <th className="px-4 py-3" />
+                                    </tr>
+                                </thead>
+                                <tbody className={isDark ? "text-[#F5F5F5]" : "text-[#2D3436]"}>
+                                    {visible.map(invoice => {
+                                        const status = invoiceStatus(invoice)
+                                        return (
+                                            <tr key={invoice.id} className={clsx("border-t", isDark ? "border-[#2A2A2A]" : "border-gray-100")}>
+                                                <td className="px-4 py-3 font-medium whitespace-nowrap">
+                                                    <span className="flex items-center gap-2">
+                                                        {invoice.number}
+                                                        <PendingSyncBadge type="invoice" id={invoice.id} />
+                                                    </span>
+                                                </td>
+                                                <td className="px-4 py-3">{clientName(invoice.clientId) ?? <span className={mutedText}>—</span>}</td>
+                                                <td className="px-4 py-3 whitespace-nowrap">{format(parseISO(invoice.issueDate), 'MMM d, yyyy')}</td>
+                                                <td className="px-4 py-3 whitespace-nowrap">{format(parseISO(invoice.dueDate), 'MMM d, yyyy')}</td>
+                                                <td className="px-4 py-3 text-right whitespace-nowrap">
+                                                    {formatMoney(invoiceTotals(invoice, revenues).total, invoice.currency)}
+                                                </td>
+                                                <td className="px-4 py-3">
+                                                    <span className={clsx(
+                                                        "px-2 py-0.5 rounded-full text-xs font-semibold capitalize",
+                                                        isDark ? STATUS_STYLES[status].dark : STATUS_STYLES[status].light
+                                                    )}>
+                                                        {status}
+                                                    </span>
+                                                </td>
+                                                <td className="px-4 py-3">
+                                                    <div className="flex items-center justify-end gap-1">
+                                                        {invoice.status === 'draft' && (
+                                                            <button onClick={() => setStatus(invoice, 'sent')} className={iconButton('hover:text-blue-500')} title="Mark as sent">
+                                                                <Send className="w-4 h-4" />
+                                                            </button>
+                                                        )}
+                                                        {invoice.status === 'sent' && (
+                                                            <button onClick={() => setStatus(invoice, 'paid')} className={iconButton('hover:text-green-500')} title="Mark as paid">
+                                                                <CheckCircle2 className="w-4 h-4" />
+                                                            </button>
+                                                        )}
+                                                        <Link href={`/revenue/invoices/${invoice.id}`} className={iconButton('hover:text-[#FF9F1C]')} title="Print / save as PDF">
+                                                            <Printer className="w-4 h-4" />
+                                                        </Link>
+                                                        <button onClick={() => setEditing(invoice)} className={iconButton('hover:text-[#FF9F1C]')} title="Edit invoice">
+                                                            <Pencil className="w-4 h-4" />
+                                                        </button>
+                                                        <button onClick={() => removeInvoice(invoice)} className={iconButton('hover:text-red-500')} title="Delete invoice">
+                                                            <Trash2 className="w-4 h-4" />
+                                                        </button>
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                        )
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </>
+            )}
+
+            {editing && (
+                <InvoiceEditor
+                    invoice={editing === 'new' ? null : editing}
+                    isDark={isDark}
+                    onClose={() => setEditing(null)}
+                    onSave={saveInvoice}
+                />
+            )}
+        </div>
+    )
+}
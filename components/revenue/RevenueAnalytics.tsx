@@ -0,0 +1,301 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import Link from 'next/link'
+import clsx from 'clsx'
+import { format, parseISO, startOfYear, endOfYear, subMonths, subYears, startOfMonth } from 'date-fns'
+import { ArrowLeft, AlertTriangle, TrendingUp, TrendingDown } from 'lucide-react'
+import { useTheme } from '@/components/ThemeProvider'
+import { useData } from '@/lib/DataContext'
+import { formatMoney } from '@/lib/currency'
+import { Granularity, PeriodTotal, analyzeRevenue } from '@/lib/revenueAnalytics'
+
+interface DateRange {
+    from: string
+    to: string
+}
+
+const PRESETS: { label: string, range: (today: Date, earliest: string) => DateRange }[] = [
+    {
+        label: 'This year',
+        range: today => ({ from: format(startOfYear(today), 'yyyy-MM-dd'), to: format(endOfYear(today), 'yyyy-MM-dd') })
+    },
+    {
+        label: 'Last 12 months',
+        range: today => ({ from: format(startOfMonth(subMonths(today, 11)), 'yyyy-MM-dd'), to: format(today, 'yyyy-MM-dd') })
+    },
+    {
+        label: 'Last year',
+        range: today => {
+            const lastYear = subYears(today, 1)
+            return { from: format(startOfYear(lastYear), 'yyyy-MM-dd'), to: format(endOfYear(lastYear), 'yyyy-MM-dd') }
+        }
+    },
+    {
+        label: 'All time',
+        range: (today, earliest) => ({ from: earliest, to: format(today, 'yyyy-MM-dd') })
+    },
+]
+
+// Revenue over a date range: period charts with last year alongside, project breakdown and highlights
+export function RevenueAnalytics() {
+    const { theme } = useTheme()
+    const isDark = theme === 'dark'
+    const { revenues, exchangeRates, reportingCurrency } = useData()
+    const [range, setRange] = useState<DateRange>(() => PRESETS[0].range(new Date(), ''))
+    const [granularity, setGranularity] = useState<Granularity>('month')
+
+    const earliest = revenues.reduce(
+        (min, r) => r.dateCompleted < min ? r.dateCompleted : min,
+        format(startOfYear(new Date()), 'yyyy-MM-dd')
+    )
+
+    const analytics = useMemo(
+        () => range.from && range.to && range.from <= range.to
+            ? analyzeRevenue(revenues, { ...range, currency: reportingCurrency, rates: exchangeRates })
+            : null,
+        [revenues, range, reportingCurrency, exchangeRates]
+    )
+
+    const mutedText = isDark ? "text-[#A0A0A0]" : "text-[#636E72]"
+    const strongText = isDark ? "text-[#F5F5F5]" : "text-[#2D3436]"
+    const cardClass = clsx("p-6 rounded-2xl border", isDark ? "bg-[#1A1A1A] border-[#2A2A2A]" : "bg-white border-gray-200")
+    const inputClass = clsx(
+        "px-3 py-2 rounded-lg border outline-none text-sm",
+        isDark ? "bg-[#2A2A2A] border-[#3A3A3A] text-[#F5F5F5]" : "bg-gray-50 border-gray-200 text-[#2D3436]"
+    )
+    const money = (amount: number) => formatMoney(amount, reportingCurrency)
+
+    const periods = analytics ? (granularity === 'month' ? analytics.months : analytics.quarters) : []
+    const chartMax = Math.max(1, ...periods.map(p => Math.max(p.total, p.previousYearTotal)))
+    const change = analytics?.yearOverYearChange ?? null
+
+    return (
+        <div className="space-y-6">
+            <header className="flex flex-col lg:flex-row lg:items-end justify-between gap-4">
+                <div>
+                    <Link href="/revenue" className={clsx("inline-flex items-center gap-1 text-sm hover:text-[#FF9F1C]", mutedText)}>
+                        <ArrowLeft className="w-4 h-4" />
+                        Revenue
+                    </Link>
+                    <h1 className={clsx("text-3xl font-bold mt-1", strongText)}>Analytics</h1>
+                    <p className={clsx("mt-2", mutedText)}>
+                        How your income is trending, in {reportingCurrency}.
+                    </p>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2">
+                    {PRESETS.map(preset => {
+                        const presetRange = preset.range(new Date(), earliest)
+                        const isActive = presetRange.from === range.from && presetRange.to === range.to
+                        return (
+                            <button
+                                key={preset.label}
+                                onClick={() => setRange(presetRange)}
+                                className={clsx(
+                                    "px-3 py-2 rounded-lg text-sm font-medium transition-colors",
+                                    isActive
+                                        ? "bg-[#FF9F1C] text-white"
+                                        : isDark ? "text-[#A0A0A0] hover:bg-[#2A2A2A]" : "text-gray-500 hover:bg-gray-100"
+                                )}
+                            >
+                                {preset.label}
+                            </button>
+                        )
+                    })}
+                    <input
+                        type="date"
+                        value={range.from}
+                        max={range.to}
+                        onChange={(e) => setRange({ ...range, from: e.target.value })}
+                        className={inputClass}
+                        title="From"
+                    />
+                    <span className={mutedText}>–</span>
+                    <input
+                        type="date"
+                        value={range.to}
+                        min={range.from}
+                        onChange={(e) => setRange({ ...range, to: e.target.value })}
+                        className={inputClass}
+                        title="To"
+                    />
+                </div>
+            </header>
+
+            {!analytics ? (
+                <p className={clsx("text-sm", mutedText)}>Choose a start date on or before the end date.</p>
+            ) : (
+                <>
+                    {analytics.missingCurrencies.length > 0 && (
+                        <p className="flex items-center gap-2 text-sm text-amber-500">
+                            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                            <span>
+                                Entries in {analytics.missingCurrencies.join(', ')} are left out: there is no exchange rate to {reportingCurrency}.{' '}
+                                <Link href="/settings" className="underline">Add rates in Settings</Link>
+                            </span>
+                        </p>
+                    )}
+
+                    {/* Summary Cards */}
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                        <div className={cardClass}>
+                            <p className={clsx("text-sm mb-1", mutedText)}>Total</p>
+                            <p className="text-3xl font-bold text-[#FF9F1C]">{money(analytics.total)}</p>
+                        </div>
+                        <div className={cardClass}>
+                            <p className={clsx("text-sm mb-1", mutedText)}>Projects</p>
+                            <p className="text-3xl font-bold text-blue-500">{analytics.count}</p>
+                        </div>
+                        <div className={cardClass}>
+                            <p className={clsx("text-sm mb-1", mutedText)}>Average project value</p>
+                            <p className="text-3xl font-bold text-green-500">{money(analytics.averageProjectValue)}</p>
+                        </div>
+                        <div className={cardClass}>
+                            <p className={clsx("text-sm mb-1", mutedText)}>vs. same period last year</p>
+                            {change === null ? (
+                                <p className={clsx("text-3xl font-bold", mutedText)}>—</p>
+                            ) : (
+                                <p className={clsx("flex items-center gap-2 text-3xl font-bold", change >= 0 ? "text-green-500" : "text-red-500")}>
+                                    {change >= 0 ? <TrendingUp className="w-6 h-6" /> : <TrendingDown className="w-6 h-6" />}
+                                    {change >= 0 ? '+' : ''}{Math.round(change * 100)}%
+                                </p>
+                            )}
+                            <p className={clsx("text-xs mt-1", mutedText)}>Last year: {money(analytics.previousYearTotal)}</p>
+                        </div>
+                    </div>
+
+                    {/* Period Chart */}
+                    <section className={cardClass}>
+                        <div className="flex items-center justify-between gap-4 mb-4">
+                            <div>
+                                <h2 className={clsx("text-lg font-semibold", strongText)}>
+                                    {granularity === 'month' ? 'Monthly' : 'Quarterly'} revenue
+                                </h2>
+                                <div className={clsx("flex items-center gap-4 text-xs mt-1", mutedText)}>
+                                    <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-sm bg-[#FF9F1C]" />This period</span>
+                                    <span className="flex items-center gap-1.5">
+                                        <span className={clsx("w-3 h-3 rounded-sm", isDark ? "bg-[#3A3A3A]" : "bg-[#EFEEEE]")} />Year before
+                                    </span>
+                                </div>
+                            </div>
+                            <div className={clsx("flex rounded-lg p-1", isDark ? "bg-[#2A2A2A]" : "bg-gray-100")}>
+                                {(['month', 'quarter'] as const).map(option => (
+                                    <button
+                                        key={option}
+                                        onClick={() => setGranularity(option)}
+                                        className={clsx(
+                                            "px-3 py-1 rounded-md text-sm font-medium transition-colors",
+                                            granularity === option
+                                                ? isDark ? "bg-[#1A1A1A] text-[#FF9F1C]" : "bg-white text-[#FF9F1C] shadow-sm"
+                                                : mutedText
+                                        )}
+                                    >
+                                        {option === 'month' ? 'Months' : 'Quarters'}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div className="overflow-x-auto">
+                            <div className="flex items-end gap-2 h-56 min-w-fit">
+                                {periods.map(period => (
+                                    <PeriodBar key={period.key} period={period} max={chartMax} isDark={isDark} money={money} />
+                                ))}
+                            </div>
+                        </div>
+                    </section>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                        {/* Project Breakdown */}
+                        <section className={clsx(cardClass, "lg:col-span-2")}>
+                            <h2 className={clsx("text-lg font-semibold mb-4", strongText)}>By project</h2>
+                            {analytics.projects.length === 0 ? (
+                                <p className={clsx("text-sm", mutedText)}>No revenue in this range.</p>
+                            ) : (
+                                <ul className="space-y-3">
+                                    {analytics.projects.map(project => (
+                                        <li key={project.projectName} className="text-sm">
+                                            <div className="flex items-baseline justify-between gap-4 mb-1">
+                                                <span className={clsx("truncate", strongText)}>
+                                                    {project.projectName}
+                                                    <span className={clsx("ml-2 text-xs", mutedText)}>
+                                                        {project.count} project{project.count === 1 ? '' : 's'}
+                                                    </span>
+                                                </span>
+                                                <span className={clsx("whitespace-nowrap", strongText)}>
+                                                    {money(project.total)}
+                                                    <span className={clsx("ml-2 text-xs", mutedText)}>{Math.round(project.share * 100)}%</span>
+                                                </span>
+                                            </div>
+                                            <div className={clsx("h-2 rounded-full overflow-hidden", isDark ? "bg-[#2A2A2A]" : "bg-[#EFEEEE]")}>
+                                                <div className="h-full rounded-full bg-[#FF9F1C]" style={{ width: `${project.share * 100}%` }} />
+                                            </div>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </section>
+
+                        {/* Best / Worst Months */}
+                        <section className={clsx(cardClass, "space-y-4")}>
+                            <h2 className={clsx("text-lg font-semibold", strongText)}>Highlights</h2>
+                            <div>
+                                <p className={clsx("text-sm", mutedText)}>Best month</p>
+                                {analytics.bestMonth ? (
+                                    <p className={clsx("font-semibold", strongText)}>
+                                        {format(parseISO(analytics.bestMonth.start), 'MMMM yyyy')}
+                                        <span className="ml-2 text-green-500">{money(analytics.bestMonth.total)}</span>
+                                    </p>
+                                ) : (
+                                    <p className={mutedText}>—</p>
+                                )}
+                            </div>
+                            <div>
+                                <p className={clsx("text-sm", mutedText)}>Worst month</p>
+                                {analytics.worstMonth ? (
+                                    <p className={clsx("font-semibold", strongText)}>
+                                        {format(parseISO(analytics.worstMonth.start), 'MMMM yyyy')}
+                                        <span className="ml-2 text-red-500">{money(analytics.worstMonth.total)}</span>
+                                    </p>
+                                ) : (
+                                    <p className={mutedText}>—</p>
+                                )}
+                            </div>
+                        </section>
+                    </div>
+                </>
+            )}
+        </div>
+    )
+}
+
+interface PeriodBarProps {
+    period: PeriodTotal
+    max: number
+    isDark: boolean
+    money: (amount: number) => string
+}
+
+function PeriodBar({ period, max, isDark, money }: PeriodBarProps) {
+    return (
+        <div
+            className="flex flex-col items-center gap-1 h-full min-w-10 flex-1"
+            title={`${period.label}: ${money(period.total)} (${period.count} project${period.count === 1 ? '' : 's'}) · year before ${money(period.previousYearTotal)}`}
+        >
+            <div className="flex items-end gap-0.5 flex-1 w-full">
+                <div
+                    className={clsx("flex-1 rounded-t", isDark ? "bg-[#3A3A3A]" : "bg-[#EFEEEE]")}
+                    style={{ height: `${(period.previousYearTotal / max) * 100}%` }}
+                />
+                <div
+                    className="flex-1 rounded-t bg-[#FF9F1C] hover:bg-[#E08A15] transition-colors"
+                    style={{ height: `${(period.total / max) * 100}%` }}
+                />
+            </div>
+            <span className={clsx("text-xs whitespace-nowrap", isDark ? "text-[#A0A0A0]" : "text-[#636E72]")}>
+                {period.label}
+            </span>
+        </div>
+    )
+}
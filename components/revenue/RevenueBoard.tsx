@@ -1,12 +1,20 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { Revenue } from '@/lib/types'
-import { fetchRevenues, createRevenue, updateRevenue as updateRevenueDB, deleteRevenue as deleteRevenueDB } from '@/lib/supabaseService'
+import { Attachment, Revenue } from '@/lib/types'
+import { fetchRevenues, createRevenue, updateRevenue as updateRevenueDB, deleteRevenue as deleteRevenueDB, restoreRevenue } from '@/lib/supabaseService'
 import { generateUUID } from '@/lib/uuid'
-import { Plus, X, Calendar, Briefcase, DollarSign, FileText, Trash2 } from 'lucide-react'
+import { Plus, X, Calendar, Briefcase, DollarSign, FileText, Trash2, Upload, Download, AlertTriangle, BarChart3, Receipt, Wallet, SquareKanban, Paperclip } from 'lucide-react'
 import { useTheme } from '@/components/ThemeProvider'
 import { useData } from '@/lib/DataContext'
+import { useHistory } from '@/lib/HistoryContext'
+import PendingSyncBadge from '@/components/PendingSyncBadge'
+import CurrencySelect from '@/components/CurrencySelect'
+import AttachmentsSection from '@/components/AttachmentsSection'
+import { convertAmount, formatMoney, sumConverted } from '@/lib/currency'
+import Link from 'next/link'
+import { RevenueCsvImport } from './RevenueCsvImport'
+import { RevenueCsvExport } from './RevenueCsvExport'
 import clsx from 'clsx'
 import { format, startOfMonth, endOfMonth, startOfYear, endOfYear, isWithinInterval, parseISO } from 'date-fns'
 
@@ -19,17 +27,20 @@ function getTodayDate() {
 export function RevenueBoard() {
     const { theme } = useTheme()
     const isDark = theme === 'dark'
-    const { revenues, setRevenues, isLoading } = useData()
+    const { revenues, setRevenues, isLoading, exchangeRates, reportingCurrency } = useData()
+    const { record } = useHistory()
     const [selectedRevenue, setSelectedRevenue] = useState<Revenue | null>(null)
     const [isModalOpen, setIsModalOpen] = useState(false)
     const [isAddingRevenue, setIsAddingRevenue] = useState(false)
     const [isSubmitting, setIsSubmitting] = useState(false)
+    const [csvDialog, setCsvDialog] = useState<'import' | 'export' | null>(null)
 
     // New revenue form state
     const [newName, setNewName] = useState('')
     const [newDescription, setNewDescription] = useState('')
     const [newProjectName, setNewProjectName] = useState('')
     const [newPrice, setNewPrice] = useState<number | ''>('')
+    const [newCurrency, setNewCurrency] = useState(reportingCurrency)
     const [newDateCompleted, setNewDateCompleted] = useState(getTodayDate())
 
     const addRevenue = async () => {
@@ -42,7 +53,7 @@ export function RevenueBoard() {
             description: newDescription.trim() || undefined,
             projectName: newProjectName.trim(),
             price: Number(newPrice),
-            currency: '₱',
+            currency: newCurrency,
             dateCompleted: newDateCompleted,
             createdAt: new Date().toISOString(),
         }
@@ -61,6 +72,7 @@ export function RevenueBoard() {
         setNewDescription('')
         setNewProjectName('')
         setNewPrice('')
+        setNewCurrency(reportingCurrency)
         setNewDateCompleted(getTodayDate())
     }
 
@@ -71,10 +83,35 @@ export function RevenueBoard() {
     }
 
     const deleteRevenue = async (revenueId: string) => {
-        await deleteRevenueDB(revenueId)
+        const revenue = revenues.find(r => r.id === revenueId)
+        const deleted = await deleteRevenueDB(revenueId)
         setRevenues(prev => prev.filter(r => r.id !== revenueId))
         setIsModalOpen(false)
         setSelectedRevenue(null)
+
+        if (deleted && revenue) {
+            record({
+                label: `Deleted "${revenue.name}"`,
+                undo: () => restoreRevenue(revenueId),
+                redo: () => deleteRevenueDB(revenueId)
+            })
+        }
+    }
+
+    const importRevenues = async (imported: Revenue[]) => {
+        const created: Revenue[] = []
+        for (const revenue of imported) {
+            if (await createRevenue(revenue)) created.push(revenue)
+        }
+        setCsvDialog(null)
+        if (created.length === 0) return
+
+        setRevenues(prev => [...prev, ...created])
+        record({
+            label: `Imported ${created.length} revenue entr${created.length === 1 ? 'y' : 'ies'}`,
+            undo: async () => (await Promise.all(created.map(r => deleteRevenueDB(r.id)))).every(Boolean),
+            redo: async () => (await Promise.all(created.map(r => restoreRevenue(r.id)))).every(Boolean)
+        })
     }
 
     const openRevenue = (revenue: Revenue) => {
@@ -89,37 +126,93 @@ export function RevenueBoard() {
     const thisYearStart = startOfYear(now)
     const thisYearEnd = endOfYear(now)
 
-    const thisMonthRevenue = revenues
-        .filter(r => {
-            const date = parseISO(r.dateCompleted)
-            return isWithinInterval(date, { start: thisMonthStart, end: thisMonthEnd })
-        })
-        .reduce((sum, r) => sum + r.price, 0)
+    // Each entry is converted with the rate of the day it was completed
+    const totalFor = (entries: Revenue[]) => sumConverted(
+        entries.map(r => ({ amount: r.price, currency: r.currency, date: r.dateCompleted })),
+        reportingCurrency,
+        exchangeRates
+    )
 
-    const thisYearRevenue = revenues
-        .filter(r => {
-            const date = parseISO(r.dateCompleted)
-            return isWithinInterval(date, { start: thisYearStart, end: thisYearEnd })
-        })
-        .reduce((sum, r) => sum + r.price, 0)
+    const thisMonthRevenue = totalFor(revenues.filter(r => {
+        const date = parseISO(r.dateCompleted)
+        return isWithinInterval(date, { start: thisMonthStart, end: thisMonthEnd })
+    }))
+
+    const thisYearRevenue = totalFor(revenues.filter(r => {
+        const date = parseISO(r.dateCompleted)
+        return isWithinInterval(date, { start: thisYearStart, end: thisYearEnd })
+    }))
+
+    const missingRates = Array.from(new Set([...thisMonthRevenue.missing, ...thisYearRevenue.missing]))
 
     const totalProjects = revenues.length
 
     return (
         <div className="space-y-6">
-            <header>
-                <h1 className={clsx(
-                    "text-3xl font-bold",
-                    isDark ? "text-[#F5F5F5]" : "text-[#2D3436]"
-                )}>
-                    Revenue
-                </h1>
-                <p className={clsx(
-                    "mt-2",
-                    isDark ? "text-[#A0A0A0]" : "text-[#636E72]"
-                )}>
-                    Track your income from completed projects.
-                </p>
+            <header className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div>
+                    <h1 className={clsx(
+                        "text-3xl font-bold",
+                        isDark ? "text-[#F5F5F5]" : "text-[#2D3436]"
+                    )}>
+                        Revenue
+                    </h1>
+                    <p className={clsx(
+                        "mt-2",
+                        isDark ? "text-[#A0A0A0]" : "text-[#636E72]"
+                    )}>
+                        Track your income from completed projects.
+                    </p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <Link
+                        href="/revenue/invoices"
+                        className={clsx(
+                            "flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium border transition-colors",
+                            isDark ? "border-[#2A2A2A] text-[#F5F5F5] hover:bg-[#2A2A2A]" : "border-gray-200 text-[#2D3436] hover:bg-gray-50"
+                        )}
+                    >
+                        <Receipt className="w-4 h-4" />
+                        Invoices
+                    </Link>
+                    <Link
+                        href="/revenue/expenses"
+                        className={clsx(
+                            "flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium border transition-colors",
+                            isDark ? "border-[#2A2A2A] text-[#F5F5F5] hover:bg-[#2A2A2A]" : "border-gray-200 text-[#2D3436] hover:bg-gray-50"
+                        )}
+                    >
+                        <Wallet className="w-4 h-4" />
+                        Expenses
+                    </Link>
+                    <Link
+                        href="/revenue/analytics"
+                        className={clsx(
+                            "flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium border transition-colors",
+                            isDark ? "border-[#2A2A2A] text-[#F5F5F5] hover:bg-[#2A2A2A]" : "border-gray-200 text-[#2D3436] hover:bg-gray-50"
+                        )}
+                    >
+                        <BarChart3 className="w-4 h-4" />
+                        Analytics
+                    </Link>
+                    {([
+                        { dialog: 'import', label: 'Import CSV', Icon: Upload },
+                        { dialog: 'export', label: 'Export CSV', Icon: Download },
+                    ] as const).map(({ dialog, label, Icon }) => (
+                        <button
+                            key={dialog}
+                            onClick={() => setCsvDialog(dialog)}
+                            disabled={dialog === 'export' && revenues.length === 0}
+                            className={clsx(
+                                "flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium border transition-colors disabled:opacity-40 disabled:cursor-not-allowed",
+                                isDark ? "border-[#2A2A2A] text-[#F5F5F5] hover:bg-[#2A2A2A]" : "border-gray-200 text-[#2D3436] hover:bg-gray-50"
+                            )}
+                        >
+                            <Icon className="w-4 h-4" />
+                            {label}
+                        </button>
+                    ))}
+                </div>
             </header>
 
             {/* Summary Cards */}
@@ -133,7 +226,7 @@ export function RevenueBoard() {
                         isDark ? "text-[#A0A0A0]" : "text-gray-500"
                     )}>This Month</p>
                     <p className="text-3xl font-bold text-[#FF9F1C]">
-                        ₱{thisMonthRevenue.toLocaleString()}
+                        {formatMoney(thisMonthRevenue.total, reportingCurrency)}
                     </p>
                 </div>
                 <div className={clsx(
@@ -145,7 +238,7 @@ export function RevenueBoard() {
                         isDark ? "text-[#A0A0A0]" : "text-gray-500"
                     )}>This Year</p>
                     <p className="text-3xl font-bold text-green-500">
-                        ₱{thisYearRevenue.toLocaleString()}
+                        {formatMoney(thisYearRevenue.total, reportingCurrency)}
                     </p>
                 </div>
                 <div className={clsx(
@@ -162,6 +255,16 @@ export function RevenueBoard() {
                 </div>
             </div>
 
+            {missingRates.length > 0 && (
+                <p className="flex items-center gap-2 text-sm text-amber-500">
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                    <span>
+                        Entries in {missingRates.join(', ')} are left out of the totals: there is no exchange rate to {reportingCurrency}.{' '}
+                        <Link href="/settings" className="underline">Add rates in Settings</Link>
+                    </span>
+                </p>
+            )}
+
             {/* Add Revenue Section */}
             {isAddingRevenue ? (
                 <div className={clsx(
@@ -212,7 +315,16 @@ export function RevenueBoard() {
                                 isDark ? "text-[#A0A0A0]" : "text-gray-600"
                             )}>Price *</label>
                             <div className="flex items-center gap-1 mt-1">
-                                <span className={isDark ? "text-[#F5F5F5]" : "text-[#2D3436]"}>₱</span>
+                                <CurrencySelect
+                                    value={newCurrency}
+                                    onChange={setNewCurrency}
+                                    className={clsx(
+                                        "p-3 rounded-lg border outline-none",
+                                        isDark
+                                            ? "bg-[#2A2A2A] border-[#3A3A3A] text-[#F5F5F5]"
+                                            : "bg-gray-50 border-gray-200 text-[#2D3436]"
+                                    )}
+                                />
                                 <input
                                     type="number"
                                     value={newPrice}
@@ -286,7 +398,10 @@ export function RevenueBoard() {
                 </div>
             ) : (
                 <button
-                    onClick={() => setIsAddingRevenue(true)}
+                    onClick={() => {
+                        setNewCurrency(reportingCurrency)
+                        setIsAddingRevenue(true)
+                    }}
                     className={clsx(
                         "w-full p-4 rounded-2xl border-2 border-dashed flex items-center justify-center gap-2 transition-colors",
                         isDark
@@ -348,6 +463,7 @@ export function RevenueBoard() {
                                                 <Briefcase className="w-3 h-3" />
                                                 {revenue.projectName}
                                             </span>
+                                            <PendingSyncBadge type="revenue" id={revenue.id} showLabel />
                                             <span className={clsx(
                                                 "text-xs flex items-center gap-1",
                                                 isDark ? "text-[#A0A0A0]" : "text-gray-500"
@@ -355,17 +471,38 @@ export function RevenueBoard() {
                                                 <Calendar className="w-3 h-3" />
                                                 {format(new Date(revenue.dateCompleted), 'MMM d, yyyy')}
                                             </span>
+                                            {revenue.attachments && revenue.attachments.length > 0 && (
+                                                <span className={clsx(
+                                                    "text-xs flex items-center gap-1",
+                                                    isDark ? "text-[#A0A0A0]" : "text-gray-500"
+                                                )}>
+                                                    <Paperclip className="w-3 h-3" />
+                                                    {revenue.attachments.length}
+                                                </span>
+                                            )}
                                         </div>
                                     </div>
-                                    <span className="text-[#FF9F1C] font-bold text-lg">
-                                        {revenue.currency}{revenue.price.toLocaleString()}
-                                    </span>
+                                    <div className="text-right">
+                                        <span className="text-[#FF9F1C] font-bold text-lg">
+                                            {formatMoney(revenue.price, revenue.currency)}
+                                        </span>
+                                        {revenue.currency !== reportingCurrency && (
+                                            <ConvertedAmount revenue={revenue} isDark={isDark} />
+                                        )}
+                                    </div>
                                 </div>
                             ))}
                     </div>
                 )}
             </div>
 
+            {csvDialog === 'import' && (
+                <RevenueCsvImport isDark={isDark} onClose={() => setCsvDialog(null)} onImport={importRevenues} />
+            )}
+            {csvDialog === 'export' && (
+                <RevenueCsvExport revenues={revenues} isDark={isDark} onClose={() => setCsvDialog(null)} />
+            )}
+
             {/* Revenue Modal */}
             {isModalOpen && selectedRevenue && (
                 <RevenueModal
@@ -384,6 +521,18 @@ export function RevenueBoard() {
     )
 }
 
+// Amount in the reporting currency, shown under entries in another currency
+function ConvertedAmount({ revenue, isDark }: { revenue: Revenue, isDark: boolean }) {
+    const { exchangeRates, reportingCurrency } = useData()
+    const converted = convertAmount(revenue.price, revenue.currency, reportingCurrency, revenue.dateCompleted, exchangeRates)
+
+    return (
+        <p className={clsx("text-xs", isDark ? "text-[#A0A0A0]" : "text-gray-500")}>
+            {converted === null ? 'No exchange rate' : `≈ ${formatMoney(converted, reportingCurrency)}`}
+        </p>
+    )
+}
+
 // Revenue Modal Component
 interface RevenueModalProps {
     revenue: Revenue
@@ -394,11 +543,15 @@ interface RevenueModalProps {
 }
 
 function RevenueModal({ revenue, onClose, onUpdate, onDelete, isDark }: RevenueModalProps) {
+    const { cards } = useData()
+    const sourceCard = revenue.sourceCardId ? cards.find(c => c.id === revenue.sourceCardId) : undefined
     const [name, setName] = useState(revenue.name)
     const [description, setDescription] = useState(revenue.description || '')
     const [projectName, setProjectName] = useState(revenue.projectName)
     const [price, setPrice] = useState(revenue.price)
+    const [currency, setCurrency] = useState(revenue.currency)
     const [dateCompleted, setDateCompleted] = useState(revenue.dateCompleted)
+    const [attachments, setAttachments] = useState<Attachment[]>(revenue.attachments ?? [])
 
     const handleSave = () => {
         onUpdate({
@@ -407,7 +560,9 @@ function RevenueModal({ revenue, onClose, onUpdate, onDelete, isDark }: RevenueM
             description: description || undefined,
             projectName,
             price,
+            currency,
             dateCompleted,
+            attachments,
         })
     }
 
@@ -435,6 +590,18 @@ function RevenueModal({ revenue, onClose, onUpdate, onDelete, isDark }: RevenueM
                             "text-xs px-2 py-0.5 rounded",
                             isDark ? "bg-[#FF9F1C]/20 text-[#FF9F1C]" : "bg-[#FFF2E0] text-[#CC7A00]"
                         )}>Revenue Entry</span>
+                        {sourceCard && (
+                            <Link
+                                href={`/cards?card=${sourceCard.id}`}
+                                className={clsx(
+                                    "text-xs px-2 py-0.5 rounded flex items-center gap-1 hover:underline",
+                                    isDark ? "bg-blue-500/20 text-blue-400" : "bg-blue-100 text-blue-700"
+                                )}
+                            >
+                                <SquareKanban className="w-3 h-3" />
+                                {sourceCard.title}
+                            </Link>
+                        )}
                     </div>
                     <button
                         onClick={() => {
@@ -521,10 +688,16 @@ function RevenueModal({ revenue, onClose, onUpdate, onDelete, isDark }: RevenueM
                         <DollarSign className="w-4 h-4" /> Price
                     </label>
                     <div className="flex items-center gap-1 mt-1">
-                        <span className={clsx(
-                            "text-lg font-medium",
-                            isDark ? "text-[#F5F5F5]" : "text-[#2D3436]"
-                        )}>{revenue.currency}</span>
+                        <CurrencySelect
+                            value={currency}
+                            onChange={setCurrency}
+                            className={clsx(
+                                "p-3 rounded-lg border outline-none text-lg font-medium",
+                                isDark
+                                    ? "bg-[#2A2A2A] border-[#3A3A3A] text-[#F5F5F5]"
+                                    : "bg-gray-50 border-gray-200 text-[#2D3436]"
+                            )}
+                        />
                         <input
                             type="number"
                             value={price || ''}
@@ -561,6 +734,17 @@ function RevenueModal({ revenue, onClose, onUpdate, onDelete, isDark }: RevenueM
                     />
                 </div>
 
+                {/* Attachments */}
+                <div className="mb-6">
+                    <AttachmentsSection
+                        attachments={attachments}
+                        onChange={setAttachments}
+                        prefix="revenue"
+                        isDark={isDark}
+                        label="Receipts & Attachments"
+                    />
+                </div>
+
                 {/* Delete Button */}
                 <div className={clsx(
                     "pt-4 border-t",
@@ -0,0 +1,106 @@
+'use client'
+
+import { useState } from 'react'
+import clsx from 'clsx'
+import { X, Download } from 'lucide-react'
+import { Revenue } from '@/lib/types'
+import { RevenueExportFilter, filterRevenues, revenueCsvFileName, revenuesToCsv } from '@/lib/revenueCsv'
+
+interface RevenueCsvExportProps {
+    revenues: Revenue[]
+    isDark: boolean
+    onClose: () => void
+}
+
+// Download of revenue entries as CSV, narrowed to a date range and/or one project
+export function RevenueCsvExport({ revenues, isDark, onClose }: RevenueCsvExportProps) {
+    const [filter, setFilter] = useState<RevenueExportFilter>({})
+
+    const projects = Array.from(new Set(revenues.map(r => r.projectName))).sort((a, b) => a.localeCompare(b))
+    const matching = filterRevenues(revenues, filter)
+
+    const download = () => {
+        const url = URL.createObjectURL(new Blob([revenuesToCsv(revenues, filter)], { type: 'text/csv' }))
+        const link = document.createElement('a')
+        link.href = url
+        link.download = revenueCsvFileName(filter)
+        link.click()
+        URL.revokeObjectURL(url)
+        onClose()
+    }
+
+    const mutedText = isDark ? "text-[#A0A0A0]" : "text-gray-600"
+    const inputClass = clsx(
+        "w-full mt-1 p-3 rounded-lg border outline-none",
+        isDark ? "bg-[#2A2A2A] border-[#3A3A3A] text-[#F5F5F5]" : "bg-gray-50 border-gray-200 text-[#2D3436]"
+    )
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+            <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+
+            <div className={clsx(
+                "relative w-full max-w-md rounded-2xl shadow-xl p-6",
+                isDark ? "bg-[#1A1A1A]" : "bg-white"
+            )}>
+                <div className="flex items-start justify-between mb-4">
+                    <h2 className={clsx("text-lg font-semibold", isDark ? "text-[#F5F5F5]" : "text-[#2D3436]")}>
+                        Export revenue to CSV
+                    </h2>
+                    <button
+                        onClick={onClose}
+                        className={clsx("p-2 rounded-lg transition-colors", isDark ? "hover:bg-[#2A2A2A]" : "hover:bg-gray-100")}
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4 mb-4">
+                    <div>
+                        <label className={clsx("text-sm font-medium", mutedText)}>From</label>
+                        <input
+                            type="date"
+                            value={filter.from ?? ''}
+                            onChange={(e) => setFilter({ ...filter, from: e.target.value || undefined })}
+                            className={inputClass}
+                        />
+                    </div>
+                    <div>
+                        <label className={clsx("text-sm font-medium", mutedText)}>To</label>
+                        <input
+                            type="date"
+                            value={filter.to ?? ''}
+                            onChange={(e) => setFilter({ ...filter, to: e.target.value || undefined })}
+                            className={inputClass}
+                        />
+                    </div>
+                </div>
+                <div className="mb-6">
+                    <label className={clsx("text-sm font-medium", mutedText)}>Project</label>
+                    <select
+                        value={filter.projectName ?? ''}
+                        onChange={(e) => setFilter({ ...filter, projectName: e.target.value || undefined })}
+                        className={inputClass}
+                    >
+                        <option value="">All projects</option>
+                        {projects.map(project => <option key={project} value={project}>{project}</option>)}
+                    </select>
+                </div>
+
+                <div className="flex items-center justify-between">
+                    <span className={clsx("text-sm", mutedText)}>
+                        {matching.length} entr{matching.length === 1 ? 'y' : 'ies'}
+                    </span>
+                    <button
+                        onClick={download}
+                        disabled={matching.length === 0}
+                        className="flex items-center gap-2 px-4 py-2 bg-[#FF9F1C] text-white rounded-lg text-sm font-medium hover:bg-[#E08A15] disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                        <Download className="w-4 h-4" />
+                        Download CSV
+                    </button>
+                </div>
+            </div>
+        </div>
+    )
+}
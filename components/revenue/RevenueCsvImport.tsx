@@ -0,0 +1,271 @@
+'use client'
+
+import { useMemo, useRef, useState } from 'react'
+import clsx from 'clsx'
+import { format, parseISO } from 'date-fns'
+import { X, Upload, AlertTriangle, CheckCircle2 } from 'lucide-react'
+import { Revenue } from '@/lib/types'
+import {
+    CsvDateFormat, DATE_FORMATS, REVENUE_CSV_FIELDS, RevenueColumnMapping,
+    guessColumnMapping, guessDateFormat, mapRevenueRows, parseCsv
+} from '@/lib/revenueCsv'
+import { CURRENCIES, formatMoney } from '@/lib/currency'
+import { useData } from '@/lib/DataContext'
+
+interface RevenueCsvImportProps {
+    isDark: boolean
+    onClose: () => void
+    onImport: (revenues: Revenue[]) => Promise<void>
+}
+
+type Step = 'file' | 'mapping' | 'preview'
+
+// Rows shown in the preview table; the counts cover the whole file
+const PREVIEW_ROWS = 50
+
+// Wizard: pick a file, map its columns to revenue fields, then check a dry run before saving
+export function RevenueCsvImport({ isDark, onClose, onImport }: RevenueCsvImportProps) {
+    const { reportingCurrency } = useData()
+    const fileInputRef = useRef<HTMLInputElement>(null)
+    const [step, setStep] = useState<Step>('file')
+    const [fileName, setFileName] = useState('')
+    const [rows, setRows] = useState<string[][]>([])
+    const [hasHeader, setHasHeader] = useState(true)
+    const [mapping, setMapping] = useState<RevenueColumnMapping | null>(null)
+    const [dateFormat, setDateFormat] = useState<CsvDateFormat>(DATE_FORMATS[0])
+    const [defaultCurrency, setDefaultCurrency] = useState(reportingCurrency)
+    const [isImporting, setIsImporting] = useState(false)
+
+    const handleFile = async (file: File) => {
+        const parsed = parseCsv(await file.text())
+        const guessed = guessColumnMapping(parsed[0] ?? [])
+        // A first row that names no known field is data, not a header
+        const header = Object.values(guessed).some(index => index !== null)
+
+        setFileName(file.name)
+        setRows(parsed)
+        setHasHeader(header)
+        setMapping(header ? guessed : Object.fromEntries(REVENUE_CSV_FIELDS.map(f => [f.field, null])) as RevenueColumnMapping)
+        const dateColumn = guessed.dateCompleted
+        if (dateColumn !== null) setDateFormat(guessDateFormat(parsed.slice(1).map(row => row[dateColumn] ?? '')))
+        setStep('mapping')
+    }
+
+    const columnCount = Math.max(0, ...rows.map(row => row.length))
+    const columnLabels = Array.from({ length: columnCount }, (_, i) =>
+        hasHeader && rows[0]?.[i]?.trim() ? rows[0][i].trim() : `Column ${i + 1}`
+    )
+
+    const results = useMemo(
+        () => mapping ? mapRevenueRows(rows, mapping, { dateFormat, defaultCurrency, hasHeader }) : [],
+        [rows, mapping, dateFormat, defaultCurrency, hasHeader]
+    )
+    const valid = results.flatMap(r => r.revenue ? [r.revenue] : [])
+    const invalid = results.filter(r => !r.revenue)
+    const missingRequired = REVENUE_CSV_FIELDS.filter(f => f.required && mapping?.[f.field] === null)
+
+    const handleImport = async () => {
+        setIsImporting(true)
+        await onImport(valid)
+        setIsImporting(false)
+    }
+
+    const mutedText = isDark ? "text-[#A0A0A0]" : "text-[#636E72]"
+    const inputClass = clsx(
+        "w-full p-2 rounded-lg border outline-none text-sm",
+        isDark ? "bg-[#2A2A2A] border-[#3A3A3A] text-[#F5F5F5]" : "bg-gray-50 border-gray-200 text-[#2D3436]"
+    )
+    const secondaryButton = clsx(
+        "px-4 py-2 rounded-lg text-sm",
+        isDark ? "text-[#A0A0A0] hover:bg-[#2A2A2A]" : "text-gray-500 hover:bg-gray-100"
+    )
+    const primaryButton = "px-4 py-2 bg-[#FF9F1C] text-white rounded-lg text-sm font-medium hover:bg-[#E08A15] disabled:opacity-40 disabled:cursor-not-allowed"
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+            <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+
+            <div className={clsx(
+                "relative w-full max-w-3xl max-h-[90vh] overflow-y-auto rounded-2xl shadow-xl p-6",
+                isDark ? "bg-[#1A1A1A]" : "bg-white"
+            )}>
+                <div className="flex items-start justify-between mb-4">
+                    <div>
+                        <h2 className={clsx("text-lg font-semibold", isDark ? "text-[#F5F5F5]" : "text-[#2D3436]")}>
+                            Import revenue from CSV
+                        </h2>
+                        {fileName && <p className={clsx("text-sm", mutedText)}>{fileName}</p>}
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className={clsx("p-2 rounded-lg transition-colors", isDark ? "hover:bg-[#2A2A2A]" : "hover:bg-gray-100")}
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {step === 'file' && (
+                    <>
+                        <button
+                            onClick={() => fileInputRef.current?.click()}
+                            className={clsx(
+                                "w-full p-8 rounded-2xl border-2 border-dashed flex flex-col items-center gap-2 transition-colors",
+                                isDark
+                                    ? "border-[#2A2A2A] text-[#A0A0A0] hover:border-[#FF9F1C] hover:text-[#FF9F1C]"
+                                    : "border-gray-200 text-gray-500 hover:border-[#FF9F1C] hover:text-[#FF9F1C]"
+                            )}
+                        >
+                            <Upload className="w-6 h-6" />
+                            Choose a .csv file
+                            <span className="text-xs">Comma, semicolon or tab separated</span>
+                        </button>
+                        <input
+                            ref={fileInputRef}
+                            type="file"
+                            accept=".csv,text/csv"
+                            className="hidden"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0]
+                                if (file) handleFile(file)
+                                e.target.value = ''
+                            }}
+                        />
+                    </>
+                )}
+
+                {step === 'mapping' && mapping && (
+                    <div className="space-y-4">
+                        <label className={clsx("flex items-center gap-2 text-sm", mutedText)}>
+                            <input
+                                type="checkbox"
+                                checked={hasHeader}
+                                onChange={(e) => setHasHeader(e.target.checked)}
+                                className="accent-[#FF9F1C]"
+                            />
+                            First row is a header
+                        </label>
+
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            {REVENUE_CSV_FIELDS.map(({ field, label, required }) => (
+                                <div key={field}>
+                                    <label className={clsx("text-sm font-medium", mutedText)}>
+                                        {label}{required && ' *'}
+                                    </label>
+                                    <select
+                                        value={mapping[field] ?? ''}
+                                        onChange={(e) => setMapping({ ...mapping, [field]: e.target.value === '' ? null : Number(e.target.value) })}
+                                        className={clsx(inputClass, "mt-1")}
+                                    >
+                                        <option value="">— Not in file —</option>
+                                        {columnLabels.map((columnLabel, i) => (
+                                            <option key={i} value={i}>{columnLabel}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            ))}
+                            <div>
+                                <label className={clsx("text-sm font-medium", mutedText)}>Date format</label>
+                                <select
+                                    value={dateFormat}
+                                    onChange={(e) => setDateFormat(e.target.value as CsvDateFormat)}
+                                    className={clsx(inputClass, "mt-1")}
+                                >
+                                    {DATE_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className={clsx("text-sm font-medium", mutedText)}>Currency when not given</label>
+                                <select
+                                    value={defaultCurrency}
+                                    onChange={(e) => setDefaultCurrency(e.target.value)}
+                                    className={clsx(inputClass, "mt-1")}
+                                >
+                                    {CURRENCIES.map(c => <option key={c.code} value={c.code}>{c.code} · {c.name}</option>)}
+                                </select>
+                            </div>
+                        </div>
+
+                        {missingRequired.length > 0 && (
+                            <p className="text-sm text-amber-500">
+                                Choose a column for {missingRequired.map(f => f.label).join(', ')}.
+                            </p>
+                        )}
+
+                        <div className="flex justify-end gap-2">
+                            <button onClick={() => setStep('file')} className={secondaryButton}>Back</button>
+                            <button
+                                onClick={() => setStep('preview')}
+                                disabled={missingRequired.length > 0}
+                                className={primaryButton}
+                            >
+                                Preview
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {step === 'preview' && (
+                    <div className="space-y-4">
+                        <div className="flex flex-wrap gap-4 text-sm">
+                            <span className="flex items-center gap-1.5 text-green-500">
+                                <CheckCircle2 className="w-4 h-4" />
+                                {valid.length} row{valid.length === 1 ? '' : 's'} ready
+                            </span>
+                            {invalid.length > 0 && (
+                                <span className="flex items-center gap-1.5 text-amber-500">
+                                    <AlertTriangle className="w-4 h-4" />
+                                    {invalid.length} row{invalid.length === 1 ? '' : 's'} will be skipped
+                                </span>
+                            )}
+                        </div>
+
+                        <div className={clsx("overflow-x-auto rounded-xl border", isDark ? "border-[#2A2A2A]" : "border-gray-200")}>
+                            <table className="w-full text-sm">
+                                <thead className={isDark ? "bg-[#2A2A2A] text-[#A0A0A0]" : "bg-gray-50 text-gray-500"}>
+                                    <tr>
+                                        <th className="px-3 py-2 text-left font-medium">Line</th>
+                                        <th className="px-3 py-2 text-left font-medium">Name</th>
+                                        <th className="px-3 py-2 text-left font-medium">Project</th>
+                                        <th className="px-3 py-2 text-right font-medium">Price</th>
+                                        <th className="px-3 py-2 text-left font-medium">Date</th>
+                                    </tr>
+                                </thead>
+                                <tbody className={isDark ? "text-[#F5F5F5]" : "text-[#2D3436]"}>
+                                    {results.slice(0, PREVIEW_ROWS).map(({ line, revenue, errors }) => (
+                                        <tr key={line} className={clsx("border-t", isDark ? "border-[#2A2A2A]" : "border-gray-100")}>
+                                            <td className={clsx("px-3 py-2", mutedText)}>{line}</td>
+                                            {revenue ? (
+                                                <>
+                                                    <td className="px-3 py-2">{revenue.name}</td>
+                                                    <td className="px-3 py-2">{revenue.projectName}</td>
+                                                    <td className="px-3 py-2 text-right whitespace-nowrap">{formatMoney(revenue.price, revenue.currency)}</td>
+                                                    <td className="px-3 py-2 whitespace-nowrap">{format(parseISO(revenue.dateCompleted), 'MMM d, yyyy')}</td>
+                                                </>
+                                            ) : (
+                                                <td colSpan={4} className="px-3 py-2 text-amber-500">{errors.join('; ')}</td>
+                                            )}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        {results.length > PREVIEW_ROWS && (
+                            <p className={clsx("text-xs", mutedText)}>Showing the first {PREVIEW_ROWS} of {results.length} rows.</p>
+                        )}
+
+                        <div className="flex justify-end gap-2">
+                            <button onClick={() => setStep('mapping')} className={secondaryButton}>Back</button>
+                            <button
+                                onClick={handleImport}
+                                disabled={valid.length === 0 || isImporting}
+                                className={primaryButton}
+                            >
+                                {isImporting ? 'Importing…' : `Import ${valid.length} row${valid.length === 1 ? '' : 's'}`}
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,202 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import clsx from 'clsx'
+import { Download, Upload, AlertTriangle, CheckCircle2 } from 'lucide-react'
+import { PlannerBackup, ImportMode, ImportReport, createBackup, backupFileName, parseBackup, importBackup } from '@/lib/backup'
+import { useData } from '@/lib/DataContext'
+
+interface BackupSectionProps {
+    isDark: boolean
+}
+
+const COLLECTION_LABELS: Record<keyof ImportReport['imported'], string> = {
+    plans: 'plans',
+    cards: 'cards',
+    goals: 'goals',
+    revenues: 'revenues',
+    customSections: 'sections',
+    expenses: 'expenses',
+    exchangeRates: 'exchange rates',
+    clients: 'clients',
+    invoices: 'invoices',
+}
+
+// Export of all personal data to a JSON file, and import of such a file (merge or replace)
+export function BackupSection({ isDark }: BackupSectionProps) {
+    const { refreshAll, isOnline } = useData()
+    const fileInputRef = useRef<HTMLInputElement>(null)
+    const [isExporting, setIsExporting] = useState(false)
+    const [isImporting, setIsImporting] = useState(false)
+    const [mode, setMode] = useState<ImportMode>('merge')
+    const [pendingBackup, setPendingBackup] = useState<{ name: string, backup: PlannerBackup } | null>(null)
+    const [errors, setErrors] = useState<string[]>([])
+    const [report, setReport] = useState<ImportReport | null>(null)
+
+    const handleExport = async () => {
+        setIsExporting(true)
+        try {
+            const backup = await createBackup()
+            const url = URL.createObjectURL(new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }))
+            const link = document.createElement('a')
+            link.href = url
+            link.download = backupFileName(backup)
+            link.click()
+            URL.revokeObjectURL(url)
+        } finally {
+            setIsExporting(false)
+        }
+    }
+
+    const handleFile = async (file: File) => {
+        setReport(null)
+        const { backup, errors } = parseBackup(await file.text())
+        setErrors(errors)
+        setPendingBackup(backup ? { name: file.name, backup } : null)
+    }
+
+    const handleImport = async () => {
+        if (!pendingBackup) return
+        if (mode === 'replace' && !confirm('Replace all of your data with this backup? Plans, cards, goals, revenues and expenses are moved to the Trash; custom sections, exchange rates, clients and invoices are deleted for good.')) {
+            return
+        }
+
+        setIsImporting(true)
+        try {
+            setReport(await importBackup(pendingBackup.backup, mode))
+            setPendingBackup(null)
+            await refreshAll(true)
+        } finally {
+            setIsImporting(false)
+        }
+    }
+
+    const counts = (backup: PlannerBackup) =>
+        Object.entries(COLLECTION_LABELS)
+            .map(([collection, label]) => `${backup[collection as keyof typeof COLLECTION_LABELS].length} ${label}`)
+            .join(', ')
+
+    const mutedText = isDark ? "text-[#A0A0A0]" : "text-[#636E72]"
+    const buttonClass = clsx(
+        "flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium border transition-colors disabled:opacity-40 disabled:cursor-not-allowed",
+        isDark ? "border-[#3A3A3A] text-[#F5F5F5] hover:bg-[#2A2A2A]" : "border-gray-200 text-[#2D3436] hover:bg-gray-50"
+    )
+
+    return (
+        <section className={clsx(
+            "p-6 rounded-2xl border space-y-4",
+            isDark ? "bg-[#1A1A1A] border-[#2A2A2A]" : "bg-white border-gray-200"
+        )}>
+            <div>
+                <h2 className={clsx("text-lg font-semibold", isDark ? "text-[#F5F5F5]" : "text-[#2D3436]")}>Backup</h2>
+                <p className={clsx("text-sm mt-1", mutedText)}>
+                    Download your plans, personal board, goals, revenues, expenses, exchange rates, clients and invoices as a JSON file, or load one back in.
+                    Shared workspace boards are not included.
+                </p>
+            </div>
+
+            <div className="flex flex-wrap gap-3">
+                <button onClick={handleExport} disabled={isExporting} className={buttonClass}>
+                    <Download className="w-4 h-4" />
+                    {isExporting ? 'Exporting...' : 'Export'}
+                </button>
+                <button onClick={() => fileInputRef.current?.click()} disabled={isImporting || !isOnline} className={buttonClass}>
+                    <Upload className="w-4 h-4" />
+                    Import...
+                </button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0]
+                        if (file) handleFile(file)
+                        e.target.value = ''
+                    }}
+                />
+            </div>
+            {!isOnline && <p className={clsx("text-xs", mutedText)}>Importing needs a connection.</p>}
+
+            {errors.length > 0 && (
+                <div className="p-3 rounded-lg bg-red-500/10 text-red-500 text-sm">
+                    <p className="flex items-center gap-2 font-medium mb-1">
+                        <AlertTriangle className="w-4 h-4" />
+                        This file can&apos;t be imported
+                    </p>
+                    <ul className="list-disc pl-6 space-y-0.5">
+                        {errors.map(error => <li key={error}>{error}</li>)}
+                    </ul>
+                </div>
+            )}
+
+            {pendingBackup && (
+                <div className={clsx("p-4 rounded-xl border space-y-3", isDark ? "border-[#3A3A3A]" : "border-[#EFEEEE]")}>
+                    <p className={clsx("text-sm", isDark ? "text-[#F5F5F5]" : "text-[#2D3436]")}>
+                        <span className="font-medium">{pendingBackup.name}</span>
+                        <span className={mutedText}> · {counts(pendingBackup.backup)}</span>
+                    </p>
+                    <div className="flex flex-col gap-2 text-sm">
+                        {(['merge', 'replace'] as ImportMode[]).map(option => (
+                            <label key={option} className={clsx("flex items-start gap-2 cursor-pointer", isDark ? "text-[#F5F5F5]" : "text-[#2D3436]")}>
+                                <input
+                                    type="radio"
+                                    name="import-mode"
+                                    checked={mode === option}
+                                    onChange={() => setMode(option)}
+                                    className="mt-1 accent-[#FF9F1C]"
+                                />
+                                <span>
+                                    {option === 'merge' ? 'Merge' : 'Replace'}
+                                    <span className={clsx("block text-xs", mutedText)}>
+                                        {option === 'merge'
+                                            ? 'Add the backup to your current data. Items that are already here are skipped.'
+                                            : 'Move your current data to the Trash, then load the backup. Custom sections, exchange rates, clients and invoices have no Trash and are deleted for good.'}
+                                    </span>
+                                </span>
+                            </label>
+                        ))}
+                    </div>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={handleImport}
+                            disabled={isImporting}
+                            className="px-4 py-2 rounded-lg text-sm font-medium bg-[#FF9F1C] hover:bg-[#F68E09] text-white disabled:opacity-40"
+                        >
+                            {isImporting ? 'Importing...' : 'Import'}
+                        </button>
+                        <button onClick={() => setPendingBackup(null)} disabled={isImporting} className={buttonClass}>
+                            Cancel
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {report && (
+                <div className={clsx("p-4 rounded-xl text-sm space-y-2", isDark ? "bg-[#2A2A2A]" : "bg-[#FFFBF5]")}>
+                    <p className="flex items-center gap-2 font-medium text-green-500">
+                        <CheckCircle2 className="w-4 h-4" />
+                        Imported {Object.entries(report.imported).map(([collection, count]) =>
+                            `${count} ${COLLECTION_LABELS[collection as keyof ImportReport['imported']]}`).join(', ')}
+                    </p>
+                    {report.conflicts.length > 0 && (
+                        <div className={mutedText}>
+                            <p>Skipped {report.conflicts.length} item(s) that already exist:</p>
+                            <ul className="list-disc pl-6">
+                                {report.conflicts.map(item => <li key={`${item.collection}-${item.id}`}>{item.title || 'Untitled'}</li>)}
+                            </ul>
+                        </div>
+                    )}
+                    {report.failed.length > 0 && (
+                        <div className="text-red-500">
+                            <p>{report.failed.length} item(s) could not be saved:</p>
+                            <ul className="list-disc pl-6">
+                                {report.failed.map(item => <li key={`${item.collection}-${item.id}`}>{item.title || 'Untitled'}</li>)}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+            )}
+        </section>
+    )
+}
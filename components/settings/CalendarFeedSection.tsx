@@ -0,0 +1,134 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import clsx from 'clsx'
+import { CalendarPlus, Copy, Check, RefreshCw, Download } from 'lucide-react'
+import { fetchCalendarFeedToken, rotateCalendarFeedToken, disableCalendarFeed } from '@/lib/supabaseService'
+import { buildCalendar } from '@/lib/ics'
+import { useAuth } from '@/lib/AuthContext'
+import { useData } from '@/lib/DataContext'
+
+interface CalendarFeedSectionProps {
+    isDark: boolean
+}
+
+// Subscription URL for Google Calendar, Outlook etc., plus a one-off .ics download
+export function CalendarFeedSection({ isDark }: CalendarFeedSectionProps) {
+    const { user, isAuthEnabled } = useAuth()
+    const { plans, cards } = useData()
+    const [token, setToken] = useState<string | null>(null)
+    const [isLoaded, setIsLoaded] = useState(false)
+    const [isBusy, setIsBusy] = useState(false)
+    const [copied, setCopied] = useState(false)
+
+    useEffect(() => {
+        if (!user) return
+        fetchCalendarFeedToken(user.id).then(saved => {
+            setToken(saved)
+            setIsLoaded(true)
+        })
+    }, [user])
+
+    const feedUrl = token ? `${window.location.origin}/api/calendar/${token}.ics` : null
+
+    const createOrReset = async () => {
+        if (!user) return
+        if (token && !confirm('Reset the feed link? Calendars subscribed to the current link stop updating.')) return
+        setIsBusy(true)
+        const next = await rotateCalendarFeedToken(user.id)
+        if (next) setToken(next)
+        setIsBusy(false)
+    }
+
+    const turnOff = async () => {
+        if (!user || !confirm('Turn off the calendar feed? Subscribed calendars stop updating.')) return
+        setIsBusy(true)
+        if (await disableCalendarFeed(user.id)) setToken(null)
+        setIsBusy(false)
+    }
+
+    const copyUrl = async () => {
+        if (!feedUrl) return
+        await navigator.clipboard.writeText(feedUrl)
+        setCopied(true)
+        setTimeout(() => setCopied(false), 2000)
+    }
+
+    // Personal board only, like the feed; DataContext holds whichever board is selected
+    const downloadIcs = () => {
+        const personalCards = cards.filter(card => !card.workspaceId)
+        const url = URL.createObjectURL(new Blob([buildCalendar(plans, personalCards)], { type: 'text/calendar' }))
+        const link = document.createElement('a')
+        link.href = url
+        link.download = 'sdaily.ics'
+        link.click()
+        URL.revokeObjectURL(url)
+    }
+
+    const mutedText = isDark ? "text-[#A0A0A0]" : "text-[#636E72]"
+    const buttonClass = clsx(
+        "flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium border transition-colors disabled:opacity-40 disabled:cursor-not-allowed",
+        isDark ? "border-[#3A3A3A] text-[#F5F5F5] hover:bg-[#2A2A2A]" : "border-gray-200 text-[#2D3436] hover:bg-gray-50"
+    )
+
+    return (
+        <section className={clsx(
+            "p-6 rounded-2xl border space-y-4",
+            isDark ? "bg-[#1A1A1A] border-[#2A2A2A]" : "bg-white border-gray-200"
+        )}>
+            <div>
+                <h2 className={clsx("text-lg font-semibold", isDark ? "text-[#F5F5F5]" : "text-[#2D3436]")}>Calendar feed</h2>
+                <p className={clsx("text-sm mt-1", mutedText)}>
+                    Show your plans and scheduled cards in Google Calendar, Outlook or Apple Calendar.
+                    Anyone with the link can see them, so keep it private.
+                </p>
+            </div>
+
+            {!isAuthEnabled ? (
+                <p className={clsx("text-sm", mutedText)}>
+                    A live feed needs a Supabase project. You can still download the current plans as a file.
+                </p>
+            ) : !isLoaded ? null : feedUrl ? (
+                <div className="space-y-3">
+                    <div className="flex gap-2">
+                        <input
+                            readOnly
+                            value={feedUrl}
+                            onFocus={(e) => e.target.select()}
+                            className={clsx(
+                                "flex-1 min-w-0 px-3 py-2 rounded-lg border text-sm font-mono outline-none",
+                                isDark ? "bg-[#2A2A2A] border-[#3A3A3A] text-[#F5F5F5]" : "bg-gray-50 border-gray-200 text-[#2D3436]"
+                            )}
+                        />
+                        <button onClick={copyUrl} className={buttonClass} title="Copy link">
+                            {copied ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
+                        </button>
+                    </div>
+                    <div className="flex flex-wrap gap-3">
+                        <a href={feedUrl.replace(/^https?:/, 'webcal:')} className={buttonClass}>
+                            <CalendarPlus className="w-4 h-4" />
+                            Subscribe
+                        </a>
+                        <button onClick={createOrReset} disabled={isBusy} className={buttonClass}>
+                            <RefreshCw className="w-4 h-4" />
+                            Reset link
+                        </button>
+                        <button onClick={turnOff} disabled={isBusy} className={clsx(buttonClass, "text-red-500")}>
+                            Turn off
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <button onClick={createOrReset} disabled={isBusy} className={buttonClass}>
+                    <CalendarPlus className="w-4 h-4" />
+                    Create feed link
+                </button>
+            )}
+
+            <button onClick={downloadIcs} className={clsx("flex items-center gap-2 text-sm font-medium", isDark ? "text-[#FF9F1C]" : "text-[#E08A15]")}>
+                <Download className="w-4 h-4" />
+                Download .ics file
+            </button>
+        </section>
+    )
+}
@@ -0,0 +1,137 @@
+'use client'
+
+import { useState } from 'react'
+import clsx from 'clsx'
+import { format, parseISO } from 'date-fns'
+import { Plus, Trash2 } from 'lucide-react'
+import { ExchangeRate } from '@/lib/types'
+import { saveExchangeRate, deleteExchangeRate } from '@/lib/supabaseService'
+import { useData } from '@/lib/DataContext'
+import { generateUUID } from '@/lib/uuid'
+import CurrencySelect from '@/components/CurrencySelect'
+
+interface CurrencySectionProps {
+    isDark: boolean
+}
+
+// Reporting currency and the exchange rates used to convert into it
+export function CurrencySection({ isDark }: CurrencySectionProps) {
+    const { exchangeRates, setExchangeRates, reportingCurrency, setReportingCurrency } = useData()
+    const [fromCurrency, setFromCurrency] = useState('USD')
+    const [rate, setRate] = useState<number | ''>('')
+    const [rateDate, setRateDate] = useState(format(new Date(), 'yyyy-MM-dd'))
+    const [isSaving, setIsSaving] = useState(false)
+
+    const addRate = async () => {
+        if (!rate || rate <= 0 || fromCurrency === reportingCurrency) return
+        setIsSaving(true)
+
+        // One rate per pair and day: entering it again corrects the existing one
+        const existing = exchangeRates.find(r => r.fromCurrency === fromCurrency && r.toCurrency === reportingCurrency && r.rateDate === rateDate)
+        const saved = await saveExchangeRate({
+            id: existing?.id ?? generateUUID(),
+            fromCurrency,
+            toCurrency: reportingCurrency,
+            rate: Number(rate),
+            rateDate,
+            createdAt: existing?.createdAt ?? new Date().toISOString()
+        })
+        if (saved) {
+            setExchangeRates(prev => [saved, ...prev.filter(r => r.id !== saved.id)])
+            setRate('')
+        }
+        setIsSaving(false)
+    }
+
+    const removeRate = async (target: ExchangeRate) => {
+        if (await deleteExchangeRate(target.id)) {
+            setExchangeRates(prev => prev.filter(r => r.id !== target.id))
+        }
+    }
+
+    const sortedRates = [...exchangeRates].sort((a, b) =>
+        b.rateDate.localeCompare(a.rateDate) || a.fromCurrency.localeCompare(b.fromCurrency)
+    )
+
+    const mutedText = isDark ? "text-[#A0A0A0]" : "text-[#636E72]"
+    const inputClass = clsx(
+        "px-3 py-2 rounded-lg border outline-none text-sm",
+        isDark ? "bg-[#2A2A2A] border-[#3A3A3A] text-[#F5F5F5]" : "bg-gray-50 border-gray-200 text-[#2D3436]"
+    )
+
+    return (
+        <section className={clsx(
+            "p-6 rounded-2xl border space-y-4",
+            isDark ? "bg-[#1A1A1A] border-[#2A2A2A]" : "bg-white border-gray-200"
+        )}>
+            <div>
+                <h2 className={clsx("text-lg font-semibold", isDark ? "text-[#F5F5F5]" : "text-[#2D3436]")}>Currency</h2>
+                <p className={clsx("text-sm mt-1", mutedText)}>
+                    Revenue totals and goal budgets are shown in the reporting currency. Amounts in other
+                    currencies are converted with the rate on their date (the latest one entered before it).
+                </p>
+            </div>
+
+            <label className={clsx("flex items-center gap-3 text-sm", mutedText)}>
+                Reporting currency
+                <CurrencySelect value={reportingCurrency} onChange={setReportingCurrency} className={inputClass} />
+            </label>
+
+            <div className="space-y-2">
+                <p className={clsx("text-sm font-medium", isDark ? "text-[#F5F5F5]" : "text-[#2D3436]")}>Exchange rates</p>
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <input
+                        type="date"
+                        value={rateDate}
+                        onChange={(e) => setRateDate(e.target.value)}
+                        className={inputClass}
+                    />
+                    <span className={mutedText}>1</span>
+                    <CurrencySelect value={fromCurrency} onChange={setFromCurrency} className={inputClass} />
+                    <span className={mutedText}>=</span>
+                    <input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={rate}
+                        onChange={(e) => setRate(e.target.value ? Number(e.target.value) : '')}
+                        onKeyDown={(e) => e.key === 'Enter' && addRate()}
+                        placeholder="Rate"
+                        className={clsx(inputClass, "w-32")}
+                    />
+                    <span className={mutedText}>{reportingCurrency}</span>
+                    <button
+                        onClick={addRate}
+                        disabled={!rate || isSaving || fromCurrency === reportingCurrency}
+                        className="flex items-center gap-1 px-3 py-2 bg-[#FF9F1C] text-white rounded-lg font-medium hover:bg-[#E08A15] disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                        <Plus className="w-4 h-4" />
+                        Add
+                    </button>
+                </div>
+
+                {sortedRates.length === 0 ? (
+                    <p className={clsx("text-sm", mutedText)}>No rates yet. Totals leave out amounts they can&apos;t convert.</p>
+                ) : (
+                    <ul className={clsx("divide-y rounded-xl border text-sm", isDark ? "divide-[#2A2A2A] border-[#2A2A2A]" : "divide-gray-100 border-gray-200")}>
+                        {sortedRates.map(r => (
+                            <li key={r.id} className="flex items-center gap-3 px-3 py-2">
+                                <span className={clsx("w-28", mutedText)}>{format(parseISO(r.rateDate), 'MMM d, yyyy')}</span>
+                                <span className={clsx("flex-1", isDark ? "text-[#F5F5F5]" : "text-[#2D3436]")}>
+                                    1 {r.fromCurrency} = {r.rate.toLocaleString(undefined, { maximumFractionDigits: 6 })} {r.toCurrency}
+                                </span>
+                                <button
+                                    onClick={() => removeRate(r)}
+                                    className={clsx("p-1 rounded transition-colors", isDark ? "text-[#A0A0A0] hover:text-red-400" : "text-gray-400 hover:text-red-500")}
+                                    title="Delete rate"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </section>
+    )
+}
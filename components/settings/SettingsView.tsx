@@ -0,0 +1,35 @@
+'use client'
+
+import clsx from 'clsx'
+import { useTheme } from '@/components/ThemeProvider'
+import { BackupSection } from './BackupSection'
+import { CalendarFeedSection } from './CalendarFeedSection'
+import { CurrencySection } from './CurrencySection'
+
+export function SettingsView() {
+    const { theme } = useTheme()
+    const isDark = theme === 'dark'
+
+    return (
+        <div className="space-y-6 max-w-3xl">
+            <header>
+                <h1 className={clsx(
+                    "text-3xl font-bold",
+                    isDark ? "text-[#F5F5F5]" : "text-[#2D3436]"
+                )}>
+                    Settings
+                </h1>
+                <p className={clsx(
+                    "mt-2",
+                    isDark ? "text-[#A0A0A0]" : "text-[#636E72]"
+                )}>
+                    Manage your data and connect other apps.
+                </p>
+            </header>
+
+            <CurrencySection isDark={isDark} />
+            <CalendarFeedSection isDark={isDark} />
+            <BackupSection isDark={isDark} />
+        </div>
+    )
+}
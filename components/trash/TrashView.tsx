@@ -0,0 +1,205 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import clsx from 'clsx'
+import { formatDistanceToNow, parseISO } from 'date-fns'
+import { Calendar, Layers, Target, Wallet, Receipt, RotateCcw, Trash2 } from 'lucide-react'
+import { TrashItem, TrashItemType } from '@/lib/types'
+import { fetchTrash, restorePlan, restoreCard, restoreGoal, restoreRevenue, restoreExpense, purgePlan, purgeCard, purgeGoal, purgeRevenue, purgeExpense } from '@/lib/supabaseService'
+import { RETENTION_OPTIONS, getRetentionDays, setRetentionDays } from '@/lib/trash'
+import { useTheme } from '@/components/ThemeProvider'
+import { useData } from '@/lib/DataContext'
+import { useWorkspace } from '@/lib/WorkspaceContext'
+
+const TYPE_INFO: Record<TrashItemType, { label: string, icon: typeof Calendar }> = {
+    plan: { label: 'Plan', icon: Calendar },
+    card: { label: 'Card', icon: Layers },
+    goal: { label: 'Goal', icon: Target },
+    revenue: { label: 'Revenue', icon: Wallet },
+    expense: { label: 'Expense', icon: Receipt },
+}
+
+const RESTORE: Record<TrashItemType, (id: string) => Promise<boolean>> = {
+    plan: restorePlan,
+    card: restoreCard,
+    goal: restoreGoal,
+    revenue: restoreRevenue,
+    expense: restoreExpense,
+}
+
+const PURGE: Record<TrashItemType, (id: string) => Promise<boolean>> = {
+    plan: purgePlan,
+    card: purgeCard,
+    goal: purgeGoal,
+    revenue: purgeRevenue,
+    expense: purgeExpense,
+}
+
+// Deleted plans, cards, goals, revenues and expenses, kept until restored, deleted for good or expired
+export function TrashView() {
+    const { theme } = useTheme()
+    const isDark = theme === 'dark'
+    const { refreshAll } = useData()
+    const { currentWorkspaceId } = useWorkspace()
+    const [items, setItems] = useState<TrashItem[]>([])
+    const [isLoading, setIsLoading] = useState(true)
+    const [retentionDays, setRetention] = useState(30)
+    const [busyId, setBusyId] = useState<string | null>(null)
+
+    const loadTrash = useCallback(async () => {
+        setItems(await fetchTrash(currentWorkspaceId))
+        setIsLoading(false)
+    }, [currentWorkspaceId])
+
+    useEffect(() => {
+        setRetention(getRetentionDays())
+        loadTrash()
+    }, [loadTrash])
+
+    const runAction = async (item: TrashItem, action: (id: string) => Promise<boolean>) => {
+        setBusyId(item.id)
+        const ok = await action(item.id)
+        setBusyId(null)
+        if (!ok) return
+
+        setItems(prev => prev.filter(i => !(i.type === item.type && i.id === item.id)))
+        await refreshAll(true)
+    }
+
+    const restoreItem = (item: TrashItem) => runAction(item, RESTORE[item.type])
+
+    const purgeItem = (item: TrashItem) => {
+        if (!confirm(`Delete "${item.title}" forever? This can't be undone.`)) return
+        runAction(item, PURGE[item.type])
+    }
+
+    const emptyTrash = async () => {
+        if (!confirm(`Delete all ${items.length} item(s) in the Trash forever? This can't be undone.`)) return
+        setBusyId('all')
+        await Promise.all(items.map(item => PURGE[item.type](item.id)))
+        setBusyId(null)
+        await loadTrash()
+    }
+
+    const changeRetention = (days: number) => {
+        setRetentionDays(days)
+        setRetention(days)
+    }
+
+    return (
+        <div className="space-y-6">
+            <header className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+                <div>
+                    <h1 className={clsx(
+                        "text-3xl font-bold",
+                        isDark ? "text-[#F5F5F5]" : "text-[#2D3436]"
+                    )}>
+                        Trash
+                    </h1>
+                    <p className={clsx(
+                        "mt-2",
+                        isDark ? "text-[#A0A0A0]" : "text-[#636E72]"
+                    )}>
+                        {retentionDays > 0
+                            ? `Deleted items are removed for good after ${retentionDays} days.`
+                            : 'Deleted items stay here until you remove them.'}
+                        {currentWorkspaceId && retentionDays > 0 && ' Cards from this workspace stay until a member removes them.'}
+                    </p>
+                </div>
+                <div className="flex items-center gap-3">
+                    <label className={clsx("text-sm", isDark ? "text-[#A0A0A0]" : "text-gray-600")}>
+                        Keep for
+                    </label>
+                    <select
+                        value={retentionDays}
+                        onChange={(e) => changeRetention(Number(e.target.value))}
+                        className={clsx(
+                            "px-3 py-2 rounded-lg border text-sm outline-none",
+                            isDark
+                                ? "bg-[#2A2A2A] border-[#3A3A3A] text-[#F5F5F5]"
+                                : "bg-white border-gray-200 text-[#2D3436]"
+                        )}
+                    >
+                        {RETENTION_OPTIONS.map(option => (
+                            <option key={option.days} value={option.days}>{option.label}</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={emptyTrash}
+                        disabled={items.length === 0 || busyId !== null}
+                        className="px-4 py-2 rounded-lg text-sm font-medium text-red-500 border border-red-500/40 hover:bg-red-500/10 disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                        Empty Trash
+                    </button>
+                </div>
+            </header>
+
+            {isLoading ? (
+                <div className="flex items-center justify-center py-16">
+                    <div className="w-8 h-8 border-4 border-[#FF9F1C] border-t-transparent rounded-full animate-spin" />
+                </div>
+            ) : items.length === 0 ? (
+                <div className={clsx(
+                    "text-center py-16 rounded-2xl border border-dashed",
+                    isDark ? "border-[#2A2A2A] text-[#A0A0A0]" : "border-gray-200 text-gray-500"
+                )}>
+                    <Trash2 className="w-10 h-10 mx-auto mb-3 opacity-40" />
+                    The Trash is empty.
+                </div>
+            ) : (
+                <ul className={clsx(
+                    "rounded-2xl border divide-y",
+                    isDark ? "bg-[#1A1A1A] border-[#2A2A2A] divide-[#2A2A2A]" : "bg-white border-gray-200 divide-gray-100"
+                )}>
+                    {items.map(item => {
+                        const { label, icon: Icon } = TYPE_INFO[item.type]
+                        return (
+                            <li key={`${item.type}-${item.id}`} className="flex items-center gap-4 px-4 py-3">
+                                <div className={clsx(
+                                    "p-2 rounded-lg flex-shrink-0",
+                                    isDark ? "bg-[#2A2A2A] text-[#A0A0A0]" : "bg-[#FFFBF5] text-[#E08A15]"
+                                )}>
+                                    <Icon className="w-4 h-4" />
+                                </div>
+                                <div className="flex-1 min-w-0">
+                                    <p className={clsx(
+                                        "font-medium truncate",
+                                        isDark ? "text-[#F5F5F5]" : "text-[#2D3436]"
+                                    )}>
+                                        {item.title || 'Untitled'}
+                                    </p>
+                                    <p className={clsx("text-xs", isDark ? "text-gray-500" : "text-gray-400")}>
+                                        {label} · deleted {formatDistanceToNow(parseISO(item.deletedAt), { addSuffix: true })}
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={() => restoreItem(item)}
+                                    disabled={busyId !== null}
+                                    title="Restore"
+                                    className={clsx(
+                                        "flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors disabled:opacity-40",
+                                        isDark ? "text-[#FF9F1C] hover:bg-[#2A2A2A]" : "text-[#E08A15] hover:bg-[#FFFBF5]"
+                                    )}
+                                >
+                                    <RotateCcw className="w-4 h-4" />
+                                    <span className="hidden sm:inline">Restore</span>
+                                </button>
+                                <button
+                                    onClick={() => purgeItem(item)}
+                                    disabled={busyId !== null}
+                                    title="Delete forever"
+                                    className={clsx(
+                                        "p-2 rounded-lg transition-colors text-red-500 disabled:opacity-40",
+                                        isDark ? "hover:bg-[#2A2A2A]" : "hover:bg-red-50"
+                                    )}
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </li>
+                        )
+                    })}
+                </ul>
+            )}
+        </div>
+    )
+}
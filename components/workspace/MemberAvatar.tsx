@@ -0,0 +1,50 @@
+'use client'
+
+import clsx from 'clsx'
+import { WorkspaceMember } from '@/lib/types'
+
+interface MemberAvatarProps {
+    member: WorkspaceMember
+    size?: 'sm' | 'md'
+    className?: string
+}
+
+const AVATAR_COLORS = ['#FF9F1C', '#3B82F6', '#22C55E', '#8B5CF6', '#EC4899', '#14B8A6', '#F59E0B', '#64748B']
+
+export function memberName(member: WorkspaceMember): string {
+    return member.displayName || member.email.split('@')[0]
+}
+
+// Stable color per member so the same person looks the same on every card
+function colorFor(userId: string): string {
+    let hash = 0
+    for (const char of userId) hash = (hash * 31 + char.charCodeAt(0)) | 0
+    return AVATAR_COLORS[Math.abs(hash) % AVATAR_COLORS.length]
+}
+
+export default function MemberAvatar({ member, size = 'sm', className }: MemberAvatarProps) {
+    const name = memberName(member)
+    const sizeClass = size === 'sm' ? "w-6 h-6 text-[10px]" : "w-8 h-8 text-xs"
+
+    if (member.avatarUrl) {
+        return (
+            <img
+                src={member.avatarUrl}
+                alt={name}
+                title={name}
+                className={clsx("rounded-full object-cover flex-shrink-0", sizeClass, className)}
+            />
+        )
+    }
+
+    const initials = name.split(/[\s._-]+/).map(part => part[0]).join('').slice(0, 2).toUpperCase()
+    return (
+        <span
+            title={name}
+            style={{ backgroundColor: colorFor(member.userId) }}
+            className={clsx("rounded-full flex items-center justify-center flex-shrink-0 font-bold text-white", sizeClass, className)}
+        >
+            {initials}
+        </span>
+    )
+}
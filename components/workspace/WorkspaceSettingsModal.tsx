@@ -0,0 +1,250 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { createPortal } from 'react-dom'
+import clsx from 'clsx'
+import { X, Trash2, Send, LogOut } from 'lucide-react'
+import { Workspace, WorkspaceInvitation, WorkspaceRole } from '@/lib/types'
+import {
+    fetchWorkspaceInvitations,
+    inviteToWorkspace,
+    deleteInvitation,
+    updateMemberRole,
+    removeMember,
+    renameWorkspace,
+    deleteWorkspace
+} from '@/lib/supabaseService'
+import { useAuth } from '@/lib/AuthContext'
+import { useWorkspace } from '@/lib/WorkspaceContext'
+import MemberAvatar, { memberName } from './MemberAvatar'
+
+interface WorkspaceSettingsModalProps {
+    workspace: Workspace
+    onClose: () => void
+    isDark: boolean
+}
+
+const ASSIGNABLE_ROLES: WorkspaceRole[] = ['editor', 'viewer']
+
+export default function WorkspaceSettingsModal({ workspace, onClose, isDark }: WorkspaceSettingsModalProps) {
+    const { user } = useAuth()
+    const { members, refreshMembers, refreshWorkspaces, switchWorkspace } = useWorkspace()
+    const isOwner = workspace.role === 'owner'
+
+    const [name, setName] = useState(workspace.name)
+    const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([])
+    const [inviteEmail, setInviteEmail] = useState('')
+    const [inviteRole, setInviteRole] = useState<WorkspaceRole>('editor')
+    const [error, setError] = useState<string | null>(null)
+
+    useEffect(() => {
+        if (isOwner) fetchWorkspaceInvitations(workspace.id).then(setInvitations)
+    }, [isOwner, workspace.id])
+
+    const handleInvite = async () => {
+        const email = inviteEmail.trim().toLowerCase()
+        if (!email) return
+        if (members.some(m => m.email.toLowerCase() === email)) {
+            setError(`${email} is already a member.`)
+            return
+        }
+
+        const invitation = await inviteToWorkspace(workspace.id, email, inviteRole)
+        if (!invitation) {
+            setError(`Could not invite ${email}. They may already be invited.`)
+            return
+        }
+        setInvitations(prev => [...prev, invitation])
+        setInviteEmail('')
+        setError(null)
+    }
+
+    const handleRevoke = async (invitationId: string) => {
+        if (await deleteInvitation(invitationId)) {
+            setInvitations(prev => prev.filter(i => i.id !== invitationId))
+        }
+    }
+
+    const handleRoleChange = async (userId: string, role: WorkspaceRole) => {
+        if (await updateMemberRole(workspace.id, userId, role)) refreshMembers()
+    }
+
+    const handleRemove = async (userId: string) => {
+        if (await removeMember(workspace.id, userId)) refreshMembers()
+    }
+
+    const handleRename = async () => {
+        if (!name.trim() || name.trim() === workspace.name) return
+        if (await renameWorkspace(workspace.id, name.trim())) refreshWorkspaces()
+    }
+
+    const handleLeave = async () => {
+        if (!user || !confirm(`Leave "${workspace.name}"? You'll need a new invitation to rejoin.`)) return
+        if (await removeMember(workspace.id, user.id)) {
+            switchWorkspace(null)
+            await refreshWorkspaces()
+            onClose()
+        }
+    }
+
+    const handleDelete = async () => {
+        if (!confirm(`Delete "${workspace.name}" and all of its cards for every member? This cannot be undone.`)) return
+        if (await deleteWorkspace(workspace.id)) {
+            switchWorkspace(null)
+            await refreshWorkspaces()
+            onClose()
+        }
+    }
+
+    const inputClass = clsx(
+        "px-3 py-2 rounded-xl border text-sm transition-colors focus:outline-none focus:ring-2 focus:ring-[#FF9F1C]",
+        isDark
+            ? "bg-[#2A2A2A] border-[#3A3A3A] text-[#F5F5F5] placeholder-gray-500"
+            : "bg-[#FFFBF5] border-[#EFEEEE] text-[#2D3436] placeholder-gray-400"
+    )
+    const headingClass = clsx("text-sm font-semibold mb-2", isDark ? "text-[#F5F5F5]" : "text-[#2D3436]")
+    const mutedClass = isDark ? "text-gray-500" : "text-gray-400"
+
+    // Rendered into <body> because the Navbar's backdrop blur would otherwise clip a fixed overlay
+    return createPortal(
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+            <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose} />
+            <div className={clsx(
+                "relative w-full max-w-lg rounded-2xl shadow-2xl p-6 max-h-[90vh] overflow-y-auto",
+                isDark ? "bg-[#1A1A1A]" : "bg-white"
+            )}>
+                <div className="flex items-center justify-between mb-6">
+                    <h2 className={clsx("text-xl font-bold", isDark ? "text-[#F5F5F5]" : "text-[#2D3436]")}>
+                        {workspace.name}
+                    </h2>
+                    <button
+                        onClick={onClose}
+                        className={clsx("p-2 rounded-lg transition-colors", isDark ? "hover:bg-[#2A2A2A] text-gray-400" : "hover:bg-gray-100 text-gray-500")}
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {isOwner && (
+                    <div className="mb-6">
+                        <p className={headingClass}>Name</p>
+                        <div className="flex gap-2">
+                            <input
+                                type="text"
+                                value={name}
+                                onChange={(e) => setName(e.target.value)}
+                                onBlur={handleRename}
+                                onKeyDown={(e) => { if (e.key === 'Enter') handleRename() }}
+                                className={clsx(inputClass, "flex-1")}
+                            />
+                        </div>
+                    </div>
+                )}
+
+                <div className="mb-6">
+                    <p className={headingClass}>Members</p>
+                    <div className="space-y-2">
+                        {members.map(member => (
+                            <div key={member.userId} className="flex items-center gap-3">
+                                <MemberAvatar member={member} size="md" />
+                                <div className="flex-1 min-w-0">
+                                    <p className={clsx("text-sm font-medium truncate", isDark ? "text-[#F5F5F5]" : "text-[#2D3436]")}>
+                                        {memberName(member)}
+                                        {member.userId === user?.id && <span className={clsx("ml-1 text-xs font-normal", mutedClass)}>(you)</span>}
+                                    </p>
+                                    <p className={clsx("text-xs truncate", mutedClass)}>{member.email}</p>
+                                </div>
+                                {isOwner && member.role !== 'owner' ? (
+                                    <>
+                                        <select
+                                            value={member.role}
+                                            onChange={(e) => handleRoleChange(member.userId, e.target.value as WorkspaceRole)}
+                                            className={clsx(inputClass, "py-1 capitalize")}
+                                        >
+                                            {ASSIGNABLE_ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+                                        </select>
+                                        <button
+                                            onClick={() => handleRemove(member.userId)}
+                                            title="Remove from workspace"
+                                            className="p-1.5 rounded-lg text-red-500 hover:bg-red-500/10"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </>
+                                ) : (
+                                    <span className={clsx("text-xs capitalize", mutedClass)}>{member.role}</span>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
+                {isOwner && (
+                    <div className="mb-6">
+                        <p className={headingClass}>Invite</p>
+                        <div className="flex gap-2">
+                            <input
+                                type="email"
+                                value={inviteEmail}
+                                onChange={(e) => setInviteEmail(e.target.value)}
+                                onKeyDown={(e) => { if (e.key === 'Enter') handleInvite() }}
+                                placeholder="teammate@example.com"
+                                className={clsx(inputClass, "flex-1 min-w-0")}
+                            />
+                            <select
+                                value={inviteRole}
+                                onChange={(e) => setInviteRole(e.target.value as WorkspaceRole)}
+                                className={clsx(inputClass, "capitalize")}
+                            >
+                                {ASSIGNABLE_ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+                            </select>
+                            <button
+                                onClick={handleInvite}
+                                className="px-3 rounded-xl bg-[#FF9F1C] text-white hover:bg-[#E08A15]"
+                                title="Send invitation"
+                            >
+                                <Send className="w-4 h-4" />
+                            </button>
+                        </div>
+                        {error && <p className="text-xs text-red-500 mt-2">{error}</p>}
+                        <p className={clsx("text-xs mt-2", mutedClass)}>
+                            They&apos;ll see the invitation in the workspace menu after signing in with this email.
+                        </p>
+
+                        {invitations.length > 0 && (
+                            <div className="mt-3 space-y-1">
+                                {invitations.map(invitation => (
+                                    <div key={invitation.id} className={clsx("flex items-center gap-2 text-sm", isDark ? "text-gray-300" : "text-gray-700")}>
+                                        <span className="flex-1 truncate">{invitation.email}</span>
+                                        <span className={clsx("text-xs capitalize", mutedClass)}>{invitation.role} · pending</span>
+                                        <button
+                                            onClick={() => handleRevoke(invitation.id)}
+                                            className="text-xs text-red-500 hover:underline"
+                                        >
+                                            Revoke
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                <div className={clsx("pt-4 border-t", isDark ? "border-[#2A2A2A]" : "border-[#EFEEEE]")}>
+                    {isOwner ? (
+                        <button onClick={handleDelete} className="flex items-center gap-2 text-sm text-red-500 hover:underline">
+                            <Trash2 className="w-4 h-4" />
+                            Delete workspace
+                        </button>
+                    ) : (
+                        <button onClick={handleLeave} className="flex items-center gap-2 text-sm text-red-500 hover:underline">
+                            <LogOut className="w-4 h-4" />
+                            Leave workspace
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>,
+        document.body
+    )
+}
@@ -0,0 +1,184 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import clsx from 'clsx'
+import { ChevronDown, Check, Plus, User, Users, Settings, Mail } from 'lucide-react'
+import { useAuth } from '@/lib/AuthContext'
+import { useWorkspace } from '@/lib/WorkspaceContext'
+import WorkspaceSettingsModal from './WorkspaceSettingsModal'
+
+interface WorkspaceSwitcherProps {
+    isDark: boolean
+}
+
+// Navbar dropdown to move between the personal board and shared workspaces
+export default function WorkspaceSwitcher({ isDark }: WorkspaceSwitcherProps) {
+    const { isAuthEnabled } = useAuth()
+    const {
+        workspaces,
+        currentWorkspace,
+        invitations,
+        switchWorkspace,
+        createWorkspace,
+        acceptInvitation,
+        declineInvitation
+    } = useWorkspace()
+    const [isOpen, setIsOpen] = useState(false)
+    const [isCreating, setIsCreating] = useState(false)
+    const [newName, setNewName] = useState('')
+    const [isSettingsOpen, setIsSettingsOpen] = useState(false)
+    const menuRef = useRef<HTMLDivElement>(null)
+
+    useEffect(() => {
+        if (!isOpen) return
+        const handleClick = (e: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false)
+        }
+        document.addEventListener('mousedown', handleClick)
+        return () => document.removeEventListener('mousedown', handleClick)
+    }, [isOpen])
+
+    // Workspaces need accounts to share with
+    if (!isAuthEnabled) return null
+
+    const handleCreate = async () => {
+        if (!newName.trim()) return
+        const created = await createWorkspace(newName.trim())
+        if (created) {
+            setNewName('')
+            setIsCreating(false)
+            setIsOpen(false)
+        }
+    }
+
+    const itemClass = (active: boolean) => clsx(
+        "w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-left transition-colors",
+        active
+            ? "text-[#FF9F1C] bg-[#FF9F1C]/10"
+            : isDark ? "text-gray-300 hover:bg-[#2A2A2A]" : "text-gray-700 hover:bg-gray-100"
+    )
+
+    const sectionLabel = clsx("px-3 pt-2 pb-1 text-[10px] font-semibold uppercase tracking-wide", isDark ? "text-gray-500" : "text-gray-400")
+
+    return (
+        <div ref={menuRef} className="relative">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className={clsx(
+                    "flex items-center gap-2 px-3 py-1.5 rounded-full text-sm font-medium transition-colors",
+                    isDark ? "bg-gray-800/50 text-gray-300 hover:bg-gray-800" : "bg-gray-100/80 text-gray-600 hover:bg-gray-200"
+                )}
+            >
+                {currentWorkspace ? <Users className="w-4 h-4 text-[#FF9F1C]" /> : <User className="w-4 h-4" />}
+                <span className="max-w-[120px] truncate">{currentWorkspace?.name ?? 'Personal'}</span>
+                {invitations.length > 0 && (
+                    <span className="w-2 h-2 rounded-full bg-[#FF9F1C]" />
+                )}
+                <ChevronDown className={clsx("w-4 h-4 transition-transform", isOpen && "rotate-180")} />
+            </button>
+
+            {isOpen && (
+                <div className={clsx(
+                    "absolute left-0 mt-2 w-72 rounded-xl border shadow-xl p-2",
+                    isDark ? "bg-[#1A1A1A] border-[#2A2A2A]" : "bg-white border-[#EFEEEE]"
+                )}>
+                    <button
+                        onClick={() => { switchWorkspace(null); setIsOpen(false) }}
+                        className={itemClass(!currentWorkspace)}
+                    >
+                        <User className="w-4 h-4" />
+                        <span className="flex-1">Personal</span>
+                        {!currentWorkspace && <Check className="w-4 h-4" />}
+                    </button>
+
+                    {workspaces.length > 0 && <p className={sectionLabel}>Workspaces</p>}
+                    {workspaces.map(workspace => (
+                        <button
+                            key={workspace.id}
+                            onClick={() => { switchWorkspace(workspace.id); setIsOpen(false) }}
+                            className={itemClass(currentWorkspace?.id === workspace.id)}
+                        >
+                            <Users className="w-4 h-4" />
+                            <span className="flex-1 truncate">{workspace.name}</span>
+                            <span className="text-[10px] capitalize opacity-60">{workspace.role}</span>
+                            {currentWorkspace?.id === workspace.id && <Check className="w-4 h-4" />}
+                        </button>
+                    ))}
+
+                    {invitations.length > 0 && <p className={sectionLabel}>Invitations</p>}
+                    {invitations.map(invitation => (
+                        <div key={invitation.id} className={clsx("flex items-center gap-2 px-3 py-2 rounded-lg text-sm", isDark ? "text-gray-300" : "text-gray-700")}>
+                            <Mail className="w-4 h-4 text-[#FF9F1C] flex-shrink-0" />
+                            <span className="flex-1 truncate">
+                                {invitation.workspaceName ?? 'Workspace'}
+                                <span className="ml-1 text-[10px] capitalize opacity-60">as {invitation.role}</span>
+                            </span>
+                            <button
+                                onClick={async () => { if (await acceptInvitation(invitation.id)) setIsOpen(false) }}
+                                className="px-2 py-0.5 rounded-md text-xs font-semibold bg-[#FF9F1C] text-white hover:bg-[#E08A15]"
+                            >
+                                Join
+                            </button>
+                            <button
+                                onClick={() => declineInvitation(invitation.id)}
+                                className={clsx("px-2 py-0.5 rounded-md text-xs", isDark ? "hover:bg-[#2A2A2A]" : "hover:bg-gray-100")}
+                            >
+                                Decline
+                            </button>
+                        </div>
+                    ))}
+
+                    <div className={clsx("mt-2 pt-2 border-t", isDark ? "border-[#2A2A2A]" : "border-[#EFEEEE]")}>
+                        {currentWorkspace && (
+                            <button
+                                onClick={() => { setIsSettingsOpen(true); setIsOpen(false) }}
+                                className={itemClass(false)}
+                            >
+                                <Settings className="w-4 h-4" />
+                                {currentWorkspace.role === 'owner' ? 'Manage workspace' : 'Members'}
+                            </button>
+                        )}
+                        {isCreating ? (
+                            <div className="flex gap-2 px-1 py-1">
+                                <input
+                                    type="text"
+                                    value={newName}
+                                    onChange={(e) => setNewName(e.target.value)}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter') handleCreate()
+                                        if (e.key === 'Escape') setIsCreating(false)
+                                    }}
+                                    placeholder="Workspace name"
+                                    autoFocus
+                                    className={clsx(
+                                        "flex-1 min-w-0 px-2 py-1.5 rounded-lg text-sm border outline-none focus:ring-2 focus:ring-[#FF9F1C]",
+                                        isDark ? "bg-[#2A2A2A] border-[#3A3A3A] text-[#F5F5F5]" : "bg-white border-gray-300 text-[#2D3436]"
+                                    )}
+                                />
+                                <button
+                                    onClick={handleCreate}
+                                    className="px-3 py-1 bg-[#FF9F1C] text-white rounded-lg text-sm font-medium hover:bg-[#E08A15]"
+                                >
+                                    Create
+                                </button>
+                            </div>
+                        ) : (
+                            <button onClick={() => setIsCreating(true)} className={itemClass(false)}>
+                                <Plus className="w-4 h-4" />
+                                New workspace
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {isSettingsOpen && currentWorkspace && (
+                <WorkspaceSettingsModal
+                    workspace={currentWorkspace}
+                    onClose={() => setIsSettingsOpen(false)}
+                    isDark={isDark}
+                />
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,111 @@
+'use client'
+
+import { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react'
+import { Session, User } from '@supabase/supabase-js'
+import { supabase, isSupabaseConfigured } from '@/lib/supabaseClient'
+import { clearOfflineData } from '@/lib/offlineStore'
+
+interface AuthContextType {
+    session: Session | null
+    user: User | null
+    isLoading: boolean
+    // False when running without a Supabase backend; everything is then available signed-out
+    isAuthEnabled: boolean
+
+    // Each returns an error message, or null on success
+    signInWithPassword: (email: string, password: string) => Promise<string | null>
+    signUpWithPassword: (email: string, password: string) => Promise<string | null>
+    sendMagicLink: (email: string) => Promise<string | null>
+    signOut: () => Promise<void>
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined)
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+    const [session, setSession] = useState<Session | null>(null)
+    const [isLoading, setIsLoading] = useState(isSupabaseConfigured)
+
+    useEffect(() => {
+        if (!isSupabaseConfigured) return
+
+        supabase.auth.getSession().then(({ data }) => {
+            setSession(data.session)
+            setIsLoading(false)
+        })
+
+        const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+            setSession(nextSession)
+            setIsLoading(false)
+        })
+
+        return () => subscription.unsubscribe()
+    }, [])
+
+    const signInWithPassword = useCallback(async (email: string, password: string) => {
+        const { error } = await supabase.auth.signInWithPassword({ email, password })
+        if (error) console.error('Error signing in:', error)
+        return error?.message ?? null
+    }, [])
+
+    const signUpWithPassword = useCallback(async (email: string, password: string) => {
+        const { error } = await supabase.auth.signUp({
+            email,
+            password,
+            options: { emailRedirectTo: window.location.origin }
+        })
+        if (error) console.error('Error signing up:', error)
+        return error?.message ?? null
+    }, [])
+
+    const sendMagicLink = useCallback(async (email: string) => {
+        const { error } = await supabase.auth.signInWithOtp({
+            email,
+            options: { emailRedirectTo: window.location.origin }
+        })
+        if (error) console.error('Error sending magic link:', error)
+        return error?.message ?? null
+    }, [])
+
+    const signOut = useCallback(async () => {
+        const { error } = await supabase.auth.signOut()
+        if (error) {
+            console.error('Error signing out:', error)
+            return
+        }
+        // Cached data and queued writes belong to the account that just left
+        await clearOfflineData()
+    }, [])
+
+    return (
+        <AuthContext.Provider
+            value={{
+                session,
+                user: session?.user ?? null,
+                isLoading,
+                isAuthEnabled: isSupabaseConfigured,
+                signInWithPassword,
+                signUpWithPassword,
+                sendMagicLink,
+                signOut,
+            }}
+        >
+            {children}
+        </AuthContext.Provider>
+    )
+}
+
+export function useAuth() {
+    const context = useContext(AuthContext)
+    if (context === undefined) {
+        throw new Error('useAuth must be used within an AuthProvider')
+    }
+    return context
+}
+
+// Name shown for the signed-in user: profile name if set, otherwise the part of the email before the @
+export function displayNameOf(user: User | null): string {
+    if (!user) return 'Guest'
+    const name = user.user_metadata?.full_name ?? user.user_metadata?.name
+    if (typeof name === 'string' && name.trim()) return name.trim()
+    return user.email?.split('@')[0] ?? 'User'
+}
@@ -1,8 +1,16 @@
 'use client'
 
-import { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react'
-import { Plan, KanbanCard, Goal, Revenue } from '@/lib/types'
-import { fetchPlans, fetchCards, fetchGoals, fetchRevenues, supabase } from '@/lib/supabaseService'
+import { createContext, useContext, useState, useEffect, useRef, ReactNode, useCallback } from 'react'
+import { Plan, KanbanCard, Goal, Revenue, Expense, ExchangeRate, Client, Invoice } from '@/lib/types'
+import { fetchPlan, fetchPlans, fetchCard, fetchCards, fetchGoal, fetchGoals, fetchRevenue, fetchRevenues, fetchExpenses, fetchExchangeRates, fetchClients, fetchInvoices, purgeExpiredTrash, supabase, syncQueuedMutations } from '@/lib/supabaseService'
+import { applyRowChange, applyChildChange, isUnloadedUpdate, RowChange, upsertItem } from '@/lib/realtime'
+import { mapAttachmentRow, mapCardRow, mapChecklistRow, mapCommentRow, mapGoalRow, mapPlanExceptionRow, mapPlanRow, mapRevenueRow, mapExpenseRow, mapExchangeRateRow, mapClientRow, mapInvoiceRow, mapInvoiceItemRow, mapTimeSlotRow } from '@/lib/rowMappers'
+import { useWorkspace } from '@/lib/WorkspaceContext'
+import { isOffline, loadSnapshot, saveSnapshot, subscribeToQueue, loadQueue, pendingKey, SyncEntityType } from '@/lib/offlineStore'
+import { getRetentionDays } from '@/lib/trash'
+import { isSupabaseConfigured } from '@/lib/supabaseClient'
+import { migrateInlineAttachments } from '@/lib/attachmentService'
+import { DEFAULT_CURRENCY, getReportingCurrency, setReportingCurrency as saveReportingCurrency } from '@/lib/currency'
 
 interface DataContextType {
     // Data
@@ -10,6 +18,14 @@ interface DataContextType {
     cards: KanbanCard[]
     goals: Goal[]
     revenues: Revenue[]
+    expenses: Expense[]
+    exchangeRates: ExchangeRate[]
+    clients: Client[]
+    invoices: Invoice[]
+
+    // Currency that revenue and budget summaries are converted into (per device)
+    reportingCurrency: string
+    setReportingCurrency: (currency: string) => void
 
     // Loading state
     isLoading: boolean
@@ -21,27 +37,73 @@ interface DataContextType {
     setCards: (cards: KanbanCard[] | ((prev: KanbanCard[]) => KanbanCard[])) => void
     setGoals: (goals: Goal[] | ((prev: Goal[]) => Goal[])) => void
     setRevenues: (revenues: Revenue[] | ((prev: Revenue[]) => Revenue[])) => void
+    setExpenses: (expenses: Expense[] | ((prev: Expense[]) => Expense[])) => void
+    setExchangeRates: (rates: ExchangeRate[] | ((prev: ExchangeRate[]) => ExchangeRate[])) => void
+    setClients: (clients: Client[] | ((prev: Client[]) => Client[])) => void
+    setInvoices: (invoices: Invoice[] | ((prev: Invoice[]) => Invoice[])) => void
 
     // Refresh functions
     refreshPlans: (silent?: boolean) => Promise<void>
     refreshCards: (silent?: boolean) => Promise<void>
     refreshGoals: (silent?: boolean) => Promise<void>
     refreshRevenues: (silent?: boolean) => Promise<void>
+    refreshExpenses: (silent?: boolean) => Promise<void>
+    refreshExchangeRates: (silent?: boolean) => Promise<void>
+    refreshInvoices: (silent?: boolean) => Promise<void>
     refreshAll: (silent?: boolean) => Promise<void>
+
+    // Offline sync
+    isOnline: boolean
+    pendingCount: number
+    isPendingSync: (type: SyncEntityType, id: string) => boolean
 }
 
+const SYNC_RETRY_MS = 60 * 1000
+
 const DataContext = createContext<DataContextType | undefined>(undefined)
 
+function cardsSnapshotKey(workspaceId: string | null): string {
+    return workspaceId ? `cards:${workspaceId}` : 'cards'
+}
+
 export function DataProvider({ children }: { children: ReactNode }) {
     const [plans, setPlans] = useState<Plan[]>([])
     const [cards, setCards] = useState<KanbanCard[]>([])
     const [goals, setGoals] = useState<Goal[]>([])
     const [revenues, setRevenues] = useState<Revenue[]>([])
+    const [expenses, setExpenses] = useState<Expense[]>([])
+    const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([])
+    const [clients, setClients] = useState<Client[]>([])
+    const [invoices, setInvoices] = useState<Invoice[]>([])
+    const [reportingCurrency, setReportingCurrencyState] = useState(DEFAULT_CURRENCY)
     const [isLoading, setIsLoading] = useState(true)
     const [isInitialized, setIsInitialized] = useState(false)
+    const [isOnline, setIsOnline] = useState(true)
+    const [pendingKeys, setPendingKeys] = useState<Set<string>>(new Set())
+    const [pendingCount, setPendingCount] = useState(0)
+    const [failedCount, setFailedCount] = useState(0)
+
+    // Cards follow the board selected in the workspace switcher; everything else is personal
+    const { currentWorkspaceId } = useWorkspace()
+    const [cardsBoard, setCardsBoard] = useState<string | null>(currentWorkspaceId)
+    const workspaceRef = useRef(currentWorkspaceId)
+    workspaceRef.current = currentWorkspaceId
+
+    // Latest lists for the realtime handlers, which only read them to spot rows that aren't loaded
+    const plansRef = useRef(plans)
+    plansRef.current = plans
+    const cardsRef = useRef(cards)
+    cardsRef.current = cards
+    const goalsRef = useRef(goals)
+    goalsRef.current = goals
+    const revenuesRef = useRef(revenues)
+    revenuesRef.current = revenues
 
     // Refresh functions
+    // While offline the local state is the source of truth,
+    // so refreshes are skipped rather than replacing it with empty results.
     const refreshPlans = useCallback(async (silent = false) => {
+        if (isOffline()) return
         if (!silent) setIsLoading(true)
         const data = await fetchPlans()
         setPlans(data)
@@ -49,13 +111,15 @@ export function DataProvider({ children }: { children: ReactNode }) {
     }, [])
 
     const refreshCards = useCallback(async (silent = false) => {
+        if (isOffline()) return
         if (!silent) setIsLoading(true)
-        const data = await fetchCards()
+        const data = await fetchCards(currentWorkspaceId)
         setCards(data)
         if (!silent) setIsLoading(false)
-    }, [])
+    }, [currentWorkspaceId])
 
     const refreshGoals = useCallback(async (silent = false) => {
+        if (isOffline()) return
         if (!silent) setIsLoading(true)
         const data = await fetchGoals()
         setGoals(data)
@@ -63,74 +127,300 @@ export function DataProvider({ children }: { children: ReactNode }) {
     }, [])
 
     const refreshRevenues = useCallback(async (silent = false) => {
+        if (isOffline()) return
         if (!silent) setIsLoading(true)
         const data = await fetchRevenues()
         setRevenues(data)
         if (!silent) setIsLoading(false)
     }, [])
 
+    const refreshExpenses = useCallback(async (silent = false) => {
+        if (isOffline()) return
+        if (!silent) setIsLoading(true)
+        const data = await fetchExpenses()
+        setExpenses(data)
+        if (!silent) setIsLoading(false)
+    }, [])
+
+    const refreshExchangeRates = useCallback(async (silent = false) => {
+        if (isOffline()) return
+        if (!silent) setIsLoading(true)
+        const data = await fetchExchangeRates()
+        setExchangeRates(data)
+        if (!silent) setIsLoading(false)
+    }, [])
+
+    // Clients and invoices load together: invoices refer to their client
+    const refreshInvoices = useCallback(async (silent = false) => {
+        if (isOffline()) return
+        if (!silent) setIsLoading(true)
+        const [clientsData, invoicesData] = await Promise.all([fetchClients(), fetchInvoices()])
+        setClients(clientsData)
+        setInvoices(invoicesData)
+        if (!silent) setIsLoading(false)
+    }, [])
+
     const refreshAll = useCallback(async (silent = false) => {
+        if (isOffline()) return
         if (!silent) setIsLoading(true)
-        const [plansData, cardsData, goalsData, revenuesData] = await Promise.all([
+        const [plansData, cardsData, goalsData, revenuesData, expensesData, ratesData, clientsData, invoicesData] = await Promise.all([
             fetchPlans(),
-            fetchCards(),
+            fetchCards(currentWorkspaceId),
             fetchGoals(),
-            fetchRevenues()
+            fetchRevenues(),
+            fetchExpenses(),
+            fetchExchangeRates(),
+            fetchClients(),
+            fetchInvoices()
         ])
         setPlans(plansData)
         setCards(cardsData)
         setGoals(goalsData)
         setRevenues(revenuesData)
+        setExpenses(expensesData)
+        setExchangeRates(ratesData)
+        setClients(clientsData)
+        setInvoices(invoicesData)
         if (!silent) setIsLoading(false)
-    }, [])
+    }, [currentWorkspaceId])
 
     // Real-time subscriptions
     useEffect(() => {
         if (!isInitialized) return
 
+        // Each change is applied to the affected entity only; child rows are matched to their parent
+        const onPlanChange = (table: string, apply: (items: Plan[], payload: RowChange) => Plan[]) =>
+            [table, (payload: RowChange) => setPlans(prev => apply(prev, payload))] as const
+        const onCardChange = (table: string, apply: (items: KanbanCard[], payload: RowChange) => KanbanCard[]) =>
+            [table, (payload: RowChange) => setCards(prev => apply(prev, payload))] as const
+        const onGoalChange = (table: string, apply: (items: Goal[], payload: RowChange) => Goal[]) =>
+            [table, (payload: RowChange) => setGoals(prev => apply(prev, payload))] as const
+        const onInvoiceChange = (table: string, apply: (items: Invoice[], payload: RowChange) => Invoice[]) =>
+            [table, (payload: RowChange) => setInvoices(prev => apply(prev, payload))] as const
+
+        // A row restored elsewhere arrives without its child rows, so that entity is fetched whole
+        const orFetchRestored = <T extends { id: string }>(
+            loaded: { current: T[] },
+            setItems: (update: (prev: T[]) => T[]) => void,
+            fetchOne: (id: string) => Promise<T | null>,
+            apply: (items: T[], payload: RowChange) => T[]
+        ) => (payload: RowChange) => {
+            if (payload.eventType !== 'UPDATE' || !isUnloadedUpdate(loaded.current, payload)) {
+                setItems(prev => apply(prev, payload))
+                return
+            }
+            fetchOne(payload.new.id as string).then(item => {
+                if (item) setItems(prev => upsertItem(prev, item))
+            })
+        }
+        const onCardRowChange = orFetchRestored(cardsRef, setCards, fetchCard, (items, payload) => applyRowChange(items, payload, (row, existing) => mapCardRow(row, existing)))
+
+        const subscribe = (name: string, handlers: (readonly [string, (payload: RowChange) => void])[]) => {
+            const channel = supabase.channel(name)
+            handlers.forEach(([table, handler]) => {
+                channel.on('postgres_changes', { event: '*', schema: 'public', table }, handler)
+            })
+            return channel.subscribe()
+        }
+
         const channels = [
             // Plans subscription
-            supabase
-                .channel('plans-changes')
-                .on('postgres_changes', { event: '*', schema: 'public', table: 'plans' }, () => refreshPlans(true))
-                .on('postgres_changes', { event: '*', schema: 'public', table: 'plan_attachments' }, () => refreshPlans(true))
-                .subscribe(),
+            subscribe('plans-changes', [
+                ['plans', orFetchRestored(plansRef, setPlans, fetchPlan, (items, payload) => applyRowChange(items, payload, (row, existing) => mapPlanRow(row, existing)))],
+                onPlanChange('plan_attachments', (items, payload) => applyChildChange(items, payload, 'plan_id', 'attachments', mapAttachmentRow)),
+                onPlanChange('plan_time_slots', (items, payload) => applyChildChange(items, payload, 'plan_id', 'timeSlots', mapTimeSlotRow)),
+                onPlanChange('plan_exceptions', (items, payload) => applyChildChange(items, payload, 'plan_id', 'exceptions', mapPlanExceptionRow)),
+                onPlanChange('plan_checklist_items', (items, payload) => applyChildChange(items, payload, 'plan_id', 'checklist', mapChecklistRow)),
+                onPlanChange('plan_comments', (items, payload) => applyChildChange(items, payload, 'plan_id', 'comments', mapCommentRow)),
+            ]),
 
             // Cards subscription
-            supabase
-                .channel('cards-changes')
-                .on('postgres_changes', { event: '*', schema: 'public', table: 'kanban_cards' }, () => refreshCards(true))
-                .on('postgres_changes', { event: '*', schema: 'public', table: 'card_attachments' }, () => refreshCards(true))
-                .on('postgres_changes', { event: '*', schema: 'public', table: 'card_checklist_items' }, () => refreshCards(true))
-                .on('postgres_changes', { event: '*', schema: 'public', table: 'card_comments' }, () => refreshCards(true))
-                .subscribe(),
+            subscribe('cards-changes', [
+                ['kanban_cards', (payload: RowChange) => {
+                    // Cards moved to (or living on) another board leave this one
+                    if (payload.eventType !== 'DELETE' && (payload.new.workspace_id ?? null) !== workspaceRef.current) {
+                        setCards(prev => prev.filter(card => card.id !== payload.new.id))
+                        return
+                    }
+                    onCardRowChange(payload)
+                }],
+                onCardChange('card_attachments', (items, payload) => applyChildChange(items, payload, 'card_id', 'attachments', mapAttachmentRow)),
+                onCardChange('card_checklist_items', (items, payload) => applyChildChange(items, payload, 'card_id', 'checklist', mapChecklistRow)),
+                onCardChange('card_comments', (items, payload) => applyChildChange(items, payload, 'card_id', 'comments', mapCommentRow)),
+                onCardChange('card_time_slots', (items, payload) => applyChildChange(items, payload, 'card_id', 'timeSlots', mapTimeSlotRow)),
+            ]),
 
             // Goals subscription
-            supabase
-                .channel('goals-changes')
-                .on('postgres_changes', { event: '*', schema: 'public', table: 'goals' }, () => refreshGoals(true))
-                .subscribe(),
+            subscribe('goals-changes', [
+                ['goals', orFetchRestored(goalsRef, setGoals, fetchGoal, (items, payload) => applyRowChange(items, payload, (row, existing) => mapGoalRow(row, existing)))],
+                onGoalChange('goal_checklist_items', (items, payload) => applyChildChange(items, payload, 'goal_id', 'checklist', mapChecklistRow)),
+                onGoalChange('goal_comments', (items, payload) => applyChildChange(items, payload, 'goal_id', 'comments', mapCommentRow)),
+                onGoalChange('goal_attachments', (items, payload) => applyChildChange(items, payload, 'goal_id', 'attachments', mapAttachmentRow)),
+            ]),
 
             // Revenues subscription
-            supabase
-                .channel('revenues-changes')
-                .on('postgres_changes', { event: '*', schema: 'public', table: 'revenues' }, () => refreshRevenues(true))
-                .subscribe(),
+            subscribe('revenues-changes', [
+                ['revenues', orFetchRestored(revenuesRef, setRevenues, fetchRevenue, (items, payload) => applyRowChange(items, payload, (row, existing) => mapRevenueRow(row, existing)))],
+                ['revenue_attachments', (payload: RowChange) => setRevenues(prev => applyChildChange(prev, payload, 'revenue_id', 'attachments', mapAttachmentRow))],
+                ['expenses', (payload: RowChange) => setExpenses(prev => applyRowChange(prev, payload, mapExpenseRow))],
+                ['exchange_rates', (payload: RowChange) => setExchangeRates(prev => applyRowChange(prev, payload, mapExchangeRateRow))],
+            ]),
+
+            // Clients and invoices subscription
+            subscribe('invoices-changes', [
+                ['clients', (payload: RowChange) => setClients(prev => applyRowChange(prev, payload, mapClientRow))],
+                onInvoiceChange('invoices', (items, payload) => applyRowChange(items, payload, (row, existing) => mapInvoiceRow(row, existing))),
+                onInvoiceChange('invoice_items', (items, payload) => applyChildChange(items, payload, 'invoice_id', 'items', mapInvoiceItemRow)),
+            ]),
         ]
 
         return () => {
             channels.forEach(channel => supabase.removeChannel(channel))
         }
-    }, [isInitialized, refreshPlans, refreshCards, refreshGoals, refreshRevenues])
+    }, [isInitialized])
 
-    // Load all data once on mount
+    // Load all data once on mount: cached snapshot first, then the network
+    const loadStarted = useRef(false)
     useEffect(() => {
-        if (!isInitialized) {
-            refreshAll().then(() => {
-                setIsInitialized(true)
-            })
+        if (isInitialized || loadStarted.current) return
+        loadStarted.current = true
+
+        const load = async () => {
+            setReportingCurrencyState(getReportingCurrency())
+            const [cachedPlans, cachedCards, cachedGoals, cachedRevenues, cachedExpenses, cachedRates, cachedClients, cachedInvoices] = await Promise.all([
+                loadSnapshot<Plan>('plans'),
+                // The board the cards state belongs to; a switch during the load is picked up afterwards
+                loadSnapshot<KanbanCard>(cardsSnapshotKey(cardsBoard)),
+                loadSnapshot<Goal>('goals'),
+                loadSnapshot<Revenue>('revenues'),
+                loadSnapshot<Expense>('expenses'),
+                loadSnapshot<ExchangeRate>('exchange_rates'),
+                loadSnapshot<Client>('clients'),
+                loadSnapshot<Invoice>('invoices'),
+                loadQueue()
+            ])
+            if (cachedPlans) setPlans(cachedPlans)
+            if (cachedCards) setCards(cachedCards)
+            if (cachedGoals) setGoals(cachedGoals)
+            if (cachedRevenues) setRevenues(cachedRevenues)
+            if (cachedExpenses) setExpenses(cachedExpenses)
+            if (cachedRates) setExchangeRates(cachedRates)
+            if (cachedClients) setClients(cachedClients)
+            if (cachedInvoices) setInvoices(cachedInvoices)
+            const hasCache = !!(cachedPlans || cachedCards || cachedGoals || cachedRevenues)
+            if (hasCache) setIsLoading(false)
+
+            // Push anything queued in a previous session before pulling fresh data
+            await syncQueuedMutations()
+            await refreshAll(hasCache)
+            setIsLoading(false)
+            setIsInitialized(true)
+
+            // Trashed rows aren't part of the loaded data, so the purge can run in the background
+            const retentionDays = getRetentionDays()
+            if (retentionDays > 0) purgeExpiredTrash(retentionDays)
+
+            // Files attached before uploads went to Storage are still inline; move them once
+            if (isSupabaseConfigured && !isOffline()) {
+                migrateInlineAttachments().then(moved => {
+                    if (moved > 0) refreshAll(true)
+                })
+            }
         }
-    }, [isInitialized, refreshAll])
+        load()
+    }, [isInitialized, cardsBoard, refreshAll])
+
+    // Persist snapshots so the next load can render before the network responds
+    useEffect(() => {
+        if (isInitialized) saveSnapshot('plans', plans)
+    }, [isInitialized, plans])
+
+    useEffect(() => {
+        if (isInitialized) saveSnapshot(cardsSnapshotKey(cardsBoard), cards)
+    }, [isInitialized, cards, cardsBoard])
+
+    // Switching boards: show the cached cards of the new board, then fetch it
+    useEffect(() => {
+        if (!isInitialized || cardsBoard === currentWorkspaceId) return
+
+        const switchBoard = async () => {
+            const cached = await loadSnapshot<KanbanCard>(cardsSnapshotKey(currentWorkspaceId))
+            setCards(cached ?? [])
+            setCardsBoard(currentWorkspaceId)
+            await refreshCards(true)
+        }
+        switchBoard()
+    }, [isInitialized, cardsBoard, currentWorkspaceId, refreshCards])
+
+    useEffect(() => {
+        if (isInitialized) saveSnapshot('goals', goals)
+    }, [isInitialized, goals])
+
+    useEffect(() => {
+        if (isInitialized) saveSnapshot('revenues', revenues)
+    }, [isInitialized, revenues])
+
+    useEffect(() => {
+        if (isInitialized) saveSnapshot('expenses', expenses)
+    }, [isInitialized, expenses])
+
+    useEffect(() => {
+        if (isInitialized) saveSnapshot('exchange_rates', exchangeRates)
+    }, [isInitialized, exchangeRates])
+
+    useEffect(() => {
+        if (isInitialized) saveSnapshot('clients', clients)
+    }, [isInitialized, clients])
+
+    useEffect(() => {
+        if (isInitialized) saveSnapshot('invoices', invoices)
+    }, [isInitialized, invoices])
+
+    const setReportingCurrency = useCallback((currency: string) => {
+        saveReportingCurrency(currency)
+        setReportingCurrencyState(currency)
+    }, [])
+
+    // Track queued writes for the "pending sync" badges
+    useEffect(() => {
+        return subscribeToQueue(queue => {
+            setPendingKeys(new Set(queue.map(m => pendingKey(m.entity.type, m.entity.id))))
+            setPendingCount(queue.length)
+            setFailedCount(queue.filter(m => (m.attempts ?? 0) > 0 && !m.conflict && !m.abandoned).length)
+        })
+    }, [])
+
+    // Queued writes that failed while online stay queued; try them again every so often
+    useEffect(() => {
+        if (!isInitialized || !isOnline || failedCount === 0) return
+        const timer = setInterval(async () => {
+            await syncQueuedMutations()
+            await refreshAll(true)
+        }, SYNC_RETRY_MS)
+        return () => clearInterval(timer)
+    }, [isInitialized, isOnline, failedCount, refreshAll])
+
+    // Replay queued writes when connectivity returns
+    useEffect(() => {
+        const handleOnline = async () => {
+            setIsOnline(true)
+            await syncQueuedMutations()
+            await refreshAll(true)
+        }
+        const handleOffline = () => setIsOnline(false)
+
+        setIsOnline(!isOffline())
+        window.addEventListener('online', handleOnline)
+        window.addEventListener('offline', handleOffline)
+        return () => {
+            window.removeEventListener('online', handleOnline)
+            window.removeEventListener('offline', handleOffline)
+        }
+    }, [refreshAll])
+
+    const isPendingSync = useCallback((type: SyncEntityType, id: string) => {
+        return pendingKeys.has(pendingKey(type, id))
+    }, [pendingKeys])
 
     return (
         <DataContext.Provider value={{
@@ -138,6 +428,12 @@ export function DataProvider({ children }: { children: ReactNode }) {
             cards,
             goals,
             revenues,
+            expenses,
+            exchangeRates,
+            clients,
+            invoices,
+            reportingCurrency,
+            setReportingCurrency,
             isLoading,
             isInitialized,
             isDataLoading: isLoading,
@@ -145,11 +441,21 @@ export function DataProvider({ children }: { children: ReactNode }) {
             setCards,
             setGoals,
             setRevenues,
+            setExpenses,
+            setExchangeRates,
+            setClients,
+            setInvoices,
             refreshPlans: () => refreshPlans(false),
             refreshCards: () => refreshCards(false),
             refreshGoals: () => refreshGoals(false),
             refreshRevenues: () => refreshRevenues(false),
-            refreshAll: () => refreshAll(false)
+            refreshExpenses: () => refreshExpenses(false),
+            refreshExchangeRates: () => refreshExchangeRates(false),
+            refreshInvoices: () => refreshInvoices(false),
+            refreshAll: () => refreshAll(false),
+            isOnline,
+            pendingCount,
+            isPendingSync
         }}>
             {children}
         </DataContext.Provider>
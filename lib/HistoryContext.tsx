@@ -0,0 +1,139 @@
+'use client'
+
+import { createContext, useContext, useState, useEffect, useRef, ReactNode, useCallback } from 'react'
+import { useData } from '@/lib/DataContext'
+
+const MAX_HISTORY = 50
+const TOAST_DURATION = 6000
+
+export interface HistoryAction {
+    label: string // Shown in the toast, e.g. 'Deleted "Groceries"'
+    // Both resolve to false when the change could not be applied
+    undo: () => Promise<boolean>
+    redo: () => Promise<boolean>
+}
+
+export interface HistoryToast {
+    id: number
+    message: string
+    // Which step the toast button performs
+    action: 'undo' | 'redo' | null
+}
+
+interface HistoryContextType {
+    canUndo: boolean
+    canRedo: boolean
+    toast: HistoryToast | null
+
+    record: (action: HistoryAction) => void
+    undo: () => Promise<void>
+    redo: () => Promise<void>
+    dismissToast: () => void
+}
+
+const HistoryContext = createContext<HistoryContextType | undefined>(undefined)
+
+// Keyboard shortcuts stay with the browser's own text undo while typing
+function isEditableTarget(target: EventTarget | null): boolean {
+    if (!(target instanceof HTMLElement)) return false
+    return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
+
+export function HistoryProvider({ children }: { children: ReactNode }) {
+    const { refreshAll } = useData()
+    const [undoStack, setUndoStack] = useState<HistoryAction[]>([])
+    const [redoStack, setRedoStack] = useState<HistoryAction[]>([])
+    const [toast, setToast] = useState<HistoryToast | null>(null)
+    const isRunning = useRef(false)
+    const toastId = useRef(0)
+
+    const showToast = useCallback((message: string, action: HistoryToast['action']) => {
+        toastId.current += 1
+        setToast({ id: toastId.current, message, action })
+    }, [])
+
+    useEffect(() => {
+        if (!toast) return
+        const timer = setTimeout(() => setToast(null), TOAST_DURATION)
+        return () => clearTimeout(timer)
+    }, [toast])
+
+    const record = useCallback((action: HistoryAction) => {
+        setUndoStack(prev => [...prev, action].slice(-MAX_HISTORY))
+        setRedoStack([])
+        showToast(action.label, 'undo')
+    }, [showToast])
+
+    // Runs one step and moves the action to the other stack; failed steps stay where they were
+    const step = useCallback(async (direction: 'undo' | 'redo') => {
+        const stack = direction === 'undo' ? undoStack : redoStack
+        const action = stack[stack.length - 1]
+        if (!action || isRunning.current) return
+
+        isRunning.current = true
+        try {
+            const ok = await action[direction]()
+            if (!ok) {
+                showToast(`Couldn't ${direction}: ${action.label}`, null)
+                return
+            }
+
+            const [setFrom, setTo] = direction === 'undo' ? [setUndoStack, setRedoStack] : [setRedoStack, setUndoStack]
+            setFrom(prev => prev.slice(0, -1))
+            setTo(prev => [...prev, action])
+            showToast(direction === 'undo' ? `Undone: ${action.label}` : action.label, direction === 'undo' ? 'redo' : 'undo')
+
+            // Boards hold optimistic copies; reload so restored or re-removed items show up everywhere
+            await refreshAll(true)
+        } finally {
+            isRunning.current = false
+        }
+    }, [undoStack, redoStack, showToast, refreshAll])
+
+    const undo = useCallback(() => step('undo'), [step])
+    const redo = useCallback(() => step('redo'), [step])
+
+    // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), plus Ctrl+Y for redo
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || isEditableTarget(e.target)) return
+            const key = e.key.toLowerCase()
+
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault()
+                undo()
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault()
+                redo()
+            }
+        }
+        window.addEventListener('keydown', handleKeyDown)
+        return () => window.removeEventListener('keydown', handleKeyDown)
+    }, [undo, redo])
+
+    const dismissToast = useCallback(() => setToast(null), [])
+
+    return (
+        <HistoryContext.Provider
+            value={{
+                canUndo: undoStack.length > 0,
+                canRedo: redoStack.length > 0,
+                toast,
+                record,
+                undo,
+                redo,
+                dismissToast,
+            }}
+        >
+            {children}
+        </HistoryContext.Provider>
+    )
+}
+
+export function useHistory() {
+    const context = useContext(HistoryContext)
+    if (context === undefined) {
+        throw new Error('useHistory must be used within a HistoryProvider')
+    }
+    return context
+}
@@ -0,0 +1,135 @@
+'use client'
+
+import { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react'
+import { Workspace, WorkspaceMember, WorkspaceInvitation, WorkspaceRole } from '@/lib/types'
+import {
+    fetchWorkspaces,
+    fetchWorkspaceMembers,
+    fetchMyInvitations,
+    createWorkspace as createWorkspaceDB,
+    acceptInvitation as acceptInvitationDB,
+    deleteInvitation
+} from '@/lib/supabaseService'
+import { useAuth } from '@/lib/AuthContext'
+
+const STORAGE_KEY = 'planner-workspace'
+
+interface WorkspaceContextType {
+    workspaces: Workspace[]
+    // null = the personal board
+    currentWorkspace: Workspace | null
+    currentWorkspaceId: string | null
+    members: WorkspaceMember[]
+    invitations: WorkspaceInvitation[] // Pending invitations for the signed-in user
+
+    // Role on the current board; the personal board is always owned
+    role: WorkspaceRole
+    canEdit: boolean
+
+    switchWorkspace: (workspaceId: string | null) => void
+    createWorkspace: (name: string) => Promise<Workspace | null>
+    acceptInvitation: (invitationId: string) => Promise<boolean>
+    declineInvitation: (invitationId: string) => Promise<boolean>
+    refreshWorkspaces: () => Promise<void>
+    refreshMembers: () => Promise<void>
+}
+
+const WorkspaceContext = createContext<WorkspaceContextType | undefined>(undefined)
+
+export function WorkspaceProvider({ children }: { children: ReactNode }) {
+    const { user } = useAuth()
+    const [workspaces, setWorkspaces] = useState<Workspace[]>([])
+    // Restore the last board right away so data isn't loaded for the personal board first
+    const [currentWorkspaceId, setCurrentWorkspaceId] = useState<string | null>(
+        () => user && typeof window !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null
+    )
+    const [members, setMembers] = useState<WorkspaceMember[]>([])
+    const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([])
+
+    const refreshWorkspaces = useCallback(async () => {
+        if (!user) return
+        const [workspaceData, invitationData] = await Promise.all([
+            fetchWorkspaces(user.id),
+            user.email ? fetchMyInvitations(user.email) : Promise.resolve([])
+        ])
+        setWorkspaces(workspaceData)
+        setInvitations(invitationData)
+
+        // Fall back to the personal board if we were removed from the stored workspace
+        setCurrentWorkspaceId(prev => prev && workspaceData.some(w => w.id === prev) ? prev : null)
+    }, [user])
+
+    const refreshMembers = useCallback(async () => {
+        setMembers(currentWorkspaceId ? await fetchWorkspaceMembers(currentWorkspaceId) : [])
+    }, [currentWorkspaceId])
+
+    useEffect(() => {
+        refreshWorkspaces()
+    }, [refreshWorkspaces])
+
+    useEffect(() => {
+        refreshMembers()
+    }, [refreshMembers])
+
+    const switchWorkspace = useCallback((workspaceId: string | null) => {
+        setCurrentWorkspaceId(workspaceId)
+        if (workspaceId) localStorage.setItem(STORAGE_KEY, workspaceId)
+        else localStorage.removeItem(STORAGE_KEY)
+    }, [])
+
+    const createWorkspace = useCallback(async (name: string) => {
+        const created = await createWorkspaceDB(name)
+        if (!created) return null
+        setWorkspaces(prev => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)))
+        switchWorkspace(created.id)
+        return created
+    }, [switchWorkspace])
+
+    const acceptInvitation = useCallback(async (invitationId: string) => {
+        const workspaceId = await acceptInvitationDB(invitationId)
+        if (!workspaceId) return false
+        await refreshWorkspaces()
+        switchWorkspace(workspaceId)
+        return true
+    }, [refreshWorkspaces, switchWorkspace])
+
+    const declineInvitation = useCallback(async (invitationId: string) => {
+        const success = await deleteInvitation(invitationId)
+        if (success) setInvitations(prev => prev.filter(i => i.id !== invitationId))
+        return success
+    }, [])
+
+    const currentWorkspace = workspaces.find(w => w.id === currentWorkspaceId) ?? null
+    // Treat a workspace that hasn't loaded yet as read-only
+    const role: WorkspaceRole = currentWorkspaceId ? currentWorkspace?.role ?? 'viewer' : 'owner'
+
+    return (
+        <WorkspaceContext.Provider
+            value={{
+                workspaces,
+                currentWorkspace,
+                currentWorkspaceId,
+                members,
+                invitations,
+                role,
+                canEdit: role !== 'viewer',
+                switchWorkspace,
+                createWorkspace,
+                acceptInvitation,
+                declineInvitation,
+                refreshWorkspaces,
+                refreshMembers,
+            }}
+        >
+            {children}
+        </WorkspaceContext.Provider>
+    )
+}
+
+export function useWorkspace() {
+    const context = useContext(WorkspaceContext)
+    if (context === undefined) {
+        throw new Error('useWorkspace must be used within a WorkspaceProvider')
+    }
+    return context
+}
@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { findOrphanedObjects, referencedAttachmentPaths, StoredObject } from '../attachmentCleanup'
+import { createCard, createExpense, createPlan, updateCard } from '../supabaseService'
+import { makeCard, makeExpense, makePlan, useLocalBackend } from './fixtures'
+
+const BUCKET_URL = 'https://x.supabase.co/storage/v1/object/public/attachments'
+
+beforeEach(() => {
+    useLocalBackend()
+})
+
+describe('referencedAttachmentPaths', () => {
+    it('collects object paths from attachment rows, thumbnails and receipts', async () => {
+        await createPlan(makePlan({
+            attachments: [{ id: 'att-1', type: 'file', name: 'brief.pdf', url: `${BUCKET_URL}/plan_1_brief.pdf`, storagePath: 'plan_1_brief.pdf' }]
+        }))
+        await createCard(makeCard({
+            attachments: [
+                { id: 'att-2', type: 'file', name: 'photo.jpg', url: `${BUCKET_URL}/inbox_2.jpg` },
+                { id: 'att-3', type: 'link', name: 'Docs', url: 'https://example.com/docs' }
+            ]
+        }))
+        await createExpense(makeExpense({ receipt: { id: 'r', type: 'file', name: 'Receipt', url: `${BUCKET_URL}/receipt_3_bill.png` } }))
+
+        const paths = await referencedAttachmentPaths()
+
+        expect(paths).toEqual(new Set([
+            'plan_1_brief.pdf', 'thumb_plan_1_brief.jpg',
+            'inbox_2.jpg', 'thumb_inbox_2.jpg',
+            'receipt_3_bill.png', 'thumb_receipt_3_bill.jpg'
+        ]))
+    })
+
+    it('drops files that were removed from a card', async () => {
+        const card = makeCard({
+            attachments: [{ id: 'att-1', type: 'file', name: 'old.pdf', url: `${BUCKET_URL}/card_1_old.pdf`, storagePath: 'card_1_old.pdf' }]
+        })
+        await createCard(card)
+        await updateCard({ ...card, attachments: [] })
+
+        expect((await referencedAttachmentPaths())?.has('card_1_old.pdf')).toBe(false)
+    })
+})
+
+describe('findOrphanedObjects', () => {
+    const now = new Date('2026-10-19T12:00:00.000Z')
+    const object = (name: string, createdAt: string | null): StoredObject => ({ name, createdAt, size: 10 })
+
+    it('deletes only unreferenced app files older than the grace period', () => {
+        const result = findOrphanedObjects([
+            object('card_1_kept.pdf', '2026-09-01T00:00:00.000Z'),
+            object('card_2_gone.pdf', '2026-09-01T00:00:00.000Z'),
+            object('inbox_3.jpg', '2026-10-18T00:00:00.000Z'),
+            object('inbox_4.jpg', null),
+            object('logo.png', '2026-01-01T00:00:00.000Z')
+        ], new Set(['card_1_kept.pdf']), { graceDays: 7, now })
+
+        expect(result.orphaned.map(o => o.name)).toEqual(['card_2_gone.pdf'])
+        expect(result.tooRecent.map(o => o.name)).toEqual(['inbox_3.jpg', 'inbox_4.jpg'])
+        expect(result.skipped.map(o => o.name)).toEqual(['logo.png'])
+    })
+
+    it('treats everything unreferenced as orphaned with no grace period', () => {
+        const result = findOrphanedObjects([object('inbox_3.jpg', '2026-10-19T11:59:00.000Z')], new Set(), { graceDays: 0, now })
+        expect(result.orphaned).toHaveLength(1)
+    })
+})
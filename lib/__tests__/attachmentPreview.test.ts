@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { codeLanguage, highlightCode, pdfPageCount, previewKind } from '../attachmentPreview'
+import { Attachment } from '../types'
+
+const file = (name: string, mimeType?: string): Attachment => ({ id: name, type: 'file', name, url: `https://example.com/${name}`, mimeType })
+
+describe('previewKind', () => {
+    it('goes by the recorded type, then by the extension', () => {
+        expect(previewKind(file('scan', 'application/pdf'))).toBe('pdf')
+        expect(previewKind(file('photo.JPG'))).toBe('image')
+        expect(previewKind(file('memo.m4a'))).toBe('audio')
+        expect(previewKind(file('clip.mov'))).toBe('video')
+        expect(previewKind(file('notes.md'))).toBe('text')
+        expect(previewKind(file('script.ts'))).toBe('text')
+        expect(previewKind(file('archive.zip', 'application/zip'))).toBe('none')
+        expect(previewKind({ id: 'l', type: 'link', name: 'Docs', url: 'https://example.com' })).toBe('link')
+    })
+})
+
+describe('highlightCode', () => {
+    it('marks comments, strings, numbers and keywords without changing the text', () => {
+        const source = 'const total = 42 // answer\nreturn "done"'
+        const tokens = highlightCode(source, codeLanguage('sum.ts'))
+
+        expect(tokens.map(t => t.text).join('')).toBe(source)
+        expect(tokens.filter(t => t.kind === 'keyword').map(t => t.text)).toEqual(['const', 'return'])
+        expect(tokens.find(t => t.kind === 'number')?.text).toBe('42')
+        expect(tokens.find(t => t.kind === 'comment')?.text).toBe('// answer')
+        expect(tokens.find(t => t.kind === 'string')?.text).toBe('"done"')
+    })
+
+    it('highlights markdown headings and inline code', () => {
+        const source = '# Plan\nRun `npm test` first\n'
+        const tokens = highlightCode(source, codeLanguage('README.md'))
+
+        expect(tokens.map(t => t.text).join('')).toBe(source)
+        expect(tokens[0]).toEqual({ kind: 'heading', text: '# Plan\n' })
+        expect(tokens.find(t => t.kind === 'string')?.text).toBe('`npm test`')
+    })
+
+    it('leaves plain text in one token', () => {
+        expect(highlightCode('just words', codeLanguage('notes.txt'))).toEqual([{ kind: 'plain', text: 'just words' }])
+    })
+})
+
+describe('pdfPageCount', () => {
+    it('counts page objects but not the page tree', () => {
+        const pdf = '1 0 obj << /Type /Pages /Kids [2 0 R 3 0 R] >> 2 0 obj << /Type /Page >> 3 0 obj << /Type/Page >>'
+        expect(pdfPageCount(pdf)).toBe(2)
+        expect(pdfPageCount('%PDF-1.7 compressed')).toBeNull()
+    })
+})
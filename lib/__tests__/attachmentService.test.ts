@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import {
+    attachmentPath, dataUrlToBlob, migrateInlineAttachments, MAX_ATTACHMENT_BYTES, storagePathFromUrl,
+    thumbnailPath, validateAttachmentFile
+} from '../attachmentService'
+import { createPlan, fetchPlans } from '../supabaseService'
+import { makePlan, useLocalBackend } from './fixtures'
+
+beforeEach(() => {
+    useLocalBackend()
+})
+
+describe('validateAttachmentFile', () => {
+    it('accepts allowed types and falls back to the extension when the type is empty', () => {
+        expect(validateAttachmentFile({ name: 'photo.png', size: 1024, type: 'image/png' })).toBeNull()
+        expect(validateAttachmentFile({ name: 'brief.pdf', size: 1024, type: 'application/pdf' })).toBeNull()
+        expect(validateAttachmentFile({ name: 'notes.md', size: 1024, type: '' })).toBeNull()
+    })
+
+    it('rejects files over the size limit and unsupported types', () => {
+        expect(validateAttachmentFile({ name: 'big.png', size: MAX_ATTACHMENT_BYTES + 1, type: 'image/png' })).toMatch('larger than 10 MB')
+        expect(validateAttachmentFile({ name: 'setup.exe', size: 1024, type: 'application/x-msdownload' })).toMatch('supported file type')
+        expect(validateAttachmentFile({ name: 'mystery', size: 1024, type: '' })).toMatch('supported file type')
+    })
+})
+
+describe('object paths', () => {
+    it('names objects after what they belong to and keeps names URL-safe', () => {
+        const path = attachmentPath('card', 'Site plan (v2).jpg', 1760000000000)
+        expect(path).toBe('card_1760000000000_Site_plan__v2_.jpg')
+        expect(thumbnailPath(path)).toBe('thumb_card_1760000000000_Site_plan__v2_.jpg')
+    })
+
+    it('finds the object path in a public bucket URL', () => {
+        expect(storagePathFromUrl('https://x.supabase.co/storage/v1/object/public/attachments/plan_1_a%20b.pdf?t=1')).toBe('plan_1_a b.pdf')
+        expect(storagePathFromUrl('https://example.com/notes')).toBeNull()
+        expect(storagePathFromUrl('data:text/plain;base64,aGk=')).toBeNull()
+    })
+})
+
+describe('dataUrlToBlob', () => {
+    it('decodes base64 and percent-encoded data URLs', async () => {
+        const base64 = dataUrlToBlob('data:text/plain;base64,aGVsbG8=')
+        expect(base64.type).toBe('text/plain')
+        expect(await base64.text()).toBe('hello')
+
+        const encoded = dataUrlToBlob('data:text/csv,a%2Cb')
+        expect(await encoded.text()).toBe('a,b')
+    })
+})
+
+describe('migrateInlineAttachments', () => {
+    it('moves inline plan files into the bucket once and leaves links alone', async () => {
+        await createPlan(makePlan({
+            attachments: [
+                { id: 'att-1', type: 'file', name: 'notes.txt', url: 'data:text/plain;base64,aGVsbG8=' },
+                { id: 'att-2', type: 'link', name: 'Docs', url: 'https://example.com/docs' }
+            ]
+        }))
+
+        expect(await migrateInlineAttachments()).toBe(1)
+
+        const [plan] = await fetchPlans()
+        const file = plan.attachments!.find(a => a.id === 'att-1')!
+        expect(file.storagePath).toMatch(/^plan_\d+_notes\.txt$/)
+        expect(file.mimeType).toBe('text/plain')
+        expect(file.size).toBe(5)
+        expect(plan.attachments!.find(a => a.id === 'att-2')?.storagePath).toBeUndefined()
+
+        expect(await migrateInlineAttachments()).toBe(0)
+    })
+})
@@ -0,0 +1,184 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { createBackup, importBackup, parseBackup, validateBackup } from '../backup'
+import {
+    createCard, createCustomSection, createExpense, createInvoice, createPlan, createRevenue, fetchCards, fetchClients,
+    fetchCustomSections, fetchExchangeRates, fetchExpenses, fetchInvoices, fetchPlans, fetchRevenues, fetchTrash,
+    saveClient, saveExchangeRate, upsertPlanException
+} from '../supabaseService'
+import { makeCard, makeExpense, makeInvoice, makePlan, makeRevenue, useLocalBackend } from './fixtures'
+
+beforeEach(() => {
+    useLocalBackend()
+})
+
+// A personal board with a custom section, a plan with an exception and a card linked to it,
+// and the money side: a revenue billed on an invoice to a client, an expense and a rate
+async function seed() {
+    const plan = makePlan({
+        title: 'Review',
+        timeSlots: [{ id: 'slot-1', time: '09:00', description: 'Prep' }],
+        recurrence: { frequency: 'weekly', interval: 1 }
+    })
+    await createPlan(plan)
+    await upsertPlanException({ id: 'exception-1', planId: plan.id, occurrenceDate: '2026-10-26', cancelled: true, completed: false })
+    await createCustomSection({ id: 'section-1', title: 'Someday', color: '#64748B', position: 0 })
+    await createCard(makeCard({
+        title: 'Review',
+        linkedPlanId: plan.id,
+        checklist: [{ id: 'item-1', text: 'Agenda', completed: false }]
+    }))
+    await createCard(makeCard({ title: 'Idea', status: 'custom-section-1' }))
+
+    await createRevenue(makeRevenue({ id: 'revenue-1', name: 'Logo' }))
+    await saveClient({ id: 'client-1', name: 'Acme', createdAt: '2026-10-01T08:00:00.000Z' })
+    await createInvoice(makeInvoice({ id: 'invoice-1', clientId: 'client-1', items: [{ id: 'line-1', revenueId: 'revenue-1' }] }))
+    await createExpense(makeExpense({ description: 'Fonts' }))
+    await saveExchangeRate({ id: 'rate-1', fromCurrency: 'USD', toCurrency: 'PHP', rate: 56, rateDate: '2026-10-01', createdAt: '2026-10-01T08:00:00.000Z' })
+    return plan
+}
+
+const NOTHING_IMPORTED = {
+    plans: 0, cards: 0, goals: 0, revenues: 0, customSections: 0, expenses: 0, exchangeRates: 0, clients: 0, invoices: 0
+}
+
+describe('validateBackup', () => {
+    it('accepts an exported backup', async () => {
+        await seed()
+        const backup = await createBackup()
+
+        const result = parseBackup(JSON.stringify(backup))
+
+        expect(result.errors).toEqual([])
+        expect(result.backup?.plans).toHaveLength(1)
+        expect(result.backup?.invoices[0].items).toHaveLength(1)
+    })
+
+    it('reads version 1 files, which have no money collections, as empty', () => {
+        const { backup, errors } = validateBackup({
+            format: 'planner-backup',
+            version: 1,
+            exportedAt: '2026-10-19T10:00:00.000Z',
+            plans: [],
+            cards: [],
+            goals: [],
+            revenues: [],
+            customSections: []
+        })
+
+        expect(errors).toEqual([])
+        expect(backup?.invoices).toEqual([])
+        expect(validateBackup({ ...backup, version: 2, clients: undefined }).errors).toEqual(['clients must be an array'])
+    })
+
+    it('reports the path of every invalid field', () => {
+        const { backup, errors } = validateBackup({
+            format: 'planner-backup',
+            version: 1,
+            exportedAt: '2026-10-19T10:00:00.000Z',
+            plans: [{ id: 'p1', title: 'Plan', date: 20261019, hasDueDate: false, completed: false, createdAt: '2026-10-01' }],
+            cards: [{ id: 'c1', title: 'Card', status: 'inbox', checklist: [{ id: 'i1', text: 'x' }], comments: [], attachments: [], createdAt: '2026-10-01' }],
+            goals: [],
+            revenues: 'none',
+            customSections: []
+        })
+
+        expect(backup).toBeNull()
+        expect(errors).toEqual([
+            'plans[0].date must be a string',
+            'cards[0].checklist[0].completed must be a boolean',
+            'revenues must be an array'
+        ])
+    })
+
+    it('rejects other files and newer versions', () => {
+        expect(parseBackup('{not json').errors).toEqual(['The file is not valid JSON'])
+        expect(validateBackup({ plans: [] }).errors).toEqual(['Not a planner backup file'])
+        expect(validateBackup({ format: 'planner-backup', version: 99 }).errors[0]).toMatch(/Unsupported backup version 99/)
+    })
+})
+
+describe('importBackup', () => {
+    it('imports into an empty database under new ids and keeps the links', async () => {
+        const plan = await seed()
+        const backup = await createBackup()
+        useLocalBackend()
+
+        const report = await importBackup(backup, 'merge')
+
+        expect(report.imported).toEqual({
+            plans: 1, cards: 2, goals: 0, revenues: 1, customSections: 1, expenses: 1, exchangeRates: 1, clients: 1, invoices: 1
+        })
+        expect(report.conflicts).toEqual([])
+
+        const [imported] = await fetchPlans()
+        expect(imported.id).not.toBe(plan.id)
+        expect(imported.recurrence).toEqual(plan.recurrence)
+        expect(imported.timeSlots?.map(slot => slot.time)).toEqual(['09:00'])
+        expect(imported.exceptions?.map(e => e.occurrenceDate)).toEqual(['2026-10-26'])
+
+        const [section] = await fetchCustomSections()
+        const cards = await fetchCards()
+        expect(cards.find(c => c.title === 'Review')?.linkedPlanId).toBe(imported.id)
+        expect(cards.find(c => c.title === 'Review')?.checklist.map(item => item.text)).toEqual(['Agenda'])
+        expect(cards.find(c => c.title === 'Idea')?.status).toBe(`custom-${section.id}`)
+
+        const [revenue] = await fetchRevenues()
+        const [client] = await fetchClients()
+        const [invoice] = await fetchInvoices()
+        expect(client.id).not.toBe('client-1')
+        expect(invoice.clientId).toBe(client.id)
+        expect(invoice.items.map(item => item.revenueId)).toEqual([revenue.id])
+        expect((await fetchExpenses()).map(e => e.description)).toEqual(['Fonts'])
+        expect((await fetchExchangeRates()).map(r => r.rate)).toEqual([56])
+    })
+
+    it('skips and reports items that already exist when merging', async () => {
+        await seed()
+        const backup = await createBackup()
+
+        const report = await importBackup(backup, 'merge')
+
+        expect(report.imported).toEqual(NOTHING_IMPORTED)
+        expect(report.conflicts.map(c => `${c.collection}:${c.title}`).sort()).toEqual([
+            'cards:Idea', 'cards:Review', 'clients:Acme', 'customSections:Someday', 'exchangeRates:USD → PHP on 2026-10-01',
+            'expenses:Fonts', 'invoices:INV-2026-001', 'plans:Review', 'revenues:Logo'
+        ])
+        expect(await fetchPlans()).toHaveLength(1)
+    })
+
+    it('matches invoices by number and rates by pair and day when merging', async () => {
+        await seed()
+        const backup = await createBackup()
+        const renumbered = {
+            ...backup,
+            invoices: backup.invoices.map(invoice => ({ ...invoice, id: 'other-invoice' })),
+            exchangeRates: backup.exchangeRates.map(rate => ({ ...rate, id: 'other-rate' }))
+        }
+
+        const report = await importBackup({ ...renumbered, plans: [], cards: [], customSections: [] }, 'merge')
+
+        expect(report.failed).toEqual([])
+        expect(report.conflicts.map(c => c.collection)).toContain('invoices')
+        expect(report.conflicts.map(c => c.collection)).toContain('exchangeRates')
+        expect(await fetchInvoices()).toHaveLength(1)
+    })
+
+    it('moves the current data to the Trash when replacing', async () => {
+        await seed()
+        const backup = await createBackup()
+
+        const report = await importBackup({ ...backup, cards: [] }, 'replace')
+
+        expect(report.imported).toEqual({ ...NOTHING_IMPORTED, plans: 1, revenues: 1, customSections: 1, expenses: 1, exchangeRates: 1, clients: 1, invoices: 1 })
+        expect(report.conflicts).toEqual([])
+        expect(report.failed).toEqual([])
+        expect(await fetchCards()).toEqual([])
+        expect((await fetchTrash()).map(item => `${item.type}:${item.title}`).sort()).toEqual([
+            'card:Idea', 'card:Review', 'expense:Fonts', 'plan:Review', 'revenue:Logo'
+        ])
+        // Rates, clients and invoices have no Trash: only the imported copies are left
+        expect((await fetchClients()).map(c => c.id)).not.toContain('client-1')
+        expect(await fetchExchangeRates()).toHaveLength(1)
+        expect((await fetchInvoices()).map(i => i.id)).not.toContain('invoice-1')
+    })
+})
@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { revenueForCard, revenueFromCard } from '../cardRevenue'
+import { createCard, createRevenue, fetchCards, fetchRevenues, purgeCard, updateCard } from '../supabaseService'
+import { makeCard, makeRevenue, useLocalBackend } from './fixtures'
+
+describe('revenueFromCard', () => {
+    it('pre-fills the entry from the card and links back to it', () => {
+        const card = makeCard({ id: 'card-1', title: 'Landing page', price: 2500, currency: 'USD', projectName: 'Acme' })
+
+        expect(revenueFromCard(card, 'PHP', new Date(2026, 9, 19))).toMatchObject({
+            name: 'Landing page',
+            projectName: 'Acme',
+            price: 2500,
+            currency: 'USD',
+            dateCompleted: '2026-10-19',
+            sourceCardId: 'card-1'
+        })
+    })
+
+    it('falls back to the reporting currency and leaves plan cards unlinked', () => {
+        const card = makeCard({ id: 'plan-abc', title: 'Shoot' })
+
+        expect(revenueFromCard(card, 'EUR')).toMatchObject({ projectName: '', price: 0, currency: 'EUR', sourceCardId: undefined })
+        expect(revenueForCard(card, [makeRevenue({ sourceCardId: 'plan-abc' })])).toBeUndefined()
+    })
+})
+
+describe('card billing storage', () => {
+    beforeEach(() => {
+        useLocalBackend()
+    })
+
+    it('saves the price and project on cards', async () => {
+        const card = makeCard()
+        await createCard(card)
+        await updateCard({ ...card, price: 1200.5, currency: 'USD', projectName: 'Acme' })
+
+        const [saved] = await fetchCards()
+
+        expect(saved).toMatchObject({ price: 1200.5, currency: 'USD', projectName: 'Acme' })
+    })
+
+    it('keeps the revenue when its card is purged', async () => {
+        const card = makeCard()
+        await createCard(card)
+        const revenue = revenueFromCard({ ...card, price: 800, projectName: 'Acme' }, 'PHP')
+        await createRevenue(revenue)
+
+        expect(revenueForCard(card, await fetchRevenues())?.id).toBe(revenue.id)
+
+        await purgeCard(card.id)
+        const [kept] = await fetchRevenues()
+
+        expect(kept).toMatchObject({ id: revenue.id, price: 800 })
+        expect(kept.sourceCardId).toBeUndefined()
+    })
+})
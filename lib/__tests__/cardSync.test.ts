@@ -0,0 +1,253 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createCard, createPlan, deleteOrphanPlans, deletePlan, fetchCards, fetchPlans, purgePlan, restorePlan, updateCard, updatePlan, upsertPlanException } from '../supabaseService'
+import { planToCard } from '../planCards'
+import { LocalBackend } from '../localBackend'
+import { flushRealtime, makeCard, makePlan, useLocalBackend } from './fixtures'
+
+let backend: LocalBackend
+
+beforeEach(() => {
+    backend = useLocalBackend()
+})
+
+afterEach(() => {
+    vi.restoreAllMocks()
+})
+
+describe('updateCard with a virtual plan card', () => {
+    it('updates the plan without creating a card', async () => {
+        const plan = makePlan({ title: 'Draft', date: '2099-01-01' })
+        await createPlan(plan)
+
+        const ok = await updateCard({ ...planToCard(plan), title: 'Final' })
+
+        expect(ok).toBe(true)
+        const tables = backend.dump()
+        expect(tables.plans[0].title).toBe('Final')
+        expect(tables.kanban_cards).toHaveLength(0)
+    })
+
+    it('stores checklist items on the plan', async () => {
+        const plan = makePlan({ date: '2099-01-01' })
+        await createPlan(plan)
+
+        const ok = await updateCard({
+            ...planToCard(plan),
+            checklist: [{ id: 'item-1', text: 'Book venue', completed: false }]
+        })
+
+        expect(ok).toBe(true)
+        const [storedPlan] = await fetchPlans()
+        expect(storedPlan.checklist).toEqual([{ id: 'item-1', text: 'Book venue', completed: false }])
+        expect(planToCard(storedPlan).checklist).toEqual(storedPlan.checklist)
+        expect(backend.dump().kanban_cards).toHaveLength(0)
+    })
+
+    it('stores comments on the plan', async () => {
+        const plan = makePlan({ date: '2099-01-01' })
+        await createPlan(plan)
+
+        await updateCard({
+            ...planToCard(plan),
+            comments: [{ id: 'comment-1', text: 'Running late', createdAt: '2026-10-19T09:00:00.000Z', isMarkedDone: false }]
+        })
+
+        const [storedPlan] = await fetchPlans()
+        expect(storedPlan.comments?.map(c => c.text)).toEqual(['Running late'])
+        expect(backend.dump().kanban_cards).toHaveLength(0)
+    })
+
+    it('completes the plan when the card is completed', async () => {
+        const plan = makePlan({ date: '2099-01-01' })
+        await createPlan(plan)
+
+        await updateCard({ ...planToCard(plan), status: 'completed' })
+
+        const [storedPlan] = await fetchPlans()
+        expect(storedPlan.completed).toBe(true)
+        expect(planToCard(storedPlan).status).toBe('completed')
+        expect(backend.dump().kanban_cards).toHaveLength(0)
+    })
+
+    it('syncs later checklist edits and keeps the attachments on the plan', async () => {
+        const plan = makePlan({
+            date: '2099-01-01',
+            attachments: [{ id: 'att-1', type: 'link', name: 'Agenda', url: 'https://example.com/agenda' }]
+        })
+        await createPlan(plan)
+
+        const virtual = planToCard(plan)
+        await updateCard({ ...virtual, checklist: [{ id: 'item-1', text: 'One', completed: false }] })
+        await updateCard({
+            ...virtual,
+            checklist: [
+                { id: 'item-1', text: 'One', completed: true },
+                { id: 'item-2', text: 'Two', completed: false }
+            ]
+        })
+
+        const [storedPlan] = await fetchPlans()
+        expect(storedPlan.checklist).toEqual([
+            { id: 'item-1', text: 'One', completed: true },
+            { id: 'item-2', text: 'Two', completed: false }
+        ])
+        const tables = backend.dump()
+        expect(tables.plan_checklist_items).toHaveLength(2)
+        expect(tables.plan_attachments).toHaveLength(1)
+        expect(tables.kanban_cards).toHaveLength(0)
+    })
+
+    it('reports a failure when the plan no longer exists', async () => {
+        const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => { })
+        const plan = makePlan({ date: '2099-01-01' }) // Never stored, e.g. deleted on another device
+
+        const ok = await updateCard({
+            ...planToCard(plan),
+            checklist: [{ id: 'item-1', text: 'Keep me', completed: false }]
+        })
+
+        expect(ok).toBe(false)
+        expect(backend.dump().kanban_cards).toHaveLength(0)
+        expect(errorSpy).toHaveBeenCalledWith('Error inserting plan_checklist_items:', expect.anything())
+    })
+})
+
+describe('updateCard with the card of a recurring plan', () => {
+    it('completes only the occurrence the card stands for', async () => {
+        const plan = makePlan({ title: 'Standup', date: '2026-10-01', recurrence: { frequency: 'daily', interval: 1 } })
+        await createPlan(plan)
+        const card = { ...planToCard(plan), occurrenceDate: '2026-10-19' }
+
+        expect(await updateCard({ ...card, title: 'Daily standup', status: 'completed' })).toBe(true)
+
+        const [saved] = await fetchPlans()
+        expect(saved.completed).toBe(false)
+        expect(saved.date).toBe('2026-10-01')
+        expect(saved.title).toBe('Daily standup')
+        expect(saved.exceptions).toEqual([expect.objectContaining({ occurrenceDate: '2026-10-19', completed: true })])
+
+        // Moving it back reopens the occurrence
+        expect(await updateCard({ ...card, status: 'in-progress' })).toBe(true)
+        expect((await fetchPlans())[0].exceptions).toEqual([expect.objectContaining({ occurrenceDate: '2026-10-19', completed: false })])
+    })
+})
+
+describe('plan checklist and comments', () => {
+    it('are created with the plan and follow it into the Trash and back', async () => {
+        const plan = makePlan({
+            checklist: [{ id: 'item-1', text: 'Pack', completed: false }],
+            comments: [{ id: 'comment-1', text: 'Gate 4', createdAt: '2026-10-19T09:00:00.000Z', isMarkedDone: true }]
+        })
+        await createPlan(plan)
+
+        const [fetched] = await fetchPlans()
+        expect(fetched.checklist).toEqual(plan.checklist)
+        expect(fetched.comments).toEqual(plan.comments)
+
+        await deletePlan(plan.id)
+        await restorePlan(plan.id)
+        expect((await fetchPlans())[0].checklist).toEqual(plan.checklist)
+    })
+
+    it('are left alone when a plan is saved without them', async () => {
+        const plan = makePlan({ checklist: [{ id: 'item-1', text: 'Pack', completed: false }] })
+        await createPlan(plan)
+
+        expect(await updatePlan({ ...plan, title: 'Trip', checklist: undefined, comments: undefined })).toBe(true)
+
+        const [fetched] = await fetchPlans()
+        expect(fetched.title).toBe('Trip')
+        expect(fetched.checklist).toEqual(plan.checklist)
+    })
+})
+
+describe('child rows that fail to save', () => {
+    // The local backend enforces not-null columns like Postgres does
+    const brokenItem = { id: 'item-1', text: null as unknown as string, completed: false }
+
+    it('fail the plan creation', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => { })
+        expect(await createPlan(makePlan({ checklist: [brokenItem] }))).toBeNull()
+    })
+
+    it('fail the card update', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => { })
+        const card = makeCard()
+        await createCard(card)
+
+        expect(await updateCard({ ...card, title: 'Renamed', checklist: [brokenItem] })).toBe(false)
+        expect(await updateCard({ ...card, title: 'Renamed' })).toBe(true)
+    })
+})
+
+describe('purgePlan', () => {
+    it('removes the plan with its child rows and unlinks cards', async () => {
+        const plan = makePlan({
+            timeSlots: [{ id: 'slot-1', time: '09:00', description: 'Kickoff' }],
+            attachments: [{ id: 'att-1', type: 'link', name: 'Doc', url: 'https://example.com/doc' }],
+            checklist: [{ id: 'plan-item-1', text: 'Agenda', completed: false }]
+        })
+        await createPlan(plan)
+        await upsertPlanException({ id: 'exception-1', planId: plan.id, occurrenceDate: '2026-10-26', cancelled: true, completed: false })
+        await createCard(makeCard({ linkedPlanId: plan.id, checklist: [{ id: 'item-1', text: 'Prep', completed: false }] }))
+
+        const ok = await purgePlan(plan.id)
+
+        expect(ok).toBe(true)
+        const tables = backend.dump()
+        expect(tables.plans).toHaveLength(0)
+        expect(tables.plan_time_slots).toHaveLength(0)
+        expect(tables.plan_attachments).toHaveLength(0)
+        expect(tables.plan_exceptions).toHaveLength(0)
+        expect(tables.plan_checklist_items).toHaveLength(0)
+
+        const [card] = await fetchCards()
+        expect(card.linkedPlanId).toBeNull()
+        expect(card.checklist.map(item => item.text)).toEqual(['Prep'])
+    })
+
+    it('notifies realtime subscribers about the plan and the unlinked card', async () => {
+        const plan = makePlan()
+        await createPlan(plan)
+        const card = makeCard({ linkedPlanId: plan.id })
+        await createCard(card)
+        await flushRealtime()
+
+        const events: string[] = []
+        backend.channel('test')
+            .on('postgres_changes', { event: '*', schema: 'public', table: 'plans' }, payload => events.push(`${payload.table}:${payload.eventType}`))
+            .on('postgres_changes', { event: '*', schema: 'public', table: 'kanban_cards' }, payload => events.push(`${payload.table}:${payload.eventType}`))
+            .subscribe()
+
+        await purgePlan(plan.id)
+        await flushRealtime()
+
+        expect(events).toEqual(['plans:DELETE', 'kanban_cards:UPDATE'])
+    })
+})
+
+describe('deleteOrphanPlans', () => {
+    it('deletes plans with the title that no card links to', async () => {
+        const linked = makePlan({ title: 'Standup' })
+        const orphanA = makePlan({ title: 'Standup' })
+        const orphanB = makePlan({ title: 'Standup' })
+        const otherTitle = makePlan({ title: 'Retro' })
+        for (const plan of [linked, orphanA, orphanB, otherTitle]) await createPlan(plan)
+        await createCard(makeCard({ title: 'Standup', linkedPlanId: linked.id }))
+        vi.spyOn(console, 'log').mockImplementation(() => { })
+
+        await deleteOrphanPlans('Standup')
+
+        const remaining = (await fetchPlans()).map(plan => plan.id).sort()
+        expect(remaining).toEqual([linked.id, otherTitle.id].sort())
+    })
+
+    it('does nothing when no plan has the title', async () => {
+        const plan = makePlan({ title: 'Standup' })
+        await createPlan(plan)
+
+        await deleteOrphanPlans('Unknown')
+
+        expect(await fetchPlans()).toHaveLength(1)
+    })
+})
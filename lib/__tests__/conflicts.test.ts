@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest'
+import { CARD_CONFLICT_FIELDS, defaultChoice, diffRecords, GOAL_CONFLICT_FIELDS, mergeLists, mergeRecords } from '../conflicts'
+import { ChecklistItem } from '../types'
+import { makeCard, makeGoal } from './fixtures'
+
+function item(id: string, text: string, completed = false): ChecklistItem {
+    return { id, text, completed }
+}
+
+describe('diffRecords', () => {
+    it('lists only fields changed on the server', () => {
+        const base = makeCard({ id: 'c', title: 'Draft', description: 'Notes', price: 100 })
+        const local = { ...base, title: 'Mine', price: 150 }
+        const remote = { ...base, title: 'Theirs', description: 'Their notes', price: 150 }
+
+        // price changed the same way on both sides, so it isn't a conflict
+        const diffs = diffRecords(base, local, remote, CARD_CONFLICT_FIELDS)
+        expect(diffs.map(d => [d.key, d.mine, d.theirs, d.changedLocally])).toEqual([
+            ['title', 'Mine', 'Theirs', true],
+            ['description', 'Notes', 'Their notes', false],
+        ])
+        expect(diffs.map(defaultChoice)).toEqual(['mine', 'theirs'])
+    })
+
+    it('describes lists and empty values and offers to combine lists', () => {
+        const base = makeCard({ id: 'c', checklist: [item('a', 'Write')] })
+        const local = { ...base, checklist: [item('a', 'Write', true)], projectName: undefined }
+        const remote = { ...base, checklist: [], projectName: 'Launch' }
+
+        const diffs = diffRecords(base, local, remote, CARD_CONFLICT_FIELDS)
+        expect(diffs).toEqual([
+            { key: 'projectName', label: 'Project', mine: '—', theirs: 'Launch', changedLocally: false, list: false },
+            { key: 'checklist', label: 'Checklist', mine: '✓ Write', theirs: 'None', changedLocally: true, list: true },
+        ])
+        expect(defaultChoice(diffs[1])).toBe('both')
+    })
+
+    it('uses a field format when given one', () => {
+        const base = makeGoal({ id: 'g', budget: { targetAmount: 1000, currentAmount: 0, currency: 'USD' } })
+        const remote = { ...base, budget: { targetAmount: 1000, currentAmount: 250, currency: 'USD' } }
+
+        const [diff] = diffRecords(base, base, remote, GOAL_CONFLICT_FIELDS)
+        expect(diff.key).toBe('budget')
+        expect(diff.theirs).toContain(' of ')
+        expect(diff.theirs).not.toBe(diff.mine)
+    })
+})
+
+describe('mergeLists', () => {
+    it('keeps their additions and edits and applies ours on top', () => {
+        const base = [item('a', 'Write'), item('b', 'Review'), item('c', 'Ship')]
+        // We ticked a, deleted b and added d; they renamed c, edited a and added e
+        const local = [item('a', 'Write', true), item('c', 'Ship'), item('d', 'Announce')]
+        const remote = [item('a', 'Write it'), item('b', 'Review'), item('c', 'Ship it'), item('e', 'Celebrate')]
+
+        expect(mergeLists(base, local, remote)).toEqual([
+            item('a', 'Write', true),
+            item('c', 'Ship it'),
+            item('e', 'Celebrate'),
+            item('d', 'Announce'),
+        ])
+    })
+
+    it('does not bring back rows they deleted', () => {
+        const base = [item('a', 'Write'), item('b', 'Review')]
+        const local = [item('a', 'Write'), item('b', 'Review')]
+        const remote = [item('a', 'Write')]
+
+        expect(mergeLists(base, local, remote)).toEqual([item('a', 'Write')])
+    })
+})
+
+describe('mergeRecords', () => {
+    const base = makeCard({ id: 'c', title: 'Draft', description: 'Notes', checklist: [item('a', 'Write')], version: 3, updatedAt: '2026-10-19T08:00:00.000Z' })
+
+    it('takes their changes to fields we left alone and keeps ours by default', () => {
+        const local = { ...base, title: 'Mine', description: 'Notes' }
+        const remote = { ...base, title: 'Theirs', description: 'Their notes', version: 4, updatedAt: '2026-10-19T09:00:00.000Z' }
+
+        expect(mergeRecords(base, local, remote, CARD_CONFLICT_FIELDS, {})).toEqual({
+            ...local,
+            description: 'Their notes',
+            version: 4,
+            updatedAt: '2026-10-19T09:00:00.000Z',
+        })
+    })
+
+    it('applies the chosen side for each field', () => {
+        const local = { ...base, title: 'Mine', checklist: [item('a', 'Write'), item('b', 'Mine')] }
+        const remote = { ...base, title: 'Theirs', checklist: [item('a', 'Write'), item('c', 'Theirs')], version: 4 }
+
+        const theirs = mergeRecords(base, local, remote, CARD_CONFLICT_FIELDS, { title: 'theirs', checklist: 'theirs' })
+        expect(theirs.title).toBe('Theirs')
+        expect(theirs.checklist).toEqual(remote.checklist)
+
+        const both = mergeRecords(base, local, remote, CARD_CONFLICT_FIELDS, { title: 'mine', checklist: 'both' })
+        expect(both.title).toBe('Mine')
+        expect(both.checklist).toEqual([item('a', 'Write'), item('c', 'Theirs'), item('b', 'Mine')])
+        expect(both.version).toBe(4)
+    })
+
+    it('keeps our edits to fields unchanged on the server', () => {
+        const local = { ...base, title: 'Mine' }
+        const remote = { ...base, version: 4 }
+
+        expect(mergeRecords(base, local, remote, CARD_CONFLICT_FIELDS, { title: 'theirs' }).title).toBe('Mine')
+    })
+})
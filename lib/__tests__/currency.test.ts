@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { convertAmount, findRate, formatMoney, normalizeCurrency, sumConverted } from '../currency'
+import { createRevenue, deleteExchangeRate, fetchExchangeRates, fetchRevenues, saveExchangeRate } from '../supabaseService'
+import { ExchangeRate } from '../types'
+import { makeRevenue, useLocalBackend } from './fixtures'
+
+function rate(fromCurrency: string, toCurrency: string, value: number, rateDate: string): ExchangeRate {
+    return { id: `${fromCurrency}-${toCurrency}-${rateDate}`, fromCurrency, toCurrency, rate: value, rateDate, createdAt: '2026-10-01T08:00:00.000Z' }
+}
+
+const rates = [
+    rate('USD', 'PHP', 56, '2026-09-01'),
+    rate('USD', 'PHP', 58, '2026-10-01'),
+    rate('EUR', 'USD', 1.1, '2026-09-01'),
+]
+
+describe('normalizeCurrency', () => {
+    it('maps codes and legacy symbols to ISO codes', () => {
+        expect(normalizeCurrency('php')).toBe('PHP')
+        expect(normalizeCurrency('₱')).toBe('PHP')
+        expect(normalizeCurrency(' $ ')).toBe('USD')
+        expect(normalizeCurrency('dollars')).toBeNull()
+    })
+})
+
+describe('findRate', () => {
+    it('uses the latest rate on or before the date, and the earliest one before any rates', () => {
+        expect(findRate('USD', 'PHP', '2026-09-15', rates)).toBe(56)
+        expect(findRate('USD', 'PHP', '2026-10-19', rates)).toBe(58)
+        expect(findRate('USD', 'PHP', '2026-01-01', rates)).toBe(56)
+    })
+
+    it('inverts rates and goes through a common currency', () => {
+        expect(findRate('PHP', 'USD', '2026-10-19', rates)).toBeCloseTo(1 / 58)
+        expect(findRate('EUR', 'PHP', '2026-09-15', rates)).toBeCloseTo(1.1 * 56)
+        expect(findRate('GBP', 'PHP', '2026-09-15', rates)).toBeNull()
+        expect(findRate('GBP', 'GBP', '2026-09-15', [])).toBe(1)
+    })
+})
+
+describe('sumConverted', () => {
+    it('converts each amount on its own date and reports currencies without rates', () => {
+        const result = sumConverted([
+            { amount: 100, currency: 'USD', date: '2026-09-10' },
+            { amount: 100, currency: 'USD', date: '2026-10-10' },
+            { amount: 500, currency: 'PHP', date: '2026-10-10' },
+            { amount: 10, currency: 'GBP', date: '2026-10-10' },
+        ], 'PHP', rates)
+
+        expect(result.total).toBe(5600 + 5800 + 500)
+        expect(result.missing).toEqual(['GBP'])
+        expect(convertAmount(10, 'GBP', 'PHP', '2026-10-10', rates)).toBeNull()
+    })
+
+    it('formats amounts with their currency symbol', () => {
+        expect(formatMoney(1250.5, 'PHP')).toBe('₱1,250.5')
+        expect(formatMoney(40, 'USD')).toBe('$40')
+    })
+})
+
+describe('exchange rate storage', () => {
+    beforeEach(() => {
+        useLocalBackend()
+    })
+
+    it('saves, updates and deletes rates', async () => {
+        const usd = rate('USD', 'PHP', 56, '2026-10-01')
+        await saveExchangeRate(usd)
+        await saveExchangeRate({ ...usd, rate: 57.5 })
+
+        expect(await fetchExchangeRates()).toEqual([expect.objectContaining({ id: usd.id, rate: 57.5, rateDate: '2026-10-01' })])
+
+        await deleteExchangeRate(usd.id)
+        expect(await fetchExchangeRates()).toEqual([])
+    })
+
+    it('reads currency symbols stored before ISO codes as codes', async () => {
+        await createRevenue(makeRevenue({ id: 'legacy', currency: '₱' }))
+
+        const [revenue] = await fetchRevenues()
+
+        expect(revenue.currency).toBe('PHP')
+    })
+})
@@ -0,0 +1,102 @@
+import { Expense, Goal, Invoice, KanbanCard, Plan, Revenue } from '../types'
+import { generateUUID } from '../uuid'
+import { setDataBackend, DataBackend } from '../supabaseClient'
+import { createLocalBackend, LocalBackend } from '../localBackend'
+
+// Points supabaseService at a fresh in-memory database
+export function useLocalBackend(): LocalBackend {
+    const backend = createLocalBackend({ persist: false })
+    setDataBackend(backend as unknown as DataBackend)
+    return backend
+}
+
+// Realtime events are delivered on the next macrotask
+export function flushRealtime(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 0))
+}
+
+export function makePlan(overrides: Partial<Plan> = {}): Plan {
+    return {
+        id: generateUUID(),
+        title: 'Plan',
+        description: '',
+        date: '2026-10-19',
+        hasDueDate: false,
+        completed: false,
+        timeSlots: [],
+        attachments: [],
+        checklist: [],
+        comments: [],
+        createdAt: '2026-10-01T08:00:00.000Z',
+        ...overrides
+    }
+}
+
+export function makeCard(overrides: Partial<KanbanCard> = {}): KanbanCard {
+    return {
+        id: generateUUID(),
+        title: 'Card',
+        status: 'inbox',
+        checklist: [],
+        comments: [],
+        attachments: [],
+        createdAt: '2026-10-01T08:00:00.000Z',
+        ...overrides
+    }
+}
+
+export function makeGoal(overrides: Partial<Goal> = {}): Goal {
+    return {
+        id: generateUUID(),
+        title: 'Goal',
+        goalType: 'material',
+        checklist: [],
+        comments: [],
+        attachments: [],
+        createdAt: '2026-10-01T08:00:00.000Z',
+        ...overrides
+    }
+}
+
+export function makeRevenue(overrides: Partial<Revenue> = {}): Revenue {
+    return {
+        id: generateUUID(),
+        name: 'Revenue',
+        projectName: 'Project',
+        price: 1000,
+        currency: 'PHP',
+        dateCompleted: '2026-10-01',
+        createdAt: '2026-10-01T08:00:00.000Z',
+        ...overrides
+    }
+}
+
+export function makeInvoice(overrides: Partial<Invoice> = {}): Invoice {
+    return {
+        id: generateUUID(),
+        number: 'INV-2026-001',
+        clientId: null,
+        status: 'draft',
+        issueDate: '2026-10-01',
+        dueDate: '2026-10-15',
+        currency: 'PHP',
+        taxRate: 0,
+        discount: 0,
+        items: [],
+        createdAt: '2026-10-01T08:00:00.000Z',
+        ...overrides
+    }
+}
+
+export function makeExpense(overrides: Partial<Expense> = {}): Expense {
+    return {
+        id: generateUUID(),
+        description: 'Expense',
+        amount: 100,
+        currency: 'PHP',
+        category: 'Other',
+        date: '2026-10-01',
+        createdAt: '2026-10-01T08:00:00.000Z',
+        ...overrides
+    }
+}
@@ -0,0 +1,61 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { createGoal, createRevenue, fetchGoal, fetchGoals, fetchRevenues, updateGoal, updateRevenue } from '../supabaseService'
+import { Attachment } from '../types'
+import { makeGoal, makeRevenue, useLocalBackend } from './fixtures'
+
+const quote: Attachment = {
+    id: 'att-quote', type: 'file', name: 'quote.pdf', url: 'https://x.supabase.co/storage/v1/object/public/attachments/goal_1_quote.pdf',
+    storagePath: 'goal_1_quote.pdf', mimeType: 'application/pdf', size: 2048
+}
+const listing: Attachment = { id: 'att-link', type: 'link', name: 'Listing', url: 'https://example.com/desk' }
+
+beforeEach(() => {
+    useLocalBackend()
+})
+
+describe('goal attachments', () => {
+    it('saves attachments with the goal and syncs removals', async () => {
+        const goal = makeGoal({ attachments: [quote, listing] })
+        await createGoal(goal)
+
+        const [fetched] = await fetchGoals()
+        expect(fetched.attachments).toEqual([quote, listing])
+
+        expect(await updateGoal({ ...fetched, attachments: [listing] })).toBe(true)
+        expect((await fetchGoal(goal.id))?.attachments).toEqual([listing])
+    })
+
+    it('leaves attachment rows alone when a goal is saved without the list', async () => {
+        const goal = makeGoal({ attachments: [listing] })
+        await createGoal(goal)
+
+        expect(await updateGoal({ ...goal, title: 'Renamed', attachments: undefined })).toBe(true)
+        const fetched = await fetchGoal(goal.id)
+        expect(fetched?.title).toBe('Renamed')
+        expect(fetched?.attachments).toEqual([listing])
+    })
+})
+
+describe('revenue attachments', () => {
+    it('saves receipts with the entry and syncs edits', async () => {
+        const receipt = { ...quote, id: 'att-receipt', name: 'receipt.jpg', mimeType: 'image/jpeg' }
+        const revenue = makeRevenue({ attachments: [receipt] })
+        await createRevenue(revenue)
+
+        const [fetched] = await fetchRevenues()
+        expect(fetched.attachments).toEqual([receipt])
+
+        expect(await updateRevenue({ ...fetched, attachments: [receipt, listing] })).toBe(true)
+        expect((await fetchRevenues())[0].attachments).toEqual([receipt, listing])
+    })
+
+    it('leaves attachment rows alone when an entry is saved without the list', async () => {
+        const revenue = makeRevenue({ attachments: [listing] })
+        await createRevenue(revenue)
+
+        expect(await updateRevenue({ ...revenue, price: 2500, attachments: undefined })).toBe(true)
+        const [fetched] = await fetchRevenues()
+        expect(fetched.price).toBe(2500)
+        expect(fetched.attachments).toEqual([listing])
+    })
+})
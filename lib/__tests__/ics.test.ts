@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest'
+import { buildCalendar, escapeText, foldLine } from '../ics'
+import { makeCard, makePlan } from './fixtures'
+
+const now = new Date('2026-10-19T10:00:00.000Z')
+
+// Unfolded content lines of each VEVENT
+function events(calendar: string): string[][] {
+    const lines = calendar.replace(/\r\n /g, '').split('\r\n')
+    const result: string[][] = []
+    let current: string[] | null = null
+    for (const line of lines) {
+        if (line === 'BEGIN:VEVENT') current = []
+        else if (line === 'END:VEVENT' && current) {
+            result.push(current)
+            current = null
+        } else if (current) current.push(line)
+    }
+    return result
+}
+
+describe('buildCalendar', () => {
+    it('writes one timed event per time slot of a single-day plan', () => {
+        const plan = makePlan({
+            id: 'p1',
+            title: 'Dentist',
+            date: '2026-10-21',
+            timeSlots: [
+                { id: 's1', time: '09:30', description: '' },
+                { id: 's2', time: '14:00', description: 'Follow-up' }
+            ]
+        })
+
+        const [first, second] = events(buildCalendar([plan], [], { now }))
+
+        expect(first).toContain('UID:plan-p1-s1@sdaily.app')
+        expect(first).toContain('DTSTART:20261021T093000')
+        expect(first).toContain('DURATION:PT1H')
+        expect(first).toContain('SUMMARY:Dentist')
+        expect(second).toContain('SUMMARY:Dentist: Follow-up')
+    })
+
+    it('writes multi-day plans as all-day spans with an exclusive end and flags completed ones', () => {
+        const plan = makePlan({ title: 'Trip', date: '2026-10-30', hasDueDate: true, dueDate: '2026-11-02', completed: true })
+
+        const [event] = events(buildCalendar([plan], [], { now }))
+
+        expect(event).toContain('DTSTART;VALUE=DATE:20261030')
+        expect(event).toContain('DTEND;VALUE=DATE:20261103')
+        expect(event).toContain('SUMMARY:✓ Trip')
+        expect(event).toContain('CATEGORIES:Completed')
+    })
+
+    it('writes each occurrence of a recurring plan, leaving out cancelled ones', () => {
+        const plan = makePlan({
+            id: 'p1',
+            date: '2026-10-19',
+            recurrence: { frequency: 'weekly', interval: 1, count: 3 },
+            exceptions: [{ id: 'e1', planId: 'p1', occurrenceDate: '2026-10-26', cancelled: true, completed: false }]
+        })
+
+        const uids = events(buildCalendar([plan], [], { now })).map(event => event.find(line => line.startsWith('UID:')))
+
+        expect(uids).toEqual(['UID:plan-p1-20261019@sdaily.app', 'UID:plan-p1-20261102@sdaily.app'])
+    })
+
+    it('writes scheduled cards that are not linked to a plan', () => {
+        const cards = [
+            makeCard({ id: 'c1', title: 'Launch', startDate: '2026-10-20', endDate: '2026-10-22', status: 'completed' }),
+            makeCard({ id: 'c2', title: 'Linked', startDate: '2026-10-20', linkedPlanId: 'p1' }),
+            makeCard({ id: 'c3', title: 'Unscheduled' })
+        ]
+
+        const result = events(buildCalendar([], cards, { now }))
+
+        expect(result).toHaveLength(1)
+        expect(result[0]).toContain('UID:card-c1@sdaily.app')
+        expect(result[0]).toContain('DTEND;VALUE=DATE:20261023')
+        expect(result[0]).toContain('SUMMARY:✓ Launch')
+    })
+
+    it('uses CRLF line endings', () => {
+        const calendar = buildCalendar([], [], { now })
+
+        expect(calendar.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true)
+        expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true)
+    })
+})
+
+describe('escapeText', () => {
+    it('escapes separators and newlines', () => {
+        expect(escapeText('a,b;c\\d\ne')).toBe('a\\,b\\;c\\\\d\\ne')
+    })
+})
+
+describe('foldLine', () => {
+    it('folds long lines at 75 octets without splitting characters', () => {
+        const line = `DESCRIPTION:${'é'.repeat(80)}`
+
+        const folded = foldLine(line).split('\r\n')
+
+        expect(folded.length).toBeGreaterThan(1)
+        for (const part of folded) expect(new TextEncoder().encode(part).length).toBeLessThanOrEqual(75)
+        expect(folded.slice(1).every(part => part.startsWith(' '))).toBe(true)
+        expect(folded.map((part, i) => i === 0 ? part : part.slice(1)).join('')).toBe(line)
+    })
+})
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import { eventsToPlans, parseIcs, prepareIcsImport } from '../icsImport'
+import { makePlan } from './fixtures'
+
+const options = { timeZone: 'Asia/Manila' }
+
+function calendar(...lines: string[]): string {
+    return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n')
+}
+
+function event(...lines: string[]): string[] {
+    return ['BEGIN:VEVENT', ...lines, 'END:VEVENT']
+}
+
+describe('parseIcs', () => {
+    it('converts UTC and TZID times to the planner time zone and reads folded, escaped text', () => {
+        const [utc, zoned] = parseIcs(calendar(
+            ...event('UID:a', 'DTSTART:20261021T013000Z', 'SUMMARY:Stand-up\\, daily', 'DESCRIPTION:Line one\\nline', '  two'),
+            ...event('UID:b', 'DTSTART;TZID=Europe/Berlin:20261021T090000', 'SUMMARY:Review')
+        ), options)
+
+        expect(utc.start).toEqual({ date: '2026-10-21', time: '09:30' })
+        expect(utc.summary).toBe('Stand-up, daily')
+        expect(utc.description).toBe('Line one\nline two')
+        // Berlin is on summer time (UTC+2) until the last Sunday of October
+        expect(zoned.start).toEqual({ date: '2026-10-21', time: '15:00' })
+    })
+
+    it('falls back to the VTIMEZONE definition for zone names the runtime does not know', () => {
+        const [before, after] = parseIcs(calendar(
+            'BEGIN:VTIMEZONE',
+            'TZID:W. Europe Standard Time',
+            'BEGIN:STANDARD', 'DTSTART:16010101T030000', 'TZOFFSETFROM:+0200', 'TZOFFSETTO:+0100', 'RRULE:FREQ=YEARLY;BYDAY=-1SU;BYMONTH=10', 'END:STANDARD',
+            'BEGIN:DAYLIGHT', 'DTSTART:16010101T020000', 'TZOFFSETFROM:+0100', 'TZOFFSETTO:+0200', 'RRULE:FREQ=YEARLY;BYDAY=-1SU;BYMONTH=3', 'END:DAYLIGHT',
+            'END:VTIMEZONE',
+            ...event('UID:a', 'DTSTART;TZID="W. Europe Standard Time":20261023T090000', 'SUMMARY:Before'),
+            ...event('UID:b', 'DTSTART;TZID="W. Europe Standard Time":20261026T090000', 'SUMMARY:After')
+        ), options)
+
+        expect(before.start.time).toBe('15:00')
+        expect(after.start.time).toBe('16:00')
+    })
+
+    it('keeps floating times and makes all-day ends inclusive', () => {
+        const [floating, allDay] = parseIcs(calendar(
+            ...event('UID:a', 'DTSTART:20261021T090000', 'DURATION:PT90M', 'SUMMARY:Gym'),
+            ...event('UID:b', 'DTSTART;VALUE=DATE:20261030', 'DTEND;VALUE=DATE:20261102', 'SUMMARY:Trip')
+        ), options)
+
+        expect(floating.start).toEqual({ date: '2026-10-21', time: '09:00' })
+        expect(floating.end).toEqual({ date: '2026-10-21', time: '10:30' })
+        expect(allDay.start).toEqual({ date: '2026-10-30' })
+        expect(allDay.end).toEqual({ date: '2026-11-01' })
+    })
+
+    it('ignores cancellation notices', () => {
+        expect(parseIcs(calendar('METHOD:CANCEL', ...event('UID:a', 'DTSTART:20261021T090000', 'SUMMARY:Gone')), options)).toEqual([])
+    })
+})
+
+describe('eventsToPlans', () => {
+    it('maps multi-day events to due dates and timed events to a time slot', () => {
+        const [trip, dentist] = eventsToPlans(parseIcs(calendar(
+            ...event('UID:a', 'DTSTART;VALUE=DATE:20261030', 'DTEND;VALUE=DATE:20261102', 'SUMMARY:Trip'),
+            ...event('UID:b', 'DTSTART:20261021T093000', 'LOCATION:Main St', 'SUMMARY:Dentist')
+        ), options)).map(({ plan }) => plan)
+
+        expect(trip).toMatchObject({ title: 'Trip', date: '2026-10-30', hasDueDate: true, dueDate: '2026-11-01', timeSlots: undefined })
+        expect(dentist).toMatchObject({ title: 'Dentist', date: '2026-10-21', hasDueDate: false })
+        expect(dentist.timeSlots).toEqual([expect.objectContaining({ time: '09:30', description: 'Main St' })])
+    })
+
+    it('turns EXDATEs and overrides into exceptions, and moved occurrences into separate plans', () => {
+        const result = eventsToPlans(parseIcs(calendar(
+            ...event('UID:s', 'DTSTART:20261019T090000', 'RRULE:FREQ=WEEKLY;COUNT=5', 'EXDATE:20261026T090000', 'SUMMARY:Sync'),
+            ...event('UID:s', 'RECURRENCE-ID:20261102T090000', 'DTSTART:20261102T100000', 'SUMMARY:Sync (long)'),
+            ...event('UID:s', 'RECURRENCE-ID:20261109T090000', 'DTSTART:20261110T090000', 'SUMMARY:Sync')
+        ), options))
+
+        expect(result).toHaveLength(2)
+        const [series, moved] = result.map(({ plan }) => plan)
+        expect(series.recurrence).toMatchObject({ frequency: 'weekly', count: 5 })
+        expect(series.exceptions).toEqual([
+            expect.objectContaining({ occurrenceDate: '2026-10-26', cancelled: true }),
+            expect.objectContaining({ occurrenceDate: '2026-11-02', cancelled: false, title: 'Sync (long)', timeSlots: [expect.objectContaining({ time: '10:00' })] }),
+            expect.objectContaining({ occurrenceDate: '2026-11-09', cancelled: true })
+        ])
+        expect(moved).toMatchObject({ date: '2026-11-10', recurrence: null })
+    })
+})
+
+describe('prepareIcsImport', () => {
+    it('flags events that match an existing plan on the same day', () => {
+        const existing = [makePlan({ id: 'p1', title: 'dentist ', date: '2026-10-21' })]
+
+        const [dentist, gym] = prepareIcsImport(calendar(
+            ...event('UID:a', 'DTSTART:20261021T093000', 'SUMMARY:Dentist'),
+            ...event('UID:b', 'DTSTART:20261021T180000', 'SUMMARY:Gym')
+        ), existing, options)
+
+        expect(dentist.duplicateOf?.id).toBe('p1')
+        expect(gym.duplicateOf).toBeNull()
+    })
+})
@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { billableRevenues, invoiceDeadlines, invoiceStatus, invoiceTotals, nextInvoiceNumber } from '../invoices'
+import { createInvoice, createRevenue, deleteClient, deleteInvoice, fetchInvoices, saveClient, updateInvoice } from '../supabaseService'
+import { Client } from '../types'
+import { makeInvoice, makeRevenue, useLocalBackend } from './fixtures'
+
+const design = makeRevenue({ id: 'design', price: 1200 })
+const build = makeRevenue({ id: 'build', price: 800.5 })
+const usd = makeRevenue({ id: 'usd', price: 100, currency: 'USD' })
+const revenues = [design, build, usd]
+
+const client: Client = { id: 'acme', name: 'Acme', email: 'billing@acme.test', createdAt: '2026-10-01T08:00:00.000Z' }
+
+describe('invoiceTotals', () => {
+    it('takes the discount off the subtotal and adds tax on the rest', () => {
+        const invoice = makeInvoice({
+            items: [{ id: 'i1', revenueId: 'design' }, { id: 'i2', revenueId: 'build' }],
+            discount: 100.5,
+            taxRate: 12
+        })
+
+        expect(invoiceTotals(invoice, revenues)).toEqual({ subtotal: 2000.5, discount: 100.5, tax: 228, total: 2128 })
+    })
+
+    it('never discounts below zero and skips entries that are gone', () => {
+        const invoice = makeInvoice({ items: [{ id: 'i1', revenueId: 'build' }, { id: 'i2', revenueId: 'trashed' }], discount: 5000 })
+
+        expect(invoiceTotals(invoice, revenues)).toEqual({ subtotal: 800.5, discount: 800.5, tax: 0, total: 0 })
+    })
+})
+
+describe('invoice status and numbering', () => {
+    it('shows sent invoices past their due date as overdue', () => {
+        const sent = makeInvoice({ status: 'sent', dueDate: '2026-10-15' })
+
+        expect(invoiceStatus(sent, '2026-10-15')).toBe('sent')
+        expect(invoiceStatus(sent, '2026-10-16')).toBe('overdue')
+        expect(invoiceStatus({ ...sent, status: 'paid' }, '2026-11-01')).toBe('paid')
+        expect(invoiceStatus({ ...sent, status: 'draft' }, '2026-11-01')).toBe('draft')
+    })
+
+    it('continues the sequence of the issue year', () => {
+        const invoices = [
+            makeInvoice({ number: 'INV-2026-001' }),
+            makeInvoice({ number: 'INV-2026-007' }),
+            makeInvoice({ number: 'INV-2025-020' }),
+            makeInvoice({ number: 'Custom-1' }),
+        ]
+
+        expect(nextInvoiceNumber(invoices, '2026-12-01')).toBe('INV-2026-008')
+        expect(nextInvoiceNumber(invoices, '2027-01-02')).toBe('INV-2027-001')
+    })
+
+    it('offers only unbilled entries in the invoice currency', () => {
+        const billed = makeInvoice({ id: 'other', items: [{ id: 'i1', revenueId: 'design' }] })
+        const current = makeInvoice({ id: 'current', items: [{ id: 'i2', revenueId: 'build' }] })
+
+        expect(billableRevenues(revenues, [billed, current], current).map(r => r.id)).toEqual(['build'])
+        expect(billableRevenues(revenues, [billed, current], { id: 'new', currency: 'USD' }).map(r => r.id)).toEqual(['usd'])
+    })
+
+    it('lists unpaid invoices as planner deadlines', () => {
+        const invoices = [
+            makeInvoice({ id: 'a', number: 'INV-2026-001', clientId: 'acme', status: 'sent', dueDate: '2026-10-10', items: [{ id: 'i1', revenueId: 'design' }] }),
+            makeInvoice({ id: 'b', number: 'INV-2026-002', status: 'paid' }),
+        ]
+
+        expect(invoiceDeadlines(invoices, [client], revenues, '2026-10-19')).toEqual([{
+            id: 'invoice:a',
+            date: '2026-10-10',
+            title: 'INV-2026-001 due · Acme · ₱1,200',
+            href: '/revenue/invoices/a',
+            overdue: true
+        }])
+    })
+})
+
+describe('invoice storage', () => {
+    beforeEach(async () => {
+        useLocalBackend()
+        await saveClient(client)
+        for (const revenue of revenues) await createRevenue(revenue)
+    })
+
+    it('saves invoices with their line items in order', async () => {
+        const invoice = makeInvoice({
+            clientId: 'acme',
+            taxRate: 12,
+            items: [{ id: 'i1', revenueId: 'build' }, { id: 'i2', revenueId: 'design' }]
+        })
+        await createInvoice(invoice)
+        await updateInvoice({ ...invoice, status: 'sent', items: [invoice.items[1]] })
+
+        const [saved] = await fetchInvoices()
+
+        expect(saved).toMatchObject({ id: invoice.id, clientId: 'acme', status: 'sent', taxRate: 12 })
+        expect(saved.items).toEqual([{ id: 'i2', revenueId: 'design' }])
+    })
+
+    it('bills each revenue entry on one invoice only', async () => {
+        await createInvoice(makeInvoice({ items: [{ id: 'i1', revenueId: 'design' }] }))
+
+        const second = await createInvoice(makeInvoice({ number: 'INV-2026-002', items: [{ id: 'i2', revenueId: 'design' }] }))
+
+        expect(second).toBeNull()
+        expect(await fetchInvoices()).toHaveLength(1)
+    })
+
+    it('keeps clients that still have invoices', async () => {
+        const invoice = makeInvoice({ clientId: 'acme' })
+        await createInvoice(invoice)
+
+        expect(await deleteClient('acme')).toBe(false)
+
+        await deleteInvoice(invoice.id)
+        expect(await deleteClient('acme')).toBe(true)
+    })
+})
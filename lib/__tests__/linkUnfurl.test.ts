@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+import { fallbackUnfurl, isPrivateAddress, isUnfurlableUrl, parseUnfurl } from '../linkUnfurl'
+
+describe('parseUnfurl', () => {
+    it('prefers Open Graph tags and resolves relative URLs', () => {
+        const html = `<html><head>
+            <title>Fallback title</title>
+            <meta property="og:title" content="Launch &amp; Learn">
+            <meta name="description" content='A short summary'>
+            <meta property="og:image" content="/cover.png">
+            <link rel="shortcut icon" href="/static/icon.png">
+        </head></html>`
+
+        expect(parseUnfurl(html, 'https://www.example.com/blog/post')).toEqual({
+            url: 'https://www.example.com/blog/post',
+            title: 'Launch & Learn',
+            description: 'A short summary',
+            image: 'https://www.example.com/cover.png',
+            favicon: 'https://www.example.com/static/icon.png',
+            siteName: 'example.com'
+        })
+    })
+
+    it('falls back to the <title> and the default favicon', () => {
+        const unfurl = parseUnfurl('<title>\n  Docs\n</title>', 'https://docs.example.com/')
+        expect(unfurl.title).toBe('Docs')
+        expect(unfurl.favicon).toBe('https://docs.example.com/favicon.ico')
+    })
+})
+
+describe('fallbackUnfurl', () => {
+    it('builds a card from the URL alone', () => {
+        expect(fallbackUnfurl('https://www.example.com/pricing/')).toEqual({
+            url: 'https://www.example.com/pricing/',
+            title: 'example.com/pricing',
+            favicon: 'https://www.example.com/favicon.ico',
+            siteName: 'example.com'
+        })
+    })
+})
+
+describe('isUnfurlableUrl', () => {
+    it('allows public http(s) hosts only', () => {
+        expect(isUnfurlableUrl('https://example.com/page')).toBe(true)
+        expect(isUnfurlableUrl('https://fcbarcelona.com')).toBe(true)
+        expect(isUnfurlableUrl('ftp://example.com')).toBe(false)
+        expect(isUnfurlableUrl('http://localhost:3000')).toBe(false)
+        expect(isUnfurlableUrl('http://127.0.0.1/admin')).toBe(false)
+        expect(isUnfurlableUrl('http://192.168.1.1')).toBe(false)
+        expect(isUnfurlableUrl('http://169.254.169.254/latest/meta-data')).toBe(false)
+        expect(isUnfurlableUrl('http://[::1]/')).toBe(false)
+        expect(isUnfurlableUrl('http://[::ffff:127.0.0.1]/')).toBe(false)
+        expect(isUnfurlableUrl('http://[2606:4700::1111]/')).toBe(true)
+        expect(isUnfurlableUrl('not a url')).toBe(false)
+    })
+})
+
+describe('isPrivateAddress', () => {
+    it('flags loopback, private, link-local and reserved addresses', () => {
+        for (const address of ['0.0.0.0', '10.1.2.3', '127.0.0.1', '169.254.169.254', '172.16.0.1', '172.31.255.255',
+            '192.168.0.10', '100.64.0.1', '224.0.0.1', '::', '::1', 'fc00::1', 'fd12:3456::1', 'fe80::1',
+            '::ffff:10.0.0.1', '::ffff:a9fe:a9fe', 'not an address']) {
+            expect(isPrivateAddress(address), address).toBe(true)
+        }
+    })
+
+    it('allows public addresses', () => {
+        for (const address of ['93.184.216.34', '172.32.0.1', '8.8.8.8', '2606:4700::1111', '::ffff:8.8.8.8']) {
+            expect(isPrivateAddress(address), address).toBe(false)
+        }
+    })
+})
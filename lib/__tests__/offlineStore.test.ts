@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { clearOfflineData, discardQueuedMutation, MAX_REPLAY_ATTEMPTS, QueuedMutation, queueMutation, ReplayResult, replayQueue, reportNetworkFailure, resolveQueuedConflict, retryQueuedMutation, subscribeToQueue } from '../offlineStore'
+import { createPlan, createRevenue, fetchPlans, fetchRevenues, splitPlanSeries, syncQueuedMutations, upsertPlanException } from '../supabaseService'
+import { makePlan, makeRevenue, useLocalBackend } from './fixtures'
+
+function currentQueue(): QueuedMutation[] {
+    let current: QueuedMutation[] = []
+    subscribeToQueue(queue => { current = queue })()
+    return current
+}
+
+describe('replayQueue', () => {
+    beforeEach(async () => {
+        await clearOfflineData()
+    })
+
+    it('keeps failed mutations, and later ones for the same record, for a retry', async () => {
+        await queueMutation('updateCard', [{ id: 'a', title: 'First' }], { type: 'card', id: 'a' }, true)
+        await queueMutation('updateCard', [{ id: 'a', title: 'Second' }], { type: 'card', id: 'a' }, true)
+        await queueMutation('updateGoal', [{ id: 'b' }], { type: 'goal', id: 'b' }, true)
+
+        const replayed: string[] = []
+        await replayQueue(async (name, args) => {
+            replayed.push(`${name}:${(args[0] as { id: string }).id}`)
+            return name === 'updateCard' ? 'failed' : 'saved'
+        })
+
+        // The second card write waits behind the first; the goal is saved regardless
+        expect(replayed).toEqual(['updateCard:a', 'updateGoal:b'])
+        expect(currentQueue().map(m => [m.name, m.attempts])).toEqual([['updateCard', 1], ['updateCard', undefined]])
+
+        await replayQueue(async () => 'saved')
+        expect(currentQueue()).toEqual([])
+    })
+
+    it('holds conflicts until they are resolved', async () => {
+        await queueMutation('updateCard', [{ id: 'a', title: 'Offline edit', version: 1 }], { type: 'card', id: 'a' }, true)
+        // Without IndexedDB there are no sequence numbers, so give the entry one to resolve by
+        currentQueue()[0].seq = 1
+
+        let result: ReplayResult = 'conflict'
+        const execute = async () => result
+        await replayQueue(execute)
+        expect(currentQueue()[0].conflict).toBe(true)
+
+        result = 'saved'
+        await replayQueue(execute)
+        expect(currentQueue()).toHaveLength(1)
+
+        await resolveQueuedConflict(1, [{ id: 'a', title: 'Merged', version: 2 }])
+        expect(currentQueue()[0]).toMatchObject({ conflict: false, args: [{ title: 'Merged' }] })
+
+        await replayQueue(execute)
+        expect(currentQueue()).toEqual([])
+    })
+
+    it('gives up on a mutation that keeps failing until the user retries or discards it', async () => {
+        await queueMutation('updateCard', [{ id: 'a', title: 'Broken' }], { type: 'card', id: 'a' }, true)
+        await queueMutation('updateCard', [{ id: 'a', title: 'Later' }], { type: 'card', id: 'a' }, true)
+        currentQueue().forEach((m, i) => { m.seq = i + 1 })
+
+        const replayed: string[] = []
+        const execute = async (_name: string, args: unknown[]): Promise<ReplayResult> => {
+            const title = (args[0] as { title: string }).title
+            replayed.push(title)
+            return title === 'Broken' ? 'failed' : 'saved'
+        }
+        for (let i = 0; i < MAX_REPLAY_ATTEMPTS + 2; i++) await replayQueue(execute)
+
+        expect(replayed).toEqual(Array(MAX_REPLAY_ATTEMPTS).fill('Broken'))
+        expect(currentQueue().map(m => [m.args[0], m.abandoned])).toEqual([[{ id: 'a', title: 'Broken' }, true], [{ id: 'a', title: 'Later' }, undefined]])
+
+        await retryQueuedMutation(1)
+        expect(currentQueue()[0]).toMatchObject({ abandoned: false, attempts: 0 })
+        replayed.length = 0
+        await replayQueue(execute)
+        expect(replayed).toEqual(['Broken'])
+
+        await discardQueuedMutation(1)
+        await replayQueue(execute)
+        expect(replayed).toEqual(['Broken', 'Later'])
+        expect(currentQueue()).toEqual([])
+    })
+})
+
+describe('writes that never reach the server', () => {
+    beforeEach(async () => {
+        await clearOfflineData()
+    })
+
+    it('are queued even though the browser reports being online', async () => {
+        const backend = useLocalBackend()
+        const from = backend.from
+        // What the Supabase client's fetch does when a request gets no answer
+        backend.from = () => {
+            reportNetworkFailure()
+            return from('unreachable')
+        }
+
+        const revenue = makeRevenue({ name: 'Logo design' })
+        expect(await createRevenue(revenue)).toEqual(revenue)
+        expect(currentQueue().map(m => m.name)).toEqual(['createRevenue'])
+
+        // Still unreachable: the write stays queued and doesn't count as a failed attempt
+        await syncQueuedMutations()
+        expect(currentQueue().map(m => m.attempts)).toEqual([undefined])
+
+        backend.from = from
+        await syncQueuedMutations()
+        expect(currentQueue()).toEqual([])
+        expect((await fetchRevenues()).map(r => r.name)).toEqual(['Logo design'])
+    })
+})
+
+describe('splitPlanSeries offline', () => {
+    beforeEach(async () => {
+        useLocalBackend()
+        await clearOfflineData()
+    })
+
+    afterEach(() => {
+        vi.unstubAllGlobals()
+    })
+
+    it('queues every write of the split and replays them in order', async () => {
+        const series = makePlan({ title: 'Standup', date: '2026-10-01', recurrence: { frequency: 'daily', interval: 1 } })
+        await createPlan(series)
+        await upsertPlanException({ id: 'exception-1', planId: series.id, occurrenceDate: '2026-10-20', cancelled: true, completed: false })
+        const [loaded] = await fetchPlans()
+
+        vi.stubGlobal('navigator', { onLine: false })
+        const result = await splitPlanSeries(loaded, '2026-10-15', { ...loaded, title: 'Sync' })
+        expect(currentQueue().map(m => m.name)).toEqual(['createPlan', 'movePlanExceptions', 'updatePlan'])
+        // Nothing reached the database yet
+        expect((await fetchPlansOnline()).map(p => p.title)).toEqual(['Standup'])
+
+        vi.stubGlobal('navigator', { onLine: true })
+        await syncQueuedMutations()
+        expect(currentQueue()).toEqual([])
+
+        const plans = await fetchPlans()
+        const created = plans.find(p => p.id === result!.created.id)!
+        expect(created.title).toBe('Sync')
+        expect(created.exceptions?.map(e => e.occurrenceDate)).toEqual(['2026-10-20'])
+        expect(plans.find(p => p.id === series.id)?.exceptions).toEqual([])
+    })
+})
+
+async function fetchPlansOnline() {
+    vi.stubGlobal('navigator', { onLine: true })
+    const plans = await fetchPlans()
+    vi.stubGlobal('navigator', { onLine: false })
+    return plans
+}
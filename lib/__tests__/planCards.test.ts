@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { boardOccurrence, determineCardStatus, planToCard, withOccurrenceCompleted } from '../planCards'
+import { makePlan } from './fixtures'
+
+describe('determineCardStatus', () => {
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['Date'] })
+        vi.setSystemTime(new Date(2026, 9, 19, 10, 0)) // Monday 19 Oct 2026, 10:00 local time
+    })
+
+    afterEach(() => {
+        vi.useRealTimers()
+    })
+
+    it('puts completed plans in completed whatever their dates', () => {
+        expect(determineCardStatus(makePlan({ date: '2026-10-01', completed: true }))).toBe('completed')
+        expect(determineCardStatus(makePlan({ date: '2026-12-01', completed: true }))).toBe('completed')
+    })
+
+    it('puts plans for today in progress', () => {
+        expect(determineCardStatus(makePlan({ date: '2026-10-19' }))).toBe('in-progress')
+    })
+
+    it('keeps a plan due today in progress until the end of the day', () => {
+        vi.setSystemTime(new Date(2026, 9, 19, 23, 30))
+        expect(determineCardStatus(makePlan({ date: '2026-10-19' }))).toBe('in-progress')
+    })
+
+    it('puts future plans in pending', () => {
+        expect(determineCardStatus(makePlan({ date: '2026-10-20' }))).toBe('pending')
+        expect(determineCardStatus(makePlan({ date: '2026-11-02', hasDueDate: true, dueDate: '2026-11-06' }))).toBe('pending')
+    })
+
+    it('puts multi-day plans spanning today in progress', () => {
+        expect(determineCardStatus(makePlan({ date: '2026-10-15', hasDueDate: true, dueDate: '2026-10-23' }))).toBe('in-progress')
+    })
+
+    it('keeps overdue plans in progress so they stay visible', () => {
+        expect(determineCardStatus(makePlan({ date: '2026-10-18' }))).toBe('in-progress')
+        expect(determineCardStatus(makePlan({ date: '2026-10-01', hasDueDate: true, dueDate: '2026-10-10' }))).toBe('in-progress')
+    })
+
+    it('falls back to inbox for a past single-day plan with a leftover future due date', () => {
+        // hasDueDate=false ignores dueDate for the range, but isOverdue still reads it
+        expect(determineCardStatus(makePlan({ date: '2026-10-12', hasDueDate: false, dueDate: '2026-10-30' }))).toBe('inbox')
+    })
+
+    it('moves a plan from pending to in progress when its day comes', () => {
+        const plan = makePlan({ date: '2026-10-21' })
+        expect(determineCardStatus(plan)).toBe('pending')
+
+        vi.setSystemTime(new Date(2026, 9, 21, 0, 5))
+        expect(determineCardStatus(plan)).toBe('in-progress')
+    })
+})
+
+describe('planToCard', () => {
+    it('builds a virtual card linked to the plan', () => {
+        const plan = makePlan({
+            title: 'Dentist',
+            description: 'Bring forms',
+            timeSlots: [{ id: 'slot-1', time: '09:00', description: 'Check-in' }],
+            attachments: [{ id: 'att-1', type: 'link', name: 'Map', url: 'https://example.com' }],
+            checklist: [{ id: 'item-1', text: 'Insurance card', completed: true }],
+            comments: [{ id: 'comment-1', text: 'Moved to 10am', createdAt: '2026-10-19T08:00:00.000Z', isMarkedDone: false }]
+        })
+
+        const card = planToCard(plan)
+
+        expect(card.id).toBe(`plan-${plan.id}`)
+        expect(card.linkedPlanId).toBe(plan.id)
+        expect(card.title).toBe('Dentist')
+        expect(card.description).toBe('Bring forms')
+        expect(card.timeSlots).toEqual(plan.timeSlots)
+        expect(card.attachments).toEqual(plan.attachments)
+        expect(card.checklist).toEqual(plan.checklist)
+        expect(card.comments).toEqual(plan.comments)
+        expect(card.position).toBeUndefined()
+    })
+
+    it('uses the due date as end date only for multi-day plans', () => {
+        expect(planToCard(makePlan({ date: '2026-10-19', hasDueDate: true, dueDate: '2026-10-25' })).endDate).toBe('2026-10-25')
+        expect(planToCard(makePlan({ date: '2026-10-19', hasDueDate: false, dueDate: '2026-10-25' })).endDate).toBe('2026-10-19')
+    })
+
+    it('defaults missing attachments, checklist and comments to empty lists', () => {
+        const card = planToCard(makePlan({ attachments: undefined, checklist: undefined, comments: undefined }))
+        expect(card.attachments).toEqual([])
+        expect(card.checklist).toEqual([])
+        expect(card.comments).toEqual([])
+    })
+})
+
+describe('recurring plans on the board', () => {
+    const series = () => makePlan({ title: 'Standup', date: '2026-10-12', recurrence: { frequency: 'weekly', interval: 1, byWeekday: ['MO', 'WE'] } })
+
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['Date'] })
+        vi.setSystemTime(new Date(2026, 9, 20, 10, 0)) // Tuesday 20 Oct 2026
+    })
+
+    afterEach(() => {
+        vi.useRealTimers()
+    })
+
+    it('show the next occurrence when none runs today', () => {
+        const card = planToCard(series())
+        expect(card).toMatchObject({ startDate: '2026-10-21', occurrenceDate: '2026-10-21', status: 'pending' })
+    })
+
+    it('show the last occurrence once the series has ended', () => {
+        const ended = { ...series(), recurrence: { frequency: 'weekly' as const, interval: 1, byWeekday: ['MO' as const], count: 2 } }
+        expect(boardOccurrence(ended).occurrenceDate).toBe('2026-10-19')
+    })
+
+    it('complete a single occurrence through its exception', () => {
+        const plan = series()
+        const { plan: updated, exception } = withOccurrenceCompleted(plan, '2026-10-21', true)
+
+        expect(exception).toMatchObject({ planId: plan.id, occurrenceDate: '2026-10-21', completed: true, cancelled: false })
+        expect(updated.completed).toBe(false)
+        expect(planToCard(updated).status).toBe('completed')
+
+        // The other occurrences are still open
+        vi.setSystemTime(new Date(2026, 9, 22, 10, 0))
+        expect(planToCard(updated)).toMatchObject({ occurrenceDate: '2026-10-26', status: 'pending' })
+    })
+
+    it('keep the overrides an occurrence already has', () => {
+        const plan = { ...series(), exceptions: [{ id: 'exception-1', planId: 'p', occurrenceDate: '2026-10-21', cancelled: false, completed: false, title: 'Retro' }] }
+        const { exception } = withOccurrenceCompleted(plan, '2026-10-21', true)
+        expect(exception).toEqual({ ...plan.exceptions[0], completed: true })
+        expect(planToCard(plan).title).toBe('Retro')
+    })
+})
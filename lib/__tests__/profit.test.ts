@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { profitReport } from '../profit'
+import { createExpense, deleteExpense, fetchExpenses, fetchTrash, restoreExpense, updateExpense } from '../supabaseService'
+import { ExchangeRate } from '../types'
+import { makeExpense, makeRevenue, useLocalBackend } from './fixtures'
+
+const rates: ExchangeRate[] = [
+    { id: 'usd', fromCurrency: 'USD', toCurrency: 'PHP', rate: 50, rateDate: '2025-01-01', createdAt: '2025-01-01T00:00:00.000Z' },
+]
+
+const revenues = [
+    makeRevenue({ projectName: 'Website', price: 4000, dateCompleted: '2026-01-20' }),
+    makeRevenue({ projectName: 'Logo', price: 20, currency: 'USD', dateCompleted: '2026-02-03' }),
+    makeRevenue({ projectName: 'Website', price: 9000, dateCompleted: '2025-12-31' }),
+]
+
+const expenses = [
+    makeExpense({ projectName: 'Website', amount: 1500, date: '2026-01-05' }),
+    makeExpense({ amount: 300, category: 'Software', date: '2026-02-10' }),
+    makeExpense({ projectName: 'Logo', amount: 1200, date: '2026-02-11' }),
+    makeExpense({ amount: 10, currency: 'GBP', date: '2026-03-01' }),
+]
+
+const options = { from: '2026-01-01', to: '2026-03-31', currency: 'PHP', rates }
+
+describe('profitReport', () => {
+    it('subtracts expenses from revenue for every month in the range', () => {
+        const report = profitReport(revenues, expenses, options)
+
+        expect(report.totals).toEqual({ revenue: 5000, expenses: 3000, profit: 2000 })
+        expect(report.months.map(m => [m.key, m.revenue, m.expenses, m.profit])).toEqual([
+            ['2026-01', 4000, 1500, 2500],
+            ['2026-02', 1000, 1500, -500],
+            ['2026-03', 0, 0, 0],
+        ])
+        expect(report.missingCurrencies).toEqual(['GBP'])
+    })
+
+    it('groups by project, most profitable first, with unassigned expenses under No project', () => {
+        const report = profitReport(revenues, expenses, options)
+
+        expect(report.projects).toEqual([
+            { projectName: 'Website', revenue: 4000, expenses: 1500, profit: 2500 },
+            { projectName: 'Logo', revenue: 1000, expenses: 1200, profit: -200 },
+            { projectName: 'No project', revenue: 0, expenses: 300, profit: -300 },
+        ])
+    })
+})
+
+describe('expense storage', () => {
+    beforeEach(() => {
+        useLocalBackend()
+    })
+
+    it('saves expenses with their receipt', async () => {
+        const expense = makeExpense({ description: 'Figma', category: 'Software', projectName: 'Website' })
+        await createExpense(expense)
+        await updateExpense({ ...expense, receipt: { id: 'r', type: 'file', name: 'figma.pdf', url: 'https://example.com/figma.pdf' } })
+
+        const [saved] = await fetchExpenses()
+
+        expect(saved).toMatchObject({ id: expense.id, description: 'Figma', category: 'Software', projectName: 'Website' })
+        expect(saved.receipt).toMatchObject({ name: 'figma.pdf', url: 'https://example.com/figma.pdf' })
+    })
+
+    it('moves deleted expenses to the trash', async () => {
+        const expense = makeExpense({ description: 'Train ticket' })
+        await createExpense(expense)
+        await deleteExpense(expense.id)
+
+        expect(await fetchExpenses()).toEqual([])
+        expect((await fetchTrash()).map(item => [item.type, item.title])).toEqual([['expense', 'Train ticket']])
+
+        await restoreExpense(expense.id)
+        expect(await fetchExpenses()).toHaveLength(1)
+    })
+})
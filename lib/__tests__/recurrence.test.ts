@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest'
+import { endRecurrenceAt, expandPlan, formatRRule, generateOccurrenceDates, parseRRule, splitRecurrence } from '../recurrence'
+import { makePlan } from './fixtures'
+
+describe('parseRRule and formatRRule', () => {
+    it('round-trip the rules the planner can edit', () => {
+        for (const rrule of [
+            'FREQ=DAILY',
+            'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10',
+            'FREQ=MONTHLY;BYDAY=-1FR',
+            'FREQ=YEARLY;UNTIL=20301231'
+        ]) {
+            expect(formatRRule(parseRRule(rrule))).toBe(rrule)
+        }
+        expect(parseRRule('FREQ=HOURLY')).toBeUndefined()
+    })
+})
+
+describe('generateOccurrenceDates', () => {
+    it('walks weekly rules through the chosen weekdays', () => {
+        // 2026-10-19 is a Monday
+        expect(generateOccurrenceDates('2026-10-19', { frequency: 'weekly', interval: 2, byWeekday: ['MO', 'WE'] }, '2026-11-05'))
+            .toEqual(['2026-10-19', '2026-10-21', '2026-11-02', '2026-11-04'])
+    })
+
+    it('skips months without the start day instead of moving to the month end', () => {
+        expect(generateOccurrenceDates('2026-01-31', { frequency: 'monthly', interval: 1, monthlyMode: 'day-of-month' }, '2026-07-31'))
+            .toEqual(['2026-01-31', '2026-03-31', '2026-05-31', '2026-07-31'])
+    })
+
+    it('finds the last weekday of each month', () => {
+        expect(generateOccurrenceDates('2026-10-30', { frequency: 'monthly', interval: 1, monthlyMode: 'nth-weekday', byWeekday: ['FR'], bySetPos: -1 }, '2027-01-31'))
+            .toEqual(['2026-10-30', '2026-11-27', '2026-12-25', '2027-01-29'])
+    })
+
+    it('only repeats Feb 29 in leap years', () => {
+        expect(generateOccurrenceDates('2024-02-29', { frequency: 'yearly', interval: 1 }, '2032-12-31'))
+            .toEqual(['2024-02-29', '2028-02-29', '2032-02-29'])
+    })
+
+    it('counts COUNT from the series start, whatever the window', () => {
+        const rule = { frequency: 'daily' as const, interval: 1, count: 3 }
+        expect(generateOccurrenceDates('2026-10-01', rule, '2026-12-31')).toEqual(['2026-10-01', '2026-10-02', '2026-10-03'])
+    })
+
+    it('includes the UNTIL date itself', () => {
+        expect(generateOccurrenceDates('2026-10-01', { frequency: 'weekly', interval: 1, until: '2026-10-15' }, '2026-12-31'))
+            .toEqual(['2026-10-01', '2026-10-08', '2026-10-15'])
+    })
+})
+
+describe('expandPlan', () => {
+    it('applies exceptions and drops cancelled occurrences', () => {
+        const plan = makePlan({
+            id: 'standup',
+            title: 'Standup',
+            date: '2026-10-19',
+            recurrence: { frequency: 'daily', interval: 1 },
+            exceptions: [
+                { id: 'e1', planId: 'standup', occurrenceDate: '2026-10-20', cancelled: true, completed: false },
+                { id: 'e2', planId: 'standup', occurrenceDate: '2026-10-21', cancelled: false, completed: true, title: 'Retro' }
+            ]
+        })
+
+        const occurrences = expandPlan(plan, '2026-10-19', '2026-10-22')
+
+        expect(occurrences.map(o => [o.occurrenceDate, o.title, o.completed])).toEqual([
+            ['2026-10-19', 'Standup', false],
+            ['2026-10-21', 'Retro', true],
+            ['2026-10-22', 'Standup', false]
+        ])
+    })
+
+    it('keeps multi-day occurrences that started before the window', () => {
+        const plan = makePlan({
+            date: '2026-10-05',
+            hasDueDate: true,
+            dueDate: '2026-10-07',
+            recurrence: { frequency: 'weekly', interval: 1 }
+        })
+
+        const [occurrence] = expandPlan(plan, '2026-10-14', '2026-10-14')
+
+        expect(occurrence).toMatchObject({ date: '2026-10-12', dueDate: '2026-10-14', occurrenceDate: '2026-10-12' })
+    })
+})
+
+describe('splitRecurrence', () => {
+    it('shares COUNT between the two halves', () => {
+        const plan = makePlan({ date: '2026-10-01', recurrence: { frequency: 'daily', interval: 1, count: 10 } })
+
+        const { head, tail } = splitRecurrence(plan, '2026-10-04')
+
+        expect(head).toEqual({ frequency: 'daily', interval: 1, count: 3 })
+        expect(tail).toEqual({ frequency: 'daily', interval: 1, count: 7 })
+    })
+
+    it('ends an UNTIL or open-ended series on the last occurrence before the split', () => {
+        const plan = makePlan({ date: '2026-01-31', recurrence: { frequency: 'monthly', interval: 1, monthlyMode: 'day-of-month', until: '2026-12-31' } })
+
+        // April has no 31st, so the head ends on March 31 rather than the day before the split
+        const { head, tail } = splitRecurrence(plan, '2026-05-31')
+
+        expect(head?.until).toBe('2026-03-31')
+        expect(tail.until).toBe('2026-12-31')
+    })
+
+    it('has no head when splitting at the first occurrence', () => {
+        const plan = makePlan({ date: '2026-10-01', recurrence: { frequency: 'daily', interval: 1 } })
+
+        expect(splitRecurrence(plan, '2026-10-01')).toEqual({ head: null, tail: { frequency: 'daily', interval: 1 } })
+    })
+})
+
+describe('endRecurrenceAt', () => {
+    it('ends the series with the given occurrence', () => {
+        const open = makePlan({ date: '2026-10-01', recurrence: { frequency: 'weekly', interval: 1 } })
+        const counted = makePlan({ date: '2026-10-01', recurrence: { frequency: 'weekly', interval: 1, count: 10 } })
+
+        expect(endRecurrenceAt(open, '2026-10-15')).toEqual({ frequency: 'weekly', interval: 1, until: '2026-10-15' })
+        expect(endRecurrenceAt(counted, '2026-10-15')).toEqual({ frequency: 'weekly', interval: 1, count: 3 })
+    })
+
+    it('returns null before the first occurrence', () => {
+        const plan = makePlan({ date: '2026-10-01', recurrence: { frequency: 'daily', interval: 1 } })
+
+        expect(endRecurrenceAt(plan, '2026-09-30')).toBeNull()
+    })
+})
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { analyzeRevenue } from '../revenueAnalytics'
+import { ExchangeRate } from '../types'
+import { makeRevenue } from './fixtures'
+
+const rates: ExchangeRate[] = [
+    { id: 'usd', fromCurrency: 'USD', toCurrency: 'PHP', rate: 50, rateDate: '2025-01-01', createdAt: '2025-01-01T00:00:00.000Z' },
+]
+
+const revenues = [
+    makeRevenue({ id: 'a', projectName: 'Website', price: 1000, dateCompleted: '2026-01-10' }),
+    makeRevenue({ id: 'b', projectName: 'Website', price: 3000, dateCompleted: '2026-01-25' }),
+    makeRevenue({ id: 'c', projectName: 'Logo', price: 100, currency: 'USD', dateCompleted: '2026-02-14' }),
+    makeRevenue({ id: 'd', projectName: 'Logo', price: 2000, dateCompleted: '2025-01-05' }),
+    makeRevenue({ id: 'e', projectName: 'Mural', price: 9000, dateCompleted: '2025-06-01' }),
+    makeRevenue({ id: 'f', projectName: 'Print', price: 10, currency: 'GBP', dateCompleted: '2026-03-01' }),
+]
+
+const options = { from: '2026-01-01', to: '2026-03-31', currency: 'PHP', rates }
+
+describe('analyzeRevenue', () => {
+    it('totals the range in the reporting currency and compares it with the year before', () => {
+        const result = analyzeRevenue(revenues, options)
+
+        expect(result.total).toBe(1000 + 3000 + 5000)
+        expect(result.count).toBe(3)
+        expect(result.averageProjectValue).toBe(3000)
+        expect(result.previousYearTotal).toBe(2000)
+        expect(result.yearOverYearChange).toBeCloseTo(3.5)
+        expect(result.missingCurrencies).toEqual(['GBP'])
+    })
+
+    it('buckets every month and quarter in the range, empty ones included', () => {
+        const result = analyzeRevenue(revenues, options)
+
+        expect(result.months.map(m => [m.key, m.total, m.previousYearTotal])).toEqual([
+            ['2026-01', 4000, 2000],
+            ['2026-02', 5000, 0],
+            ['2026-03', 0, 0],
+        ])
+        expect(result.quarters).toEqual([expect.objectContaining({ key: '2026-Q1', label: 'Q1 2026', total: 9000, count: 3 })])
+    })
+
+    it('breaks the range down by project and picks the best and worst months', () => {
+        const result = analyzeRevenue(revenues, options)
+
+        expect(result.projects.map(p => [p.projectName, p.total, p.count])).toEqual([
+            ['Logo', 5000, 1],
+            ['Website', 4000, 2],
+        ])
+        expect(result.projects[0].share).toBeCloseTo(5 / 9)
+        expect(result.bestMonth?.key).toBe('2026-02')
+        expect(result.worstMonth?.key).toBe('2026-03')
+    })
+
+    it('has no comparison or best month without revenue', () => {
+        const result = analyzeRevenue([], options)
+
+        expect(result.total).toBe(0)
+        expect(result.averageProjectValue).toBe(0)
+        expect(result.yearOverYearChange).toBeNull()
+        expect(result.bestMonth).toBeNull()
+        expect(result.projects).toEqual([])
+    })
+})
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { guessColumnMapping, guessDateFormat, mapRevenueRows, parseAmount, parseCsv, revenuesToCsv } from '../revenueCsv'
+import { makeRevenue } from './fixtures'
+
+describe('parseCsv', () => {
+    it('handles quoted cells with delimiters, quotes and line breaks', () => {
+        const rows = parseCsv('Name,Notes\r\n"Logo, v2","Said ""ok""\nthen paid"\r\n\r\nSite,\n')
+
+        expect(rows).toEqual([
+            ['Name', 'Notes'],
+            ['Logo, v2', 'Said "ok"\nthen paid'],
+            ['Site', '']
+        ])
+    })
+
+    it('detects semicolon-separated files', () => {
+        expect(parseCsv('Name;Amount\nLogo;1.250,50')).toEqual([['Name', 'Amount'], ['Logo', '1.250,50']])
+    })
+})
+
+describe('revenuesToCsv', () => {
+    it('exports matching entries oldest first and reads back through the import', () => {
+        const revenues = [
+            makeRevenue({ name: 'Retainer, Oct', projectName: 'Acme', price: 1500, dateCompleted: '2026-10-15', description: 'Line "one"' }),
+            makeRevenue({ name: 'Logo', projectName: 'Acme', price: 1500, dateCompleted: '2026-09-01' }),
+            makeRevenue({ name: 'Other', projectName: 'Globex', dateCompleted: '2026-10-02' }),
+        ]
+
+        const csv = revenuesToCsv(revenues, { from: '2026-09-01', to: '2026-10-31', projectName: 'Acme' })
+        const rows = parseCsv(csv)
+
+        expect(rows.map(row => row[0])).toEqual(['Name', 'Logo', 'Retainer, Oct'])
+        const [logo, retainer] = mapRevenueRows(rows, guessColumnMapping(rows[0]), { dateFormat: 'yyyy-MM-dd', hasHeader: true })
+        expect(logo.revenue).toMatchObject({ name: 'Logo', projectName: 'Acme', price: 1500, currency: 'PHP', dateCompleted: '2026-09-01' })
+        expect(retainer.revenue?.description).toBe('Line "one"')
+    })
+})
+
+describe('parseAmount', () => {
+    it('reads thousands separators, decimal commas and currency symbols', () => {
+        expect(parseAmount('1,250.50')).toEqual({ amount: 1250.5, symbol: undefined })
+        expect(parseAmount('1.250,50')).toEqual({ amount: 1250.5, symbol: undefined })
+        expect(parseAmount('$1,250')).toEqual({ amount: 1250, symbol: '$' })
+        expect(parseAmount('€ -40')).toEqual({ amount: -40, symbol: '€' })
+        expect(parseAmount('n/a')).toBeNull()
+    })
+})
+
+describe('mapRevenueRows', () => {
+    it('maps columns by header name and reports every problem in a row', () => {
+        const rows = parseCsv([
+            'Client,Amount,Date,Title,Memo',
+            'Acme,"$2,000",10/19/2026,Redesign,Phase 1',
+            ',abc,19/10/2026,Broken,',
+        ].join('\n'))
+        const mapping = guessColumnMapping(rows[0])
+
+        expect(mapping).toEqual({ name: 3, projectName: 0, price: 1, currency: null, dateCompleted: 2, description: 4 })
+
+        const [ok, broken] = mapRevenueRows(rows, mapping, { dateFormat: 'MM/dd/yyyy', hasHeader: true, defaultCurrency: '€' })
+
+        expect(ok).toMatchObject({ line: 2, errors: [] })
+        expect(ok.revenue).toMatchObject({ name: 'Redesign', projectName: 'Acme', price: 2000, currency: 'USD', dateCompleted: '2026-10-19', description: 'Phase 1' })
+        expect(broken.line).toBe(3)
+        expect(broken.revenue).toBeNull()
+        expect(broken.errors).toEqual(['Project is missing', '"abc" is not a number', '"19/10/2026" is not a MM/dd/yyyy date'])
+    })
+
+    it('guesses the date format from the values', () => {
+        expect(guessDateFormat(['2026-10-19', '2026-01-02'])).toBe('yyyy-MM-dd')
+        expect(guessDateFormat(['03/04/2026', '19/10/2026'])).toBe('dd/MM/yyyy')
+    })
+})
@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+    createCard, createGoal, createPlan, createRevenue, deleteCard, deleteGoal, deletePlan, deleteRevenue,
+    fetchCards, fetchGoals, fetchPlans, fetchRevenues, fetchTrash, purgeCard, purgeExpiredTrash,
+    restoreCard, restorePlan, supabase, updateCard, updatePlan, upsertPlanException
+} from '../supabaseService'
+import { LocalBackend } from '../localBackend'
+import { planToCard } from '../planCards'
+import { makeCard, makePlan, useLocalBackend } from './fixtures'
+
+let backend: LocalBackend
+
+beforeEach(() => {
+    backend = useLocalBackend()
+})
+
+afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+})
+
+describe('soft delete', () => {
+    it('hides trashed rows from every fetch but keeps them stored', async () => {
+        const plan = makePlan()
+        const card = makeCard()
+        await createPlan(plan)
+        await createCard(card)
+        await createGoal({ id: 'goal-1', title: 'Save up', goalType: 'personal', checklist: [], comments: [], createdAt: '2026-10-01T08:00:00.000Z' })
+        await createRevenue({ id: 'revenue-1', name: 'Logo', projectName: 'Acme', price: 500, currency: 'PHP', dateCompleted: '2026-10-10', createdAt: '2026-10-10T08:00:00.000Z' })
+
+        await deletePlan(plan.id)
+        await deleteCard(card.id)
+        await deleteGoal('goal-1')
+        await deleteRevenue('revenue-1')
+
+        expect(await fetchPlans()).toHaveLength(0)
+        expect(await fetchCards()).toHaveLength(0)
+        expect(await fetchGoals()).toHaveLength(0)
+        expect(await fetchRevenues()).toHaveLength(0)
+
+        const trash = await fetchTrash()
+        expect(trash.map(item => item.type).sort()).toEqual(['card', 'goal', 'plan', 'revenue'])
+        expect(backend.dump().plans).toHaveLength(1)
+    })
+
+    it('lists only the trashed cards of the requested board', async () => {
+        const personal = makeCard({ title: 'Personal' })
+        await createCard(personal)
+        await deleteCard(personal.id)
+
+        expect((await fetchTrash()).map(item => item.title)).toEqual(['Personal'])
+        expect(await fetchTrash('workspace-1')).toEqual([])
+    })
+})
+
+describe('restorePlan', () => {
+    it('brings back a trashed plan with its child rows and linked cards', async () => {
+        const plan = makePlan({
+            title: 'Weekly review',
+            recurrence: { frequency: 'weekly', interval: 1 },
+            timeSlots: [{ id: 'slot-1', time: '17:00', description: 'Review' }],
+            attachments: [{ id: 'att-1', type: 'link', name: 'Notes', url: 'https://example.com/notes' }]
+        })
+        await createPlan(plan)
+        await upsertPlanException({ id: 'exception-1', planId: plan.id, occurrenceDate: '2026-10-26', cancelled: true, completed: false })
+        const card = makeCard({ linkedPlanId: plan.id })
+        await createCard(card)
+
+        const [stored] = await fetchPlans()
+        await deletePlan(plan.id)
+        const ok = await restorePlan(plan.id)
+
+        expect(ok).toBe(true)
+        const [restored] = await fetchPlans()
+        expect(restored.recurrence).toEqual(stored.recurrence)
+        expect(restored.timeSlots).toEqual(stored.timeSlots)
+        expect(restored.attachments).toEqual(stored.attachments)
+        expect(restored.exceptions?.map(e => e.occurrenceDate)).toEqual(['2026-10-26'])
+
+        const [linked] = await fetchCards()
+        expect(linked.linkedPlanId).toBe(plan.id)
+        expect(await fetchTrash()).toEqual([])
+    })
+})
+
+describe('undoing a delete', () => {
+    it('lets the copy loaded before the delete be saved again', async () => {
+        await createPlan(makePlan({ title: 'Dentist' }))
+        const [loaded] = await fetchPlans()
+
+        await deletePlan(loaded.id)
+        await restorePlan(loaded.id)
+
+        expect(await updatePlan({ ...loaded, title: 'Dentist at 10' })).toBe(true)
+        expect(await updateCard({ ...planToCard(loaded), title: 'Dentist at 11' })).toBe(true)
+        expect((await fetchPlans())[0].title).toBe('Dentist at 11')
+    })
+
+    it('still reports edits made elsewhere in between as stale', async () => {
+        await createPlan(makePlan({ title: 'Dentist' }))
+        const [loaded] = await fetchPlans()
+        await supabase.from('plans').update({ title: 'Changed elsewhere' }).eq('id', loaded.id)
+
+        vi.spyOn(console, 'warn').mockImplementation(() => { })
+        expect(await updateCard({ ...planToCard(loaded), title: 'Dentist at 10' })).toBe(false)
+        expect((await fetchPlans())[0].title).toBe('Changed elsewhere')
+    })
+})
+
+describe('restoreCard', () => {
+    it('brings back a trashed card together with the plan it was scheduled through', async () => {
+        const plan = makePlan()
+        await createPlan(plan)
+        const card = makeCard({
+            linkedPlanId: plan.id,
+            position: 2500,
+            checklist: [{ id: 'item-1', text: 'Press kit', completed: true }]
+        })
+        await createCard(card)
+
+        await deletePlan(plan.id)
+        await deleteCard(card.id)
+        const ok = await restoreCard(card.id)
+
+        expect(ok).toBe(true)
+        expect((await fetchPlans()).map(p => p.id)).toEqual([plan.id])
+        const [restored] = await fetchCards()
+        expect(restored.position).toBe(2500)
+        expect(restored.checklist.map(item => item.text)).toEqual(['Press kit'])
+    })
+})
+
+describe('purgeCard', () => {
+    it('removes the card and its child rows for good', async () => {
+        const card = makeCard({ comments: [{ id: 'comment-1', text: 'Done?', createdAt: '2026-10-18T12:00:00.000Z', isMarkedDone: false }] })
+        await createCard(card)
+        await deleteCard(card.id)
+
+        const ok = await purgeCard(card.id)
+
+        expect(ok).toBe(true)
+        expect(backend.dump().kanban_cards).toHaveLength(0)
+        expect(backend.dump().card_comments).toHaveLength(0)
+    })
+})
+
+describe('purgeExpiredTrash', () => {
+    it('purges rows trashed before the retention period and keeps the rest', async () => {
+        const old = makePlan({ title: 'Old' })
+        const recent = makePlan({ title: 'Recent' })
+        const active = makePlan({ title: 'Active' })
+        for (const plan of [old, recent, active]) await createPlan(plan)
+
+        vi.useFakeTimers({ toFake: ['Date'] })
+        vi.setSystemTime(new Date('2026-09-01T10:00:00.000Z'))
+        await deletePlan(old.id)
+        vi.setSystemTime(new Date('2026-10-15T10:00:00.000Z'))
+        await deletePlan(recent.id)
+        vi.setSystemTime(new Date('2026-10-19T10:00:00.000Z'))
+
+        const purged = await purgeExpiredTrash(30)
+
+        expect(purged).toBe(1)
+        expect(backend.dump().plans.map(row => row.title).sort()).toEqual(['Active', 'Recent'])
+        expect((await fetchTrash()).map(item => item.title)).toEqual(['Recent'])
+    })
+
+    it('leaves cards trashed on a workspace board to its members', async () => {
+        await supabase.from('workspaces').insert({ id: 'workspace-1', name: 'Studio', owner_id: 'someone-else' })
+        const shared = makeCard({ title: 'Shared', workspaceId: 'workspace-1' })
+        await createCard(shared)
+
+        vi.useFakeTimers({ toFake: ['Date'] })
+        vi.setSystemTime(new Date('2026-09-01T10:00:00.000Z'))
+        await deleteCard(shared.id)
+        vi.setSystemTime(new Date('2026-10-19T10:00:00.000Z'))
+
+        expect(await purgeExpiredTrash(30)).toBe(0)
+        expect((await fetchTrash('workspace-1')).map(item => item.title)).toEqual(['Shared'])
+    })
+})
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import { LookupAddress } from 'node:dns'
+import { PrivateAddressError, publicLookup } from '../unfurlFetch'
+
+function lookupWith(addresses: LookupAddress[], options: { all?: boolean; family?: number } = {}) {
+    const lookup = publicLookup(async () => addresses)
+    return new Promise<{ error: Error | null; address: unknown; family?: number }>(resolve => {
+        lookup('example.com', options, (error, address, family) => resolve({ error, address, family }))
+    })
+}
+
+describe('publicLookup', () => {
+    it('passes public addresses through', async () => {
+        const result = await lookupWith([{ address: '93.184.216.34', family: 4 }])
+        expect(result).toEqual({ error: null, address: '93.184.216.34', family: 4 })
+
+        const all = await lookupWith([{ address: '93.184.216.34', family: 4 }, { address: '2606:2800::1', family: 6 }], { all: true })
+        expect(all.address).toHaveLength(2)
+    })
+
+    it('refuses names that resolve to a private address', async () => {
+        const loopback = await lookupWith([{ address: '127.0.0.1', family: 4 }])
+        expect(loopback.error).toBeInstanceOf(PrivateAddressError)
+
+        // One private address is enough, whichever the socket would have picked
+        const mixed = await lookupWith([{ address: '93.184.216.34', family: 4 }, { address: '169.254.169.254', family: 4 }])
+        expect(mixed.error).toBeInstanceOf(PrivateAddressError)
+    })
+
+    it('passes resolver errors on', async () => {
+        const lookup = publicLookup(async () => { throw new Error('ENOTFOUND') })
+        const error = await new Promise(resolve => lookup('missing.example', {}, resolve))
+        expect(error).toEqual(new Error('ENOTFOUND'))
+    })
+})
@@ -0,0 +1,139 @@
+import { readdirSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { PGlite } from '@electric-sql/pglite'
+import { beforeAll, describe, expect, it } from 'vitest'
+
+// Runs the workspace policies against an in-process Postgres with the platform stub and
+// every migration applied, acting as each user the way PostgREST does: the authenticated
+// role with the JWT claims in request.jwt.claims.
+
+interface User {
+    id: string
+    email: string
+}
+
+const root = join(__dirname, '..', '..')
+const owner: User = { id: '00000000-0000-4000-8000-000000000001', email: 'owner@example.com' }
+const editor: User = { id: '00000000-0000-4000-8000-000000000002', email: 'editor@example.com' }
+const viewer: User = { id: '00000000-0000-4000-8000-000000000003', email: 'viewer@example.com' }
+const outsider: User = { id: '00000000-0000-4000-8000-000000000004', email: 'outsider@example.com' }
+
+let db: PGlite
+
+async function as<T>(user: User, sql: string, params: unknown[] = []): Promise<T[]> {
+    return db.transaction(async tx => {
+        await tx.query(`select set_config('request.jwt.claims', $1, true)`, [JSON.stringify({ sub: user.id, email: user.email })])
+        await tx.exec('set local role authenticated')
+        return (await tx.query<T>(sql, params)).rows
+    })
+}
+
+// A workspace owned by `owner` with `editor` and `viewer` as members
+async function createWorkspace(name: string): Promise<string> {
+    const [{ id }] = await as<{ id: string }>(owner, 'insert into public.workspaces (name) values ($1) returning id', [name])
+    for (const [member, role] of [[editor, 'editor'], [viewer, 'viewer']] as const) {
+        await db.query('select public.member_profile_insert($1, $2, $3)', [id, member.id, role])
+    }
+    return id
+}
+
+async function addCard(user: User, workspaceId: string | null, title: string): Promise<string> {
+    const [{ id }] = await as<{ id: string }>(user, 'insert into public.kanban_cards (title, workspace_id) values ($1, $2) returning id', [title, workspaceId])
+    return id
+}
+
+beforeAll(async () => {
+    db = new PGlite()
+    await db.exec(readFileSync(join(root, 'supabase/local/platform_stub.sql'), 'utf8'))
+    const migrations = join(root, 'supabase/migrations')
+    for (const file of readdirSync(migrations).filter(name => name.endsWith('.sql')).sort()) {
+        await db.exec(readFileSync(join(migrations, file), 'utf8'))
+    }
+    for (const user of [owner, editor, viewer, outsider]) {
+        await db.query('insert into auth.users (id, email) values ($1, $2)', [user.id, user.email])
+    }
+}, 120_000)
+
+describe('workspace cards', () => {
+    it('are readable by members only', async () => {
+        const workspaceId = await createWorkspace('Studio')
+        const cardId = await addCard(owner, workspaceId, 'Shared')
+        const read = (user: User) => as<{ title: string }>(user, 'select title from public.kanban_cards where id = $1', [cardId])
+
+        expect(await read(editor)).toEqual([{ title: 'Shared' }])
+        expect(await read(viewer)).toEqual([{ title: 'Shared' }])
+        expect(await read(outsider)).toEqual([])
+    })
+
+    it('are changed by the owner and editors but not viewers', async () => {
+        const workspaceId = await createWorkspace('Agency')
+        const cardId = await addCard(editor, workspaceId, 'Draft')
+        const rename = (user: User, title: string) =>
+            as<{ id: string }>(user, 'update public.kanban_cards set title = $1 where id = $2 returning id', [title, cardId])
+
+        expect(await rename(editor, 'Edited')).toHaveLength(1)
+        expect(await rename(viewer, 'Viewed')).toEqual([])
+        expect(await rename(outsider, 'Taken')).toEqual([])
+        await expect(addCard(viewer, workspaceId, 'Sneaky')).rejects.toThrow(/row-level security/)
+        await expect(addCard(outsider, workspaceId, 'Sneaky')).rejects.toThrow(/row-level security/)
+
+        // A card can't be moved into a workspace the user only views
+        const personalId = await addCard(viewer, null, 'Mine')
+        await expect(as(viewer, 'update public.kanban_cards set workspace_id = $1 where id = $2', [workspaceId, personalId]))
+            .rejects.toThrow(/row-level security/)
+
+        const [{ title }] = await as<{ title: string }>(owner, 'select title from public.kanban_cards where id = $1', [cardId])
+        expect(title).toBe('Edited')
+    })
+
+    it('leave personal cards private', async () => {
+        const cardId = await addCard(editor, null, 'Private')
+
+        expect(await as(owner, 'select id from public.kanban_cards where id = $1', [cardId])).toEqual([])
+        expect(await as(editor, 'select id from public.kanban_cards where id = $1', [cardId])).toHaveLength(1)
+    })
+})
+
+describe('workspace members', () => {
+    it('can have their role changed by the owner only', async () => {
+        const workspaceId = await createWorkspace('Press')
+        const setRole = (user: User, member: User, role: string) =>
+            as<{ role: string }>(user, 'update public.workspace_members set role = $1 where workspace_id = $2 and user_id = $3 returning role', [role, workspaceId, member.id])
+
+        expect(await setRole(owner, viewer, 'editor')).toEqual([{ role: 'editor' }])
+        expect(await setRole(editor, editor, 'viewer')).toEqual([])
+        expect(await setRole(owner, owner, 'viewer')).toEqual([])
+        await expect(setRole(owner, editor, 'owner')).rejects.toThrow(/row-level security/)
+        await expect(as(owner, 'update public.workspace_members set user_id = $1 where workspace_id = $2 and user_id = $3', [outsider.id, workspaceId, editor.id]))
+            .rejects.toThrow(/permission denied/)
+    })
+
+    it('can leave, but the owner cannot', async () => {
+        const workspaceId = await createWorkspace('Lab')
+        const leave = (user: User) =>
+            as<{ user_id: string }>(user, 'delete from public.workspace_members where workspace_id = $1 and user_id = $2 returning user_id', [workspaceId, user.id])
+
+        expect(await leave(viewer)).toHaveLength(1)
+        expect(await leave(owner)).toEqual([])
+        expect(await as(outsider, 'select user_id from public.workspace_members where workspace_id = $1', [workspaceId])).toEqual([])
+    })
+})
+
+describe('workspace invitations', () => {
+    it('are accepted by the invited email only', async () => {
+        const workspaceId = await createWorkspace('Guild')
+        const [{ id }] = await as<{ id: string }>(owner, `insert into public.workspace_invitations (workspace_id, email, role) values ($1, 'OUTSIDER@example.com', 'viewer') returning id`, [workspaceId])
+
+        await expect(as(editor, 'insert into public.workspace_invitations (workspace_id, email, role) values ($1, $2, $3)', [workspaceId, 'friend@example.com', 'editor']))
+            .rejects.toThrow(/row-level security/)
+        expect(await as(editor, 'select id from public.workspace_invitations where id = $1', [id])).toEqual([])
+        await expect(as(editor, 'select public.accept_workspace_invitation($1)', [id])).rejects.toThrow('Invitation not found')
+
+        expect(await as(outsider, 'select id from public.workspace_invitations where id = $1', [id])).toHaveLength(1)
+        await as(outsider, 'select public.accept_workspace_invitation($1)', [id])
+
+        expect(await as(outsider, 'select role from public.workspace_members where workspace_id = $1 and user_id = $2', [workspaceId, outsider.id]))
+            .toEqual([{ role: 'viewer' }])
+        expect(await as(owner, 'select id from public.workspace_invitations where id = $1', [id])).toEqual([])
+    })
+})
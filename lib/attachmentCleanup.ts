@@ -0,0 +1,202 @@
+import { createClient } from '@supabase/supabase-js'
+import { DataBackend, supabase, supabaseProject } from './supabaseClient'
+import { ATTACHMENT_BUCKET, storagePathFromUrl, thumbnailPath } from './attachmentService'
+
+// Server side of the orphaned attachment cleanup (app/api/attachments/cleanup and
+// scripts/cleanup-attachments.sh). Deleting or editing a card, plan, goal or revenue entry
+// removes its attachment rows but not the uploaded objects, so this job lists the bucket,
+// compares it with every row that points into it and deletes what nothing points at any more.
+// Objects younger than the grace period are left alone: a file is uploaded before the form it
+// was attached in is saved.
+
+export const DEFAULT_GRACE_DAYS = 7
+
+// Every column that can point at an object in the bucket. Trashed rows keep their
+// attachments, so a restored card still finds its files.
+const ATTACHMENT_REFERENCES = [
+    { table: 'plan_attachments', pathColumns: ['storage_path'], urlColumns: ['url', 'thumbnail_url'] },
+    { table: 'card_attachments', pathColumns: ['storage_path'], urlColumns: ['url', 'thumbnail_url'] },
+    { table: 'goal_attachments', pathColumns: ['storage_path'], urlColumns: ['url', 'thumbnail_url'] },
+    { table: 'revenue_attachments', pathColumns: ['storage_path'], urlColumns: ['url', 'thumbnail_url'] },
+    { table: 'expenses', pathColumns: [], urlColumns: ['receipt_url'] },
+]
+
+// Only objects the apps name themselves are ever deleted (see attachmentPath and the mobile
+// quick-add's `inbox_<timestamp>.jpg`)
+const MANAGED_PREFIXES = ['plan_', 'card_', 'goal_', 'revenue_', 'receipt_', 'inbox_', 'thumb_']
+
+const PAGE_SIZE = 1000
+const REMOVE_BATCH_SIZE = 100
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface StoredObject {
+    name: string
+    createdAt: string | null
+    size: number | null
+}
+
+export interface CleanupOptions {
+    dryRun: boolean
+    graceDays?: number
+    now?: Date
+}
+
+export interface CleanupReport {
+    dryRun: boolean
+    graceDays: number
+    scanned: number // Objects in the bucket
+    referenced: number // Object paths rows point at
+    orphaned: StoredObject[] // Unreferenced and past the grace period
+    tooRecent: number // Unreferenced but still within the grace period
+    skipped: number // Not named by the apps, never touched
+    deleted: string[]
+}
+
+/**
+ * Object paths that attachment rows point at, including image thumbnails. Returns null if
+ * any table can't be read: a partial set would make referenced files look orphaned.
+ */
+export async function referencedAttachmentPaths(client: DataBackend = supabase): Promise<Set<string> | null> {
+    const paths = new Set<string>()
+    const addPath = (path: string) => {
+        paths.add(path)
+        paths.add(thumbnailPath(path))
+    }
+
+    for (const { table, pathColumns, urlColumns } of ATTACHMENT_REFERENCES) {
+        for (let from = 0; ; from += PAGE_SIZE) {
+            const { data, error } = await client
+                .from(table)
+                .select([...pathColumns, ...urlColumns].join(', '))
+                .order('id')
+                .range(from, from + PAGE_SIZE - 1)
+
+            if (error) {
+                console.error(`Error loading ${table} references:`, error)
+                return null
+            }
+
+            const rows = (data || []) as unknown as Record<string, string | null>[]
+            for (const row of rows) {
+                for (const column of pathColumns) {
+                    if (row[column]) addPath(row[column]!)
+                }
+                for (const column of urlColumns) {
+                    const path = row[column] ? storagePathFromUrl(row[column]!) : null
+                    if (path) addPath(path)
+                }
+            }
+            if (rows.length < PAGE_SIZE) break
+        }
+    }
+
+    return paths
+}
+
+async function listAttachmentObjects(client: DataBackend): Promise<StoredObject[] | null> {
+    const objects: StoredObject[] = []
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+        const { data, error } = await client.storage
+            .from(ATTACHMENT_BUCKET)
+            .list('', { limit: PAGE_SIZE, offset, sortBy: { column: 'name', order: 'asc' } })
+
+        if (error) {
+            console.error('Error listing attachments:', error)
+            return null
+        }
+
+        // Folders come back without an id
+        for (const item of data || []) {
+            if (!item.id) continue
+            objects.push({
+                name: item.name,
+                createdAt: item.created_at ?? null,
+                size: typeof item.metadata?.size === 'number' ? item.metadata.size : null
+            })
+        }
+        if (!data || data.length < PAGE_SIZE) break
+    }
+
+    return objects
+}
+
+/**
+ * Splits the bucket's objects into those safe to delete (named by the apps, unreferenced and
+ * older than the grace period), those still within the grace period, and those left alone.
+ */
+export function findOrphanedObjects(
+    objects: StoredObject[],
+    referenced: Set<string>,
+    options: { graceDays: number, now: Date }
+): { orphaned: StoredObject[], tooRecent: StoredObject[], skipped: StoredObject[] } {
+    const cutoff = options.now.getTime() - options.graceDays * DAY_MS
+    const orphaned: StoredObject[] = []
+    const tooRecent: StoredObject[] = []
+    const skipped: StoredObject[] = []
+
+    for (const object of objects) {
+        if (!MANAGED_PREFIXES.some(prefix => object.name.startsWith(prefix))) {
+            skipped.push(object)
+        } else if (referenced.has(object.name)) {
+            continue
+        } else if (!object.createdAt || new Date(object.createdAt).getTime() > cutoff) {
+            // Without an upload time there's no telling how old it is
+            tooRecent.push(object)
+        } else {
+            orphaned.push(object)
+        }
+    }
+
+    return { orphaned, tooRecent, skipped }
+}
+
+/**
+ * Deletes orphaned attachment objects, or with dryRun only reports what would be deleted.
+ * Returns null if the bucket or the attachment rows couldn't be read; nothing is deleted then.
+ */
+export async function cleanUpAttachments(options: CleanupOptions, client: DataBackend = supabase): Promise<CleanupReport | null> {
+    const graceDays = options.graceDays ?? DEFAULT_GRACE_DAYS
+    const objects = await listAttachmentObjects(client)
+    if (!objects) return null
+    const referenced = await referencedAttachmentPaths(client)
+    if (!referenced) return null
+
+    const { orphaned, tooRecent, skipped } = findOrphanedObjects(objects, referenced, { graceDays, now: options.now ?? new Date() })
+    const deleted: string[] = []
+
+    if (!options.dryRun) {
+        for (let i = 0; i < orphaned.length; i += REMOVE_BATCH_SIZE) {
+            const batch = orphaned.slice(i, i + REMOVE_BATCH_SIZE).map(object => object.name)
+            const { error } = await client.storage.from(ATTACHMENT_BUCKET).remove(batch)
+            if (error) {
+                console.error('Error deleting orphaned attachments:', error)
+                continue
+            }
+            deleted.push(...batch)
+        }
+    }
+
+    return {
+        dryRun: options.dryRun,
+        graceDays,
+        scanned: objects.length,
+        referenced: referenced.size,
+        orphaned,
+        tooRecent: tooRecent.length,
+        skipped: skipped.length,
+        deleted
+    }
+}
+
+/**
+ * A client that bypasses row level security, so every user's attachment rows are seen.
+ * Null without a Supabase project or SUPABASE_SERVICE_ROLE_KEY. Server only.
+ */
+export function createServiceClient(): DataBackend | null {
+    const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+    if (!supabaseProject || !serviceKey) return null
+    return createClient(supabaseProject.url, serviceKey, {
+        auth: { persistSession: false, autoRefreshToken: false }
+    })
+}
@@ -0,0 +1,140 @@
+import { Attachment } from './types'
+import { attachmentMimeType } from './attachmentService'
+
+// What the attachment preview (components/AttachmentPreview.tsx) shows for a file, and the
+// small highlighter it uses for text and code. The highlighter only tells comments, strings,
+// numbers and keywords apart; that is enough to make a snippet readable without a parser.
+
+export type PreviewKind = 'image' | 'pdf' | 'audio' | 'video' | 'text' | 'link' | 'none'
+
+export type TokenKind = 'plain' | 'comment' | 'string' | 'number' | 'keyword' | 'heading'
+
+export interface Token {
+    kind: TokenKind
+    text: string
+}
+
+// Text files larger than this are shown cut off
+export const MAX_TEXT_PREVIEW_BYTES = 256 * 1024
+
+const CODE_LANGUAGES: Record<string, string> = {
+    js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript',
+    ts: 'javascript', tsx: 'javascript', json: 'javascript',
+    py: 'python', rb: 'python', sh: 'shell', bash: 'shell', zsh: 'shell', yml: 'shell', yaml: 'shell', toml: 'shell',
+    sql: 'sql',
+    css: 'css', scss: 'css',
+    html: 'markup', xml: 'markup', svg: 'markup',
+    md: 'markdown', markdown: 'markdown',
+    c: 'c', h: 'c', cpp: 'c', cs: 'c', java: 'c', kt: 'c', go: 'c', rs: 'c', swift: 'c', php: 'c',
+}
+
+const TEXT_EXTENSIONS = ['txt', 'log', 'csv', 'tsv', 'ini', 'env', ...Object.keys(CODE_LANGUAGES)]
+
+function extensionOf(name: string): string {
+    const dot = name.lastIndexOf('.')
+    return dot >= 0 ? name.slice(dot + 1).toLowerCase() : ''
+}
+
+// Attachments saved before types were recorded only have a name to go by
+export function previewKind(attachment: Attachment): PreviewKind {
+    if (attachment.type === 'link') return 'link'
+
+    const type = attachment.mimeType || attachmentMimeType({ name: attachment.name, size: 0, type: '' })
+    const extension = extensionOf(attachment.name)
+    if (type === 'image/svg+xml') return 'image'
+    if (type.startsWith('image/') || ['jpg', 'jpeg', 'png', 'gif', 'webp', 'avif', 'bmp'].includes(extension)) return 'image'
+    if (type === 'application/pdf' || extension === 'pdf') return 'pdf'
+    if (type.startsWith('audio/') || ['mp3', 'm4a', 'wav', 'ogg', 'aac', 'flac'].includes(extension)) return 'audio'
+    if (type.startsWith('video/') || ['mp4', 'webm', 'mov', 'm4v'].includes(extension)) return 'video'
+    if (type.startsWith('text/') || type === 'application/json' || TEXT_EXTENSIONS.includes(extension)) return 'text'
+    return 'none'
+}
+
+// The highlighting rules a file name picks, or null for plain text
+export function codeLanguage(name: string): string | null {
+    return CODE_LANGUAGES[extensionOf(name)] ?? null
+}
+
+const KEYWORDS: Record<string, string[]> = {
+    javascript: ['async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'else', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if', 'import', 'in', 'instanceof', 'interface', 'let', 'new', 'null', 'of', 'return', 'switch', 'this', 'throw', 'true', 'try', 'type', 'typeof', 'undefined', 'var', 'while'],
+    python: ['and', 'as', 'class', 'def', 'elif', 'else', 'end', 'except', 'False', 'for', 'from', 'if', 'import', 'in', 'is', 'lambda', 'None', 'not', 'or', 'pass', 'raise', 'return', 'True', 'try', 'while', 'with', 'yield'],
+    shell: ['case', 'do', 'done', 'echo', 'elif', 'else', 'esac', 'export', 'fi', 'for', 'function', 'if', 'in', 'local', 'then', 'while', 'true', 'false'],
+    sql: ['alter', 'and', 'as', 'by', 'create', 'delete', 'from', 'group', 'insert', 'into', 'join', 'left', 'not', 'null', 'on', 'or', 'order', 'references', 'select', 'set', 'table', 'update', 'values', 'where'],
+    css: ['important', 'media', 'import', 'keyframes'],
+    markup: [],
+    markdown: [],
+    c: ['break', 'case', 'class', 'const', 'continue', 'else', 'enum', 'false', 'fn', 'for', 'func', 'if', 'impl', 'import', 'int', 'let', 'match', 'mut', 'new', 'null', 'package', 'private', 'public', 'return', 'static', 'struct', 'switch', 'true', 'use', 'var', 'void', 'while'],
+}
+
+const COMMENTS: Record<string, string> = {
+    javascript: '//[^\\n]*|/\\*[\\s\\S]*?\\*/',
+    c: '//[^\\n]*|/\\*[\\s\\S]*?\\*/',
+    css: '/\\*[\\s\\S]*?\\*/',
+    python: '#[^\\n]*',
+    shell: '#[^\\n]*',
+    sql: '--[^\\n]*',
+    markup: '<!--[\\s\\S]*?-->',
+}
+
+const STRINGS = '"(?:[^"\\\\\\n]|\\\\.)*"|\'(?:[^\'\\\\\\n]|\\\\.)*\'|`(?:[^`\\\\]|\\\\.)*`'
+const NUMBERS = '\\b\\d+(?:\\.\\d+)?\\b'
+const WORDS = '[A-Za-z_$][\\w$]*'
+
+function markdownTokens(text: string): Token[] {
+    const tokens: Token[] = []
+    for (const line of text.match(/[^\n]*\n|[^\n]+$/g) ?? []) {
+        if (/^#{1,6}\s/.test(line)) tokens.push({ kind: 'heading', text: line })
+        else if (/^\s*(```|~~~)/.test(line)) tokens.push({ kind: 'comment', text: line })
+        else {
+            // Inline code as strings, the rest plain
+            for (const part of line.split(/(`[^`\n]+`)/)) {
+                if (part) tokens.push({ kind: part.startsWith('`') ? 'string' : 'plain', text: part })
+            }
+        }
+    }
+    return tokens
+}
+
+/**
+ * Splits source text into highlighted tokens. Concatenating the tokens' text gives back the
+ * input unchanged.
+ */
+export function highlightCode(text: string, language: string | null): Token[] {
+    if (!language) return text ? [{ kind: 'plain', text }] : []
+    if (language === 'markdown') return markdownTokens(text)
+
+    const keywords = new Set(KEYWORDS[language] ?? [])
+    const caseless = language === 'sql'
+    const parts = [COMMENTS[language], STRINGS, NUMBERS, WORDS].filter(Boolean)
+    const pattern = new RegExp(parts.map(part => `(${part})`).join('|'), 'g')
+
+    const tokens: Token[] = []
+    const push = (kind: TokenKind, value: string) => {
+        const last = tokens[tokens.length - 1]
+        if (last && last.kind === kind) last.text += value
+        else tokens.push({ kind, text: value })
+    }
+
+    let index = 0
+    for (const match of text.matchAll(pattern)) {
+        if (match.index! > index) push('plain', text.slice(index, match.index))
+        const [value] = match
+        const groups = COMMENTS[language] ? match.slice(1) : [undefined, ...match.slice(1)]
+        if (groups[0]) push('comment', value)
+        else if (groups[1]) push('string', value)
+        else if (groups[2]) push('number', value)
+        else push(keywords.has(caseless ? value.toLowerCase() : value) ? 'keyword' : 'plain', value)
+        index = match.index! + value.length
+    }
+    if (index < text.length) push('plain', text.slice(index))
+    return tokens
+}
+
+/**
+ * Page count of a PDF, read from its page objects. Null when they are inside compressed
+ * object streams, where they can't be counted without decompressing.
+ */
+export function pdfPageCount(pdf: string): number | null {
+    const pages = pdf.match(/\/Type\s*\/Page(?![a-zA-Z])/g)
+    return pages ? pages.length : null
+}
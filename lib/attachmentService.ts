@@ -0,0 +1,267 @@
+import { Attachment } from './types'
+import { supabase, supabaseProject } from './supabaseClient'
+import { generateUUID } from './uuid'
+
+// File attachments for plans, cards, goals, revenue entries and expense receipts. Files are
+// uploaded to the public `attachments` bucket and rows keep only the URL (plus the object path,
+// so the object can be found again). Plans used to store files inline as data URLs;
+// migrateInlineAttachments moves those into the bucket.
+
+export const ATTACHMENT_BUCKET = 'attachments'
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024
+
+// Kept in step with allowed_mime_types on the bucket
+export const ALLOWED_ATTACHMENT_TYPES = [
+    'image/*',
+    'audio/*',
+    'video/*',
+    'text/*',
+    'application/pdf',
+    'application/json',
+    'application/zip',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.ms-powerpoint',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+]
+
+// Browsers leave File.type empty for some extensions
+const EXTENSION_TYPES: Record<string, string> = {
+    md: 'text/markdown',
+    csv: 'text/csv',
+    txt: 'text/plain',
+    heic: 'image/heic',
+    json: 'application/json',
+}
+
+const THUMBNAIL_SIZE = 320
+
+// Object names start with what the file was attached to, e.g. `card_1760000000000_photo.jpg`
+export type AttachmentPrefix = 'plan' | 'card' | 'goal' | 'revenue' | 'receipt'
+
+export interface UploadOptions {
+    prefix: AttachmentPrefix
+    onProgress?: (fraction: number) => void // 0-1
+}
+
+interface FileInfo {
+    name: string
+    size: number
+    type: string
+}
+
+export function attachmentMimeType(file: FileInfo): string {
+    if (file.type) return file.type
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? ''
+    return EXTENSION_TYPES[extension] ?? ''
+}
+
+/**
+ * Why a file can't be attached, or null when it can.
+ */
+export function validateAttachmentFile(file: FileInfo): string | null {
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+        return `${file.name} is larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB.`
+    }
+    const type = attachmentMimeType(file)
+    const allowed = ALLOWED_ATTACHMENT_TYPES.some(pattern =>
+        pattern.endsWith('/*') ? type.startsWith(pattern.slice(0, -1)) : type === pattern
+    )
+    return allowed ? null : `${file.name} isn’t a supported file type.`
+}
+
+export function attachmentPath(prefix: AttachmentPrefix, fileName: string, now: number = Date.now()): string {
+    return `${prefix}_${now}_${fileName.replace(/[^a-zA-Z0-9.-]/g, '_')}`
+}
+
+export function thumbnailPath(path: string): string {
+    return `thumb_${path.replace(/\.[^.]*$/, '')}.jpg`
+}
+
+// Object path of a public bucket URL, or null for links and inline files
+export function storagePathFromUrl(url: string): string | null {
+    const marker = `/storage/v1/object/public/${ATTACHMENT_BUCKET}/`
+    const index = url.indexOf(marker)
+    return index >= 0 ? decodeURIComponent(url.slice(index + marker.length).split('?')[0]) : null
+}
+
+function publicUrl(path: string): string {
+    return supabase.storage.from(ATTACHMENT_BUCKET).getPublicUrl(path).data.publicUrl
+}
+
+// Raw Storage API upload, the only way to see upload progress
+async function uploadWithProgress(path: string, body: Blob, onProgress: (fraction: number) => void): Promise<boolean> {
+    const { url, anonKey } = supabaseProject!
+    const { data } = await supabase.auth.getSession()
+    const token = data.session?.access_token ?? anonKey
+
+    return new Promise(resolve => {
+        const request = new XMLHttpRequest()
+        request.open('POST', `${url}/storage/v1/object/${ATTACHMENT_BUCKET}/${encodeURIComponent(path)}`)
+        request.setRequestHeader('apikey', anonKey)
+        request.setRequestHeader('authorization', `Bearer ${token}`)
+        request.setRequestHeader('cache-control', 'max-age=3600')
+        request.setRequestHeader('x-upsert', 'false')
+        if (body.type) request.setRequestHeader('content-type', body.type)
+        request.upload.onprogress = (event) => {
+            if (event.lengthComputable) onProgress(event.loaded / event.total)
+        }
+        request.onload = () => {
+            if (request.status >= 200 && request.status < 300) return resolve(true)
+            console.error('Error uploading attachment:', request.status, request.responseText)
+            resolve(false)
+        }
+        request.onerror = () => {
+            console.error('Error uploading attachment: network error')
+            resolve(false)
+        }
+        request.send(body)
+    })
+}
+
+async function putObject(path: string, body: Blob, onProgress?: (fraction: number) => void): Promise<boolean> {
+    if (onProgress && supabaseProject && typeof XMLHttpRequest !== 'undefined') {
+        return uploadWithProgress(path, body, onProgress)
+    }
+
+    const { error } = await supabase.storage
+        .from(ATTACHMENT_BUCKET)
+        .upload(path, body, { cacheControl: '3600', upsert: false, contentType: body.type || undefined })
+
+    if (error) {
+        console.error('Error uploading attachment:', error)
+        return false
+    }
+    onProgress?.(1)
+    return true
+}
+
+// A small JPEG of an image, or null for anything the browser can't draw
+async function createThumbnail(file: Blob): Promise<Blob | null> {
+    if (!file.type.startsWith('image/') || file.type === 'image/svg+xml') return null
+    if (typeof createImageBitmap === 'undefined' || typeof document === 'undefined') return null
+
+    try {
+        const bitmap = await createImageBitmap(file)
+        const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height))
+        const canvas = document.createElement('canvas')
+        canvas.width = Math.round(bitmap.width * scale)
+        canvas.height = Math.round(bitmap.height * scale)
+        canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+        bitmap.close()
+        return await new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.8))
+    } catch (error) {
+        console.error('Error creating thumbnail:', error)
+        return null
+    }
+}
+
+async function storeFile(file: Blob, name: string, options: UploadOptions): Promise<Attachment | null> {
+    const path = attachmentPath(options.prefix, name)
+    if (!await putObject(path, file, options.onProgress)) return null
+
+    // A missing thumbnail only costs the preview, so its failure isn't an upload failure
+    let thumbnailUrl: string | undefined
+    const thumbnail = await createThumbnail(file)
+    if (thumbnail && await putObject(thumbnailPath(path), thumbnail)) {
+        thumbnailUrl = publicUrl(thumbnailPath(path))
+    }
+
+    return {
+        id: generateUUID(),
+        type: 'file',
+        name,
+        url: publicUrl(path),
+        storagePath: path,
+        thumbnailUrl,
+        mimeType: file.type || undefined,
+        size: file.size
+    }
+}
+
+/**
+ * Uploads a file to the attachments bucket. Returns null when the file is too large or of a
+ * type that isn't allowed (check validateAttachmentFile first to tell the user why) or when
+ * the upload fails. Needs a connection.
+ */
+export async function uploadAttachment(file: File, options: UploadOptions): Promise<Attachment | null> {
+    const invalid = validateAttachmentFile(file)
+    if (invalid) {
+        console.error('Error uploading attachment:', invalid)
+        return null
+    }
+    const typed = file.type ? file : new File([file], file.name, { type: attachmentMimeType(file) })
+    return storeFile(typed, file.name, options)
+}
+
+// ============================================
+// INLINE FILES - One-time move of data URLs into the bucket
+// ============================================
+
+export function isInlineDataUrl(url: string): boolean {
+    return url.startsWith('data:')
+}
+
+export function dataUrlToBlob(dataUrl: string): Blob {
+    const comma = dataUrl.indexOf(',')
+    const header = dataUrl.slice(5, comma)
+    const payload = dataUrl.slice(comma + 1)
+    const type = header.split(';')[0] || 'application/octet-stream'
+
+    if (!header.endsWith(';base64')) return new Blob([decodeURIComponent(payload)], { type })
+
+    const binary = atob(payload)
+    const bytes = new Uint8Array(binary.length)
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+    return new Blob([bytes], { type })
+}
+
+const INLINE_TABLES = [
+    { table: 'plan_attachments', prefix: 'plan' },
+    { table: 'card_attachments', prefix: 'card' },
+] as const
+
+/**
+ * Uploads every attachment still stored as a data URL and points its row at the bucket
+ * object instead. Rows that already have an object path are skipped, so running it again
+ * only picks up what's left. Returns how many files were moved.
+ */
+export async function migrateInlineAttachments(): Promise<number> {
+    let moved = 0
+
+    for (const { table, prefix } of INLINE_TABLES) {
+        const { data, error } = await supabase
+            .from(table)
+            .select('id, name, url')
+            .like('url', 'data:%')
+            .is('storage_path', null)
+
+        if (error) {
+            console.error(`Error loading inline ${table}:`, error)
+            continue
+        }
+
+        for (const row of data || []) {
+            const attachment = await storeFile(dataUrlToBlob(row.url), row.name, { prefix })
+            if (!attachment) continue
+
+            const { error: updateError } = await supabase
+                .from(table)
+                .update({
+                    url: attachment.url,
+                    storage_path: attachment.storagePath,
+                    thumbnail_url: attachment.thumbnailUrl ?? null,
+                    mime_type: attachment.mimeType ?? null,
+                    size_bytes: attachment.size
+                })
+                .eq('id', row.id)
+
+            if (updateError) console.error(`Error updating ${table}:`, updateError)
+            else moved += 1
+        }
+    }
+
+    return moved
+}
@@ -0,0 +1,425 @@
+import { Plan, KanbanCard, Goal, Revenue, Expense, ExchangeRate, Client, Invoice } from './types'
+import {
+    CustomSection,
+    fetchPlans, fetchCards, fetchGoals, fetchRevenues, fetchCustomSections,
+    fetchExpenses, fetchExchangeRates, fetchClients, fetchInvoices,
+    createPlan, createCard, createGoal, createRevenue, createCustomSection, upsertPlanException,
+    createExpense, saveExchangeRate, saveClient, createInvoice,
+    deletePlan, deleteCard, deleteGoal, deleteRevenue, deleteCustomSection,
+    deleteExpense, deleteExchangeRate, deleteClient, deleteInvoice
+} from './supabaseService'
+import { generateUUID } from './uuid'
+import { DEFAULT_CURRENCY, normalizeCurrency } from './currency'
+
+// JSON backup of everything personal: plans, the personal board (cards and custom sections),
+// goals, revenues, expenses, exchange rates, clients and invoices, with their child rows.
+// Shared workspace boards belong to the workspace and are not part of a backup. File contents
+// (storage uploads) are referenced by URL only.
+
+export const BACKUP_FORMAT = 'planner-backup'
+// 2: expenses, exchange rates, clients and invoices
+export const BACKUP_VERSION = 2
+
+export interface PlannerBackup {
+    format: typeof BACKUP_FORMAT
+    version: number
+    exportedAt: string
+    plans: Plan[]
+    cards: KanbanCard[]
+    goals: Goal[]
+    revenues: Revenue[]
+    customSections: CustomSection[]
+    expenses: Expense[]
+    exchangeRates: ExchangeRate[]
+    clients: Client[]
+    invoices: Invoice[]
+}
+
+export type BackupCollection =
+    | 'plans' | 'cards' | 'goals' | 'revenues' | 'customSections'
+    | 'expenses' | 'exchangeRates' | 'clients' | 'invoices'
+
+// 'merge' adds the backup to the current data; 'replace' moves the current plans, cards, goals,
+// revenues and expenses to the Trash first. Custom sections, exchange rates, clients and invoices
+// have no Trash, so 'replace' deletes them for good.
+export type ImportMode = 'merge' | 'replace'
+
+export interface ImportConflict {
+    collection: BackupCollection
+    id: string
+    title: string
+}
+
+export interface ImportReport {
+    mode: ImportMode
+    imported: Record<BackupCollection, number>
+    // Merge only: items already present (same id), kept as they are instead of duplicated
+    conflicts: ImportConflict[]
+    failed: ImportConflict[]
+}
+
+const COLLECTIONS: BackupCollection[] = [
+    'plans', 'cards', 'goals', 'revenues', 'customSections', 'expenses', 'exchangeRates', 'clients', 'invoices'
+]
+
+// Collections that version 1 files don't have; they are read as empty
+const ADDED_IN_VERSION_2: BackupCollection[] = ['expenses', 'exchangeRates', 'clients', 'invoices']
+
+// ============================================
+// EXPORT
+// ============================================
+
+export async function createBackup(): Promise<PlannerBackup> {
+    const [plans, cards, goals, revenues, customSections, expenses, exchangeRates, clients, invoices] = await Promise.all([
+        fetchPlans(),
+        fetchCards(null),
+        fetchGoals(),
+        fetchRevenues(),
+        fetchCustomSections(null),
+        fetchExpenses(),
+        fetchExchangeRates(),
+        fetchClients(),
+        fetchInvoices()
+    ])
+
+    // Row versions and timestamps are server bookkeeping; undefined fields are dropped by JSON
+    return {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        exportedAt: new Date().toISOString(),
+        plans: plans.map(plan => ({ ...plan, version: undefined, updatedAt: undefined })),
+        cards: cards.map(card => ({
+            ...card,
+            linkedPlanId: card.linkedPlanId || undefined,
+            workspaceId: undefined,
+            assigneeIds: undefined,
+            version: undefined,
+            updatedAt: undefined
+        })),
+        goals: goals.map(goal => ({ ...goal, version: undefined, updatedAt: undefined })),
+        revenues,
+        customSections: customSections.map(section => ({ ...section, workspaceId: undefined })),
+        expenses,
+        exchangeRates,
+        clients,
+        invoices
+    }
+}
+
+export function backupFileName(backup: PlannerBackup): string {
+    return `planner-backup-${backup.exportedAt.slice(0, 10)}.json`
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+type FieldType = 'string' | 'number' | 'boolean' | 'array'
+
+// Required fields of each item; optional fields are checked where they're used
+const REQUIRED_FIELDS: Record<BackupCollection, Record<string, FieldType>> = {
+    plans: { id: 'string', title: 'string', date: 'string', hasDueDate: 'boolean', completed: 'boolean', createdAt: 'string' },
+    cards: { id: 'string', title: 'string', status: 'string', checklist: 'array', comments: 'array', attachments: 'array', createdAt: 'string' },
+    goals: { id: 'string', title: 'string', goalType: 'string', checklist: 'array', comments: 'array', createdAt: 'string' },
+    revenues: { id: 'string', name: 'string', projectName: 'string', price: 'number', currency: 'string', dateCompleted: 'string', createdAt: 'string' },
+    customSections: { id: 'string', title: 'string', color: 'string', position: 'number' },
+    expenses: { id: 'string', description: 'string', amount: 'number', currency: 'string', category: 'string', date: 'string', createdAt: 'string' },
+    exchangeRates: { id: 'string', fromCurrency: 'string', toCurrency: 'string', rate: 'number', rateDate: 'string', createdAt: 'string' },
+    clients: { id: 'string', name: 'string', createdAt: 'string' },
+    invoices: {
+        id: 'string', number: 'string', status: 'string', issueDate: 'string', dueDate: 'string', currency: 'string',
+        taxRate: 'number', discount: 'number', items: 'array', createdAt: 'string'
+    }
+}
+
+// Child lists, validated wherever they appear
+const CHILD_FIELDS: Record<string, Record<string, FieldType>> = {
+    timeSlots: { id: 'string', time: 'string', description: 'string' },
+    attachments: { id: 'string', type: 'string', name: 'string', url: 'string' },
+    checklist: { id: 'string', text: 'string', completed: 'boolean' },
+    comments: { id: 'string', text: 'string', createdAt: 'string', isMarkedDone: 'boolean' },
+    exceptions: { id: 'string', occurrenceDate: 'string', cancelled: 'boolean', completed: 'boolean' },
+    items: { id: 'string', revenueId: 'string' }
+}
+
+const MAX_ERRORS = 20
+
+function hasType(value: unknown, type: FieldType): boolean {
+    return type === 'array' ? Array.isArray(value) : typeof value === type
+}
+
+function checkFields(item: unknown, fields: Record<string, FieldType>, path: string, errors: string[]) {
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+        errors.push(`${path} must be an object`)
+        return
+    }
+    const record = item as Record<string, unknown>
+    for (const [field, type] of Object.entries(fields)) {
+        if (!hasType(record[field], type)) errors.push(`${path}.${field} must be ${type === 'array' ? 'an array' : `a ${type}`}`)
+    }
+    for (const [list, childFields] of Object.entries(CHILD_FIELDS)) {
+        if (record[list] === undefined || record[list] === null) continue
+        if (!Array.isArray(record[list])) {
+            errors.push(`${path}.${list} must be an array`)
+            continue
+        }
+        (record[list] as unknown[]).forEach((child, i) => checkFields(child, childFields, `${path}.${list}[${i}]`, errors))
+    }
+}
+
+/**
+ * Checks that `data` is a backup this version can import. Returns the backup, or the problems
+ * found (at most MAX_ERRORS) with a path to each, e.g. "plans[3].date must be a string".
+ */
+export function validateBackup(data: unknown): { backup: PlannerBackup | null, errors: string[] } {
+    const errors: string[] = []
+    const file = data as Record<string, unknown> | null
+
+    if (typeof file !== 'object' || file === null || file.format !== BACKUP_FORMAT) {
+        return { backup: null, errors: ['Not a planner backup file'] }
+    }
+    if (typeof file.version !== 'number' || file.version > BACKUP_VERSION) {
+        return { backup: null, errors: [`Unsupported backup version ${String(file.version)} (this app reads up to ${BACKUP_VERSION})`] }
+    }
+
+    const doc = { ...file }
+    if (file.version < 2) {
+        for (const collection of ADDED_IN_VERSION_2) doc[collection] ??= []
+    }
+
+    for (const collection of COLLECTIONS) {
+        const items = doc[collection]
+        if (!Array.isArray(items)) {
+            errors.push(`${collection} must be an array`)
+            continue
+        }
+        items.forEach((item, i) => checkFields(item, REQUIRED_FIELDS[collection], `${collection}[${i}]`, errors))
+
+        const ids = items.map(item => (item as Record<string, unknown> | null)?.id)
+        const duplicate = ids.find((id, i) => typeof id === 'string' && ids.indexOf(id) !== i)
+        if (duplicate) errors.push(`${collection} contains the id ${duplicate} more than once`)
+    }
+
+    if (errors.length > 0) {
+        return { backup: null, errors: errors.length > MAX_ERRORS ? [...errors.slice(0, MAX_ERRORS), `…and ${errors.length - MAX_ERRORS} more`] : errors }
+    }
+    return { backup: doc as unknown as PlannerBackup, errors: [] }
+}
+
+// Parses and validates the text of a backup file
+export function parseBackup(text: string): { backup: PlannerBackup | null, errors: string[] } {
+    try {
+        return validateBackup(JSON.parse(text))
+    } catch {
+        return { backup: null, errors: ['The file is not valid JSON'] }
+    }
+}
+
+// ============================================
+// IMPORT
+// ============================================
+
+type BackupItem = { id: string, title?: string, name?: string, number?: string, description?: string }
+
+function titleOf(collection: BackupCollection, item: BackupItem): ImportConflict {
+    if (collection === 'exchangeRates') {
+        const rate = item as unknown as ExchangeRate
+        return { collection, id: item.id, title: `${rate.fromCurrency} → ${rate.toCurrency} on ${rate.rateDate}` }
+    }
+    return { collection, id: item.id, title: item.title ?? item.name ?? item.number ?? item.description ?? '' }
+}
+
+// Keys other than the id that can only exist once: a second invoice with the same number, or
+// rate for the same pair and day, would be refused by the database
+function naturalKey(collection: BackupCollection, item: BackupItem): string | null {
+    if (collection === 'invoices') return `number:${item.number}`
+    if (collection === 'exchangeRates') {
+        const rate = item as unknown as ExchangeRate
+        return `rate:${rate.fromCurrency}:${rate.toCurrency}:${rate.rateDate}`
+    }
+    return null
+}
+
+/**
+ * Imports a validated backup. Every item and child row gets a fresh id (ids are global, so a
+ * backup from another account could otherwise clash), and the links between them - cards to
+ * plans, cards to custom sections, exceptions to plans, invoices to clients and revenues -
+ * follow the new ids.
+ */
+export async function importBackup(backup: PlannerBackup, mode: ImportMode): Promise<ImportReport> {
+    const report: ImportReport = {
+        mode,
+        imported: Object.fromEntries(COLLECTIONS.map(collection => [collection, 0])) as Record<BackupCollection, number>,
+        conflicts: [],
+        failed: []
+    }
+
+    const [plans, cards, goals, revenues, customSections, expenses, exchangeRates, clients, invoices] = await Promise.all([
+        fetchPlans(),
+        fetchCards(null),
+        fetchGoals(),
+        fetchRevenues(),
+        fetchCustomSections(null),
+        fetchExpenses(),
+        fetchExchangeRates(),
+        fetchClients(),
+        fetchInvoices()
+    ])
+
+    if (mode === 'replace') {
+        await Promise.all([
+            ...plans.map(plan => deletePlan(plan.id)),
+            ...cards.map(card => deleteCard(card.id)),
+            ...goals.map(goal => deleteGoal(goal.id)),
+            ...revenues.map(revenue => deleteRevenue(revenue.id)),
+            ...expenses.map(expense => deleteExpense(expense.id)),
+            // No Trash for these: they are gone for good, as the import dialog warns
+            ...customSections.map(section => deleteCustomSection(section.id)),
+            ...exchangeRates.map(rate => deleteExchangeRate(rate.id)),
+            ...invoices.map(invoice => deleteInvoice(invoice.id))
+        ])
+        // Clients can't be deleted while invoices refer to them
+        await Promise.all(clients.map(client => deleteClient(client.id)))
+    }
+
+    const current: Record<BackupCollection, BackupItem[]> = {
+        plans, cards, goals, revenues, customSections, expenses, exchangeRates, clients, invoices
+    }
+    const existing = Object.fromEntries(COLLECTIONS.map(collection => [
+        collection,
+        new Set(mode === 'replace' ? [] : current[collection].flatMap(item => [item.id, naturalKey(collection, item) ?? item.id]))
+    ])) as Record<BackupCollection, Set<string>>
+
+    // Old id -> id in this database. Items that already exist keep their id, so links to them hold.
+    const ids = new Map<string, string>()
+    const newId = (oldId: string) => {
+        if (!ids.has(oldId)) ids.set(oldId, generateUUID())
+        return ids.get(oldId)!
+    }
+
+    // Splits a collection into items to create and items that are already here
+    const pending = <T extends BackupItem>(collection: BackupCollection, items: T[]): T[] =>
+        items.filter(item => {
+            const key = naturalKey(collection, item)
+            if (!existing[collection].has(item.id) && !(key && existing[collection].has(key))) return true
+            if (existing[collection].has(item.id)) ids.set(item.id, item.id)
+            report.conflicts.push(titleOf(collection, item))
+            return false
+        })
+
+    const track = (collection: BackupCollection, item: BackupItem, ok: boolean) => {
+        if (ok) report.imported[collection] += 1
+        else report.failed.push(titleOf(collection, item))
+    }
+
+    // Sections first, then plans: cards refer to both
+    for (const section of pending('customSections', backup.customSections)) {
+        const created = await createCustomSection({ ...section, id: newId(section.id), workspaceId: null })
+        track('customSections', section, !!created)
+    }
+
+    for (const plan of pending('plans', backup.plans)) {
+        const planId = newId(plan.id)
+        const created = await createPlan({
+            ...plan,
+            id: planId,
+            timeSlots: (plan.timeSlots || []).map(slot => ({ ...slot, id: generateUUID() })),
+            attachments: (plan.attachments || []).map(att => ({ ...att, id: generateUUID() })),
+            checklist: plan.checklist?.map(item => ({ ...item, id: generateUUID() })),
+            comments: plan.comments?.map(comment => ({ ...comment, id: generateUUID() })),
+            exceptions: [],
+            version: undefined,
+            deletedAt: undefined
+        })
+        if (created) {
+            for (const exception of plan.exceptions || []) {
+                await upsertPlanException({ ...exception, id: generateUUID(), planId })
+            }
+        }
+        track('plans', plan, !!created)
+    }
+
+    for (const card of pending('cards', backup.cards)) {
+        // Links to plans or sections that are neither in the backup nor here are dropped
+        const sectionId = card.status.startsWith('custom-') ? card.status.slice('custom-'.length) : null
+        const status = sectionId ? (ids.has(sectionId) ? `custom-${ids.get(sectionId)}` : 'inbox') : card.status
+        const created = await createCard({
+            ...card,
+            id: newId(card.id),
+            status,
+            linkedPlanId: card.linkedPlanId && ids.has(card.linkedPlanId) ? ids.get(card.linkedPlanId) : undefined,
+            timeSlots: (card.timeSlots || []).map(slot => ({ ...slot, id: generateUUID() })),
+            checklist: card.checklist.map(item => ({ ...item, id: generateUUID() })),
+            comments: card.comments.map(comment => ({ ...comment, id: generateUUID() })),
+            attachments: card.attachments.map(att => ({ ...att, id: generateUUID() })),
+            workspaceId: null,
+            assigneeIds: [],
+            version: undefined,
+            deletedAt: undefined
+        })
+        track('cards', card, !!created)
+    }
+
+    for (const goal of pending('goals', backup.goals)) {
+        const created = await createGoal({
+            ...goal,
+            id: newId(goal.id),
+            checklist: goal.checklist.map(item => ({ ...item, id: generateUUID() })),
+            comments: goal.comments.map(comment => ({ ...comment, id: generateUUID() })),
+            attachments: goal.attachments?.map(att => ({ ...att, id: generateUUID() })),
+            // Backups from before currency codes carry symbols
+            budget: goal.budget && { ...goal.budget, currency: normalizeCurrency(goal.budget.currency) ?? DEFAULT_CURRENCY },
+            version: undefined,
+            deletedAt: undefined
+        })
+        track('goals', goal, !!created)
+    }
+
+    for (const revenue of pending('revenues', backup.revenues)) {
+        const created = await createRevenue({
+            ...revenue,
+            id: newId(revenue.id),
+            currency: normalizeCurrency(revenue.currency) ?? DEFAULT_CURRENCY,
+            sourceCardId: revenue.sourceCardId && ids.has(revenue.sourceCardId) ? ids.get(revenue.sourceCardId) : undefined,
+            attachments: revenue.attachments?.map(att => ({ ...att, id: generateUUID() })),
+            deletedAt: undefined
+        })
+        track('revenues', revenue, !!created)
+    }
+
+    for (const expense of pending('expenses', backup.expenses)) {
+        const created = await createExpense({
+            ...expense,
+            id: newId(expense.id),
+            currency: normalizeCurrency(expense.currency) ?? DEFAULT_CURRENCY,
+            deletedAt: undefined
+        })
+        track('expenses', expense, !!created)
+    }
+
+    for (const rate of pending('exchangeRates', backup.exchangeRates)) {
+        const created = await saveExchangeRate({ ...rate, id: newId(rate.id) })
+        track('exchangeRates', rate, !!created)
+    }
+
+    // Clients before invoices, which refer to them and to the revenues they bill
+    for (const client of pending('clients', backup.clients)) {
+        const created = await saveClient({ ...client, id: newId(client.id) })
+        track('clients', client, !!created)
+    }
+
+    for (const invoice of pending('invoices', backup.invoices)) {
+        const created = await createInvoice({
+            ...invoice,
+            id: newId(invoice.id),
+            clientId: invoice.clientId && ids.has(invoice.clientId) ? ids.get(invoice.clientId)! : null,
+            // Lines for revenues that are neither in the backup nor here are dropped
+            items: invoice.items
+                .filter(item => ids.has(item.revenueId))
+                .map(item => ({ id: generateUUID(), revenueId: ids.get(item.revenueId)! }))
+        })
+        track('invoices', invoice, !!created)
+    }
+
+    return report
+}
@@ -0,0 +1,40 @@
+import { isSupabaseConfigured, supabase } from './supabaseClient'
+import { mapCardRow, mapPlanExceptionRow, mapPlanRow, mapTimeSlotRow, Row } from './rowMappers'
+import { buildCalendar } from './ics'
+
+// Server side of the subscribable calendar feed (app/api/calendar/[token]).
+// The calendar_feed database function looks up the token, so no signed-in session is needed.
+
+interface FeedRows {
+    plans: (Row & { time_slots: Row[], exceptions: Row[] })[]
+    cards: Row[]
+}
+
+// Feed tokens are 64 hex characters; anything else is rejected without a database call
+export function isFeedToken(token: string): boolean {
+    return /^[0-9a-f]{64}$/.test(token)
+}
+
+/**
+ * The .ics document for a feed token, or null if the token is unknown (or there is no
+ * Supabase project: the local backend lives in the browser, out of the server's reach).
+ */
+export async function renderCalendarFeed(token: string): Promise<string | null> {
+    if (!isSupabaseConfigured || !isFeedToken(token)) return null
+
+    const { data, error } = await supabase.rpc('calendar_feed', { feed_token: token })
+    if (error) {
+        console.error('Error loading calendar feed:', error)
+        return null
+    }
+    if (!data) return null
+
+    const rows = data as FeedRows
+    const plans = rows.plans.map(row => mapPlanRow(row, {
+        timeSlots: row.time_slots.map(mapTimeSlotRow),
+        exceptions: row.exceptions.map(mapPlanExceptionRow)
+    }))
+    const cards = rows.cards.map(row => mapCardRow(row))
+
+    return buildCalendar(plans, cards)
+}
@@ -0,0 +1,34 @@
+import { format } from 'date-fns'
+import { KanbanCard, Revenue } from './types'
+import { generateUUID } from './uuid'
+
+// Cards can carry a price and project; completing one offers to record it as revenue, and the
+// revenue keeps the card's id in sourceCardId. Virtual plan cards (`plan-<id>`) have no row to
+// point at, so revenue recorded from them is not linked.
+
+export function isLinkableCard(card: KanbanCard): boolean {
+    return !card.id.startsWith('plan-')
+}
+
+// The revenue entry recorded from a card, if any
+export function revenueForCard(card: KanbanCard, revenues: Revenue[]): Revenue | undefined {
+    return isLinkableCard(card) ? revenues.find(r => r.sourceCardId === card.id) : undefined
+}
+
+/**
+ * A new revenue entry pre-filled from a card: its title as the name, its price and project,
+ * and the day it was completed.
+ */
+export function revenueFromCard(card: KanbanCard, defaultCurrency: string, completedOn: Date = new Date()): Revenue {
+    return {
+        id: generateUUID(),
+        name: card.title,
+        description: card.description || undefined,
+        projectName: card.projectName ?? '',
+        price: card.price ?? 0,
+        currency: card.currency ?? defaultCurrency,
+        dateCompleted: format(completedOn, 'yyyy-MM-dd'),
+        sourceCardId: isLinkableCard(card) ? card.id : undefined,
+        createdAt: new Date().toISOString()
+    }
+}
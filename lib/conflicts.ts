@@ -0,0 +1,158 @@
+import { Goal, KanbanCard, Plan } from './types'
+import { formatMoney } from './currency'
+
+// Field-level comparison and merging for records that were changed elsewhere
+// while being edited here (e.g. the same card edited on web and mobile).
+
+export type MergeChoice = 'mine' | 'theirs' | 'both'
+
+export interface ConflictField<T> {
+    key: keyof T & string
+    label: string
+    list?: boolean // Child rows with ids (checklist, comments, attachments) that can be combined
+    format?: (value: T[keyof T]) => string
+}
+
+export interface FieldDiff {
+    key: string
+    label: string
+    mine: string
+    theirs: string
+    changedLocally: boolean // Both sides changed the field, so the user has to pick
+    list: boolean
+}
+
+export const CARD_CONFLICT_FIELDS: ConflictField<KanbanCard>[] = [
+    { key: 'title', label: 'Title' },
+    { key: 'description', label: 'Description' },
+    { key: 'status', label: 'Status' },
+    { key: 'startDate', label: 'Start date' },
+    { key: 'endDate', label: 'End date' },
+    { key: 'price', label: 'Price' },
+    { key: 'currency', label: 'Currency' },
+    { key: 'projectName', label: 'Project' },
+    { key: 'checklist', label: 'Checklist', list: true },
+    { key: 'comments', label: 'Comments', list: true },
+    { key: 'attachments', label: 'Attachments', list: true },
+]
+
+export const PLAN_CONFLICT_FIELDS: ConflictField<Plan>[] = [
+    { key: 'title', label: 'Title' },
+    { key: 'description', label: 'Description' },
+    { key: 'date', label: 'Date' },
+    { key: 'dueDate', label: 'Due date' },
+    { key: 'completed', label: 'Completed' },
+    { key: 'checklist', label: 'Checklist', list: true },
+    { key: 'comments', label: 'Comments', list: true },
+    { key: 'attachments', label: 'Attachments', list: true },
+]
+
+export const GOAL_CONFLICT_FIELDS: ConflictField<Goal>[] = [
+    { key: 'title', label: 'Title' },
+    { key: 'description', label: 'Description' },
+    { key: 'goalType', label: 'Type' },
+    { key: 'targetDate', label: 'Target date' },
+    {
+        key: 'budget',
+        label: 'Budget',
+        format: (value) => {
+            const budget = value as Goal['budget']
+            return budget ? `${formatMoney(budget.currentAmount, budget.currency)} of ${formatMoney(budget.targetAmount, budget.currency)}` : '—'
+        }
+    },
+    { key: 'checklist', label: 'Checklist', list: true },
+    { key: 'comments', label: 'Comments', list: true },
+    { key: 'attachments', label: 'Attachments', list: true },
+]
+
+function same(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+}
+
+function describeValue(value: unknown): string {
+    if (value === undefined || value === null || value === '') return '—'
+    if (Array.isArray(value)) {
+        if (value.length === 0) return 'None'
+        return value.map(item => {
+            const row = item as { text?: string; name?: string; completed?: boolean }
+            const text = row.text ?? row.name ?? ''
+            return row.completed ? `✓ ${text}` : text
+        }).join(', ')
+    }
+    return String(value)
+}
+
+/**
+ * Lists fields changed on the server since `base` was loaded, comparing our edit (`local`)
+ * with the server copy (`remote`). Fields only we changed are not conflicts and are not listed.
+ */
+export function diffRecords<T>(base: T, local: T, remote: T, fields: ConflictField<T>[]): FieldDiff[] {
+    return fields
+        .filter(field => !same(remote[field.key], base[field.key]) && !same(remote[field.key], local[field.key]))
+        .map(field => {
+            const format = field.format ?? describeValue
+            return {
+                key: field.key,
+                label: field.label,
+                mine: format(local[field.key]),
+                theirs: format(remote[field.key]),
+                changedLocally: !same(local[field.key], base[field.key]),
+                list: !!field.list,
+            }
+        })
+}
+
+export function defaultChoice(diff: FieldDiff): MergeChoice {
+    if (!diff.changedLocally) return 'theirs'
+    return diff.list ? 'both' : 'mine'
+}
+
+/**
+ * Three-way merge of id'd rows: keeps their additions and edits, drops rows we deleted,
+ * and applies our additions and edits on top.
+ */
+export function mergeLists<I extends { id: string }>(base: I[], local: I[], remote: I[]): I[] {
+    const baseById = new Map(base.map(item => [item.id, item]))
+    const localById = new Map(local.map(item => [item.id, item]))
+    const remoteIds = new Set(remote.map(item => item.id))
+
+    const merged = remote
+        .filter(item => localById.has(item.id) || !baseById.has(item.id))
+        .map(item => {
+            const mine = localById.get(item.id)
+            return mine && !same(mine, baseById.get(item.id)) ? mine : item
+        })
+
+    return [...merged, ...local.filter(item => !remoteIds.has(item.id) && !baseById.has(item.id))]
+}
+
+/**
+ * Builds the record to save after the user resolved the listed conflicts.
+ * The result carries the server's version so the follow-up write is not stale.
+ */
+export function mergeRecords<T extends { version?: number; updatedAt?: string }>(
+    base: T,
+    local: T,
+    remote: T,
+    fields: ConflictField<T>[],
+    choices: Record<string, MergeChoice>
+): T {
+    const merged: T = { ...local, version: remote.version, updatedAt: remote.updatedAt }
+
+    for (const field of fields) {
+        if (same(remote[field.key], base[field.key])) continue
+
+        const choice = choices[field.key] ?? (same(local[field.key], base[field.key]) ? 'theirs' : 'mine')
+        if (choice === 'theirs') {
+            merged[field.key] = remote[field.key]
+        } else if (choice === 'both' && field.list) {
+            merged[field.key] = mergeLists(
+                (base[field.key] ?? []) as { id: string }[],
+                (local[field.key] ?? []) as { id: string }[],
+                (remote[field.key] ?? []) as { id: string }[]
+            ) as T[keyof T & string]
+        }
+    }
+
+    return merged
+}
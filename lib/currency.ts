@@ -0,0 +1,134 @@
+import { ExchangeRate } from './types'
+
+// ISO 4217 currency codes, formatting, and conversion with the user's exchange rates.
+// Rates are entered by hand per day; an amount is converted with the rate in effect on its
+// date (the latest one on or before it, or the earliest one if it predates them all).
+
+const STORAGE_KEY = 'planner-reporting-currency'
+
+export const DEFAULT_CURRENCY = 'PHP'
+
+// Offered in currency pickers; any other valid code still works
+export const CURRENCIES: { code: string, name: string }[] = [
+    { code: 'PHP', name: 'Philippine peso' },
+    { code: 'USD', name: 'US dollar' },
+    { code: 'EUR', name: 'Euro' },
+    { code: 'GBP', name: 'British pound' },
+    { code: 'JPY', name: 'Japanese yen' },
+    { code: 'AUD', name: 'Australian dollar' },
+    { code: 'CAD', name: 'Canadian dollar' },
+    { code: 'SGD', name: 'Singapore dollar' },
+    { code: 'HKD', name: 'Hong Kong dollar' },
+    { code: 'CNY', name: 'Chinese yuan' },
+    { code: 'KRW', name: 'South Korean won' },
+    { code: 'INR', name: 'Indian rupee' },
+    { code: 'CHF', name: 'Swiss franc' },
+]
+
+// Symbols stored before amounts carried ISO codes, and ones commonly found in CSV files
+const SYMBOL_CODES: Record<string, string> = {
+    '₱': 'PHP', '$': 'USD', 'US$': 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY', '₩': 'KRW', '₹': 'INR',
+    'A$': 'AUD', 'C$': 'CAD', 'S$': 'SGD', 'HK$': 'HKD',
+}
+
+export function isCurrencyCode(value: string): boolean {
+    return /^[A-Z]{3}$/.test(value)
+}
+
+/**
+ * ISO code for a code or symbol ('php', '₱' → 'PHP'); null when it is neither.
+ */
+export function normalizeCurrency(value?: string | null): string | null {
+    const trimmed = value?.trim() ?? ''
+    if (isCurrencyCode(trimmed.toUpperCase())) return trimmed.toUpperCase()
+    return SYMBOL_CODES[trimmed] ?? null
+}
+
+/**
+ * Formats an amount with its currency symbol, e.g. "₱1,250" or "$12.50".
+ */
+export function formatMoney(amount: number, currency: string): string {
+    try {
+        return new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 2, minimumFractionDigits: 0 }).format(amount)
+    } catch {
+        return `${currency} ${amount.toLocaleString()}`
+    }
+}
+
+export function currencySymbol(currency: string): string {
+    return formatMoney(0, currency).replace(/[\d\s.,]/g, '') || currency
+}
+
+// Per device, like the trash retention
+export function getReportingCurrency(): string {
+    if (typeof window === 'undefined') return DEFAULT_CURRENCY
+    return normalizeCurrency(localStorage.getItem(STORAGE_KEY)) ?? DEFAULT_CURRENCY
+}
+
+export function setReportingCurrency(currency: string) {
+    localStorage.setItem(STORAGE_KEY, currency)
+}
+
+// ============================================
+// CONVERSION
+// ============================================
+
+// Multiplier from `from` to `to` with rates entered for this exact pair, in either direction
+function directRate(from: string, to: string, date: string, rates: ExchangeRate[]): number | null {
+    const pairRates = rates
+        .filter(r => (r.fromCurrency === from && r.toCurrency === to) || (r.fromCurrency === to && r.toCurrency === from))
+        .sort((a, b) => a.rateDate.localeCompare(b.rateDate))
+    if (pairRates.length === 0) return null
+
+    const rate = [...pairRates].reverse().find(r => r.rateDate <= date) ?? pairRates[0]
+    return rate.fromCurrency === from ? rate.rate : 1 / rate.rate
+}
+
+/**
+ * Multiplier that converts an amount in `from` into `to` on `date`: a rate for the pair, or
+ * failing that the two rates through a common third currency (so entering every currency
+ * against one base is enough). Null when no rates connect the two.
+ */
+export function findRate(from: string, to: string, date: string, rates: ExchangeRate[]): number | null {
+    if (from === to) return 1
+
+    const direct = directRate(from, to, date, rates)
+    if (direct !== null) return direct
+
+    const via = Array.from(new Set(rates.flatMap(r => [r.fromCurrency, r.toCurrency])))
+        .filter(code => code !== from && code !== to)
+        .sort()
+    for (const code of via) {
+        const first = directRate(from, code, date, rates)
+        const second = first === null ? null : directRate(code, to, date, rates)
+        if (first !== null && second !== null) return first * second
+    }
+    return null
+}
+
+export function convertAmount(amount: number, from: string, to: string, date: string, rates: ExchangeRate[]): number | null {
+    const rate = findRate(from, to, date, rates)
+    return rate === null ? null : amount * rate
+}
+
+export interface ConvertedTotal {
+    total: number
+    // Currencies that had no rate to the target; their amounts are left out of the total
+    missing: string[]
+}
+
+/**
+ * Sums amounts in different currencies into `currency`, each converted on its own date.
+ */
+export function sumConverted(items: { amount: number, currency: string, date: string }[], currency: string, rates: ExchangeRate[]): ConvertedTotal {
+    const missing = new Set<string>()
+    let total = 0
+
+    for (const item of items) {
+        const converted = convertAmount(item.amount, item.currency, currency, item.date, rates)
+        if (converted === null) missing.add(item.currency)
+        else total += converted
+    }
+
+    return { total, missing: Array.from(missing).sort() }
+}
@@ -0,0 +1,172 @@
+import { addDays, format, parseISO } from 'date-fns'
+import { KanbanCard, Plan } from './types'
+import { expandPlan } from './recurrence'
+
+// iCalendar (RFC 5545) output for the calendar feed.
+// Times are written as floating local times - the wall-clock times the planner shows - so
+// calendar apps display them unchanged in whatever time zone they are in.
+
+const PRODID = '-//SDaily//Planner//EN'
+const UID_DOMAIN = 'sdaily.app'
+// Time slots only have a start
+const SLOT_DURATION = 'PT1H'
+// Recurring plans are written occurrence by occurrence (so edited and cancelled occurrences
+// come out right) within this window around today
+const PAST_DAYS = 90
+const FUTURE_DAYS = 365
+
+export interface CalendarOptions {
+    name?: string
+    now?: Date
+}
+
+/**
+ * Escapes a TEXT value: backslashes, semicolons, commas and newlines.
+ */
+export function escapeText(value: string): string {
+    return value
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Folds a content line into chunks of at most 75 octets, continuation lines starting with a space.
+ * Multi-byte characters are never split.
+ */
+export function foldLine(line: string): string {
+    const encoder = new TextEncoder()
+    const chunks: string[] = []
+    let current = ''
+    let size = 0
+
+    for (const char of line) {
+        const charSize = encoder.encode(char).length
+        // Continuation lines lose one octet to the leading space
+        const limit = chunks.length === 0 ? 75 : 74
+        if (size + charSize > limit) {
+            chunks.push(current)
+            current = ''
+            size = 0
+        }
+        current += char
+        size += charSize
+    }
+    chunks.push(current)
+
+    return chunks.join('\r\n ')
+}
+
+function compactDate(date: string): string {
+    return date.replace(/-/g, '')
+}
+
+function nextDay(date: string): string {
+    return format(addDays(parseISO(date), 1), 'yyyyMMdd')
+}
+
+function utcStamp(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+export interface CalendarEvent {
+    uid: string
+    summary: string
+    description?: string
+    completed: boolean
+    // All-day span (end inclusive) or a timed start
+    start: { date: string, endDate: string } | { date: string, time: string }
+}
+
+function eventLines(event: CalendarEvent, stamp: string): string[] {
+    const lines = [
+        'BEGIN:VEVENT',
+        `UID:${event.uid}@${UID_DOMAIN}`,
+        `DTSTAMP:${stamp}`,
+    ]
+
+    if ('time' in event.start) {
+        const [hours, minutes] = event.start.time.split(':')
+        lines.push(`DTSTART:${compactDate(event.start.date)}T${hours.padStart(2, '0')}${minutes}00`)
+        lines.push(`DURATION:${SLOT_DURATION}`)
+    } else {
+        // DTEND of an all-day event is exclusive
+        lines.push(`DTSTART;VALUE=DATE:${compactDate(event.start.date)}`)
+        lines.push(`DTEND;VALUE=DATE:${nextDay(event.start.endDate)}`)
+    }
+
+    // Calendar apps have no notion of done, so completed items are marked in the title too
+    lines.push(`SUMMARY:${escapeText(event.completed ? `✓ ${event.summary}` : event.summary)}`)
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+    if (event.completed) lines.push('CATEGORIES:Completed')
+    lines.push('END:VEVENT')
+
+    return lines
+}
+
+/**
+ * Events for one plan (or occurrence): an all-day span for multi-day plans, one timed
+ * event per time slot for single-day plans, and an all-day event when there are no times.
+ */
+export function planEvents(plan: Plan): CalendarEvent[] {
+    const uid = plan.occurrenceDate ? `plan-${plan.id}-${compactDate(plan.occurrenceDate)}` : `plan-${plan.id}`
+    const base = { summary: plan.title, description: plan.description, completed: plan.completed }
+
+    if (plan.hasDueDate && plan.dueDate) {
+        return [{ ...base, uid, start: { date: plan.date, endDate: plan.dueDate } }]
+    }
+
+    const slots = plan.timeSlots || []
+    if (slots.length === 0) {
+        return [{ ...base, uid, start: { date: plan.date, endDate: plan.date } }]
+    }
+
+    return slots.map(slot => ({
+        ...base,
+        uid: `${uid}-${slot.id}`,
+        summary: slot.description ? `${plan.title}: ${slot.description}` : plan.title,
+        start: { date: plan.date, time: slot.time }
+    }))
+}
+
+/**
+ * Cards scheduled on the board. Cards linked to a plan are skipped; the plan already shows them.
+ */
+export function cardEvents(card: KanbanCard): CalendarEvent[] {
+    if (!card.startDate || card.linkedPlanId) return []
+
+    return [{
+        uid: `card-${card.id}`,
+        summary: card.title,
+        description: card.description,
+        completed: card.status === 'completed',
+        start: { date: card.startDate, endDate: card.endDate && card.endDate > card.startDate ? card.endDate : card.startDate }
+    }]
+}
+
+/**
+ * Builds the VCALENDAR document for plans and cards, with CRLF line endings and folded lines.
+ */
+export function buildCalendar(plans: Plan[], cards: KanbanCard[], options: CalendarOptions = {}): string {
+    const now = options.now ?? new Date()
+    const stamp = utcStamp(now)
+    const rangeStart = format(addDays(now, -PAST_DAYS), 'yyyy-MM-dd')
+    const rangeEnd = format(addDays(now, FUTURE_DAYS), 'yyyy-MM-dd')
+
+    const occurrences = plans.flatMap(plan => plan.recurrence ? expandPlan(plan, rangeStart, rangeEnd) : [plan])
+    const events = [...occurrences.flatMap(planEvents), ...cards.flatMap(cardEvents)]
+
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODID}`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(options.name ?? 'SDaily')}`,
+        ...events.flatMap(event => eventLines(event, stamp)),
+        'END:VCALENDAR'
+    ]
+
+    return lines.map(foldLine).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,427 @@
+import { addDays, format, parseISO } from 'date-fns'
+import { Plan, PlanException, TimeSlot } from './types'
+import { getPlansForDay, parseRRule } from './recurrence'
+import { generateUUID } from './uuid'
+
+// Reading .ics files (meeting invites, calendar exports) into plans.
+// Times are converted to the planner's time zone: UTC times and TZIDs known to the browser
+// via Intl, other TZIDs through the file's VTIMEZONE definitions; floating times stay as they are.
+
+interface Property {
+    name: string
+    params: Record<string, string>
+    value: string
+}
+
+interface Component {
+    name: string
+    properties: Property[]
+    children: Component[]
+}
+
+// A date, or a date and time, as wall-clock values in the planner's time zone
+interface LocalDateTime {
+    date: string // YYYY-MM-DD
+    time?: string // HH:MM
+}
+
+export interface IcsEvent {
+    uid: string
+    summary: string
+    description?: string
+    location?: string
+    start: LocalDateTime
+    end: LocalDateTime // Inclusive day for all-day events
+    rrule?: string
+    exdates: string[]
+    recurrenceId?: string // Date of the occurrence an override replaces
+    cancelled: boolean
+}
+
+export interface IcsImportCandidate {
+    key: string
+    plan: Plan
+    duplicateOf: Plan | null // Plan already in the planner with the same title on the same day
+}
+
+export interface IcsParseOptions {
+    timeZone?: string // Defaults to the browser's
+}
+
+// ============================================
+// CONTENT LINES
+// ============================================
+
+function unfold(text: string): string[] {
+    return text.replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n').filter(line => line.trim() !== '')
+}
+
+// Splits on `separator` outside double quotes
+function splitOutsideQuotes(value: string, separator: string): string[] {
+    const parts: string[] = []
+    let current = ''
+    let inQuotes = false
+    for (const char of value) {
+        if (char === '"') inQuotes = !inQuotes
+        if (char === separator && !inQuotes) {
+            parts.push(current)
+            current = ''
+        } else {
+            current += char
+        }
+    }
+    parts.push(current)
+    return parts
+}
+
+function parseLine(line: string): Property | null {
+    let colon = -1
+    let inQuotes = false
+    for (let i = 0; i < line.length; i++) {
+        if (line[i] === '"') inQuotes = !inQuotes
+        if (line[i] === ':' && !inQuotes) {
+            colon = i
+            break
+        }
+    }
+    if (colon < 0) return null
+
+    const [name, ...rawParams] = splitOutsideQuotes(line.slice(0, colon), ';')
+    const params: Record<string, string> = {}
+    for (const param of rawParams) {
+        const [key, ...rest] = param.split('=')
+        params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '')
+    }
+    return { name: name.toUpperCase(), params, value: line.slice(colon + 1) }
+}
+
+function parseComponents(text: string): Component[] {
+    const root: Component = { name: 'ROOT', properties: [], children: [] }
+    const stack = [root]
+
+    for (const line of unfold(text)) {
+        const property = parseLine(line)
+        if (!property) continue
+        const current = stack[stack.length - 1]
+
+        if (property.name === 'BEGIN') {
+            const component: Component = { name: property.value.toUpperCase(), properties: [], children: [] }
+            current.children.push(component)
+            stack.push(component)
+        } else if (property.name === 'END') {
+            if (stack.length > 1) stack.pop()
+        } else {
+            current.properties.push(property)
+        }
+    }
+
+    return root.children
+}
+
+function findAll(components: Component[], name: string): Component[] {
+    return components.flatMap(c => c.name === name ? [c, ...findAll(c.children, name)] : findAll(c.children, name))
+}
+
+function prop(component: Component, name: string): Property | undefined {
+    return component.properties.find(p => p.name === name)
+}
+
+function unescapeText(value: string): string {
+    return value.replace(/\\([\\;,nN])/g, (_, char: string) => char.toLowerCase() === 'n' ? '\n' : char)
+}
+
+// ============================================
+// TIME ZONES
+// ============================================
+
+// Naive wall-clock value as milliseconds, as if it were UTC
+type WallClock = number
+
+function parseWallClock(value: string): { wall: WallClock, utc: boolean, dateOnly: boolean } | null {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/)
+    if (!match) return null
+    const [, y, mo, d, h, mi, s, z] = match
+    return {
+        wall: Date.UTC(+y, +mo - 1, +d, +(h ?? 0), +(mi ?? 0), +(s ?? 0)),
+        utc: !!z,
+        dateOnly: h === undefined
+    }
+}
+
+function toLocal(wall: WallClock): { date: string, time: string } {
+    const iso = new Date(wall).toISOString()
+    return { date: iso.slice(0, 10), time: iso.slice(11, 16) }
+}
+
+// Wall-clock time of a UTC instant in an IANA zone; null if the runtime doesn't know the zone
+function wallClockIn(timeZone: string, utcMs: number): WallClock | null {
+    try {
+        const parts = new Intl.DateTimeFormat('en-US', {
+            timeZone, hourCycle: 'h23',
+            year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit'
+        }).formatToParts(new Date(utcMs))
+        const get = (type: string) => Number(parts.find(p => p.type === type)?.value)
+        return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'))
+    } catch {
+        return null
+    }
+}
+
+const WEEKDAY_INDEX: Record<string, number> = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 }
+
+function parseOffset(value?: string): number {
+    const match = value?.match(/^([+-])(\d{2})(\d{2})/)
+    if (!match) return 0
+    return (match[1] === '-' ? -1 : 1) * (Number(match[2]) * 60 + Number(match[3])) * 60000
+}
+
+/**
+ * UTC offset (ms) of a VTIMEZONE at a wall-clock time: the STANDARD or DAYLIGHT observance
+ * with the latest onset before it. Understands the yearly BYMONTH/BYDAY rules time zone
+ * definitions use, e.g. "last Sunday of March".
+ */
+function vtimezoneOffset(zone: Component, wall: WallClock): number | null {
+    const year = new Date(wall).getUTCFullYear()
+    let best: { onset: WallClock, offset: number } | null = null
+
+    for (const observance of zone.children.filter(c => c.name === 'STANDARD' || c.name === 'DAYLIGHT')) {
+        const start = parseWallClock(prop(observance, 'DTSTART')?.value ?? '')
+        if (!start) continue
+        const offset = parseOffset(prop(observance, 'TZOFFSETTO')?.value)
+        const rule = Object.fromEntries((prop(observance, 'RRULE')?.value ?? '').split(';').map(part => part.split('=')))
+        const startDate = new Date(start.wall)
+        const timeOfDay = start.wall - Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth(), startDate.getUTCDate())
+
+        const onsets: WallClock[] = [start.wall]
+        const byDay = (rule.BYDAY as string | undefined)?.match(/^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/)
+        if (rule.FREQ === 'YEARLY' && rule.BYMONTH && byDay) {
+            const month = Number(rule.BYMONTH) - 1
+            const pos = Number(byDay[1] ?? 1)
+            const weekday = WEEKDAY_INDEX[byDay[2]]
+            for (const y of [year - 1, year]) {
+                let day: number
+                if (pos < 0) {
+                    const last = new Date(Date.UTC(y, month + 1, 0))
+                    day = last.getUTCDate() - ((last.getUTCDay() - weekday + 7) % 7)
+                } else {
+                    const first = new Date(Date.UTC(y, month, 1))
+                    day = 1 + ((weekday - first.getUTCDay() + 7) % 7) + (pos - 1) * 7
+                }
+                const onset = Date.UTC(y, month, day) + timeOfDay
+                if (onset >= start.wall) onsets.push(onset)
+            }
+        }
+
+        for (const onset of onsets) {
+            if (onset <= wall && (!best || onset > best.onset)) best = { onset, offset }
+        }
+    }
+
+    return best ? best.offset : null
+}
+
+type ZoneResolver = (wall: WallClock, tzid?: string) => number | null
+
+// Returns the UTC instant for a wall-clock time in `tzid`, or null when the zone is unknown
+function zoneResolver(timezones: Component[]): ZoneResolver {
+    return (wall, tzid) => {
+        if (!tzid) return null
+
+        // IANA names first; custom definitions (e.g. Outlook's "W. Europe Standard Time") after
+        const guessWall = wallClockIn(tzid, wall)
+        if (guessWall !== null) {
+            // Two passes settle the offset around DST changes
+            let utc = wall - (guessWall - wall)
+            const adjusted = wallClockIn(tzid, utc)
+            if (adjusted !== null) utc += wall - adjusted
+            return utc
+        }
+
+        const zone = timezones.find(z => prop(z, 'TZID')?.value === tzid)
+        const offset = zone ? vtimezoneOffset(zone, wall) : null
+        return offset === null ? null : wall - offset
+    }
+}
+
+function readDateTime(property: Property | undefined, resolve: ZoneResolver, timeZone: string): { value: LocalDateTime, dateOnly: boolean } | null {
+    if (!property) return null
+    const parsed = parseWallClock(property.value.trim())
+    if (!parsed) return null
+
+    if (parsed.dateOnly || property.params.VALUE === 'DATE') {
+        return { value: { date: toLocal(parsed.wall).date }, dateOnly: true }
+    }
+
+    const utc = parsed.utc ? parsed.wall : resolve(parsed.wall, property.params.TZID)
+    // Floating time (or an unknown zone): take the wall clock as it is
+    const wall = utc === null ? parsed.wall : wallClockIn(timeZone, utc) ?? parsed.wall
+    const local = toLocal(wall)
+    return { value: { date: local.date, time: local.time }, dateOnly: false }
+}
+
+// ISO 8601 duration as used by DURATION, e.g. PT1H30M or P2D
+function parseDuration(value?: string): number {
+    const match = value?.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/)
+    if (!match) return 0
+    const [, sign, w, d, h, m, s] = match
+    const ms = ((+(w ?? 0) * 7 + +(d ?? 0)) * 24 * 3600 + +(h ?? 0) * 3600 + +(m ?? 0) * 60 + +(s ?? 0)) * 1000
+    return sign === '-' ? -ms : ms
+}
+
+function shiftLocal(value: LocalDateTime, ms: number): LocalDateTime {
+    const wall = Date.parse(`${value.date}T${value.time ?? '00:00'}:00Z`) + ms
+    const local = toLocal(wall)
+    return value.time ? local : { date: local.date }
+}
+
+function previousDay(date: string): string {
+    return format(addDays(parseISO(date), -1), 'yyyy-MM-dd')
+}
+
+// ============================================
+// EVENTS
+// ============================================
+
+/**
+ * Parses the VEVENTs of an .ics file. Events without a start are skipped.
+ */
+export function parseIcs(text: string, options: IcsParseOptions = {}): IcsEvent[] {
+    const timeZone = options.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone
+    const components = parseComponents(text)
+    // Cancellation notices for invites, not events to add
+    if (findAll(components, 'VCALENDAR').some(c => prop(c, 'METHOD')?.value.toUpperCase() === 'CANCEL')) return []
+    const resolve = zoneResolver(findAll(components, 'VTIMEZONE'))
+
+    return findAll(components, 'VEVENT').flatMap((event, index): IcsEvent[] => {
+        const start = readDateTime(prop(event, 'DTSTART'), resolve, timeZone)
+        if (!start) return []
+
+        let end = readDateTime(prop(event, 'DTEND'), resolve, timeZone)?.value
+        if (!end) {
+            const duration = parseDuration(prop(event, 'DURATION')?.value)
+            end = duration ? shiftLocal(start.value, duration) : undefined
+        }
+
+        // All-day ends are exclusive; timed events ending at midnight end on the day before
+        let endValue: LocalDateTime = end ?? start.value
+        if (end && (start.dateOnly || end.time === '00:00') && end.date > start.value.date) {
+            endValue = { date: previousDay(end.date), time: start.dateOnly ? undefined : end.time }
+        }
+
+        const text = (name: string) => {
+            const value = prop(event, name)?.value
+            return value ? unescapeText(value).trim() : undefined
+        }
+
+        const exdates = event.properties
+            .filter(p => p.name === 'EXDATE')
+            .flatMap(p => p.value.split(',').map(value => readDateTime({ ...p, value }, resolve, timeZone)?.value.date))
+            .filter((date): date is string => !!date)
+
+        return [{
+            uid: text('UID') || `event-${index}`,
+            summary: text('SUMMARY') || 'Untitled event',
+            description: text('DESCRIPTION'),
+            location: text('LOCATION'),
+            start: start.value,
+            end: endValue,
+            rrule: prop(event, 'RRULE')?.value,
+            exdates,
+            recurrenceId: readDateTime(prop(event, 'RECURRENCE-ID'), resolve, timeZone)?.value.date,
+            cancelled: text('STATUS')?.toUpperCase() === 'CANCELLED'
+        }]
+    })
+}
+
+function timeSlotsOf(event: IcsEvent): TimeSlot[] | undefined {
+    if (!event.start.time || event.end.date > event.start.date) return undefined
+    return [{ id: generateUUID(), time: event.start.time, description: event.location ?? '' }]
+}
+
+function eventToPlan(event: IcsEvent): Plan {
+    const isMultiDay = event.end.date > event.start.date
+    const recurrence = parseRRule(event.rrule) ?? null
+    const id = generateUUID()
+
+    return {
+        id,
+        title: event.summary,
+        description: event.description,
+        date: event.start.date,
+        hasDueDate: isMultiDay,
+        dueDate: isMultiDay ? event.end.date : undefined,
+        timeSlots: timeSlotsOf(event),
+        completed: false,
+        createdAt: new Date().toISOString(),
+        recurrence,
+        exceptions: recurrence
+            ? event.exdates.map((date): PlanException => ({ id: generateUUID(), planId: id, occurrenceDate: date, cancelled: true, completed: false }))
+            : undefined
+    }
+}
+
+/**
+ * Turns parsed events into plans. Overrides of single occurrences (RECURRENCE-ID) become
+ * exceptions of their series; one moved to another day is cancelled there and imported as a
+ * separate plan, the way the planner handles moving an occurrence.
+ */
+export function eventsToPlans(events: IcsEvent[]): { key: string, plan: Plan }[] {
+    const series = new Map<string, Plan>()
+    const result: { key: string, plan: Plan }[] = []
+
+    for (const event of events.filter(e => !e.recurrenceId && !e.cancelled)) {
+        // The same event in several dropped files is imported once
+        if (series.has(event.uid)) continue
+        const plan = eventToPlan(event)
+        series.set(event.uid, plan)
+        result.push({ key: event.uid, plan })
+    }
+
+    for (const override of events.filter(e => e.recurrenceId)) {
+        const parent = series.get(override.uid)
+        const occurrenceDate = override.recurrenceId!
+        const moved = override.start.date !== occurrenceDate
+
+        if (parent?.recurrence) {
+            const exception: PlanException = override.cancelled || moved
+                ? { id: generateUUID(), planId: parent.id, occurrenceDate, cancelled: true, completed: false }
+                : {
+                    id: generateUUID(),
+                    planId: parent.id,
+                    occurrenceDate,
+                    cancelled: false,
+                    completed: false,
+                    title: override.summary !== parent.title ? override.summary : undefined,
+                    description: override.description !== parent.description ? override.description : undefined,
+                    timeSlots: timeSlotsOf(override)
+                }
+            parent.exceptions = [...(parent.exceptions || []).filter(e => e.occurrenceDate !== occurrenceDate), exception]
+        }
+
+        if (!override.cancelled && (moved || !parent?.recurrence)) {
+            result.push({ key: `${override.uid}:${occurrenceDate}`, plan: { ...eventToPlan(override), recurrence: null, exceptions: undefined } })
+        }
+    }
+
+    return result
+}
+
+/**
+ * Plan with the same title on the same day (including occurrences of recurring plans).
+ */
+export function findDuplicatePlan(plan: Plan, plans: Plan[]): Plan | null {
+    const title = plan.title.trim().toLowerCase()
+    return getPlansForDay(plans, plan.date).find(existing => existing.title.trim().toLowerCase() === title) ?? null
+}
+
+/**
+ * Everything the import preview needs: the plans an .ics file would create and, for each,
+ * the plan already in `existing` it seems to duplicate.
+ */
+export function prepareIcsImport(text: string, existing: Plan[], options: IcsParseOptions = {}): IcsImportCandidate[] {
+    return eventsToPlans(parseIcs(text, options)).map(({ key, plan }) => ({
+        key,
+        plan,
+        duplicateOf: findDuplicatePlan(plan, existing)
+    }))
+}
@@ -0,0 +1,92 @@
+import { format } from 'date-fns'
+import { CalendarDeadline, Client, Invoice, InvoiceStatus, Revenue } from './types'
+import { formatMoney } from './currency'
+
+// Invoice arithmetic and status. An invoice's line items are revenue entries in the invoice's
+// currency: the discount comes off their sum and the tax rate applies to what remains.
+
+export interface InvoiceTotals {
+    subtotal: number
+    discount: number // Capped at the subtotal
+    tax: number
+    total: number
+}
+
+export const INVOICE_STATUSES: { status: InvoiceStatus, label: string }[] = [
+    { status: 'draft', label: 'Draft' },
+    { status: 'sent', label: 'Sent' },
+    { status: 'overdue', label: 'Overdue' },
+    { status: 'paid', label: 'Paid' },
+]
+
+function roundCents(amount: number): number {
+    return Math.round(amount * 100) / 100
+}
+
+function today(): string {
+    return format(new Date(), 'yyyy-MM-dd')
+}
+
+/**
+ * The status to show: sent invoices become overdue the day after their due date.
+ */
+export function invoiceStatus(invoice: Invoice, on: string = today()): InvoiceStatus {
+    return invoice.status === 'sent' && invoice.dueDate < on ? 'overdue' : invoice.status
+}
+
+// The invoice's revenue entries in line order; entries no longer loaded (e.g. trashed) are skipped
+export function invoiceLines(invoice: Invoice, revenues: Revenue[]): Revenue[] {
+    const byId = new Map(revenues.map(r => [r.id, r]))
+    return invoice.items.flatMap(item => byId.get(item.revenueId) ?? [])
+}
+
+export function invoiceTotals(invoice: Invoice, revenues: Revenue[]): InvoiceTotals {
+    const subtotal = roundCents(invoiceLines(invoice, revenues).reduce((sum, r) => sum + r.price, 0))
+    const discount = roundCents(Math.min(Math.max(invoice.discount, 0), subtotal))
+    const tax = roundCents((subtotal - discount) * Math.max(invoice.taxRate, 0) / 100)
+    return { subtotal, discount, tax, total: roundCents(subtotal - discount + tax) }
+}
+
+/**
+ * Next number in the issue year's sequence: INV-2026-001, INV-2026-002, ...
+ * Numbers edited by hand into another shape are ignored.
+ */
+export function nextInvoiceNumber(invoices: Invoice[], issueDate: string = today()): string {
+    const prefix = `INV-${issueDate.slice(0, 4)}-`
+    const last = invoices.reduce((max, invoice) => {
+        if (!invoice.number.startsWith(prefix)) return max
+        const sequence = Number(invoice.number.slice(prefix.length))
+        return Number.isInteger(sequence) && sequence > max ? sequence : max
+    }, 0)
+    return `${prefix}${String(last + 1).padStart(3, '0')}`
+}
+
+/**
+ * Revenue entries that can go on `invoice`: in its currency and not billed on another invoice.
+ */
+export function billableRevenues(revenues: Revenue[], invoices: Invoice[], invoice: Pick<Invoice, 'id' | 'currency'>): Revenue[] {
+    const billedElsewhere = new Set(
+        invoices.filter(i => i.id !== invoice.id).flatMap(i => i.items.map(item => item.revenueId))
+    )
+    return revenues.filter(r => r.currency === invoice.currency && !billedElsewhere.has(r.id))
+}
+
+/**
+ * Due dates of unpaid invoices, for the Planner.
+ */
+export function invoiceDeadlines(invoices: Invoice[], clients: Client[], revenues: Revenue[], on: string = today()): CalendarDeadline[] {
+    const clientNames = new Map(clients.map(c => [c.id, c.name]))
+    return invoices
+        .filter(invoice => invoice.status !== 'paid')
+        .map(invoice => {
+            const client = invoice.clientId ? clientNames.get(invoice.clientId) : undefined
+            const total = formatMoney(invoiceTotals(invoice, revenues).total, invoice.currency)
+            return {
+                id: `invoice:${invoice.id}`,
+                date: invoice.dueDate,
+                title: `${invoice.number} due${client ? ` · ${client}` : ''} · ${total}`,
+                href: `/revenue/invoices/${invoice.id}`,
+                overdue: invoiceStatus(invoice, on) === 'overdue'
+            }
+        })
+}
@@ -0,0 +1,168 @@
+import { supabase } from './supabaseClient'
+
+// Title, description, image and favicon of a linked page, for the link cards in the attachment
+// preview. Pages are fetched by app/api/unfurl through unfurlFetch (browsers can't read other
+// sites); when that isn't reachable the card falls back to what the URL itself says.
+
+export interface LinkUnfurl {
+    url: string
+    title: string
+    description?: string
+    image?: string
+    favicon: string
+    siteName: string
+}
+
+/**
+ * A card built from the URL alone: the host as the site, the path as the title and the
+ * site's default favicon.
+ */
+export function fallbackUnfurl(url: string): LinkUnfurl {
+    try {
+        const parsed = new URL(url)
+        const siteName = parsed.hostname.replace(/^www\./, '')
+        const path = decodeURIComponent(parsed.pathname).replace(/\/$/, '')
+        return {
+            url,
+            title: path ? `${siteName}${path}` : siteName,
+            favicon: `${parsed.origin}/favicon.ico`,
+            siteName
+        }
+    } catch {
+        return { url, title: url, favicon: '', siteName: url }
+    }
+}
+
+function decodeEntities(value: string): string {
+    return value
+        .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+        .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;|&apos;/g, "'")
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&amp;/g, '&')
+        .replace(/\s+/g, ' ')
+        .trim()
+}
+
+function attribute(tag: string, name: string): string | null {
+    const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'))
+    return match ? (match[2] ?? match[3] ?? match[4]) : null
+}
+
+function resolveUrl(href: string, base: string): string | undefined {
+    try {
+        return new URL(href, base).toString()
+    } catch {
+        return undefined
+    }
+}
+
+/**
+ * Reads the Open Graph tags, <title>, description and icon link of a page, falling back to
+ * fallbackUnfurl for anything missing.
+ */
+export function parseUnfurl(html: string, url: string): LinkUnfurl {
+    const fallback = fallbackUnfurl(url)
+    const meta: Record<string, string> = {}
+    for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+        const key = (attribute(tag, 'property') ?? attribute(tag, 'name'))?.toLowerCase()
+        const content = attribute(tag, 'content')
+        if (key && content && !(key in meta)) meta[key] = decodeEntities(content)
+    }
+
+    let favicon: string | undefined
+    for (const [tag] of html.matchAll(/<link\b[^>]*>/gi)) {
+        const rel = attribute(tag, 'rel')?.toLowerCase().split(/\s+/) ?? []
+        const href = attribute(tag, 'href')
+        if (href && rel.includes('icon')) {
+            favicon = resolveUrl(decodeEntities(href), url)
+            break
+        }
+    }
+
+    const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1]
+    const image = meta['og:image'] ?? meta['twitter:image']
+
+    return {
+        url,
+        title: meta['og:title'] || (title ? decodeEntities(title) : '') || fallback.title,
+        description: meta['og:description'] ?? meta['description'],
+        image: image ? resolveUrl(image, url) : undefined,
+        favicon: favicon ?? fallback.favicon,
+        siteName: meta['og:site_name'] ?? fallback.siteName
+    }
+}
+
+function isPrivateIPv4(address: string): boolean {
+    const [a, b] = address.split('.').map(Number)
+    if (a === 0 || a === 10 || a === 127 || a >= 224) return true // "This" network, private, loopback, multicast and reserved
+    if (a === 169 && b === 254) return true // Link-local, including cloud metadata endpoints
+    if (a === 172 && b >= 16 && b <= 31) return true
+    if (a === 192 && b === 168) return true
+    if (a === 100 && b >= 64 && b <= 127) return true // Carrier-grade NAT
+    return false
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not on the public
+ * internet. Anything that doesn't parse as an address counts as private.
+ */
+export function isPrivateAddress(address: string): boolean {
+    const ip = address.toLowerCase().replace(/^\[|\]$/g, '')
+    if (/^\d+\.\d+\.\d+\.\d+$/.test(ip)) return isPrivateIPv4(ip)
+    if (!ip.includes(':')) return true
+
+    // IPv4-mapped and -compatible addresses reach the IPv4 host
+    const embedded = ip.match(/^::(?:ffff:)?(\d+\.\d+\.\d+\.\d+)$/)
+    if (embedded) return isPrivateIPv4(embedded[1])
+    const mapped = ip.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/)
+    if (mapped) {
+        const high = parseInt(mapped[1], 16)
+        return isPrivateIPv4(`${high >> 8}.${high & 255}.0.0`)
+    }
+
+    if (ip === '::' || ip === '::1') return true
+    // Unique local (fc00::/7), link-local (fe80::/10) and multicast (ff00::/8)
+    return /^f[cd][0-9a-f]{0,2}:|^fe[89ab][0-9a-f]?:|^ff[0-9a-f]{0,2}:/.test(ip)
+}
+
+/**
+ * Whether the server may fetch a URL, judged from the URL alone: http(s), not a local name
+ * and not a private address literal. Names can still resolve to private addresses, which
+ * unfurlFetch checks when it connects.
+ */
+export function isUnfurlableUrl(url: string): boolean {
+    let parsed: URL
+    try {
+        parsed = new URL(url)
+    } catch {
+        return false
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return false
+
+    const host = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, '')
+    if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) return false
+    if (host.includes(':') || /^\d+\.\d+\.\d+\.\d+$/.test(host)) return !isPrivateAddress(host)
+    return true
+}
+
+/**
+ * The card for a link from the browser: asks the unfurl route and falls back to the URL alone
+ * when it can't answer (offline, or a page that refused).
+ */
+export async function loadUnfurl(url: string): Promise<LinkUnfurl> {
+    try {
+        // The route only fetches for signed-in users (when there are accounts)
+        const { data } = await supabase.auth.getSession()
+        const token = data.session?.access_token
+        const response = await fetch(`/api/unfurl?url=${encodeURIComponent(url)}`, {
+            headers: token ? { authorization: `Bearer ${token}` } : undefined
+        })
+        if (response.ok) return await response.json()
+    } catch (error) {
+        console.error('Error loading link preview:', error)
+    }
+    return fallbackUnfurl(url)
+}
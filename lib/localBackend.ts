@@ -0,0 +1,854 @@
+import { LOCAL_SCHEMA, TableDef } from './localSchema'
+
+// In-memory stand-in for the Supabase client, optionally persisted to localStorage.
+// It implements the part of the query builder, realtime, storage and auth API the app uses,
+// and enforces the schema's constraints (not null, unique, foreign keys with their ON DELETE
+// actions, the row version trigger) so the app behaves the same as against Postgres.
+
+type Row = Record<string, unknown>
+type Tables = Record<string, Row[]>
+
+export interface LocalError {
+    message: string
+    code: string
+    details: string | null
+    hint: string | null
+}
+
+interface QueryResult {
+    data: unknown
+    error: LocalError | null
+    count: number | null
+    status: number
+    statusText: string
+}
+
+type ChangeEvent = 'INSERT' | 'UPDATE' | 'DELETE'
+
+interface ChangePayload {
+    schema: 'public'
+    table: string
+    commit_timestamp: string
+    eventType: ChangeEvent
+    new: Row
+    old: Row
+    errors: null
+}
+
+export interface LocalBackendOptions {
+    // Persist tables and uploaded files to localStorage (defaults to true in the browser)
+    persist?: boolean
+    storageKey?: string
+    // Rows to start from when nothing is persisted yet
+    seed?: Partial<Tables>
+}
+
+class LocalQueryError extends Error {
+    constructor(public readonly detail: LocalError, public readonly status = 400) {
+        super(detail.message)
+    }
+}
+
+function fail(code: string, message: string, details: string | null = null, status = 400): never {
+    throw new LocalQueryError({ code, message, details, hint: null }, status)
+}
+
+function clone<T>(value: T): T {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value))
+}
+
+function emptyTables(): Tables {
+    return Object.fromEntries(Object.keys(LOCAL_SCHEMA).map(table => [table, []]))
+}
+
+function tableDef(table: string): TableDef {
+    const def = LOCAL_SCHEMA[table]
+    if (!def) fail('42P01', `relation "public.${table}" does not exist`, null, 404)
+    return def
+}
+
+function keyOf(row: Row, columns: string[]): string {
+    return JSON.stringify(columns.map(column => row[column] ?? null))
+}
+
+function pickKey(def: TableDef, row: Row): Row {
+    return Object.fromEntries(def.primaryKey.map(column => [column, row[column]]))
+}
+
+// ============================================
+// VALUES - Comparison and filtering
+// ============================================
+
+function looselyEqual(a: unknown, b: unknown): boolean {
+    if (a === b) return true
+    if (a === null || a === undefined || b === null || b === undefined) return false
+    if (typeof a === 'object' || typeof b === 'object') return JSON.stringify(a) === JSON.stringify(b)
+    return String(a) === String(b)
+}
+
+function compareValues(a: unknown, b: unknown): number {
+    if (typeof a === 'number' && typeof b === 'number') return a - b
+    if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b)
+    const left = String(a)
+    const right = String(b)
+    return left < right ? -1 : left > right ? 1 : 0
+}
+
+function likePattern(pattern: string, caseInsensitive: boolean): RegExp {
+    const source = pattern
+        .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+        .replace(/%/g, '[\\s\\S]*')
+        .replace(/_/g, '[\\s\\S]')
+    return new RegExp(`^${source}$`, caseInsensitive ? 'i' : '')
+}
+
+type Filter = (row: Row) => boolean
+
+function buildFilter(column: string, operator: string, value: unknown): Filter {
+    const present = (row: Row) => row[column] !== null && row[column] !== undefined
+
+    switch (operator) {
+        case 'eq': return row => looselyEqual(row[column], value)
+        case 'neq': return row => present(row) && !looselyEqual(row[column], value)
+        case 'gt': return row => present(row) && compareValues(row[column], value) > 0
+        case 'gte': return row => present(row) && compareValues(row[column], value) >= 0
+        case 'lt': return row => present(row) && compareValues(row[column], value) < 0
+        case 'lte': return row => present(row) && compareValues(row[column], value) <= 0
+        case 'like': return row => present(row) && likePattern(String(value), false).test(String(row[column]))
+        case 'ilike': return row => present(row) && likePattern(String(value), true).test(String(row[column]))
+        case 'is': return row => (row[column] ?? null) === value
+        case 'in': return row => (value as unknown[]).some(candidate => looselyEqual(row[column], candidate))
+        case 'cs': return row => {
+            const current = row[column]
+            return Array.isArray(current) && (value as unknown[]).every(item => current.some(existing => looselyEqual(existing, item)))
+        }
+        default: return fail('PGRST100', `Unsupported filter operator "${operator}" in the local backend`)
+    }
+}
+
+// ============================================
+// SELECT - Column lists and embedded relations
+// ============================================
+
+interface SelectField {
+    column: string
+    alias: string
+    embed?: SelectField[]
+}
+
+function splitTopLevel(list: string): string[] {
+    const parts: string[] = []
+    let depth = 0
+    let current = ''
+    for (const char of list) {
+        if (char === '(') depth++
+        if (char === ')') depth--
+        if (char === ',' && depth === 0) {
+            parts.push(current)
+            current = ''
+        } else {
+            current += char
+        }
+    }
+    parts.push(current)
+    return parts.map(part => part.trim()).filter(Boolean)
+}
+
+function parseSelect(columns: string): SelectField[] {
+    return splitTopLevel(columns).map(part => {
+        const embedMatch = part.match(/^(?:(\w+):)?\s*(\w+)(?:!\w+)?\s*\(([\s\S]*)\)$/)
+        if (embedMatch) {
+            const [, alias, relation, inner] = embedMatch
+            return { column: relation, alias: alias ?? relation, embed: parseSelect(inner) }
+        }
+        const [alias, column] = part.includes(':') ? part.split(':').map(s => s.trim()) : [part, part]
+        return { column, alias }
+    })
+}
+
+// ============================================
+// DATABASE - Tables, constraints and change events
+// ============================================
+
+type Listener = (payload: ChangePayload) => void
+
+class LocalDatabase {
+    tables: Tables
+    private listeners = new Set<Listener>()
+    private pending: ChangePayload[] = []
+
+    constructor(private readonly storageKey: string | null, seed: Partial<Tables> = {}) {
+        this.tables = { ...emptyTables(), ...clone(seed) as Tables, ...this.load() }
+
+        // Writes from another tab arrive as realtime events, as they would from another client
+        if (storageKey && typeof window !== 'undefined') {
+            window.addEventListener('storage', event => {
+                if (event.key === storageKey) this.reloadFromStorage()
+            })
+        }
+    }
+
+    private load(): Tables {
+        if (!this.storageKey) return {}
+        try {
+            const stored = localStorage.getItem(this.storageKey)
+            return stored ? JSON.parse(stored) : {}
+        } catch (error) {
+            console.error('Error loading local database:', error)
+            return {}
+        }
+    }
+
+    private reloadFromStorage() {
+        const next = { ...emptyTables(), ...this.load() }
+        for (const table of Object.keys(LOCAL_SCHEMA)) {
+            const def = LOCAL_SCHEMA[table]
+            const before = new Map(this.tables[table].map(row => [keyOf(row, def.primaryKey), row]))
+            const after = new Map(next[table].map(row => [keyOf(row, def.primaryKey), row]))
+
+            after.forEach((row, key) => {
+                const previous = before.get(key)
+                if (!previous) this.record(table, 'INSERT', row, {})
+                else if (JSON.stringify(previous) !== JSON.stringify(row)) this.record(table, 'UPDATE', row, pickKey(def, row))
+            })
+            before.forEach((row, key) => {
+                if (!after.has(key)) this.record(table, 'DELETE', {}, pickKey(def, row))
+            })
+        }
+        this.tables = next
+        this.flush()
+    }
+
+    private save() {
+        if (!this.storageKey) return
+        try {
+            localStorage.setItem(this.storageKey, JSON.stringify(this.tables))
+        } catch (error) {
+            console.error('Error saving local database:', error)
+        }
+    }
+
+    subscribe(listener: Listener): () => void {
+        this.listeners.add(listener)
+        return () => this.listeners.delete(listener)
+    }
+
+    record(table: string, eventType: ChangeEvent, newRow: Row, oldRow: Row) {
+        this.pending.push({
+            schema: 'public',
+            table,
+            commit_timestamp: new Date().toISOString(),
+            eventType,
+            new: clone(newRow),
+            old: clone(oldRow),
+            errors: null
+        })
+    }
+
+    // Delivered asynchronously, like events coming back over the realtime socket
+    private flush() {
+        const events = this.pending
+        this.pending = []
+        if (events.length === 0) return
+        setTimeout(() => {
+            events.forEach(event => this.listeners.forEach(listener => listener(event)))
+        }, 0)
+    }
+
+    /**
+     * Runs one statement atomically: on error every table is restored and no events are sent.
+     * Rows are never mutated in place, so copying the table arrays is enough for a rollback.
+     */
+    transaction<T>(run: () => T): T {
+        const snapshot = Object.fromEntries(Object.entries(this.tables).map(([table, rows]) => [table, [...rows]]))
+        try {
+            const result = run()
+            this.save()
+            this.flush()
+            return result
+        } catch (error) {
+            this.tables = snapshot
+            this.pending = []
+            throw error
+        }
+    }
+
+    // --- Constraints -------------------------------------------------------
+
+    private checkColumns(table: string, row: Row) {
+        const def = tableDef(table)
+        for (const column of Object.keys(row)) {
+            if (!(column in def.columns)) {
+                fail('PGRST204', `Could not find the '${column}' column of '${table}' in the schema cache`)
+            }
+        }
+    }
+
+    private checkRow(table: string, row: Row, ignore?: Row) {
+        const def = tableDef(table)
+
+        for (const [column, columnDef] of Object.entries(def.columns)) {
+            if (columnDef.notNull && (row[column] === null || row[column] === undefined)) {
+                fail('23502', `null value in column "${column}" of relation "${table}" violates not-null constraint`)
+            }
+            const reference = columnDef.references
+            if (reference && row[column] !== null && row[column] !== undefined) {
+                const exists = this.tables[reference.table].some(candidate => looselyEqual(candidate[reference.column], row[column]))
+                if (!exists) {
+                    fail(
+                        '23503',
+                        `insert or update on table "${table}" violates foreign key constraint "${table}_${column}_fkey"`,
+                        `Key (${column})=(${row[column]}) is not present in table "${reference.table}".`
+                    )
+                }
+            }
+        }
+
+        const constraints = [def.primaryKey, ...(def.unique ?? [])]
+        for (const columns of constraints) {
+            const key = keyOf(row, columns)
+            const clash = this.tables[table].some(existing => existing !== ignore && keyOf(existing, columns) === key)
+            if (clash) {
+                const name = columns === def.primaryKey ? `${table}_pkey` : `${table}_${columns.join('_')}_key`
+                fail('23505', `duplicate key value violates unique constraint "${name}"`, `Key (${columns.join(', ')}) already exists.`, 409)
+            }
+        }
+    }
+
+    // --- Writes ------------------------------------------------------------
+
+    insertRow(table: string, values: Row): Row {
+        const def = tableDef(table)
+        this.checkColumns(table, values)
+
+        const row: Row = {}
+        for (const [column, columnDef] of Object.entries(def.columns)) {
+            if (values[column] !== undefined) row[column] = clone(values[column])
+            else row[column] = columnDef.default ? columnDef.default() : null
+        }
+
+        this.checkRow(table, row)
+        this.tables[table] = [...this.tables[table], row]
+        this.record(table, 'INSERT', row, {})
+        return row
+    }
+
+    updateRow(table: string, existing: Row, values: Row): Row {
+        const def = tableDef(table)
+        this.checkColumns(table, values)
+
+        const row: Row = { ...existing }
+        for (const [column, value] of Object.entries(values)) {
+            if (value !== undefined) row[column] = clone(value)
+        }
+
+        // bump_row_version: writers that don't pass a newer version still advance it
+        if (def.versioned) {
+            const previous = Number(existing.version ?? 0)
+            if (row.version === null || row.version === undefined || Number(row.version) <= previous) {
+                row.version = previous + 1
+            }
+            row.updated_at = new Date().toISOString()
+        }
+
+        this.checkRow(table, row, existing)
+        this.tables[table] = this.tables[table].map(candidate => candidate === existing ? row : candidate)
+        this.record(table, 'UPDATE', row, pickKey(def, existing))
+        return row
+    }
+
+    deleteRow(table: string, existing: Row) {
+        const def = tableDef(table)
+        if (!this.tables[table].includes(existing)) return // Already removed by a cascade
+
+        this.tables[table] = this.tables[table].filter(candidate => candidate !== existing)
+        this.record(table, 'DELETE', {}, pickKey(def, existing))
+
+        // Apply ON DELETE actions of every foreign key pointing at this table
+        for (const [childTable, childDef] of Object.entries(LOCAL_SCHEMA)) {
+            for (const [column, columnDef] of Object.entries(childDef.columns)) {
+                const reference = columnDef.references
+                if (!reference || reference.table !== table) continue
+
+                const dependents = this.tables[childTable].filter(row => looselyEqual(row[column], existing[reference.column]))
+                for (const dependent of dependents) {
+                    if (reference.onDelete === 'cascade') {
+                        this.deleteRow(childTable, dependent)
+                    } else if (reference.onDelete === 'set null') {
+                        this.updateRow(childTable, dependent, { [column]: null })
+                    } else {
+                        fail(
+                            '23503',
+                            `update or delete on table "${table}" violates foreign key constraint "${childTable}_${column}_fkey" on table "${childTable}"`,
+                            `Key (${reference.column})=(${existing[reference.column]}) is still referenced from table "${childTable}".`
+                        )
+                    }
+                }
+            }
+        }
+    }
+
+    // --- Reads -------------------------------------------------------------
+
+    project(table: string, row: Row, fields: SelectField[]): Row {
+        const result: Row = {}
+        for (const field of fields) {
+            if (field.column === '*') {
+                Object.assign(result, clone(row))
+            } else if (field.embed) {
+                result[field.alias] = this.embed(table, row, field)
+            } else {
+                if (!(field.column in tableDef(table).columns)) {
+                    fail('42703', `column ${table}.${field.column} does not exist`)
+                }
+                result[field.alias] = clone(row[field.column])
+            }
+        }
+        return result
+    }
+
+    // Resolves `relation (columns)` through a foreign key in either direction
+    private embed(table: string, row: Row, field: SelectField): unknown {
+        const related = field.column
+        const relatedDef = tableDef(related)
+
+        const outgoing = Object.entries(tableDef(table).columns).find(([, def]) => def.references?.table === related)
+        if (outgoing) {
+            const [column, def] = outgoing
+            const target = this.tables[related].find(candidate => looselyEqual(candidate[def.references!.column], row[column]))
+            return target ? this.project(related, target, field.embed!) : null
+        }
+
+        const incoming = Object.entries(relatedDef.columns).find(([, def]) => def.references?.table === table)
+        if (incoming) {
+            const [column, def] = incoming
+            return this.tables[related]
+                .filter(candidate => looselyEqual(candidate[column], row[def.references!.column]))
+                .map(candidate => this.project(related, candidate, field.embed!))
+        }
+
+        return fail('PGRST200', `Could not find a relationship between '${table}' and '${related}' in the schema cache`)
+    }
+}
+
+// ============================================
+// QUERY BUILDER - Mirrors the PostgREST builder
+// ============================================
+
+type Action = 'select' | 'insert' | 'update' | 'upsert' | 'delete'
+
+interface Order {
+    column: string
+    ascending: boolean
+    nullsFirst: boolean
+}
+
+class LocalQuery implements PromiseLike<QueryResult> {
+    private action: Action = 'select'
+    private columns = '*'
+    private returning = false
+    private values: Row | Row[] = {}
+    private filters: Filter[] = []
+    private orders: Order[] = []
+    private rangeStart = 0
+    private rangeEnd: number | null = null
+    private expect: 'many' | 'single' | 'maybeSingle' = 'many'
+    private conflictColumns: string[] | null = null
+    private ignoreDuplicates = false
+    private defaultToNull = true
+    private countRows = false
+    private headOnly = false
+
+    constructor(private readonly db: LocalDatabase, private readonly table: string) { }
+
+    select(columns = '*', options: { count?: 'exact' | 'planned' | 'estimated', head?: boolean } = {}) {
+        this.columns = columns
+        if (this.action === 'select') {
+            this.countRows = !!options.count
+            this.headOnly = !!options.head
+        } else {
+            this.returning = true
+        }
+        return this
+    }
+
+    insert(values: Row | Row[], options: { defaultToNull?: boolean } = {}) {
+        this.action = 'insert'
+        this.values = values
+        this.defaultToNull = options.defaultToNull ?? true
+        return this
+    }
+
+    upsert(values: Row | Row[], options: { onConflict?: string, ignoreDuplicates?: boolean, defaultToNull?: boolean } = {}) {
+        this.action = 'upsert'
+        this.values = values
+        this.conflictColumns = options.onConflict ? options.onConflict.split(',').map(column => column.trim()) : null
+        this.ignoreDuplicates = !!options.ignoreDuplicates
+        this.defaultToNull = options.defaultToNull ?? true
+        return this
+    }
+
+    update(values: Row) {
+        this.action = 'update'
+        this.values = values
+        return this
+    }
+
+    delete() {
+        this.action = 'delete'
+        return this
+    }
+
+    // --- Filters -----------------------------------------------------------
+
+    filter(column: string, operator: string, value: unknown) {
+        this.filters.push(buildFilter(column, operator, value))
+        return this
+    }
+
+    eq(column: string, value: unknown) { return this.filter(column, 'eq', value) }
+    neq(column: string, value: unknown) { return this.filter(column, 'neq', value) }
+    gt(column: string, value: unknown) { return this.filter(column, 'gt', value) }
+    gte(column: string, value: unknown) { return this.filter(column, 'gte', value) }
+    lt(column: string, value: unknown) { return this.filter(column, 'lt', value) }
+    lte(column: string, value: unknown) { return this.filter(column, 'lte', value) }
+    like(column: string, pattern: string) { return this.filter(column, 'like', pattern) }
+    ilike(column: string, pattern: string) { return this.filter(column, 'ilike', pattern) }
+    is(column: string, value: boolean | null) { return this.filter(column, 'is', value) }
+    in(column: string, values: unknown[]) { return this.filter(column, 'in', values) }
+    contains(column: string, values: unknown[]) { return this.filter(column, 'cs', values) }
+
+    match(query: Row) {
+        Object.entries(query).forEach(([column, value]) => this.eq(column, value))
+        return this
+    }
+
+    not(column: string, operator: string, value: unknown) {
+        const inner = buildFilter(column, operator, value)
+        this.filters.push(row => row[column] !== null && row[column] !== undefined && !inner(row))
+        return this
+    }
+
+    // --- Modifiers ---------------------------------------------------------
+
+    order(column: string, options: { ascending?: boolean, nullsFirst?: boolean } = {}) {
+        const ascending = options.ascending ?? true
+        // Postgres puts nulls last when ascending and first when descending
+        this.orders.push({ column, ascending, nullsFirst: options.nullsFirst ?? !ascending })
+        return this
+    }
+
+    limit(count: number) {
+        this.rangeEnd = this.rangeStart + count - 1
+        return this
+    }
+
+    range(from: number, to: number) {
+        this.rangeStart = from
+        this.rangeEnd = to
+        return this
+    }
+
+    single() {
+        this.expect = 'single'
+        return this
+    }
+
+    maybeSingle() {
+        this.expect = 'maybeSingle'
+        return this
+    }
+
+    // --- Execution ---------------------------------------------------------
+
+    then<TResult1 = QueryResult, TResult2 = never>(
+        onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+        onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+    ): PromiseLike<TResult1 | TResult2> {
+        return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected)
+    }
+
+    private matching(): Row[] {
+        return this.db.tables[this.table].filter(row => this.filters.every(filter => filter(row)))
+    }
+
+    // Bulk payloads use the union of keys as the column list, like PostgREST
+    private payloadRows(): Row[] {
+        const rows = Array.isArray(this.values) ? this.values : [this.values]
+        if (!Array.isArray(this.values) || !this.defaultToNull) return rows
+        const columns = new Set(rows.flatMap(row => Object.keys(row).filter(column => row[column] !== undefined)))
+        return rows.map(row => Object.fromEntries([...columns].map(column => [column, row[column] ?? null])))
+    }
+
+    private run(): Row[] {
+        switch (this.action) {
+            case 'select': {
+                const rows = [...this.matching()]
+                if (this.orders.length > 0) {
+                    rows.sort((a, b) => {
+                        for (const { column, ascending, nullsFirst } of this.orders) {
+                            const left = a[column] ?? null
+                            const right = b[column] ?? null
+                            if (left === right) continue
+                            if (left === null) return nullsFirst ? -1 : 1
+                            if (right === null) return nullsFirst ? 1 : -1
+                            const result = compareValues(left, right)
+                            if (result !== 0) return ascending ? result : -result
+                        }
+                        return 0
+                    })
+                }
+                return rows
+            }
+            case 'insert':
+                return this.payloadRows().map(row => this.db.insertRow(this.table, row))
+            case 'upsert': {
+                const def = tableDef(this.table)
+                const conflict = this.conflictColumns ?? def.primaryKey
+                const written: Row[] = []
+                for (const row of this.payloadRows()) {
+                    const key = keyOf(row, conflict)
+                    const existing = this.db.tables[this.table].find(candidate => keyOf(candidate, conflict) === key)
+                    if (!existing) written.push(this.db.insertRow(this.table, row))
+                    else if (!this.ignoreDuplicates) written.push(this.db.updateRow(this.table, existing, row))
+                }
+                return written
+            }
+            case 'update':
+                return this.matching().map(row => this.db.updateRow(this.table, row, this.values as Row))
+            case 'delete': {
+                const rows = this.matching()
+                rows.forEach(row => this.db.deleteRow(this.table, row))
+                return rows
+            }
+        }
+    }
+
+    private execute(): QueryResult {
+        try {
+            const rows = this.db.transaction(() => this.run())
+            const count = this.countRows ? rows.length : null
+            const end = this.rangeEnd === null ? rows.length : this.rangeEnd + 1
+            const fields = parseSelect(this.columns)
+            const data = this.action === 'select' || this.returning
+                ? rows.slice(this.rangeStart, end).map(row => this.db.project(this.table, row, fields))
+                : null
+            const status = this.action === 'insert' || this.action === 'upsert' ? 201 : this.returning || this.action === 'select' ? 200 : 204
+
+            if (this.headOnly) return { data: null, error: null, count, status, statusText: 'OK' }
+
+            if (this.expect !== 'many' && data) {
+                if (data.length > 1 || (data.length === 0 && this.expect === 'single')) {
+                    return {
+                        data: null,
+                        error: {
+                            code: 'PGRST116',
+                            message: 'JSON object requested, multiple (or no) rows returned',
+                            details: `The result contains ${data.length} rows`,
+                            hint: null
+                        },
+                        count,
+                        status: 406,
+                        statusText: 'Not Acceptable'
+                    }
+                }
+                return { data: data[0] ?? null, error: null, count, status: 200, statusText: 'OK' }
+            }
+
+            return { data, error: null, count, status, statusText: 'OK' }
+        } catch (error) {
+            if (!(error instanceof LocalQueryError)) throw error
+            return { data: null, error: error.detail, count: null, status: error.status, statusText: 'Error' }
+        }
+    }
+}
+
+// ============================================
+// REALTIME - Channels fed by the local database
+// ============================================
+
+interface ChangeBinding {
+    event: string
+    table?: string
+    filter?: Filter
+    callback: (payload: ChangePayload) => void
+}
+
+class LocalChannel {
+    private bindings: ChangeBinding[] = []
+    private unsubscribe: (() => void) | null = null
+
+    constructor(private readonly db: LocalDatabase, readonly topic: string) { }
+
+    on(type: string, options: { event: string, schema?: string, table?: string, filter?: string }, callback: (payload: ChangePayload) => void) {
+        if (type !== 'postgres_changes') return this
+
+        let filter: Filter | undefined
+        if (options.filter) {
+            const match = options.filter.match(/^(\w+)=(\w+)\.(.*)$/)
+            if (!match) fail('PGRST100', `Unsupported realtime filter "${options.filter}"`)
+            const [, column, operator, value] = match
+            filter = buildFilter(column, operator, operator === 'in' ? value.replace(/^\(|\)$/g, '').split(',') : value)
+        }
+
+        this.bindings.push({ event: options.event, table: options.table, filter, callback })
+        return this
+    }
+
+    subscribe(callback?: (status: string) => void) {
+        if (!this.unsubscribe) {
+            this.unsubscribe = this.db.subscribe(payload => {
+                for (const binding of this.bindings) {
+                    if (binding.event !== '*' && binding.event !== payload.eventType) continue
+                    if (binding.table && binding.table !== payload.table) continue
+                    const row = payload.eventType === 'DELETE' ? payload.old : payload.new
+                    if (binding.filter && !binding.filter(row)) continue
+                    binding.callback(payload)
+                }
+            })
+        }
+        callback?.('SUBSCRIBED')
+        return this
+    }
+
+    async unsubscribeChannel() {
+        this.unsubscribe?.()
+        this.unsubscribe = null
+        return 'ok' as const
+    }
+}
+
+// ============================================
+// STORAGE - Uploaded files kept as data URLs
+// ============================================
+
+async function toDataUrl(file: Blob): Promise<string> {
+    const bytes = new Uint8Array(await file.arrayBuffer())
+    let binary = ''
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+    }
+    return `data:${file.type || 'application/octet-stream'};base64,${btoa(binary)}`
+}
+
+function createLocalStorageApi(storageKey: string | null) {
+    const filesKey = storageKey ? `${storageKey}:files` : null
+    let files: Record<string, string> = {}
+    if (filesKey) {
+        try {
+            files = JSON.parse(localStorage.getItem(filesKey) ?? '{}')
+        } catch (error) {
+            console.error('Error loading local files:', error)
+        }
+    }
+
+    const save = () => {
+        if (!filesKey) return
+        try {
+            localStorage.setItem(filesKey, JSON.stringify(files))
+        } catch (error) {
+            // Over quota: files stay available until the page is reloaded
+            console.error('Error saving local files:', error)
+        }
+    }
+
+    return {
+        from(bucket: string) {
+            const pathOf = (path: string) => `${bucket}/${path}`
+            return {
+                async upload(path: string, file: Blob, options: { upsert?: boolean } = {}) {
+                    if (files[pathOf(path)] && !options.upsert) {
+                        return { data: null, error: { name: 'StorageApiError', message: 'The resource already exists', statusCode: '409' } }
+                    }
+                    files[pathOf(path)] = await toDataUrl(file)
+                    save()
+                    return { data: { id: pathOf(path), path, fullPath: pathOf(path) }, error: null }
+                },
+                getPublicUrl(path: string) {
+                    return { data: { publicUrl: files[pathOf(path)] ?? '' } }
+                },
+                async download(path: string) {
+                    const url = files[pathOf(path)]
+                    if (!url) return { data: null, error: { name: 'StorageApiError', message: 'Object not found', statusCode: '404' } }
+                    return { data: await (await fetch(url)).blob(), error: null }
+                },
+                async remove(paths: string[]) {
+                    const removed = paths.filter(path => pathOf(path) in files)
+                    removed.forEach(path => { delete files[pathOf(path)] })
+                    save()
+                    return { data: removed.map(path => ({ name: path, bucket_id: bucket })), error: null }
+                }
+            }
+        }
+    }
+}
+
+// ============================================
+// BACKEND - Client-shaped entry point
+// ============================================
+
+const signInUnavailable = { message: 'Sign-in needs a Supabase project; the local backend has no accounts.', status: 400 }
+
+/**
+ * Creates a client that stores everything in memory (and localStorage in the browser)
+ * instead of talking to Supabase. Each call returns an independent database.
+ */
+export function createLocalBackend(options: LocalBackendOptions = {}) {
+    const persist = options.persist ?? typeof window !== 'undefined'
+    const storageKey = persist ? options.storageKey ?? 'planner-local-db' : null
+    const db = new LocalDatabase(storageKey, options.seed)
+    const channels = new Set<LocalChannel>()
+
+    return {
+        from: (table: string) => {
+            return new LocalQuery(db, table)
+        },
+
+        rpc: async (fn: string) => ({
+            data: null,
+            error: {
+                code: 'PGRST202',
+                message: `Could not find the function public.${fn} in the schema cache`,
+                details: 'Database functions are not available in the local backend.',
+                hint: null
+            } as LocalError,
+            count: null,
+            status: 404,
+            statusText: 'Not Found'
+        }),
+
+        channel: (topic: string) => {
+            const channel = new LocalChannel(db, topic)
+            channels.add(channel)
+            return channel
+        },
+
+        removeChannel: async (channel: LocalChannel) => {
+            channels.delete(channel)
+            return channel.unsubscribeChannel()
+        },
+
+        removeAllChannels: async () => {
+            const removed = await Promise.all([...channels].map(channel => channel.unsubscribeChannel()))
+            channels.clear()
+            return removed
+        },
+
+        storage: createLocalStorageApi(storageKey),
+
+        auth: {
+            getSession: async () => ({ data: { session: null }, error: null }),
+            getUser: async () => ({ data: { user: null }, error: null }),
+            onAuthStateChange: () => ({ data: { subscription: { unsubscribe: () => { } } } }),
+            signInWithPassword: async () => ({ data: { user: null, session: null }, error: signInUnavailable }),
+            signUp: async () => ({ data: { user: null, session: null }, error: signInUnavailable }),
+            signInWithOtp: async () => ({ data: { user: null, session: null }, error: signInUnavailable }),
+            signOut: async () => ({ error: null }),
+        },
+
+        // Direct access for tests and debugging
+        dump: (): Tables => clone(db.tables),
+    }
+}
+
+export type LocalBackend = ReturnType<typeof createLocalBackend>
@@ -0,0 +1,325 @@
+import { generateUUID } from './uuid'
+
+// Table definitions for the local backend, mirroring supabase/migrations.
+// Keep this in step with every migration that adds a table or column: the local backend
+// rejects unknown columns the same way PostgREST does, so a missing entry shows up right away.
+
+export type OnDelete = 'cascade' | 'set null' | 'restrict'
+
+export interface ColumnDef {
+    notNull?: boolean
+    default?: () => unknown
+    references?: { table: string, column: string, onDelete: OnDelete }
+}
+
+export interface TableDef {
+    primaryKey: string[]
+    columns: Record<string, ColumnDef>
+    unique?: string[][]
+    // Emulates the bump_row_version trigger
+    versioned?: boolean
+}
+
+const uuid = (): ColumnDef => ({ notNull: true, default: generateUUID })
+const now = (): ColumnDef => ({ notNull: true, default: () => new Date().toISOString() })
+const text = (): ColumnDef => ({})
+const required = (): ColumnDef => ({ notNull: true })
+const withDefault = (value: unknown): ColumnDef => ({ notNull: true, default: () => value })
+const parent = (table: string, onDelete: OnDelete = 'cascade'): ColumnDef => ({
+    notNull: true,
+    references: { table, column: 'id', onDelete }
+})
+
+// Ownership, versioning and trash columns added by later migrations
+const owned = { user_id: text() }
+const versioned = { version: withDefault(1), updated_at: now() }
+const trashable = { deleted_at: text() }
+// Where an uploaded attachment lives in the attachments bucket
+const stored = { storage_path: text(), thumbnail_url: text(), mime_type: text(), size_bytes: text() }
+
+export const LOCAL_SCHEMA: Record<string, TableDef> = {
+    // Plans
+    plans: {
+        primaryKey: ['id'],
+        versioned: true,
+        columns: {
+            id: uuid(),
+            title: required(),
+            description: text(),
+            date: required(),
+            has_due_date: withDefault(false),
+            due_date: text(),
+            completed: withDefault(false),
+            recurrence_rule: text(),
+            created_at: now(),
+            ...versioned,
+            ...owned,
+            ...trashable
+        }
+    },
+    plan_time_slots: {
+        primaryKey: ['id'],
+        columns: { id: uuid(), plan_id: parent('plans'), time: required(), description: withDefault('') }
+    },
+    plan_attachments: {
+        primaryKey: ['id'],
+        columns: { id: uuid(), plan_id: parent('plans'), type: required(), name: required(), url: required(), ...stored }
+    },
+    plan_exceptions: {
+        primaryKey: ['id'],
+        unique: [['plan_id', 'occurrence_date']],
+        columns: {
+            id: uuid(),
+            plan_id: parent('plans'),
+            occurrence_date: required(),
+            cancelled: withDefault(false),
+            completed: withDefault(false),
+            title: text(),
+            description: text(),
+            time_slots: text()
+        }
+    },
+    plan_checklist_items: {
+        primaryKey: ['id'],
+        columns: { id: uuid(), plan_id: parent('plans'), text: required(), completed: withDefault(false) }
+    },
+    plan_comments: {
+        primaryKey: ['id'],
+        columns: {
+            id: uuid(),
+            plan_id: parent('plans'),
+            text: required(),
+            is_marked_done: withDefault(false),
+            created_at: now()
+        }
+    },
+
+    // Kanban
+    workspaces: {
+        primaryKey: ['id'],
+        columns: { id: uuid(), name: required(), owner_id: required(), created_at: now() }
+    },
+    workspace_members: {
+        primaryKey: ['workspace_id', 'user_id'],
+        columns: {
+            workspace_id: parent('workspaces'),
+            user_id: required(),
+            role: required(),
+            email: required(),
+            display_name: text(),
+            avatar_url: text(),
+            created_at: now()
+        }
+    },
+    workspace_invitations: {
+        primaryKey: ['id'],
+        unique: [['workspace_id', 'email']],
+        columns: {
+            id: uuid(),
+            workspace_id: parent('workspaces'),
+            email: required(),
+            role: required(),
+            invited_by: text(),
+            created_at: now()
+        }
+    },
+    kanban_cards: {
+        primaryKey: ['id'],
+        versioned: true,
+        columns: {
+            id: uuid(),
+            title: required(),
+            description: text(),
+            status: withDefault('inbox'),
+            start_date: text(),
+            end_date: text(),
+            linked_plan_id: { references: { table: 'plans', column: 'id', onDelete: 'set null' } },
+            position: withDefault(0),
+            created_at: now(),
+            workspace_id: { references: { table: 'workspaces', column: 'id', onDelete: 'cascade' } },
+            assignee_ids: { notNull: true, default: () => [] },
+            price: text(),
+            currency: text(),
+            project_name: text(),
+            ...versioned,
+            ...owned,
+            ...trashable
+        }
+    },
+    card_time_slots: {
+        primaryKey: ['id'],
+        columns: { id: uuid(), card_id: parent('kanban_cards'), time: required(), description: withDefault('') }
+    },
+    card_checklist_items: {
+        primaryKey: ['id'],
+        columns: { id: uuid(), card_id: parent('kanban_cards'), text: required(), completed: withDefault(false) }
+    },
+    card_comments: {
+        primaryKey: ['id'],
+        columns: {
+            id: uuid(),
+            card_id: parent('kanban_cards'),
+            text: required(),
+            is_marked_done: withDefault(false),
+            created_at: now()
+        }
+    },
+    card_attachments: {
+        primaryKey: ['id'],
+        columns: { id: uuid(), card_id: parent('kanban_cards'), type: required(), name: required(), url: required(), ...stored }
+    },
+    custom_sections: {
+        primaryKey: ['id'],
+        columns: {
+            id: uuid(),
+            title: required(),
+            color: withDefault('#64748B'),
+            position: withDefault(0),
+            created_at: now(),
+            workspace_id: { references: { table: 'workspaces', column: 'id', onDelete: 'cascade' } },
+            ...owned
+        }
+    },
+
+    // Goals
+    goals: {
+        primaryKey: ['id'],
+        versioned: true,
+        columns: {
+            id: uuid(),
+            title: required(),
+            description: text(),
+            goal_type: required(),
+            target_date: text(),
+            budget_target_amount: text(),
+            budget_current_amount: { default: () => 0 },
+            budget_currency: { default: () => 'PHP' },
+            created_at: now(),
+            ...versioned,
+            ...owned,
+            ...trashable
+        }
+    },
+    goal_checklist_items: {
+        primaryKey: ['id'],
+        columns: { id: uuid(), goal_id: parent('goals'), text: required(), completed: withDefault(false) }
+    },
+    goal_comments: {
+        primaryKey: ['id'],
+        columns: {
+            id: uuid(),
+            goal_id: parent('goals'),
+            text: required(),
+            is_marked_done: withDefault(false),
+            created_at: now()
+        }
+    },
+    goal_attachments: {
+        primaryKey: ['id'],
+        columns: { id: uuid(), goal_id: parent('goals'), type: required(), name: required(), url: required(), ...stored }
+    },
+
+    // Revenue and expenses
+    revenues: {
+        primaryKey: ['id'],
+        columns: {
+            id: uuid(),
+            name: required(),
+            description: text(),
+            project_name: withDefault(''),
+            price: withDefault(0),
+            currency: withDefault('PHP'),
+            date_completed: required(),
+            source_card_id: { references: { table: 'kanban_cards', column: 'id', onDelete: 'set null' } },
+            created_at: now(),
+            ...owned,
+            ...trashable
+        }
+    },
+    revenue_attachments: {
+        primaryKey: ['id'],
+        columns: { id: uuid(), revenue_id: parent('revenues'), type: required(), name: required(), url: required(), ...stored }
+    },
+    expenses: {
+        primaryKey: ['id'],
+        columns: {
+            id: uuid(),
+            description: required(),
+            amount: withDefault(0),
+            currency: withDefault('PHP'),
+            category: withDefault('Other'),
+            expense_date: required(),
+            project_name: text(),
+            receipt_name: text(),
+            receipt_url: text(),
+            created_at: now(),
+            ...owned,
+            ...trashable
+        }
+    },
+
+    // Exchange rates for converting revenue and budgets
+    exchange_rates: {
+        primaryKey: ['id'],
+        unique: [['user_id', 'from_currency', 'to_currency', 'rate_date']],
+        columns: {
+            id: uuid(),
+            from_currency: required(),
+            to_currency: required(),
+            rate: required(),
+            rate_date: required(),
+            created_at: now(),
+            ...owned
+        }
+    },
+
+    // Clients and invoices
+    clients: {
+        primaryKey: ['id'],
+        columns: {
+            id: uuid(),
+            name: required(),
+            email: text(),
+            phone: text(),
+            billing_address: text(),
+            created_at: now(),
+            ...owned
+        }
+    },
+    invoices: {
+        primaryKey: ['id'],
+        unique: [['user_id', 'number']],
+        columns: {
+            id: uuid(),
+            client_id: { references: { table: 'clients', column: 'id', onDelete: 'restrict' } },
+            number: required(),
+            status: withDefault('draft'),
+            issue_date: required(),
+            due_date: required(),
+            currency: withDefault('PHP'),
+            tax_rate: withDefault(0),
+            discount: withDefault(0),
+            notes: text(),
+            paid_at: text(),
+            created_at: now(),
+            ...owned
+        }
+    },
+    invoice_items: {
+        primaryKey: ['id'],
+        unique: [['revenue_id']],
+        columns: {
+            id: uuid(),
+            invoice_id: parent('invoices'),
+            revenue_id: parent('revenues'),
+            position: withDefault(0)
+        }
+    },
+
+    // Calendar feed tokens
+    calendar_feeds: {
+        primaryKey: ['user_id'],
+        unique: [['token']],
+        columns: { user_id: required(), token: required(), created_at: now() }
+    }
+}
@@ -0,0 +1,250 @@
+// Local persistence for offline use (IndexedDB on web).
+// Holds a snapshot of each data set so the app can render instantly on load,
+// and a queue of mutations made while offline that are replayed in order later.
+
+const DB_NAME = 'sdaily-planner'
+const DB_VERSION = 1
+const SNAPSHOT_STORE = 'snapshots'
+const QUEUE_STORE = 'mutations'
+
+export type SyncEntityType = 'plan' | 'card' | 'goal' | 'revenue' | 'exchangeRate' | 'client' | 'invoice' | 'expense'
+
+export interface QueuedMutation {
+    seq?: number // Assigned by IndexedDB, defines replay order
+    name: string // Name of the supabaseService function to call
+    args: unknown[]
+    entity: { type: SyncEntityType; id: string }
+    queuedAt: string
+    attempts?: number // Replays that failed while online, retried on the next replay
+    conflict?: boolean // The record was changed elsewhere; waits for the user to merge (see SyncConflicts)
+    abandoned?: boolean // Failed MAX_REPLAY_ATTEMPTS times; waits for the user to retry or discard it (see SyncFailures)
+}
+
+// Failed replays after which a mutation is no longer retried on its own
+export const MAX_REPLAY_ATTEMPTS = 5
+
+// What replaying one mutation did: saved, failed (kept for a retry), hit a newer server copy,
+// or never reached the server (replay stops there, as it does when the device goes offline)
+export type ReplayResult = 'saved' | 'failed' | 'conflict' | 'unreachable'
+
+let dbPromise: Promise<IDBDatabase | null> | null = null
+
+function openDb(): Promise<IDBDatabase | null> {
+    if (typeof indexedDB === 'undefined') return Promise.resolve(null)
+
+    if (!dbPromise) {
+        dbPromise = new Promise(resolve => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION)
+            request.onupgradeneeded = () => {
+                const db = request.result
+                if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+                    db.createObjectStore(SNAPSHOT_STORE)
+                }
+                if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+                    db.createObjectStore(QUEUE_STORE, { keyPath: 'seq', autoIncrement: true })
+                }
+            }
+            request.onsuccess = () => resolve(request.result)
+            request.onerror = () => {
+                console.error('Error opening offline store:', request.error)
+                resolve(null)
+            }
+        })
+    }
+    return dbPromise
+}
+
+// Runs a single request against a store, resolving null if IndexedDB is unavailable or fails
+async function withStore<T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | null> {
+    const db = await openDb()
+    if (!db) return null
+
+    return new Promise(resolve => {
+        const request = action(db.transaction(storeName, mode).objectStore(storeName))
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => {
+            console.error(`Offline store error (${storeName}):`, request.error)
+            resolve(null)
+        }
+    })
+}
+
+export function isOffline(): boolean {
+    return typeof navigator !== 'undefined' && navigator.onLine === false
+}
+
+// Requests that failed without reaching the server, counted by the Supabase client's fetch.
+// Comparing the count before and after a write tells a network failure from a rejected write.
+let networkFailures = 0
+
+export function reportNetworkFailure(): void {
+    networkFailures++
+}
+
+export function networkFailureCount(): number {
+    return networkFailures
+}
+
+// ============================================
+// SNAPSHOTS - Last known data per collection
+// ============================================
+
+export async function loadSnapshot<T>(key: string): Promise<T[] | null> {
+    return withStore<T[]>(SNAPSHOT_STORE, 'readonly', store => store.get(key))
+}
+
+export async function saveSnapshot<T>(key: string, data: T[]): Promise<void> {
+    await withStore(SNAPSHOT_STORE, 'readwrite', store => store.put(data, key))
+}
+
+// ============================================
+// MUTATION QUEUE
+// ============================================
+
+let queue: QueuedMutation[] = []
+let queueLoaded: Promise<void> | null = null
+let isReplaying = false
+const listeners = new Set<(pending: QueuedMutation[]) => void>()
+
+function notify() {
+    listeners.forEach(listener => listener(queue))
+}
+
+export function loadQueue(): Promise<void> {
+    if (!queueLoaded) {
+        queueLoaded = withStore<QueuedMutation[]>(QUEUE_STORE, 'readonly', store => store.getAll()).then(stored => {
+            queue = (stored || []).sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0))
+            notify()
+        })
+    }
+    return queueLoaded
+}
+
+export function subscribeToQueue(listener: (pending: QueuedMutation[]) => void): () => void {
+    listeners.add(listener)
+    listener(queue)
+    return () => {
+        listeners.delete(listener)
+    }
+}
+
+/**
+ * Stores a mutation for later replay and returns `result` as the optimistic outcome,
+ * so callers can keep treating the write as successful.
+ */
+export async function queueMutation<T>(name: string, args: unknown[], entity: QueuedMutation['entity'], result: T): Promise<T> {
+    await loadQueue()
+
+    const mutation: QueuedMutation = { name, args, entity, queuedAt: new Date().toISOString() }
+    const seq = await withStore<IDBValidKey>(QUEUE_STORE, 'readwrite', store => store.add(mutation))
+    queue = [...queue, { ...mutation, seq: typeof seq === 'number' ? seq : undefined }]
+    notify()
+
+    return result
+}
+
+function putMutation(mutation: QueuedMutation): Promise<IDBValidKey | null> {
+    return withStore<IDBValidKey>(QUEUE_STORE, 'readwrite', store => store.put(mutation))
+}
+
+function removeMutation(mutation: QueuedMutation): Promise<unknown> {
+    queue = queue.filter(m => m !== mutation)
+    return mutation.seq === undefined
+        ? Promise.resolve()
+        : withStore(QUEUE_STORE, 'readwrite', store => store.delete(mutation.seq!))
+}
+
+/**
+ * Replays queued mutations in order. Stops when connectivity drops again (or a request doesn't
+ * get through) so the rest stay queued. A mutation that fails or conflicts stays in the queue, and so does everything queued
+ * after it for the same record (to keep that record's writes in order); other records carry on.
+ * Failed mutations are retried on the next replay until they have failed MAX_REPLAY_ATTEMPTS
+ * times, then they are set aside for the user; conflicts wait until the user has merged them.
+ */
+export async function replayQueue(execute: (name: string, args: unknown[]) => Promise<ReplayResult>): Promise<void> {
+    await loadQueue()
+    if (isReplaying) return
+    isReplaying = true
+
+    try {
+        const held = new Set<string>()
+        for (const mutation of [...queue]) {
+            if (isOffline()) break
+            const key = pendingKey(mutation.entity.type, mutation.entity.id)
+            if (held.has(key) || mutation.conflict || mutation.abandoned) {
+                held.add(key)
+                continue
+            }
+
+            const result = await execute(mutation.name, mutation.args)
+            if (result === 'unreachable') break
+            if (result === 'saved') {
+                await removeMutation(mutation)
+            } else {
+                if (isOffline()) break
+                held.add(key)
+                const attempts = (mutation.attempts ?? 0) + 1
+                const kept: QueuedMutation = result === 'conflict'
+                    ? { ...mutation, conflict: true }
+                    : { ...mutation, attempts, abandoned: attempts >= MAX_REPLAY_ATTEMPTS }
+                console.error(`Keeping queued ${mutation.name} for ${mutation.entity.type} ${mutation.entity.id}: ${result === 'conflict' ? 'changed elsewhere' : kept.abandoned ? 'replay failed, giving up' : 'replay failed'}`)
+                queue = queue.map(m => m === mutation ? kept : m)
+                await putMutation(kept)
+            }
+            notify()
+        }
+    } finally {
+        isReplaying = false
+    }
+}
+
+/**
+ * Replaces the arguments of a conflicting mutation with the merged record, so the next
+ * replay saves it.
+ */
+export async function resolveQueuedConflict(seq: number, args: unknown[]): Promise<void> {
+    await loadQueue()
+    const mutation = queue.find(m => m.seq === seq)
+    if (!mutation) return
+
+    const resolved: QueuedMutation = { ...mutation, args, conflict: false, attempts: 0 }
+    queue = queue.map(m => m === mutation ? resolved : m)
+    await putMutation(resolved)
+    notify()
+}
+
+// Puts a mutation that was given up on back in line for the next replay
+export async function retryQueuedMutation(seq: number): Promise<void> {
+    await loadQueue()
+    const mutation = queue.find(m => m.seq === seq)
+    if (!mutation) return
+
+    const retried: QueuedMutation = { ...mutation, abandoned: false, attempts: 0 }
+    queue = queue.map(m => m === mutation ? retried : m)
+    await putMutation(retried)
+    notify()
+}
+
+// Drops a queued mutation without saving it; later writes to the same record replay as usual
+export async function discardQueuedMutation(seq: number): Promise<void> {
+    await loadQueue()
+    const mutation = queue.find(m => m.seq === seq)
+    if (!mutation) return
+
+    await removeMutation(mutation)
+    notify()
+}
+
+export function pendingKey(type: SyncEntityType, id: string): string {
+    return `${type}:${id}`
+}
+
+// Wipes cached snapshots and queued writes, e.g. on sign-out so the next account on this device starts clean
+export async function clearOfflineData(): Promise<void> {
+    await Promise.all([
+        withStore(SNAPSHOT_STORE, 'readwrite', store => store.clear()),
+        withStore(QUEUE_STORE, 'readwrite', store => store.clear()),
+    ])
+    queue = []
+    notify()
+}
@@ -0,0 +1,88 @@
+import { isToday, parseISO, isBefore, isAfter, startOfDay, addDays, format } from 'date-fns'
+import { KanbanCard, CardStatus, Plan, PlanException } from './types'
+import { expandPlan } from './recurrence'
+import { isOverdue } from './utils'
+import { generateUUID } from './uuid'
+
+// Plans show up on the personal Kanban board as virtual cards with the id `plan-<plan id>`.
+// A virtual card has no kanban_cards row: its checklist, comments and attachments are the
+// plan's own, and updateCard in supabaseService writes them back to the plan.
+
+// How far ahead the board looks for the next occurrence of a recurring plan
+const OCCURRENCE_LOOKAHEAD_DAYS = 366
+
+/**
+ * The occurrence of a recurring plan that its board card stands for: the one running today,
+ * otherwise the next one, otherwise the most recent. One-off plans are returned unchanged.
+ */
+export function boardOccurrence(plan: Plan): Plan {
+    if (!plan.recurrence) return plan
+
+    const today = format(new Date(), 'yyyy-MM-dd')
+    const [next] = expandPlan(plan, today, format(addDays(new Date(), OCCURRENCE_LOOKAHEAD_DAYS), 'yyyy-MM-dd'))
+    if (next) return next
+
+    const past = expandPlan(plan, plan.date, today)
+    return past[past.length - 1] ?? plan
+}
+
+// Convert a Plan from planner to KanbanCard (a recurring plan shows as its board occurrence)
+export function planToCard(plan: Plan): KanbanCard {
+    const shown = boardOccurrence(plan)
+    return {
+        id: `plan-${plan.id}`,
+        title: shown.title,
+        description: shown.description,
+        status: determineCardStatus(shown),
+        startDate: shown.date,
+        endDate: shown.hasDueDate ? shown.dueDate : shown.date,
+        timeSlots: shown.timeSlots,
+        checklist: plan.checklist || [],
+        comments: plan.comments || [],
+        attachments: plan.attachments || [],
+        createdAt: plan.createdAt,
+        linkedPlanId: plan.id,
+        occurrenceDate: shown.occurrenceDate,
+        version: plan.version, // The plan's version, checked when the card saves back to it
+    }
+}
+
+/**
+ * Marks one occurrence of a recurring plan as completed (or not) through its exception,
+ * keeping any other overrides the occurrence already has. The series itself is untouched.
+ */
+export function withOccurrenceCompleted(plan: Plan, occurrenceDate: string, completed: boolean): { plan: Plan; exception: PlanException } {
+    const existing = plan.exceptions?.find(e => e.occurrenceDate === occurrenceDate)
+    const exception: PlanException = existing
+        ? { ...existing, completed }
+        : { id: generateUUID(), planId: plan.id, occurrenceDate, cancelled: false, completed }
+
+    return {
+        plan: { ...plan, exceptions: [...(plan.exceptions || []).filter(e => e.occurrenceDate !== occurrenceDate), exception] },
+        exception
+    }
+}
+
+// Determine which column a plan should be in
+export function determineCardStatus(plan: Plan): CardStatus {
+    if (plan.completed) return 'completed'
+
+    const today = startOfDay(new Date())
+    const startDate = parseISO(plan.date)
+    const endDate = plan.hasDueDate && plan.dueDate ? parseISO(plan.dueDate) : startDate
+
+    // OVERDUE: If it's in the past and not completed, keep it "In Progress" so it stays visible
+    if (isOverdue(plan.date, plan.dueDate, plan.completed)) {
+        return 'in-progress'
+    }
+
+    if (isToday(startDate) || (startDate <= today && endDate >= today)) {
+        return 'in-progress'
+    }
+
+    if (isAfter(startDate, today) || (plan.hasDueDate && isBefore(today, startDate))) {
+        return 'pending'
+    }
+
+    return 'inbox'
+}
@@ -0,0 +1,106 @@
+import { addMonths, format, parseISO, startOfMonth } from 'date-fns'
+import { ExchangeRate, Expense, Revenue } from './types'
+import { convertAmount } from './currency'
+
+// Profit reports for the Expenses page: revenue minus expenses per month and per project, in
+// the reporting currency. Revenue counts on the day it was completed and expenses on the day
+// they were paid; anything without a rate is left out and its currency reported.
+
+export interface ProfitOptions {
+    from: string // YYYY-MM-DD, inclusive
+    to: string
+    currency: string
+    rates: ExchangeRate[]
+}
+
+export interface ProfitLine {
+    revenue: number
+    expenses: number
+    profit: number
+}
+
+export interface MonthProfit extends ProfitLine {
+    key: string // '2026-10'
+    label: string
+}
+
+export interface ProjectProfit extends ProfitLine {
+    projectName: string
+}
+
+export interface ProfitReport {
+    totals: ProfitLine
+    months: MonthProfit[]
+    projects: ProjectProfit[]
+    missingCurrencies: string[]
+}
+
+interface Amount {
+    date: string
+    projectName: string
+    amount: number
+    isExpense: boolean
+}
+
+const NO_PROJECT = 'No project'
+
+function addTo(line: ProfitLine, entry: Amount) {
+    if (entry.isExpense) line.expenses += entry.amount
+    else line.revenue += entry.amount
+    line.profit = line.revenue - line.expenses
+}
+
+const emptyLine = (): ProfitLine => ({ revenue: 0, expenses: 0, profit: 0 })
+
+/**
+ * Revenue, expenses and profit over the range: in total, for every month (empty ones
+ * included) and for every project that earned or spent anything, most profitable first.
+ */
+export function profitReport(revenues: Revenue[], expenses: Expense[], options: ProfitOptions): ProfitReport {
+    const { from, to, currency, rates } = options
+    const missing = new Set<string>()
+    const convert = (amount: number, from: string, date: string) => {
+        const converted = convertAmount(amount, from, currency, date, rates)
+        if (converted === null) missing.add(from)
+        return converted
+    }
+
+    const entries: Amount[] = []
+    for (const revenue of revenues) {
+        if (revenue.dateCompleted < from || revenue.dateCompleted > to) continue
+        const amount = convert(revenue.price, revenue.currency, revenue.dateCompleted)
+        if (amount !== null) entries.push({ date: revenue.dateCompleted, projectName: revenue.projectName, amount, isExpense: false })
+    }
+    for (const expense of expenses) {
+        if (expense.date < from || expense.date > to) continue
+        const amount = convert(expense.amount, expense.currency, expense.date)
+        if (amount !== null) entries.push({ date: expense.date, projectName: expense.projectName ?? '', amount, isExpense: true })
+    }
+
+    const totals = emptyLine()
+    const byMonth = new Map<string, ProfitLine>()
+    const byProject = new Map<string, ProfitLine>()
+    for (const entry of entries) {
+        addTo(totals, entry)
+
+        const month = entry.date.slice(0, 7)
+        if (!byMonth.has(month)) byMonth.set(month, emptyLine())
+        addTo(byMonth.get(month)!, entry)
+
+        const project = entry.projectName.trim() || NO_PROJECT
+        if (!byProject.has(project)) byProject.set(project, emptyLine())
+        addTo(byProject.get(project)!, entry)
+    }
+
+    const months: MonthProfit[] = []
+    const last = startOfMonth(parseISO(to))
+    for (let start = startOfMonth(parseISO(from)); start <= last; start = addMonths(start, 1)) {
+        const key = format(start, 'yyyy-MM')
+        months.push({ key, label: format(start, 'MMM yyyy'), ...(byMonth.get(key) ?? emptyLine()) })
+    }
+
+    const projects = Array.from(byProject, ([projectName, line]) => ({ projectName, ...line }))
+        .sort((a, b) => b.profit - a.profit || a.projectName.localeCompare(b.projectName))
+
+    return { totals, months, projects, missingCurrencies: Array.from(missing).sort() }
+}
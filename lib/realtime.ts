@@ -0,0 +1,94 @@
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js'
+import { Row } from './rowMappers'
+
+// Applies a single realtime change to the in-memory lists held by DataContext,
+// so one edited row doesn't cause a refetch of the whole table.
+
+export type RowChange = RealtimePostgresChangesPayload<Row>
+
+function changedId(payload: RowChange): string | undefined {
+    const row = payload.eventType === 'DELETE' ? payload.old : payload.new
+    return row?.id as string | undefined
+}
+
+/**
+ * Inserts, replaces or removes the top-level entity a change belongs to.
+ * Moving a row to the Trash (setting deleted_at) removes it like a delete does.
+ * `map` receives the item already in the list (if any) so it can keep its child rows,
+ * which arrive through their own tables.
+ */
+export function applyRowChange<T extends { id: string }>(
+    items: T[],
+    payload: RowChange,
+    map: (row: Row, existing?: T) => T
+): T[] {
+    const id = changedId(payload)
+    if (!id) return items
+
+    if (payload.eventType === 'DELETE' || payload.new.deleted_at) {
+        return items.filter(item => item.id !== id)
+    }
+
+    const existing = items.find(item => item.id === id)
+    const next = map(payload.new, existing)
+    return existing
+        ? items.map(item => item.id === id ? next : item)
+        : [...items, next]
+}
+
+/**
+ * True for an UPDATE of a row the list doesn't hold, such as one restored from the Trash
+ * elsewhere. Its child rows didn't change, so no events bring them; callers fetch the whole
+ * entity rather than mapping the bare row (see upsertItem).
+ */
+export function isUnloadedUpdate<T extends { id: string }>(items: T[], payload: RowChange): boolean {
+    return payload.eventType === 'UPDATE' && !payload.new.deleted_at && !items.some(item => item.id === payload.new.id)
+}
+
+// Adds an entity to the list, or replaces the copy already in it
+export function upsertItem<T extends { id: string }>(items: T[], item: T): T[] {
+    return items.some(existing => existing.id === item.id)
+        ? items.map(existing => existing.id === item.id ? item : existing)
+        : [...items, item]
+}
+
+/**
+ * Applies a change to a child row (checklist item, comment, attachment...) inside the list
+ * `listKey` of its parent. DELETE payloads only carry the primary key, so deletes look
+ * through every parent; rows whose parent isn't loaded yet are ignored.
+ */
+export function applyChildChange<T extends { id: string }, C extends { id: string }>(
+    items: T[],
+    payload: RowChange,
+    parentColumn: string,
+    listKey: keyof T & string,
+    mapChild: (row: Row) => C
+): T[] {
+    const id = changedId(payload)
+    if (!id) return items
+
+    const withoutChild = (item: T): T => {
+        const children = (item[listKey] ?? []) as unknown as C[]
+        return children.some(child => child.id === id)
+            ? { ...item, [listKey]: children.filter(child => child.id !== id) }
+            : item
+    }
+
+    if (payload.eventType === 'DELETE') {
+        return items.map(withoutChild)
+    }
+
+    const parentId = payload.new[parentColumn] as string
+    const child = mapChild(payload.new)
+
+    return items.map(item => {
+        if (item.id !== parentId) return withoutChild(item)
+
+        const children = (item[listKey] ?? []) as unknown as C[]
+        const exists = children.some(c => c.id === id)
+        return {
+            ...item,
+            [listKey]: exists ? children.map(c => c.id === id ? child : c) : [...children, child]
+        }
+    })
+}
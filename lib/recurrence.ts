@@ -0,0 +1,307 @@
+import { addDays, addMonths, addYears, differenceInCalendarDays, format, getDay, lastDayOfMonth, parseISO, startOfWeek } from 'date-fns'
+import { Plan, PlanException, RecurrenceRule, Weekday } from './types'
+
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+    SU: 'Sun', MO: 'Mon', TU: 'Tue', WE: 'Wed', TH: 'Thu', FR: 'Fri', SA: 'Sat'
+}
+
+export const ORDINALS: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', [-1]: 'last' }
+
+// Guard against runaway loops on malformed rules
+const MAX_ITERATIONS = 10000
+
+function toDateStr(date: Date): string {
+    return format(date, 'yyyy-MM-dd')
+}
+
+/**
+ * Returns the weekday code for a YYYY-MM-DD date string.
+ */
+export function weekdayOf(dateStr: string): Weekday {
+    return WEEKDAYS[getDay(parseISO(dateStr))]
+}
+
+/**
+ * Returns which occurrence of its weekday a date is within the month (1-4, or -1 for the last one).
+ */
+export function weekdayPositionOf(dateStr: string): number {
+    const date = parseISO(dateStr)
+    const nth = Math.ceil(date.getDate() / 7)
+    const isLast = date.getDate() + 7 > lastDayOfMonth(date).getDate()
+    return nth >= 5 || (nth === 4 && isLast) ? -1 : nth
+}
+
+// Find the nth (or last when pos = -1) given weekday in the month containing `monthDate`
+function nthWeekdayOfMonth(monthDate: Date, weekday: Weekday, pos: number): Date | null {
+    const target = WEEKDAYS.indexOf(weekday)
+    if (pos === -1) {
+        const last = lastDayOfMonth(monthDate)
+        return addDays(last, -((getDay(last) - target + 7) % 7))
+    }
+    const first = new Date(monthDate.getFullYear(), monthDate.getMonth(), 1)
+    const day = addDays(first, (target - getDay(first) + 7) % 7 + (pos - 1) * 7)
+    return day.getMonth() === monthDate.getMonth() ? day : null
+}
+
+/**
+ * Parses an RRULE string (e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10").
+ * Only the subset we can edit in the planner is understood; anything else is ignored.
+ */
+export function parseRRule(rrule?: string | null): RecurrenceRule | undefined {
+    if (!rrule) return undefined
+
+    const parts = Object.fromEntries(
+        rrule.replace(/^RRULE:/i, '').split(';')
+            .map(part => part.split('='))
+            .filter(pair => pair.length === 2)
+            .map(([key, value]) => [key.toUpperCase(), value.toUpperCase()])
+    )
+
+    const frequencies: Record<string, RecurrenceRule['frequency']> = {
+        DAILY: 'daily', WEEKLY: 'weekly', MONTHLY: 'monthly', YEARLY: 'yearly'
+    }
+    const frequency = frequencies[parts.FREQ]
+    if (!frequency) return undefined
+
+    const rule: RecurrenceRule = {
+        frequency,
+        interval: Math.max(1, parseInt(parts.INTERVAL || '1', 10) || 1),
+    }
+
+    if (parts.BYDAY) {
+        const days = parts.BYDAY.split(',')
+        if (frequency === 'monthly') {
+            const match = days[0].match(/^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/)
+            if (match) {
+                rule.monthlyMode = 'nth-weekday'
+                rule.byWeekday = [match[2] as Weekday]
+                rule.bySetPos = parseInt(match[1] || parts.BYSETPOS || '1', 10)
+            }
+        } else {
+            rule.byWeekday = days
+                .map((d: string) => d.replace(/^[+-]?\d/, ''))
+                .filter((d: string): d is Weekday => WEEKDAYS.includes(d as Weekday))
+        }
+    } else if (frequency === 'monthly') {
+        rule.monthlyMode = 'day-of-month'
+    }
+
+    if (parts.COUNT) rule.count = parseInt(parts.COUNT, 10)
+    if (parts.UNTIL) {
+        const until = parts.UNTIL.slice(0, 8)
+        rule.until = `${until.slice(0, 4)}-${until.slice(4, 6)}-${until.slice(6, 8)}`
+    }
+
+    return rule
+}
+
+/**
+ * Serializes a rule back to an RRULE string for storage.
+ */
+export function formatRRule(rule?: RecurrenceRule | null): string | null {
+    if (!rule) return null
+
+    const parts = [`FREQ=${rule.frequency.toUpperCase()}`]
+    if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`)
+
+    if (rule.frequency === 'weekly' && rule.byWeekday && rule.byWeekday.length > 0) {
+        parts.push(`BYDAY=${rule.byWeekday.join(',')}`)
+    }
+    if (rule.frequency === 'monthly' && rule.monthlyMode === 'nth-weekday' && rule.byWeekday?.[0]) {
+        parts.push(`BYDAY=${rule.bySetPos ?? 1}${rule.byWeekday[0]}`)
+    }
+
+    if (rule.count) parts.push(`COUNT=${rule.count}`)
+    else if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`)
+
+    return parts.join(';')
+}
+
+/**
+ * Human readable summary, e.g. "Every 2 weeks on Mon, Wed, 10 times".
+ */
+export function describeRecurrence(rule: RecurrenceRule, startDate: string): string {
+    const units = { daily: 'day', weekly: 'week', monthly: 'month', yearly: 'year' }
+    const unit = units[rule.frequency]
+    let text = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`
+
+    if (rule.frequency === 'daily' && rule.interval === 1) text = 'Daily'
+
+    if (rule.frequency === 'weekly') {
+        const days = rule.byWeekday && rule.byWeekday.length > 0 ? rule.byWeekday : [weekdayOf(startDate)]
+        text += ` on ${days.map(d => WEEKDAY_LABELS[d]).join(', ')}`
+    } else if (rule.frequency === 'monthly') {
+        if (rule.monthlyMode === 'nth-weekday') {
+            const weekday = rule.byWeekday?.[0] ?? weekdayOf(startDate)
+            text += ` on the ${ORDINALS[rule.bySetPos ?? 1]} ${WEEKDAY_LABELS[weekday]}`
+        } else {
+            text += ` on day ${parseISO(startDate).getDate()}`
+        }
+    } else if (rule.frequency === 'yearly') {
+        text += ` on ${format(parseISO(startDate), 'MMM d')}`
+    }
+
+    if (rule.count) text += `, ${rule.count} time${rule.count === 1 ? '' : 's'}`
+    else if (rule.until) text += `, until ${format(parseISO(rule.until), 'MMM d, yyyy')}`
+
+    return text
+}
+
+/**
+ * Generates occurrence start dates (YYYY-MM-DD) for a rule starting at `startDate`,
+ * up to and including `rangeEnd`. COUNT is honoured from the series start, so the
+ * walk always begins at `startDate` even when the caller only needs a later window.
+ */
+export function generateOccurrenceDates(startDate: string, rule: RecurrenceRule, rangeEnd: string): string[] {
+    const dates: string[] = []
+    const start = parseISO(startDate)
+    const interval = Math.max(1, rule.interval || 1)
+    const limit = rule.until && rule.until < rangeEnd ? rule.until : rangeEnd
+
+    const push = (date: Date): boolean => {
+        const dateStr = toDateStr(date)
+        if (dateStr < startDate) return true
+        if (dateStr > limit) return false
+        if (rule.count && dates.length >= rule.count) return false
+        dates.push(dateStr)
+        return true
+    }
+
+    for (let i = 0; i < MAX_ITERATIONS; i++) {
+        if (rule.count && dates.length >= rule.count) break
+
+        switch (rule.frequency) {
+            case 'daily': {
+                if (!push(addDays(start, i * interval))) return dates
+                break
+            }
+            case 'weekly': {
+                const weekStart = addDays(startOfWeek(start), i * interval * 7)
+                if (toDateStr(weekStart) > limit) return dates
+                const days = rule.byWeekday && rule.byWeekday.length > 0 ? rule.byWeekday : [weekdayOf(startDate)]
+                const sorted = [...days].sort((a, b) => WEEKDAYS.indexOf(a) - WEEKDAYS.indexOf(b))
+                for (const day of sorted) {
+                    if (!push(addDays(weekStart, WEEKDAYS.indexOf(day)))) return dates
+                }
+                break
+            }
+            case 'monthly': {
+                const month = addMonths(new Date(start.getFullYear(), start.getMonth(), 1), i * interval)
+                if (toDateStr(month) > limit) return dates
+                if (rule.monthlyMode === 'nth-weekday') {
+                    const weekday = rule.byWeekday?.[0] ?? weekdayOf(startDate)
+                    const day = nthWeekdayOfMonth(month, weekday, rule.bySetPos ?? weekdayPositionOf(startDate))
+                    if (day && !push(day)) return dates
+                } else {
+                    // Months without this day (e.g. the 31st) are skipped, as in RFC 5545
+                    const day = new Date(month.getFullYear(), month.getMonth(), start.getDate())
+                    if (day.getMonth() === month.getMonth() && !push(day)) return dates
+                }
+                break
+            }
+            case 'yearly': {
+                const year = addYears(new Date(start.getFullYear(), 0, 1), i * interval)
+                if (toDateStr(year) > limit) return dates
+                const day = new Date(year.getFullYear(), start.getMonth(), start.getDate())
+                if (day.getMonth() === start.getMonth() && !push(day)) return dates
+                break
+            }
+        }
+    }
+
+    return dates
+}
+
+/**
+ * Expands a recurring plan into the occurrences that overlap [rangeStart, rangeEnd].
+ * Multi-day plans keep their span, so an occurrence that starts before the window but
+ * ends inside it is included. Exceptions are applied; cancelled occurrences are dropped.
+ */
+export function expandPlan(plan: Plan, rangeStart: string, rangeEnd: string): Plan[] {
+    if (!plan.recurrence) {
+        const end = plan.hasDueDate && plan.dueDate ? plan.dueDate : plan.date
+        return plan.date <= rangeEnd && end >= rangeStart ? [plan] : []
+    }
+
+    const span = plan.hasDueDate && plan.dueDate
+        ? Math.max(0, differenceInCalendarDays(parseISO(plan.dueDate), parseISO(plan.date)))
+        : 0
+    const exceptions = new Map<string, PlanException>(
+        (plan.exceptions || []).map(e => [e.occurrenceDate, e])
+    )
+
+    return generateOccurrenceDates(plan.date, plan.recurrence, rangeEnd)
+        .filter(date => toDateStr(addDays(parseISO(date), span)) >= rangeStart)
+        .map(date => applyException(plan, date, span, exceptions.get(date)))
+        .filter((occurrence): occurrence is Plan => occurrence !== null)
+}
+
+function applyException(plan: Plan, date: string, span: number, exception?: PlanException): Plan | null {
+    if (exception?.cancelled) return null
+
+    return {
+        ...plan,
+        title: exception?.title ?? plan.title,
+        description: exception?.description ?? plan.description,
+        timeSlots: exception?.timeSlots ?? plan.timeSlots,
+        date,
+        dueDate: plan.hasDueDate ? toDateStr(addDays(parseISO(date), span)) : plan.dueDate,
+        completed: exception ? exception.completed : false,
+        occurrenceDate: date,
+    }
+}
+
+/**
+ * Expands every plan for the given window. Non-recurring plans pass through when they overlap it.
+ */
+export function expandPlans(plans: Plan[], rangeStart: string, rangeEnd: string): Plan[] {
+    return plans.flatMap(plan => expandPlan(plan, rangeStart, rangeEnd))
+}
+
+/**
+ * Plans (or occurrences) active on a single day.
+ */
+export function getPlansForDay(plans: Plan[], dateStr: string): Plan[] {
+    return expandPlans(plans, dateStr, dateStr)
+}
+
+/**
+ * Stable key for rendering lists that may contain several occurrences of the same plan.
+ */
+export function occurrenceKey(plan: Plan): string {
+    return plan.occurrenceDate ? `${plan.id}:${plan.occurrenceDate}` : plan.id
+}
+
+/**
+ * Splits a series at `occurrenceDate` for "this and following" edits.
+ * Returns the rule the original series keeps (ending the day before) and the rule
+ * for the new series that starts at the occurrence. Returns null for the head
+ * when the split happens at the very first occurrence.
+ */
+export function splitRecurrence(plan: Plan, occurrenceDate: string): { head: RecurrenceRule | null, tail: RecurrenceRule } {
+    const rule = plan.recurrence!
+    const before = generateOccurrenceDates(plan.date, rule, toDateStr(addDays(parseISO(occurrenceDate), -1)))
+
+    const tail: RecurrenceRule = { ...rule }
+    if (rule.count) tail.count = Math.max(1, rule.count - before.length)
+
+    if (before.length === 0) return { head: null, tail }
+
+    const head: RecurrenceRule = { ...rule }
+    if (rule.count) {
+        head.count = before.length
+    } else {
+        head.until = before[before.length - 1]
+    }
+    return { head, tail }
+}
+
+/**
+ * Rule for the same series, ending with the occurrence on `lastDate` (inclusive).
+ * Returns null if the series has no occurrences up to that date.
+ */
+export function endRecurrenceAt(plan: Plan, lastDate: string): RecurrenceRule | null {
+    return splitRecurrence(plan, toDateStr(addDays(parseISO(lastDate), 1))).head
+}
@@ -0,0 +1,159 @@
+import { addMonths, format, parseISO, startOfMonth, startOfQuarter, subYears } from 'date-fns'
+import { ExchangeRate, Revenue } from './types'
+import { convertAmount } from './currency'
+
+// Figures for the revenue analytics page. Every amount is converted into the reporting
+// currency with the rate of the day it was completed; entries that can't be converted are
+// left out and their currencies reported, the same as the totals on the Revenue page.
+
+export type Granularity = 'month' | 'quarter'
+
+export interface AnalyticsOptions {
+    from: string // YYYY-MM-DD, inclusive
+    to: string
+    currency: string
+    rates: ExchangeRate[]
+}
+
+export interface PeriodTotal {
+    key: string // '2026-10' or '2026-Q4'
+    label: string
+    start: string // YYYY-MM-DD
+    total: number
+    count: number
+    previousYearTotal: number // Same period one year earlier
+}
+
+export interface ProjectTotal {
+    projectName: string
+    total: number
+    count: number
+    share: number // 0-1 of the range total
+}
+
+export interface RevenueAnalytics {
+    total: number
+    count: number
+    averageProjectValue: number
+    previousYearTotal: number // Same range one year earlier
+    yearOverYearChange: number | null // Fraction, null when last year had nothing to compare with
+    months: PeriodTotal[]
+    quarters: PeriodTotal[]
+    projects: ProjectTotal[]
+    bestMonth: PeriodTotal | null
+    worstMonth: PeriodTotal | null
+    missingCurrencies: string[]
+}
+
+interface ConvertedEntry {
+    revenue: Revenue
+    amount: number
+}
+
+function periodStart(date: string, granularity: Granularity): Date {
+    return granularity === 'month' ? startOfMonth(parseISO(date)) : startOfQuarter(parseISO(date))
+}
+
+function periodKey(start: Date, granularity: Granularity): string {
+    return granularity === 'month' ? format(start, 'yyyy-MM') : format(start, "yyyy-'Q'Q")
+}
+
+function periodLabel(start: Date, granularity: Granularity): string {
+    return granularity === 'month' ? format(start, 'MMM yyyy') : format(start, "'Q'Q yyyy")
+}
+
+function inRange(date: string, from: string, to: string): boolean {
+    return date >= from && date <= to
+}
+
+/**
+ * Totals per month or quarter over the range, including empty periods, each with the
+ * total of the same period a year earlier.
+ */
+export function periodTotals(entries: ConvertedEntry[], from: string, to: string, granularity: Granularity): PeriodTotal[] {
+    const step = granularity === 'month' ? 1 : 3
+    const sums = new Map<string, { total: number, count: number }>()
+    for (const { revenue, amount } of entries) {
+        const key = periodKey(periodStart(revenue.dateCompleted, granularity), granularity)
+        const sum = sums.get(key) ?? { total: 0, count: 0 }
+        sum.total += amount
+        sum.count += 1
+        sums.set(key, sum)
+    }
+
+    const periods: PeriodTotal[] = []
+    const last = periodStart(to, granularity)
+    for (let start = periodStart(from, granularity); start <= last; start = addMonths(start, step)) {
+        const key = periodKey(start, granularity)
+        periods.push({
+            key,
+            label: periodLabel(start, granularity),
+            start: format(start, 'yyyy-MM-dd'),
+            total: sums.get(key)?.total ?? 0,
+            count: sums.get(key)?.count ?? 0,
+            previousYearTotal: sums.get(periodKey(subYears(start, 1), granularity))?.total ?? 0
+        })
+    }
+    return periods
+}
+
+export function projectTotals(entries: ConvertedEntry[]): ProjectTotal[] {
+    const total = entries.reduce((sum, e) => sum + e.amount, 0)
+    const byProject = new Map<string, { total: number, count: number }>()
+    for (const { revenue, amount } of entries) {
+        const name = revenue.projectName.trim() || 'No project'
+        const sum = byProject.get(name) ?? { total: 0, count: 0 }
+        sum.total += amount
+        sum.count += 1
+        byProject.set(name, sum)
+    }
+
+    return Array.from(byProject, ([projectName, sum]) => ({
+        projectName,
+        ...sum,
+        share: total > 0 ? sum.total / total : 0
+    })).sort((a, b) => b.total - a.total || a.projectName.localeCompare(b.projectName))
+}
+
+/**
+ * Everything the analytics page shows for a date range.
+ */
+export function analyzeRevenue(revenues: Revenue[], options: AnalyticsOptions): RevenueAnalytics {
+    const { from, to, currency, rates } = options
+    const previousFrom = format(subYears(parseISO(from), 1), 'yyyy-MM-dd')
+    const previousTo = format(subYears(parseISO(to), 1), 'yyyy-MM-dd')
+
+    const missing = new Set<string>()
+    const converted: ConvertedEntry[] = revenues
+        .filter(r => inRange(r.dateCompleted, from, to) || inRange(r.dateCompleted, previousFrom, previousTo))
+        .flatMap(revenue => {
+            const amount = convertAmount(revenue.price, revenue.currency, currency, revenue.dateCompleted, rates)
+            if (amount === null) {
+                missing.add(revenue.currency)
+                return []
+            }
+            return [{ revenue, amount }]
+        })
+
+    const current = converted.filter(e => inRange(e.revenue.dateCompleted, from, to))
+    const previous = converted.filter(e => inRange(e.revenue.dateCompleted, previousFrom, previousTo))
+    const total = current.reduce((sum, e) => sum + e.amount, 0)
+    const previousYearTotal = previous.reduce((sum, e) => sum + e.amount, 0)
+
+    const months = periodTotals(converted, from, to, 'month')
+    const ranked = [...months].sort((a, b) => b.total - a.total)
+
+    return {
+        total,
+        count: current.length,
+        averageProjectValue: current.length > 0 ? total / current.length : 0,
+        previousYearTotal,
+        yearOverYearChange: previousYearTotal > 0 ? (total - previousYearTotal) / previousYearTotal : null,
+        months,
+        quarters: periodTotals(converted, from, to, 'quarter'),
+        projects: projectTotals(current),
+        bestMonth: ranked.length > 0 && ranked[0].total > 0 ? ranked[0] : null,
+        worstMonth: ranked.length > 1 ? ranked[ranked.length - 1] : null,
+        missingCurrencies: Array.from(missing).sort()
+    }
+}
@@ -0,0 +1,258 @@
+import { format, isValid, parse } from 'date-fns'
+import { Revenue } from './types'
+import { generateUUID } from './uuid'
+import { DEFAULT_CURRENCY, normalizeCurrency } from './currency'
+
+// CSV export of revenue entries and the parsing/validation behind the import wizard
+
+export type RevenueCsvField = 'name' | 'projectName' | 'price' | 'currency' | 'dateCompleted' | 'description'
+
+export const REVENUE_CSV_FIELDS: { field: RevenueCsvField, label: string, required: boolean }[] = [
+    { field: 'name', label: 'Name', required: true },
+    { field: 'projectName', label: 'Project', required: true },
+    { field: 'price', label: 'Price', required: true },
+    { field: 'currency', label: 'Currency', required: false },
+    { field: 'dateCompleted', label: 'Date completed', required: true },
+    { field: 'description', label: 'Description', required: false },
+]
+
+// Column index for each field; null = not in the file
+export type RevenueColumnMapping = Record<RevenueCsvField, number | null>
+
+export const DATE_FORMATS = ['yyyy-MM-dd', 'MM/dd/yyyy', 'dd/MM/yyyy', 'dd.MM.yyyy', 'MMM d, yyyy'] as const
+export type CsvDateFormat = typeof DATE_FORMATS[number]
+
+export interface RevenueImportOptions {
+    dateFormat: CsvDateFormat
+    defaultCurrency?: string // ISO code for rows without a currency column, value or symbol
+    hasHeader: boolean
+}
+
+export interface RevenueImportRow {
+    line: number // 1-based line in the file, for error messages
+    revenue: Revenue | null // null when the row has errors
+    errors: string[]
+}
+
+export interface RevenueExportFilter {
+    from?: string // YYYY-MM-DD, inclusive
+    to?: string
+    projectName?: string
+}
+
+// ============================================
+// CSV FORMAT
+// ============================================
+
+/**
+ * Guesses the delimiter from the first line: comma, semicolon (spreadsheets in
+ * comma-decimal locales) or tab.
+ */
+export function detectDelimiter(text: string): string {
+    const firstLine = text.split(/\r?\n/, 1)[0] ?? ''
+    const [best] = [',', ';', '\t']
+        .map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length - 1 }))
+        .sort((a, b) => b.count - a.count)
+    return best.count > 0 ? best.delimiter : ','
+}
+
+/**
+ * Parses CSV text into rows of cells. Handles quoted cells with delimiters, doubled quotes
+ * and line breaks inside them. Blank lines are dropped.
+ */
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): string[][] {
+    const rows: string[][] = []
+    let row: string[] = []
+    let cell = ''
+    let inQuotes = false
+    const input = text.replace(/^﻿/, '')
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i]
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                cell += '"'
+                i++
+            } else if (char === '"') {
+                inQuotes = false
+            } else {
+                cell += char
+            }
+        } else if (char === '"') {
+            inQuotes = true
+        } else if (char === delimiter) {
+            row.push(cell)
+            cell = ''
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++
+            row.push(cell)
+            rows.push(row)
+            row = []
+            cell = ''
+        } else {
+            cell += char
+        }
+    }
+    row.push(cell)
+    rows.push(row)
+
+    return rows.filter(r => r.some(c => c.trim() !== ''))
+}
+
+function escapeCell(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+export function toCsv(rows: string[][]): string {
+    return rows.map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n'
+}
+
+// ============================================
+// EXPORT
+// ============================================
+
+export function filterRevenues(revenues: Revenue[], filter: RevenueExportFilter): Revenue[] {
+    return revenues.filter(r =>
+        (!filter.from || r.dateCompleted >= filter.from) &&
+        (!filter.to || r.dateCompleted <= filter.to) &&
+        (!filter.projectName || r.projectName === filter.projectName)
+    )
+}
+
+/**
+ * CSV of the matching entries, oldest first, with a header row the import maps automatically.
+ */
+export function revenuesToCsv(revenues: Revenue[], filter: RevenueExportFilter = {}): string {
+    const rows = filterRevenues(revenues, filter)
+        .sort((a, b) => a.dateCompleted.localeCompare(b.dateCompleted))
+        .map(r => [r.name, r.projectName, String(r.price), r.currency, r.dateCompleted, r.description ?? ''])
+
+    return toCsv([REVENUE_CSV_FIELDS.map(f => f.label), ...rows])
+}
+
+export function revenueCsvFileName(filter: RevenueExportFilter = {}): string {
+    const range = [filter.from, filter.to].filter(Boolean).join('_to_')
+    return `revenue${range ? `-${range}` : ''}.csv`
+}
+
+// ============================================
+// IMPORT
+// ============================================
+
+const HEADER_ALIASES: Record<RevenueCsvField, string[]> = {
+    name: ['name', 'title', 'item', 'service'],
+    projectName: ['project', 'projectname', 'client', 'customer'],
+    price: ['price', 'amount', 'total', 'value', 'income'],
+    currency: ['currency', 'curr'],
+    dateCompleted: ['datecompleted', 'date', 'completed', 'completedon', 'paidon'],
+    description: ['description', 'notes', 'note', 'details', 'memo'],
+}
+
+function normalizeHeader(header: string): string {
+    return header.toLowerCase().replace(/[^a-z]/g, '')
+}
+
+/**
+ * Maps header cells to fields by name (e.g. "Amount" → price). Each column is used once.
+ */
+export function guessColumnMapping(headers: string[]): RevenueColumnMapping {
+    const normalized = headers.map(normalizeHeader)
+    const used = new Set<number>()
+    const mapping = {} as RevenueColumnMapping
+
+    for (const { field } of REVENUE_CSV_FIELDS) {
+        const index = HEADER_ALIASES[field]
+            .map(alias => normalized.findIndex((h, i) => h === alias && !used.has(i)))
+            .find(i => i >= 0)
+        mapping[field] = index ?? null
+        if (index !== undefined) used.add(index)
+    }
+
+    return mapping
+}
+
+/**
+ * Reads an amount like "1,250.50", "₱1 250", "$-40" or "1.250,50". A currency symbol in
+ * front is returned too. The last "," or "." is the decimal separator when 1-2 digits follow it.
+ */
+export function parseAmount(value: string): { amount: number, symbol?: string } | null {
+    const trimmed = value.trim()
+    const symbol = trimmed.match(/^-?\s*([^\d\s.,-]+)/)?.[1]
+    let digits = trimmed.replace(/[^\d.,-]/g, '')
+    if (!/\d/.test(digits)) return null
+
+    const lastSeparator = Math.max(digits.lastIndexOf(','), digits.lastIndexOf('.'))
+    const decimals = lastSeparator >= 0 ? digits.length - lastSeparator - 1 : 0
+    if (lastSeparator >= 0 && decimals >= 1 && decimals <= 2) {
+        digits = digits.slice(0, lastSeparator).replace(/[.,]/g, '') + '.' + digits.slice(lastSeparator + 1)
+    } else {
+        digits = digits.replace(/[.,]/g, '')
+    }
+
+    const amount = Number(digits)
+    if (!Number.isFinite(amount) || digits.lastIndexOf('-') > 0) return null
+    return { amount, symbol }
+}
+
+export function parseCsvDate(value: string, dateFormat: CsvDateFormat): string | null {
+    const date = parse(value.trim(), dateFormat, new Date(2000, 0, 1))
+    return isValid(date) ? format(date, 'yyyy-MM-dd') : null
+}
+
+/**
+ * First format every non-empty value parses with. Ambiguous files (all days ≤ 12) get the
+ * first of US/European order, which the wizard lets the user change.
+ */
+export function guessDateFormat(values: string[]): CsvDateFormat {
+    const samples = values.map(v => v.trim()).filter(Boolean)
+    return DATE_FORMATS.find(f => samples.every(v => parseCsvDate(v, f))) ?? DATE_FORMATS[0]
+}
+
+/**
+ * Turns CSV rows into revenue entries, collecting every problem per row instead of
+ * stopping at the first one. Nothing is saved; this is the dry run the wizard previews.
+ */
+export function mapRevenueRows(rows: string[][], mapping: RevenueColumnMapping, options: RevenueImportOptions): RevenueImportRow[] {
+    const defaultCurrency = options.defaultCurrency || DEFAULT_CURRENCY
+    const dataRows = options.hasHeader ? rows.slice(1) : rows
+    const createdAt = new Date().toISOString()
+
+    return dataRows.map((row, index) => {
+        const cell = (field: RevenueCsvField) => {
+            const column = mapping[field]
+            return column === null ? '' : (row[column] ?? '').trim()
+        }
+        const errors: string[] = []
+
+        for (const { field, label, required } of REVENUE_CSV_FIELDS) {
+            if (required && !cell(field)) errors.push(`${label} is missing`)
+        }
+
+        const amount = cell('price') ? parseAmount(cell('price')) : null
+        if (cell('price') && !amount) errors.push(`"${cell('price')}" is not a number`)
+
+        const date = cell('dateCompleted') ? parseCsvDate(cell('dateCompleted'), options.dateFormat) : null
+        if (cell('dateCompleted') && !date) errors.push(`"${cell('dateCompleted')}" is not a ${options.dateFormat} date`)
+
+        const currency = cell('currency') ? normalizeCurrency(cell('currency')) : normalizeCurrency(amount?.symbol) ?? defaultCurrency
+        if (!currency) errors.push(`"${cell('currency')}" is not a currency code`)
+
+        const line = index + 1 + (options.hasHeader ? 1 : 0)
+        if (errors.length > 0 || !amount || !date || !currency) return { line, revenue: null, errors }
+
+        return {
+            line,
+            errors,
+            revenue: {
+                id: generateUUID(),
+                name: cell('name'),
+                description: cell('description') || undefined,
+                projectName: cell('projectName'),
+                price: amount.amount,
+                currency,
+                dateCompleted: date,
+                createdAt,
+            }
+        }
+    })
+}
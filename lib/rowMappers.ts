@@ -0,0 +1,214 @@
+import { Attachment, ChecklistItem, Client, Comment, ExchangeRate, Expense, Goal, Invoice, InvoiceItem, KanbanCard, Plan, PlanException, Revenue, TimeSlot } from './types'
+import { parseRRule } from './recurrence'
+import { DEFAULT_CURRENCY, normalizeCurrency } from './currency'
+
+// Database rows (snake_case) -> app types.
+// Shared by the fetch functions in supabaseService and the realtime handlers in DataContext,
+// which receive one row at a time and keep the child lists they already have.
+
+export type Row = Record<string, unknown>
+
+export function mapTimeSlotRow(row: Row): TimeSlot {
+    return {
+        id: row.id as string,
+        time: row.time as string,
+        description: row.description as string
+    }
+}
+
+export function mapAttachmentRow(row: Row): Attachment {
+    return {
+        id: row.id as string,
+        type: row.type as Attachment['type'],
+        name: row.name as string,
+        url: row.url as string,
+        storagePath: (row.storage_path as string | null) ?? undefined,
+        thumbnailUrl: (row.thumbnail_url as string | null) ?? undefined,
+        mimeType: (row.mime_type as string | null) ?? undefined,
+        size: row.size_bytes == null ? undefined : Number(row.size_bytes)
+    }
+}
+
+export function mapChecklistRow(row: Row): ChecklistItem {
+    return {
+        id: row.id as string,
+        text: row.text as string,
+        completed: row.completed as boolean
+    }
+}
+
+export function mapCommentRow(row: Row): Comment {
+    return {
+        id: row.id as string,
+        text: row.text as string,
+        createdAt: row.created_at as string,
+        isMarkedDone: row.is_marked_done as boolean
+    }
+}
+
+export function mapPlanExceptionRow(row: Row): PlanException {
+    return {
+        id: row.id as string,
+        planId: row.plan_id as string,
+        occurrenceDate: row.occurrence_date as string,
+        cancelled: !!row.cancelled,
+        completed: !!row.completed,
+        title: (row.title as string) || undefined,
+        description: (row.description as string) || undefined,
+        timeSlots: (row.time_slots as TimeSlot[]) || undefined
+    }
+}
+
+export function mapPlanRow(row: Row, children: Partial<Plan> = {}): Plan {
+    return {
+        id: row.id as string,
+        title: row.title as string,
+        description: row.description as string | undefined,
+        date: row.date as string,
+        hasDueDate: row.has_due_date as boolean,
+        dueDate: row.due_date as string | undefined,
+        timeSlots: children.timeSlots ?? [],
+        attachments: children.attachments ?? [],
+        checklist: children.checklist ?? [],
+        comments: children.comments ?? [],
+        completed: row.completed as boolean,
+        createdAt: row.created_at as string,
+        recurrence: parseRRule(row.recurrence_rule as string | null),
+        exceptions: children.exceptions ?? [],
+        version: (row.version as number | null) ?? undefined,
+        updatedAt: (row.updated_at as string | null) ?? undefined,
+        deletedAt: (row.deleted_at as string | null) ?? undefined
+    }
+}
+
+export function mapCardRow(row: Row, children: Partial<KanbanCard> = {}): KanbanCard {
+    return {
+        id: row.id as string,
+        title: row.title as string,
+        description: row.description as string | undefined,
+        status: row.status as KanbanCard['status'],
+        startDate: row.start_date as string | undefined,
+        endDate: row.end_date as string | undefined,
+        linkedPlanId: row.linked_plan_id as string | undefined,
+        timeSlots: children.timeSlots ?? [],
+        checklist: children.checklist ?? [],
+        comments: children.comments ?? [],
+        attachments: children.attachments ?? [],
+        createdAt: row.created_at as string,
+        position: (row.position as number) || 0,
+        version: (row.version as number | null) ?? undefined,
+        updatedAt: (row.updated_at as string | null) ?? undefined,
+        workspaceId: (row.workspace_id as string | null) ?? null,
+        assigneeIds: (row.assignee_ids as string[] | null) ?? [],
+        price: row.price == null ? undefined : parseFloat(String(row.price)),
+        currency: normalizeCurrency(row.currency as string | null) ?? undefined,
+        projectName: (row.project_name as string | null) ?? undefined,
+        deletedAt: (row.deleted_at as string | null) ?? undefined
+    }
+}
+
+export function mapGoalRow(row: Row, children: Partial<Goal> = {}): Goal {
+    return {
+        id: row.id as string,
+        title: row.title as string,
+        description: row.description as string | undefined,
+        goalType: row.goal_type as Goal['goalType'],
+        targetDate: row.target_date as string | undefined,
+        budget: row.budget_target_amount ? {
+            targetAmount: parseFloat(String(row.budget_target_amount)),
+            currentAmount: parseFloat(String(row.budget_current_amount || 0)),
+            currency: normalizeCurrency(row.budget_currency as string | null) ?? DEFAULT_CURRENCY
+        } : undefined,
+        checklist: children.checklist ?? [],
+        comments: children.comments ?? [],
+        attachments: children.attachments ?? [],
+        createdAt: row.created_at as string,
+        version: (row.version as number | null) ?? undefined,
+        updatedAt: (row.updated_at as string | null) ?? undefined,
+        deletedAt: (row.deleted_at as string | null) ?? undefined
+    }
+}
+
+export function mapRevenueRow(row: Row, children: Partial<Revenue> = {}): Revenue {
+    return {
+        id: row.id as string,
+        name: row.name as string,
+        description: row.description as string | undefined,
+        projectName: row.project_name as string,
+        price: parseFloat(String(row.price)),
+        currency: normalizeCurrency(row.currency as string | null) ?? DEFAULT_CURRENCY,
+        dateCompleted: row.date_completed as string,
+        sourceCardId: (row.source_card_id as string | null) ?? undefined,
+        attachments: children.attachments ?? [],
+        createdAt: row.created_at as string,
+        deletedAt: (row.deleted_at as string | null) ?? undefined
+    }
+}
+
+export function mapExpenseRow(row: Row): Expense {
+    return {
+        id: row.id as string,
+        description: row.description as string,
+        amount: parseFloat(String(row.amount)),
+        currency: normalizeCurrency(row.currency as string | null) ?? DEFAULT_CURRENCY,
+        category: row.category as string,
+        date: row.expense_date as string,
+        projectName: (row.project_name as string | null) || undefined,
+        // The receipt has no row of its own; its id only needs to be stable for rendering
+        receipt: row.receipt_url ? {
+            id: `${row.id}:receipt`,
+            type: 'file',
+            name: (row.receipt_name as string | null) || 'Receipt',
+            url: row.receipt_url as string
+        } : undefined,
+        createdAt: row.created_at as string,
+        deletedAt: (row.deleted_at as string | null) ?? undefined
+    }
+}
+
+export function mapExchangeRateRow(row: Row): ExchangeRate {
+    return {
+        id: row.id as string,
+        fromCurrency: row.from_currency as string,
+        toCurrency: row.to_currency as string,
+        rate: parseFloat(String(row.rate)),
+        rateDate: row.rate_date as string,
+        createdAt: row.created_at as string
+    }
+}
+
+export function mapClientRow(row: Row): Client {
+    return {
+        id: row.id as string,
+        name: row.name as string,
+        email: (row.email as string | null) || undefined,
+        phone: (row.phone as string | null) || undefined,
+        billingAddress: (row.billing_address as string | null) || undefined,
+        createdAt: row.created_at as string
+    }
+}
+
+export function mapInvoiceItemRow(row: Row): InvoiceItem {
+    return {
+        id: row.id as string,
+        revenueId: row.revenue_id as string
+    }
+}
+
+export function mapInvoiceRow(row: Row, children: Partial<Invoice> = {}): Invoice {
+    return {
+        id: row.id as string,
+        number: row.number as string,
+        clientId: (row.client_id as string | null) ?? null,
+        status: row.status as Invoice['status'],
+        issueDate: row.issue_date as string,
+        dueDate: row.due_date as string,
+        currency: normalizeCurrency(row.currency as string | null) ?? DEFAULT_CURRENCY,
+        taxRate: parseFloat(String(row.tax_rate ?? 0)),
+        discount: parseFloat(String(row.discount ?? 0)),
+        notes: (row.notes as string | null) || undefined,
+        items: children.items ?? [],
+        paidAt: (row.paid_at as string | null) ?? undefined,
+        createdAt: row.created_at as string
+    }
+}
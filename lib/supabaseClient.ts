@@ -1,4 +1,6 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { createLocalBackend } from './localBackend'
+import { reportNetworkFailure } from './offlineStore'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
@@ -8,25 +10,35 @@ const hasValidCredentials = supabaseUrl &&
   supabaseAnonKey &&
   (supabaseUrl.startsWith('http://') || supabaseUrl.startsWith('https://'))
 
-// Mock client for SSR/build time when env vars aren't available or invalid
-const mockClient = {
-  from: () => ({
-    select: () => ({ order: () => Promise.resolve({ data: [], error: null }), eq: () => Promise.resolve({ data: [], error: null }), single: () => Promise.resolve({ data: null, error: null }) }),
-    insert: () => ({ select: () => ({ single: () => Promise.resolve({ data: null, error: null }) }) }),
-    update: () => ({ eq: () => Promise.resolve({ error: null }) }),
-    delete: () => ({ eq: () => Promise.resolve({ error: null }) }),
-    eq: () => Promise.resolve({ data: [], error: null }),
-    order: () => Promise.resolve({ data: [], error: null }),
-  }),
-} as unknown as SupabaseClient
-
-// Export supabase client - uses mock if env vars not configured properly
-export const supabase: SupabaseClient = hasValidCredentials
-  ? createClient(supabaseUrl!, supabaseAnonKey!)
-  : mockClient
+// NEXT_PUBLIC_DATA_BACKEND=local forces the in-browser backend even when credentials are set
+const useLocalBackend = process.env.NEXT_PUBLIC_DATA_BACKEND === 'local' || !hasValidCredentials
+
+// The part of the Supabase client the app talks to; every backend provides this surface
+export type DataBackend = Pick<SupabaseClient, 'from' | 'rpc' | 'channel' | 'removeChannel' | 'storage' | 'auth'>
+
+// Without a backend there is nobody to sign in against, so auth is skipped entirely
+export const isSupabaseConfigured = !useLocalBackend
+
+// For the few calls supabase-js doesn't cover, like uploads that report progress
+export const supabaseProject = useLocalBackend ? null : { url: supabaseUrl!, anonKey: supabaseAnonKey! }
+
+// fetch only rejects when a request never got an answer; the offline queue picks those writes up
+const trackedFetch: typeof fetch = (input, init) => fetch(input, init).catch(error => {
+  reportNetworkFailure()
+  throw error
+})
+
+// Supabase when configured, otherwise the local backend (memory + localStorage)
+export let supabase: DataBackend = useLocalBackend
+  ? createLocalBackend() as unknown as DataBackend
+  : createClient(supabaseUrl!, supabaseAnonKey!, { global: { fetch: trackedFetch } })
+
+// Swaps the backend at runtime, e.g. a fresh local backend per test
+export function setDataBackend(backend: DataBackend) {
+  supabase = backend
+}
 
 // Helper for runtime access
-export function getSupabase(): SupabaseClient {
+export function getSupabase(): DataBackend {
   return supabase
 }
-
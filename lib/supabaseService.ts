@@ -2,7 +2,216 @@
 
 import { supabase } from './supabaseClient'
 export { supabase }
-import { Plan, KanbanCard, Goal, Revenue, TimeSlot, Attachment, ChecklistItem, Comment } from './types'
+import { Plan, KanbanCard, Goal, Revenue, Expense, ExchangeRate, Client, Invoice, TimeSlot, Attachment, ChecklistItem, Comment, PlanException, Workspace, WorkspaceMember, WorkspaceInvitation, WorkspaceRole, TrashItem, TrashItemType } from './types'
+import { formatRRule, splitRecurrence } from './recurrence'
+import { mapAttachmentRow, mapCardRow, mapChecklistRow, mapCommentRow, mapGoalRow, mapPlanExceptionRow, mapPlanRow, mapRevenueRow, mapExpenseRow, mapExchangeRateRow, mapClientRow, mapInvoiceRow, mapInvoiceItemRow, mapTimeSlotRow } from './rowMappers'
+import { DEFAULT_CURRENCY } from './currency'
+import { withOccurrenceCompleted } from './planCards'
+import { isOffline, networkFailureCount, queueMutation, QueuedMutation, replayQueue, ReplayResult } from './offlineStore'
+
+// ============================================
+// OFFLINE QUEUE - Writes that wait for a connection
+// ============================================
+
+// Mutations that may be queued, looked up by name on replay. Replays call the write itself,
+// so one that fails again stays where it is in the queue instead of being queued twice.
+const QUEUEABLE_MUTATIONS: Record<string, (...args: never[]) => Promise<unknown>> = {}
+
+/**
+ * Wraps a write so it is queued for later, with `describe` giving the record it touches and
+ * the optimistic result, when the device is offline or when it failed because a request never
+ * reached the server (the browser can report being online on a dropped connection).
+ */
+function queueable<A extends unknown[], T>(
+    name: string,
+    describe: (...args: A) => [QueuedMutation['entity'], T],
+    write: (...args: A) => Promise<T>
+): (...args: A) => Promise<T> {
+    QUEUEABLE_MUTATIONS[name] = write as unknown as (...args: never[]) => Promise<unknown>
+
+    return async (...args: A) => {
+        const [entity, optimistic] = describe(...args)
+        if (isOffline()) return queueMutation(name, args, entity, optimistic)
+
+        const failures = networkFailureCount()
+        const result = await write(...args)
+        if (!result && networkFailureCount() > failures) return queueMutation(name, args, entity, optimistic)
+        return result
+    }
+}
+
+// ============================================
+// VERSIONING - Optimistic concurrency
+// ============================================
+
+type VersionedTable = 'plans' | 'kanban_cards' | 'goals'
+
+// Versions produced by this client's own writes. Local state keeps the version it loaded
+// until the realtime refresh lands, and that must not be mistaken for a stale copy.
+const ownVersions = new Map<string, number>()
+
+function knownVersion(table: VersionedTable, id: string, version?: number): number | undefined {
+    const own = ownVersions.get(`${table}:${id}`)
+    if (version === undefined) return own
+    return own !== undefined && own > version ? own : version
+}
+
+/**
+ * True if the server copy is newer than what the caller loaded (and not because of our own write).
+ */
+export function isStaleVersion(table: VersionedTable, id: string, localVersion?: number, remoteVersion?: number): boolean {
+    const known = knownVersion(table, id, localVersion)
+    return known !== undefined && remoteVersion !== undefined && remoteVersion > known
+}
+
+// Updates a row only if it is still at the version the caller loaded. Rows without a known
+// version fall back to a plain update (the database trigger still bumps the version).
+async function versionedUpdate(table: VersionedTable, id: string, payload: Record<string, unknown>, version?: number): Promise<'saved' | 'conflict' | 'error'> {
+    const expected = knownVersion(table, id, version)
+
+    if (expected === undefined) {
+        const { error } = await supabase.from(table).update(payload).eq('id', id)
+        if (error) {
+            console.error(`Error updating ${table}:`, JSON.stringify(error, null, 2))
+            return 'error'
+        }
+        return 'saved'
+    }
+
+    const { data, error } = await supabase
+        .from(table)
+        .update({ ...payload, version: expected + 1, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('version', expected)
+        .select('id')
+
+    if (error) {
+        console.error(`Error updating ${table}:`, JSON.stringify(error, null, 2))
+        return 'error'
+    }
+    if (!data || data.length === 0) {
+        console.warn(`Skipped stale write to ${table} ${id}: it was changed elsewhere (expected version ${expected})`)
+        return 'conflict'
+    }
+
+    ownVersions.set(`${table}:${id}`, expected + 1)
+    return 'saved'
+}
+
+// ============================================
+// CHILD ROWS - Granular sync
+// ============================================
+
+type ChildTable =
+    | 'plan_time_slots'
+    | 'plan_attachments'
+    | 'plan_checklist_items'
+    | 'plan_comments'
+    | 'card_checklist_items'
+    | 'card_comments'
+    | 'card_attachments'
+    | 'card_time_slots'
+    | 'goal_checklist_items'
+    | 'goal_comments'
+    | 'goal_attachments'
+    | 'revenue_attachments'
+    | 'invoice_items'
+
+function sameColumnValue(column: string, a: unknown, b: unknown): boolean {
+    // Timestamps come back from Postgres in a different (but equal) format
+    if (column.endsWith('_at') && typeof a === 'string' && typeof b === 'string') {
+        return new Date(a).getTime() === new Date(b).getTime()
+    }
+    return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+}
+
+// Columns shared by every attachments table
+function attachmentColumns(att: Attachment) {
+    return {
+        type: att.type,
+        name: att.name,
+        url: att.url,
+        storage_path: att.storagePath ?? null,
+        thumbnail_url: att.thumbnailUrl ?? null,
+        mime_type: att.mimeType ?? null,
+        size_bytes: att.size ?? null
+    }
+}
+
+// Inserts the child rows of a newly created parent
+async function insertChildRows(table: ChildTable, rows: Record<string, unknown>[]): Promise<boolean> {
+    if (rows.length === 0) return true
+
+    const { error } = await supabase.from(table).insert(rows)
+    if (error) {
+        console.error(`Error inserting ${table}:`, error)
+        return false
+    }
+    return true
+}
+
+/**
+ * Brings the child rows of one parent in line with `rows`: only new rows are inserted,
+ * changed rows updated and missing rows deleted, one batched call for each, so unchanged
+ * rows don't generate realtime events.
+ */
+async function syncChildRows(table: ChildTable, parentColumn: string, parentId: string, rows: Record<string, unknown>[]): Promise<boolean> {
+    const { data: existing, error } = await supabase
+        .from(table)
+        .select('*')
+        .eq(parentColumn, parentId)
+
+    if (error) {
+        console.error(`Error loading ${table}:`, error)
+        return false
+    }
+
+    const existingById = new Map((existing || []).map(row => [row.id as string, row as Record<string, unknown>]))
+    const incomingIds = new Set(rows.map(row => row.id as string))
+
+    const inserts = rows.filter(row => !existingById.has(row.id as string))
+    const updates = rows.filter(row => {
+        const current = existingById.get(row.id as string)
+        return current && Object.keys(row).some(column => !sameColumnValue(column, current[column], row[column]))
+    })
+    const deletes = [...existingById.keys()].filter(id => !incomingIds.has(id))
+
+    let ok = true
+
+    if (deletes.length > 0) {
+        const { error: deleteError } = await supabase.from(table).delete().in('id', deletes)
+        if (deleteError) {
+            console.error(`Error deleting ${table}:`, deleteError)
+            ok = false
+        }
+    }
+
+    if (updates.length > 0) {
+        const { error: updateError } = await supabase.from(table).upsert(updates)
+        if (updateError) {
+            console.error(`Error updating ${table}:`, updateError)
+            ok = false
+        }
+    }
+
+    if (inserts.length > 0) {
+        const { error: insertError } = await supabase.from(table).insert(inserts)
+        // Rows copied from another parent (e.g. attachments carried over from a plan) can clash
+        // on id; store those under fresh ids rather than moving them away from their owner
+        if (insertError?.code === '23505') {
+            const { error: retryError } = await supabase.from(table).insert(inserts.map(row => ({ ...row, id: generateUUID() })))
+            if (retryError) {
+                console.error(`Error inserting ${table}:`, retryError)
+                ok = false
+            }
+        } else if (insertError) {
+            console.error(`Error inserting ${table}:`, insertError)
+            ok = false
+        }
+    }
+
+    return ok
+}
 
 // ============================================
 // PLANS - CRUD Operations
@@ -14,6 +223,7 @@ export async function fetchPlans(): Promise<Plan[]> {
     const { data: plans, error } = await supabase
         .from('plans')
         .select('*')
+        .is('deleted_at', null)
         .order('date', { ascending: true })
 
     if (error) {
@@ -26,27 +236,62 @@ export async function fetchPlans(): Promise<Plan[]> {
     const planIds = plans.map(p => p.id)
 
     // Batch fetch all related data in parallel
-    const [allTimeSlots, allAttachments] = await Promise.all([
+    const [allTimeSlots, allAttachments, allExceptions, allChecklist, allComments] = await Promise.all([
         supabase.from('plan_time_slots').select('*').in('plan_id', planIds),
-        supabase.from('plan_attachments').select('*').in('plan_id', planIds)
+        supabase.from('plan_attachments').select('*').in('plan_id', planIds),
+        supabase.from('plan_exceptions').select('*').in('plan_id', planIds),
+        supabase.from('plan_checklist_items').select('*').in('plan_id', planIds),
+        supabase.from('plan_comments').select('*').in('plan_id', planIds).order('created_at', { ascending: true })
     ])
 
     // Group by plan_id
     const timeSlotsMap = groupByField(allTimeSlots.data || [], 'plan_id')
     const attachmentsMap = groupByField(allAttachments.data || [], 'plan_id')
+    const exceptionsMap = groupByField(allExceptions.data || [], 'plan_id')
+    const checklistMap = groupByField(allChecklist.data || [], 'plan_id')
+    const commentsMap = groupByField(allComments.data || [], 'plan_id')
+
+    return plans.map(plan => mapPlanRow(plan, {
+        timeSlots: (timeSlotsMap[plan.id] || []).map(mapTimeSlotRow),
+        attachments: (attachmentsMap[plan.id] || []).map(mapAttachmentRow),
+        exceptions: (exceptionsMap[plan.id] || []).map(mapPlanExceptionRow),
+        checklist: (checklistMap[plan.id] || []).map(mapChecklistRow),
+        comments: (commentsMap[plan.id] || []).map(mapCommentRow)
+    }))
+}
 
-    return plans.map(plan => ({
-        id: plan.id,
-        title: plan.title,
-        description: plan.description,
-        date: plan.date,
-        hasDueDate: plan.has_due_date,
-        dueDate: plan.due_date,
-        timeSlots: (timeSlotsMap[plan.id] || []).map((s: Record<string, string>) => ({ id: s.id, time: s.time, description: s.description })),
-        attachments: (attachmentsMap[plan.id] || []).map((a: Record<string, string>) => ({ id: a.id, type: a.type, name: a.name, url: a.url })),
-        completed: plan.completed,
-        createdAt: plan.created_at
-    } as Plan))
+// Fetches a single plan with its child rows (e.g. to merge a queued edit that conflicted)
+export async function fetchPlan(planId: string): Promise<Plan | null> {
+    if (isOffline()) return null
+
+    const { data: plan, error } = await supabase
+        .from('plans')
+        .select('*')
+        .eq('id', planId)
+        .is('deleted_at', null)
+        .maybeSingle()
+
+    if (error) {
+        console.error('Error fetching plan:', error)
+        return null
+    }
+    if (!plan) return null
+
+    const [timeSlots, attachments, exceptions, checklist, comments] = await Promise.all([
+        supabase.from('plan_time_slots').select('*').eq('plan_id', planId),
+        supabase.from('plan_attachments').select('*').eq('plan_id', planId),
+        supabase.from('plan_exceptions').select('*').eq('plan_id', planId),
+        supabase.from('plan_checklist_items').select('*').eq('plan_id', planId),
+        supabase.from('plan_comments').select('*').eq('plan_id', planId).order('created_at', { ascending: true })
+    ])
+
+    return mapPlanRow(plan, {
+        timeSlots: (timeSlots.data || []).map(mapTimeSlotRow),
+        attachments: (attachments.data || []).map(mapAttachmentRow),
+        exceptions: (exceptions.data || []).map(mapPlanExceptionRow),
+        checklist: (checklist.data || []).map(mapChecklistRow),
+        comments: (comments.data || []).map(mapCommentRow)
+    })
 }
 
 // Helper function to group array by key (for plans)
@@ -89,15 +334,10 @@ async function fetchPlanAttachments(planId: string): Promise<Attachment[]> {
         return []
     }
 
-    return (data || []).map(att => ({
-        id: att.id,
-        type: att.type,
-        name: att.name,
-        url: att.url
-    }))
+    return (data || []).map(mapAttachmentRow)
 }
 
-export async function createPlan(plan: Plan): Promise<Plan | null> {
+export const createPlan = queueable('createPlan', plan => [{ type: 'plan', id: plan.id }, plan], async (plan: Plan): Promise<Plan | null> => {
     const { data, error } = await supabase
         .from('plans')
         .insert({
@@ -108,6 +348,7 @@ export async function createPlan(plan: Plan): Promise<Plan | null> {
             has_due_date: plan.hasDueDate,
             due_date: plan.dueDate,
             completed: plan.completed,
+            recurrence_rule: formatRRule(plan.recurrence),
             created_at: plan.createdAt
         })
         .select()
@@ -118,115 +359,183 @@ export async function createPlan(plan: Plan): Promise<Plan | null> {
         return null
     }
 
-    // Insert time slots
-    if (plan.timeSlots && plan.timeSlots.length > 0) {
-        await supabase.from('plan_time_slots').insert(
-            plan.timeSlots.map(slot => ({
-                id: slot.id,
-                plan_id: plan.id,
-                time: slot.time,
-                description: slot.description
-            }))
-        )
-    }
-
-    // Insert attachments
-    if (plan.attachments && plan.attachments.length > 0) {
-        // Regenerate IDs
-        const attachmentsWithNewIds = plan.attachments.map(att => ({
-            id: generateUUID(),
+    // Insert child rows
+    const synced = await Promise.all([
+        insertChildRows('plan_time_slots', (plan.timeSlots || []).map(slot => ({
+            id: slot.id,
             plan_id: plan.id,
-            type: att.type,
-            name: att.name,
-            url: att.url
-        }))
-        await supabase.from('plan_attachments').insert(attachmentsWithNewIds)
-    }
+            time: slot.time,
+            description: slot.description
+        }))),
+        insertChildRows('plan_attachments', (plan.attachments || []).map(att => ({
+            id: att.id,
+            plan_id: plan.id,
+            ...attachmentColumns(att)
+        }))),
+        insertChildRows('plan_checklist_items', (plan.checklist || []).map(item => ({
+            id: item.id,
+            plan_id: plan.id,
+            text: item.text,
+            completed: item.completed
+        }))),
+        insertChildRows('plan_comments', (plan.comments || []).map(c => ({
+            id: c.id,
+            plan_id: plan.id,
+            text: c.text,
+            is_marked_done: c.isMarkedDone,
+            created_at: c.createdAt
+        })))
+    ])
 
-    return plan
-}
+    return synced.every(ok => ok) ? plan : null
+})
 
-export async function updatePlan(plan: Plan): Promise<boolean> {
-    const { error } = await supabase
-        .from('plans')
-        .update({
-            title: plan.title,
-            description: plan.description,
-            date: plan.date,
-            has_due_date: plan.hasDueDate,
-            due_date: plan.dueDate,
-            completed: plan.completed
-        })
-        .eq('id', plan.id)
+export const updatePlan = queueable('updatePlan', plan => [{ type: 'plan', id: plan.id }, true], async (plan: Plan): Promise<boolean> => {
+    const result = await versionedUpdate('plans', plan.id, {
+        title: plan.title,
+        description: plan.description,
+        date: plan.date,
+        has_due_date: plan.hasDueDate,
+        due_date: plan.dueDate,
+        completed: plan.completed,
+        // Partial updates (e.g. from Kanban sync) don't carry the rule, so leave the column alone
+        recurrence_rule: plan.recurrence === undefined ? undefined : formatRRule(plan.recurrence)
+    }, plan.version)
 
-    if (error) {
-        console.error('Error updating plan:', error)
-        return false
-    }
+    if (result !== 'saved') return false
 
-    // Update attachments
-    await supabase.from('plan_attachments').delete().eq('plan_id', plan.id)
-    if (plan.attachments && plan.attachments.length > 0) {
-        // Regenerate IDs
-        const attachmentsWithNewIds = plan.attachments.map(att => ({
-            id: generateUUID(),
+    // Update child rows - only what changed
+    const synced = await Promise.all([
+        syncChildRows('plan_attachments', 'plan_id', plan.id, (plan.attachments || []).map(att => ({
+            id: att.id,
             plan_id: plan.id,
-            type: att.type,
-            name: att.name,
-            url: att.url
-        }))
-        await supabase.from('plan_attachments').insert(attachmentsWithNewIds)
-    }
+            ...attachmentColumns(att)
+        }))),
+        // Plans cached before checklists existed have none loaded; leave their rows alone
+        plan.checklist && syncChildRows('plan_checklist_items', 'plan_id', plan.id, plan.checklist.map(item => ({
+            id: item.id,
+            plan_id: plan.id,
+            text: item.text,
+            completed: item.completed
+        }))),
+        plan.comments && syncChildRows('plan_comments', 'plan_id', plan.id, plan.comments.map(c => ({
+            id: c.id,
+            plan_id: plan.id,
+            text: c.text,
+            is_marked_done: c.isMarkedDone,
+            created_at: c.createdAt
+        })))
+    ])
 
-    return true
-}
+    return synced.every(ok => ok !== false)
+})
 
-export async function deletePlan(planId: string): Promise<boolean> {
-    // 1. Manually delete attachments first (in case CASCADE is not set)
-    const { error: attError } = await supabase
-        .from('plan_attachments')
-        .delete()
-        .eq('plan_id', planId)
+// Moves the plan to the Trash; linked cards keep their link and come back with it on restore
+export const deletePlan = queueable('deletePlan', planId => [{ type: 'plan', id: planId }, true], async (planId: string): Promise<boolean> => {
+    return setDeletedAt('plans', planId, new Date().toISOString())
+})
 
-    if (attError) {
-        console.error('Error deleting plan attachments:', attError)
-        // Continue anyway, maybe they don't exist
-    }
+export const restorePlan = queueable('restorePlan', planId => [{ type: 'plan', id: planId }, true], async (planId: string): Promise<boolean> => {
+    return setDeletedAt('plans', planId, null)
+})
 
-    // 2. Manually delete time slots (in case CASCADE is not set)
-    const { error: tsError } = await supabase
-        .from('plan_time_slots')
-        .delete()
-        .eq('plan_id', planId)
+// Deletes the plan for good: time slots, attachments, checklist, comments and exceptions cascade,
+// linked cards are unlinked (ON DELETE SET NULL)
+export const purgePlan = queueable('purgePlan', planId => [{ type: 'plan', id: planId }, true], async (planId: string): Promise<boolean> => {
+    return purgeRows('plans', [planId])
+})
 
-    if (tsError) {
-        console.error('Error deleting plan time slots:', tsError)
-    }
+// ============================================
+// PLAN RECURRENCE - Occurrence exceptions
+// ============================================
 
-    // 3. CRITICAL: Force unlink ANY cards that might still reference this plan
-    // This handles "zombie" cards that might be blocking deletion via FK
-    const { error: unlinkError } = await supabase
-        .from('kanban_cards')
-        .update({ linked_plan_id: null })
-        .eq('linked_plan_id', planId)
+export const upsertPlanException = queueable('upsertPlanException', exception => [{ type: 'plan', id: exception.planId }, exception], async (exception: PlanException): Promise<PlanException | null> => {
+    const { error } = await supabase
+        .from('plan_exceptions')
+        .upsert({
+            id: exception.id,
+            plan_id: exception.planId,
+            occurrence_date: exception.occurrenceDate,
+            cancelled: exception.cancelled,
+            completed: exception.completed,
+            title: exception.title || null,
+            description: exception.description || null,
+            time_slots: exception.timeSlots || null
+        }, { onConflict: 'plan_id,occurrence_date' })
 
-    if (unlinkError) {
-        console.error('Error unlinking cards from plan:', unlinkError)
+    if (error) {
+        console.error('Error saving plan exception:', error)
+        return null
     }
 
-    // 4. Delete the plan
+    return exception
+})
+
+// Hands the exceptions on or after `fromDate` to another plan, e.g. the new half of a split series
+export const movePlanExceptions = queueable('movePlanExceptions', (fromPlanId, toPlanId, fromDate) => [{ type: 'plan', id: toPlanId }, true], async (fromPlanId: string, toPlanId: string, fromDate: string): Promise<boolean> => {
     const { error } = await supabase
-        .from('plans')
-        .delete()
-        .eq('id', planId)
+        .from('plan_exceptions')
+        .update({ plan_id: toPlanId })
+        .eq('plan_id', fromPlanId)
+        .gte('occurrence_date', fromDate)
 
     if (error) {
-        console.error('Error deleting plan:', error)
+        console.error('Error moving plan exceptions:', error)
         return false
     }
-
-    // If no error, consider it a success (even if plan was already deleted)
     return true
+})
+
+/**
+ * "This and following" edit: the original series is cut off before `occurrenceDate`
+ * and a new plan carrying `changes` continues the series from that date.
+ * Exceptions on or after the split move to the new plan.
+ * Every write goes through the offline queue, so a split made offline replays in order.
+ * Returns the updated original (null if it no longer has occurrences) and the new plan.
+ */
+export async function splitPlanSeries(plan: Plan, occurrenceDate: string, changes: Plan): Promise<{ original: Plan | null, created: Plan } | null> {
+    if (!plan.recurrence) return null
+
+    const { head, tail } = splitRecurrence(plan, occurrenceDate)
+    const movedExceptions = (plan.exceptions || []).filter(e => e.occurrenceDate >= occurrenceDate)
+
+    // Keep the remaining COUNT unless the rule itself was edited
+    const ruleUnchanged = formatRRule(changes.recurrence) === formatRRule(plan.recurrence)
+    const createdId = generateUUID()
+    const created: Plan = {
+        ...changes,
+        id: createdId,
+        date: changes.date,
+        recurrence: ruleUnchanged ? tail : changes.recurrence,
+        // The original keeps its rows, so the new series gets copies
+        checklist: changes.checklist?.map(item => ({ ...item, id: generateUUID() })),
+        comments: changes.comments?.map(c => ({ ...c, id: generateUUID() })),
+        completed: false,
+        createdAt: new Date().toISOString(),
+        exceptions: movedExceptions.map(e => ({ ...e, planId: createdId })),
+        occurrenceDate: undefined
+    }
+
+    if (!(await createPlan(created))) return null
+
+    if (movedExceptions.length > 0) {
+        await movePlanExceptions(plan.id, created.id, occurrenceDate)
+    }
+
+    if (!head) {
+        await deletePlan(plan.id)
+        return { original: null, created }
+    }
+
+    const original: Plan = {
+        ...plan,
+        recurrence: head,
+        exceptions: (plan.exceptions || []).filter(e => e.occurrenceDate < occurrenceDate),
+        occurrenceDate: undefined
+    }
+    if (!(await updatePlan(original))) return null
+
+    return { original, created }
 }
 
 export async function deleteOrphanPlans(title: string): Promise<void> {
@@ -235,6 +544,7 @@ export async function deleteOrphanPlans(title: string): Promise<void> {
         .from('plans')
         .select('id')
         .eq('title', title)
+        .is('deleted_at', null)
 
     if (error || !plans || plans.length === 0) return
 
@@ -256,7 +566,7 @@ export async function deleteOrphanPlans(title: string): Promise<void> {
     // 4. Delete orphans
     if (orphanIds.length > 0) {
         console.log(`Cleaning up ${orphanIds.length} orphan plans for title "${title}"`)
-        await Promise.all(orphanIds.map(id => deletePlan(id)))
+        await Promise.all(orphanIds.map(id => purgePlan(id)))
     }
 }
 
@@ -264,10 +574,10 @@ export async function deleteOrphanPlans(title: string): Promise<void> {
 // KANBAN CARDS - CRUD Operations
 // ============================================
 
-export async function fetchCards(): Promise<KanbanCard[]> {
-    const { data: cards, error } = await supabase
-        .from('kanban_cards')
-        .select('*')
+// Cards of one board: the personal board when `workspaceId` is null, otherwise that workspace's
+export async function fetchCards(workspaceId: string | null = null): Promise<KanbanCard[]> {
+    const query = supabase.from('kanban_cards').select('*').is('deleted_at', null)
+    const { data: cards, error } = await (workspaceId ? query.eq('workspace_id', workspaceId) : query.is('workspace_id', null))
         .order('position', { ascending: true })
         .order('created_at', { ascending: false }) // Secondary sort
 
@@ -294,21 +604,44 @@ export async function fetchCards(): Promise<KanbanCard[]> {
     const commentsMap = groupBy(allComments.data || [], 'card_id')
     const attachmentsMap = groupBy(allAttachments.data || [], 'card_id')
 
-    return cards.map(card => ({
-        id: card.id,
-        title: card.title,
-        description: card.description,
-        status: card.status,
-        startDate: card.start_date,
-        endDate: card.end_date,
-        linkedPlanId: card.linked_plan_id,
-        timeSlots: (timeSlotsMap[card.id] || []).map((s: Record<string, string>) => ({ id: s.id, time: s.time, description: s.description })),
-        checklist: (checklistMap[card.id] || []).map((i: Record<string, unknown>) => ({ id: i.id as string, text: i.text as string, completed: i.completed as boolean })),
-        comments: (commentsMap[card.id] || []).map((c: Record<string, unknown>) => ({ id: c.id as string, text: c.text as string, createdAt: c.created_at as string, isMarkedDone: c.is_marked_done as boolean })),
-        attachments: (attachmentsMap[card.id] || []).map((a: Record<string, string>) => ({ id: a.id, type: a.type, name: a.name, url: a.url })),
-        createdAt: card.created_at,
-        position: card.position || 0
-    } as KanbanCard))
+    return cards.map(card => mapCardRow(card, {
+        timeSlots: (timeSlotsMap[card.id] || []).map(mapTimeSlotRow),
+        checklist: (checklistMap[card.id] || []).map(mapChecklistRow),
+        comments: (commentsMap[card.id] || []).map(mapCommentRow),
+        attachments: (attachmentsMap[card.id] || []).map(mapAttachmentRow)
+    }))
+}
+
+// Fetches a single card with its child rows (e.g. to check for newer versions before saving)
+export async function fetchCard(cardId: string): Promise<KanbanCard | null> {
+    if (isOffline()) return null
+
+    const { data: card, error } = await supabase
+        .from('kanban_cards')
+        .select('*')
+        .eq('id', cardId)
+        .is('deleted_at', null)
+        .maybeSingle()
+
+    if (error) {
+        console.error('Error fetching card:', error)
+        return null
+    }
+    if (!card) return null
+
+    const [timeSlots, checklist, comments, attachments] = await Promise.all([
+        supabase.from('card_time_slots').select('*').eq('card_id', cardId),
+        supabase.from('card_checklist_items').select('*').eq('card_id', cardId),
+        supabase.from('card_comments').select('*').eq('card_id', cardId),
+        supabase.from('card_attachments').select('*').eq('card_id', cardId)
+    ])
+
+    return mapCardRow(card, {
+        timeSlots: (timeSlots.data || []).map(mapTimeSlotRow),
+        checklist: (checklist.data || []).map(mapChecklistRow),
+        comments: (comments.data || []).map(mapCommentRow),
+        attachments: (attachments.data || []).map(mapAttachmentRow)
+    })
 }
 
 // Helper function to group array by key
@@ -373,15 +706,10 @@ async function fetchCardAttachments(cardId: string): Promise<Attachment[]> {
         .eq('card_id', cardId)
 
     if (error) return []
-    return (data || []).map(att => ({
-        id: att.id,
-        type: att.type,
-        name: att.name,
-        url: att.url
-    }))
+    return (data || []).map(mapAttachmentRow)
 }
 
-export async function createCard(card: KanbanCard): Promise<KanbanCard | null> {
+export const createCard = queueable('createCard', card => [{ type: 'card', id: card.id }, card], async (card: KanbanCard): Promise<KanbanCard | null> => {
     const { error } = await supabase
         .from('kanban_cards')
         .insert({
@@ -392,7 +720,13 @@ export async function createCard(card: KanbanCard): Promise<KanbanCard | null> {
             start_date: card.startDate,
             end_date: card.endDate,
             linked_plan_id: card.linkedPlanId,
-            created_at: card.createdAt
+            position: card.position ?? 0,
+            created_at: card.createdAt,
+            workspace_id: card.workspaceId ?? null,
+            assignee_ids: card.assigneeIds ?? [],
+            price: card.price ?? null,
+            currency: card.price == null ? null : card.currency ?? null,
+            project_name: card.projectName || null
         })
 
     if (error) {
@@ -400,161 +734,58 @@ export async function createCard(card: KanbanCard): Promise<KanbanCard | null> {
         return null
     }
 
-    // Insert related data
-    if (card.checklist.length > 0) {
-        await supabase.from('card_checklist_items').insert(
-            card.checklist.map(item => ({
-                id: item.id,
-                card_id: card.id,
-                text: item.text,
-                completed: item.completed
-            }))
-        )
-    }
-
-    if (card.comments.length > 0) {
-        await supabase.from('card_comments').insert(
-            card.comments.map(c => ({
-                id: c.id,
-                card_id: card.id,
-                text: c.text,
-                is_marked_done: c.isMarkedDone,
-                created_at: c.createdAt
-            }))
-        )
-    }
-
-    if (card.attachments.length > 0) {
-        await supabase.from('card_attachments').insert(
-            card.attachments.map(att => ({
-                id: att.id,
-                card_id: card.id,
-                type: att.type,
-                name: att.name,
-                url: att.url
-            }))
-        )
-    }
+    // Insert child rows
+    const synced = await Promise.all([
+        insertChildRows('card_checklist_items', card.checklist.map(item => ({
+            id: item.id,
+            card_id: card.id,
+            text: item.text,
+            completed: item.completed
+        }))),
+        insertChildRows('card_comments', card.comments.map(c => ({
+            id: c.id,
+            card_id: card.id,
+            text: c.text,
+            is_marked_done: c.isMarkedDone,
+            created_at: c.createdAt
+        }))),
+        insertChildRows('card_attachments', card.attachments.map(att => ({
+            id: att.id,
+            card_id: card.id,
+            ...attachmentColumns(att)
+        }))),
+        insertChildRows('card_time_slots', (card.timeSlots || []).map(slot => ({
+            id: slot.id,
+            card_id: card.id,
+            time: slot.time,
+            description: slot.description
+        })))
+    ])
 
-    return card
-}
+    return synced.every(ok => ok) ? card : null
+})
 
-export async function updateCard(card: KanbanCard): Promise<boolean> {
-    // If this is a virtual plan card (id starts with 'plan-'), do not update to kanban_cards table
-    // It should be handled by updatePlan instead
-    // If this is a virtual plan card (id starts with 'plan-'), handle it via updatePlan
+export const updateCard = queueable('updateCard', card => [{ type: 'card', id: card.id }, true], async (card: KanbanCard): Promise<boolean> => {
+    // Virtual plan cards (see planCards) have no card row: everything they show lives on the plan
     if (card.id.startsWith('plan-')) {
-        const planId = card.id.replace('plan-', '')
-        // We need to fetch the existing plan to preserve other fields, or construct partial
-        // For now, we construct a Plan object with the available info
         const planUpdate: Plan = {
-            id: planId,
+            id: card.id.replace('plan-', ''),
             title: card.title,
             description: card.description,
             date: card.startDate || new Date().toISOString().split('T')[0], // Fallback if missing
-            hasDueDate: !!card.endDate,
+            hasDueDate: !!(card.endDate && card.endDate !== card.startDate),
             dueDate: card.endDate,
             completed: card.status === 'completed',
             createdAt: card.createdAt,
-            // Attachments are key here
+            timeSlots: card.timeSlots,
             attachments: card.attachments,
-            // Checklist/Comments are NOT supported on Plans yet, so they will be lost/ignored
-            // timeSlots are read-only on cards usually, but passing them back just in case
-            timeSlots: card.timeSlots
+            checklist: card.checklist,
+            comments: card.comments,
+            version: card.version
         }
 
-        // 1. Update the underlying Plan (title, date, attachments)
-        const planUpdated = await updatePlan(planUpdate)
-        if (!planUpdated) return false
-
-        // 2. Handle Checklist & Comments (Promote to Real Card if needed)
-        // Check if a real card already exists for this plan
-        const { data: existingCard } = await supabase
-            .from('kanban_cards')
-            .select('id')
-            .eq('linked_plan_id', planId)
-            .single()
-
-        let realCardId = existingCard?.id
-
-        if (realCardId) {
-            // Real card exists, update it with these comments/checklist
-            // We recursively call updateCard with the REAL ID
-            // IMPORTANT: We pass attachments: [] to avoid duplicating them in card_attachments
-            // (Synced cards rely on plan_attachments, so we clear card_attachments to avoid confusion)
-            return await updateCard({
-                ...card,
-                id: realCardId,
-                attachments: []
-            })
-        } else if (card.checklist.length > 0 || card.comments.length > 0 || typeof card.position === 'number' || card.status === 'completed') {
-            // No real card exists, but we have data to save, so CREATE one
-            const newCardId = generateUUID()
-            const { error: createError } = await supabase
-                .from('kanban_cards')
-                .insert({
-                    id: newCardId,
-                    title: card.title,
-                    description: card.description || null,
-                    status: card.status,
-                    start_date: card.startDate || null,
-                    end_date: card.endDate || null,
-                    linked_plan_id: planId,
-                    created_at: new Date().toISOString(),
-                    position: card.position || 0
-                })
-
-            if (createError) {
-                console.error('Error creating linked card for metadata:', JSON.stringify(createError, null, 2))
-                // If it's a FK constraint error (plan doesn't exist), try creating without the link
-                if (createError.code === '23503') {
-                    const { error: retryError } = await supabase
-                        .from('kanban_cards')
-                        .insert({
-                            id: newCardId,
-                            title: card.title,
-                            description: card.description || null,
-                            status: card.status,
-                            start_date: card.startDate || null,
-                            end_date: card.endDate || null,
-                            linked_plan_id: null, // Skip the link if plan doesn't exist
-                            created_at: new Date().toISOString(),
-                            position: card.position || 0
-                        })
-                    if (retryError) return false
-                } else {
-                    return false
-                }
-            }
-
-            // Now insert the checklist/comments for this new card
-            if (card.checklist.length > 0) {
-                await supabase.from('card_checklist_items').insert(
-                    card.checklist.map(item => ({
-                        id: item.id,
-                        card_id: newCardId,
-                        text: item.text,
-                        completed: item.completed
-                    }))
-                )
-            }
-
-            if (card.comments.length > 0) {
-                await supabase.from('card_comments').insert(
-                    card.comments.map(c => ({
-                        id: c.id,
-                        card_id: newCardId,
-                        text: c.text,
-                        is_marked_done: c.isMarkedDone,
-                        created_at: c.createdAt
-                    }))
-                )
-            }
-
-            // Note: We do NOT insert attachments here because they are already on the Plan
-        }
-
-        return true
+        if (card.occurrenceDate) return updateOccurrenceFromCard(planUpdate, card.occurrenceDate)
+        return updatePlan(planUpdate)
     }
 
     // Sanitize data for Supabase (convert undefined to null)
@@ -565,78 +796,98 @@ export async function updateCard(card: KanbanCard): Promise<boolean> {
         start_date: card.startDate || null,
         end_date: card.endDate || null,
         linked_plan_id: card.linkedPlanId || null,
-        position: card.position || 0
-    }
-
-    const { error } = await supabase
-        .from('kanban_cards')
-        .update(updatePayload)
-        .eq('id', card.id)
-
-    if (error) {
-        console.error('Error updating card:', JSON.stringify(error, null, 2))
-        return false
-    }
-
-    // Update checklist - delete all and re-insert
-    await supabase.from('card_checklist_items').delete().eq('card_id', card.id)
-    if (card.checklist.length > 0) {
-        await supabase.from('card_checklist_items').insert(
-            card.checklist.map(item => ({
-                id: item.id,
-                card_id: card.id,
-                text: item.text,
-                completed: item.completed
-            }))
-        )
+        position: card.position || 0,
+        price: card.price ?? null,
+        currency: card.price == null ? null : card.currency ?? null,
+        project_name: card.projectName || null,
+        // Partial cards built from plans don't carry assignees; leave the column alone for those
+        ...(card.assigneeIds ? { assignee_ids: card.assigneeIds } : {})
     }
 
-    // Update comments
-    await supabase.from('card_comments').delete().eq('card_id', card.id)
-    if (card.comments.length > 0) {
-        await supabase.from('card_comments').insert(
-            card.comments.map(c => ({
-                id: c.id,
-                card_id: card.id,
-                text: c.text,
-                is_marked_done: c.isMarkedDone,
-                created_at: c.createdAt
-            }))
-        )
-    }
+    const result = await versionedUpdate('kanban_cards', card.id, updatePayload, card.version)
+    if (result !== 'saved') return false
 
-    // Update attachments
-    await supabase.from('card_attachments').delete().eq('card_id', card.id)
-    if (card.attachments.length > 0) {
-        // Regenerate IDs to avoid collisions with plan_attachments or other tables
-        const attachmentsWithNewIds = card.attachments.map(att => ({
-            id: generateUUID(), // CRITICAL: New ID
+    // Update child rows - only what changed
+    const synced = await Promise.all([
+        syncChildRows('card_checklist_items', 'card_id', card.id, card.checklist.map(item => ({
+            id: item.id,
             card_id: card.id,
-            type: att.type,
-            name: att.name,
-            url: att.url
-        }))
-
-        const { error: attError } = await supabase.from('card_attachments').insert(attachmentsWithNewIds)
-        if (attError) console.error('Error updating card attachments:', attError)
-    }
+            text: item.text,
+            completed: item.completed
+        }))),
+        syncChildRows('card_comments', 'card_id', card.id, card.comments.map(c => ({
+            id: c.id,
+            card_id: card.id,
+            text: c.text,
+            is_marked_done: c.isMarkedDone,
+            created_at: c.createdAt
+        }))),
+        syncChildRows('card_attachments', 'card_id', card.id, card.attachments.map(att => ({
+            id: att.id,
+            card_id: card.id,
+            ...attachmentColumns(att)
+        })))
+    ])
 
-    return true
+    return synced.every(ok => ok !== false)
+})
+
+/**
+ * Saves the virtual card of a recurring plan, which stands for one occurrence (see
+ * boardOccurrence). Its completion goes to that occurrence's exception; everything else goes
+ * to the series, which keeps its own dates and completion. A title or description already
+ * overridden for the occurrence stays with the occurrence.
+ */
+async function updateOccurrenceFromCard(planUpdate: Plan, occurrenceDate: string): Promise<boolean> {
+    const series = await fetchPlan(planUpdate.id)
+    if (!series) return false
+
+    const existing = series.exceptions?.find(e => e.occurrenceDate === occurrenceDate)
+    const { exception } = withOccurrenceCompleted(series, occurrenceDate, planUpdate.completed)
+    if (existing?.title) exception.title = planUpdate.title
+    if (existing?.description) exception.description = planUpdate.description
+
+    const changed = existing ? JSON.stringify(existing) !== JSON.stringify(exception) : exception.completed
+    const saved = await Promise.all([
+        !changed || upsertPlanException(exception),
+        updatePlan({
+            ...series,
+            version: planUpdate.version ?? series.version,
+            title: existing?.title ? series.title : planUpdate.title,
+            description: existing?.description ? series.description : planUpdate.description,
+            attachments: planUpdate.attachments,
+            checklist: planUpdate.checklist,
+            comments: planUpdate.comments
+        })
+    ])
+    return saved.every(Boolean)
 }
 
-export async function deleteCard(cardId: string): Promise<boolean> {
-    const { error } = await supabase
+export const deleteCard = queueable('deleteCard', cardId => [{ type: 'card', id: cardId }, true], async (cardId: string): Promise<boolean> => {
+    return setDeletedAt('kanban_cards', cardId, new Date().toISOString())
+})
+
+// A card scheduled through a trashed plan is only visible with that plan, so the plan comes back too
+export const restoreCard = queueable('restoreCard', cardId => [{ type: 'card', id: cardId }, true], async (cardId: string): Promise<boolean> => {
+    const { data: card, error } = await supabase
         .from('kanban_cards')
-        .delete()
+        .select('linked_plan_id')
         .eq('id', cardId)
+        .maybeSingle()
 
     if (error) {
-        console.error('Error deleting card:', error)
+        console.error('Error restoring card:', error)
         return false
     }
 
-    return true
-}
+    if (card?.linked_plan_id && !(await setDeletedAt('plans', card.linked_plan_id as string, null))) return false
+    return setDeletedAt('kanban_cards', cardId, null)
+})
+
+// Deletes the card for good, with its checklist, comments, attachments and time slots
+export const purgeCard = queueable('purgeCard', cardId => [{ type: 'card', id: cardId }, true], async (cardId: string): Promise<boolean> => {
+    return purgeRows('kanban_cards', [cardId])
+})
 
 // ============================================
 // GOALS - CRUD Operations
@@ -646,6 +897,7 @@ export async function fetchGoals(): Promise<Goal[]> {
     const { data: goals, error } = await supabase
         .from('goals')
         .select('*')
+        .is('deleted_at', null)
         .order('created_at', { ascending: false })
 
     if (error) {
@@ -655,32 +907,45 @@ export async function fetchGoals(): Promise<Goal[]> {
 
     const goalsWithRelations = await Promise.all(
         (goals || []).map(async (goal) => {
-            const [checklist, comments] = await Promise.all([
+            const [checklist, comments, attachments] = await Promise.all([
                 fetchGoalChecklist(goal.id),
-                fetchGoalComments(goal.id)
+                fetchGoalComments(goal.id),
+                fetchGoalAttachments(goal.id)
             ])
 
-            return {
-                id: goal.id,
-                title: goal.title,
-                description: goal.description,
-                goalType: goal.goal_type,
-                targetDate: goal.target_date,
-                budget: goal.budget_target_amount ? {
-                    targetAmount: parseFloat(goal.budget_target_amount),
-                    currentAmount: parseFloat(goal.budget_current_amount || 0),
-                    currency: goal.budget_currency || '₱'
-                } : undefined,
-                checklist,
-                comments,
-                createdAt: goal.created_at
-            } as Goal
+            return mapGoalRow(goal, { checklist, comments, attachments })
         })
     )
 
     return goalsWithRelations
 }
 
+// Fetches a single goal with its checklist, comments and attachments
+export async function fetchGoal(goalId: string): Promise<Goal | null> {
+    if (isOffline()) return null
+
+    const { data: goal, error } = await supabase
+        .from('goals')
+        .select('*')
+        .eq('id', goalId)
+        .is('deleted_at', null)
+        .maybeSingle()
+
+    if (error) {
+        console.error('Error fetching goal:', error)
+        return null
+    }
+    if (!goal) return null
+
+    const [checklist, comments, attachments] = await Promise.all([
+        fetchGoalChecklist(goalId),
+        fetchGoalComments(goalId),
+        fetchGoalAttachments(goalId)
+    ])
+
+    return mapGoalRow(goal, { checklist, comments, attachments })
+}
+
 async function fetchGoalChecklist(goalId: string): Promise<ChecklistItem[]> {
     const { data, error } = await supabase
         .from('goal_checklist_items')
@@ -711,7 +976,17 @@ async function fetchGoalComments(goalId: string): Promise<Comment[]> {
     }))
 }
 
-export async function createGoal(goal: Goal): Promise<Goal | null> {
+async function fetchGoalAttachments(goalId: string): Promise<Attachment[]> {
+    const { data, error } = await supabase
+        .from('goal_attachments')
+        .select('*')
+        .eq('goal_id', goalId)
+
+    if (error) return []
+    return (data || []).map(mapAttachmentRow)
+}
+
+export const createGoal = queueable('createGoal', goal => [{ type: 'goal', id: goal.id }, goal], async (goal: Goal): Promise<Goal | null> => {
     const { error } = await supabase
         .from('goals')
         .insert({
@@ -722,7 +997,7 @@ export async function createGoal(goal: Goal): Promise<Goal | null> {
             target_date: goal.targetDate,
             budget_target_amount: goal.budget?.targetAmount,
             budget_current_amount: goal.budget?.currentAmount || 0,
-            budget_currency: goal.budget?.currency || '₱',
+            budget_currency: goal.budget?.currency || DEFAULT_CURRENCY,
             created_at: goal.createdAt
         })
 
@@ -731,123 +1006,139 @@ export async function createGoal(goal: Goal): Promise<Goal | null> {
         return null
     }
 
-    if (goal.checklist.length > 0) {
-        await supabase.from('goal_checklist_items').insert(
-            goal.checklist.map(item => ({
-                id: item.id,
-                goal_id: goal.id,
-                text: item.text,
-                completed: item.completed
-            }))
-        )
-    }
-
-    if (goal.comments.length > 0) {
-        await supabase.from('goal_comments').insert(
-            goal.comments.map(c => ({
-                id: c.id,
-                goal_id: goal.id,
-                text: c.text,
-                is_marked_done: c.isMarkedDone,
-                created_at: c.createdAt
-            }))
-        )
-    }
-
-    return goal
-}
-
-export async function updateGoal(goal: Goal): Promise<boolean> {
-    const { error } = await supabase
-        .from('goals')
-        .update({
-            title: goal.title,
-            description: goal.description,
-            goal_type: goal.goalType,
-            target_date: goal.targetDate,
-            budget_target_amount: goal.budget?.targetAmount,
-            budget_current_amount: goal.budget?.currentAmount,
-            budget_currency: goal.budget?.currency
-        })
-        .eq('id', goal.id)
-
-    if (error) {
-        console.error('Error updating goal:', error)
-        return false
-    }
-
-    // Update checklist
-    await supabase.from('goal_checklist_items').delete().eq('goal_id', goal.id)
-    if (goal.checklist.length > 0) {
-        await supabase.from('goal_checklist_items').insert(
-            goal.checklist.map(item => ({
-                id: item.id,
-                goal_id: goal.id,
-                text: item.text,
-                completed: item.completed
-            }))
-        )
-    }
+    // Insert child rows
+    const synced = await Promise.all([
+        insertChildRows('goal_checklist_items', goal.checklist.map(item => ({
+            id: item.id,
+            goal_id: goal.id,
+            text: item.text,
+            completed: item.completed
+        }))),
+        insertChildRows('goal_comments', goal.comments.map(c => ({
+            id: c.id,
+            goal_id: goal.id,
+            text: c.text,
+            is_marked_done: c.isMarkedDone,
+            created_at: c.createdAt
+        }))),
+        insertChildRows('goal_attachments', (goal.attachments || []).map(att => ({
+            id: att.id,
+            goal_id: goal.id,
+            ...attachmentColumns(att)
+        })))
+    ])
 
-    // Update comments
-    await supabase.from('goal_comments').delete().eq('goal_id', goal.id)
-    if (goal.comments.length > 0) {
-        await supabase.from('goal_comments').insert(
-            goal.comments.map(c => ({
-                id: c.id,
-                goal_id: goal.id,
-                text: c.text,
-                is_marked_done: c.isMarkedDone,
-                created_at: c.createdAt
-            }))
-        )
-    }
+    return synced.every(ok => ok) ? goal : null
+})
+
+export const updateGoal = queueable('updateGoal', goal => [{ type: 'goal', id: goal.id }, true], async (goal: Goal): Promise<boolean> => {
+    const result = await versionedUpdate('goals', goal.id, {
+        title: goal.title,
+        description: goal.description,
+        goal_type: goal.goalType,
+        target_date: goal.targetDate,
+        budget_target_amount: goal.budget?.targetAmount,
+        budget_current_amount: goal.budget?.currentAmount,
+        budget_currency: goal.budget?.currency
+    }, goal.version)
+
+    if (result !== 'saved') return false
+
+    // Update child rows - only what changed
+    const synced = await Promise.all([
+        syncChildRows('goal_checklist_items', 'goal_id', goal.id, goal.checklist.map(item => ({
+            id: item.id,
+            goal_id: goal.id,
+            text: item.text,
+            completed: item.completed
+        }))),
+        syncChildRows('goal_comments', 'goal_id', goal.id, goal.comments.map(c => ({
+            id: c.id,
+            goal_id: goal.id,
+            text: c.text,
+            is_marked_done: c.isMarkedDone,
+            created_at: c.createdAt
+        }))),
+        // Goals cached before attachments existed have none loaded; leave their rows alone
+        goal.attachments && syncChildRows('goal_attachments', 'goal_id', goal.id, goal.attachments.map(att => ({
+            id: att.id,
+            goal_id: goal.id,
+            ...attachmentColumns(att)
+        })))
+    ])
 
-    return true
-}
+    return synced.every(ok => ok !== false)
+})
 
-export async function deleteGoal(goalId: string): Promise<boolean> {
-    const { error } = await supabase
-        .from('goals')
-        .delete()
-        .eq('id', goalId)
+export const deleteGoal = queueable('deleteGoal', goalId => [{ type: 'goal', id: goalId }, true], async (goalId: string): Promise<boolean> => {
+    return setDeletedAt('goals', goalId, new Date().toISOString())
+})
 
-    if (error) {
-        console.error('Error deleting goal:', error)
-        return false
-    }
+export const restoreGoal = queueable('restoreGoal', goalId => [{ type: 'goal', id: goalId }, true], async (goalId: string): Promise<boolean> => {
+    return setDeletedAt('goals', goalId, null)
+})
 
-    return true
-}
+export const purgeGoal = queueable('purgeGoal', goalId => [{ type: 'goal', id: goalId }, true], async (goalId: string): Promise<boolean> => {
+    return purgeRows('goals', [goalId])
+})
 
 // ============================================
 // REVENUE - CRUD Operations
 // ============================================
 
 export async function fetchRevenues(): Promise<Revenue[]> {
-    const { data, error } = await supabase
+    const { data: revenues, error } = await supabase
         .from('revenues')
         .select('*')
+        .is('deleted_at', null)
         .order('date_completed', { ascending: false })
 
     if (error) {
         console.error('Error fetching revenues:', error)
         return []
     }
+    if (!revenues || revenues.length === 0) return []
+
+    const { data: attachments, error: attachmentsError } = await supabase
+        .from('revenue_attachments')
+        .select('*')
+        .in('revenue_id', revenues.map(revenue => revenue.id))
 
-    return (data || []).map(rev => ({
-        id: rev.id,
-        name: rev.name,
-        description: rev.description,
-        projectName: rev.project_name,
-        price: parseFloat(rev.price),
-        currency: rev.currency,
-        dateCompleted: rev.date_completed,
-        createdAt: rev.created_at
+    if (attachmentsError) console.error('Error fetching revenue attachments:', attachmentsError)
+    const attachmentsByRevenue = groupBy(attachments || [], 'revenue_id')
+
+    return revenues.map(revenue => mapRevenueRow(revenue, {
+        attachments: (attachmentsByRevenue[revenue.id] || []).map(mapAttachmentRow)
     }))
 }
 
-export async function createRevenue(revenue: Revenue): Promise<Revenue | null> {
+// Fetches a single revenue entry with its attachments (e.g. one restored from the Trash elsewhere)
+export async function fetchRevenue(revenueId: string): Promise<Revenue | null> {
+    if (isOffline()) return null
+
+    const { data: revenue, error } = await supabase
+        .from('revenues')
+        .select('*')
+        .eq('id', revenueId)
+        .is('deleted_at', null)
+        .maybeSingle()
+
+    if (error) {
+        console.error('Error fetching revenue:', error)
+        return null
+    }
+    if (!revenue) return null
+
+    const { data: attachments, error: attachmentsError } = await supabase
+        .from('revenue_attachments')
+        .select('*')
+        .eq('revenue_id', revenueId)
+
+    if (attachmentsError) console.error('Error fetching revenue attachments:', attachmentsError)
+    return mapRevenueRow(revenue, { attachments: (attachments || []).map(mapAttachmentRow) })
+}
+
+export const createRevenue = queueable('createRevenue', revenue => [{ type: 'revenue', id: revenue.id }, revenue], async (revenue: Revenue): Promise<Revenue | null> => {
     const { error } = await supabase
         .from('revenues')
         .insert({
@@ -858,6 +1149,7 @@ export async function createRevenue(revenue: Revenue): Promise<Revenue | null> {
             price: revenue.price,
             currency: revenue.currency,
             date_completed: revenue.dateCompleted,
+            source_card_id: revenue.sourceCardId ?? null,
             created_at: revenue.createdAt
         })
 
@@ -866,10 +1158,20 @@ export async function createRevenue(revenue: Revenue): Promise<Revenue | null> {
         return null
     }
 
+    if (revenue.attachments && revenue.attachments.length > 0) {
+        await supabase.from('revenue_attachments').insert(
+            revenue.attachments.map(att => ({
+                id: att.id,
+                revenue_id: revenue.id,
+                ...attachmentColumns(att)
+            }))
+        )
+    }
+
     return revenue
-}
+})
 
-export async function updateRevenue(revenue: Revenue): Promise<boolean> {
+export const updateRevenue = queueable('updateRevenue', revenue => [{ type: 'revenue', id: revenue.id }, true], async (revenue: Revenue): Promise<boolean> => {
     const { error } = await supabase
         .from('revenues')
         .update({
@@ -878,7 +1180,8 @@ export async function updateRevenue(revenue: Revenue): Promise<boolean> {
             project_name: revenue.projectName,
             price: revenue.price,
             currency: revenue.currency,
-            date_completed: revenue.dateCompleted
+            date_completed: revenue.dateCompleted,
+            source_card_id: revenue.sourceCardId ?? null
         })
         .eq('id', revenue.id)
 
@@ -887,23 +1190,421 @@ export async function updateRevenue(revenue: Revenue): Promise<boolean> {
         return false
     }
 
+    // Entries cached before attachments existed have none loaded; leave their rows alone
+    if (!revenue.attachments) return true
+    return syncChildRows('revenue_attachments', 'revenue_id', revenue.id, revenue.attachments.map(att => ({
+        id: att.id,
+        revenue_id: revenue.id,
+        ...attachmentColumns(att)
+    })))
+})
+
+export const deleteRevenue = queueable('deleteRevenue', revenueId => [{ type: 'revenue', id: revenueId }, true], async (revenueId: string): Promise<boolean> => {
+    return setDeletedAt('revenues', revenueId, new Date().toISOString())
+})
+
+export const restoreRevenue = queueable('restoreRevenue', revenueId => [{ type: 'revenue', id: revenueId }, true], async (revenueId: string): Promise<boolean> => {
+    return setDeletedAt('revenues', revenueId, null)
+})
+
+export const purgeRevenue = queueable('purgeRevenue', revenueId => [{ type: 'revenue', id: revenueId }, true], async (revenueId: string): Promise<boolean> => {
+    return purgeRows('revenues', [revenueId])
+})
+
+// ============================================
+// EXPENSES - CRUD Operations
+// ============================================
+
+export async function fetchExpenses(): Promise<Expense[]> {
+    const { data, error } = await supabase
+        .from('expenses')
+        .select('*')
+        .is('deleted_at', null)
+        .order('expense_date', { ascending: false })
+
+    if (error) {
+        console.error('Error fetching expenses:', error)
+        return []
+    }
+
+    return (data || []).map(mapExpenseRow)
+}
+
+function expenseColumns(expense: Expense) {
+    return {
+        description: expense.description,
+        amount: expense.amount,
+        currency: expense.currency,
+        category: expense.category,
+        expense_date: expense.date,
+        project_name: expense.projectName ?? null,
+        receipt_name: expense.receipt?.name ?? null,
+        receipt_url: expense.receipt?.url ?? null
+    }
+}
+
+export const createExpense = queueable('createExpense', expense => [{ type: 'expense', id: expense.id }, expense], async (expense: Expense): Promise<Expense | null> => {
+    const { error } = await supabase
+        .from('expenses')
+        .insert({ id: expense.id, ...expenseColumns(expense), created_at: expense.createdAt })
+
+    if (error) {
+        console.error('Error creating expense:', error)
+        return null
+    }
+
+    return expense
+})
+
+export const updateExpense = queueable('updateExpense', expense => [{ type: 'expense', id: expense.id }, true], async (expense: Expense): Promise<boolean> => {
+    const { error } = await supabase
+        .from('expenses')
+        .update(expenseColumns(expense))
+        .eq('id', expense.id)
+
+    if (error) {
+        console.error('Error updating expense:', error)
+        return false
+    }
+
+    return true
+})
+
+export const deleteExpense = queueable('deleteExpense', expenseId => [{ type: 'expense', id: expenseId }, true], async (expenseId: string): Promise<boolean> => {
+    return setDeletedAt('expenses', expenseId, new Date().toISOString())
+})
+
+export const restoreExpense = queueable('restoreExpense', expenseId => [{ type: 'expense', id: expenseId }, true], async (expenseId: string): Promise<boolean> => {
+    return setDeletedAt('expenses', expenseId, null)
+})
+
+export const purgeExpense = queueable('purgeExpense', expenseId => [{ type: 'expense', id: expenseId }, true], async (expenseId: string): Promise<boolean> => {
+    return purgeRows('expenses', [expenseId])
+})
+
+// ============================================
+// EXCHANGE RATES - Manually entered, one per pair and day
+// ============================================
+
+export async function fetchExchangeRates(): Promise<ExchangeRate[]> {
+    const { data, error } = await supabase
+        .from('exchange_rates')
+        .select('*')
+        .order('rate_date', { ascending: false })
+
+    if (error) {
+        console.error('Error fetching exchange rates:', error)
+        return []
+    }
+
+    return (data || []).map(mapExchangeRateRow)
+}
+
+// Creates or updates by id; callers reuse the id of an existing rate for the same pair and day
+export const saveExchangeRate = queueable('saveExchangeRate', rate => [{ type: 'exchangeRate', id: rate.id }, rate], async (rate: ExchangeRate): Promise<ExchangeRate | null> => {
+    const { error } = await supabase
+        .from('exchange_rates')
+        .upsert({
+            id: rate.id,
+            from_currency: rate.fromCurrency,
+            to_currency: rate.toCurrency,
+            rate: rate.rate,
+            rate_date: rate.rateDate,
+            created_at: rate.createdAt
+        })
+
+    if (error) {
+        console.error('Error saving exchange rate:', error)
+        return null
+    }
+
+    return rate
+})
+
+export const deleteExchangeRate = queueable('deleteExchangeRate', rateId => [{ type: 'exchangeRate', id: rateId }, true], async (rateId: string): Promise<boolean> => {
+    const { error } = await supabase
+        .from('exchange_rates')
+        .delete()
+        .eq('id', rateId)
+
+    if (error) {
+        console.error('Error deleting exchange rate:', error)
+        return false
+    }
+
     return true
+})
+
+// ============================================
+// CLIENTS & INVOICES - Billing for revenue entries
+// ============================================
+
+export async function fetchClients(): Promise<Client[]> {
+    const { data, error } = await supabase
+        .from('clients')
+        .select('*')
+        .order('name', { ascending: true })
+
+    if (error) {
+        console.error('Error fetching clients:', error)
+        return []
+    }
+
+    return (data || []).map(mapClientRow)
 }
 
-export async function deleteRevenue(revenueId: string): Promise<boolean> {
+// Creates or updates by id
+export const saveClient = queueable('saveClient', client => [{ type: 'client', id: client.id }, client], async (client: Client): Promise<Client | null> => {
     const { error } = await supabase
-        .from('revenues')
+        .from('clients')
+        .upsert({
+            id: client.id,
+            name: client.name,
+            email: client.email ?? null,
+            phone: client.phone ?? null,
+            billing_address: client.billingAddress ?? null,
+            created_at: client.createdAt
+        })
+
+    if (error) {
+        console.error('Error saving client:', error)
+        return null
+    }
+
+    return client
+})
+
+// Fails while the client still has invoices (ON DELETE RESTRICT)
+export const deleteClient = queueable('deleteClient', clientId => [{ type: 'client', id: clientId }, true], async (clientId: string): Promise<boolean> => {
+    const { error } = await supabase
+        .from('clients')
         .delete()
-        .eq('id', revenueId)
+        .eq('id', clientId)
+
+    if (error) {
+        console.error('Error deleting client:', error)
+        return false
+    }
+
+    return true
+})
+
+export async function fetchInvoices(): Promise<Invoice[]> {
+    const { data: invoices, error } = await supabase
+        .from('invoices')
+        .select('*')
+        .order('issue_date', { ascending: false })
+
+    if (error) {
+        console.error('Error fetching invoices:', error)
+        return []
+    }
+    if (!invoices || invoices.length === 0) return []
+
+    const { data: items, error: itemsError } = await supabase
+        .from('invoice_items')
+        .select('*')
+        .in('invoice_id', invoices.map(invoice => invoice.id))
+        .order('position', { ascending: true })
+
+    if (itemsError) console.error('Error fetching invoice items:', itemsError)
+    const itemsByInvoice = groupBy(items || [], 'invoice_id')
+
+    return invoices.map(invoice => mapInvoiceRow(invoice, {
+        items: (itemsByInvoice[invoice.id] || []).map(mapInvoiceItemRow)
+    }))
+}
+
+function invoiceColumns(invoice: Invoice) {
+    return {
+        client_id: invoice.clientId,
+        number: invoice.number,
+        status: invoice.status,
+        issue_date: invoice.issueDate,
+        due_date: invoice.dueDate,
+        currency: invoice.currency,
+        tax_rate: invoice.taxRate,
+        discount: invoice.discount,
+        notes: invoice.notes ?? null,
+        paid_at: invoice.paidAt ?? null
+    }
+}
+
+function invoiceItemRows(invoice: Invoice) {
+    return invoice.items.map((item, position) => ({
+        id: item.id,
+        invoice_id: invoice.id,
+        revenue_id: item.revenueId,
+        position
+    }))
+}
+
+export const createInvoice = queueable('createInvoice', invoice => [{ type: 'invoice', id: invoice.id }, invoice], async (invoice: Invoice): Promise<Invoice | null> => {
+    const { error } = await supabase
+        .from('invoices')
+        .insert({ id: invoice.id, ...invoiceColumns(invoice), created_at: invoice.createdAt })
+
+    if (error) {
+        console.error('Error creating invoice:', error)
+        return null
+    }
+
+    if (invoice.items.length > 0) {
+        const { error: itemsError } = await supabase.from('invoice_items').insert(invoiceItemRows(invoice))
+        // e.g. an entry already billed elsewhere: don't leave an empty invoice behind
+        if (itemsError) {
+            console.error('Error creating invoice items:', itemsError)
+            await supabase.from('invoices').delete().eq('id', invoice.id)
+            return null
+        }
+    }
+
+    return invoice
+})
+
+export const updateInvoice = queueable('updateInvoice', invoice => [{ type: 'invoice', id: invoice.id }, true], async (invoice: Invoice): Promise<boolean> => {
+    const { error } = await supabase
+        .from('invoices')
+        .update(invoiceColumns(invoice))
+        .eq('id', invoice.id)
+
+    if (error) {
+        console.error('Error updating invoice:', error)
+        return false
+    }
+
+    return syncChildRows('invoice_items', 'invoice_id', invoice.id, invoiceItemRows(invoice))
+})
+
+// Line items cascade; the billed revenue entries stay
+export const deleteInvoice = queueable('deleteInvoice', invoiceId => [{ type: 'invoice', id: invoiceId }, true], async (invoiceId: string): Promise<boolean> => {
+    const { error } = await supabase
+        .from('invoices')
+        .delete()
+        .eq('id', invoiceId)
+
+    if (error) {
+        console.error('Error deleting invoice:', error)
+        return false
+    }
+
+    return true
+})
+
+// ============================================
+// TRASH - Soft-deleted rows
+// ============================================
+
+// Deleting a plan, card, goal, revenue or expense only sets deleted_at; every fetch above skips those
+// rows. They stay restorable until purged by hand or by purgeExpiredTrash.
+
+type TrashTable = 'plans' | 'kanban_cards' | 'goals' | 'revenues' | 'expenses'
+
+const TRASH_TABLES: { table: TrashTable, type: TrashItemType, titleColumn: string }[] = [
+    { table: 'plans', type: 'plan', titleColumn: 'title' },
+    { table: 'kanban_cards', type: 'card', titleColumn: 'title' },
+    { table: 'goals', type: 'goal', titleColumn: 'title' },
+    { table: 'revenues', type: 'revenue', titleColumn: 'name' },
+    { table: 'expenses', type: 'expense', titleColumn: 'description' }
+]
+
+async function setDeletedAt(table: TrashTable, id: string, deletedAt: string | null): Promise<boolean> {
+    const { data, error } = await supabase
+        .from(table)
+        .update({ deleted_at: deletedAt })
+        .eq('id', id)
+        .select()
+
+    if (error) {
+        console.error(`Error ${deletedAt ? 'trashing' : 'restoring'} ${table}:`, error)
+        return false
+    }
+
+    // The version trigger counts this as an edit; record it as ours, so an undo followed by
+    // an edit from the copy loaded before isn't mistaken for a stale write
+    const version = data?.[0]?.version
+    if (typeof version === 'number' && (table === 'plans' || table === 'kanban_cards' || table === 'goals')) {
+        ownVersions.set(`${table}:${id}`, version)
+    }
+
+    return true
+}
+
+// Child rows cascade
+async function purgeRows(table: TrashTable, ids: string[]): Promise<boolean> {
+    if (ids.length === 0) return true
+
+    const { error } = await supabase
+        .from(table)
+        .delete()
+        .in('id', ids)
 
     if (error) {
-        console.error('Error deleting revenue:', error)
+        console.error(`Error purging ${table}:`, error)
         return false
     }
 
     return true
 }
 
+// Everything in the Trash, newest first. Cards are limited to one board, like fetchCards.
+export async function fetchTrash(workspaceId: string | null = null): Promise<TrashItem[]> {
+    const results = await Promise.all(TRASH_TABLES.map(async ({ table, type, titleColumn }) => {
+        let query = supabase
+            .from(table)
+            .select(`id, ${titleColumn}, deleted_at`)
+            .not('deleted_at', 'is', null)
+
+        if (table === 'kanban_cards') {
+            query = workspaceId ? query.eq('workspace_id', workspaceId) : query.is('workspace_id', null)
+        }
+
+        const { data, error } = await query
+        if (error) {
+            console.error(`Error fetching trashed ${table}:`, error)
+            return []
+        }
+
+        return ((data || []) as unknown as Record<string, unknown>[]).map((row): TrashItem => ({
+            type,
+            id: row.id as string,
+            title: (row[titleColumn] as string) || '',
+            deletedAt: row.deleted_at as string
+        }))
+    }))
+
+    return results.flat().sort((a, b) => b.deletedAt.localeCompare(a.deletedAt))
+}
+
+// Permanently removes everything trashed more than `retentionDays` ago; returns how many rows went
+export async function purgeExpiredTrash(retentionDays: number): Promise<number> {
+    if (isOffline()) return 0
+
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString()
+    let purged = 0
+
+    for (const { table } of TRASH_TABLES) {
+        let query = supabase
+            .from(table)
+            .select('id')
+            .lt('deleted_at', cutoff)
+
+        // Retention is a personal setting, so it never reaches cards other members trashed
+        if (table === 'kanban_cards') query = query.is('workspace_id', null)
+
+        const { data, error } = await query
+        if (error) {
+            console.error(`Error finding expired ${table}:`, error)
+            continue
+        }
+
+        const ids = (data || []).map(row => row.id as string)
+        if (await purgeRows(table, ids)) purged += ids.length
+    }
+
+    return purged
+}
+
 // ============================================
 // CUSTOM SECTIONS - CRUD Operations
 // ============================================
@@ -914,12 +1615,13 @@ export interface CustomSection {
     color: string
     position: number
     createdAt?: string
+    workspaceId?: string | null
 }
 
-export async function fetchCustomSections(): Promise<CustomSection[]> {
-    const { data, error } = await supabase
-        .from('custom_sections')
-        .select('*')
+// Sections belong to a board, like cards: personal when `workspaceId` is null
+export async function fetchCustomSections(workspaceId: string | null = null): Promise<CustomSection[]> {
+    const query = supabase.from('custom_sections').select('*')
+    const { data, error } = await (workspaceId ? query.eq('workspace_id', workspaceId) : query.is('workspace_id', null))
         .order('position', { ascending: true })
 
     if (error) {
@@ -932,7 +1634,8 @@ export async function fetchCustomSections(): Promise<CustomSection[]> {
         title: s.title,
         color: s.color,
         position: s.position,
-        createdAt: s.created_at
+        createdAt: s.created_at,
+        workspaceId: s.workspace_id
     }))
 }
 
@@ -943,7 +1646,8 @@ export async function createCustomSection(section: CustomSection): Promise<Custo
             id: section.id,
             title: section.title,
             color: section.color,
-            position: section.position
+            position: section.position,
+            workspace_id: section.workspaceId ?? null
         })
         .select()
         .single()
@@ -958,7 +1662,8 @@ export async function createCustomSection(section: CustomSection): Promise<Custo
         title: data.title,
         color: data.color,
         position: data.position,
-        createdAt: data.created_at
+        createdAt: data.created_at,
+        workspaceId: data.workspace_id
     }
 }
 
@@ -975,3 +1680,319 @@ export async function deleteCustomSection(sectionId: string): Promise<boolean> {
 
     return true
 }
+
+// ============================================
+// WORKSPACES - Shared boards, members and invitations
+// ============================================
+// Managing workspaces needs a connection; none of these are queued while offline.
+
+function mapMemberRow(row: Record<string, unknown>): WorkspaceMember {
+    return {
+        workspaceId: row.workspace_id as string,
+        userId: row.user_id as string,
+        role: row.role as WorkspaceRole,
+        email: row.email as string,
+        displayName: (row.display_name as string | null) ?? undefined,
+        avatarUrl: (row.avatar_url as string | null) ?? undefined,
+        joinedAt: row.created_at as string
+    }
+}
+
+function mapInvitationRow(row: Record<string, unknown>): WorkspaceInvitation {
+    const workspace = row.workspaces as { name?: string } | null
+    return {
+        id: row.id as string,
+        workspaceId: row.workspace_id as string,
+        workspaceName: workspace?.name,
+        email: row.email as string,
+        role: row.role as WorkspaceRole,
+        createdAt: row.created_at as string
+    }
+}
+
+// Workspaces the signed-in user belongs to, with their role in each
+export async function fetchWorkspaces(userId: string): Promise<Workspace[]> {
+    const { data, error } = await supabase
+        .from('workspace_members')
+        .select('role, workspaces (id, name, owner_id, created_at)')
+        .eq('user_id', userId)
+
+    if (error) {
+        console.error('Error fetching workspaces:', error)
+        return []
+    }
+
+    return (data || [])
+        .map(row => {
+            const workspace = row.workspaces as unknown as Record<string, unknown> | null
+            if (!workspace) return null
+            return {
+                id: workspace.id as string,
+                name: workspace.name as string,
+                ownerId: workspace.owner_id as string,
+                createdAt: workspace.created_at as string,
+                role: row.role as WorkspaceRole
+            }
+        })
+        .filter((w): w is Workspace => w !== null)
+        .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+// The creator becomes owner through a database trigger
+export async function createWorkspace(name: string): Promise<Workspace | null> {
+    const { data, error } = await supabase
+        .from('workspaces')
+        .insert({ id: generateUUID(), name })
+        .select()
+        .single()
+
+    if (error) {
+        console.error('Error creating workspace:', error)
+        return null
+    }
+
+    return {
+        id: data.id,
+        name: data.name,
+        ownerId: data.owner_id,
+        createdAt: data.created_at,
+        role: 'owner'
+    }
+}
+
+export async function renameWorkspace(workspaceId: string, name: string): Promise<boolean> {
+    const { error } = await supabase
+        .from('workspaces')
+        .update({ name })
+        .eq('id', workspaceId)
+
+    if (error) {
+        console.error('Error renaming workspace:', error)
+        return false
+    }
+    return true
+}
+
+// Cascades to the workspace's cards, sections, members and invitations
+export async function deleteWorkspace(workspaceId: string): Promise<boolean> {
+    const { error } = await supabase
+        .from('workspaces')
+        .delete()
+        .eq('id', workspaceId)
+
+    if (error) {
+        console.error('Error deleting workspace:', error)
+        return false
+    }
+    return true
+}
+
+export async function fetchWorkspaceMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+    const { data, error } = await supabase
+        .from('workspace_members')
+        .select('*')
+        .eq('workspace_id', workspaceId)
+        .order('created_at', { ascending: true })
+
+    if (error) {
+        console.error('Error fetching workspace members:', error)
+        return []
+    }
+    return (data || []).map(mapMemberRow)
+}
+
+export async function updateMemberRole(workspaceId: string, userId: string, role: WorkspaceRole): Promise<boolean> {
+    const { error } = await supabase
+        .from('workspace_members')
+        .update({ role })
+        .eq('workspace_id', workspaceId)
+        .eq('user_id', userId)
+
+    if (error) {
+        console.error('Error updating member role:', error)
+        return false
+    }
+    return true
+}
+
+// Also used to leave a workspace (removing yourself)
+export async function removeMember(workspaceId: string, userId: string): Promise<boolean> {
+    const { error } = await supabase
+        .from('workspace_members')
+        .delete()
+        .eq('workspace_id', workspaceId)
+        .eq('user_id', userId)
+
+    if (error) {
+        console.error('Error removing member:', error)
+        return false
+    }
+    return true
+}
+
+// Pending invitations sent from a workspace
+export async function fetchWorkspaceInvitations(workspaceId: string): Promise<WorkspaceInvitation[]> {
+    const { data, error } = await supabase
+        .from('workspace_invitations')
+        .select('*')
+        .eq('workspace_id', workspaceId)
+        .order('created_at', { ascending: true })
+
+    if (error) {
+        console.error('Error fetching invitations:', error)
+        return []
+    }
+    return (data || []).map(mapInvitationRow)
+}
+
+// Pending invitations addressed to the signed-in user's email
+export async function fetchMyInvitations(email: string): Promise<WorkspaceInvitation[]> {
+    const { data, error } = await supabase
+        .from('workspace_invitations')
+        .select('*, workspaces (name)')
+        .eq('email', email.toLowerCase())
+
+    if (error) {
+        console.error('Error fetching my invitations:', error)
+        return []
+    }
+    return (data || []).map(mapInvitationRow)
+}
+
+export async function inviteToWorkspace(workspaceId: string, email: string, role: WorkspaceRole): Promise<WorkspaceInvitation | null> {
+    const { data, error } = await supabase
+        .from('workspace_invitations')
+        .insert({
+            id: generateUUID(),
+            workspace_id: workspaceId,
+            email: email.trim().toLowerCase(),
+            role
+        })
+        .select()
+        .single()
+
+    if (error) {
+        console.error('Error inviting to workspace:', error)
+        return null
+    }
+    return mapInvitationRow(data)
+}
+
+// Revoking (by the workspace owner) and declining (by the invitee) both delete the invitation
+export async function deleteInvitation(invitationId: string): Promise<boolean> {
+    const { error } = await supabase
+        .from('workspace_invitations')
+        .delete()
+        .eq('id', invitationId)
+
+    if (error) {
+        console.error('Error deleting invitation:', error)
+        return false
+    }
+    return true
+}
+
+// Joins the workspace with the invited role; returns the workspace id
+export async function acceptInvitation(invitationId: string): Promise<string | null> {
+    const { data, error } = await supabase.rpc('accept_workspace_invitation', { invitation_id: invitationId })
+
+    if (error) {
+        console.error('Error accepting invitation:', error)
+        return null
+    }
+    return data as string
+}
+
+// ============================================
+// CALENDAR FEED - Subscription token
+// ============================================
+// One secret token per user for the .ics feed (see lib/calendarFeed.ts). Needs a connection.
+
+// 32 random bytes as hex
+function generateFeedToken(): string {
+    const bytes = new Uint8Array(32)
+    crypto.getRandomValues(bytes)
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export async function fetchCalendarFeedToken(userId: string): Promise<string | null> {
+    const { data, error } = await supabase
+        .from('calendar_feeds')
+        .select('token')
+        .eq('user_id', userId)
+        .maybeSingle()
+
+    if (error) {
+        console.error('Error fetching calendar feed:', error)
+        return null
+    }
+
+    return (data?.token as string | undefined) ?? null
+}
+
+// Creates the feed, or replaces its token so the previous URL stops working
+export async function rotateCalendarFeedToken(userId: string): Promise<string | null> {
+    const token = generateFeedToken()
+    const { error } = await supabase
+        .from('calendar_feeds')
+        .upsert({ user_id: userId, token, created_at: new Date().toISOString() }, { onConflict: 'user_id' })
+
+    if (error) {
+        console.error('Error saving calendar feed:', error)
+        return null
+    }
+
+    return token
+}
+
+export async function disableCalendarFeed(userId: string): Promise<boolean> {
+    const { error } = await supabase
+        .from('calendar_feeds')
+        .delete()
+        .eq('user_id', userId)
+
+    if (error) {
+        console.error('Error disabling calendar feed:', error)
+        return false
+    }
+
+    return true
+}
+
+// ============================================
+// OFFLINE SYNC - Replay of queued mutations
+// ============================================
+
+// Versioned updates whose failure may mean the record was changed elsewhere while offline
+const CONFLICTING_MUTATIONS: Record<string, { table: VersionedTable; fetch: (id: string) => Promise<{ version?: number } | null> }> = {
+    updatePlan: { table: 'plans', fetch: fetchPlan },
+    updateCard: { table: 'kanban_cards', fetch: fetchCard },
+    updateGoal: { table: 'goals', fetch: fetchGoal },
+}
+
+/**
+ * Tells a replayed update that failed because the server copy is newer apart from one that
+ * failed for another reason (and should just be retried).
+ */
+async function isConflict(name: string, args: unknown[]): Promise<boolean> {
+    const versioned = CONFLICTING_MUTATIONS[name]
+    const local = args[0] as { id: string; version?: number } | undefined
+    if (!versioned || !local || local.id.startsWith('plan-')) return false
+
+    const remote = await versioned.fetch(local.id)
+    return !!remote && isStaleVersion(versioned.table, local.id, local.version, remote.version)
+}
+
+export async function syncQueuedMutations(): Promise<void> {
+    await replayQueue(async (name, args): Promise<ReplayResult> => {
+        const mutation = QUEUEABLE_MUTATIONS[name]
+        if (!mutation) {
+            console.error(`Unknown queued mutation: ${name}`)
+            return 'failed'
+        }
+        const failures = networkFailureCount()
+        if (await mutation(...(args as never[]))) return 'saved'
+        if (networkFailureCount() > failures) return 'unreachable'
+        return await isConflict(name, args) ? 'conflict' : 'failed'
+    })
+}
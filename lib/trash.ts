@@ -0,0 +1,24 @@
+// How long deleted items stay in the Trash before they are purged for good.
+// The setting is per device (localStorage); 0 keeps items until they are deleted by hand.
+
+const STORAGE_KEY = 'planner-trash-retention'
+
+export const DEFAULT_RETENTION_DAYS = 30
+
+export const RETENTION_OPTIONS: { days: number, label: string }[] = [
+    { days: 7, label: '7 days' },
+    { days: 30, label: '30 days' },
+    { days: 90, label: '90 days' },
+    { days: 0, label: 'Forever' }
+]
+
+export function getRetentionDays(): number {
+    if (typeof window === 'undefined') return DEFAULT_RETENTION_DAYS
+    const saved = localStorage.getItem(STORAGE_KEY)
+    const days = saved === null ? NaN : Number(saved)
+    return RETENTION_OPTIONS.some(option => option.days === days) ? days : DEFAULT_RETENTION_DAYS
+}
+
+export function setRetentionDays(days: number) {
+    localStorage.setItem(STORAGE_KEY, String(days))
+}
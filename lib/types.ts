@@ -10,9 +10,44 @@ export interface Attachment {
     id: string
     type: 'link' | 'file'
     name: string
-    url: string // For links, the URL. For files, the data URL or file path
+    url: string // For links, the URL. For files, the public URL in the attachments bucket
+    storagePath?: string // Object path in the attachments bucket (uploaded files only)
+    thumbnailUrl?: string // Small JPEG for image files
+    mimeType?: string
+    size?: number // Bytes
 }
 
+// ========== Recurrence Types ==========
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly'
+
+// Two-letter weekday codes, same as RRULE BYDAY
+export type Weekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA'
+
+export interface RecurrenceRule {
+    frequency: RecurrenceFrequency
+    interval: number // Every N days/weeks/months/years
+    byWeekday?: Weekday[] // Weekly: which days. Monthly (nth weekday): single weekday
+    monthlyMode?: 'day-of-month' | 'nth-weekday' // Only for monthly rules
+    bySetPos?: number // Monthly nth weekday: 1-4, or -1 for last
+    count?: number // End after N occurrences
+    until?: string // YYYY-MM-DD, end on this date (inclusive)
+}
+
+// Per-occurrence override of a recurring plan ("this one only" edits)
+export interface PlanException {
+    id: string
+    planId: string
+    occurrenceDate: string // YYYY-MM-DD, the original date of the occurrence
+    cancelled: boolean // true = occurrence was deleted
+    completed: boolean
+    title?: string
+    description?: string
+    timeSlots?: TimeSlot[]
+}
+
+export type RecurrenceEditScope = 'this' | 'following' | 'all'
+
 export interface Plan {
     id: string
     title: string
@@ -22,8 +57,25 @@ export interface Plan {
     hasDueDate: boolean // true = multi-day task with due date, false = single-day task with times
     dueDate?: string // YYYY-MM-DD format (only if hasDueDate is true)
     attachments?: Attachment[] // Optional attachments
+    checklist?: ChecklistItem[] // Shared by every occurrence of a recurring plan
+    comments?: Comment[]
     completed: boolean
     createdAt: string
+    recurrence?: RecurrenceRule | null // Repeats starting from date (null clears it, undefined leaves it untouched on update)
+    exceptions?: PlanException[] // Overrides for single occurrences
+    occurrenceDate?: string // Set on expanded occurrences only (original occurrence date)
+    version?: number // Row version for conflict detection
+    updatedAt?: string
+    deletedAt?: string // Set while the plan is in the Trash
+}
+
+// Read-only item from elsewhere in the app shown on a Planner day, e.g. an invoice due date
+export interface CalendarDeadline {
+    id: string
+    date: string // YYYY-MM-DD
+    title: string
+    href: string
+    overdue: boolean
 }
 
 export interface PlanFormData {
@@ -35,6 +87,9 @@ export interface PlanFormData {
     dueDate: string
     includeTime: boolean
     attachments: Attachment[]
+    checklist: ChecklistItem[]
+    comments: Comment[]
+    recurrence: RecurrenceRule | null
 }
 
 // ========== Kanban Board Types ==========
@@ -71,7 +126,47 @@ export interface KanbanCard {
     attachments: Attachment[]
     createdAt: string
     linkedPlanId?: string  // Links to Plan.id for sync
+    occurrenceDate?: string // Virtual cards of recurring plans: the occurrence shown (see boardOccurrence)
     position?: number // For manual ordering
+    version?: number // Row version for conflict detection
+    updatedAt?: string
+    workspaceId?: string | null // Shared workspace board; null/undefined = personal board
+    assigneeIds?: string[] // Workspace members (auth user ids) assigned to the card
+    price?: number // What the card will be billed at once completed
+    currency?: string // ISO 4217 code for price
+    projectName?: string
+    deletedAt?: string // Set while the card is in the Trash
+}
+
+// ========== Workspace Types ==========
+
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer'
+
+export interface Workspace {
+    id: string
+    name: string
+    ownerId: string
+    createdAt: string
+    role: WorkspaceRole // The signed-in user's role in this workspace
+}
+
+export interface WorkspaceMember {
+    workspaceId: string
+    userId: string
+    role: WorkspaceRole
+    email: string
+    displayName?: string
+    avatarUrl?: string
+    joinedAt: string
+}
+
+export interface WorkspaceInvitation {
+    id: string
+    workspaceId: string
+    workspaceName?: string
+    email: string
+    role: WorkspaceRole
+    createdAt: string
 }
 
 // ========== Goals Types ==========
@@ -81,7 +176,7 @@ export type GoalType = 'material' | 'personal'
 export interface GoalBudget {
     targetAmount: number
     currentAmount: number
-    currency: string  // e.g., '₱', '$', '€'
+    currency: string  // ISO 4217 code, e.g. 'PHP'
 }
 
 export interface Goal {
@@ -93,7 +188,11 @@ export interface Goal {
     budget?: GoalBudget  // Only for material goals
     checklist: ChecklistItem[]
     comments: Comment[]
+    attachments?: Attachment[] // Reference images, quotes, links
     createdAt: string
+    version?: number // Row version for conflict detection
+    updatedAt?: string
+    deletedAt?: string // Set while the goal is in the Trash
 }
 
 // ========== Revenue Types ==========
@@ -104,8 +203,85 @@ export interface Revenue {
     description?: string
     projectName: string
     price: number
-    currency: string  // e.g., '₱', '$', '€'
+    currency: string  // ISO 4217 code, e.g. 'PHP'
     dateCompleted: string  // YYYY-MM-DD
+    sourceCardId?: string  // Kanban card the entry was recorded from
+    attachments?: Attachment[] // Receipts and other proof of payment
     createdAt: string
+    deletedAt?: string // Set while the revenue is in the Trash
 }
 
+// ========== Expense Types ==========
+
+export interface Expense {
+    id: string
+    description: string
+    amount: number
+    currency: string  // ISO 4217 code, e.g. 'PHP'
+    category: string
+    date: string  // YYYY-MM-DD
+    projectName?: string // Matches Revenue.projectName for profit per project
+    receipt?: Attachment // Uploaded file in the attachments bucket
+    createdAt: string
+    deletedAt?: string // Set while the expense is in the Trash
+}
+
+// ========== Invoice Types ==========
+
+export interface Client {
+    id: string
+    name: string
+    email?: string
+    phone?: string
+    billingAddress?: string // Free-form, printed as entered
+    createdAt: string
+}
+
+// 'overdue' is never stored: a sent invoice past its due date is shown as overdue (see lib/invoices.ts)
+export type InvoiceStatus = 'draft' | 'sent' | 'paid' | 'overdue'
+
+// One billed revenue entry
+export interface InvoiceItem {
+    id: string
+    revenueId: string
+}
+
+export interface Invoice {
+    id: string
+    number: string // e.g. 'INV-2026-001'
+    clientId: string | null
+    status: Exclude<InvoiceStatus, 'overdue'>
+    issueDate: string  // YYYY-MM-DD
+    dueDate: string    // YYYY-MM-DD
+    currency: string   // ISO 4217 code; every line item is in this currency
+    taxRate: number    // Percent, applied after the discount
+    discount: number   // Amount off the subtotal
+    notes?: string
+    items: InvoiceItem[]
+    paidAt?: string
+    createdAt: string
+}
+
+// ========== Currency Types ==========
+
+// 1 fromCurrency = rate toCurrency, from rateDate until the next rate for the pair
+export interface ExchangeRate {
+    id: string
+    fromCurrency: string
+    toCurrency: string
+    rate: number
+    rateDate: string  // YYYY-MM-DD
+    createdAt: string
+}
+
+// ========== Trash Types ==========
+
+export type TrashItemType = 'plan' | 'card' | 'goal' | 'revenue' | 'expense'
+
+// A soft-deleted row as listed on the Trash page
+export interface TrashItem {
+    type: TrashItemType
+    id: string
+    title: string
+    deletedAt: string
+}
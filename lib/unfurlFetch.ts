@@ -0,0 +1,107 @@
+import dns, { LookupAddress } from 'node:dns'
+import http, { IncomingMessage } from 'node:http'
+import https from 'node:https'
+import { isPrivateAddress, isUnfurlableUrl, LinkUnfurl, parseUnfurl } from './linkUnfurl'
+
+// Server only: fetches pages for app/api/unfurl. The URL check in linkUnfurl only sees the
+// host name, so every connection also resolves the name here and refuses it when any of its
+// addresses is private. The check runs in the socket's own lookup, so the address that passed
+// is the one connected to (a name can't resolve to a public address for the check and a
+// private one for the request).
+
+// Only the head of a page is needed
+export const MAX_UNFURL_BYTES = 512 * 1024
+export const UNFURL_TIMEOUT_MS = 5000
+const MAX_REDIRECTS = 3
+
+type Resolve = (hostname: string, options: { all: true }) => Promise<LookupAddress[]>
+type LookupCallback = (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+
+export class PrivateAddressError extends Error {
+    constructor(hostname: string) {
+        super(`${hostname} resolves to a private address`)
+        this.name = 'PrivateAddressError'
+    }
+}
+
+/**
+ * A socket lookup that resolves every address of a host and fails with PrivateAddressError
+ * when any of them is private. `resolve` is there for tests.
+ */
+export function publicLookup(resolve: Resolve = dns.promises.lookup) {
+    return (hostname: string, options: dns.LookupOptions, callback: LookupCallback) => {
+        resolve(hostname, { all: true })
+            .then(addresses => {
+                if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+                    return callback(new PrivateAddressError(hostname), [])
+                }
+                const usable = options.family ? addresses.filter(({ family }) => family === options.family) : addresses
+                if (usable.length === 0) return callback(new PrivateAddressError(hostname), [])
+                if (options.all) return callback(null, usable)
+                callback(null, usable[0].address, usable[0].family)
+            })
+            .catch(error => callback(error, []))
+    }
+}
+
+function get(url: string, signal: AbortSignal): Promise<IncomingMessage> {
+    return new Promise((resolve, reject) => {
+        const client = url.startsWith('https:') ? https : http
+        const request = client.get(url, {
+            headers: {
+                accept: 'text/html,application/xhtml+xml',
+                'accept-encoding': 'identity',
+                'user-agent': 'SDailyLinkPreview/1.0'
+            },
+            lookup: publicLookup(),
+            signal
+        }, resolve)
+        request.on('error', reject)
+    })
+}
+
+async function readHead(response: IncomingMessage): Promise<string> {
+    const decoder = new TextDecoder()
+    let html = ''
+    let bytes = 0
+    for await (const chunk of response) {
+        bytes += chunk.length
+        html += decoder.decode(chunk, { stream: true })
+        if (bytes >= MAX_UNFURL_BYTES || /<\/head>/i.test(html)) break
+    }
+    response.destroy()
+    return html
+}
+
+/**
+ * Fetches a page and reads its card. Returns null when the URL may not be fetched, it (or a
+ * redirect) leads to a private address, the request fails or the response isn't HTML.
+ */
+export async function fetchUnfurl(url: string): Promise<LinkUnfurl | null> {
+    const signal = AbortSignal.timeout(UNFURL_TIMEOUT_MS)
+    try {
+        // Redirects are followed by hand so every hop is checked again
+        let current = url
+        for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+            if (!isUnfurlableUrl(current)) return null
+            const response = await get(current, signal)
+            const status = response.statusCode ?? 0
+
+            const location = response.headers.location
+            if (status >= 300 && status < 400 && location) {
+                response.destroy()
+                current = new URL(location, current).toString()
+                continue
+            }
+            if (status < 200 || status >= 300 || !(response.headers['content-type'] ?? '').includes('html')) {
+                response.destroy()
+                return null
+            }
+            return parseUnfurl(await readHead(response), current)
+        }
+        return null
+    } catch (error) {
+        if (!(error instanceof PrivateAddressError)) console.error('Error unfurling link:', error)
+        return null
+    }
+}
@@ -23,6 +23,7 @@ export default function CalendarScreen() {
             const { data, error } = await supabase
                 .from('plans')
                 .select('*')
+                .is('deleted_at', null)
                 .order('created_at', { ascending: false });
 
             if (data) setPlans(data);
@@ -4,7 +4,7 @@ import { View, Text, ScrollView, RefreshControl, TouchableOpacity, Modal, Image,
 import { useRouter, useFocusEffect } from 'expo-router';
 import { supabase } from '../lib/supabase';
 import { format, parseISO } from 'date-fns';
-import { Calendar as CalendarIcon, AlertCircle, X, Check, Clock, Inbox, Mic, Trash2, Edit3, Send, Paperclip, Image as ImageIcon, Download, Globe } from 'lucide-react-native';
+import { Calendar as CalendarIcon, AlertCircle, X, Check, Clock, Inbox, Mic, Trash2, Edit3, Send, Paperclip, Image as ImageIcon, Download, Globe, LogOut } from 'lucide-react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import * as Linking from 'expo-linking';
 import { KanbanCard, Plan, Attachment } from '../lib/types';
@@ -13,6 +13,7 @@ import * as FileSystem from 'expo-file-system';
 import * as MediaLibrary from 'expo-media-library';
 import { registerForPushNotificationsAsync, scheduleSmartNotifications, QUOTES, setupNotifications } from '../lib/notifications';
 import CustomAlert, { AlertType } from '../components/CustomAlert';
+import { uploadInboxImage } from '../lib/attachments';
 
 export default function Dashboard() {
     const [loading, setLoading] = useState(true);
@@ -21,6 +22,7 @@ export default function Dashboard() {
     const [pendingCount, setPendingCount] = useState(0);
     const [selectedPlan, setSelectedPlan] = useState<Plan | null>(null);
     const router = useRouter();
+    const [userName, setUserName] = useState('there');
 
     // Inbox State
     const [inboxCards, setInboxCards] = useState<KanbanCard[]>([]);
@@ -78,6 +80,8 @@ export default function Dashboard() {
             const { data: pendingCards } = await supabase
                 .from('kanban_cards')
                 .select('id, linked_plan_id')
+                .is('deleted_at', null)
+                .is('workspace_id', null) // Personal board only; workspace cards live on the web team board
                 .eq('status', 'pending');
 
             // 2. Get IDs of plans that already have linked pending cards
@@ -91,6 +95,7 @@ export default function Dashboard() {
             const { data: futurePlans } = await supabase
                 .from('plans')
                 .select('id')
+                .is('deleted_at', null)
                 .gt('date', today)
                 .eq('completed', false);
 
@@ -104,6 +109,8 @@ export default function Dashboard() {
             const { data: inbox } = await supabase
                 .from('kanban_cards')
                 .select('*')
+                .is('deleted_at', null)
+                .is('workspace_id', null)
                 .eq('status', 'inbox')
                 .order('created_at', { ascending: false });
 
@@ -131,6 +138,7 @@ export default function Dashboard() {
             const { data: allPlans } = await supabase
                 .from('plans')
                 .select('*')
+                .is('deleted_at', null)
                 .order('created_at', { ascending: false });
 
             if (allPlans) {
@@ -163,6 +171,26 @@ export default function Dashboard() {
         })();
     }, []);
 
+    // Greet the signed-in user; send them back to login when the session ends
+    useEffect(() => {
+        supabase.auth.getUser().then(({ data: { user } }) => {
+            const name = user?.user_metadata?.full_name ?? user?.email?.split('@')[0];
+            if (name) setUserName(name);
+        });
+
+        const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+            if (event === 'SIGNED_OUT') router.replace('/login');
+        });
+        return () => subscription.unsubscribe();
+    }, []);
+
+    const handleSignOut = () => {
+        showAlert('Sign out', 'Sign out of SDaily Planner on this device?', 'warning', [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Sign out', style: 'destructive', onPress: () => { supabase.auth.signOut(); } }
+        ]);
+    };
+
     // Schedule smart notifications with task data when plans are loaded
     useEffect(() => {
         const pendingPlans = todayPlans.filter(p => !p.completed);
@@ -196,34 +224,13 @@ export default function Dashboard() {
         });
 
         if (!result.canceled && result.assets[0]) {
-            const asset = result.assets[0];
-            const fileName = `inbox_${Date.now()}.jpg`;
-
-            // Upload to Supabase Storage
-            const base64Data = asset.base64;
+            const base64Data = result.assets[0].base64;
             if (base64Data) {
-                try {
-                    const { data, error } = await supabase.storage
-                        .from('attachments')
-                        .upload(fileName, decode(base64Data), {
-                            contentType: 'image/jpeg'
-                        });
-
-                    if (data) {
-                        const { data: urlData } = supabase.storage
-                            .from('attachments')
-                            .getPublicUrl(fileName);
-
-                        setPendingAttachments([...pendingAttachments, {
-                            id: Date.now().toString(),
-                            type: 'file',
-                            name: fileName,
-                            url: urlData.publicUrl
-                        }]);
-                    }
-                } catch (e) {
-                    console.error('Upload error:', e);
-                    showAlert('Upload Failed', 'Could not upload image.', 'error');
+                const upload = await uploadInboxImage(base64Data);
+                if ('attachment' in upload) {
+                    setPendingAttachments(prev => [...prev, upload.attachment]);
+                } else {
+                    showAlert('Upload Failed', upload.error, 'error');
                 }
             }
         }
@@ -279,7 +286,10 @@ export default function Dashboard() {
                         card_id: newCard.id,
                         type: att.type,
                         name: att.name,
-                        url: att.url
+                        url: att.url,
+                        storage_path: att.storage_path ?? null,
+                        mime_type: att.mime_type ?? null,
+                        size_bytes: att.size_bytes ?? null
                     }))
                 );
             }
@@ -316,8 +326,8 @@ export default function Dashboard() {
                 text: 'Delete',
                 style: 'destructive',
                 onPress: async () => {
-                    await supabase.from('card_attachments').delete().eq('card_id', card.id);
-                    await supabase.from('kanban_cards').delete().eq('id', card.id);
+                    // Moves the card to the Trash; it can be restored from the web app
+                    await supabase.from('kanban_cards').update({ deleted_at: new Date().toISOString() }).eq('id', card.id);
                     fetchData();
                 }
             }
@@ -341,7 +351,7 @@ export default function Dashboard() {
                                 />
                             </View>
                             <View>
-                                <Text style={{ color: '#FF9F1C', fontSize: 14 }}>{getGreeting()}, Stun</Text>
+                                <Text style={{ color: '#FF9F1C', fontSize: 14 }}>{getGreeting()}, {userName}</Text>
                                 <Text style={{ color: 'white', fontSize: 20, fontWeight: 'bold' }}>SDaily Planner</Text>
                             </View>
                         </View>
@@ -352,6 +362,9 @@ export default function Dashboard() {
                             <TouchableOpacity onPress={() => router.push('/calendar')} style={{ padding: 8, backgroundColor: '#2A2A2A', borderRadius: 12 }}>
                                 <CalendarIcon color="#FF9F1C" size={24} />
                             </TouchableOpacity>
+                            <TouchableOpacity onPress={handleSignOut} style={{ padding: 8, backgroundColor: '#2A2A2A', borderRadius: 12 }}>
+                                <LogOut color="#888" size={24} />
+                            </TouchableOpacity>
                         </View>
                     </View>
 
@@ -894,30 +907,3 @@ export default function Dashboard() {
         </SafeAreaView>
     );
 }
-
-// Helper function to decode base64 without atob (RN compatible)
-function decode(base64: string): Uint8Array {
-    const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
-    const lookup = new Uint8Array(256);
-    for (let i = 0; i < chars.length; i++) lookup[chars.charCodeAt(i)] = i;
-
-    // Handle padding
-    let len = base64.length;
-    while (len > 0 && base64[len - 1] === '=') len--;
-
-    const bytes = new Uint8Array(Math.floor((len * 3) / 4));
-    let i = 0, j = 0;
-    let a, b, c, d;
-
-    while (i < len) {
-        a = lookup[base64.charCodeAt(i++)] || 0;
-        b = lookup[base64.charCodeAt(i++)] || 0;
-        c = lookup[base64.charCodeAt(i++)] || 0;
-        d = lookup[base64.charCodeAt(i++)] || 0;
-
-        bytes[j++] = (a << 2) | (b >> 4);
-        if (j < bytes.length) bytes[j++] = ((b & 15) << 4) | (c >> 2);
-        if (j < bytes.length) bytes[j++] = ((c & 3) << 6) | (d & 63);
-    }
-    return bytes;
-}
@@ -2,12 +2,26 @@
 import { useEffect } from 'react';
 import { View, Image, ActivityIndicator } from 'react-native';
 import { useRouter } from 'expo-router';
-import { supabase } from '../lib/supabase';
+import * as Linking from 'expo-linking';
+import { supabase, createSessionFromUrl } from '../lib/supabase';
 
 export default function Index() {
     const router = useRouter();
 
     useEffect(() => {
+        const checkSession = async () => {
+            try {
+                // A magic link can cold-start the app; sign in from it before checking the session
+                const initialUrl = await Linking.getInitialURL();
+                if (initialUrl) await createSessionFromUrl(initialUrl);
+
+                const { data: { session } } = await supabase.auth.getSession();
+                router.replace(session ? '/dashboard' : '/login');
+            } catch (e) {
+                router.replace('/login');
+            }
+        };
+
         // 2-second splash delay then check session
         const timer = setTimeout(() => {
             checkSession();
@@ -15,18 +29,6 @@ export default function Index() {
         return () => clearTimeout(timer);
     }, []);
 
-    const checkSession = async () => {
-        try {
-            const { data: { session } } = await supabase.auth.getSession();
-            // Navigate regardless of session (for now, to meet "splash then dashboard" requirement)
-            // If auth is strictly required, dashboard fetches will fail/return empty, 
-            // but user asked to "get rid off sign up", implying streamlined access.
-            router.replace('/dashboard');
-        } catch (e) {
-            router.replace('/dashboard');
-        }
-    };
-
     return (
         <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: '#121212' }}>
             {/* Logo Container */}
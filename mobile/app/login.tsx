@@ -0,0 +1,130 @@
+import { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Image, ActivityIndicator, KeyboardAvoidingView, Platform } from 'react-native';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import * as Linking from 'expo-linking';
+import { Mail, KeyRound } from 'lucide-react-native';
+import { supabase, createSessionFromUrl } from '../lib/supabase';
+
+type Mode = 'password' | 'magic-link';
+
+export default function Login() {
+    const router = useRouter();
+    const [mode, setMode] = useState<Mode>('password');
+    const [email, setEmail] = useState('');
+    const [password, setPassword] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+
+    // Opening the magic link while this screen is showing signs the user in
+    const url = Linking.useURL();
+    useEffect(() => {
+        if (!url) return;
+        createSessionFromUrl(url).then(session => {
+            if (session) router.replace('/dashboard');
+        });
+    }, [url]);
+
+    const handleSubmit = async () => {
+        if (!email.trim()) return;
+        setIsSubmitting(true);
+        setError(null);
+        setNotice(null);
+
+        if (mode === 'magic-link') {
+            const { error } = await supabase.auth.signInWithOtp({
+                email: email.trim(),
+                options: { emailRedirectTo: Linking.createURL('/login') }
+            });
+            if (error) setError(error.message);
+            else setNotice(`We sent a sign-in link to ${email.trim()}. Open it on this phone to continue.`);
+        } else {
+            const { error } = await supabase.auth.signInWithPassword({ email: email.trim(), password });
+            if (error) setError(error.message);
+            else router.replace('/dashboard');
+        }
+
+        setIsSubmitting(false);
+    };
+
+    const tabStyle = (active: boolean) => ({
+        flex: 1,
+        flexDirection: 'row' as const,
+        alignItems: 'center' as const,
+        justifyContent: 'center' as const,
+        gap: 8,
+        paddingVertical: 10,
+        borderRadius: 999,
+        backgroundColor: active ? '#3A3A3A' : 'transparent'
+    });
+
+    const inputStyle = {
+        color: 'white',
+        fontSize: 16,
+        padding: 16,
+        backgroundColor: '#2A2A2A',
+        borderRadius: 12,
+        marginBottom: 12
+    };
+
+    return (
+        <SafeAreaView style={{ flex: 1, backgroundColor: '#121212' }}>
+            <KeyboardAvoidingView style={{ flex: 1, justifyContent: 'center', padding: 24 }} behavior={Platform.OS === 'ios' ? 'padding' : 'height'}>
+                <View style={{ alignItems: 'center', marginBottom: 32 }}>
+                    <Image
+                        source={require('../assets/SD Logo Vector(Colored).png')}
+                        style={{ width: 96, height: 96, resizeMode: 'contain', marginBottom: 16 }}
+                    />
+                    <Text style={{ color: 'white', fontSize: 22, fontWeight: 'bold' }}>Sign in to SDaily Planner</Text>
+                </View>
+
+                <View style={{ flexDirection: 'row', backgroundColor: '#1E1E1E', borderRadius: 999, padding: 4, marginBottom: 20 }}>
+                    <TouchableOpacity onPress={() => setMode('password')} style={tabStyle(mode === 'password')}>
+                        <KeyRound color={mode === 'password' ? '#FF9F1C' : '#888'} size={16} />
+                        <Text style={{ color: mode === 'password' ? '#FF9F1C' : '#888', fontWeight: '600' }}>Password</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => setMode('magic-link')} style={tabStyle(mode === 'magic-link')}>
+                        <Mail color={mode === 'magic-link' ? '#FF9F1C' : '#888'} size={16} />
+                        <Text style={{ color: mode === 'magic-link' ? '#FF9F1C' : '#888', fontWeight: '600' }}>Magic link</Text>
+                    </TouchableOpacity>
+                </View>
+
+                <TextInput
+                    value={email}
+                    onChangeText={setEmail}
+                    placeholder="you@example.com"
+                    placeholderTextColor="#666"
+                    autoCapitalize="none"
+                    autoComplete="email"
+                    keyboardType="email-address"
+                    style={inputStyle}
+                />
+                {mode === 'password' && (
+                    <TextInput
+                        value={password}
+                        onChangeText={setPassword}
+                        placeholder="Password"
+                        placeholderTextColor="#666"
+                        secureTextEntry
+                        autoComplete="password"
+                        style={inputStyle}
+                    />
+                )}
+
+                {error && <Text style={{ color: '#EF4444', marginBottom: 12 }}>{error}</Text>}
+                {notice && <Text style={{ color: '#22C55E', marginBottom: 12 }}>{notice}</Text>}
+
+                <TouchableOpacity
+                    onPress={handleSubmit}
+                    disabled={isSubmitting}
+                    style={{ backgroundColor: '#FF9F1C', borderRadius: 12, padding: 16, alignItems: 'center', opacity: isSubmitting ? 0.6 : 1 }}
+                >
+                    {isSubmitting
+                        ? <ActivityIndicator color="white" />
+                        : <Text style={{ color: 'white', fontWeight: 'bold', fontSize: 16 }}>{mode === 'magic-link' ? 'Email me a link' : 'Sign in'}</Text>}
+                </TouchableOpacity>
+            </KeyboardAvoidingView>
+        </SafeAreaView>
+    );
+}
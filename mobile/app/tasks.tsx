@@ -30,6 +30,8 @@ export default function TasksScreen() {
                 const { data: pendingCards } = await supabase
                     .from('kanban_cards')
                     .select('*')
+                    .is('deleted_at', null)
+                    .is('workspace_id', null) // Personal board only
                     .eq('status', 'pending')
                     .order('position', { ascending: true });
 
@@ -44,6 +46,7 @@ export default function TasksScreen() {
                 const { data: futurePlans } = await supabase
                     .from('plans')
                     .select('*')
+                    .is('deleted_at', null)
                     .gt('date', today)
                     .eq('completed', false);
 
@@ -69,6 +72,8 @@ export default function TasksScreen() {
                 const { data: allCards } = await supabase
                     .from('kanban_cards')
                     .select('*')
+                    .is('deleted_at', null)
+                    .is('workspace_id', null)
                     .order('position', { ascending: true });
 
                 const today = startOfDay(new Date());
@@ -0,0 +1,67 @@
+import { supabase } from './supabase';
+import { Attachment } from './types';
+
+// Same bucket and size limit as the web app (lib/attachmentService.ts). Quick-add photos are
+// named `inbox_<timestamp>.jpg`.
+export const ATTACHMENT_BUCKET = 'attachments';
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+export type UploadResult = { attachment: Attachment } | { error: string };
+
+// Uploads a base64 JPEG from the image picker as an inbox attachment
+export async function uploadInboxImage(base64: string): Promise<UploadResult> {
+    const bytes = decode(base64);
+    if (bytes.length > MAX_ATTACHMENT_BYTES) {
+        return { error: `Images must be smaller than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB.` };
+    }
+
+    const path = `inbox_${Date.now()}.jpg`;
+    const { error } = await supabase.storage
+        .from(ATTACHMENT_BUCKET)
+        .upload(path, bytes, { contentType: 'image/jpeg' });
+
+    if (error) {
+        console.error('Upload error:', error);
+        return { error: 'Could not upload image.' };
+    }
+
+    const { data } = supabase.storage.from(ATTACHMENT_BUCKET).getPublicUrl(path);
+    return {
+        attachment: {
+            id: Date.now().toString(),
+            type: 'file',
+            name: path,
+            url: data.publicUrl,
+            storage_path: path,
+            mime_type: 'image/jpeg',
+            size_bytes: bytes.length
+        }
+    };
+}
+
+// Helper function to decode base64 without atob (RN compatible)
+export function decode(base64: string): Uint8Array {
+    const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+    const lookup = new Uint8Array(256);
+    for (let i = 0; i < chars.length; i++) lookup[chars.charCodeAt(i)] = i;
+
+    // Handle padding
+    let len = base64.length;
+    while (len > 0 && base64[len - 1] === '=') len--;
+
+    const bytes = new Uint8Array(Math.floor((len * 3) / 4));
+    let i = 0, j = 0;
+    let a, b, c, d;
+
+    while (i < len) {
+        a = lookup[base64.charCodeAt(i++)] || 0;
+        b = lookup[base64.charCodeAt(i++)] || 0;
+        c = lookup[base64.charCodeAt(i++)] || 0;
+        d = lookup[base64.charCodeAt(i++)] || 0;
+
+        bytes[j++] = (a << 2) | (b >> 4);
+        if (j < bytes.length) bytes[j++] = ((b & 15) << 4) | (c >> 2);
+        if (j < bytes.length) bytes[j++] = ((c & 3) << 6) | (d & 63);
+    }
+    return bytes;
+}
@@ -14,3 +14,21 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
         detectSessionInUrl: false,
     },
 })
+
+// Magic links open the app with the session tokens in the URL fragment
+export async function createSessionFromUrl(url: string) {
+    const fragment = url.split('#')[1];
+    if (!fragment) return null;
+
+    const params = new URLSearchParams(fragment);
+    const access_token = params.get('access_token');
+    const refresh_token = params.get('refresh_token');
+    if (!access_token || !refresh_token) return null;
+
+    const { data, error } = await supabase.auth.setSession({ access_token, refresh_token });
+    if (error) {
+        console.error('Error restoring session from link:', error);
+        return null;
+    }
+    return data.session;
+}
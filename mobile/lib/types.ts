@@ -10,6 +10,9 @@ export interface Attachment {
     type: 'link' | 'file'
     name: string
     url: string
+    storage_path?: string // Object in the attachments bucket
+    mime_type?: string
+    size_bytes?: number
 }
 
 export interface Plan {
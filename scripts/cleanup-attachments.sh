@@ -0,0 +1,28 @@
+#!/usr/bin/env bash
+# Deletes attachment files no card, plan or expense points at any more, through the app's
+# cleanup route. --dry-run only prints the report of what would be deleted.
+#
+#   APP_URL=https://planner.example.com ATTACHMENT_CLEANUP_SECRET=... npm run attachments:cleanup -- --dry-run
+#
+# GRACE_DAYS (default 7) keeps files uploaded more recently than that.
+
+set -euo pipefail
+
+APP_URL="${APP_URL:-http://localhost:3000}"
+GRACE_DAYS="${GRACE_DAYS:-7}"
+
+if [ -z "${ATTACHMENT_CLEANUP_SECRET:-}" ]; then
+    echo "ATTACHMENT_CLEANUP_SECRET is not set." >&2
+    exit 1
+fi
+
+method="POST"
+if [ "${1:-}" = "--dry-run" ]; then
+    method="GET"
+fi
+
+curl --silent --show-error --fail-with-body \
+    --request "$method" \
+    --header "Authorization: Bearer $ATTACHMENT_CLEANUP_SECRET" \
+    "$APP_URL/api/attachments/cleanup?graceDays=$GRACE_DAYS"
+echo
@@ -0,0 +1,98 @@
+-- Minimal stand-ins for the schemas a Supabase project provides out of the box, so the
+-- migrations can be applied to a plain local Postgres. Never run this against Supabase itself.
+-- scripts/db-migrate.sh applies it automatically when the auth schema is missing.
+
+-- ============================================
+-- ROLES - Used by grants and RLS policies
+-- ============================================
+
+do $$
+begin
+    if not exists (select 1 from pg_roles where rolname = 'anon') then
+        create role anon nologin noinherit;
+    end if;
+    if not exists (select 1 from pg_roles where rolname = 'authenticated') then
+        create role authenticated nologin noinherit;
+    end if;
+    if not exists (select 1 from pg_roles where rolname = 'service_role') then
+        create role service_role nologin noinherit bypassrls;
+    end if;
+end;
+$$;
+
+grant usage on schema public to anon, authenticated, service_role;
+alter default privileges in schema public grant all on tables to anon, authenticated, service_role;
+alter default privileges in schema public grant all on functions to anon, authenticated, service_role;
+
+-- ============================================
+-- AUTH - Users and the JWT helpers policies call
+-- ============================================
+
+create schema if not exists auth;
+
+create table if not exists auth.users (
+    id uuid primary key default gen_random_uuid(),
+    email text unique,
+    raw_user_meta_data jsonb not null default '{}'::jsonb,
+    created_at timestamptz not null default now()
+);
+
+-- PostgREST exposes the verified JWT as request.jwt.claims; locally set it per session, e.g.
+--   set request.jwt.claims = '{"sub": "<user id>", "email": "me@example.com"}';
+create or replace function auth.jwt()
+returns jsonb
+language sql
+stable
+as $$
+    select coalesce(nullif(current_setting('request.jwt.claims', true), ''), '{}')::jsonb;
+$$;
+
+create or replace function auth.uid()
+returns uuid
+language sql
+stable
+as $$
+    select nullif(auth.jwt() ->> 'sub', '')::uuid;
+$$;
+
+grant usage on schema auth to anon, authenticated, service_role;
+
+-- ============================================
+-- STORAGE - Buckets and object metadata
+-- ============================================
+
+create schema if not exists storage;
+
+create table if not exists storage.buckets (
+    id text primary key,
+    name text not null unique,
+    public boolean not null default false,
+    file_size_limit bigint,
+    allowed_mime_types text[],
+    created_at timestamptz not null default now()
+);
+
+create table if not exists storage.objects (
+    id uuid primary key default gen_random_uuid(),
+    bucket_id text references storage.buckets (id),
+    name text,
+    owner uuid,
+    metadata jsonb,
+    created_at timestamptz not null default now()
+);
+
+alter table storage.objects enable row level security;
+
+grant usage on schema storage to anon, authenticated, service_role;
+
+-- ============================================
+-- REALTIME - Publication the initial schema adds tables to
+-- ============================================
+
+do $$
+begin
+    if not exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+        create publication supabase_realtime;
+    end if;
+end;
+$$;
@@ -0,0 +1,206 @@
+-- Baseline schema: every table the app reads and writes, as it stood before the
+-- versioning, ownership and workspace migrations that follow.
+-- Safe to run against an existing project: tables and indexes are only created if missing.
+--
+-- Child rows (time slots, attachments, checklist items, comments, exceptions) are deleted
+-- together with their parent. Cards linked to a plan are unlinked, not deleted, when the plan goes.
+
+-- ============================================
+-- PLANS
+-- ============================================
+
+create table if not exists public.plans (
+    id uuid primary key default gen_random_uuid(),
+    title text not null,
+    description text,
+    date date not null,
+    has_due_date boolean not null default false,
+    due_date date,
+    completed boolean not null default false,
+    recurrence_rule text, -- RFC 5545 RRULE, null for one-off plans
+    created_at timestamptz not null default now()
+);
+
+create index if not exists plans_date_idx on public.plans (date);
+
+create table if not exists public.plan_time_slots (
+    id uuid primary key default gen_random_uuid(),
+    plan_id uuid not null references public.plans (id) on delete cascade,
+    time text not null, -- HH:mm
+    description text not null default ''
+);
+
+create index if not exists plan_time_slots_plan_id_idx on public.plan_time_slots (plan_id);
+
+create table if not exists public.plan_attachments (
+    id uuid primary key default gen_random_uuid(),
+    plan_id uuid not null references public.plans (id) on delete cascade,
+    type text not null,
+    name text not null,
+    url text not null
+);
+
+create index if not exists plan_attachments_plan_id_idx on public.plan_attachments (plan_id);
+
+-- Per-occurrence overrides of recurring plans
+create table if not exists public.plan_exceptions (
+    id uuid primary key default gen_random_uuid(),
+    plan_id uuid not null references public.plans (id) on delete cascade,
+    occurrence_date date not null,
+    cancelled boolean not null default false,
+    completed boolean not null default false,
+    title text,
+    description text,
+    time_slots jsonb,
+    unique (plan_id, occurrence_date)
+);
+
+-- ============================================
+-- KANBAN CARDS
+-- ============================================
+
+create table if not exists public.kanban_cards (
+    id uuid primary key default gen_random_uuid(),
+    title text not null,
+    description text,
+    status text not null default 'inbox', -- Default column id or custom-<section id>
+    start_date date,
+    end_date date,
+    linked_plan_id uuid references public.plans (id) on delete set null,
+    position double precision not null default 0,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists kanban_cards_status_position_idx on public.kanban_cards (status, position);
+create index if not exists kanban_cards_linked_plan_id_idx on public.kanban_cards (linked_plan_id);
+
+create table if not exists public.card_time_slots (
+    id uuid primary key default gen_random_uuid(),
+    card_id uuid not null references public.kanban_cards (id) on delete cascade,
+    time text not null,
+    description text not null default ''
+);
+
+create index if not exists card_time_slots_card_id_idx on public.card_time_slots (card_id);
+
+create table if not exists public.card_checklist_items (
+    id uuid primary key default gen_random_uuid(),
+    card_id uuid not null references public.kanban_cards (id) on delete cascade,
+    text text not null,
+    completed boolean not null default false
+);
+
+create index if not exists card_checklist_items_card_id_idx on public.card_checklist_items (card_id);
+
+create table if not exists public.card_comments (
+    id uuid primary key default gen_random_uuid(),
+    card_id uuid not null references public.kanban_cards (id) on delete cascade,
+    text text not null,
+    is_marked_done boolean not null default false,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists card_comments_card_id_idx on public.card_comments (card_id);
+
+create table if not exists public.card_attachments (
+    id uuid primary key default gen_random_uuid(),
+    card_id uuid not null references public.kanban_cards (id) on delete cascade,
+    type text not null,
+    name text not null,
+    url text not null
+);
+
+create index if not exists card_attachments_card_id_idx on public.card_attachments (card_id);
+
+create table if not exists public.custom_sections (
+    id uuid primary key default gen_random_uuid(),
+    title text not null,
+    color text not null default '#64748B',
+    position integer not null default 0,
+    created_at timestamptz not null default now()
+);
+
+-- ============================================
+-- GOALS
+-- ============================================
+
+create table if not exists public.goals (
+    id uuid primary key default gen_random_uuid(),
+    title text not null,
+    description text,
+    goal_type text not null check (goal_type in ('material', 'personal')),
+    target_date date,
+    budget_target_amount numeric(14, 2),
+    budget_current_amount numeric(14, 2) default 0,
+    budget_currency text default '₱',
+    created_at timestamptz not null default now()
+);
+
+create table if not exists public.goal_checklist_items (
+    id uuid primary key default gen_random_uuid(),
+    goal_id uuid not null references public.goals (id) on delete cascade,
+    text text not null,
+    completed boolean not null default false
+);
+
+create index if not exists goal_checklist_items_goal_id_idx on public.goal_checklist_items (goal_id);
+
+create table if not exists public.goal_comments (
+    id uuid primary key default gen_random_uuid(),
+    goal_id uuid not null references public.goals (id) on delete cascade,
+    text text not null,
+    is_marked_done boolean not null default false,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists goal_comments_goal_id_idx on public.goal_comments (goal_id);
+
+-- ============================================
+-- REVENUE
+-- ============================================
+
+create table if not exists public.revenues (
+    id uuid primary key default gen_random_uuid(),
+    name text not null,
+    description text,
+    project_name text not null default '',
+    price numeric(14, 2) not null default 0,
+    currency text not null default '₱',
+    date_completed date not null,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists revenues_date_completed_idx on public.revenues (date_completed);
+
+-- ============================================
+-- STORAGE - Uploaded attachment files
+-- ============================================
+
+insert into storage.buckets (id, name, public)
+values ('attachments', 'attachments', true)
+on conflict (id) do nothing;
+
+-- ============================================
+-- REALTIME - Tables DataContext subscribes to
+-- ============================================
+
+do $$
+declare
+    target text;
+begin
+    foreach target in array array[
+        'plans', 'plan_time_slots', 'plan_attachments', 'plan_exceptions',
+        'kanban_cards', 'card_time_slots', 'card_checklist_items', 'card_comments', 'card_attachments',
+        'goals', 'goal_checklist_items', 'goal_comments',
+        'revenues'
+    ]
+    loop
+        if not exists (
+            select 1 from pg_publication_tables
+            where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = target
+        ) then
+            execute format('alter publication supabase_realtime add table public.%I', target);
+        end if;
+    end loop;
+end;
+$$;
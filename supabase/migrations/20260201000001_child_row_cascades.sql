@@ -0,0 +1,51 @@
+-- Projects that had their tables before 20260201000000_initial_schema kept their own foreign
+-- keys ("create table if not exists" leaves existing tables alone), and those may not cascade.
+-- Purging a plan, card or goal relies on the database deleting its child rows, so every
+-- child-table foreign key from the initial schema is dropped, whatever it was called, and
+-- created again with the delete rule the app expects.
+
+create or replace function pg_temp.recreate_foreign_key(
+    child regclass, child_column text, parent regclass, on_delete text
+) returns void language plpgsql as $$
+declare
+    existing record;
+begin
+    for existing in
+        select c.conname
+        from pg_constraint c
+        join pg_attribute a on a.attrelid = c.conrelid and a.attnum = any (c.conkey)
+        where c.contype = 'f' and c.conrelid = child and a.attname = child_column
+    loop
+        execute format('alter table %s drop constraint %I', child, existing.conname);
+    end loop;
+
+    -- Without a foreign key there may be rows whose parent is already gone
+    if on_delete = 'set null' then
+        execute format(
+            'update %s c set %I = null where c.%I is not null and not exists (select 1 from %s p where p.id = c.%I)',
+            child, child_column, child_column, parent, child_column
+        );
+    else
+        execute format(
+            'delete from %s c where not exists (select 1 from %s p where p.id = c.%I)',
+            child, parent, child_column
+        );
+    end if;
+
+    execute format(
+        'alter table %s add constraint %I foreign key (%I) references %s (id) on delete %s',
+        child, replace(child::text, 'public.', '') || '_' || child_column || '_fkey', child_column, parent, on_delete
+    );
+end;
+$$;
+
+select pg_temp.recreate_foreign_key('public.plan_time_slots', 'plan_id', 'public.plans', 'cascade');
+select pg_temp.recreate_foreign_key('public.plan_attachments', 'plan_id', 'public.plans', 'cascade');
+select pg_temp.recreate_foreign_key('public.plan_exceptions', 'plan_id', 'public.plans', 'cascade');
+select pg_temp.recreate_foreign_key('public.kanban_cards', 'linked_plan_id', 'public.plans', 'set null');
+select pg_temp.recreate_foreign_key('public.card_time_slots', 'card_id', 'public.kanban_cards', 'cascade');
+select pg_temp.recreate_foreign_key('public.card_checklist_items', 'card_id', 'public.kanban_cards', 'cascade');
+select pg_temp.recreate_foreign_key('public.card_comments', 'card_id', 'public.kanban_cards', 'cascade');
+select pg_temp.recreate_foreign_key('public.card_attachments', 'card_id', 'public.kanban_cards', 'cascade');
+select pg_temp.recreate_foreign_key('public.goal_checklist_items', 'goal_id', 'public.goals', 'cascade');
+select pg_temp.recreate_foreign_key('public.goal_comments', 'goal_id', 'public.goals', 'cascade');
@@ -0,0 +1,6 @@
+-- Projects that had their tables before 20260201000000_initial_schema kept them as they were
+-- ("create table if not exists" leaves existing tables alone). Every column the app used before
+-- the initial schema was written already exists there, except the recurrence rule that came
+-- with recurring plans, so it is added here.
+
+alter table public.plans add column if not exists recurrence_rule text; -- RFC 5545 RRULE, null for one-off plans
@@ -0,0 +1,41 @@
+-- Row versions for optimistic concurrency on plans, cards and goals.
+-- The web app writes `version = loaded + 1` guarded by `where version = loaded`.
+-- Clients that don't know about versions (e.g. the mobile app) still bump it through the trigger,
+-- so their edits are detected as newer by everyone else.
+
+alter table public.plans add column if not exists version integer not null default 1;
+alter table public.plans add column if not exists updated_at timestamptz not null default now();
+
+alter table public.kanban_cards add column if not exists version integer not null default 1;
+alter table public.kanban_cards add column if not exists updated_at timestamptz not null default now();
+
+alter table public.goals add column if not exists version integer not null default 1;
+alter table public.goals add column if not exists updated_at timestamptz not null default now();
+
+create or replace function public.bump_row_version()
+returns trigger
+language plpgsql
+as $$
+begin
+    if new.version is null or new.version <= old.version then
+        new.version := old.version + 1;
+    end if;
+    new.updated_at := now();
+    return new;
+end;
+$$;
+
+drop trigger if exists plans_bump_version on public.plans;
+create trigger plans_bump_version
+    before update on public.plans
+    for each row execute function public.bump_row_version();
+
+drop trigger if exists kanban_cards_bump_version on public.kanban_cards;
+create trigger kanban_cards_bump_version
+    before update on public.kanban_cards
+    for each row execute function public.bump_row_version();
+
+drop trigger if exists goals_bump_version on public.goals;
+create trigger goals_bump_version
+    before update on public.goals
+    for each row execute function public.bump_row_version();
@@ -0,0 +1,169 @@
+-- Per-user ownership and row-level security.
+-- Top-level rows carry the owner in `user_id`, filled from the caller's JWT so clients don't send it.
+-- Child rows (attachments, checklist items, comments, time slots, exceptions) are visible
+-- and writable whenever their parent is.
+--
+-- Rows created before this migration have no owner and are hidden from everyone.
+-- Claim them for an account with e.g.:
+--   update public.plans set user_id = '<auth user id>' where user_id is null;
+-- (same for kanban_cards, goals, revenues and custom_sections)
+
+-- ============================================
+-- OWNER COLUMNS
+-- ============================================
+
+alter table public.plans add column if not exists user_id uuid default auth.uid() references auth.users (id) on delete cascade;
+alter table public.kanban_cards add column if not exists user_id uuid default auth.uid() references auth.users (id) on delete cascade;
+alter table public.goals add column if not exists user_id uuid default auth.uid() references auth.users (id) on delete cascade;
+alter table public.revenues add column if not exists user_id uuid default auth.uid() references auth.users (id) on delete cascade;
+alter table public.custom_sections add column if not exists user_id uuid default auth.uid() references auth.users (id) on delete cascade;
+
+create index if not exists plans_user_id_idx on public.plans (user_id);
+create index if not exists kanban_cards_user_id_idx on public.kanban_cards (user_id);
+create index if not exists goals_user_id_idx on public.goals (user_id);
+create index if not exists revenues_user_id_idx on public.revenues (user_id);
+create index if not exists custom_sections_user_id_idx on public.custom_sections (user_id);
+
+-- ============================================
+-- ROW LEVEL SECURITY - Top-level tables
+-- ============================================
+
+alter table public.plans enable row level security;
+alter table public.kanban_cards enable row level security;
+alter table public.goals enable row level security;
+alter table public.revenues enable row level security;
+alter table public.custom_sections enable row level security;
+
+drop policy if exists "Owners manage their plans" on public.plans;
+create policy "Owners manage their plans" on public.plans
+    for all to authenticated
+    using (user_id = auth.uid())
+    with check (user_id = auth.uid());
+
+drop policy if exists "Owners manage their cards" on public.kanban_cards;
+create policy "Owners manage their cards" on public.kanban_cards
+    for all to authenticated
+    using (user_id = auth.uid())
+    with check (user_id = auth.uid());
+
+drop policy if exists "Owners manage their goals" on public.goals;
+create policy "Owners manage their goals" on public.goals
+    for all to authenticated
+    using (user_id = auth.uid())
+    with check (user_id = auth.uid());
+
+drop policy if exists "Owners manage their revenues" on public.revenues;
+create policy "Owners manage their revenues" on public.revenues
+    for all to authenticated
+    using (user_id = auth.uid())
+    with check (user_id = auth.uid());
+
+drop policy if exists "Owners manage their sections" on public.custom_sections;
+create policy "Owners manage their sections" on public.custom_sections
+    for all to authenticated
+    using (user_id = auth.uid())
+    with check (user_id = auth.uid());
+
+-- ============================================
+-- ROW LEVEL SECURITY - Child tables (follow the parent)
+-- ============================================
+
+create or replace function public.owns_plan(target uuid)
+returns boolean
+language sql
+stable
+security invoker
+as $$
+    select exists (select 1 from public.plans where id = target and user_id = auth.uid());
+$$;
+
+create or replace function public.owns_card(target uuid)
+returns boolean
+language sql
+stable
+security invoker
+as $$
+    select exists (select 1 from public.kanban_cards where id = target and user_id = auth.uid());
+$$;
+
+create or replace function public.owns_goal(target uuid)
+returns boolean
+language sql
+stable
+security invoker
+as $$
+    select exists (select 1 from public.goals where id = target and user_id = auth.uid());
+$$;
+
+alter table public.plan_attachments enable row level security;
+alter table public.plan_time_slots enable row level security;
+alter table public.plan_exceptions enable row level security;
+alter table public.card_attachments enable row level security;
+alter table public.card_checklist_items enable row level security;
+alter table public.card_comments enable row level security;
+alter table public.card_time_slots enable row level security;
+alter table public.goal_checklist_items enable row level security;
+alter table public.goal_comments enable row level security;
+
+drop policy if exists "Plan owners manage attachments" on public.plan_attachments;
+create policy "Plan owners manage attachments" on public.plan_attachments
+    for all to authenticated
+    using (public.owns_plan(plan_id))
+    with check (public.owns_plan(plan_id));
+
+drop policy if exists "Plan owners manage time slots" on public.plan_time_slots;
+create policy "Plan owners manage time slots" on public.plan_time_slots
+    for all to authenticated
+    using (public.owns_plan(plan_id))
+    with check (public.owns_plan(plan_id));
+
+drop policy if exists "Plan owners manage exceptions" on public.plan_exceptions;
+create policy "Plan owners manage exceptions" on public.plan_exceptions
+    for all to authenticated
+    using (public.owns_plan(plan_id))
+    with check (public.owns_plan(plan_id));
+
+drop policy if exists "Card owners manage attachments" on public.card_attachments;
+create policy "Card owners manage attachments" on public.card_attachments
+    for all to authenticated
+    using (public.owns_card(card_id))
+    with check (public.owns_card(card_id));
+
+drop policy if exists "Card owners manage checklist" on public.card_checklist_items;
+create policy "Card owners manage checklist" on public.card_checklist_items
+    for all to authenticated
+    using (public.owns_card(card_id))
+    with check (public.owns_card(card_id));
+
+drop policy if exists "Card owners manage comments" on public.card_comments;
+create policy "Card owners manage comments" on public.card_comments
+    for all to authenticated
+    using (public.owns_card(card_id))
+    with check (public.owns_card(card_id));
+
+drop policy if exists "Card owners manage time slots" on public.card_time_slots;
+create policy "Card owners manage time slots" on public.card_time_slots
+    for all to authenticated
+    using (public.owns_card(card_id))
+    with check (public.owns_card(card_id));
+
+drop policy if exists "Goal owners manage checklist" on public.goal_checklist_items;
+create policy "Goal owners manage checklist" on public.goal_checklist_items
+    for all to authenticated
+    using (public.owns_goal(goal_id))
+    with check (public.owns_goal(goal_id));
+
+drop policy if exists "Goal owners manage comments" on public.goal_comments;
+create policy "Goal owners manage comments" on public.goal_comments
+    for all to authenticated
+    using (public.owns_goal(goal_id))
+    with check (public.owns_goal(goal_id));
+
+-- ============================================
+-- STORAGE - Only signed-in users may upload attachments
+-- ============================================
+
+drop policy if exists "Authenticated users upload attachments" on storage.objects;
+create policy "Authenticated users upload attachments" on storage.objects
+    for insert to authenticated
+    with check (bucket_id = 'attachments');
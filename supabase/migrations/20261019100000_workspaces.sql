@@ -0,0 +1,323 @@
+-- Shared workspaces (team boards) for the Kanban board.
+-- Cards and custom sections with a workspace_id belong to that workspace instead of a single user.
+-- Roles: owner (manages members and the workspace), editor (edits cards), viewer (read-only).
+-- Cards without a workspace_id stay on their owner's personal board, as before.
+
+-- ============================================
+-- TABLES
+-- ============================================
+
+create table if not exists public.workspaces (
+    id uuid primary key default gen_random_uuid(),
+    name text not null,
+    owner_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+    created_at timestamptz not null default now()
+);
+
+create table if not exists public.workspace_members (
+    workspace_id uuid not null references public.workspaces (id) on delete cascade,
+    user_id uuid not null references auth.users (id) on delete cascade,
+    role text not null check (role in ('owner', 'editor', 'viewer')),
+    -- Copied from auth.users when joining, since other users' auth rows aren't readable
+    email text not null,
+    display_name text,
+    avatar_url text,
+    created_at timestamptz not null default now(),
+    primary key (workspace_id, user_id)
+);
+
+create index if not exists workspace_members_user_id_idx on public.workspace_members (user_id);
+
+create table if not exists public.workspace_invitations (
+    id uuid primary key default gen_random_uuid(),
+    workspace_id uuid not null references public.workspaces (id) on delete cascade,
+    email text not null,
+    role text not null check (role in ('editor', 'viewer')),
+    invited_by uuid default auth.uid() references auth.users (id) on delete set null,
+    created_at timestamptz not null default now(),
+    unique (workspace_id, email)
+);
+
+create index if not exists workspace_invitations_email_idx on public.workspace_invitations (lower(email));
+
+alter table public.kanban_cards add column if not exists workspace_id uuid references public.workspaces (id) on delete cascade;
+alter table public.kanban_cards add column if not exists assignee_ids uuid[] not null default '{}';
+alter table public.custom_sections add column if not exists workspace_id uuid references public.workspaces (id) on delete cascade;
+
+create index if not exists kanban_cards_workspace_id_idx on public.kanban_cards (workspace_id);
+create index if not exists custom_sections_workspace_id_idx on public.custom_sections (workspace_id);
+
+-- ============================================
+-- FUNCTIONS
+-- ============================================
+
+-- The caller's role in a workspace, or null if not a member.
+-- security definer so policies on workspace_members can use it without recursing into themselves.
+create or replace function public.workspace_role(target uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select role from public.workspace_members where workspace_id = target and user_id = auth.uid();
+$$;
+
+create or replace function public.member_profile_insert(target_workspace uuid, target_user uuid, member_role text)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+    insert into public.workspace_members (workspace_id, user_id, role, email, display_name, avatar_url)
+    select
+        target_workspace,
+        u.id,
+        member_role,
+        u.email,
+        coalesce(u.raw_user_meta_data ->> 'full_name', u.raw_user_meta_data ->> 'name'),
+        u.raw_user_meta_data ->> 'avatar_url'
+    from auth.users u
+    where u.id = target_user
+    on conflict (workspace_id, user_id) do update set role = excluded.role;
+$$;
+
+-- Whoever creates a workspace becomes its owner
+create or replace function public.add_workspace_owner()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    perform public.member_profile_insert(new.id, new.owner_id, 'owner');
+    return new;
+end;
+$$;
+
+drop trigger if exists workspaces_add_owner on public.workspaces;
+create trigger workspaces_add_owner
+    after insert on public.workspaces
+    for each row execute function public.add_workspace_owner();
+
+-- Joins the workspace of an invitation addressed to the caller's email and consumes the invitation
+create or replace function public.accept_workspace_invitation(invitation_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    invitation public.workspace_invitations;
+begin
+    select * into invitation
+    from public.workspace_invitations
+    where id = invitation_id and lower(email) = lower(auth.jwt() ->> 'email');
+
+    if invitation.id is null then
+        raise exception 'Invitation not found' using errcode = 'P0002';
+    end if;
+
+    perform public.member_profile_insert(invitation.workspace_id, auth.uid(), invitation.role);
+    delete from public.workspace_invitations where id = invitation.id;
+
+    return invitation.workspace_id;
+end;
+$$;
+
+-- Card access: personal cards by their owner, workspace cards by members (writes need editor or owner)
+create or replace function public.can_read_card(target uuid)
+returns boolean
+language sql
+stable
+security invoker
+as $$
+    select exists (select 1 from public.kanban_cards where id = target);
+$$;
+
+create or replace function public.can_write_card(target uuid)
+returns boolean
+language sql
+stable
+security invoker
+as $$
+    select exists (
+        select 1 from public.kanban_cards
+        where id = target
+          and (
+              (workspace_id is null and user_id = auth.uid())
+              or public.workspace_role(workspace_id) in ('owner', 'editor')
+          )
+    );
+$$;
+
+-- ============================================
+-- ROW LEVEL SECURITY - Workspaces
+-- ============================================
+
+alter table public.workspaces enable row level security;
+alter table public.workspace_members enable row level security;
+alter table public.workspace_invitations enable row level security;
+
+drop policy if exists "Members see their workspaces" on public.workspaces;
+-- owner_id also lets the creator read the row back from the insert, before the owner trigger has run
+create policy "Members see their workspaces" on public.workspaces
+    for select to authenticated
+    using (owner_id = auth.uid() or public.workspace_role(id) is not null);
+
+drop policy if exists "Users create workspaces they own" on public.workspaces;
+create policy "Users create workspaces they own" on public.workspaces
+    for insert to authenticated
+    with check (owner_id = auth.uid());
+
+drop policy if exists "Owners update workspaces" on public.workspaces;
+create policy "Owners update workspaces" on public.workspaces
+    for update to authenticated
+    using (public.workspace_role(id) = 'owner')
+    with check (public.workspace_role(id) = 'owner');
+
+drop policy if exists "Owners delete workspaces" on public.workspaces;
+create policy "Owners delete workspaces" on public.workspaces
+    for delete to authenticated
+    using (public.workspace_role(id) = 'owner');
+
+-- Members are added only by the owner trigger and accept_workspace_invitation
+drop policy if exists "Members see each other" on public.workspace_members;
+create policy "Members see each other" on public.workspace_members
+    for select to authenticated
+    using (public.workspace_role(workspace_id) is not null);
+
+-- The new row is checked like the old one, and only role may change (see the grant below), so an
+-- owner can't move a member row into another workspace or onto themselves
+drop policy if exists "Owners change roles" on public.workspace_members;
+create policy "Owners change roles" on public.workspace_members
+    for update to authenticated
+    using (public.workspace_role(workspace_id) = 'owner' and user_id <> auth.uid())
+    with check (
+        public.workspace_role(workspace_id) = 'owner'
+        and user_id <> auth.uid()
+        and role in ('editor', 'viewer')
+    );
+
+revoke update on public.workspace_members from anon, authenticated;
+grant update (role) on public.workspace_members to authenticated;
+
+drop policy if exists "Owners remove members and members leave" on public.workspace_members;
+create policy "Owners remove members and members leave" on public.workspace_members
+    for delete to authenticated
+    using (
+        (public.workspace_role(workspace_id) = 'owner' and role <> 'owner')
+        or (user_id = auth.uid() and role <> 'owner')
+    );
+
+drop policy if exists "Owners and invitees see invitations" on public.workspace_invitations;
+create policy "Owners and invitees see invitations" on public.workspace_invitations
+    for select to authenticated
+    using (
+        public.workspace_role(workspace_id) = 'owner'
+        or lower(email) = lower(auth.jwt() ->> 'email')
+    );
+
+drop policy if exists "Owners invite" on public.workspace_invitations;
+create policy "Owners invite" on public.workspace_invitations
+    for insert to authenticated
+    with check (public.workspace_role(workspace_id) = 'owner');
+
+drop policy if exists "Owners revoke and invitees decline" on public.workspace_invitations;
+create policy "Owners revoke and invitees decline" on public.workspace_invitations
+    for delete to authenticated
+    using (
+        public.workspace_role(workspace_id) = 'owner'
+        or lower(email) = lower(auth.jwt() ->> 'email')
+    );
+
+-- ============================================
+-- ROW LEVEL SECURITY - Cards and sections (replace the owner-only policies)
+-- ============================================
+
+drop policy if exists "Owners manage their cards" on public.kanban_cards;
+
+drop policy if exists "Owners and members read cards" on public.kanban_cards;
+create policy "Owners and members read cards" on public.kanban_cards
+    for select to authenticated
+    using (
+        (workspace_id is null and user_id = auth.uid())
+        or public.workspace_role(workspace_id) is not null
+    );
+
+drop policy if exists "Owners and editors add cards" on public.kanban_cards;
+create policy "Owners and editors add cards" on public.kanban_cards
+    for insert to authenticated
+    with check (
+        (workspace_id is null and user_id = auth.uid())
+        or public.workspace_role(workspace_id) in ('owner', 'editor')
+    );
+
+drop policy if exists "Owners and editors change cards" on public.kanban_cards;
+create policy "Owners and editors change cards" on public.kanban_cards
+    for update to authenticated
+    using (
+        (workspace_id is null and user_id = auth.uid())
+        or public.workspace_role(workspace_id) in ('owner', 'editor')
+    )
+    with check (
+        (workspace_id is null and user_id = auth.uid())
+        or public.workspace_role(workspace_id) in ('owner', 'editor')
+    );
+
+drop policy if exists "Owners and editors delete cards" on public.kanban_cards;
+create policy "Owners and editors delete cards" on public.kanban_cards
+    for delete to authenticated
+    using (
+        (workspace_id is null and user_id = auth.uid())
+        or public.workspace_role(workspace_id) in ('owner', 'editor')
+    );
+
+drop policy if exists "Owners manage their sections" on public.custom_sections;
+
+drop policy if exists "Owners and members read sections" on public.custom_sections;
+create policy "Owners and members read sections" on public.custom_sections
+    for select to authenticated
+    using (
+        (workspace_id is null and user_id = auth.uid())
+        or public.workspace_role(workspace_id) is not null
+    );
+
+drop policy if exists "Owners and editors manage sections" on public.custom_sections;
+create policy "Owners and editors manage sections" on public.custom_sections
+    for all to authenticated
+    using (
+        (workspace_id is null and user_id = auth.uid())
+        or public.workspace_role(workspace_id) in ('owner', 'editor')
+    )
+    with check (
+        (workspace_id is null and user_id = auth.uid())
+        or public.workspace_role(workspace_id) in ('owner', 'editor')
+    );
+
+-- Card child rows: readable with the card, writable by whoever may change the card
+drop policy if exists "Card owners manage attachments" on public.card_attachments;
+drop policy if exists "Card owners manage checklist" on public.card_checklist_items;
+drop policy if exists "Card owners manage comments" on public.card_comments;
+drop policy if exists "Card owners manage time slots" on public.card_time_slots;
+
+do $$
+declare
+    child text;
+begin
+    foreach child in array array['card_attachments', 'card_checklist_items', 'card_comments', 'card_time_slots']
+    loop
+        execute format('drop policy if exists "Card readers see %1$s" on public.%1$I', child);
+        execute format('drop policy if exists "Card writers change %1$s" on public.%1$I', child);
+
+        execute format(
+            'create policy "Card readers see %1$s" on public.%1$I for select to authenticated using (public.can_read_card(card_id))',
+            child
+        );
+        execute format(
+            'create policy "Card writers change %1$s" on public.%1$I for all to authenticated using (public.can_write_card(card_id)) with check (public.can_write_card(card_id))',
+            child
+        );
+    end loop;
+end;
+$$;
@@ -0,0 +1,14 @@
+-- Soft deletion: deleting a plan, card, goal or revenue sets deleted_at and the row moves to the
+-- Trash. The app hides trashed rows, restores them by clearing deleted_at and removes them for
+-- good (child rows cascade) when the user empties the Trash or the retention period has passed.
+
+alter table public.plans add column if not exists deleted_at timestamptz;
+alter table public.kanban_cards add column if not exists deleted_at timestamptz;
+alter table public.goals add column if not exists deleted_at timestamptz;
+alter table public.revenues add column if not exists deleted_at timestamptz;
+
+-- Every list query filters on deleted_at is null; the Trash and the purge read the rest
+create index if not exists plans_deleted_at_idx on public.plans (deleted_at) where deleted_at is not null;
+create index if not exists kanban_cards_deleted_at_idx on public.kanban_cards (deleted_at) where deleted_at is not null;
+create index if not exists goals_deleted_at_idx on public.goals (deleted_at) where deleted_at is not null;
+create index if not exists revenues_deleted_at_idx on public.revenues (deleted_at) where deleted_at is not null;
@@ -0,0 +1,51 @@
+-- Subscribable iCalendar feed of a user's plans and scheduled cards.
+-- Calendar apps can't sign in, so each user gets a secret token; whoever knows the feed URL
+-- (/api/calendar/<token>.ics) can read the feed. Rotating the token invalidates the old URL.
+
+create table if not exists public.calendar_feeds (
+    user_id uuid primary key default auth.uid() references auth.users (id) on delete cascade,
+    -- Generated by the client (32 random bytes, hex)
+    token text not null unique check (token ~ '^[0-9a-f]{64}$'),
+    created_at timestamptz not null default now()
+);
+
+alter table public.calendar_feeds enable row level security;
+
+drop policy if exists "Owners manage their calendar feed" on public.calendar_feeds;
+create policy "Owners manage their calendar feed" on public.calendar_feeds
+    for all to authenticated
+    using (user_id = auth.uid())
+    with check (user_id = auth.uid());
+
+-- Feed contents for a token, callable without signing in (the token is the credential).
+-- Returns null for an unknown token. Trashed rows and workspace cards are left out.
+create or replace function public.calendar_feed(feed_token text)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select jsonb_build_object(
+        'plans', coalesce((
+            select jsonb_agg(to_jsonb(p) || jsonb_build_object(
+                'time_slots', coalesce((select jsonb_agg(to_jsonb(s)) from plan_time_slots s where s.plan_id = p.id), '[]'::jsonb),
+                'exceptions', coalesce((select jsonb_agg(to_jsonb(e)) from plan_exceptions e where e.plan_id = p.id), '[]'::jsonb)
+            ))
+            from plans p
+            where p.user_id = feed.user_id and p.deleted_at is null
+        ), '[]'::jsonb),
+        'cards', coalesce((
+            select jsonb_agg(to_jsonb(c))
+            from kanban_cards c
+            where c.user_id = feed.user_id
+                and c.workspace_id is null
+                and c.deleted_at is null
+                and c.start_date is not null
+        ), '[]'::jsonb)
+    )
+    from calendar_feeds feed
+    where feed.token = feed_token;
+$$;
+
+grant execute on function public.calendar_feed(text) to anon, authenticated;
@@ -0,0 +1,75 @@
+-- ISO 4217 currency codes and per-user exchange rates.
+-- Amounts used to carry a display symbol ('₱', '$', ...) which can't be converted reliably;
+-- symbols are mapped to codes here, and anything unrecognised is treated as PHP (the old default).
+-- Summaries convert each amount into the user's reporting currency with the rate in effect
+-- on its date, so rates are kept per day rather than as a single current value.
+
+-- ============================================
+-- CURRENCY CODES
+-- ============================================
+
+create or replace function public.currency_code(value text)
+returns text
+language sql
+immutable
+as $$
+    select case
+        when upper(trim(value)) ~ '^[A-Z]{3}$' then upper(trim(value))
+        when trim(value) = '$' then 'USD'
+        when trim(value) = '€' then 'EUR'
+        when trim(value) = '£' then 'GBP'
+        when trim(value) = '¥' then 'JPY'
+        when trim(value) = '₩' then 'KRW'
+        when trim(value) = '₹' then 'INR'
+        else 'PHP'
+    end;
+$$;
+
+update public.revenues set currency = public.currency_code(currency) where currency !~ '^[A-Z]{3}$';
+update public.goals set budget_currency = public.currency_code(budget_currency) where budget_currency !~ '^[A-Z]{3}$';
+
+alter table public.revenues alter column currency set default 'PHP';
+alter table public.goals alter column budget_currency set default 'PHP';
+
+alter table public.revenues drop constraint if exists revenues_currency_check;
+alter table public.revenues add constraint revenues_currency_check check (currency ~ '^[A-Z]{3}$');
+alter table public.goals drop constraint if exists goals_budget_currency_check;
+alter table public.goals add constraint goals_budget_currency_check check (budget_currency ~ '^[A-Z]{3}$');
+
+-- ============================================
+-- EXCHANGE RATES
+-- ============================================
+
+-- 1 from_currency = rate to_currency on rate_date. Entered by hand; a rate applies from its
+-- date until the next one for the same pair.
+create table if not exists public.exchange_rates (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid default auth.uid() references auth.users (id) on delete cascade,
+    from_currency text not null check (from_currency ~ '^[A-Z]{3}$'),
+    to_currency text not null check (to_currency ~ '^[A-Z]{3}$' and to_currency <> from_currency),
+    rate numeric(18, 8) not null check (rate > 0),
+    rate_date date not null,
+    created_at timestamptz not null default now(),
+    unique (user_id, from_currency, to_currency, rate_date)
+);
+
+create index if not exists exchange_rates_user_id_idx on public.exchange_rates (user_id);
+
+alter table public.exchange_rates enable row level security;
+
+drop policy if exists "Owners manage their exchange rates" on public.exchange_rates;
+create policy "Owners manage their exchange rates" on public.exchange_rates
+    for all to authenticated
+    using (user_id = auth.uid())
+    with check (user_id = auth.uid());
+
+do $$
+begin
+    if not exists (
+        select 1 from pg_publication_tables
+        where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'exchange_rates'
+    ) then
+        alter publication supabase_realtime add table public.exchange_rates;
+    end if;
+end;
+$$;
@@ -0,0 +1,104 @@
+-- Clients and invoices. An invoice bills one or more revenue entries (its line items) to a
+-- client, in a single currency, with an optional discount and a tax rate on top.
+-- 'overdue' is not stored: a sent invoice whose due date has passed is shown as overdue.
+
+-- ============================================
+-- CLIENTS
+-- ============================================
+
+create table if not exists public.clients (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid default auth.uid() references auth.users (id) on delete cascade,
+    name text not null,
+    email text,
+    phone text,
+    billing_address text,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists clients_user_id_idx on public.clients (user_id);
+
+-- ============================================
+-- INVOICES
+-- ============================================
+
+-- Clients with invoices can't be deleted; the invoices have to go first
+create table if not exists public.invoices (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid default auth.uid() references auth.users (id) on delete cascade,
+    client_id uuid references public.clients (id) on delete restrict,
+    number text not null,
+    status text not null default 'draft' check (status in ('draft', 'sent', 'paid')),
+    issue_date date not null,
+    due_date date not null,
+    currency text not null default 'PHP' check (currency ~ '^[A-Z]{3}$'),
+    tax_rate numeric(6, 3) not null default 0 check (tax_rate >= 0),
+    discount numeric(12, 2) not null default 0 check (discount >= 0),
+    notes text,
+    paid_at timestamptz,
+    created_at timestamptz not null default now(),
+    unique (user_id, number)
+);
+
+create index if not exists invoices_user_id_idx on public.invoices (user_id);
+create index if not exists invoices_client_id_idx on public.invoices (client_id);
+
+-- Line items: each revenue entry is billed on at most one invoice
+create table if not exists public.invoice_items (
+    id uuid primary key default gen_random_uuid(),
+    invoice_id uuid not null references public.invoices (id) on delete cascade,
+    revenue_id uuid not null references public.revenues (id) on delete cascade,
+    position integer not null default 0,
+    unique (revenue_id)
+);
+
+create index if not exists invoice_items_invoice_id_idx on public.invoice_items (invoice_id);
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+
+alter table public.clients enable row level security;
+alter table public.invoices enable row level security;
+alter table public.invoice_items enable row level security;
+
+drop policy if exists "Owners manage their clients" on public.clients;
+create policy "Owners manage their clients" on public.clients
+    for all to authenticated
+    using (user_id = auth.uid())
+    with check (user_id = auth.uid());
+
+drop policy if exists "Owners manage their invoices" on public.invoices;
+create policy "Owners manage their invoices" on public.invoices
+    for all to authenticated
+    using (user_id = auth.uid())
+    with check (user_id = auth.uid());
+
+-- Items follow their invoice, and may only bill the owner's own revenue
+drop policy if exists "Owners manage their invoice items" on public.invoice_items;
+create policy "Owners manage their invoice items" on public.invoice_items
+    for all to authenticated
+    using (exists (select 1 from public.invoices i where i.id = invoice_id and i.user_id = auth.uid()))
+    with check (
+        exists (select 1 from public.invoices i where i.id = invoice_id and i.user_id = auth.uid())
+        and exists (select 1 from public.revenues r where r.id = revenue_id and r.user_id = auth.uid())
+    );
+
+-- ============================================
+-- REALTIME
+-- ============================================
+
+do $$
+declare
+    t text;
+begin
+    foreach t in array array['clients', 'invoices', 'invoice_items'] loop
+        if not exists (
+            select 1 from pg_publication_tables
+            where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = t
+        ) then
+            execute format('alter publication supabase_realtime add table public.%I', t);
+        end if;
+    end loop;
+end;
+$$;
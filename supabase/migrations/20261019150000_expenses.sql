@@ -0,0 +1,40 @@
+-- Expenses, so profit can be reported next to revenue. An expense may name the project it was
+-- spent on (matched to revenues.project_name by name, like the revenue breakdowns) and carry a
+-- receipt uploaded to the attachments bucket. Deleting an expense moves it to the Trash.
+
+create table if not exists public.expenses (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid default auth.uid() references auth.users (id) on delete cascade,
+    description text not null,
+    amount numeric(12, 2) not null default 0 check (amount >= 0),
+    currency text not null default 'PHP' check (currency ~ '^[A-Z]{3}$'),
+    category text not null default 'Other',
+    expense_date date not null,
+    project_name text,
+    receipt_name text,
+    receipt_url text,
+    created_at timestamptz not null default now(),
+    deleted_at timestamptz
+);
+
+create index if not exists expenses_user_id_idx on public.expenses (user_id);
+create index if not exists expenses_deleted_at_idx on public.expenses (deleted_at) where deleted_at is not null;
+
+alter table public.expenses enable row level security;
+
+drop policy if exists "Owners manage their expenses" on public.expenses;
+create policy "Owners manage their expenses" on public.expenses
+    for all to authenticated
+    using (user_id = auth.uid())
+    with check (user_id = auth.uid());
+
+do $$
+begin
+    if not exists (
+        select 1 from pg_publication_tables
+        where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'expenses'
+    ) then
+        alter publication supabase_realtime add table public.expenses;
+    end if;
+end;
+$$;
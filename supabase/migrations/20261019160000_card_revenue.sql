@@ -0,0 +1,14 @@
+-- Cards can carry the price and project they will be billed under, and a revenue entry can
+-- point back at the card it was recorded from. Moving a card to Completed offers to record
+-- that revenue; the link lets the card show what was billed and the revenue show its card.
+
+alter table public.kanban_cards add column if not exists price numeric(12, 2) check (price >= 0);
+alter table public.kanban_cards add column if not exists currency text check (currency ~ '^[A-Z]{3}$');
+alter table public.kanban_cards add column if not exists project_name text;
+
+-- Purging a card keeps the income; only the link goes
+alter table public.revenues add column if not exists source_card_id uuid
+    references public.kanban_cards (id) on delete set null;
+
+create index if not exists revenues_source_card_id_idx on public.revenues (source_card_id)
+    where source_card_id is not null;
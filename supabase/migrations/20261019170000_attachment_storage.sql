@@ -0,0 +1,35 @@
+-- Uploaded attachments live in the attachments bucket; rows keep the public URL plus the
+-- object path, a thumbnail for images and the file's type and size. Plans used to store
+-- files inline as data URLs in plan_attachments.url, which every plan fetch then carried;
+-- the app moves those into the bucket on first load (migrateInlineAttachments), since
+-- objects can't be uploaded from SQL. Rows with a storage_path are done.
+
+alter table public.plan_attachments add column if not exists storage_path text;
+alter table public.plan_attachments add column if not exists thumbnail_url text;
+alter table public.plan_attachments add column if not exists mime_type text;
+alter table public.plan_attachments add column if not exists size_bytes bigint;
+
+alter table public.card_attachments add column if not exists storage_path text;
+alter table public.card_attachments add column if not exists thumbnail_url text;
+alter table public.card_attachments add column if not exists mime_type text;
+alter table public.card_attachments add column if not exists size_bytes bigint;
+
+-- Same limits as lib/attachmentService.ts, so a direct API upload can't get around them
+update storage.buckets
+set file_size_limit = 10485760,
+    allowed_mime_types = array[
+        'image/*',
+        'audio/*',
+        'video/*',
+        'text/*',
+        'application/pdf',
+        'application/json',
+        'application/zip',
+        'application/msword',
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        'application/vnd.ms-excel',
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'application/vnd.ms-powerpoint',
+        'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+    ]
+where id = 'attachments';
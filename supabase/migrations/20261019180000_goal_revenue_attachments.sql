@@ -0,0 +1,71 @@
+-- Attachments on goals (reference images, quotes) and revenue entries (receipts), with the
+-- same columns as card_attachments. Rows follow their parent's owner, like the goal checklist;
+-- trashing a goal or revenue keeps them, purging deletes them.
+
+create table if not exists public.goal_attachments (
+    id uuid primary key default gen_random_uuid(),
+    goal_id uuid not null references public.goals (id) on delete cascade,
+    type text not null,
+    name text not null,
+    url text not null,
+    storage_path text,
+    thumbnail_url text,
+    mime_type text,
+    size_bytes bigint
+);
+
+create index if not exists goal_attachments_goal_id_idx on public.goal_attachments (goal_id);
+
+create table if not exists public.revenue_attachments (
+    id uuid primary key default gen_random_uuid(),
+    revenue_id uuid not null references public.revenues (id) on delete cascade,
+    type text not null,
+    name text not null,
+    url text not null,
+    storage_path text,
+    thumbnail_url text,
+    mime_type text,
+    size_bytes bigint
+);
+
+create index if not exists revenue_attachments_revenue_id_idx on public.revenue_attachments (revenue_id);
+
+create or replace function public.owns_revenue(target uuid)
+returns boolean
+language sql
+stable
+security invoker
+as $$
+    select exists (select 1 from public.revenues where id = target and user_id = auth.uid());
+$$;
+
+alter table public.goal_attachments enable row level security;
+alter table public.revenue_attachments enable row level security;
+
+drop policy if exists "Goal owners manage attachments" on public.goal_attachments;
+create policy "Goal owners manage attachments" on public.goal_attachments
+    for all to authenticated
+    using (public.owns_goal(goal_id))
+    with check (public.owns_goal(goal_id));
+
+drop policy if exists "Revenue owners manage attachments" on public.revenue_attachments;
+create policy "Revenue owners manage attachments" on public.revenue_attachments
+    for all to authenticated
+    using (public.owns_revenue(revenue_id))
+    with check (public.owns_revenue(revenue_id));
+
+do $$
+declare
+    target text;
+begin
+    foreach target in array array['goal_attachments', 'revenue_attachments']
+    loop
+        if not exists (
+            select 1 from pg_publication_tables
+            where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = target
+        ) then
+            execute format('alter publication supabase_realtime add table public.%I', target);
+        end if;
+    end loop;
+end;
+$$;
@@ -0,0 +1,53 @@
+-- Checklist items and comments on plans, with the same columns as the goal checklist and
+-- comments. Until now the board kept them on a kanban_cards row created for the plan just to
+-- hold them; the plan's card now reads and writes these tables directly.
+
+create table if not exists public.plan_checklist_items (
+    id uuid primary key default gen_random_uuid(),
+    plan_id uuid not null references public.plans (id) on delete cascade,
+    text text not null,
+    completed boolean not null default false
+);
+
+create index if not exists plan_checklist_items_plan_id_idx on public.plan_checklist_items (plan_id);
+
+create table if not exists public.plan_comments (
+    id uuid primary key default gen_random_uuid(),
+    plan_id uuid not null references public.plans (id) on delete cascade,
+    text text not null,
+    is_marked_done boolean not null default false,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists plan_comments_plan_id_idx on public.plan_comments (plan_id);
+
+alter table public.plan_checklist_items enable row level security;
+alter table public.plan_comments enable row level security;
+
+drop policy if exists "Plan owners manage checklist" on public.plan_checklist_items;
+create policy "Plan owners manage checklist" on public.plan_checklist_items
+    for all to authenticated
+    using (public.owns_plan(plan_id))
+    with check (public.owns_plan(plan_id));
+
+drop policy if exists "Plan owners manage comments" on public.plan_comments;
+create policy "Plan owners manage comments" on public.plan_comments
+    for all to authenticated
+    using (public.owns_plan(plan_id))
+    with check (public.owns_plan(plan_id));
+
+do $$
+declare
+    target text;
+begin
+    foreach target in array array['plan_checklist_items', 'plan_comments']
+    loop
+        if not exists (
+            select 1 from pg_publication_tables
+            where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = target
+        ) then
+            execute format('alter publication supabase_realtime add table public.%I', target);
+        end if;
+    end loop;
+end;
+$$;
@@ -0,0 +1,26 @@
+-- Moves the checklist items and comments kept on a plan's kanban_cards row (see
+-- 20261019190000_plan_checklist_comments) onto the plan itself. The board now shows the plan's
+-- own lists on that card, so anything left on the card row would no longer be visible.
+-- Row ids are kept, so running this again copies nothing twice.
+
+insert into public.plan_checklist_items (id, plan_id, text, completed)
+select i.id, c.linked_plan_id, i.text, i.completed
+from public.card_checklist_items i
+join public.kanban_cards c on c.id = i.card_id
+where c.linked_plan_id is not null
+on conflict (id) do nothing;
+
+insert into public.plan_comments (id, plan_id, text, is_marked_done, created_at)
+select m.id, c.linked_plan_id, m.text, m.is_marked_done, m.created_at
+from public.card_comments m
+join public.kanban_cards c on c.id = m.card_id
+where c.linked_plan_id is not null
+on conflict (id) do nothing;
+
+delete from public.card_checklist_items i
+using public.kanban_cards c
+where c.id = i.card_id and c.linked_plan_id is not null;
+
+delete from public.card_comments m
+using public.kanban_cards c
+where c.id = m.card_id and c.linked_plan_id is not null;